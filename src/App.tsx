@@ -16,11 +16,15 @@ import Tasks from "./pages/Tasks";
 import Reports from "./pages/Reports";
 import Files from "./pages/Files";
 import Knowledge from "./pages/Knowledge";
+import ExtractionReview from "./pages/ExtractionReview";
+import Formulations from "./pages/Formulations";
+import DataExplorer from "./pages/DataExplorer";
 import Settings from "./pages/Settings";
 import AcceptInvite from "./pages/AcceptInvite";
 import NotFound from "./pages/NotFound";
 import Assistant from "./pages/Assistant";
 import Admin from "./pages/Admin";
+import RagQuality from "./pages/RagQuality";
 import ResetPassword from "./pages/ResetPassword";
 
 const queryClient = new QueryClient();
@@ -110,6 +114,30 @@ const App = () => (
                 </AppLayout>
               }
             />
+            <Route
+              path="/extraction-review/:jobId"
+              element={
+                <AppLayout>
+                  <ExtractionReview />
+                </AppLayout>
+              }
+            />
+            <Route
+              path="/data-explorer"
+              element={
+                <AppLayout>
+                  <DataExplorer />
+                </AppLayout>
+              }
+            />
+            <Route
+              path="/formulations"
+              element={
+                <AppLayout>
+                  <Formulations />
+                </AppLayout>
+              }
+            />
             <Route
               path="/settings"
               element={
@@ -126,6 +154,14 @@ const App = () => (
                 </AppLayout>
               }
             />
+            <Route
+              path="/rag-quality"
+              element={
+                <AppLayout>
+                  <RagQuality />
+                </AppLayout>
+              }
+            />
 
             {/* 404 */}
             <Route path="*" element={<NotFound />} />
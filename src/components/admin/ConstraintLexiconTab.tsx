@@ -0,0 +1,423 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Search, Plus, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+
+type LexiconRow = Tables<'constraint_lexicon'>;
+type EntityType = 'material' | 'additive' | 'property';
+type TypeFilter = 'all' | EntityType;
+
+const TYPE_LABELS: Record<EntityType, string> = {
+  material: 'Material',
+  additive: 'Aditivo',
+  property: 'Propriedade',
+};
+
+interface LexiconForm {
+  entity_type: EntityType;
+  canonical_name: string;
+  display_name: string;
+  match_patterns: string;
+  search_terms: string;
+  strong_alone: boolean;
+  active: boolean;
+  notes: string;
+}
+
+const EMPTY_FORM: LexiconForm = {
+  entity_type: 'material',
+  canonical_name: '',
+  display_name: '',
+  match_patterns: '',
+  search_terms: '',
+  strong_alone: false,
+  active: true,
+  notes: '',
+};
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map(v => v.trim()).filter(Boolean);
+}
+
+function splitTerms(value: string): string[] {
+  return value.split(/[,\n]/).map(v => v.trim().toLowerCase()).filter(Boolean);
+}
+
+function invalidPatterns(patterns: string[]): string[] {
+  return patterns.filter(p => {
+    try {
+      new RegExp(p, 'i');
+      return false;
+    } catch {
+      return true;
+    }
+  });
+}
+
+export function ConstraintLexiconTab() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<LexiconRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+
+  // Create/edit dialog
+  const [editOpen, setEditOpen] = useState(false);
+  const [editTarget, setEditTarget] = useState<LexiconRow | null>(null);
+  const [form, setForm] = useState<LexiconForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  // Delete dialog
+  const [deleteTarget, setDeleteTarget] = useState<LexiconRow | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('constraint_lexicon')
+      .select('*')
+      .order('entity_type')
+      .order('canonical_name');
+    if (error) {
+      toast.error('Erro ao carregar léxico');
+      console.error(error);
+    }
+    setEntries(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { fetchEntries(); }, [fetchEntries]);
+
+  const filtered = entries.filter(e => {
+    if (typeFilter !== 'all' && e.entity_type !== typeFilter) return false;
+    if (search) {
+      const q = search.toLowerCase();
+      const haystack = [e.canonical_name, e.display_name || '', ...e.search_terms].join(' ').toLowerCase();
+      if (!haystack.includes(q)) return false;
+    }
+    return true;
+  });
+
+  const openCreate = () => {
+    setEditTarget(null);
+    setForm(EMPTY_FORM);
+    setEditOpen(true);
+  };
+
+  const openEdit = (row: LexiconRow) => {
+    setEditTarget(row);
+    setForm({
+      entity_type: row.entity_type as EntityType,
+      canonical_name: row.canonical_name,
+      display_name: row.display_name || '',
+      match_patterns: row.match_patterns.join('\n'),
+      search_terms: row.search_terms.join(', '),
+      strong_alone: row.strong_alone,
+      active: row.active,
+      notes: row.notes || '',
+    });
+    setEditOpen(true);
+  };
+
+  const handleSave = async () => {
+    const canonical = form.canonical_name.trim().toLowerCase().replace(/\s+/g, '_');
+    if (!canonical) {
+      toast.error('Nome canônico é obrigatório');
+      return;
+    }
+    const patterns = splitLines(form.match_patterns);
+    const bad = invalidPatterns(patterns);
+    if (bad.length > 0) {
+      toast.error(`Padrão inválido: ${bad[0]}`);
+      return;
+    }
+    const terms = splitTerms(form.search_terms);
+    if (patterns.length === 0 && terms.length === 0) {
+      toast.error('Informe ao menos um padrão ou termo de busca');
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      entity_type: form.entity_type,
+      canonical_name: canonical,
+      display_name: form.display_name.trim() || null,
+      match_patterns: patterns,
+      search_terms: terms,
+      strong_alone: form.strong_alone,
+      active: form.active,
+      notes: form.notes.trim() || null,
+    };
+    const { error } = editTarget
+      ? await supabase.from('constraint_lexicon').update(payload).eq('id', editTarget.id)
+      : await supabase.from('constraint_lexicon').insert({ ...payload, created_by: user?.id });
+
+    if (error) {
+      toast.error(error.code === '23505' ? 'Já existe uma entrada com este tipo e nome canônico' : 'Erro ao salvar entrada');
+    } else {
+      toast.success(editTarget ? 'Entrada atualizada' : 'Entrada criada');
+      setEditOpen(false);
+      fetchEntries();
+    }
+    setSaving(false);
+  };
+
+  const handleToggleActive = async (row: LexiconRow) => {
+    const { error } = await supabase
+      .from('constraint_lexicon')
+      .update({ active: !row.active })
+      .eq('id', row.id);
+    if (error) toast.error('Erro ao atualizar entrada');
+    else fetchEntries();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    const { error } = await supabase.from('constraint_lexicon').delete().eq('id', deleteTarget.id);
+    if (error) toast.error('Erro ao remover entrada');
+    else { toast.success(`"${deleteTarget.canonical_name}" removido`); fetchEntries(); }
+    setDeleting(false);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Materiais, aditivos e propriedades reconhecidos como restrições nas perguntas ao assistente.
+        Aliases aprovados e aliases do catálogo de métricas também são usados automaticamente.
+      </p>
+
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="relative flex-1 min-w-[200px] max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Buscar nome ou termo..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as TypeFilter)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Tipo" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos</SelectItem>
+            <SelectItem value="material">Materiais</SelectItem>
+            <SelectItem value="additive">Aditivos</SelectItem>
+            <SelectItem value="property">Propriedades</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button onClick={openCreate} className="gap-2 ml-auto">
+          <Plus className="h-4 w-4" />
+          Nova entrada
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome Canônico</TableHead>
+                <TableHead>Exibição</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Padrões</TableHead>
+                <TableHead>Termos de busca</TableHead>
+                <TableHead>Forte isolado</TableHead>
+                <TableHead>Ativo</TableHead>
+                <TableHead className="w-[90px]">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    Nenhuma entrada encontrada
+                  </TableCell>
+                </TableRow>
+              ) : filtered.map((e) => (
+                <TableRow key={e.id} className={e.active ? '' : 'opacity-60'}>
+                  <TableCell className="font-mono text-sm">{e.canonical_name}</TableCell>
+                  <TableCell className="font-medium">{e.display_name || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{TYPE_LABELS[e.entity_type as EntityType] || e.entity_type}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs max-w-[220px] truncate" title={e.match_patterns.join('\n')}>
+                    {e.match_patterns.join(' · ') || '—'}
+                  </TableCell>
+                  <TableCell className="text-xs max-w-[220px] truncate" title={e.search_terms.join(', ')}>
+                    {e.search_terms.join(', ') || '—'}
+                  </TableCell>
+                  <TableCell>{e.strong_alone ? <Badge className="bg-yellow-500 text-white">Sim</Badge> : '—'}</TableCell>
+                  <TableCell>
+                    <Switch checked={e.active} onCheckedChange={() => handleToggleActive(e)} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEdit(e)} title="Editar">
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => setDeleteTarget(e)} title="Remover">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editTarget ? 'Editar entrada do léxico' : 'Nova entrada do léxico'}</DialogTitle>
+            <DialogDescription>
+              Padrões são expressões regulares testadas contra a pergunta (minúscula, sem acentos).
+              Termos de busca são usados para procurar evidência no projeto.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={form.entity_type} onValueChange={(v) => setForm({ ...form, entity_type: v as EntityType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="material">Material</SelectItem>
+                    <SelectItem value="additive">Aditivo</SelectItem>
+                    <SelectItem value="property">Propriedade</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lexCanonical">Nome canônico *</Label>
+                <Input
+                  id="lexCanonical"
+                  value={form.canonical_name}
+                  onChange={(e) => setForm({ ...form, canonical_name: e.target.value })}
+                  placeholder="ex.: silver_nanoparticles"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lexDisplay">Nome de exibição</Label>
+              <Input
+                id="lexDisplay"
+                value={form.display_name}
+                onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+                placeholder="ex.: Ag/prata/silver"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lexPatterns">Padrões (um por linha)</Label>
+              <Textarea
+                id="lexPatterns"
+                value={form.match_patterns}
+                onChange={(e) => setForm({ ...form, match_patterns: e.target.value })}
+                placeholder={'prata|silver|\\bag\\b'}
+                className="font-mono text-xs min-h-[70px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lexTerms">Termos de busca (separados por vírgula)</Label>
+              <Textarea
+                id="lexTerms"
+                value={form.search_terms}
+                onChange={(e) => setForm({ ...form, search_terms: e.target.value })}
+                placeholder="silver, prata, agnp"
+                className="min-h-[60px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lexNotes">Notas</Label>
+              <Input
+                id="lexNotes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="lexStrong"
+                  checked={form.strong_alone}
+                  onCheckedChange={(v) => setForm({ ...form, strong_alone: v })}
+                />
+                <Label htmlFor="lexStrong">Restrição forte mesmo isolada</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="lexActive"
+                  checked={form.active}
+                  onCheckedChange={(v) => setForm({ ...form, active: v })}
+                />
+                <Label htmlFor="lexActive">Ativo</Label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setEditOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => { if (!open) setDeleteTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover entrada</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remover <strong>{deleteTarget?.canonical_name}</strong> do léxico? Perguntas que mencionem este termo
+              deixarão de ser tratadas como restrição (a menos que exista um alias aprovado).
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { FileText, Loader2, Plus, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ChatMessage } from '@/hooks/useAssistantChat';
+import {
+  type ExpectedSource,
+  type FeedbackRating,
+  type FeedbackReason,
+  FEEDBACK_REASONS,
+  FEEDBACK_REASON_LABELS,
+  useAnswerFeedback,
+  useSubmitAnswerFeedback,
+} from '@/hooks/useAnswerFeedback';
+import { toast } from 'sonner';
+
+// Files the user can see, by name, for "this source should have been cited"
+function ExpectedSourcePicker({ value, onChange }: { value: ExpectedSource[]; onChange: (next: ExpectedSource[]) => void }) {
+  const [term, setTerm] = useState('');
+  const search = term.trim();
+
+  const { data: files, isFetching } = useQuery({
+    queryKey: ['feedback-source-search', search],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_files')
+        .select('id, name, projects(name)')
+        .is('deleted_at', null)
+        .ilike('name', `%${search}%`)
+        .order('name')
+        .limit(6);
+      if (error) throw error;
+      return data;
+    },
+    enabled: search.length >= 2,
+  });
+
+  const selectedIds = new Set(value.map(s => s.id));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(source => (
+            <Badge key={source.id} variant="secondary" className="gap-1 font-normal">
+              <FileText className="h-3 w-3" />
+              <span className="max-w-[180px] truncate">{source.title}</span>
+              <button type="button" onClick={() => onChange(value.filter(s => s.id !== source.id))}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder="Buscar arquivo pelo nome..."
+        className="h-8 text-xs"
+        value={term}
+        onChange={e => setTerm(e.target.value)}
+      />
+      {search.length >= 2 && (
+        <div className="max-h-32 overflow-y-auto rounded-md border">
+          {isFetching ? (
+            <div className="flex justify-center p-2"><Loader2 className="h-3.5 w-3.5 animate-spin" /></div>
+          ) : (files || []).filter(f => !selectedIds.has(f.id)).length === 0 ? (
+            <p className="p-2 text-xs text-muted-foreground">Nenhum arquivo encontrado.</p>
+          ) : (files || []).filter(f => !selectedIds.has(f.id)).map(file => (
+            <button
+              key={file.id}
+              type="button"
+              className="flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-accent"
+              onClick={() => {
+                onChange([...value, { type: 'file', id: file.id, title: file.name }]);
+                setTerm('');
+              }}
+            >
+              <Plus className="h-3 w-3 shrink-0" />
+              <span className="truncate">{file.name}</span>
+              {file.projects?.name && <span className="ml-auto shrink-0 text-muted-foreground">{file.projects.name}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AnswerFeedbackProps {
+  message: ChatMessage;
+  question?: string;
+}
+
+export function AnswerFeedback({ message, question }: AnswerFeedbackProps) {
+  const { data: feedback } = useAnswerFeedback(message.id);
+  const submit = useSubmitAnswerFeedback();
+  const [open, setOpen] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [correction, setCorrection] = useState('');
+  const [expectedSources, setExpectedSources] = useState<ExpectedSource[]>([]);
+
+  // Reopening the form shows what was sent before
+  useEffect(() => {
+    if (!open) return;
+    setReasons((feedback?.reasons || []) as FeedbackReason[]);
+    setCorrection(feedback?.correction || '');
+    setExpectedSources((feedback?.expected_sources || []) as unknown as ExpectedSource[]);
+  }, [open, feedback]);
+
+  const send = (rating: FeedbackRating) => {
+    submit.mutate({
+      messageId: message.id,
+      requestId: message.requestId,
+      rating,
+      reasons: rating === 'down' ? reasons : [],
+      correction: rating === 'down' ? correction : feedback?.correction || '',
+      expectedSources: rating === 'down' ? expectedSources : [],
+      question,
+      answer: message.content,
+    }, {
+      onSuccess: () => {
+        setOpen(false);
+        toast.success(rating === 'up' ? 'Obrigado pelo feedback!' : 'Feedback enviado para revisão');
+      },
+    });
+  };
+
+  const toggleReason = (reason: FeedbackReason, checked: boolean) => {
+    setReasons(prev => checked ? [...prev, reason] : prev.filter(r => r !== reason));
+  };
+
+  const rating = feedback?.rating as FeedbackRating | undefined;
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-6 w-6', rating === 'up' ? 'text-primary' : 'opacity-0 group-hover:opacity-100 transition-opacity')}
+            disabled={submit.isPending}
+            onClick={() => send('up')}
+          >
+            <ThumbsUp className={cn('h-3.5 w-3.5', rating === 'up' && 'fill-current')} />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>Resposta útil</TooltipContent>
+      </Tooltip>
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn('h-6 w-6', rating === 'down' ? 'text-destructive' : 'opacity-0 group-hover:opacity-100 transition-opacity')}
+              >
+                <ThumbsDown className={cn('h-3.5 w-3.5', rating === 'down' && 'fill-current')} />
+              </Button>
+            </PopoverTrigger>
+          </TooltipTrigger>
+          <TooltipContent>Resposta com problema</TooltipContent>
+        </Tooltip>
+        <PopoverContent className="w-80 space-y-3" align="start">
+          <div>
+            <h4 className="text-sm font-medium">O que está errado?</h4>
+            <p className="text-xs text-muted-foreground">Os gerentes do projeto revisam este feedback.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {FEEDBACK_REASONS.map(reason => (
+              <label key={reason} className="flex items-center gap-2 text-xs cursor-pointer">
+                <Checkbox
+                  checked={reasons.includes(reason)}
+                  onCheckedChange={checked => toggleReason(reason, checked === true)}
+                />
+                {FEEDBACK_REASON_LABELS[reason]}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Correção</Label>
+            <Textarea
+              placeholder="Como deveria ser a resposta (valores, conclusão, ressalvas)..."
+              className="min-h-[72px] text-xs"
+              value={correction}
+              onChange={e => setCorrection(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Fonte que deveria ter sido citada</Label>
+            <ExpectedSourcePicker value={expectedSources} onChange={setExpectedSources} />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>Cancelar</Button>
+            <Button size="sm" disabled={submit.isPending} onClick={() => send('down')}>
+              {submit.isPending && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              Enviar
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
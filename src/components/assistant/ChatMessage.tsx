@@ -9,26 +9,58 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { Bot, User, AlertCircle, Lightbulb, DatabaseZap, Loader2, Check } from 'lucide-react';
+import { Bot, User, AlertCircle, Lightbulb, DatabaseZap, Loader2, Check, CornerDownRight, History, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { ChatMessage as ChatMessageType } from '@/hooks/useAssistantChat';
+import type { ChatMessage as ChatMessageType, ChatStreamStage } from '@/hooks/useAssistantChat';
 import { SaveInsightModal } from './SaveInsightModal';
+import { AnswerFeedback } from './AnswerFeedback';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 
+// Short pt-BR label for a rag-answer stage event (null = not worth showing)
+function describeStage(s: ChatStreamStage): string | null {
+  switch (s.stage) {
+    case 'cache':
+      return s.hit ? 'Resposta reaproveitada' : null;
+    case 'gate':
+      return s.ran ? (s.passed ? 'Evidências confirmadas' : 'Evidência ausente') : null;
+    case 'routing':
+      return `Pipeline: ${s.pipeline}`;
+    case 'retrieval':
+      if (typeof s.chunks === 'number') return `${s.chunks} trechos recuperados`;
+      if (typeof s.experiments === 'number') return `${s.experiments} experimentos`;
+      if (typeof s.variants === 'number') return `${s.variants} variantes tabulares`;
+      if (typeof s.measurements === 'number') return `${s.measurements} medições agregadas`;
+      return 'Evidências recuperadas';
+    case 'evidence_plan':
+      return s.deep_read ? 'Plano de evidências + leitura profunda' : 'Plano de evidências';
+    case 'model':
+      return `Modelo: ${s.tier}`;
+    case 'synthesis':
+      return 'Gerando resposta';
+    case 'verification':
+      return s.verified ? 'Verificação ✓' : `Verificação: ${s.unmatched ?? s.issues ?? 0} pendência(s)`;
+    default:
+      return null;
+  }
+}
+
 interface ChatMessageProps {
   message: ChatMessageType;
   onSourceClick?: (citation: string) => void;
   userQuestion?: string; // The preceding user message for evidence
+  onRefresh?: (messageId: string) => void;
 }
 
-export function ChatMessage({ message, onSourceClick, userQuestion }: ChatMessageProps) {
+export function ChatMessage({ message, onSourceClick, userQuestion, onRefresh }: ChatMessageProps) {
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [savingInsights, setSavingInsights] = useState(false);
   const [insightsSaved, setInsightsSaved] = useState<number | null>(null);
   const isUser = message.role === 'user';
   const isError = message.isError;
   const isAnalysis = !!message.analysisFileId;
+  const isStreaming = !!message.isStreaming;
+  const stageLabels = (message.stages || []).map(describeStage).filter((l): l is string => !!l);
 
   const handleSaveAnalysisInsights = async () => {
     if (!message.analysisFileId || !message.analysisProjectId) return;
@@ -116,7 +148,7 @@ export function ChatMessage({ message, onSourceClick, userQuestion }: ChatMessag
               })}
             </span>
             {/* Save insight button for assistant messages */}
-            {!isUser && !isError && (
+            {!isUser && !isError && !isStreaming && (
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -131,9 +163,80 @@ export function ChatMessage({ message, onSourceClick, userQuestion }: ChatMessag
                 <TooltipContent>Salvar na Base de Conhecimento</TooltipContent>
               </Tooltip>
             )}
+            {!isUser && !isError && !isStreaming && !isAnalysis && (
+              <AnswerFeedback message={message} question={userQuestion} />
+            )}
           </div>
 
-          <div className="prose prose-sm dark:prose-invert max-w-none">
+          {!isUser && message.rewrittenQuery && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                  <CornerDownRight className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                  <span>
+                    Interpretado como: <span className="italic text-foreground/80">{message.rewrittenQuery}</span>
+                  </span>
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>Pergunta reescrita a partir do histórico da conversa antes da busca</TooltipContent>
+            </Tooltip>
+          )}
+
+          {!isUser && message.cachedAt && !isStreaming && (
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="flex items-center gap-1.5">
+                    <History className="h-3.5 w-3.5 shrink-0" />
+                    Resposta em cache de{' '}
+                    {new Date(message.cachedAt).toLocaleString('pt-BR', {
+                      day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit',
+                    })}
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  Pergunta igual ou equivalente já respondida, sem mudanças nos dados dos projetos desde então
+                </TooltipContent>
+              </Tooltip>
+              {onRefresh && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onRefresh(message.id)}>
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  Atualizar
+                </Button>
+              )}
+            </div>
+          )}
+
+          {stageLabels.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              {stageLabels.map((label, i) => (
+                <Badge key={i} variant="outline" className="text-[10px] font-normal text-muted-foreground">
+                  {label}
+                </Badge>
+              ))}
+              {isStreaming && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+          )}
+
+          {isStreaming && !message.content && (
+            <span className="text-xs text-muted-foreground">Analisando...</span>
+          )}
+
+          {isStreaming && message.content && (
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+              Prévia ainda não verificada — pode ser corrigida ou descartada
+            </div>
+          )}
+
+          {!isUser && message.draftReplaced && !isStreaming && (
+            <div className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+              A prévia exibida durante a geração foi substituída após a verificação; esta é a resposta final
+            </div>
+          )}
+
+          <div className={cn('prose prose-sm dark:prose-invert max-w-none', isStreaming && 'opacity-70')}>
             <ReactMarkdown
               remarkPlugins={[remarkGfm]}
               components={{
@@ -221,6 +324,9 @@ export function ChatMessage({ message, onSourceClick, userQuestion }: ChatMessag
             >
               {message.content}
             </ReactMarkdown>
+            {isStreaming && message.content && (
+              <span className="inline-block h-4 w-1.5 bg-foreground/60 animate-pulse align-text-bottom" />
+            )}
           </div>
 
           {message.sources && message.sources.length > 0 && (
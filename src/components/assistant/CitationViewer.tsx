@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { chunkBody } from '@/lib/citationLocator';
+import type { ChatSource } from '@/hooks/useAssistantChat';
+import { type WindowChunk, useCitationTarget } from '@/hooks/useCitationTarget';
+import { PdfCitationView } from './PdfCitationView';
+import { SheetCitationView } from './SheetCitationView';
+
+function ChunkWindowView({ chunks }: { chunks: WindowChunk[] }) {
+  const citedRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    citedRef.current?.scrollIntoView({ block: 'center' });
+  }, [chunks]);
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+      {chunks.map(chunk => (
+        <div
+          key={chunk.id}
+          ref={chunk.cited ? citedRef : undefined}
+          className={cn(
+            'rounded-md border p-3 text-sm whitespace-pre-wrap',
+            chunk.cited ? 'border-primary bg-primary/5' : 'text-muted-foreground',
+          )}
+        >
+          {chunk.cited && <Badge className="mb-2 text-xs">Trecho citado</Badge>}
+          {chunkBody(chunk.chunk_text)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CitationViewerProps {
+  source: ChatSource | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Opens a cited source at its evidence: PDF page, spreadsheet cells or the
+// surrounding text chunks
+export function CitationViewer({ source, onOpenChange }: CitationViewerProps) {
+  const { data: target, isLoading, error } = useCitationTarget(source);
+  const viewKey = `${source?.type}:${source?.id}:${source?.chunk_id}`;
+
+  return (
+    <Dialog open={!!source} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 pr-6">
+            {source && <Badge variant="outline" className="shrink-0">[{source.citation}]</Badge>}
+            <span className="truncate">{source?.title}</span>
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-1.5">
+            {target?.file && <FileText className="h-3.5 w-3.5 shrink-0" />}
+            <span className="truncate">
+              {[target?.file?.name, source?.project].filter(Boolean).join(' · ')}
+            </span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {target?.kind === 'sheet' && target.excerpt && (
+          <p className="text-xs text-muted-foreground border-l-2 pl-3 line-clamp-2">{target.excerpt}</p>
+        )}
+
+        <div className="flex-1 min-h-0 flex flex-col">
+          {isLoading ? (
+            <Skeleton className="h-full w-full" />
+          ) : error ? (
+            <p className="text-sm text-destructive py-6 text-center">
+              Erro ao localizar a fonte: {error instanceof Error ? error.message : String(error)}
+            </p>
+          ) : !target ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              Esta fonte não tem localização no documento original.
+            </p>
+          ) : target.kind === 'pdf' ? (
+            <PdfCitationView key={viewKey} file={target.file} page={target.page} excerpt={target.excerpt} />
+          ) : target.kind === 'sheet' ? (
+            <SheetCitationView key={viewKey} file={target.file} sheet={target.sheet} locator={target.locator} />
+          ) : (
+            <ChunkWindowView chunks={target.chunks} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
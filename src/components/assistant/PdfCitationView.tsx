@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { chunkBody, findExcerptSpans } from '@/lib/citationLocator';
+import { type CitedFile, useCitedFileBytes } from '@/hooks/useCitationTarget';
+
+// Pages searched for the excerpt when the citation has no page number
+const PAGE_SEARCH_LIMIT = 60;
+
+interface Highlight {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// pdf.js is only loaded when a PDF citation is opened
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+}
+
+function textItems(content: TextContent): TextItem[] {
+  return content.items.filter((item): item is TextItem => 'str' in item);
+}
+
+// Page text as one string, with the offset where each item starts
+function pageText(items: TextItem[]): { text: string; starts: number[] } {
+  let text = '';
+  const starts: number[] = [];
+  for (const item of items) {
+    starts.push(text.length);
+    text += item.str + (item.hasEOL ? '\n' : ' ');
+  }
+  return { text, starts };
+}
+
+interface PdfCitationViewProps {
+  file: CitedFile;
+  page: number | null;
+  excerpt: string;
+}
+
+export function PdfCitationView({ file, page, excerpt }: PdfCitationViewProps) {
+  const { data: bytes, isLoading, error } = useCitedFileBytes(file);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState<number | null>(page);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [rendering, setRendering] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const firstHighlightRef = useRef<HTMLDivElement>(null);
+  const body = useMemo(() => chunkBody(excerpt), [excerpt]);
+
+  useEffect(() => {
+    if (!bytes) return;
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    loadPdfjs()
+      // pdf.js takes ownership of the buffer it is given
+      .then(pdfjs => pdfjs.getDocument({ data: new Uint8Array(bytes.slice(0)) }).promise)
+      .then(pdf => {
+        opened = pdf;
+        if (cancelled) pdf.destroy();
+        else setDoc(pdf);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [bytes]);
+
+  // No page on the citation: first page whose text contains the excerpt
+  useEffect(() => {
+    if (!doc || pageNumber !== null) return;
+    let cancelled = false;
+    (async () => {
+      for (let n = 1; n <= Math.min(doc.numPages, PAGE_SEARCH_LIMIT); n++) {
+        const pdfPage = await doc.getPage(n);
+        const { text } = pageText(textItems(await pdfPage.getTextContent()));
+        if (cancelled) return;
+        if (findExcerptSpans(text, body).length > 0) {
+          setPageNumber(n);
+          return;
+        }
+      }
+      if (!cancelled) setPageNumber(1);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [doc, pageNumber, body]);
+
+  useEffect(() => {
+    if (!doc || pageNumber === null) return;
+    if (pageNumber > doc.numPages) {
+      setPageNumber(doc.numPages);
+      return;
+    }
+    let cancelled = false;
+    let task: RenderTask | null = null;
+    setRendering(true);
+    setHighlights([]);
+    (async () => {
+      const pdfjs = await loadPdfjs();
+      const pdfPage = await doc.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (!canvas || cancelled) return;
+
+      const width = containerRef.current?.clientWidth || 800;
+      const viewport = pdfPage.getViewport({ scale: width / pdfPage.getViewport({ scale: 1 }).width });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      task = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      await task.promise;
+
+      const items = textItems(await pdfPage.getTextContent());
+      const { text, starts } = pageText(items);
+      const spans = findExcerptSpans(text, body);
+      const boxes = items.flatMap((item, i) => {
+        const start = starts[i];
+        const end = start + item.str.length;
+        if (!item.str.trim() || !spans.some(([s, e]) => s < end && e > start)) return [];
+        const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+        const height = Math.hypot(tx[2], tx[3]);
+        return [{ left: tx[4], top: tx[5] - height, width: item.width * viewport.scale, height }];
+      });
+      if (!cancelled) setHighlights(boxes);
+    })()
+      .catch(err => {
+        // A cancelled render rejects too
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, pageNumber, body]);
+
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [highlights]);
+
+  if (error || loadError) {
+    return (
+      <p className="text-sm text-destructive py-6 text-center">
+        Não foi possível abrir o PDF: {error instanceof Error ? error.message : loadError}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 min-h-0 h-full">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            disabled={!doc || !pageNumber || pageNumber <= 1}
+            onClick={() => setPageNumber(n => (n ?? 1) - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground px-2">
+            {doc && pageNumber ? `Página ${pageNumber} de ${doc.numPages}` : 'Localizando trecho...'}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            disabled={!doc || !pageNumber || pageNumber >= doc.numPages}
+            onClick={() => setPageNumber(n => (n ?? 1) + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {rendering && <Loader2 className="h-3.5 w-3.5 animate-spin ml-2" />}
+        </div>
+        {!rendering && pageNumber !== null && (
+          highlights.length > 0
+            ? <Badge variant="secondary" className="text-xs">Trecho destacado</Badge>
+            : <Badge variant="outline" className="text-xs">Trecho não localizado nesta página</Badge>
+        )}
+      </div>
+
+      {!rendering && pageNumber !== null && highlights.length === 0 && body && (
+        <p className="text-xs text-muted-foreground border-l-2 pl-3 line-clamp-3">"{body}"</p>
+      )}
+
+      <div ref={containerRef} className="flex-1 min-h-0 overflow-auto rounded-md border bg-muted/30">
+        {(isLoading || !doc) && <Skeleton className="h-[600px] w-full" />}
+        <div className="relative mx-auto w-fit">
+          <canvas ref={canvasRef} className={doc ? 'block' : 'hidden'} />
+          {highlights.map((box, i) => (
+            <div
+              key={i}
+              ref={i === 0 ? firstHighlightRef : undefined}
+              className="absolute rounded-sm bg-yellow-300/40 mix-blend-multiply pointer-events-none"
+              style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
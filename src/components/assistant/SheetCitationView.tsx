@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import { type CellLocator, type CellRange, columnLetters, locateCells } from '@/lib/citationLocator';
+import { type CitedFile, useCitedFileBytes } from '@/hooks/useCitationTarget';
+
+// Rows rendered around the cited cells (or from the top without them)
+const ROWS_BEFORE = 30;
+const ROWS_AFTER = 60;
+const MAX_COLUMNS = 40;
+
+type Grid = string[][];
+
+// Every sheet as rows of display strings, indexed from A1 so cell
+// references line up with the grid
+async function readSheets(bytes: ArrayBuffer): Promise<{ names: string[]; grids: Record<string, Grid> }> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  const grids: Record<string, Grid> = {};
+  for (const name of workbook.SheetNames) {
+    const sheet = workbook.Sheets[name];
+    if (!sheet['!ref']) {
+      grids[name] = [];
+      continue;
+    }
+    const used = XLSX.utils.decode_range(sheet['!ref']);
+    grids[name] = XLSX.utils.sheet_to_json<string[]>(sheet, {
+      header: 1,
+      defval: '',
+      raw: false,
+      blankrows: true,
+      range: { s: { r: 0, c: 0 }, e: used.e },
+    });
+  }
+  return { names: workbook.SheetNames, grids };
+}
+
+function sameSheet(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+interface SheetCitationViewProps {
+  file: CitedFile;
+  sheet: string | null;
+  locator: CellLocator;
+}
+
+export function SheetCitationView({ file, sheet, locator }: SheetCitationViewProps) {
+  const { data: bytes, isLoading: downloading, error: downloadError } = useCitedFileBytes(file);
+  const { data: workbook, isLoading: parsing, error: parseError } = useQuery({
+    queryKey: ['cited-workbook', file.storage_path],
+    queryFn: () => readSheets(bytes!),
+    enabled: !!bytes,
+    staleTime: Infinity,
+  });
+  const citedSheet = useMemo(
+    () => (sheet && workbook?.names.find(name => sameSheet(name, sheet))) || workbook?.names[0] || null,
+    [workbook, sheet],
+  );
+  const [activeSheet, setActiveSheet] = useState<string | null>(null);
+  const firstCellRef = useRef<HTMLTableCellElement>(null);
+
+  useEffect(() => {
+    setActiveSheet(citedSheet);
+  }, [citedSheet]);
+
+  const grid = useMemo(() => (activeSheet && workbook?.grids[activeSheet]) || [], [workbook, activeSheet]);
+  const cells: CellRange | null = useMemo(
+    () => (activeSheet && activeSheet === citedSheet ? locateCells(grid, locator) : null),
+    [grid, activeSheet, citedSheet, locator],
+  );
+
+  const firstRow = cells ? Math.max(0, cells.r0 - ROWS_BEFORE) : 0;
+  const lastRow = Math.min(grid.length, (cells ? cells.r1 : 0) + ROWS_AFTER);
+  const rows = grid.slice(firstRow, lastRow);
+  const columnCount = Math.min(
+    MAX_COLUMNS,
+    Math.max(cells ? cells.c1 + 2 : 0, ...rows.map(row => row.length)),
+  );
+
+  useEffect(() => {
+    firstCellRef.current?.scrollIntoView({ block: 'center', inline: 'center' });
+  }, [cells]);
+
+  const error = downloadError || parseError;
+  if (error) {
+    return (
+      <p className="text-sm text-destructive py-6 text-center">
+        Não foi possível abrir a planilha: {error instanceof Error ? error.message : String(error)}
+      </p>
+    );
+  }
+  if (downloading || parsing || !workbook) return <Skeleton className="h-[500px] w-full" />;
+
+  const inRange = (r: number, c: number) =>
+    !!cells && r >= cells.r0 && r <= cells.r1 && c >= cells.c0 && c <= cells.c1;
+
+  return (
+    <div className="flex flex-col gap-2 min-h-0 h-full">
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={activeSheet || undefined} onValueChange={setActiveSheet} className="min-w-0 overflow-x-auto">
+          <TabsList>
+            {workbook.names.map(name => (
+              <TabsTrigger key={name} value={name} className="text-xs">{name}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {activeSheet === citedSheet && (
+          cells
+            ? (
+              <Badge variant="secondary" className="text-xs shrink-0">
+                {columnLetters(cells.c0)}{cells.r0 + 1}
+                {cells.r1 !== cells.r0 || cells.c1 !== cells.c0 ? `:${columnLetters(cells.c1)}${cells.r1 + 1}` : ''}
+              </Badge>
+            )
+            : <Badge variant="outline" className="text-xs shrink-0">Células não localizadas</Badge>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto rounded-md border">
+        <table className="text-xs border-collapse">
+          <thead className="sticky top-0 z-10 bg-muted">
+            <tr>
+              <th className="sticky left-0 z-20 bg-muted border px-2 py-1 w-10" />
+              {Array.from({ length: columnCount }, (_, c) => (
+                <th key={c} className="border px-2 py-1 font-medium text-muted-foreground">{columnLetters(c)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => {
+              const r = firstRow + i;
+              return (
+                <tr key={r}>
+                  <td className="sticky left-0 bg-muted border px-2 py-1 text-right text-muted-foreground">{r + 1}</td>
+                  {Array.from({ length: columnCount }, (_, c) => {
+                    const highlighted = inRange(r, c);
+                    return (
+                      <td
+                        key={c}
+                        ref={highlighted && r === cells?.r0 && c === cells.c0 ? firstCellRef : undefined}
+                        className={cn(
+                          'border px-2 py-1 whitespace-nowrap max-w-[240px] truncate',
+                          highlighted && 'bg-yellow-200/70 ring-1 ring-inset ring-yellow-500 font-medium',
+                        )}
+                      >
+                        {row[c] ?? ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {grid.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">Aba vazia.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ChatSource } from '@/hooks/useAssistantChat';
+import { CitationViewer } from './CitationViewer';
 
 interface SourcesPanelProps {
   sources: ChatSource[];
@@ -47,6 +48,7 @@ export function SourcesPanel({
   projectContext,
 }: SourcesPanelProps) {
   const [expandedSources, setExpandedSources] = useState<Set<string>>(new Set());
+  const [viewerSource, setViewerSource] = useState<ChatSource | null>(null);
 
   const toggleSource = (citation: string) => {
     setExpandedSources(prev => {
@@ -171,11 +173,11 @@ export function SourcesPanel({
                           className="h-auto p-0 text-xs"
                           onClick={(e) => {
                             e.stopPropagation();
-                            // TODO: Navigate to source
+                            setViewerSource(source);
                           }}
                         >
                           <ExternalLink className="h-3 w-3 mr-1" />
-                          Ver documento original
+                          Ver no documento original
                         </Button>
                       </div>
                     </CollapsibleContent>
@@ -186,6 +188,8 @@ export function SourcesPanel({
           ))}
         </div>
       </ScrollArea>
+
+      <CitationViewer source={viewerSource} onOpenChange={open => { if (!open) setViewerSource(null); }} />
     </div>
   );
 }
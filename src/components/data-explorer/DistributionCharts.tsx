@@ -0,0 +1,189 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import { type BoxStats, type ExplorerRow, conditionValue, dominantUnitRows, groupLabel, groupStats, rowValue } from '@/hooks/useExplorerData';
+
+const fmt = (v: number, digits = 2) => v.toLocaleString('pt-BR', { maximumFractionDigits: digits });
+
+interface BoxDatum extends BoxStats {
+  group: string;
+  // [min, max]: the bar spans the whiskers, the shape draws the box inside it
+  range: [number, number];
+}
+
+interface BoxShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: BoxDatum;
+}
+
+// Recharts has no box plot: the range bar gives the pixel span of [min, max],
+// and the quartiles are placed by linear interpolation inside it
+function BoxShape({ x = 0, y = 0, width = 0, height = 0, payload }: BoxShapeProps) {
+  if (!payload) return null;
+  const { min, max, q1, median, q3 } = payload;
+  const span = max - min;
+  const toY = (v: number) => (span === 0 ? y + height / 2 : y + height - ((v - min) / span) * height);
+  const cx = x + width / 2;
+  const boxWidth = Math.min(width * 0.6, 48);
+  const left = cx - boxWidth / 2;
+  const stroke = 'hsl(var(--primary))';
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={toY(max)} y2={toY(q3)} stroke={stroke} />
+      <line x1={cx} x2={cx} y1={toY(q1)} y2={toY(min)} stroke={stroke} />
+      <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={toY(max)} y2={toY(max)} stroke={stroke} />
+      <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={toY(min)} y2={toY(min)} stroke={stroke} />
+      <rect
+        x={left}
+        y={toY(q3)}
+        width={boxWidth}
+        height={Math.max(toY(q1) - toY(q3), 1)}
+        fill="hsl(var(--primary) / 0.2)"
+        stroke={stroke}
+      />
+      <line x1={left} x2={left + boxWidth} y1={toY(median)} y2={toY(median)} stroke={stroke} strokeWidth={2} />
+    </g>
+  );
+}
+
+// Measurements whose unit does not convert to the chart unit (HV vs KHN, wt% vs vol%)
+function UnitNote({ dropped, unit }: { dropped: number; unit: string }) {
+  return (
+    <p className="text-xs text-muted-foreground">
+      {dropped} medições em unidades não conversíveis para {unit || 'a unidade principal'} não aparecem no gráfico.
+    </p>
+  );
+}
+
+interface BoxPlotChartProps {
+  rows: ExplorerRow[];
+  groupKey: string;
+}
+
+export function BoxPlotChart({ rows, groupKey }: BoxPlotChartProps) {
+  const { rows: sameUnit, unit, dropped } = useMemo(() => dominantUnitRows(rows), [rows]);
+  const data = useMemo(() => {
+    const byGroup = new Map<string, ExplorerRow[]>();
+    for (const r of sameUnit) {
+      const group = groupLabel(r, groupKey);
+      if (group === null) continue;
+      if (!byGroup.has(group)) byGroup.set(group, []);
+      byGroup.get(group)!.push(r);
+    }
+    return [...byGroup.entries()]
+      .sort(([a], [b]) => a.localeCompare(b, 'pt-BR', { numeric: true }))
+      .slice(0, 30)
+      .map(([group, groupRows]) => {
+        const stats = groupStats(groupRows)!;
+        return { group, ...stats, range: [stats.min, stats.max] as [number, number] };
+      });
+  }, [sameUnit, groupKey]);
+
+  const config: ChartConfig = { range: { label: unit || 'valor', color: 'hsl(var(--primary))' } };
+
+  const tooltip = ({ active, payload }: { active?: boolean; payload?: { payload: BoxDatum }[] }) => {
+    const d = payload?.[0]?.payload;
+    if (!active || !d) return null;
+    return (
+      <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-0.5">
+        <p className="font-medium">{d.group}</p>
+        <p>n = {d.n} • média {fmt(d.mean)} ± {fmt(d.sd)} {unit}</p>
+        <p className="text-muted-foreground">
+          mín {fmt(d.min)} • Q1 {fmt(d.q1)} • mediana {fmt(d.median)} • Q3 {fmt(d.q3)} • máx {fmt(d.max)}
+        </p>
+      </div>
+    );
+  };
+
+  if (data.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Nenhum valor para os grupos selecionados.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={config} className="h-[360px] w-full">
+        <BarChart data={data} margin={{ top: 8, right: 16, bottom: 48, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="group" interval={0} angle={-30} textAnchor="end" height={60} tick={{ fontSize: 11 }} />
+          <YAxis domain={['auto', 'auto']} width={56} tickFormatter={(v: number) => fmt(v)} />
+          <ChartTooltip content={tooltip} />
+          <Bar dataKey="range" shape={<BoxShape />} isAnimationActive={false} />
+        </BarChart>
+      </ChartContainer>
+      {dropped > 0 && <UnitNote dropped={dropped} unit={unit} />}
+    </div>
+  );
+}
+
+interface ConditionScatterChartProps {
+  rows: ExplorerRow[];
+  conditionKey: string;
+}
+
+// Metric value against a numeric condition (cure time, filler %, temperature...)
+export function ConditionScatterChart({ rows, conditionKey }: ConditionScatterChartProps) {
+  const { rows: sameUnit, unit, dropped } = useMemo(() => dominantUnitRows(rows), [rows]);
+  const { points, skipped } = useMemo(() => {
+    const out: { x: number; y: number; experiment: string }[] = [];
+    let missing = 0;
+    for (const r of sameUnit) {
+      const raw = conditionValue(r, conditionKey);
+      const x = raw === null ? NaN : parseFloat(raw.replace(',', '.'));
+      if (!Number.isFinite(x)) {
+        missing++;
+        continue;
+      }
+      out.push({ x, y: rowValue(r).value, experiment: r.experiment_title });
+    }
+    return { points: out, skipped: missing };
+  }, [sameUnit, conditionKey]);
+
+  const config: ChartConfig = { y: { label: unit || 'valor', color: 'hsl(var(--primary))' } };
+
+  const tooltip = ({ active, payload }: { active?: boolean; payload?: { payload: { x: number; y: number; experiment: string } }[] }) => {
+    const p = payload?.[0]?.payload;
+    if (!active || !p) return null;
+    return (
+      <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+        <p className="font-medium">{p.experiment}</p>
+        <p>{conditionKey} = {fmt(p.x)} → {fmt(p.y)} {unit}</p>
+      </div>
+    );
+  };
+
+  if (points.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        A condição "{conditionKey}" não tem valores numéricos nos dados filtrados.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={config} className="h-[320px] w-full">
+        <ScatterChart margin={{ top: 8, right: 16, bottom: 16, left: 8 }}>
+          <CartesianGrid />
+          <XAxis
+            type="number"
+            dataKey="x"
+            domain={['auto', 'auto']}
+            tickFormatter={(v: number) => fmt(v)}
+            label={{ value: conditionKey, position: 'insideBottom', offset: -8, fontSize: 11 }}
+          />
+          <YAxis type="number" dataKey="y" domain={['auto', 'auto']} width={56} tickFormatter={(v: number) => fmt(v)} />
+          <ZAxis range={[36, 36]} />
+          <ChartTooltip content={tooltip} />
+          <Scatter data={points} fill="var(--color-y)" />
+        </ScatterChart>
+      </ChartContainer>
+      {skipped > 0 && (
+        <p className="text-xs text-muted-foreground">{skipped} medições sem um único valor numérico para "{conditionKey}" não aparecem no gráfico.</p>
+      )}
+      {dropped > 0 && <UnitNote dropped={dropped} unit={unit} />}
+    </div>
+  );
+}
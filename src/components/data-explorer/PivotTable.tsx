@@ -0,0 +1,57 @@
+import { useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ALL, type ExplorerRow, buildPivot, pivotCellKey } from '@/hooks/useExplorerData';
+
+const fmt = (v: number, digits = 2) => v.toLocaleString('pt-BR', { maximumFractionDigits: digits });
+
+interface PivotTableViewProps {
+  rows: ExplorerRow[];
+  groupKey: string;
+}
+
+// Groups (condition values or experiments) × metrics: mean ± SD (n)
+export function PivotTableView({ rows, groupKey }: PivotTableViewProps) {
+  const pivot = useMemo(() => buildPivot(rows, groupKey), [rows, groupKey]);
+
+  if (pivot.groups.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Nenhuma medição com a condição selecionada.</p>;
+  }
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[160px]">{groupKey === ALL ? 'Experimento' : groupKey}</TableHead>
+            {pivot.metrics.map(m => (
+              <TableHead key={`${m.metric}|${m.unit}`} className="text-right whitespace-nowrap">
+                {m.metric}{m.unit ? ` (${m.unit})` : ''}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pivot.groups.map(group => (
+            <TableRow key={group}>
+              <TableCell className="font-medium text-xs">{group}</TableCell>
+              {pivot.metrics.map(m => {
+                const cell = pivot.cells.get(pivotCellKey(group, m.metric, m.unit));
+                return (
+                  <TableCell key={`${m.metric}|${m.unit}`} className="text-right tabular-nums text-xs whitespace-nowrap">
+                    {cell ? (
+                      <>
+                        {fmt(cell.mean)}
+                        {cell.n > 1 && <span className="text-muted-foreground"> ± {fmt(cell.sd)}</span>}
+                        <span className="text-muted-foreground"> (n={cell.n})</span>
+                      </>
+                    ) : '—'}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { AlertTriangle, Sparkles } from 'lucide-react';
+import { EXTRACTABLE_FORMATS, extractableFormat } from '@/lib/extractableFormats';
+
+export function ExtractableFormatsNote() {
+  return (
+    <p className="text-xs text-muted-foreground">
+      Extração automática: {EXTRACTABLE_FORMATS.map((f) => f.label).join(', ')}
+    </p>
+  );
+}
+
+interface FileFormatHintProps {
+  file: File;
+}
+
+export function FileFormatHint({ file }: FileFormatHintProps) {
+  const format = extractableFormat(file.name, file.type);
+
+  if (!format) {
+    return (
+      <p className="text-xs text-warning flex items-center gap-1">
+        <AlertTriangle className="h-3 w-3" />
+        Formato sem extração automática: o arquivo será apenas armazenado
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-xs text-muted-foreground flex items-center gap-1">
+      <Sparkles className="h-3 w-3 text-primary" />
+      {format.label}: {format.structured ? 'texto e tabelas extraídos (tabelas viram medições)' : 'texto extraído'}
+    </p>
+  );
+}
@@ -0,0 +1,207 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowRight, GitCompare } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+// extraction_jobs.diff, as written by extract-knowledge (_shared/extraction-diff.ts)
+interface MeasurementEntry {
+  experiment: string;
+  metric: string;
+  location: string | null;
+  value: number;
+  unit: string | null;
+}
+
+interface MeasurementChange {
+  experiment: string;
+  metric: string;
+  location: string | null;
+  old_value: number;
+  new_value: number;
+  old_unit: string | null;
+  new_unit: string | null;
+}
+
+interface ClaimEntry {
+  claim_type: string;
+  metric_key: string | null;
+  excerpt: string;
+}
+
+interface ExtractionDiff {
+  experiments: { added: string[]; removed: string[] };
+  measurements: {
+    added: MeasurementEntry[];
+    removed: MeasurementEntry[];
+    changed: MeasurementChange[];
+    counts: { added: number; removed: number; changed: number; unchanged: number };
+  };
+  claims: {
+    added: ClaimEntry[];
+    removed: ClaimEntry[];
+    counts: { added: number; removed: number; unchanged: number };
+  };
+  carried_over: number;
+}
+
+const formatValue = (value: number, unit: string | null) =>
+  `${Number(value.toPrecision(6))}${unit ? ` ${unit}` : ''}`;
+
+const where = (m: { experiment: string; location: string | null }) => m.location ?? m.experiment;
+
+function MoreNote({ shown, total }: { shown: number; total: number }) {
+  if (total <= shown) return null;
+  return <p className="text-xs text-muted-foreground">… e mais {total - shown}</p>;
+}
+
+interface ExtractionDiffPanelProps {
+  fileId: string;
+}
+
+/** What changed in the file's data at its latest re-extraction. */
+export function ExtractionDiffPanel({ fileId }: ExtractionDiffPanelProps) {
+  const { data } = useQuery({
+    queryKey: ['file-extraction-diff', fileId],
+    queryFn: async () => {
+      const { data: job, error } = await supabase
+        .from('extraction_jobs')
+        .select('id, file_version, previous_job_id, completed_at, diff')
+        .eq('file_id', fileId)
+        .not('diff', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (!job) return null;
+
+      let previousVersion: number | null = null;
+      if (job.previous_job_id) {
+        const { data: previous } = await supabase
+          .from('extraction_jobs')
+          .select('file_version')
+          .eq('id', job.previous_job_id)
+          .maybeSingle();
+        previousVersion = previous?.file_version ?? null;
+      }
+      return { ...job, previousVersion, diff: job.diff as unknown as ExtractionDiff };
+    },
+  });
+
+  if (!data) return null;
+
+  const { diff } = data;
+  const m = diff.measurements.counts;
+  const c = diff.claims.counts;
+  const versions = data.file_version
+    ? `${data.previousVersion ? `v${data.previousVersion}` : 'extração anterior'} → v${data.file_version}`
+    : 'extração anterior → atual';
+  const nothingChanged = m.added + m.removed + m.changed + c.added + c.removed === 0 &&
+    diff.experiments.added.length + diff.experiments.removed.length === 0;
+
+  return (
+    <>
+      <Separator />
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <GitCompare className="h-4 w-4" />
+          <h4 className="font-medium">Mudanças na extração</h4>
+          <Badge variant="secondary">{versions}</Badge>
+          {data.completed_at && (
+            <span className="text-xs text-muted-foreground ml-auto">
+              {format(new Date(data.completed_at), "d MMM yyyy 'às' HH:mm", { locale: ptBR })}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-3 text-xs">
+          <Badge variant="outline" className="text-green-700 dark:text-green-400">+{m.added} medições</Badge>
+          <Badge variant="outline" className="text-red-700 dark:text-red-400">−{m.removed} medições</Badge>
+          <Badge variant="outline" className="text-amber-700 dark:text-amber-400">{m.changed} alteradas</Badge>
+          <Badge variant="outline">{m.unchanged} iguais</Badge>
+          {(c.added > 0 || c.removed > 0) && (
+            <Badge variant="outline">afirmações +{c.added} −{c.removed}</Badge>
+          )}
+          {diff.carried_over > 0 && (
+            <Badge variant="outline">{diff.carried_over} revisões mantidas</Badge>
+          )}
+        </div>
+
+        {nothingChanged ? (
+          <p className="text-sm text-muted-foreground">Nenhum dado mudou em relação à extração anterior.</p>
+        ) : (
+          <ScrollArea className="h-[200px] pr-4">
+            <div className="space-y-4 text-sm">
+              {diff.measurements.changed.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Valores alterados</p>
+                  {diff.measurements.changed.map((ch, i) => (
+                    <div key={i} className="flex flex-wrap items-center gap-1">
+                      <span className="font-medium">{ch.metric}</span>
+                      <span className="text-muted-foreground truncate">· {where(ch)}:</span>
+                      <span className="line-through text-muted-foreground">{formatValue(ch.old_value, ch.old_unit)}</span>
+                      <ArrowRight className="h-3 w-3" />
+                      <span>{formatValue(ch.new_value, ch.new_unit)}</span>
+                    </div>
+                  ))}
+                  <MoreNote shown={diff.measurements.changed.length} total={m.changed} />
+                </div>
+              )}
+
+              {diff.measurements.added.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Medições novas</p>
+                  {diff.measurements.added.map((a, i) => (
+                    <p key={i} className="text-green-700 dark:text-green-400">
+                      + {a.metric} · {where(a)}: {formatValue(a.value, a.unit)}
+                    </p>
+                  ))}
+                  <MoreNote shown={diff.measurements.added.length} total={m.added} />
+                </div>
+              )}
+
+              {diff.measurements.removed.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Medições removidas</p>
+                  {diff.measurements.removed.map((r, i) => (
+                    <p key={i} className="text-red-700 dark:text-red-400">
+                      − {r.metric} · {where(r)}: {formatValue(r.value, r.unit)}
+                    </p>
+                  ))}
+                  <MoreNote shown={diff.measurements.removed.length} total={m.removed} />
+                </div>
+              )}
+
+              {(diff.experiments.added.length > 0 || diff.experiments.removed.length > 0) && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Experimentos</p>
+                  {diff.experiments.added.map(title => (
+                    <p key={`+${title}`} className="text-green-700 dark:text-green-400">+ {title}</p>
+                  ))}
+                  {diff.experiments.removed.map(title => (
+                    <p key={`-${title}`} className="text-red-700 dark:text-red-400">− {title}</p>
+                  ))}
+                </div>
+              )}
+
+              {(diff.claims.added.length > 0 || diff.claims.removed.length > 0) && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Afirmações</p>
+                  {diff.claims.added.map((cl, i) => (
+                    <p key={`+${i}`} className="text-green-700 dark:text-green-400">+ {cl.excerpt}</p>
+                  ))}
+                  {diff.claims.removed.map((cl, i) => (
+                    <p key={`-${i}`} className="text-red-700 dark:text-red-400">− {cl.excerpt}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </>
+  );
+}
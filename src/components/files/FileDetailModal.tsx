@@ -23,6 +23,7 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { FileVersionModal } from './FileVersionModal';
+import { ExtractionDiffPanel } from './ExtractionDiffPanel';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -348,6 +349,8 @@ export function FileDetailModal({
                 )}
               </ScrollArea>
             </div>
+
+            <ExtractionDiffPanel fileId={file.id} />
           </div>
         </DialogContent>
       </Dialog>
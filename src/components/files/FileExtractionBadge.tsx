@@ -1,8 +1,19 @@
 import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import { Loader2, CheckCircle2, AlertCircle, Clock, FileX } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { extractableFormat } from '@/lib/extractableFormats';
+
+// extraction_jobs.parsing_quality, as scored by extract-knowledge
+const QUALITY_LABELS: Record<string, string> = {
+  good: 'boa',
+  partial: 'parcial',
+  poor: 'baixa',
+  failed: 'falhou',
+  unsupported: 'formato não suportado',
+};
 
 interface FileExtractionBadgeProps {
   fileId: string;
@@ -10,12 +21,13 @@ interface FileExtractionBadgeProps {
 }
 
 export function FileExtractionBadge({ fileId, compact = false }: FileExtractionBadgeProps) {
+  const navigate = useNavigate();
   const { data: job } = useQuery({
     queryKey: ['file-extraction-status', fileId],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('extraction_jobs')
-        .select('id, status, items_extracted, error_message, parsing_quality, completed_at')
+        .select('id, status, items_extracted, error_message, parsing_quality, sheets_found, completed_at, project_files(name, mime_type)')
         .eq('file_id', fileId)
         .order('created_at', { ascending: false })
         .limit(1)
@@ -54,29 +66,57 @@ export function FileExtractionBadge({ fileId, compact = false }: FileExtractionB
       icon: AlertCircle,
       className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border-red-200 dark:border-red-800',
     },
+    unsupported: {
+      label: 'Não extraível',
+      icon: FileX,
+      className: 'bg-muted text-muted-foreground border-border',
+    },
   };
 
-  const config = statusConfig[job.status as keyof typeof statusConfig] || statusConfig.pending;
+  const unsupported = job.parsing_quality === 'unsupported';
+  const config = unsupported
+    ? statusConfig.unsupported
+    : statusConfig[job.status as keyof typeof statusConfig] || statusConfig.pending;
   const Icon = config.icon;
   const isAnimated = job.status === 'processing';
+  // Completed extractions open the review queue
+  const reviewable = job.status === 'completed' && !unsupported;
 
   const badge = (
-    <Badge variant="outline" className={`text-xs gap-1 ${config.className}`}>
+    <Badge
+      variant="outline"
+      className={`text-xs gap-1 ${config.className} ${reviewable ? 'cursor-pointer hover:opacity-80' : ''}`}
+      onClick={reviewable ? (e) => {
+        e.stopPropagation();
+        navigate(`/extraction-review/${job.id}`);
+      } : undefined}
+    >
       <Icon className={`h-3 w-3 ${isAnimated ? 'animate-spin' : ''}`} />
       {!compact && config.label}
     </Badge>
   );
 
-  if (job.status === 'failed' && job.error_message) {
-    return (
-      <Tooltip>
-        <TooltipTrigger asChild>{badge}</TooltipTrigger>
-        <TooltipContent className="max-w-xs">
-          <p className="text-xs">{job.error_message}</p>
-        </TooltipContent>
-      </Tooltip>
-    );
-  }
+  const file = job.project_files;
+  const format = file ? extractableFormat(file.name, file.mime_type) : null;
+  const quality = job.parsing_quality ? QUALITY_LABELS[job.parsing_quality] ?? job.parsing_quality : null;
+  const showDetails = job.status === 'completed' || job.status === 'failed';
 
-  return badge;
+  if (!showDetails || (!quality && !job.error_message)) return badge;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{badge}</TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <div className="text-xs space-y-1">
+          <p>Formato: {format?.label ?? 'sem extração automática'}</p>
+          {quality && <p>Leitura do conteúdo: {quality}</p>}
+          {!!job.sheets_found && (
+            <p>{job.sheets_found} {format?.sheetsLabel ?? 'abas processadas'}</p>
+          )}
+          {job.error_message && <p>{job.error_message}</p>}
+          {reviewable && <p className="text-muted-foreground">Clique para revisar os itens extraídos</p>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
 }
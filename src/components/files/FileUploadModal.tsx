@@ -26,6 +26,7 @@ import { Upload, FileIcon, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { ExtractableFormatsNote, FileFormatHint } from './ExtractableFormatHint';
 
 const formSchema = z.object({
   description: z.string().optional(),
@@ -232,6 +233,7 @@ export function FileUploadModal({
                   <p className="text-xs text-muted-foreground">
                     ou arraste e solte aqui
                   </p>
+                  <ExtractableFormatsNote />
                 </label>
               </div>
             ) : (
@@ -243,6 +245,7 @@ export function FileUploadModal({
                     <p className="text-sm text-muted-foreground">
                       {formatFileSize(file.size)}
                     </p>
+                    <FileFormatHint file={file} />
                   </div>
                   {!uploading && (
                     <Button
@@ -25,6 +25,7 @@ import { Upload, FileIcon, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useReprocessFile } from '@/hooks/useReprocessFile';
 
 const formSchema = z.object({
   upload_comment: z.string().min(1, 'Descreva as alterações desta versão'),
@@ -53,6 +54,7 @@ export function FileVersionModal({
 }: FileVersionModalProps) {
   const { toast } = useToast();
   const { user } = useAuth();
+  const reprocessFile = useReprocessFile();
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -141,9 +143,12 @@ export function FileVersionModal({
 
       setProgress(100);
 
+      // Re-extract the new content; the job records what changed since the last extraction
+      reprocessFile.mutate({ fileId, projectId, force: true });
+
       toast({
         title: 'Nova versão enviada',
-        description: `Versão ${newVersion} de ${fileName} salva com sucesso`,
+        description: `Versão ${newVersion} de ${fileName} salva. Os dados estão sendo extraídos novamente.`,
       });
 
       form.reset();
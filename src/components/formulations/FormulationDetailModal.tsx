@@ -0,0 +1,206 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import { Beaker, GitBranch, History, FlaskConical, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { COMPONENT_ROLES, type Formulation, compositionSummary } from '@/hooks/useFormulations';
+
+interface FormulationDetailModalProps {
+  formulation: Formulation | null;
+  // All formulations loaded on the page (every version), for lineage
+  allFormulations: Formulation[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (formulation: Formulation) => void;
+  onNewVersion: (formulation: Formulation) => void;
+}
+
+export function FormulationDetailModal({
+  formulation, allFormulations, open, onOpenChange, onSelect, onNewVersion,
+}: FormulationDetailModalProps) {
+  const versions = formulation
+    ? allFormulations.filter(f => f.project_id === formulation.project_id && f.code.toLowerCase() === formulation.code.toLowerCase())
+    : [];
+  const versionIds = versions.map(v => v.id);
+
+  const { data: experiments } = useQuery({
+    queryKey: ['formulation-experiments', versionIds],
+    queryFn: async () => {
+      const [byExperiment, byMeasurement] = await Promise.all([
+        supabase
+          .from('experiments')
+          .select('id, title, formulation_id')
+          .in('formulation_id', versionIds)
+          .is('deleted_at', null),
+        supabase
+          .from('measurements')
+          .select('formulation_id, experiments!inner(id, title, deleted_at)')
+          .in('formulation_id', versionIds)
+          .is('experiments.deleted_at', null)
+          .limit(1000),
+      ]);
+      if (byExperiment.error) throw byExperiment.error;
+      if (byMeasurement.error) throw byMeasurement.error;
+      const linked = new Map<string, { id: string; title: string; formulation_id: string }>();
+      for (const e of byExperiment.data || []) linked.set(e.id, { id: e.id, title: e.title, formulation_id: e.formulation_id! });
+      for (const m of byMeasurement.data || []) {
+        if (!linked.has(m.experiments.id)) {
+          linked.set(m.experiments.id, { id: m.experiments.id, title: m.experiments.title, formulation_id: m.formulation_id! });
+        }
+      }
+      return [...linked.values()];
+    },
+    enabled: open && versionIds.length > 0,
+  });
+
+  if (!formulation) return null;
+
+  const summary = compositionSummary(formulation.formulation_components);
+  const latest = versions[0] ?? formulation;
+  const parent = formulation.parent_id ? allFormulations.find(f => f.id === formulation.parent_id) : null;
+  // Other codes derived from any version of this one
+  const derived = allFormulations.filter(f =>
+    f.parent_id && versionIds.includes(f.parent_id) && f.code.toLowerCase() !== formulation.code.toLowerCase());
+  const roleLabel = (role: string) => COMPONENT_ROLES.find(r => r.value === role)?.label || role;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <Beaker className="h-5 w-5 text-primary" />
+            <DialogTitle className="text-lg">{formulation.code} — {formulation.name}</DialogTitle>
+          </div>
+          <DialogDescription>
+            {formulation.projects?.name} • versão {formulation.version}
+            {formulation.id !== latest.id && ` (a mais recente é a v${latest.version})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {summary.fillerWt !== null && <Badge>Carga: {summary.fillerWt} wt%</Badge>}
+            {summary.fillerVol !== null && <Badge>Carga: {summary.fillerVol} vol%</Badge>}
+            {summary.resinRatio && <Badge variant="outline">{summary.resinRatio}</Badge>}
+            {formulation.aliases.map(a => <Badge key={a} variant="secondary">{a}</Badge>)}
+          </div>
+
+          {formulation.description && (
+            <p className="text-sm text-muted-foreground">{formulation.description}</p>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Função</TableHead>
+                <TableHead>Componente</TableHead>
+                <TableHead className="text-right">Quantidade</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {formulation.formulation_components.map((c, i) => (
+                <TableRow key={c.id || i}>
+                  <TableCell className="text-muted-foreground">{roleLabel(c.role)}</TableCell>
+                  <TableCell className="font-medium">{c.name}</TableCell>
+                  <TableCell className="text-right">
+                    {c.amount !== null ? `${c.amount.toLocaleString('pt-BR')} ${c.amount_unit || ''}` : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h4 className="flex items-center gap-2 text-sm font-semibold">
+              <History className="h-4 w-4" />
+              Versões
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {versions.map(v => (
+                <Button
+                  key={v.id}
+                  variant={v.id === formulation.id ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onSelect(v)}
+                >
+                  v{v.version} • {format(new Date(v.created_at), 'dd/MM/yyyy', { locale: ptBR })}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {(parent || derived.length > 0) && (
+            <div className="space-y-2">
+              <h4 className="flex items-center gap-2 text-sm font-semibold">
+                <GitBranch className="h-4 w-4" />
+                Linhagem
+              </h4>
+              {parent && parent.code.toLowerCase() !== formulation.code.toLowerCase() && (
+                <p className="text-sm">
+                  Derivada de{' '}
+                  <button className="text-primary hover:underline" onClick={() => onSelect(parent)}>
+                    {parent.code} v{parent.version}
+                  </button>
+                </p>
+              )}
+              {derived.length > 0 && (
+                <p className="text-sm">
+                  Deu origem a{' '}
+                  {derived.map((d, i) => (
+                    <span key={d.id}>
+                      {i > 0 && ', '}
+                      <button className="text-primary hover:underline" onClick={() => onSelect(d)}>
+                        {d.code} v{d.version}
+                      </button>
+                    </span>
+                  ))}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="flex items-center gap-2 text-sm font-semibold">
+              <FlaskConical className="h-4 w-4" />
+              Experimentos vinculados
+            </h4>
+            {experiments && experiments.length > 0 ? (
+              <ul className="space-y-1 text-sm">
+                {experiments.map(e => (
+                  <li key={e.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{e.title}</span>
+                    <Badge variant="outline" className="shrink-0">
+                      v{versions.find(v => v.id === e.formulation_id)?.version ?? '?'}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Nenhum experimento vinculado. Planilhas importadas são vinculadas pelo código ou apelidos.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => onNewVersion(latest)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Nova Versão
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AMOUNT_UNITS,
+  COMPONENT_ROLES,
+  type ComponentRole,
+  type Formulation,
+  type FormulationComponent,
+} from '@/hooks/useFormulations';
+
+interface FormulationFormModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (formulation: Formulation) => void;
+  projects: { id: string; name: string }[];
+  // Saving with the same code creates the next version of it
+  baseFormulation?: Formulation | null;
+  // Other formulations of the project, for "derived from" lineage
+  parentOptions?: Formulation[];
+}
+
+type ComponentDraft = Omit<FormulationComponent, 'id' | 'amount'> & { amount: string };
+
+const emptyComponent = (role: ComponentRole = 'resin'): ComponentDraft => ({
+  role, name: '', amount: '', amount_unit: 'wt%', position: 0, notes: null,
+});
+
+export function FormulationFormModal({
+  open, onOpenChange, onSaved, projects, baseFormulation, parentOptions = [],
+}: FormulationFormModalProps) {
+  const [saving, setSaving] = useState(false);
+  const [projectId, setProjectId] = useState('');
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [aliasesStr, setAliasesStr] = useState('');
+  const [parentId, setParentId] = useState('none');
+  const [components, setComponents] = useState<ComponentDraft[]>([emptyComponent()]);
+
+  const isNewVersion = !!baseFormulation;
+
+  useEffect(() => {
+    if (baseFormulation) {
+      setProjectId(baseFormulation.project_id);
+      setCode(baseFormulation.code);
+      setName(baseFormulation.name);
+      setDescription(baseFormulation.description || '');
+      setAliasesStr((baseFormulation.aliases || []).join(', '));
+      setParentId('none');
+      setComponents(baseFormulation.formulation_components.map(c => ({
+        ...c, amount: c.amount === null ? '' : String(c.amount),
+      })));
+    } else {
+      setProjectId(projects[0]?.id || '');
+      setCode('');
+      setName('');
+      setDescription('');
+      setAliasesStr('');
+      setParentId('none');
+      setComponents([emptyComponent()]);
+    }
+  }, [baseFormulation, open, projects]);
+
+  const updateComponent = (index: number, patch: Partial<ComponentDraft>) => {
+    setComponents(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const handleSave = async () => {
+    if (!projectId || !code.trim() || !name.trim()) {
+      toast.error('Projeto, código e nome são obrigatórios');
+      return;
+    }
+    const filled = components.filter(c => c.name.trim());
+    if (filled.length === 0) {
+      toast.error('Informe pelo menos um componente');
+      return;
+    }
+    const invalid = filled.find(c => c.amount.trim() && isNaN(parseFloat(c.amount.replace(',', '.'))));
+    if (invalid) {
+      toast.error(`Quantidade inválida para ${invalid.name}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('save_formulation', {
+        p_project_id: projectId,
+        p_code: code.trim(),
+        p_name: name.trim(),
+        p_components: filled.map(c => ({
+          role: c.role,
+          name: c.name.trim(),
+          amount: c.amount.trim() ? parseFloat(c.amount.replace(',', '.')) : null,
+          amount_unit: c.amount.trim() ? c.amount_unit : null,
+          notes: c.notes,
+        })),
+        p_description: description.trim() || undefined,
+        p_aliases: aliasesStr.split(',').map(a => a.trim()).filter(Boolean),
+        p_parent_id: parentId === 'none' ? undefined : parentId,
+      });
+      if (error) throw error;
+
+      toast.success(data.version > 1 ? `Versão ${data.version} de ${data.code} salva` : `Formulação ${data.code} criada`);
+      onSaved({ ...data, formulation_components: [] });
+      onOpenChange(false);
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao salvar formulação');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parents = parentOptions.filter(f => f.project_id === projectId && f.code.toLowerCase() !== code.trim().toLowerCase());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNewVersion ? `Nova versão de ${baseFormulation?.code}` : 'Nova Formulação'}</DialogTitle>
+          <DialogDescription>
+            {isNewVersion
+              ? `A versão ${baseFormulation?.version} é mantida; a composição editada vira a versão ${(baseFormulation?.version || 0) + 1}.`
+              : 'Cadastre a composição: matriz resinosa, cargas, fotoiniciadores e aditivos.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Projeto</Label>
+              <Select value={projectId} onValueChange={setProjectId} disabled={isNewVersion}>
+                <SelectTrigger><SelectValue placeholder="Selecione" /></SelectTrigger>
+                <SelectContent>
+                  {projects.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Derivada de (opcional)</Label>
+              <Select value={parentId} onValueChange={setParentId} disabled={isNewVersion}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nenhuma</SelectItem>
+                  {parents.map(f => (
+                    <SelectItem key={f.id} value={f.id}>{f.code} v{f.version} — {f.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Código</Label>
+              <Input value={code} onChange={e => setCode(e.target.value)} placeholder="ex: F12" disabled={isNewVersion} />
+            </div>
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input value={name} onChange={e => setName(e.target.value)} placeholder="ex: Resina UDMA 60% carga" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Apelidos (separados por vírgula)</Label>
+            <Input value={aliasesStr} onChange={e => setAliasesStr(e.target.value)} placeholder="ex: Grupo A, CP-12" />
+            <p className="text-xs text-muted-foreground">Usados para vincular linhas de planilhas a esta formulação.</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Componentes</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setComponents(prev => [...prev, emptyComponent('filler')])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Componente
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {components.map((c, i) => (
+                <div key={i} className="grid grid-cols-[140px_1fr_90px_90px_auto] gap-2">
+                  <Select value={c.role} onValueChange={v => updateComponent(i, { role: v as ComponentRole })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {COMPONENT_ROLES.map(r => (
+                        <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input value={c.name} onChange={e => updateComponent(i, { name: e.target.value })} placeholder="ex: UDMA" />
+                  <Input value={c.amount} onChange={e => updateComponent(i, { amount: e.target.value })} placeholder="Qtd." inputMode="decimal" />
+                  <Select value={c.amount_unit || 'wt%'} onValueChange={v => updateComponent(i, { amount_unit: v as FormulationComponent['amount_unit'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {AMOUNT_UNITS.map(u => (
+                        <SelectItem key={u} value={u}>{u}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setComponents(prev => prev.filter((_, j) => j !== i))}
+                    disabled={components.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Descrição (opcional)</Label>
+            <Textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder={isNewVersion ? 'O que mudou nesta versão...' : 'Objetivo, preparo, observações...'}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isNewVersion ? 'Salvar Nova Versão' : 'Criar Formulação'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trophy, Pin, PinOff, RotateCcw, ArrowDownCircle, History, FlaskConical, FileText, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Benchmark, benchmarkStatusLabels, formatBenchmarkValue } from '@/lib/benchmarks';
+
+type BenchmarkAction = 'supersede' | 'reinstate' | 'pin' | 'unpin';
+
+const actionLabels: Record<string, string> = {
+  supersede: 'Superado manualmente',
+  reinstate: 'Reativado',
+  pin: 'Fixado',
+  unpin: 'Desafixado',
+  auto_supersede: 'Superado automaticamente',
+};
+
+const NO_REPLACEMENT = '__none__';
+
+type TimelineItem =
+  | { kind: 'benchmark'; date: string; benchmark: Benchmark }
+  | { kind: 'event'; date: string; action: string; reason: string | null; actor: string | null; benchmarkId: string }
+  | { kind: 'measurement'; date: string; value: number; unit: string; experiment: string | null };
+
+// Walks superseded_by_benchmark_id backwards (who this replaced) and
+// forwards (what replaced it) within the same project + metric.
+function buildChain(benchmark: Benchmark, related: Benchmark[]): Benchmark[] {
+  const byId = new Map(related.map(b => [b.id, b]));
+  const chain = [benchmark];
+  const seen = new Set([benchmark.id]);
+
+  let current = benchmark;
+  for (;;) {
+    const previous = related
+      .filter(b => b.superseded_by_benchmark_id === current.id && !seen.has(b.id))
+      .sort((a, b) => b.as_of_date.localeCompare(a.as_of_date))[0];
+    if (!previous) break;
+    chain.unshift(previous);
+    seen.add(previous.id);
+    current = previous;
+  }
+
+  current = benchmark;
+  while (current.superseded_by_benchmark_id && !seen.has(current.superseded_by_benchmark_id)) {
+    const next = byId.get(current.superseded_by_benchmark_id);
+    if (!next) break;
+    chain.push(next);
+    seen.add(next.id);
+    current = next;
+  }
+  return chain;
+}
+
+interface BenchmarkTimelineModalProps {
+  benchmark: Benchmark | null;
+  related: Benchmark[];
+  canManage: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export function BenchmarkTimelineModal({ benchmark, related, canManage, open, onOpenChange, onChanged }: BenchmarkTimelineModalProps) {
+  const [reason, setReason] = useState('');
+  const [replacementId, setReplacementId] = useState<string>(NO_REPLACEMENT);
+  const [saving, setSaving] = useState(false);
+
+  const chain = useMemo(() => (benchmark ? buildChain(benchmark, related) : []), [benchmark, related]);
+  const chainIds = useMemo(() => chain.map(b => b.id), [chain]);
+
+  const { data: events, refetch: refetchEvents } = useQuery({
+    queryKey: ['benchmark-events', chainIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('benchmark_events')
+        .select('*')
+        .in('benchmark_id', chainIds)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+
+      const actorIds = [...new Set((data || []).map(e => e.actor_id).filter((id): id is string => !!id))];
+      const { data: profiles } = actorIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', actorIds)
+        : { data: [] };
+      return (data || []).map(e => {
+        const profile = profiles?.find(p => p.id === e.actor_id);
+        return { ...e, actorName: profile ? profile.full_name || profile.email : null };
+      });
+    },
+    enabled: open && chainIds.length > 0,
+  });
+
+  const measurementIds = useMemo(() => {
+    const ids = chain.map(b => b.superseded_by_measurement_id);
+    return [...new Set(ids.filter((id): id is string => !!id))];
+  }, [chain]);
+
+  const { data: measurements } = useQuery({
+    queryKey: ['benchmark-superseding-measurements', measurementIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('measurements')
+        .select('id, value, unit, evidence_date, created_at, experiments(title)')
+        .in('id', measurementIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && measurementIds.length > 0,
+  });
+
+  const timeline = useMemo(() => {
+    const items: TimelineItem[] = chain.map(b => ({ kind: 'benchmark', date: b.as_of_date, benchmark: b }));
+    for (const e of events || []) {
+      items.push({ kind: 'event', date: e.created_at, action: e.action, reason: e.reason, actor: e.actorName, benchmarkId: e.benchmark_id });
+    }
+    for (const m of measurements || []) {
+      items.push({
+        kind: 'measurement',
+        date: m.evidence_date || m.created_at,
+        value: m.value,
+        unit: m.unit,
+        experiment: m.experiments?.title || null,
+      });
+    }
+    return items.sort((a, b) => a.date.localeCompare(b.date));
+  }, [chain, events, measurements]);
+
+  const replacementOptions = useMemo(
+    () => (benchmark ? related.filter(b => b.id !== benchmark.id) : []),
+    [benchmark, related]
+  );
+
+  const runAction = async (action: BenchmarkAction) => {
+    if (!benchmark) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('manage_benchmark', {
+        p_benchmark_id: benchmark.id,
+        p_action: action,
+        p_reason: reason.trim() || undefined,
+        p_superseded_by_benchmark_id: action === 'supersede' && replacementId !== NO_REPLACEMENT ? replacementId : undefined,
+      });
+      if (error) throw error;
+      toast.success(actionLabels[action]);
+      setReason('');
+      setReplacementId(NO_REPLACEMENT);
+      onChanged();
+      refetchEvents();
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!benchmark) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5 text-primary" />
+            {benchmark.metric_key}
+            {benchmark.material_label && <span className="text-muted-foreground font-normal">· {benchmark.material_label}</span>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-4 pr-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={benchmark.status === 'active' ? 'default' : 'secondary'}>
+                {benchmarkStatusLabels[benchmark.status] || benchmark.status}
+              </Badge>
+              <Badge variant="outline" className="font-mono">{formatBenchmarkValue(benchmark)}</Badge>
+              {benchmark.pinned && <Badge variant="secondary"><Pin className="h-3 w-3 mr-1" /> Fixado</Badge>}
+              {benchmark.projects?.name && <Badge variant="outline">{benchmark.projects.name}</Badge>}
+            </div>
+
+            {benchmark.source_excerpt && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-muted-foreground">Trecho da fonte</p>
+                <p className="text-sm bg-muted p-3 rounded whitespace-pre-wrap">{benchmark.source_excerpt}</p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><Clock className="h-3 w-3" /> Data: {new Date(benchmark.as_of_date).toLocaleDateString('pt-BR')}</span>
+              {benchmark.project_files?.name && (
+                <span className="flex items-center gap-1"><FileText className="h-3 w-3" /> {benchmark.project_files.name}</span>
+              )}
+            </div>
+
+            {benchmark.notes && (
+              <p className="text-xs text-muted-foreground"><strong>Notas:</strong> {benchmark.notes}</p>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium flex items-center gap-1">
+                <History className="h-4 w-4" /> Linha do tempo
+              </h4>
+              <ol className="relative border-l border-border ml-2 space-y-3">
+                {timeline.map((item, i) => (
+                  <li key={i} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground/60" />
+                    <p className="text-xs text-muted-foreground">{new Date(item.date).toLocaleString('pt-BR')}</p>
+                    {item.kind === 'benchmark' && (
+                      <div className={`text-sm rounded p-2 ${item.benchmark.id === benchmark.id ? 'bg-primary/10' : 'bg-muted/50'}`}>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono font-medium">{formatBenchmarkValue(item.benchmark)}</span>
+                          {item.benchmark.material_label && <span className="text-muted-foreground">{item.benchmark.material_label}</span>}
+                          <Badge variant={item.benchmark.status === 'active' ? 'default' : 'secondary'} className="text-[10px]">
+                            {benchmarkStatusLabels[item.benchmark.status] || item.benchmark.status}
+                          </Badge>
+                        </div>
+                        {item.benchmark.project_files?.name && (
+                          <p className="text-xs text-muted-foreground mt-1">{item.benchmark.project_files.name}</p>
+                        )}
+                      </div>
+                    )}
+                    {item.kind === 'event' && (
+                      <div className="text-sm">
+                        <span className="font-medium">{actionLabels[item.action] || item.action}</span>
+                        {item.actor && <span className="text-muted-foreground"> por {item.actor}</span>}
+                        {item.reason && <p className="text-xs text-muted-foreground">{item.reason}</p>}
+                      </div>
+                    )}
+                    {item.kind === 'measurement' && (
+                      <div className="text-sm flex items-center gap-2">
+                        <FlaskConical className="h-4 w-4 text-primary" />
+                        <span>Nova medição <span className="font-mono">{item.value.toLocaleString('pt-BR')} {item.unit}</span></span>
+                        {item.experiment && <span className="text-muted-foreground">({item.experiment})</span>}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </ScrollArea>
+
+        {canManage && (
+          <div className="space-y-2 pt-2 border-t">
+            <Textarea
+              placeholder="Motivo (registrado no histórico)"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={2}
+            />
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              {benchmark.status !== 'superseded' ? (
+                <div className="flex items-center gap-2">
+                  <Select value={replacementId} onValueChange={setReplacementId}>
+                    <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_REPLACEMENT}>Sem benchmark substituto</SelectItem>
+                      {replacementOptions.map(b => (
+                        <SelectItem key={b.id} value={b.id}>
+                          {formatBenchmarkValue(b)} · {new Date(b.as_of_date).toLocaleDateString('pt-BR')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="destructive" size="sm" disabled={saving} onClick={() => runAction('supersede')}>
+                    <ArrowDownCircle className="h-4 w-4 mr-1" /> Superar
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="default" size="sm" disabled={saving} onClick={() => runAction('reinstate')}>
+                  <RotateCcw className="h-4 w-4 mr-1" /> Reativar
+                </Button>
+              )}
+              {benchmark.status === 'active' && (
+                benchmark.pinned ? (
+                  <Button variant="outline" size="sm" disabled={saving} onClick={() => runAction('unpin')}>
+                    <PinOff className="h-4 w-4 mr-1" /> Desafixar
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" disabled={saving} onClick={() => runAction('pin')}>
+                    <Pin className="h-4 w-4 mr-1" /> Fixar
+                  </Button>
+                )
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
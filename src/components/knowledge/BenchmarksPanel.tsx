@@ -0,0 +1,208 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Search, Trophy, Pin, FileText, Calendar, FolderOpen } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { BenchmarkTimelineModal } from './BenchmarkTimelineModal';
+import { Benchmark, benchmarkStatusLabels, formatBenchmarkValue } from '@/lib/benchmarks';
+
+type StatusFilter = 'active' | 'superseded' | 'uncertain' | 'all';
+
+interface BenchmarksPanelProps {
+  projects: { id: string; name: string }[];
+}
+
+export function BenchmarksPanel({ projects }: BenchmarksPanelProps) {
+  const { user } = useAuth();
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [projectFilter, setProjectFilter] = useState<string>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const projectIds = useMemo(() => projects.map(p => p.id), [projects]);
+
+  const { data: benchmarks, isLoading, refetch } = useQuery({
+    queryKey: ['benchmarks', projectIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('benchmarks')
+        .select('*, projects(name), project_files(name)')
+        .in('project_id', projectIds)
+        .order('as_of_date', { ascending: false });
+      if (error) throw error;
+      return data as unknown as Benchmark[];
+    },
+    enabled: !!user && projectIds.length > 0,
+  });
+
+  const { data: managedProjectIds } = useQuery({
+    queryKey: ['benchmark-manager-projects', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('project_id, role_in_project')
+        .eq('user_id', user!.id);
+      if (error) throw error;
+      return new Set(
+        (data || [])
+          .filter(m => m.role_in_project === 'owner' || m.role_in_project === 'manager')
+          .map(m => m.project_id)
+      );
+    },
+    enabled: !!user,
+  });
+
+  // Active view: one row per (project, metric_key, material_label); a pinned
+  // benchmark wins, otherwise the newest one.
+  // Other views list every benchmark with that status.
+  const rows = useMemo(() => {
+    if (!benchmarks) return [];
+    const q = search.toLowerCase();
+    const filtered = benchmarks.filter(b => {
+      if (projectFilter !== 'all' && b.project_id !== projectFilter) return false;
+      if (statusFilter !== 'all' && b.status !== statusFilter) return false;
+      if (q) {
+        const haystack = `${b.metric_key} ${b.material_label || ''} ${b.source_excerpt || ''}`.toLowerCase();
+        if (!haystack.includes(q)) return false;
+      }
+      return true;
+    });
+    if (statusFilter !== 'active') return filtered.map(b => ({ benchmark: b, siblings: 0 }));
+
+    const groups = new Map<string, { benchmark: Benchmark; siblings: number }>();
+    for (const b of filtered) {
+      const key = `${b.project_id}|${b.metric_key}|${(b.material_label || '').toLowerCase()}`;
+      const existing = groups.get(key);
+      if (!existing) groups.set(key, { benchmark: b, siblings: 0 });
+      else if (b.pinned && !existing.benchmark.pinned) groups.set(key, { benchmark: b, siblings: existing.siblings + 1 });
+      else existing.siblings += 1;
+    }
+    return [...groups.values()].sort((a, b) =>
+      a.benchmark.metric_key.localeCompare(b.benchmark.metric_key)
+      || (a.benchmark.material_label || '').localeCompare(b.benchmark.material_label || ''));
+  }, [benchmarks, search, statusFilter, projectFilter]);
+
+  const selected = benchmarks?.find(b => b.id === selectedId) || null;
+  const related = useMemo(() => {
+    if (!selected || !benchmarks) return [];
+    return benchmarks.filter(b => b.project_id === selected.project_id && b.metric_key === selected.metric_key);
+  }, [selected, benchmarks]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Trophy className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold text-lg">Benchmarks</h3>
+        <span className="text-sm text-muted-foreground">({rows.length})</span>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input placeholder="Buscar por métrica, material ou trecho..." className="pl-9" value={search} onChange={e => setSearch(e.target.value)} />
+        </div>
+        {projects.length > 1 && (
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os projetos</SelectItem>
+              {projects.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={statusFilter} onValueChange={(v: StatusFilter) => setStatusFilter(v)}>
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Ativos</SelectItem>
+            <SelectItem value="superseded">Superados</SelectItem>
+            <SelectItem value="uncertain">Incertos</SelectItem>
+            <SelectItem value="all">Todos</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map(i => <Skeleton key={i} className="h-20 w-full" />)}
+        </div>
+      ) : rows.length === 0 ? (
+        <Card className="border-dashed">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+              <Trophy className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>{benchmarks && benchmarks.length > 0 ? 'Nenhum resultado' : 'Nenhum benchmark'}</CardTitle>
+            <CardDescription>
+              {benchmarks && benchmarks.length > 0
+                ? 'Ajuste os filtros ou busca.'
+                : 'Benchmarks são criados automaticamente pela extração de conhecimento dos documentos do projeto.'}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(({ benchmark: b, siblings }) => (
+            <Card
+              key={b.id}
+              className="cursor-pointer hover:shadow-md transition-shadow"
+              onClick={() => setSelectedId(b.id)}
+            >
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <code className="text-sm font-medium">{b.metric_key}</code>
+                      {b.material_label && <Badge variant="outline" className="text-[10px]">{b.material_label}</Badge>}
+                      {b.pinned && (
+                        <Badge variant="secondary" className="text-[10px]">
+                          <Pin className="h-2.5 w-2.5 mr-0.5" /> Fixado
+                        </Badge>
+                      )}
+                      {siblings > 0 && (
+                        <Badge variant="outline" className="text-[10px]">+{siblings} ativo{siblings > 1 ? 's' : ''}</Badge>
+                      )}
+                    </div>
+                    {b.source_excerpt && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">"{b.source_excerpt}"</p>
+                    )}
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="font-mono font-semibold">{formatBenchmarkValue(b)}</p>
+                    <Badge variant={b.status === 'active' ? 'default' : 'secondary'} className="text-[10px]">
+                      {benchmarkStatusLabels[b.status] || b.status}
+                    </Badge>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" /> {new Date(b.as_of_date).toLocaleDateString('pt-BR')}
+                  </span>
+                  {b.project_files?.name && (
+                    <span className="flex items-center gap-1"><FileText className="h-3 w-3" /> {b.project_files.name}</span>
+                  )}
+                  {projects.length > 1 && b.projects?.name && (
+                    <span className="flex items-center gap-1"><FolderOpen className="h-3 w-3" /> {b.projects.name}</span>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <BenchmarkTimelineModal
+        benchmark={selected}
+        related={related}
+        canManage={!!selected && !!managedProjectIds?.has(selected.project_id)}
+        open={!!selected}
+        onOpenChange={open => { if (!open) setSelectedId(null); }}
+        onChanged={refetch}
+      />
+    </div>
+  );
+}
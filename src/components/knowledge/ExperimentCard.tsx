@@ -13,6 +13,7 @@ export interface ExperimentItem {
   source_type: string;
   is_qualitative: boolean;
   created_at: string;
+  formulation_id?: string | null;
   projects?: { name: string } | null;
   project_files?: { name: string } | null;
   measurements_count?: number;
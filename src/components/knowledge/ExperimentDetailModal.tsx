@@ -1,15 +1,19 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from '@/components/ui/table';
-import { FlaskConical, BarChart3, FileText, Settings2, Link2 } from 'lucide-react';
+import { FlaskConical, BarChart3, FileText, Settings2, Link2, Beaker } from 'lucide-react';
+import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { useFormulations } from '@/hooks/useFormulations';
 import type { ExperimentItem } from './ExperimentCard';
 
 interface ExperimentDetailModalProps {
@@ -19,6 +23,33 @@ interface ExperimentDetailModalProps {
 }
 
 export function ExperimentDetailModal({ item, open, onOpenChange }: ExperimentDetailModalProps) {
+  const queryClient = useQueryClient();
+  const { data: formulations } = useFormulations();
+  const [formulationId, setFormulationId] = useState<string>('none');
+
+  useEffect(() => {
+    setFormulationId(item?.formulation_id || 'none');
+  }, [item]);
+
+  const projectFormulations = (formulations || []).filter(f => f.project_id === item?.project_id);
+
+  const handleFormulationChange = async (value: string) => {
+    if (!item) return;
+    const previous = formulationId;
+    setFormulationId(value);
+    const { error } = await supabase
+      .from('experiments')
+      .update({ formulation_id: value === 'none' ? null : value })
+      .eq('id', item.id);
+    if (error) {
+      setFormulationId(previous);
+      toast.error('Erro ao vincular formulação');
+      return;
+    }
+    toast.success(value === 'none' ? 'Formulação desvinculada' : 'Formulação vinculada');
+    queryClient.invalidateQueries({ queryKey: ['experiments'] });
+  };
+
   const { data: measurements, isLoading: loadingM } = useQuery({
     queryKey: ['experiment-measurements', item?.id],
     queryFn: async () => {
@@ -89,6 +120,20 @@ export function ExperimentDetailModal({ item, open, onOpenChange }: ExperimentDe
             )}
           </div>
 
+          <div className="flex items-center gap-2">
+            <Beaker className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">Formulação</span>
+            <Select value={formulationId} onValueChange={handleFormulationChange}>
+              <SelectTrigger className="h-8 w-64"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Nenhuma</SelectItem>
+                {projectFormulations.map(f => (
+                  <SelectItem key={f.id} value={f.id}>{f.code} v{f.version} — {f.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {item.objective && (
             <div>
               <h4 className="text-sm font-medium mb-1">Objetivo</h4>
@@ -129,7 +174,14 @@ export function ExperimentDetailModal({ item, open, onOpenChange }: ExperimentDe
                       {measurements.map((m: any) => (
                         <TableRow key={m.id}>
                           <TableCell className="font-medium text-xs">{m.metric}</TableCell>
-                          <TableCell className="text-right tabular-nums text-xs">{m.value}</TableCell>
+                          <TableCell
+                            className="text-right tabular-nums text-xs whitespace-nowrap"
+                            title={m.replicates?.length ? `Corpos de prova: ${m.replicates.join('; ')}` : undefined}
+                          >
+                            {m.value}
+                            {m.sd !== null && <span className="text-muted-foreground"> ± {m.sd}</span>}
+                            {m.n !== null && <span className="text-muted-foreground"> (n={m.n})</span>}
+                          </TableCell>
                           <TableCell className="text-xs">{m.unit}</TableCell>
                           <TableCell className="text-xs text-muted-foreground">{m.method || '-'}</TableCell>
                           <TableCell>
@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface ExtractionSourceTextProps {
+  text: string;
+  evidence: string | null;
+  page: number | null;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Where the active item's evidence sits in the extracted text: the quote itself
+ * (whitespace-tolerant), else the sheet, page or slide marker it cites.
+ */
+function locateEvidence(text: string, evidence: string | null, page: number | null): { start: number; end: number } | null {
+  const quote = evidence?.trim() ?? '';
+  if (quote.length >= 8) {
+    const words = quote.split(/\s+/).slice(0, 40).map(escapeRegExp);
+    const match = new RegExp(words.join('\\s+'), 'i').exec(text);
+    if (match) return { start: match.index, end: match.index + match[0].length };
+  }
+  // Spreadsheet excerpts read "Sheet: <name>, Row: 12, ..."
+  const sheet = quote.match(/Sheet:\s*([^,]+)/)?.[1].trim();
+  const markers = [
+    sheet ? `=== Planilha: ${sheet} ===` : null,
+    page ? `--- Página ${page} ---` : null,
+    page ? `--- Slide ${page} ---` : null,
+  ];
+  for (const marker of markers) {
+    const at = marker ? text.indexOf(marker) : -1;
+    if (at >= 0 && marker) return { start: at, end: at + marker.length };
+  }
+  return null;
+}
+
+export function ExtractionSourceText({ text, evidence, page }: ExtractionSourceTextProps) {
+  const markRef = useRef<HTMLElement>(null);
+  const range = useMemo(() => locateEvidence(text, evidence, page), [text, evidence, page]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' });
+  }, [range]);
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4">
+        {evidence && !range && (
+          <p className="mb-3 rounded-md border border-dashed p-2 text-xs text-muted-foreground">
+            Trecho não localizado no texto extraído: “{evidence.slice(0, 200)}”
+          </p>
+        )}
+        <pre className="whitespace-pre-wrap break-words font-sans text-sm leading-relaxed">
+          {range ? (
+            <>
+              {text.slice(0, range.start)}
+              <mark ref={markRef} className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-900/60 dark:text-foreground">
+                {text.slice(range.start, range.end)}
+              </mark>
+              {text.slice(range.end)}
+            </>
+          ) : text}
+        </pre>
+      </div>
+    </ScrollArea>
+  );
+}
@@ -9,6 +9,7 @@ import { Loader2, CheckCircle2, XCircle, Clock, AlertTriangle, FileSpreadsheet,
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { toast } from 'sonner';
 import { useReprocessFile } from '@/hooks/useReprocessFile';
+import { extractableFormat } from '@/lib/extractableFormats';
 
 interface ExtractionJob {
   id: string;
@@ -151,6 +152,7 @@ interface ExtendedJob {
   items_extracted: number | null;
   sheets_found: number | null;
   content_truncated: boolean | null;
+  project_files: { name: string; mime_type: string | null } | null;
 }
 
 export function ExtractionBadge({ fileId, projectId }: ExtractionBadgeProps) {
@@ -161,7 +163,7 @@ export function ExtractionBadge({ fileId, projectId }: ExtractionBadgeProps) {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('extraction_jobs')
-        .select('id, status, items_extracted, sheets_found, content_truncated')
+        .select('id, status, items_extracted, sheets_found, content_truncated, project_files(name, mime_type)')
         .eq('file_id', fileId)
         .order('created_at', { ascending: false })
         .limit(1)
@@ -208,6 +210,8 @@ export function ExtractionBadge({ fileId, projectId }: ExtractionBadgeProps) {
   if (job.status === 'completed' && job.items_extracted && job.items_extracted > 0) {
     const hasSheetInfo = job.sheets_found && job.sheets_found > 1;
     const wasTruncated = job.content_truncated;
+    const format = job.project_files ? extractableFormat(job.project_files.name, job.project_files.mime_type) : null;
+    const sheetsLabel = format?.sheetsLabel ?? 'abas processadas';
     
     const badgeContent = (
       <Badge variant="secondary" className="text-xs gap-1">
@@ -232,7 +236,7 @@ export function ExtractionBadge({ fileId, projectId }: ExtractionBadgeProps) {
             <TooltipContent>
               <div className="text-xs space-y-1">
                 {hasSheetInfo && (
-                  <p>{job.sheets_found} abas processadas</p>
+                  <p>{job.sheets_found} {sheetsLabel}</p>
                 )}
                 {wasTruncated && (
                   <p className="text-amber-500">⚠️ Conteúdo truncado (arquivo muito grande)</p>
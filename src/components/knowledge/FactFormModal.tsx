@@ -55,13 +55,15 @@ const VALUE_TEMPLATES: Record<string, Record<string, any>> = {
 interface FactFormModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSaved: () => void;
+  onSaved: (factId: string) => void;
   projects: { id: string; name: string }[];
   editFact?: KnowledgeFact | null;
   duplicateFact?: KnowledgeFact | null;
+  // Prefilled new fact (e.g. a corrected answer promoted from feedback)
+  draft?: Partial<KnowledgeFact> | null;
 }
 
-export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact, duplicateFact }: FactFormModalProps) {
+export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact, duplicateFact, draft }: FactFormModalProps) {
   const { user } = useAuth();
   const [saving, setSaving] = useState(false);
   const [category, setCategory] = useState('price');
@@ -89,6 +91,18 @@ export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact,
       setAuthoritative(source.authoritative);
       setPriority(source.priority);
       setProjectId(source.project_id || 'global');
+    } else if (draft) {
+      const draftCategory = draft.category || 'other';
+      setCategory(draftCategory);
+      setKey(draft.key || '');
+      setTitle(draft.title || '');
+      setValueJson(JSON.stringify(draft.value || VALUE_TEMPLATES[draftCategory] || {}, null, 2));
+      setDescription(draft.description || '');
+      setTagsStr((draft.tags || []).join(', '));
+      setAuthoritative(draft.authoritative ?? true);
+      setPriority(draft.priority ?? 100);
+      setProjectId(draft.project_id || 'global');
+      setChangeReason('');
     } else {
       setCategory('price');
       setKey('');
@@ -101,7 +115,7 @@ export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact,
       setProjectId('global');
       setChangeReason('');
     }
-  }, [source, open]);
+  }, [source, draft, open]);
 
   const handleCategoryChange = (cat: string) => {
     setCategory(cat);
@@ -131,6 +145,7 @@ export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact,
 
     setSaving(true);
     try {
+      let savedId: string;
       const tags = tagsStr.split(',').map(t => t.trim()).filter(Boolean);
       const pid = projectId === 'global' ? null : projectId;
 
@@ -170,6 +185,7 @@ export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact,
 
         // Trigger reindex
         await triggerFactIndex(editFact.id, pid);
+        savedId = editFact.id;
         toast.success('Fato atualizado com sucesso');
       } else {
         // Insert
@@ -200,10 +216,11 @@ export function FactFormModal({ open, onOpenChange, onSaved, projects, editFact,
         });
 
         await triggerFactIndex(data.id, pid);
+        savedId = data.id;
         toast.success('Fato criado com sucesso');
       }
 
-      onSaved();
+      onSaved(savedId);
       onOpenChange(false);
     } catch (err: any) {
       toast.error(err.message || 'Erro ao salvar fato');
@@ -157,7 +157,7 @@ export function FactsList({ projects }: FactsListProps) {
       <FactFormModal
         open={formOpen}
         onOpenChange={setFormOpen}
-        onSaved={refetch}
+        onSaved={() => refetch()}
         projects={projects}
         editFact={editFact}
         duplicateFact={duplicateFact}
@@ -15,6 +15,7 @@ import { Upload, FileIcon, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { ExtractableFormatsNote, FileFormatHint } from '@/components/files/ExtractableFormatHint';
 
 const formSchema = z.object({
   description: z.string().optional(),
@@ -169,7 +170,8 @@ export function GlobalFileUploadModal({ open, onOpenChange, onSuccess }: GlobalF
                 <label htmlFor="global-file-upload" className="cursor-pointer flex flex-col items-center gap-2">
                   <Upload className="h-10 w-10 text-muted-foreground" />
                   <p className="text-sm font-medium">Clique para selecionar um arquivo</p>
-                  <p className="text-xs text-muted-foreground">PDF, Excel, Word, CSV — até 50MB</p>
+                  <p className="text-xs text-muted-foreground">Até 50MB</p>
+                  <ExtractableFormatsNote />
                 </label>
               </div>
             ) : (
@@ -179,6 +181,7 @@ export function GlobalFileUploadModal({ open, onOpenChange, onSuccess }: GlobalF
                   <div className="flex-1 min-w-0">
                     <p className="font-medium truncate">{file.name}</p>
                     <p className="text-sm text-muted-foreground">{formatFileSize(file.size)}</p>
+                    <FileFormatHint file={file} />
                   </div>
                   {!uploading && (
                     <Button type="button" variant="ghost" size="icon" onClick={() => setFile(null)}>
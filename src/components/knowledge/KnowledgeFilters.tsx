@@ -28,10 +28,13 @@ import {
   Clock,
   CircleDashed,
   Globe,
+  Trophy,
+  Sigma,
+  Activity,
 } from 'lucide-react';
 import { KnowledgeCategory } from './KnowledgeCard';
 
-export type EntryTypeFilter = 'all' | 'documents' | 'insights' | 'experiments' | 'facts';
+export type EntryTypeFilter = 'all' | 'documents' | 'insights' | 'experiments' | 'facts' | 'benchmarks' | 'statistics' | 'weibull';
 export type ValidationFilter = 'all' | 'pending' | 'validated';
 
 interface Project {
@@ -153,6 +156,33 @@ export function KnowledgeFilters({
             <BookOpen className="h-3 w-3 mr-1" />
             Fatos
           </Button>
+          <Button
+            variant={entryType === 'benchmarks' ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs"
+            onClick={() => onEntryTypeChange('benchmarks')}
+          >
+            <Trophy className="h-3 w-3 mr-1" />
+            Benchmarks
+          </Button>
+          <Button
+            variant={entryType === 'statistics' ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs"
+            onClick={() => onEntryTypeChange('statistics')}
+          >
+            <Sigma className="h-3 w-3 mr-1" />
+            Significância
+          </Button>
+          <Button
+            variant={entryType === 'weibull' ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs"
+            onClick={() => onEntryTypeChange('weibull')}
+          >
+            <Activity className="h-3 w-3 mr-1" />
+            Weibull
+          </Button>
         </div>
       </div>
 
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { categoryConfig, type KnowledgeCategory } from './KnowledgeCard';
+import { REVIEW_ITEM_LABELS, type ReviewEdits, type ReviewItem } from '@/hooks/useExtractionReview';
+
+interface ReviewItemEditModalProps {
+  item: ReviewItem | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (edits: ReviewEdits) => void;
+  saving?: boolean;
+}
+
+export function ReviewItemEditModal({ item, open, onOpenChange, onSave, saving = false }: ReviewItemEditModalProps) {
+  const [draft, setDraft] = useState<ReviewEdits>({});
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (!item || !open) return;
+    setDraft(item.editable);
+    setValue(item.editable.value !== undefined ? String(item.editable.value) : '');
+  }, [item, open]);
+
+  if (!item) return null;
+
+  const parsedValue = Number(value.replace(',', '.'));
+  const valueInvalid = item.type === 'measurement' && !item.valueLocked && (value.trim() === '' || !Number.isFinite(parsedValue));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (valueInvalid) return;
+    if (item.type === 'measurement') {
+      onSave({ notes: draft.notes ?? '', ...(item.valueLocked ? {} : { value: parsedValue }) });
+    } else {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Editar {REVIEW_ITEM_LABELS[item.type].toLowerCase()}</DialogTitle>
+            <DialogDescription>As alterações são salvas e o item fica marcado como revisado.</DialogDescription>
+          </DialogHeader>
+
+          {item.type === 'knowledge' && (
+            <>
+              <div className="space-y-2">
+                <Label>Categoria</Label>
+                <Select
+                  value={draft.category}
+                  onValueChange={(v) => setDraft(d => ({ ...d, category: v as KnowledgeCategory }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(categoryConfig) as KnowledgeCategory[]).map(c => (
+                      <SelectItem key={c} value={c}>{categoryConfig[c].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="review-title">Título</Label>
+                <Input
+                  id="review-title"
+                  value={draft.title ?? ''}
+                  maxLength={100}
+                  onChange={(e) => setDraft(d => ({ ...d, title: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="review-content">Conteúdo</Label>
+                <Textarea
+                  id="review-content"
+                  rows={5}
+                  value={draft.content ?? ''}
+                  maxLength={500}
+                  onChange={(e) => setDraft(d => ({ ...d, content: e.target.value }))}
+                />
+              </div>
+            </>
+          )}
+
+          {item.type === 'measurement' && (
+            <>
+              <p className="text-sm text-muted-foreground">{item.title}</p>
+              <div className="space-y-2">
+                <Label htmlFor="review-value">Valor</Label>
+                <Input
+                  id="review-value"
+                  inputMode="decimal"
+                  value={value}
+                  disabled={item.valueLocked}
+                  onChange={(e) => setValue(e.target.value)}
+                />
+                {item.valueLocked && (
+                  <p className="text-xs text-muted-foreground">
+                    Média de réplicas: o valor é calculado a partir dos corpos de prova.
+                  </p>
+                )}
+                {valueInvalid && <p className="text-xs text-destructive">Informe um número.</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="review-notes">Observações</Label>
+                <Textarea
+                  id="review-notes"
+                  rows={3}
+                  value={draft.notes ?? ''}
+                  onChange={(e) => setDraft(d => ({ ...d, notes: e.target.value }))}
+                />
+              </div>
+            </>
+          )}
+
+          {item.type === 'claim' && (
+            <div className="space-y-2">
+              <Label htmlFor="review-excerpt">Trecho</Label>
+              <Textarea
+                id="review-excerpt"
+                rows={5}
+                value={draft.excerpt ?? ''}
+                maxLength={500}
+                onChange={(e) => setDraft(d => ({ ...d, excerpt: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving || valueInvalid}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar e aceitar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Sigma, Loader2, Play, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+type GroupBy = 'experiment' | 'condition';
+
+interface GroupSummary {
+  label: string;
+  n: number;
+  mean: number;
+  sd: number;
+  ci: [number, number] | null;
+}
+
+interface SignificanceResult {
+  metric: string;
+  unit: string | null;
+  n_measurements: number;
+  dropped_units: { unit: string; n: number }[];
+  missing_condition: number;
+  message?: string;
+  comparison: {
+    alpha: number;
+    groups: GroupSummary[];
+    excluded: string[];
+    welch: {
+      groups: [string, string];
+      t: number; df: number; p_value: number;
+      mean_diff: number; ci: [number, number]; hedges_g: number; significant: boolean;
+    } | null;
+    anova: {
+      f: number; df_between: number; df_within: number; p_value: number;
+      eta_squared: number; omega_squared: number; significant: boolean;
+      tukey: {
+        groups: [string, string]; mean_diff: number; ci: [number, number];
+        q: number; p_adj: number; significant: boolean;
+      }[];
+    } | null;
+    kruskal_wallis: {
+      h: number; df: number; p_value: number; epsilon_squared: number; significant: boolean;
+    } | null;
+  } | null;
+}
+
+interface SignificancePanelProps {
+  projects: { id: string; name: string }[];
+}
+
+const fmt = (v: number, digits = 2) => v.toLocaleString('pt-BR', { maximumFractionDigits: digits, minimumFractionDigits: digits });
+
+function formatPValue(p: number): string {
+  return p < 0.001 ? 'p < 0,001' : `p = ${fmt(p, 3)}`;
+}
+
+function SignificanceBadge({ significant, alpha }: { significant: boolean; alpha: number }) {
+  return significant
+    ? <Badge>Significativo (α = {fmt(alpha)})</Badge>
+    : <Badge variant="outline">Não significativo</Badge>;
+}
+
+export function SignificancePanel({ projects }: SignificancePanelProps) {
+  const { user } = useAuth();
+  const [projectId, setProjectId] = useState<string>(projects[0]?.id || '');
+  const [metric, setMetric] = useState<string>('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('experiment');
+  const [conditionKey, setConditionKey] = useState<string>('');
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<SignificanceResult | null>(null);
+
+  useEffect(() => {
+    if (!projectId && projects.length > 0) setProjectId(projects[0].id);
+  }, [projects, projectId]);
+
+  const { data: metrics } = useQuery({
+    queryKey: ['significance-metrics', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('measurements')
+        .select('metric, experiments!inner(project_id, deleted_at)')
+        .eq('experiments.project_id', projectId)
+        .is('experiments.deleted_at', null)
+        .limit(5000);
+      if (error) throw error;
+      return [...new Set((data || []).map(m => m.metric))].sort();
+    },
+    enabled: !!user && !!projectId,
+  });
+
+  const { data: conditionKeys } = useQuery({
+    queryKey: ['significance-condition-keys', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('experiment_conditions')
+        .select('key, experiments!inner(project_id, deleted_at)')
+        .eq('experiments.project_id', projectId)
+        .is('experiments.deleted_at', null)
+        .limit(5000);
+      if (error) throw error;
+      return [...new Set((data || []).map(c => c.key))].sort();
+    },
+    enabled: !!user && !!projectId && groupBy === 'condition',
+  });
+
+  const handleProjectChange = (id: string) => {
+    setProjectId(id);
+    setMetric('');
+    setConditionKey('');
+    setResult(null);
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('significance-tests', {
+        body: {
+          project_id: projectId,
+          metric,
+          group_by: groupBy,
+          condition_key: groupBy === 'condition' ? conditionKey : undefined,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      setResult(data as SignificanceResult);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Erro ao executar os testes');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const canRun = !!projectId && !!metric && (groupBy === 'experiment' || !!conditionKey) && !running;
+  const comparison = result?.comparison;
+  const unit = result?.unit ? ` ${result.unit}` : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Sigma className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold text-lg">Testes de Significância</h3>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Projeto</Label>
+          <Select value={projectId} onValueChange={handleProjectChange}>
+            <SelectTrigger><SelectValue placeholder="Projeto" /></SelectTrigger>
+            <SelectContent>
+              {projects.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Métrica</Label>
+          <Select value={metric} onValueChange={setMetric}>
+            <SelectTrigger><SelectValue placeholder="Selecione a métrica" /></SelectTrigger>
+            <SelectContent>
+              {(metrics || []).map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Agrupar por</Label>
+          <Select value={groupBy} onValueChange={(v: GroupBy) => setGroupBy(v)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="experiment">Experimento (formulação)</SelectItem>
+              <SelectItem value="condition">Condição experimental</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {groupBy === 'condition' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Condição</Label>
+            <Select value={conditionKey} onValueChange={setConditionKey}>
+              <SelectTrigger><SelectValue placeholder="Selecione a condição" /></SelectTrigger>
+              <SelectContent>
+                {(conditionKeys || []).map(k => <SelectItem key={k} value={k}>{k}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <Button onClick={handleRun} disabled={!canRun}>
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          {running ? 'Calculando...' : 'Executar testes'}
+        </Button>
+      </div>
+
+      {!result ? (
+        <Card className="border-dashed">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+              <Sigma className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>Compare formulações</CardTitle>
+            <CardDescription>
+              Escolha uma métrica para verificar se as diferenças entre experimentos ou condições são estatisticamente significativas (Welch, ANOVA + Tukey e Kruskal-Wallis).
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {(result.message || result.dropped_units.length > 0 || result.missing_condition > 0 || (comparison?.excluded.length ?? 0) > 0) && (
+            <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-600 shrink-0" />
+              <div className="space-y-1">
+                {result.message && <p>{result.message}</p>}
+                {result.dropped_units.length > 0 && (
+                  <p>Medições em outras unidades foram ignoradas: {result.dropped_units.map(d => `${d.unit} (${d.n})`).join(', ')}.</p>
+                )}
+                {result.missing_condition > 0 && (
+                  <p>{result.missing_condition} medição(ões) sem a condição "{conditionKey}" foram ignoradas.</p>
+                )}
+                {comparison && comparison.excluded.length > 0 && (
+                  <p>Grupos com menos de 2 medições ficaram fora dos testes: {comparison.excluded.join(', ')}.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {comparison && (
+            <>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Grupos — {result.metric}{unit}</CardTitle>
+                  <CardDescription>Média, desvio padrão e IC {fmt((1 - comparison.alpha) * 100, 0)}% da média</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Grupo</TableHead>
+                        <TableHead className="text-right">n</TableHead>
+                        <TableHead className="text-right">Média</TableHead>
+                        <TableHead className="text-right">DP</TableHead>
+                        <TableHead className="text-right">IC</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {comparison.groups.map(g => (
+                        <TableRow key={g.label}>
+                          <TableCell className="font-medium">{g.label}</TableCell>
+                          <TableCell className="text-right">{g.n}</TableCell>
+                          <TableCell className="text-right">{fmt(g.mean)}</TableCell>
+                          <TableCell className="text-right">{fmt(g.sd)}</TableCell>
+                          <TableCell className="text-right">{g.ci ? `[${fmt(g.ci[0])}; ${fmt(g.ci[1])}]` : '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                {comparison.welch && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <CardTitle className="text-base">Teste t de Welch</CardTitle>
+                        <SignificanceBadge significant={comparison.welch.significant} alpha={comparison.alpha} />
+                      </div>
+                      <CardDescription>{comparison.welch.groups[0]} vs {comparison.welch.groups[1]}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-1">
+                      <p>t = {fmt(comparison.welch.t, 3)}, gl = {fmt(comparison.welch.df, 1)}, {formatPValue(comparison.welch.p_value)}</p>
+                      <p>Diferença de médias: {fmt(comparison.welch.mean_diff)}{unit} [{fmt(comparison.welch.ci[0])}; {fmt(comparison.welch.ci[1])}]</p>
+                      <p>g de Hedges: {fmt(comparison.welch.hedges_g)}</p>
+                    </CardContent>
+                  </Card>
+                )}
+                {comparison.anova && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <CardTitle className="text-base">ANOVA (um fator)</CardTitle>
+                        <SignificanceBadge significant={comparison.anova.significant} alpha={comparison.alpha} />
+                      </div>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-1">
+                      <p>F({comparison.anova.df_between}, {comparison.anova.df_within}) = {fmt(comparison.anova.f, 3)}, {formatPValue(comparison.anova.p_value)}</p>
+                      <p>η² = {fmt(comparison.anova.eta_squared, 3)}, ω² = {fmt(comparison.anova.omega_squared, 3)}</p>
+                    </CardContent>
+                  </Card>
+                )}
+                {comparison.kruskal_wallis && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <CardTitle className="text-base">Kruskal-Wallis</CardTitle>
+                        <SignificanceBadge significant={comparison.kruskal_wallis.significant} alpha={comparison.alpha} />
+                      </div>
+                      <CardDescription>Alternativa não paramétrica</CardDescription>
+                    </CardHeader>
+                    <CardContent className="text-sm space-y-1">
+                      <p>H = {fmt(comparison.kruskal_wallis.h, 3)}, gl = {comparison.kruskal_wallis.df}, {formatPValue(comparison.kruskal_wallis.p_value)}</p>
+                      <p>ε² = {fmt(comparison.kruskal_wallis.epsilon_squared, 3)}</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+
+              {comparison.anova && comparison.anova.tukey.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">Comparações múltiplas (Tukey HSD)</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Comparação</TableHead>
+                          <TableHead className="text-right">Diferença</TableHead>
+                          <TableHead className="text-right">IC</TableHead>
+                          <TableHead className="text-right">p ajustado</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.anova.tukey.map(c => (
+                          <TableRow key={c.groups.join('|')}>
+                            <TableCell className="font-medium">{c.groups[0]} vs {c.groups[1]}</TableCell>
+                            <TableCell className="text-right">{fmt(c.mean_diff)}</TableCell>
+                            <TableCell className="text-right">[{fmt(c.ci[0])}; {fmt(c.ci[1])}]</TableCell>
+                            <TableCell className="text-right">{formatPValue(c.p_adj)}</TableCell>
+                            <TableCell className="text-right">
+                              {c.significant ? <Badge>Significativo</Badge> : <Badge variant="outline">n.s.</Badge>}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip } from '@/components/ui/chart';
+import { Activity, Loader2, Play, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+type GroupBy = 'experiment' | 'condition';
+
+interface WeibullPoint {
+  value: number;
+  probability: number;
+  x: number;
+  y: number;
+}
+
+interface WeibullAnalysis {
+  id: string;
+  metric: string;
+  unit: string | null;
+  group_by: GroupBy;
+  condition_key: string | null;
+  group_label: string;
+  n: number;
+  alpha: number;
+  modulus: number;
+  modulus_ci_low: number;
+  modulus_ci_high: number;
+  modulus_unbiased: number;
+  characteristic_strength: number;
+  characteristic_strength_ci_low: number;
+  characteristic_strength_ci_high: number;
+  points: WeibullPoint[];
+  modulus_measurement_id: string | null;
+  created_at: string;
+}
+
+interface WeibullPanelProps {
+  projects: { id: string; name: string }[];
+}
+
+const WEIBULL_METRICS = ['flexural_strength', 'compressive_strength', 'tensile_strength', 'impact_strength'];
+const isWeibullMetric = (metric: string) => WEIBULL_METRICS.includes(metric) || metric.endsWith('_strength');
+
+const SERIES_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--success))',
+  'hsl(var(--warning))',
+  'hsl(var(--destructive))',
+  'hsl(262 60% 55%)',
+  'hsl(190 70% 40%)',
+];
+
+const fmt = (v: number, digits = 2) => v.toLocaleString('pt-BR', { maximumFractionDigits: digits, minimumFractionDigits: digits });
+
+function WeibullPlot({ analyses, unit }: { analyses: WeibullAnalysis[]; unit: string }) {
+  // Points on ln(σ) × ln(ln(1/(1−F))); the fitted line is y = m·(x − ln σ0)
+  const { config, series } = useMemo(() => {
+    const cfg: ChartConfig = {};
+    const out = analyses.map((a, i) => {
+      const key = `g${i}`;
+      const color = SERIES_COLORS[i % SERIES_COLORS.length];
+      cfg[key] = { label: a.group_label, color };
+      const xs = a.points.map(p => p.x);
+      const [x0, x1] = [Math.min(...xs), Math.max(...xs)];
+      const lnSigma0 = Math.log(a.characteristic_strength);
+      const line = [x0, x1].map(x => ({ x, y: a.modulus * (x - lnSigma0) }));
+      return { key, color, points: a.points, line };
+    });
+    return { config: cfg, series: out };
+  }, [analyses]);
+
+  const tooltip = ({ active, payload }: { active?: boolean; payload?: { payload: WeibullPoint }[] }) => {
+    const point = payload?.[0]?.payload;
+    if (!active || !point || point.value === undefined) return null;
+    return (
+      <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+        <p>{fmt(point.value)} {unit}</p>
+        <p className="text-muted-foreground">F = {fmt(point.probability * 100, 1)}%</p>
+      </div>
+    );
+  };
+
+  return (
+    <ChartContainer config={config} className="h-[320px] w-full">
+      <ScatterChart margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+        <CartesianGrid />
+        <XAxis
+          type="number"
+          dataKey="x"
+          domain={['auto', 'auto']}
+          tickFormatter={(x: number) => fmt(Math.exp(x), 0)}
+          label={{ value: `σ (${unit}, escala log)`, position: 'insideBottom', offset: -4, fontSize: 11 }}
+        />
+        <YAxis
+          type="number"
+          dataKey="y"
+          domain={['auto', 'auto']}
+          width={48}
+          tickFormatter={(y: number) => `${fmt((1 - Math.exp(-Math.exp(y))) * 100, 0)}%`}
+        />
+        <ZAxis range={[36, 36]} />
+        <ChartTooltip content={tooltip} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {series.map(s => (
+          <Scatter key={s.key} name={s.key} data={s.points} fill={`var(--color-${s.key})`} />
+        ))}
+        {series.map(s => (
+          <Scatter
+            key={`${s.key}-fit`}
+            data={s.line}
+            line={{ stroke: s.color, strokeWidth: 1.5 }}
+            shape={() => <g />}
+            legendType="none"
+            isAnimationActive={false}
+          />
+        ))}
+      </ScatterChart>
+    </ChartContainer>
+  );
+}
+
+export function WeibullPanel({ projects }: WeibullPanelProps) {
+  const { user } = useAuth();
+  const [projectId, setProjectId] = useState<string>(projects[0]?.id || '');
+  const [metric, setMetric] = useState<string>('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('experiment');
+  const [conditionKey, setConditionKey] = useState<string>('');
+  const [running, setRunning] = useState(false);
+  const [skipped, setSkipped] = useState<{ label: string; n: number }[]>([]);
+
+  useEffect(() => {
+    if (!projectId && projects.length > 0) setProjectId(projects[0].id);
+  }, [projects, projectId]);
+
+  const { data: metrics } = useQuery({
+    queryKey: ['weibull-metrics', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('measurements')
+        .select('metric, experiments!inner(project_id, deleted_at)')
+        .eq('experiments.project_id', projectId)
+        .is('experiments.deleted_at', null)
+        .limit(5000);
+      if (error) throw error;
+      return [...new Set((data || []).map(m => m.metric))].filter(isWeibullMetric).sort();
+    },
+    enabled: !!user && !!projectId,
+  });
+
+  const { data: conditionKeys } = useQuery({
+    queryKey: ['significance-condition-keys', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('experiment_conditions')
+        .select('key, experiments!inner(project_id, deleted_at)')
+        .eq('experiments.project_id', projectId)
+        .is('experiments.deleted_at', null)
+        .limit(5000);
+      if (error) throw error;
+      return [...new Set((data || []).map(c => c.key))].sort();
+    },
+    enabled: !!user && !!projectId && groupBy === 'condition',
+  });
+
+  const { data: analyses, isLoading, refetch } = useQuery({
+    queryKey: ['weibull-analyses', projectId, metric, groupBy, conditionKey],
+    queryFn: async () => {
+      let query = supabase
+        .from('weibull_analyses')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('metric', metric)
+        .eq('group_by', groupBy);
+      query = groupBy === 'condition' ? query.eq('condition_key', conditionKey) : query.is('condition_key', null);
+      const { data, error } = await query.order('group_label');
+      if (error) throw error;
+      return data as unknown as WeibullAnalysis[];
+    },
+    enabled: !!user && !!projectId && !!metric && (groupBy === 'experiment' || !!conditionKey),
+  });
+
+  const handleProjectChange = (id: string) => {
+    setProjectId(id);
+    setMetric('');
+    setConditionKey('');
+    setSkipped([]);
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('weibull-analysis', {
+        body: {
+          project_id: projectId,
+          metric,
+          group_by: groupBy,
+          condition_key: groupBy === 'condition' ? conditionKey : undefined,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      setSkipped(data.skipped || []);
+      toast.success(`${data.analyses.length} ajuste(s) de Weibull salvo(s)`);
+      refetch();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Erro na análise de Weibull');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const canRun = !!projectId && !!metric && (groupBy === 'experiment' || !!conditionKey) && !running;
+  const unit = analyses?.[0]?.unit || '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Activity className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold text-lg">Análise de Weibull</h3>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Projeto</Label>
+          <Select value={projectId} onValueChange={handleProjectChange}>
+            <SelectTrigger><SelectValue placeholder="Projeto" /></SelectTrigger>
+            <SelectContent>
+              {projects.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Métrica de resistência</Label>
+          <Select value={metric} onValueChange={v => { setMetric(v); setSkipped([]); }}>
+            <SelectTrigger><SelectValue placeholder="Selecione a métrica" /></SelectTrigger>
+            <SelectContent>
+              {(metrics || []).map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Agrupar por</Label>
+          <Select value={groupBy} onValueChange={(v: GroupBy) => { setGroupBy(v); setSkipped([]); }}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="experiment">Experimento (formulação)</SelectItem>
+              <SelectItem value="condition">Condição experimental</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {groupBy === 'condition' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Condição</Label>
+            <Select value={conditionKey} onValueChange={setConditionKey}>
+              <SelectTrigger><SelectValue placeholder="Selecione a condição" /></SelectTrigger>
+              <SelectContent>
+                {(conditionKeys || []).map(k => <SelectItem key={k} value={k}>{k}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <Button onClick={handleRun} disabled={!canRun}>
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          {running ? 'Ajustando...' : 'Executar análise'}
+        </Button>
+      </div>
+
+      {skipped.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-600 shrink-0" />
+          <p>Grupos com menos de 5 réplicas válidas não foram ajustados: {skipped.map(s => `${s.label} (n=${s.n})`).join(', ')}.</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-[320px] w-full" />
+      ) : !analyses || analyses.length === 0 ? (
+        <Card className="border-dashed">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+              <Activity className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>{metric ? 'Nenhuma análise salva' : 'Confiabilidade da resistência'}</CardTitle>
+            <CardDescription>
+              Ajusta o módulo de Weibull (m) e a resistência característica (σ0) por máxima verossimilhança, com limites de confiança (ASTM C1239). Os resultados ficam salvos como métricas derivadas e podem ser citados pelo assistente e nos relatórios.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Gráfico de probabilidade de Weibull — {metric}</CardTitle>
+              <CardDescription>Probabilidade de falha (i − 0,5)/n; retas = ajuste de máxima verossimilhança</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WeibullPlot analyses={analyses} unit={unit} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Parâmetros de Weibull</CardTitle>
+              <CardDescription>IC {fmt((1 - analyses[0].alpha) * 100, 0)}% · atualizado em {new Date(analyses[0].created_at).toLocaleString('pt-BR')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Grupo</TableHead>
+                    <TableHead className="text-right">n</TableHead>
+                    <TableHead className="text-right">m</TableHead>
+                    <TableHead className="text-right">IC de m</TableHead>
+                    <TableHead className="text-right">m (sem viés)</TableHead>
+                    <TableHead className="text-right">σ0 ({unit})</TableHead>
+                    <TableHead className="text-right">IC de σ0</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analyses.map(a => (
+                    <TableRow key={a.id}>
+                      <TableCell className="font-medium">{a.group_label}</TableCell>
+                      <TableCell className="text-right">{a.n}</TableCell>
+                      <TableCell className="text-right">{fmt(a.modulus)}</TableCell>
+                      <TableCell className="text-right">[{fmt(a.modulus_ci_low)}; {fmt(a.modulus_ci_high)}]</TableCell>
+                      <TableCell className="text-right">{fmt(a.modulus_unbiased)}</TableCell>
+                      <TableCell className="text-right">{fmt(a.characteristic_strength)}</TableCell>
+                      <TableCell className="text-right">[{fmt(a.characteristic_strength_ci_low)}; {fmt(a.characteristic_strength_ci_high)}]</TableCell>
+                      <TableCell className="text-right">
+                        {a.modulus_measurement_id && <Badge variant="outline">Métrica derivada</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
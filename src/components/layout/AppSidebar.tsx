@@ -35,9 +35,13 @@ import {
   User,
   MessageCircle,
   Shield,
+  Activity,
+  Beaker,
+  Table2,
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useAdminRole } from '@/hooks/useAdminRole';
+import { useManagedProjects } from '@/hooks/useManagedProjects';
 
 const mainNavItems = [
   { title: 'Dashboard', url: '/', icon: LayoutDashboard },
@@ -50,11 +54,14 @@ const mainNavItems = [
 const secondaryNavItems = [
   { title: 'Arquivos', url: '/files', icon: FolderOpen },
   { title: 'Base de Conhecimento', url: '/knowledge', icon: Brain },
+  { title: 'Formulações', url: '/formulations', icon: Beaker },
+  { title: 'Explorador de Dados', url: '/data-explorer', icon: Table2 },
 ];
 
 export function AppSidebar() {
   const { user, signOut } = useAuth();
   const { isAdmin } = useAdminRole();
+  const { projects: managedProjects } = useManagedProjects();
   const location = useLocation();
 
   const getInitials = (name?: string | null, email?: string) => {
@@ -128,20 +135,34 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
-        {isAdmin && (
+        {(isAdmin || managedProjects.length > 0) && (
           <SidebarGroup>
             <SidebarGroupLabel>Administração</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
+                {isAdmin && (
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location.pathname === '/admin'}
+                      tooltip="Administração"
+                    >
+                      <NavLink to="/admin">
+                        <Shield className="h-4 w-4" />
+                        <span>Administração</span>
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                )}
                 <SidebarMenuItem>
                   <SidebarMenuButton
                     asChild
-                    isActive={location.pathname === '/admin'}
-                    tooltip="Administração"
+                    isActive={location.pathname === '/rag-quality'}
+                    tooltip="Qualidade RAG"
                   >
-                    <NavLink to="/admin">
-                      <Shield className="h-4 w-4" />
-                      <span>Administração</span>
+                    <NavLink to="/rag-quality">
+                      <Activity className="h-4 w-4" />
+                      <span>Qualidade RAG</span>
                     </NavLink>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
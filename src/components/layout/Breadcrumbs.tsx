@@ -16,7 +16,10 @@ const routeLabels: Record<string, string> = {
   'reports': 'Relatórios',
   'files': 'Arquivos',
   'knowledge': 'Base de Conhecimento',
+  'formulations': 'Formulações',
+  'data-explorer': 'Explorador de Dados',
   'settings': 'Configurações',
+  'rag-quality': 'Qualidade RAG',
   'new': 'Novo',
   'edit': 'Editar',
 };
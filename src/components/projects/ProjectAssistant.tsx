@@ -6,6 +6,7 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
   Send,
+  Square,
   Loader2,
   Bot,
   Sparkles,
@@ -28,7 +29,7 @@ interface ProjectAssistantProps {
 }
 
 export function ProjectAssistant({ projectId, projectName }: ProjectAssistantProps) {
-  const { messages, isLoading, sendMessage, clearMessages, analyzeDocument } = useAssistantChat({ projectId });
+  const { messages, isLoading, sendMessage, refreshAnswer, cancelRequest, clearMessages, analyzeDocument } = useAssistantChat({ projectId });
   const [input, setInput] = useState('');
   const [showSources, setShowSources] = useState(true);
   const [showFilePicker, setShowFilePicker] = useState(false);
@@ -187,9 +188,10 @@ export function ProjectAssistant({ projectId, projectName }: ProjectAssistantPro
                     key={message.id}
                     message={message}
                     onSourceClick={handleSourceClick}
+                    onRefresh={isLoading ? undefined : refreshAnswer}
                   />
                 ))}
-                {isLoading && (
+                {isLoading && !messages[messages.length - 1]?.isStreaming && (
                   <div className="flex gap-3 p-3 rounded-lg bg-muted/50">
                     <div className="h-6 w-6 rounded-full bg-secondary flex items-center justify-center shrink-0">
                       <Loader2 className="h-3 w-3 animate-spin" />
@@ -226,13 +228,15 @@ export function ProjectAssistant({ projectId, projectName }: ProjectAssistantPro
                 disabled={isLoading}
                 className="flex-1 h-9 text-sm"
               />
-              <Button type="submit" disabled={isLoading || !input.trim()} size="sm" className="h-9">
-                {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
+              {isLoading ? (
+                <Button type="button" variant="outline" size="sm" className="h-9" onClick={cancelRequest} title="Parar">
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!input.trim()} size="sm" className="h-9">
                   <Send className="h-4 w-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
           </form>
         </div>
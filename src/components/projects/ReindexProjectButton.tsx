@@ -1,5 +1,14 @@
 import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,14 +24,36 @@ import { RefreshCw, Loader2, CheckCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
+// Must match CHUNKING_VERSIONS in supabase/functions/_shared/chunking.ts
+const CHUNKING_OPTIONS = [
+  { value: 'structure-v1', label: 'Por estrutura (seções, tabelas, páginas)' },
+  { value: 'fixed-v1', label: 'Janela fixa de 1000 caracteres (anterior)' },
+];
+
 interface ReindexProjectButtonProps {
   projectId: string;
   projectName: string;
 }
 
 export function ReindexProjectButton({ projectId, projectName }: ReindexProjectButtonProps) {
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [chunkingVersion, setChunkingVersion] = useState<string | null>(null);
+
+  const { data: currentVersion } = useQuery({
+    queryKey: ['project-chunking-version', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('chunking_version')
+        .eq('id', projectId)
+        .single();
+      if (error) throw error;
+      return data.chunking_version;
+    },
+  });
+  const selectedVersion = chunkingVersion ?? currentVersion ?? 'structure-v1';
 
   const handleReindex = async () => {
     setLoading(true);
@@ -43,7 +74,7 @@ export function ReindexProjectButton({ projectId, projectName }: ReindexProjectB
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({ project_id: projectId }),
+          body: JSON.stringify({ project_id: projectId, chunking_version: selectedVersion }),
         }
       );
 
@@ -54,10 +85,11 @@ export function ReindexProjectButton({ projectId, projectName }: ReindexProjectB
 
       const result = await response.json();
       setSuccess(true);
+      queryClient.invalidateQueries({ queryKey: ['project-chunking-version', projectId] });
       toast.success(
         `${result.jobs_created} itens enviados para indexação`,
         {
-          description: `${result.breakdown.reports} relatórios, ${result.breakdown.tasks} tarefas, ${result.breakdown.insights} insights`,
+          description: `${result.breakdown.reports} relatórios, ${result.breakdown.tasks} tarefas, ${result.breakdown.insights} insights, ${result.breakdown.files} arquivos`,
         }
       );
 
@@ -96,11 +128,30 @@ export function ReindexProjectButton({ projectId, projectName }: ReindexProjectB
               <li>Todos os relatórios</li>
               <li>Todas as tarefas e comentários</li>
               <li>Todos os insights extraídos</li>
+              <li>O texto extraído dos arquivos</li>
             </ul>
             <br />
             Este processo pode levar alguns minutos dependendo do volume de conteúdo.
           </AlertDialogDescription>
         </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label>Divisão em trechos</Label>
+          <Select value={selectedVersion} onValueChange={setChunkingVersion}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHUNKING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            A estratégia fica salva no projeto. Reindexe com outra para comparar a qualidade das respostas.
+          </p>
+        </div>
         <AlertDialogFooter>
           <AlertDialogCancel>Cancelar</AlertDialogCancel>
           <AlertDialogAction onClick={handleReindex}>
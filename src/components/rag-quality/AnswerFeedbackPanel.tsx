@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BookPlus, FlaskConical, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+import { FactFormModal, type KnowledgeFact } from '@/components/knowledge/FactFormModal';
+import { PromoteEvalCaseModal } from './PromoteEvalCaseModal';
+import {
+  type AnswerFeedback,
+  type ExpectedSource,
+  FEEDBACK_REASON_LABELS,
+  useReviewAnswerFeedback,
+} from '@/hooks/useAnswerFeedback';
+
+interface AnswerFeedbackStats {
+  summary: { total: number; up: number; down: number; corrected: number; open: number; promoted: number };
+  reasons: { reason: string; count: number }[];
+}
+
+type FeedbackRow = AnswerFeedback & { projects: { name: string } | null };
+
+type FeedbackView = 'open' | 'all';
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Aberto',
+  promoted: 'Promovido',
+  dismissed: 'Descartado',
+};
+
+function reasonLabel(reason: string) {
+  return FEEDBACK_REASON_LABELS[reason as keyof typeof FEEDBACK_REASON_LABELS] || reason;
+}
+
+// New knowledge fact prefilled with the corrected answer
+function factDraft(feedback: FeedbackRow): Partial<KnowledgeFact> {
+  const question = (feedback.question || 'Resposta corrigida').trim();
+  const slug = question
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+    .slice(0, 40);
+  return {
+    project_id: feedback.project_id,
+    category: 'reference',
+    key: `feedback_${slug}`,
+    title: question.slice(0, 120),
+    value: { valor: feedback.correction || '' },
+    description: `Correção enviada pelo feedback do assistente${feedback.request_id ? ` (request_id ${feedback.request_id})` : ''}.`,
+    tags: ['feedback'],
+  };
+}
+
+interface AnswerFeedbackPanelProps {
+  since: string;
+  projectId: string | null;
+  projects: { id: string; name: string }[];
+}
+
+export function AnswerFeedbackPanel({ since, projectId, projects }: AnswerFeedbackPanelProps) {
+  const [view, setView] = useState<FeedbackView>('open');
+  const [factFeedback, setFactFeedback] = useState<FeedbackRow | null>(null);
+  const [evalFeedback, setEvalFeedback] = useState<FeedbackRow | null>(null);
+  const review = useReviewAnswerFeedback();
+  // Stable, so the fact form is not reset while it is being edited
+  const draft = useMemo(() => factFeedback ? factDraft(factFeedback) : null, [factFeedback]);
+
+  const { data: stats, isLoading: statsLoading } = useQuery({
+    queryKey: ['answer-feedback-stats', since, projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_answer_feedback_stats', {
+        p_since: since,
+        ...(projectId ? { p_project_id: projectId } : {}),
+      });
+      if (error) throw error;
+      return data as unknown as AnswerFeedbackStats;
+    },
+  });
+
+  const { data: rows, isLoading: rowsLoading } = useQuery({
+    queryKey: ['answer-feedback-list', since, projectId, view],
+    queryFn: async () => {
+      let query = supabase
+        .from('answer_feedback')
+        .select('*, projects(name)')
+        .eq('rating', 'down')
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(25);
+      if (projectId) query = query.eq('project_id', projectId);
+      if (view === 'open') query = query.eq('status', 'open');
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as FeedbackRow[];
+    },
+  });
+
+  const summary = stats?.summary;
+  const maxReasonCount = Math.max(1, ...(stats?.reasons || []).map(r => r.count));
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Falhas relatadas</CardTitle>
+          <CardDescription>Motivos das respostas avaliadas negativamente</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {statsLoading ? <Skeleton className="h-24 w-full" /> : (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="secondary" className="gap-1"><ThumbsUp className="h-3 w-3" /> {summary?.up || 0}</Badge>
+                <Badge variant="secondary" className="gap-1"><ThumbsDown className="h-3 w-3" /> {summary?.down || 0}</Badge>
+                <Badge variant="outline">{summary?.corrected || 0} com correção</Badge>
+                <Badge variant="outline">{summary?.promoted || 0} promovidos</Badge>
+              </div>
+              {(stats?.reasons || []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma avaliação negativa no período.</p>
+              ) : stats!.reasons.map(r => (
+                <div key={r.reason} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{reasonLabel(r.reason)}</span>
+                    <span className="text-muted-foreground">{r.count}</span>
+                  </div>
+                  <Progress value={(r.count / maxReasonCount) * 100} className="h-2" />
+                </div>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle className="text-base">Feedback das respostas</CardTitle>
+              <CardDescription>Promova correções a fatos da Base de Conhecimento ou a casos de avaliação</CardDescription>
+            </div>
+            <Tabs value={view} onValueChange={v => setView(v as FeedbackView)}>
+              <TabsList>
+                <TabsTrigger value="open">Abertos ({summary?.open ?? 0})</TabsTrigger>
+                <TabsTrigger value="all">Todos</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rowsLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : (rows || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhum feedback negativo encontrado.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pergunta</TableHead>
+                  <TableHead>Motivos</TableHead>
+                  <TableHead>Correção</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows!.map(row => {
+                  const expected = (row.expected_sources || []) as unknown as ExpectedSource[];
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="max-w-[220px]">
+                        <p className="line-clamp-2 text-sm">{row.question || '—'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(row.created_at).toLocaleDateString('pt-BR')}
+                          {row.projects?.name ? ` · ${row.projects.name}` : ''}
+                          {row.status !== 'open' ? ` · ${STATUS_LABELS[row.status] || row.status}` : ''}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row.reasons.length === 0 ? (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          ) : row.reasons.map(r => (
+                            <Badge key={r} variant="outline" className="text-[10px]">{reasonLabel(r)}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-[260px]">
+                        <p className="line-clamp-2 text-xs" title={row.correction || undefined}>{row.correction || '—'}</p>
+                        {expected.length > 0 && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            Fontes: {expected.map(s => s.title).join(', ')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!row.correction} onClick={() => setFactFeedback(row)}>
+                              <BookPlus className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Criar fato com a correção</TooltipContent>
+                        </Tooltip>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span>
+                              <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!row.project_id} onClick={() => setEvalFeedback(row)}>
+                                <FlaskConical className="h-4 w-4" />
+                              </Button>
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {row.project_id ? 'Criar caso de avaliação' : 'Sem projeto associado — não pode virar caso de avaliação'}
+                          </TooltipContent>
+                        </Tooltip>
+                        {row.status === 'open' && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                disabled={review.isPending}
+                                onClick={() => review.mutate({ id: row.id, status: 'dismissed' })}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Descartar</TooltipContent>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <FactFormModal
+        open={!!factFeedback}
+        onOpenChange={open => { if (!open) setFactFeedback(null); }}
+        onSaved={factId => {
+          if (factFeedback) review.mutate({ id: factFeedback.id, status: 'promoted', promotedFactId: factId });
+        }}
+        projects={projects}
+        draft={draft}
+      />
+
+      <PromoteEvalCaseModal
+        feedback={evalFeedback}
+        open={!!evalFeedback}
+        onOpenChange={open => { if (!open) setEvalFeedback(null); }}
+        onCreated={evalCaseId => {
+          if (evalFeedback) review.mutate({ id: evalFeedback.id, status: 'promoted', promotedEvalCaseId: evalCaseId });
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
+import type { AnswerFeedback, ExpectedSource } from '@/hooks/useAnswerFeedback';
+
+// Numbers written in the correction ("135,2 MPa" → "135,2"), as golden-set expectations
+function numbersIn(text: string): string[] {
+  return [...new Set(text.match(/\d+(?:[.,]\d+)?/g) || [])].slice(0, 8);
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[\n;]/).map(s => s.trim()).filter(Boolean);
+}
+
+interface PromoteEvalCaseModalProps {
+  feedback: AnswerFeedback | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (evalCaseId: string) => void;
+}
+
+export function PromoteEvalCaseModal({ feedback, open, onOpenChange, onCreated }: PromoteEvalCaseModalProps) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [failClosed, setFailClosed] = useState(false);
+  const [sources, setSources] = useState('');
+  const [numbers, setNumbers] = useState('');
+  const [referenceAnswer, setReferenceAnswer] = useState('');
+
+  useEffect(() => {
+    if (!feedback || !open) return;
+    const correction = feedback.correction || '';
+    const expected = (feedback.expected_sources || []) as unknown as ExpectedSource[];
+    setQuestion(feedback.question || '');
+    setFailClosed(feedback.reasons.includes('should_fail_closed'));
+    setSources(expected.map(s => s.title).join('\n'));
+    setNumbers(numbersIn(correction).join('; '));
+    setReferenceAnswer(correction);
+  }, [feedback, open]);
+
+  const handleSave = async () => {
+    if (!feedback?.project_id || !user) return;
+    if (!question.trim()) {
+      toast.error('A pergunta é obrigatória');
+      return;
+    }
+
+    // GoldenExpectation (supabase/functions/rag-answer/eval/scoring.ts)
+    const expectedSources = splitList(sources);
+    const expectedNumbers = failClosed ? [] : splitList(numbers);
+    const expected = {
+      fail_closed: failClosed,
+      ...(expectedSources.length > 0 ? { sources: expectedSources } : {}),
+      ...(expectedNumbers.length > 0 ? { numbers: expectedNumbers } : {}),
+    };
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('rag_eval_cases')
+      .insert({
+        project_id: feedback.project_id,
+        question: question.trim(),
+        context_mode: 'project',
+        expected: expected as unknown as Json,
+        reference_answer: referenceAnswer.trim() || null,
+        request_id: feedback.request_id,
+        created_by: user.id,
+      })
+      .select('id')
+      .single();
+    setSaving(false);
+
+    if (error) {
+      toast.error(`Erro ao criar caso de avaliação: ${error.message}`);
+      return;
+    }
+    toast.success('Caso de avaliação criado');
+    onCreated(data.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Promover a caso de avaliação</DialogTitle>
+          <DialogDescription>
+            O caso entra no harness de avaliação do assistente (<code>eval/run.ts --promoted</code>) e é rodado contra o projeto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Pergunta</Label>
+            <Input value={question} onChange={e => setQuestion(e.target.value)} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch checked={failClosed} onCheckedChange={setFailClosed} />
+            <Label>O assistente deve recusar responder (fail-closed)</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fontes que devem ser citadas (uma por linha)</Label>
+            <Textarea value={sources} onChange={e => setSources(e.target.value)} className="min-h-[60px] text-sm" />
+          </div>
+
+          {!failClosed && (
+            <div className="space-y-2">
+              <Label>Números que devem aparecer (separados por ;)</Label>
+              <Input value={numbers} onChange={e => setNumbers(e.target.value)} placeholder="ex: 135,2; 12,4" />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Resposta de referência</Label>
+            <Textarea value={referenceAnswer} onChange={e => setReferenceAnswer(e.target.value)} className="min-h-[100px] text-sm" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={saving || !feedback?.project_id}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Criar caso
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
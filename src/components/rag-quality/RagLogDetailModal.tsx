@@ -0,0 +1,96 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Copy, Clock, Gauge, Cpu, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { RagLog, failClosedReasonLabels, formatPercent } from '@/lib/ragLogs';
+
+interface RagLogDetailModalProps {
+  log: RagLog | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RagLogDetailModal({ log, open, onOpenChange }: RagLogDetailModalProps) {
+  if (!log) return null;
+
+  const diagnostics = (log.diagnostics || {}) as Record<string, unknown>;
+  const failReason = diagnostics.fail_closed_triggered ? String(diagnostics.fail_closed_reason || 'unknown') : null;
+
+  const copy = async (text: string, label: string) => {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${label} copiado`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="pr-6 line-clamp-2">{log.query}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {log.request_id ? (
+            <Button variant="outline" size="sm" className="h-7 gap-1 font-mono text-xs" onClick={() => copy(log.request_id!, 'request_id')}>
+              <Copy className="h-3 w-3" /> {log.request_id}
+            </Button>
+          ) : (
+            <span className="text-muted-foreground">Sem request_id</span>
+          )}
+          <span className="text-muted-foreground">{new Date(log.created_at || '').toLocaleString('pt-BR')}</span>
+          {log.projects?.name && <Badge variant="outline">{log.projects.name}</Badge>}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary" className="gap-1"><Clock className="h-3 w-3" /> {log.latency_ms ?? '—'} ms</Badge>
+          <Badge variant="secondary" className="gap-1"><Gauge className="h-3 w-3" /> Groundedness {formatPercent(log.groundedness_score)}</Badge>
+          <Badge variant="secondary">Citações {formatPercent(log.citation_coverage)}</Badge>
+          {log.complexity_tier && (
+            <Badge variant="secondary" className="gap-1">
+              <Cpu className="h-3 w-3" /> {log.complexity_tier}{log.model_escalated ? ' ↑' : ''}
+            </Badge>
+          )}
+          {(log.tokens_input != null || log.tokens_output != null) && (
+            <Badge variant="secondary">
+              Tokens {(log.tokens_input || 0).toLocaleString('pt-BR')} / {(log.tokens_output || 0).toLocaleString('pt-BR')}
+            </Badge>
+          )}
+          {log.contradiction_flag && <Badge variant="destructive">Contradição</Badge>}
+          {failReason && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="h-3 w-3" /> {failClosedReasonLabels[failReason] || failReason}
+            </Badge>
+          )}
+        </div>
+
+        {log.model_used && <p className="text-xs text-muted-foreground font-mono">{log.model_used}</p>}
+
+        <Separator />
+
+        <ScrollArea className="flex-1 min-h-0 pr-3">
+          <div className="space-y-4">
+            {log.response_summary && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Resumo da resposta</h4>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{log.response_summary}</p>
+              </div>
+            )}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-medium">Diagnostics</h4>
+                <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => copy(JSON.stringify(log.diagnostics, null, 2), 'JSON')}>
+                  <Copy className="h-3 w-3" /> Copiar
+                </Button>
+              </div>
+              <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto">
+                {log.diagnostics ? JSON.stringify(log.diagnostics, null, 2) : 'Sem diagnostics registrados.'}
+              </pre>
+            </div>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+
+export interface TierDayCount {
+  day: string;
+  tier: string;
+  count: number;
+}
+
+const TIERS = ['fast', 'standard', 'advanced', 'none'] as const;
+
+const chartConfig: ChartConfig = {
+  fast: { label: 'Fast', color: 'hsl(var(--success))' },
+  standard: { label: 'Standard', color: 'hsl(var(--primary))' },
+  advanced: { label: 'Advanced', color: 'hsl(var(--warning))' },
+  none: { label: 'Sem tier', color: 'hsl(var(--muted-foreground))' },
+};
+
+interface TierTimelineChartProps {
+  data: TierDayCount[];
+}
+
+export function TierTimelineChart({ data }: TierTimelineChartProps) {
+  // One row per day with a column per tier (stacked bars)
+  const rows = useMemo(() => {
+    const byDay = new Map<string, Record<string, number | string>>();
+    for (const { day, tier, count } of data) {
+      const row = byDay.get(day) || { day, fast: 0, standard: 0, advanced: 0, none: 0 };
+      const key = (TIERS as readonly string[]).includes(tier) ? tier : 'none';
+      row[key] = (row[key] as number) + count;
+      byDay.set(day, row);
+    }
+    return [...byDay.values()].sort((a, b) => String(a.day).localeCompare(String(b.day)));
+  }, [data]);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">Sem requisições no período.</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[240px] w-full">
+      <BarChart data={rows}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(d: string) => new Date(`${d}T00:00:00`).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {TIERS.map(tier => (
+          <Bar key={tier} dataKey={tier} stackId="tiers" fill={`var(--color-${tier})`} />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,130 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type FeedbackRating = 'up' | 'down';
+
+// Must match the CHECK on answer_feedback.reasons
+export type FeedbackReason = 'wrong_number' | 'missing_source' | 'hallucination' | 'should_fail_closed';
+
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReason | 'unspecified', string> = {
+  wrong_number: 'Número errado',
+  missing_source: 'Faltou fonte',
+  hallucination: 'Alucinação',
+  should_fail_closed: 'Deveria ter recusado',
+  unspecified: 'Sem motivo informado',
+};
+
+export const FEEDBACK_REASONS = Object.keys(FEEDBACK_REASON_LABELS)
+  .filter(r => r !== 'unspecified') as FeedbackReason[];
+
+// A source the user says the answer should have cited
+export interface ExpectedSource {
+  type: 'file';
+  id: string;
+  title: string;
+}
+
+export type AnswerFeedback = Tables<'answer_feedback'>;
+
+export interface AnswerFeedbackInput {
+  messageId: string;
+  requestId?: string;
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];
+  correction: string;
+  expectedSources: ExpectedSource[];
+  question?: string;
+  answer: string;
+}
+
+// The current user's feedback on one assistant answer
+export function useAnswerFeedback(messageId: string | undefined) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ['answer-feedback', messageId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('answer_feedback')
+        .select('*')
+        .eq('message_id', messageId as string)
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!messageId && !!user,
+  });
+}
+
+export function useSubmitAnswerFeedback() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: AnswerFeedbackInput) => {
+      if (!user) throw new Error('Não autenticado');
+      const { data, error } = await supabase
+        .from('answer_feedback')
+        .upsert({
+          message_id: input.messageId,
+          user_id: user.id,
+          request_id: input.requestId || null,
+          rating: input.rating,
+          reasons: input.rating === 'down' ? input.reasons : [],
+          correction: input.correction.trim() || null,
+          expected_sources: input.expectedSources as unknown as Json,
+          question: input.question || null,
+          answer: input.answer,
+        }, { onConflict: 'message_id,user_id' })
+        .select('*')
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['answer-feedback', data.message_id], data);
+      queryClient.invalidateQueries({ queryKey: ['answer-feedback-list'] });
+      queryClient.invalidateQueries({ queryKey: ['answer-feedback-stats'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Erro ao enviar feedback: ${error.message}`);
+    },
+  });
+}
+
+export interface FeedbackReviewInput {
+  id: string;
+  status: 'promoted' | 'dismissed' | 'open';
+  promotedFactId?: string;
+  promotedEvalCaseId?: string;
+}
+
+// Manager decision on a piece of feedback (RAG quality page)
+export function useReviewAnswerFeedback() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: FeedbackReviewInput) => {
+      const { error } = await supabase
+        .from('answer_feedback')
+        .update({
+          status: input.status,
+          ...(input.promotedFactId ? { promoted_fact_id: input.promotedFactId } : {}),
+          ...(input.promotedEvalCaseId ? { promoted_eval_case_id: input.promotedEvalCaseId } : {}),
+          reviewed_by: input.status === 'open' ? null : user?.id ?? null,
+          reviewed_at: input.status === 'open' ? null : new Date().toISOString(),
+        })
+        .eq('id', input.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['answer-feedback-list'] });
+      queryClient.invalidateQueries({ queryKey: ['answer-feedback-stats'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Erro ao atualizar feedback: ${error.message}`);
+    },
+  });
+}
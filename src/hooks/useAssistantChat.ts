@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 
@@ -9,8 +10,31 @@ export interface ChatSource {
   title: string;
   project: string;
   excerpt: string;
+  // search_chunks row behind text sources, for the citation viewer
+  chunk_id?: string;
 }
 
+// rag-answer SSE `stage` events
+export type ChatStreamStage =
+  | { stage: 'rewrite'; query: string; reason: string }
+  | { stage: 'cache'; hit: boolean; cached_at?: string; similarity?: number }
+  | { stage: 'gate'; ran: boolean; passed: boolean; matched?: number; missing?: string[] }
+  | { stage: 'routing'; pipeline: string }
+  | {
+      stage: 'retrieval';
+      chunks?: number;
+      experiment_sources?: number;
+      insight_seeds?: number;
+      experiments?: number;
+      measurements?: number;
+      groups?: number;
+      variants?: number;
+    }
+  | { stage: 'evidence_plan'; deep_read: boolean }
+  | { stage: 'model'; tier: string; model: string; escalated?: boolean }
+  | { stage: 'synthesis'; status: 'started' }
+  | { stage: 'verification'; verified: boolean; unmatched?: number; issues?: number; audit_issues?: number };
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
@@ -21,6 +45,18 @@ export interface ChatMessage {
   analysisFileId?: string;
   analysisProjectId?: string;
   diagnostics?: Record<string, any>;
+  // Standalone question the assistant answered when the user's was a follow-up
+  rewrittenQuery?: string;
+  // rag_logs.request_id of the answer (feedback is linked to it)
+  requestId?: string;
+  // When the reused answer was generated, for answers served from the cache
+  cachedAt?: string;
+  // Streamed text is a draft until the `done` payload: verification may
+  // still reject or rewrite it
+  isStreaming?: boolean;
+  stages?: ChatStreamStage[];
+  // The final answer replaced the streamed draft instead of completing it
+  draftReplaced?: boolean;
 }
 
 export interface Conversation {
@@ -35,6 +71,67 @@ export interface UseAssistantChatOptions {
   projectId?: string;
 }
 
+interface RagAnswerPayload {
+  response?: string;
+  sources?: ChatSource[];
+  cache?: { hit: boolean; request_id: string | null; created_at: string; similarity: number };
+  _diagnostics?: ChatMessage['diagnostics'];
+}
+
+function toAssistantMessage(id: string, data: RagAnswerPayload): ChatMessage {
+  return {
+    id,
+    role: 'assistant',
+    content: data.response || 'Desculpe, não consegui gerar uma resposta.',
+    sources: data.sources || [],
+    timestamp: new Date(),
+    diagnostics: data._diagnostics || undefined,
+    rewrittenQuery: data._diagnostics?.query_rewrite?.rewritten || undefined,
+    requestId: data._diagnostics?.request_id || undefined,
+    cachedAt: data.cache?.hit ? data.cache.created_at : undefined,
+  };
+}
+
+interface RagStreamHandlers {
+  onStage: (stage: ChatStreamStage) => void;
+  onToken: (text: string) => void;
+}
+
+// Reads the rag-answer SSE stream and resolves with the `done` payload
+async function readRagStream(response: Response, handlers: RagStreamHandlers): Promise<RagAnswerPayload> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+      const payload = JSON.parse(data);
+
+      if (event === 'stage') handlers.onStage(payload);
+      else if (event === 'token') handlers.onToken(payload.text);
+      else if (event === 'done') return payload;
+      else if (event === 'error') {
+        throw new Error(payload.error || `Erro ao processar sua pergunta (${payload.status})`);
+      }
+    }
+  }
+
+  throw new Error('A conexão foi encerrada antes da resposta final.');
+}
+
 export function useAssistantChat(options?: UseAssistantChatOptions) {
   const { user } = useAuth();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -74,6 +171,9 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
         sources: m.sources as ChatSource[] | undefined,
         timestamp: new Date(m.created_at),
         isError: m.is_error,
+        rewrittenQuery: m.rewritten_query || undefined,
+        requestId: m.request_id || undefined,
+        cachedAt: m.cached_at || undefined,
       })));
     }
     setConversationId(id);
@@ -105,11 +205,16 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
   // Persist a message to the DB
   const persistMessage = useCallback(async (convId: string, message: ChatMessage) => {
     await supabase.from('assistant_messages').insert({
+      // Same id as in the UI, so feedback can reference the row
+      id: message.id,
       conversation_id: convId,
       role: message.role,
       content: message.content,
       sources: message.sources ? (message.sources as any) : null,
       is_error: message.isError || false,
+      rewritten_query: message.rewrittenQuery || null,
+      request_id: message.requestId || null,
+      cached_at: message.cachedAt || null,
     });
   }, []);
 
@@ -168,6 +273,13 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
     setIsLoading(true);
     abortControllerRef.current = new AbortController();
 
+    // Streaming placeholder (created on the first SSE event)
+    let streamingId: string | null = null;
+    let streamedContent = '';
+    const updateStreaming = (patch: (m: ChatMessage) => Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(m => m.id === streamingId ? { ...m, ...patch(m) } : m));
+    };
+
     try {
       const { data: { session } } = await supabase.auth.getSession();
 
@@ -189,6 +301,7 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'Accept': 'text/event-stream',
             'Authorization': `Bearer ${session.access_token}`,
           },
           body: JSON.stringify({
@@ -196,6 +309,7 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
             project_ids: options?.projectId ? [options.projectId] : undefined,
             context_mode: contextMode,
             conversation_history: historyMessages,
+            stream: true,
           }),
           signal: abortControllerRef.current.signal,
         }
@@ -206,21 +320,47 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
         throw new Error(errorData.error || `Erro ao processar sua pergunta (${response.status})`);
       }
 
-      const data = await response.json();
+      let data: RagAnswerPayload;
+      if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        streamingId = crypto.randomUUID();
+        setMessages(prev => [...prev, {
+          id: streamingId!,
+          role: 'assistant',
+          content: '',
+          timestamp: new Date(),
+          isStreaming: true,
+          stages: [],
+        }]);
+        data = await readRagStream(response, {
+          onStage: stage => updateStreaming(m => ({
+            stages: [...(m.stages || []), stage],
+            ...(stage.stage === 'rewrite' ? { rewrittenQuery: stage.query } : {}),
+          })),
+          onToken: text => {
+            streamedContent += text;
+            updateStreaming(() => ({ content: streamedContent }));
+          },
+        });
+      } else {
+        data = await response.json();
+      }
 
-      const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: 'assistant',
-        content: data.response || 'Desculpe, não consegui gerar uma resposta.',
-        sources: data.sources || [],
-        timestamp: new Date(),
-        diagnostics: data._diagnostics || undefined,
-      };
+      const assistantMessage = toAssistantMessage(streamingId || crypto.randomUUID(), data);
 
       if (data._diagnostics) {
         console.log('[RAG Diagnostics]', data._diagnostics.request_id, JSON.stringify(data._diagnostics, null, 2));
       }
-      setMessages(prev => [...prev, assistantMessage]);
+      if (streamingId) {
+        const draft = streamedContent.trim();
+        updateStreaming(m => ({
+          ...assistantMessage,
+          stages: m.stages,
+          isStreaming: false,
+          draftReplaced: !!draft && !assistantMessage.content.includes(draft),
+        }));
+      } else {
+        setMessages(prev => [...prev, assistantMessage]);
+      }
       await persistMessage(activeConvId, assistantMessage);
 
       // Update conversation timestamp
@@ -230,19 +370,34 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
         .eq('id', activeConvId);
 
     } catch (err) {
-      if (err instanceof Error && err.name === 'AbortError') return;
+      if (err instanceof Error && err.name === 'AbortError') {
+        // Stopped by the user: keep whatever was already streamed, marked as
+        // never verified
+        if (streamingId) {
+          const partial = streamedContent
+            ? `${streamedContent}\n\n_Resposta interrompida antes da verificação._`
+            : '_Resposta interrompida._';
+          updateStreaming(() => ({ content: partial, isStreaming: false }));
+          await persistMessage(activeConvId, { id: streamingId, role: 'assistant', content: partial, timestamp: new Date() });
+        }
+        return;
+      }
 
       const errorMessage = err instanceof Error ? err.message : 'Erro desconhecido';
       setError(errorMessage);
 
       const errorChatMessage: ChatMessage = {
-        id: crypto.randomUUID(),
+        id: streamingId || crypto.randomUUID(),
         role: 'assistant',
         content: `Desculpe, ocorreu um erro: ${errorMessage}`,
         timestamp: new Date(),
         isError: true,
       };
-      setMessages(prev => [...prev, errorChatMessage]);
+      if (streamingId) {
+        updateStreaming(() => ({ ...errorChatMessage, isStreaming: false }));
+      } else {
+        setMessages(prev => [...prev, errorChatMessage]);
+      }
       await persistMessage(activeConvId, errorChatMessage);
     } finally {
       setIsLoading(false);
@@ -250,6 +405,79 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
     }
   }, [isLoading, options?.projectId, conversationId, createNewConversation, persistMessage, messages]);
 
+  // Asks the question behind a cached answer again, bypassing the cache, and
+  // replaces that answer in place
+  const refreshAnswer = useCallback(async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const questionIndex = messages.slice(0, Math.max(index, 0)).map(m => m.role).lastIndexOf('user');
+    if (index < 0 || questionIndex < 0 || isLoading) return;
+    const original = messages[index];
+    const question = messages[questionIndex];
+
+    setError(null);
+    setIsLoading(true);
+    abortControllerRef.current = new AbortController();
+    const patch = (update: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, ...update } : m));
+    };
+    patch({ content: '', isStreaming: true, stages: [], draftReplaced: false });
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('Você precisa estar autenticado para usar o assistente.');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/rag-answer`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            query: question.content,
+            project_ids: options?.projectId ? [options.projectId] : undefined,
+            context_mode: options?.projectId ? 'project' : 'global',
+            conversation_history: messages.slice(0, questionIndex + 1).slice(-10).map(m => ({
+              role: m.role,
+              content: m.content,
+            })),
+            refresh: true,
+          }),
+          signal: abortControllerRef.current.signal,
+        }
+      );
+      const data: RagAnswerPayload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error((data as { error?: string }).error || `Erro ao processar sua pergunta (${response.status})`);
+      }
+
+      const refreshed = toAssistantMessage(messageId, data);
+      patch({ ...refreshed, cachedAt: undefined, stages: undefined, isStreaming: false });
+      await supabase
+        .from('assistant_messages')
+        .update({
+          content: refreshed.content,
+          sources: refreshed.sources as any,
+          rewritten_query: refreshed.rewrittenQuery || null,
+          request_id: refreshed.requestId || null,
+          cached_at: null,
+        })
+        .eq('id', messageId);
+    } catch (err) {
+      patch({ ...original, isStreaming: false });
+      if (err instanceof Error && err.name === 'AbortError') return;
+      const errorMessage = err instanceof Error ? err.message : 'Erro desconhecido';
+      setError(errorMessage);
+      toast.error('Não foi possível atualizar a resposta', { description: errorMessage });
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  }, [isLoading, options?.projectId, messages]);
+
   const cancelRequest = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -393,6 +621,7 @@ export function useAssistantChat(options?: UseAssistantChatOptions) {
     conversations,
     loadingConversations,
     sendMessage,
+    refreshAnswer,
     cancelRequest,
     clearMessages,
     startNewConversation,
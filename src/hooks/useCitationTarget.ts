@@ -0,0 +1,229 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { extractableFormat } from '@/lib/extractableFormats';
+import type { CellLocator } from '@/lib/citationLocator';
+import type { ChatSource } from '@/hooks/useAssistantChat';
+
+export interface CitedFile {
+  id: string;
+  name: string;
+  storage_path: string;
+  mime_type: string | null;
+}
+
+export interface WindowChunk {
+  id: string;
+  chunk_index: number;
+  chunk_text: string;
+  cited: boolean;
+}
+
+export type CitationTarget =
+  | { kind: 'pdf'; file: CitedFile; page: number | null; excerpt: string }
+  | { kind: 'sheet'; file: CitedFile; sheet: string | null; locator: CellLocator; excerpt: string }
+  | { kind: 'chunks'; file: CitedFile | null; chunks: WindowChunk[] };
+
+// Chunks shown on each side of the cited one
+const CHUNK_WINDOW = 2;
+
+type FileView = 'pdf' | 'sheet' | null;
+
+function fileView(file: CitedFile): FileView {
+  const label = extractableFormat(file.name, file.mime_type)?.label;
+  if (label === 'PDF') return 'pdf';
+  if (label === 'Excel' || label === 'ODS' || label === 'CSV') return 'sheet';
+  return null;
+}
+
+async function fetchFile(fileId: string | null | undefined): Promise<CitedFile | null> {
+  if (!fileId) return null;
+  const { data, error } = await supabase
+    .from('project_files')
+    .select('id, name, storage_path, mime_type')
+    .eq('id', fileId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+interface EvidenceCitation {
+  file_id: string;
+  page: number | null;
+  sheet_name: string | null;
+  cell_range: string | null;
+  excerpt: string;
+}
+
+// experiment_citations row → page or cells of the cited file
+async function evidenceTarget(
+  fileId: string | null | undefined,
+  citation: EvidenceCitation | null,
+  fallback: { sheet?: string | null; locator?: CellLocator; excerpt: string },
+): Promise<CitationTarget | null> {
+  const file = await fetchFile(citation?.file_id || fileId);
+  if (!file) return null;
+  const excerpt = citation?.excerpt || fallback.excerpt;
+  const view = fileView(file);
+  if (view === 'sheet') {
+    return {
+      kind: 'sheet',
+      file,
+      sheet: citation?.sheet_name || fallback.sheet || null,
+      locator: { ...fallback.locator, cellRange: citation?.cell_range || null },
+      excerpt,
+    };
+  }
+  if (view === 'pdf') return { kind: 'pdf', file, page: citation?.page ?? null, excerpt };
+  return null;
+}
+
+async function measurementTarget(measurementId: string, excerpt: string): Promise<CitationTarget | null> {
+  const [{ data: measurement, error }, { data: citation }] = await Promise.all([
+    supabase
+      .from('measurements')
+      .select('sheet_name, row_idx, cell_addr, value_raw, source_excerpt, experiments(source_file_id)')
+      .eq('id', measurementId)
+      .maybeSingle(),
+    supabase
+      .from('experiment_citations')
+      .select('file_id, page, sheet_name, cell_range, excerpt')
+      .eq('measurement_id', measurementId)
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (error) throw error;
+  if (!measurement) return null;
+  return evidenceTarget(measurement.experiments?.source_file_id, citation, {
+    sheet: measurement.sheet_name,
+    locator: { row: measurement.row_idx, column: measurement.cell_addr, value: measurement.value_raw },
+    excerpt: measurement.source_excerpt || excerpt,
+  });
+}
+
+async function experimentTarget(experimentId: string, excerpt: string): Promise<CitationTarget | null> {
+  const [{ data: experiment, error }, { data: citation }] = await Promise.all([
+    supabase.from('experiments').select('source_file_id').eq('id', experimentId).maybeSingle(),
+    supabase
+      .from('experiment_citations')
+      .select('file_id, page, sheet_name, cell_range, excerpt')
+      .eq('experiment_id', experimentId)
+      .order('created_at')
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (error) throw error;
+  if (!experiment) return null;
+  return evidenceTarget(experiment.source_file_id, citation, { excerpt });
+}
+
+async function chunksByIds(ids: string[], citedId: string | null): Promise<WindowChunk[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from('search_chunks')
+    .select('id, chunk_index, chunk_text')
+    .in('id', ids)
+    .order('chunk_index');
+  if (error) throw error;
+  return (data || []).map(c => ({ ...c, cited: c.id === citedId }));
+}
+
+// Insights keep the chunk they were extracted from and its neighbours
+async function insightTarget(itemId: string): Promise<CitationTarget | null> {
+  const { data: item, error } = await supabase
+    .from('knowledge_items')
+    .select('source_file_id, evidence, evidence_page, source_chunk_id, neighbor_chunk_ids')
+    .eq('id', itemId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!item) return null;
+
+  const file = await fetchFile(item.source_file_id);
+  if (file && fileView(file) === 'pdf' && item.evidence_page) {
+    return { kind: 'pdf', file, page: item.evidence_page, excerpt: item.evidence || '' };
+  }
+  const ids = [item.source_chunk_id, ...(item.neighbor_chunk_ids || [])].filter((id): id is string => !!id);
+  const chunks = await chunksByIds([...new Set(ids)], item.source_chunk_id);
+  return chunks.length > 0 ? { kind: 'chunks', file, chunks } : null;
+}
+
+// A retrieved text chunk: its PDF page when known, otherwise the chunks
+// around it in the same document
+async function chunkTarget(source: ChatSource): Promise<CitationTarget | null> {
+  if (!source.chunk_id) return null;
+  const { data: chunk, error } = await supabase
+    .from('search_chunks')
+    .select('id, source_id, source_type, chunk_index, chunk_text, chunking_version, metadata')
+    .eq('id', source.chunk_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!chunk) return null;
+
+  const file = source.type === 'file' ? await fetchFile(chunk.source_id) : null;
+  const metadata = (chunk.metadata || {}) as { page_start?: number | null };
+  if (file && fileView(file) === 'pdf') {
+    return { kind: 'pdf', file, page: metadata.page_start ?? null, excerpt: chunk.chunk_text };
+  }
+
+  const { data: neighbours, error: windowError } = await supabase
+    .from('search_chunks')
+    .select('id, chunk_index, chunk_text')
+    .eq('source_id', chunk.source_id)
+    .eq('source_type', chunk.source_type)
+    .eq('chunking_version', chunk.chunking_version)
+    .gte('chunk_index', chunk.chunk_index - CHUNK_WINDOW)
+    .lte('chunk_index', chunk.chunk_index + CHUNK_WINDOW)
+    .order('chunk_index');
+  if (windowError) throw windowError;
+  return {
+    kind: 'chunks',
+    file,
+    chunks: (neighbours || []).map(c => ({ ...c, cited: c.id === chunk.id })),
+  };
+}
+
+// Answers saved before sources carried chunk_id: the PDF, searched for the excerpt
+async function fileTarget(source: ChatSource): Promise<CitationTarget | null> {
+  const file = await fetchFile(source.id);
+  return file && fileView(file) === 'pdf' ? { kind: 'pdf', file, page: null, excerpt: source.excerpt } : null;
+}
+
+export async function resolveCitationTarget(source: ChatSource): Promise<CitationTarget | null> {
+  switch (source.type) {
+    case 'measurement':
+    case 'excel_cell':
+      return measurementTarget(source.id, source.excerpt);
+    case 'experiment':
+      return experimentTarget(source.id, source.excerpt);
+    case 'insight':
+    case 'knowledge_items':
+      return (await insightTarget(source.id)) ?? chunkTarget(source);
+    case 'file':
+      return (await chunkTarget(source)) ?? fileTarget(source);
+    default:
+      return chunkTarget(source);
+  }
+}
+
+// Where "Ver no documento original" takes the user for a cited source
+export function useCitationTarget(source: ChatSource | null) {
+  return useQuery({
+    queryKey: ['citation-target', source?.type, source?.id, source?.chunk_id],
+    queryFn: () => resolveCitationTarget(source as ChatSource),
+    enabled: !!source,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Raw bytes of a cited file, from the project-files bucket
+export function useCitedFileBytes(file: CitedFile | null) {
+  return useQuery({
+    queryKey: ['cited-file-bytes', file?.storage_path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage.from('project-files').download(file!.storage_path);
+      if (error) throw error;
+      return data.arrayBuffer();
+    },
+    enabled: !!file,
+    staleTime: Infinity,
+  });
+}
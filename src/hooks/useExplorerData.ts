@@ -0,0 +1,331 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// How value became value_canonical (measurements.conversion, written by the unit engine)
+export interface MeasurementConversion {
+  from: string;
+  to: string;
+  // canonical = value · factor + offset
+  factor: number;
+  offset: number;
+  status: 'identity' | 'converted' | 'flagged' | 'incompatible' | 'unknown';
+  rule: string;
+  note?: string;
+}
+
+// One measurement with everything needed to filter, pivot and export it
+export interface ExplorerRow {
+  measurement_id: string;
+  experiment_id: string;
+  experiment_title: string;
+  source_file_id: string;
+  source_file_name: string | null;
+  // Evidence date, else document date, else extraction date (yyyy-mm-dd)
+  date: string;
+  metric: string;
+  value: number;
+  unit: string;
+  value_canonical: number | null;
+  unit_canonical: string | null;
+  conversion: MeasurementConversion | null;
+  // Replicate group: value is the mean of n specimens (same unit as value)
+  n: number | null;
+  sd: number | null;
+  replicates: number[] | null;
+  method: string | null;
+  confidence: string | null;
+  // Spreadsheet experiments can hold several values of one key (one per row)
+  conditions: Record<string, string[]>;
+  citation: {
+    sheet_name: string | null;
+    cell_range: string | null;
+    page: number | null;
+    excerpt: string | null;
+  };
+}
+
+export interface ExplorerFilters {
+  metric: string;
+  conditionKey: string;
+  conditionValue: string;
+  sourceFileId: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const ALL = 'all';
+
+export const emptyFilters: ExplorerFilters = {
+  metric: ALL, conditionKey: ALL, conditionValue: ALL, sourceFileId: ALL, dateFrom: '', dateTo: '',
+};
+
+// PostgREST caps each response (1000 rows by default), so page through everything
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 20000;
+
+async function fetchAllPages<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+export function useExplorerData(projectId: string) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ['data-explorer', projectId],
+    queryFn: async (): Promise<ExplorerRow[]> => {
+      const [measurements, citations] = await Promise.all([
+        fetchAllPages((from, to) => supabase
+          .from('measurements')
+          .select('id, metric, value, unit, value_canonical, unit_canonical, conversion, n, sd, replicates, method, confidence, evidence_date, sheet_name, cell_addr, row_idx, source_excerpt, experiments!inner(id, title, project_id, source_file_id, doc_date, evidence_date, created_at, deleted_at, project_files(name), experiment_conditions(key, value))')
+          .eq('experiments.project_id', projectId)
+          .is('experiments.deleted_at', null)
+          .order('id')
+          .range(from, to)),
+        fetchAllPages((from, to) => supabase
+          .from('experiment_citations')
+          .select('measurement_id, sheet_name, cell_range, page, excerpt, experiments!inner(project_id)')
+          .eq('experiments.project_id', projectId)
+          .not('measurement_id', 'is', null)
+          .order('id')
+          .range(from, to)),
+      ]);
+
+      const citationByMeasurement = new Map(citations.map(c => [c.measurement_id, c]));
+
+      return measurements.map(m => {
+        const exp = m.experiments;
+        const cit = citationByMeasurement.get(m.id);
+        const conditions: Record<string, string[]> = {};
+        for (const c of exp.experiment_conditions || []) {
+          (conditions[c.key] ||= []).push(c.value);
+        }
+        return {
+          measurement_id: m.id,
+          experiment_id: exp.id,
+          experiment_title: exp.title,
+          source_file_id: exp.source_file_id,
+          source_file_name: exp.project_files?.name || null,
+          date: (m.evidence_date || exp.evidence_date || exp.doc_date || exp.created_at).slice(0, 10),
+          metric: m.metric,
+          value: m.value,
+          unit: m.unit,
+          value_canonical: m.value_canonical,
+          unit_canonical: m.unit_canonical,
+          conversion: m.conversion as unknown as MeasurementConversion | null,
+          n: m.n,
+          sd: m.sd,
+          replicates: m.replicates,
+          method: m.method,
+          confidence: m.confidence,
+          conditions,
+          citation: {
+            sheet_name: cit?.sheet_name ?? m.sheet_name,
+            cell_range: cit?.cell_range ?? (m.cell_addr ? `Row ${m.row_idx ?? '?'}, Col ${m.cell_addr}` : null),
+            page: cit?.page ?? null,
+            excerpt: cit?.excerpt ?? m.source_excerpt,
+          },
+        };
+      });
+    },
+    enabled: !!user && !!projectId,
+  });
+}
+
+// ==========================================
+// FILTERING / AGGREGATION
+// ==========================================
+
+// The condition value a measurement was taken under; null when the experiment
+// has none or several values for the key (the row it came from is unknown)
+export function conditionValue(r: ExplorerRow, key: string): string | null {
+  const values = r.conditions[key];
+  return values && values.length === 1 ? values[0] : null;
+}
+
+export function applyFilters(rows: ExplorerRow[], f: ExplorerFilters): ExplorerRow[] {
+  return rows.filter(r =>
+    (f.metric === ALL || r.metric === f.metric) &&
+    (f.conditionKey === ALL || (r.conditions[f.conditionKey] !== undefined &&
+      (f.conditionValue === ALL || conditionValue(r, f.conditionKey) === f.conditionValue))) &&
+    (f.sourceFileId === ALL || r.source_file_id === f.sourceFileId) &&
+    (!f.dateFrom || r.date >= f.dateFrom) &&
+    (!f.dateTo || r.date <= f.dateTo));
+}
+
+// Canonical value when the measurement was normalized, raw value otherwise
+export function rowValue(r: ExplorerRow): { value: number; unit: string } {
+  return r.value_canonical !== null
+    ? { value: r.value_canonical, unit: r.unit_canonical || r.unit }
+    : { value: r.value, unit: r.unit };
+}
+
+// Specimens follow the full conversion (°C → K adds an offset) while an SD only scales.
+// Rows saved before conversions were recorded use the ratio value_canonical / value.
+function canonicalConversion(r: ExplorerRow): { factor: number; offset: number } {
+  if (r.conversion) return { factor: Number(r.conversion.factor), offset: Number(r.conversion.offset) || 0 };
+  return { factor: r.value_canonical !== null && r.value !== 0 ? r.value_canonical / r.value : 1, offset: 0 };
+}
+
+// Specimen values of a row in the rowValue unit: the replicates when stored, else the mean
+export function rowSpecimens(r: ExplorerRow): number[] {
+  if (!r.replicates || r.replicates.length === 0) return [rowValue(r).value];
+  const { factor, offset } = canonicalConversion(r);
+  return r.replicates.map(v => v * factor + offset);
+}
+
+/**
+ * Rows of one metric in its most frequent unit. Values the unit engine could
+ * not convert keep their own unit and are left out instead of being mixed in.
+ */
+export function dominantUnitRows(rows: ExplorerRow[]): { rows: ExplorerRow[]; unit: string; dropped: number } {
+  const counts = new Map<string, number>();
+  for (const r of rows) counts.set(rowValue(r).unit, (counts.get(rowValue(r).unit) || 0) + 1);
+  const unit = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+  const kept = rows.filter(r => rowValue(r).unit === unit);
+  return { rows: kept, unit, dropped: rows.length - kept.length };
+}
+
+export interface BoxStats {
+  n: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  sd: number;
+}
+
+function quantile(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const i = Math.floor(pos);
+  return i + 1 < sorted.length ? sorted[i] + (pos - i) * (sorted[i + 1] - sorted[i]) : sorted[i];
+}
+
+export function boxStats(values: number[]): BoxStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = sorted.reduce((s, v) => s + v, 0) / n;
+  const sd = n > 1 ? Math.sqrt(sorted.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1)) : 0;
+  return {
+    n, min: sorted[0], q1: quantile(sorted, 0.25), median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75), max: sorted[n - 1], mean, sd,
+  };
+}
+
+/**
+ * Box stats over the specimen values of several rows, with n, mean and SD
+ * pooled from the replicate groups: a "mean ± SD (n)" row weighs n specimens
+ * instead of counting as one value. A mean without SD counts once.
+ */
+export function groupStats(rows: ExplorerRow[]): BoxStats | null {
+  const box = boxStats(rows.flatMap(rowSpecimens));
+  if (!box) return null;
+  const parts = rows.map(r => {
+    if (r.replicates && r.replicates.length > 1) {
+      const s = boxStats(rowSpecimens(r))!;
+      return { n: s.n, mean: s.mean, sd: s.sd };
+    }
+    const mean = rowValue(r).value;
+    return r.sd !== null && r.n !== null && r.n > 1
+      ? { n: r.n, mean, sd: r.sd * Math.abs(canonicalConversion(r).factor) }
+      : { n: 1, mean, sd: 0 };
+  });
+  const n = parts.reduce((s, p) => s + p.n, 0);
+  const mean = parts.reduce((s, p) => s + p.n * p.mean, 0) / n;
+  const ss = parts.reduce((s, p) => s + (p.n - 1) * p.sd ** 2 + p.n * (p.mean - mean) ** 2, 0);
+  return { ...box, n, mean, sd: n > 1 ? Math.sqrt(ss / (n - 1)) : 0 };
+}
+
+// Group label of a row: a condition value, or the experiment title
+export function groupLabel(r: ExplorerRow, groupKey: string): string | null {
+  if (groupKey === ALL) return r.experiment_title;
+  return conditionValue(r, groupKey);
+}
+
+export interface PivotTable {
+  groups: string[];
+  metrics: { metric: string; unit: string }[];
+  cells: Map<string, BoxStats>;
+}
+
+export const pivotCellKey = (group: string, metric: string, unit: string) => `${group}\u0000${metric}\u0000${unit}`;
+
+// Condition values (or experiments) × metrics, each cell pooling the replicates.
+// A metric stored in units that do not convert gets one column per unit.
+export function buildPivot(rows: ExplorerRow[], groupKey: string): PivotTable {
+  const cellRows = new Map<string, ExplorerRow[]>();
+  const columns = new Map<string, { metric: string; unit: string }>();
+  const groups = new Set<string>();
+  for (const r of rows) {
+    const group = groupLabel(r, groupKey);
+    if (group === null) continue;
+    const { unit } = rowValue(r);
+    const key = pivotCellKey(group, r.metric, unit);
+    if (!cellRows.has(key)) cellRows.set(key, []);
+    cellRows.get(key)!.push(r);
+    groups.add(group);
+    columns.set(`${r.metric}\u0000${unit}`, { metric: r.metric, unit });
+  }
+  const cells = new Map<string, BoxStats>();
+  for (const [key, rs] of cellRows) cells.set(key, groupStats(rs)!);
+  return {
+    groups: [...groups].sort((a, b) => a.localeCompare(b, 'pt-BR', { numeric: true })),
+    metrics: [...columns.values()].sort((a, b) => a.metric.localeCompare(b.metric) || a.unit.localeCompare(b.unit)),
+    cells,
+  };
+}
+
+// ==========================================
+// EXPORT
+// ==========================================
+
+// Flat records with the citation back to the source (sheet, cell range, page)
+export function exportRecords(rows: ExplorerRow[]): Record<string, string | number | null>[] {
+  const conditionKeys = [...new Set(rows.flatMap(r => Object.keys(r.conditions)))].sort();
+  return rows.map(r => {
+    const record: Record<string, string | number | null> = {
+      experimento: r.experiment_title,
+      arquivo: r.source_file_name,
+      data: r.date,
+      metrica: r.metric,
+      valor: r.value,
+      unidade: r.unit,
+      valor_canonico: r.value_canonical,
+      unidade_canonica: r.unit_canonical,
+      conversao: r.conversion ? `${r.conversion.status}: ${r.conversion.rule}${r.conversion.note ? ` (${r.conversion.note})` : ''}` : null,
+      n: r.n,
+      dp: r.sd,
+      replicatas: r.replicates?.join('; ') ?? null,
+      metodo: r.method,
+      confianca: r.confidence,
+    };
+    for (const key of conditionKeys) record[`condicao:${key}`] = r.conditions[key]?.join('; ') ?? null;
+    record.planilha = r.citation.sheet_name;
+    record.intervalo = r.citation.cell_range;
+    record.pagina = r.citation.page;
+    record.trecho = r.citation.excerpt;
+    record.measurement_id = r.measurement_id;
+    record.experiment_id = r.experiment_id;
+    return record;
+  });
+}
+
+export function toCsv(records: Record<string, string | number | null>[]): string {
+  if (records.length === 0) return '';
+  const headers = Object.keys(records[0]);
+  const escape = (v: string | number | null) => {
+    if (v === null || v === undefined) return '';
+    const s = String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [headers.join(','), ...records.map(r => headers.map(h => escape(r[h])).join(','))].join('\r\n');
+}
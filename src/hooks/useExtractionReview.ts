@@ -0,0 +1,209 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { KnowledgeCategory } from '@/components/knowledge/KnowledgeCard';
+
+export type ReviewItemType = 'knowledge' | 'measurement' | 'claim';
+
+export type ReviewDecision = 'accepted' | 'edited' | 'rejected';
+
+export const REVIEW_ITEM_LABELS: Record<ReviewItemType, string> = {
+  knowledge: 'Insight',
+  measurement: 'Medição',
+  claim: 'Afirmação',
+};
+
+// Fields a reviewer can change before accepting (sent as JSON to the RPC)
+export type ReviewEdits = {
+  title?: string;
+  content?: string;
+  category?: KnowledgeCategory;
+  value?: number;
+  notes?: string;
+  excerpt?: string;
+};
+
+// One extracted item of a job, whatever table it lives in
+export interface ReviewItem {
+  key: string;
+  type: ReviewItemType;
+  id: string;
+  title: string;
+  detail: string;
+  // Quote looked up in the source text
+  evidence: string | null;
+  page: number | null;
+  confidence: string | null;
+  decision: ReviewDecision | null;
+  editable: ReviewEdits;
+  // Replicate groups keep their mean, so only their notes can be edited
+  // (review_extraction_items rejects value edits on them)
+  valueLocked?: boolean;
+}
+
+export interface ReviewExclusion {
+  id: string;
+  item_type: ReviewItemType;
+  label: string;
+  created_at: string;
+}
+
+function formatValue(value: number, unit: string | null) {
+  return `${Number(value.toPrecision(6))}${unit ? ` ${unit}` : ''}`;
+}
+
+// The job, its source text and every item it extracted, with earlier decisions
+export function useExtractionReview(jobId: string | undefined) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ['extraction-review', jobId],
+    queryFn: async () => {
+      const { data: job, error } = await supabase
+        .from('extraction_jobs')
+        .select('id, status, project_id, file_id, completed_at, parsing_quality, content_truncated, source_text, project_files(name, mime_type)')
+        .eq('id', jobId as string)
+        .single();
+      if (error) throw error;
+
+      const [knowledge, experiments, claims, reviews, exclusions] = await Promise.all([
+        supabase
+          .from('knowledge_items')
+          .select('id, category, title, content, evidence, evidence_page, evidence_verified, confidence, human_verified')
+          .eq('extraction_job_id', job.id)
+          .is('deleted_at', null)
+          .order('extracted_at'),
+        supabase
+          .from('experiments')
+          .select('id, title, measurements(id, metric, raw_metric_name, value, unit, replicates, notes, confidence, source_excerpt), experiment_citations(measurement_id, page)')
+          .eq('extraction_job_id', job.id)
+          .is('deleted_at', null)
+          .order('created_at'),
+        supabase
+          .from('claims')
+          .select('id, claim_type, excerpt, metric_key, confidence')
+          .eq('extraction_job_id', job.id)
+          .order('created_at'),
+        supabase
+          .from('extraction_reviews')
+          .select('item_type, item_id, decision')
+          .eq('job_id', job.id),
+        supabase
+          .from('extraction_exclusions')
+          .select('id, item_type, label, created_at')
+          .eq('source_file_id', job.file_id)
+          .order('created_at', { ascending: false }),
+      ]);
+      for (const r of [knowledge, experiments, claims, reviews, exclusions]) {
+        if (r.error) throw r.error;
+      }
+
+      const decisions = new Map((reviews.data || []).map(r => [`${r.item_type}:${r.item_id}`, r.decision as ReviewDecision]));
+      const items: ReviewItem[] = [];
+
+      for (const k of knowledge.data || []) {
+        items.push({
+          key: `knowledge:${k.id}`,
+          type: 'knowledge',
+          id: k.id,
+          title: k.title,
+          detail: k.content,
+          evidence: k.evidence,
+          page: k.evidence_page,
+          confidence: `${Math.round(k.confidence * 100)}%${k.evidence_verified ? '' : ' · evidência não encontrada'}`,
+          // Items verified outside the queue count as accepted
+          decision: decisions.get(`knowledge:${k.id}`) ?? (k.human_verified ? 'accepted' : null),
+          editable: { title: k.title, content: k.content, category: k.category as KnowledgeCategory },
+        });
+      }
+
+      for (const exp of experiments.data || []) {
+        for (const m of exp.measurements) {
+          const metric = m.raw_metric_name || m.metric;
+          const citation = exp.experiment_citations.find(c => c.measurement_id === m.id);
+          items.push({
+            key: `measurement:${m.id}`,
+            type: 'measurement',
+            id: m.id,
+            title: `${metric} = ${formatValue(m.value, m.unit)}`,
+            detail: exp.title,
+            evidence: m.source_excerpt,
+            page: citation?.page ?? null,
+            confidence: m.confidence,
+            decision: decisions.get(`measurement:${m.id}`) ?? null,
+            editable: { value: m.value, notes: m.notes ?? '' },
+            valueLocked: Array.isArray(m.replicates) && m.replicates.length > 0,
+          });
+        }
+      }
+
+      for (const c of claims.data || []) {
+        items.push({
+          key: `claim:${c.id}`,
+          type: 'claim',
+          id: c.id,
+          title: c.metric_key ? `${c.claim_type} · ${c.metric_key}` : c.claim_type,
+          detail: c.excerpt,
+          evidence: c.excerpt,
+          page: null,
+          confidence: c.confidence !== null ? `${Math.round(c.confidence * 100)}%` : null,
+          decision: decisions.get(`claim:${c.id}`) ?? null,
+          editable: { excerpt: c.excerpt },
+        });
+      }
+
+      return {
+        job,
+        items,
+        rejectedCount: (reviews.data || []).filter(r => r.decision === 'rejected').length,
+        exclusions: (exclusions.data || []) as ReviewExclusion[],
+      };
+    },
+    enabled: !!user && !!jobId,
+  });
+}
+
+// Applies accept / edit / reject decisions (one item or a bulk selection)
+export function useReviewDecisions(jobId: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (decisions: { item: ReviewItem; decision: ReviewDecision; edits?: ReviewEdits }[]) => {
+      const { data, error } = await supabase.rpc('review_extraction_items', {
+        p_job_id: jobId as string,
+        p_items: decisions.map(({ item, decision, edits }) => ({
+          item_type: item.type,
+          item_id: item.id,
+          decision,
+          edits: edits ?? null,
+        })),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['extraction-review', jobId] });
+      queryClient.invalidateQueries({ queryKey: ['knowledge-items'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Erro ao salvar revisão: ${error.message}`);
+    },
+  });
+}
+
+// Lets a rejected item be extracted again on the next run
+export function useRemoveExclusion(jobId: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (exclusionId: string) => {
+      const { error } = await supabase.from('extraction_exclusions').delete().eq('id', exclusionId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['extraction-review', jobId] });
+      toast.success('Item removido da lista de exclusão');
+    },
+    onError: () => {
+      toast.error('Erro ao remover exclusão');
+    },
+  });
+}
@@ -0,0 +1,79 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type ComponentRole = 'resin' | 'filler' | 'photoinitiator' | 'additive' | 'other';
+export type AmountUnit = 'wt%' | 'vol%' | 'mol%' | 'phr' | 'ratio';
+
+export const COMPONENT_ROLES: { value: ComponentRole; label: string }[] = [
+  { value: 'resin', label: 'Matriz resinosa' },
+  { value: 'filler', label: 'Carga' },
+  { value: 'photoinitiator', label: 'Fotoiniciador' },
+  { value: 'additive', label: 'Aditivo' },
+  { value: 'other', label: 'Outro' },
+];
+
+export const AMOUNT_UNITS: AmountUnit[] = ['wt%', 'vol%', 'mol%', 'phr', 'ratio'];
+
+export interface FormulationComponent {
+  id?: string;
+  role: ComponentRole;
+  name: string;
+  amount: number | null;
+  amount_unit: AmountUnit | null;
+  position: number;
+  notes: string | null;
+}
+
+export interface Formulation {
+  id: string;
+  project_id: string;
+  code: string;
+  name: string;
+  version: number;
+  parent_id: string | null;
+  status: string;
+  description: string | null;
+  aliases: string[];
+  created_at: string;
+  formulation_components: FormulationComponent[];
+  projects?: { name: string } | null;
+}
+
+// Total filler per basis and the resin matrix ratio ("BisGMA/UDMA/TEGDMA 50/30/20")
+export function compositionSummary(components: FormulationComponent[]) {
+  const fillerTotal = (unit: AmountUnit) => {
+    const items = components.filter(c => c.role === 'filler' && c.amount !== null && c.amount_unit === unit);
+    return items.length > 0 ? items.reduce((s, c) => s + (c.amount as number), 0) : null;
+  };
+  const resins = components.filter(c => c.role === 'resin' && c.amount !== null);
+  return {
+    fillerWt: fillerTotal('wt%'),
+    fillerVol: fillerTotal('vol%'),
+    resinRatio: resins.length > 1
+      ? `${resins.map(c => c.name).join('/')} ${resins.map(c => c.amount).join('/')}`
+      : null,
+  };
+}
+
+// Every version of every formulation the user can see, newest version first
+export function useFormulations() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ['formulations', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('formulations')
+        .select('id, project_id, code, name, version, parent_id, status, description, aliases, created_at, projects(name), formulation_components(id, role, name, amount, amount_unit, position, notes)')
+        .is('deleted_at', null)
+        .order('code')
+        .order('version', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(f => ({
+        ...f,
+        formulation_components: [...f.formulation_components].sort((a, b) => a.position - b.position),
+      })) as Formulation[];
+    },
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface ManagedProject {
+  id: string;
+  name: string;
+}
+
+// Projects where the current user is owner or manager
+export function useManagedProjects() {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<ManagedProject[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setProjects([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchManaged = async () => {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('project_id, role_in_project, projects(name)')
+        .eq('user_id', user.id)
+        .in('role_in_project', ['owner', 'manager']);
+
+      setProjects(
+        error || !data
+          ? []
+          : data.map(m => ({ id: m.project_id, name: m.projects?.name || 'Projeto' }))
+      );
+      setLoading(false);
+    };
+
+    fetchManaged();
+  }, [user]);
+
+  return { projects, loading };
+}
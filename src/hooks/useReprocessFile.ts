@@ -49,6 +49,7 @@ export function useReprocessFile() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['file-extraction'] });
+      queryClient.invalidateQueries({ queryKey: ['file-extraction-diff'] });
       queryClient.invalidateQueries({ queryKey: ['knowledge-items'] });
       queryClient.invalidateQueries({ queryKey: ['pending-extractions'] });
       toast.success(`Reprocessamento concluído: ${data?.insights_count || 0} insights extraídos`);
@@ -44,6 +44,98 @@ export type Database = {
         }
         Relationships: []
       }
+      answer_feedback: {
+        Row: {
+          answer: string | null
+          correction: string | null
+          created_at: string
+          expected_sources: Json
+          id: string
+          message_id: string
+          project_id: string | null
+          promoted_eval_case_id: string | null
+          promoted_fact_id: string | null
+          question: string | null
+          rating: string
+          reasons: string[]
+          request_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          answer?: string | null
+          correction?: string | null
+          created_at?: string
+          expected_sources?: Json
+          id?: string
+          message_id: string
+          project_id?: string | null
+          promoted_eval_case_id?: string | null
+          promoted_fact_id?: string | null
+          question?: string | null
+          rating: string
+          reasons?: string[]
+          request_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          answer?: string | null
+          correction?: string | null
+          created_at?: string
+          expected_sources?: Json
+          id?: string
+          message_id?: string
+          project_id?: string | null
+          promoted_eval_case_id?: string | null
+          promoted_fact_id?: string | null
+          question?: string | null
+          rating?: string
+          reasons?: string[]
+          request_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "assistant_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_feedback_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_feedback_promoted_eval_case_id_fkey"
+            columns: ["promoted_eval_case_id"]
+            isOneToOne: false
+            referencedRelation: "rag_eval_cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_feedback_promoted_fact_id_fkey"
+            columns: ["promoted_fact_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_facts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assistant_conversations: {
         Row: {
           created_at: string
@@ -81,29 +173,38 @@ export type Database = {
       }
       assistant_messages: {
         Row: {
+          cached_at: string | null
           content: string
           conversation_id: string
           created_at: string
           id: string
           is_error: boolean
+          request_id: string | null
+          rewritten_query: string | null
           role: string
           sources: Json | null
         }
         Insert: {
+          cached_at?: string | null
           content: string
           conversation_id: string
           created_at?: string
           id?: string
           is_error?: boolean
+          request_id?: string | null
+          rewritten_query?: string | null
           role: string
           sources?: Json | null
         }
         Update: {
+          cached_at?: string | null
           content?: string
           conversation_id?: string
           created_at?: string
           id?: string
           is_error?: boolean
+          request_id?: string | null
+          rewritten_query?: string | null
           role?: string
           sources?: Json | null
         }
@@ -153,6 +254,84 @@ export type Database = {
         }
         Relationships: []
       }
+      benchmark_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          benchmark_id: string
+          created_at: string
+          id: string
+          new_status: string | null
+          old_status: string | null
+          project_id: string
+          reason: string | null
+          superseded_by_benchmark_id: string | null
+          superseded_by_measurement_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          benchmark_id: string
+          created_at?: string
+          id?: string
+          new_status?: string | null
+          old_status?: string | null
+          project_id: string
+          reason?: string | null
+          superseded_by_benchmark_id?: string | null
+          superseded_by_measurement_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          benchmark_id?: string
+          created_at?: string
+          id?: string
+          new_status?: string | null
+          old_status?: string | null
+          project_id?: string
+          reason?: string | null
+          superseded_by_benchmark_id?: string | null
+          superseded_by_measurement_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "benchmark_events_benchmark_id_fkey"
+            columns: ["benchmark_id"]
+            isOneToOne: false
+            referencedRelation: "benchmarks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "benchmark_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "benchmark_events_superseded_by_benchmark_id_fkey"
+            columns: ["superseded_by_benchmark_id"]
+            isOneToOne: false
+            referencedRelation: "benchmarks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "benchmark_events_superseded_by_measurement_id_fkey"
+            columns: ["superseded_by_measurement_id"]
+            isOneToOne: false
+            referencedRelation: "current_best"
+            referencedColumns: ["measurement_id"]
+          },
+          {
+            foreignKeyName: "benchmark_events_superseded_by_measurement_id_fkey"
+            columns: ["superseded_by_measurement_id"]
+            isOneToOne: false
+            referencedRelation: "measurements"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       benchmarks: {
         Row: {
           as_of_date: string
@@ -167,6 +346,9 @@ export type Database = {
           measurement_id: string | null
           metric_key: string
           notes: string | null
+          pinned: boolean
+          pinned_at: string | null
+          pinned_by: string | null
           project_id: string
           scope_definition: Json | null
           source_claim_id: string | null
@@ -191,6 +373,9 @@ export type Database = {
           measurement_id?: string | null
           metric_key: string
           notes?: string | null
+          pinned?: boolean
+          pinned_at?: string | null
+          pinned_by?: string | null
           project_id: string
           scope_definition?: Json | null
           source_claim_id?: string | null
@@ -215,6 +400,9 @@ export type Database = {
           measurement_id?: string | null
           metric_key?: string
           notes?: string | null
+          pinned?: boolean
+          pinned_at?: string | null
+          pinned_by?: string | null
           project_id?: string
           scope_definition?: Json | null
           source_claim_id?: string | null
@@ -307,6 +495,7 @@ export type Database = {
           entities: string[] | null
           evidence_date: string | null
           excerpt: string
+          extraction_job_id: string | null
           id: string
           metric_key: string | null
           project_id: string
@@ -326,6 +515,7 @@ export type Database = {
           entities?: string[] | null
           evidence_date?: string | null
           excerpt: string
+          extraction_job_id?: string | null
           id?: string
           metric_key?: string | null
           project_id: string
@@ -345,6 +535,7 @@ export type Database = {
           entities?: string[] | null
           evidence_date?: string | null
           excerpt?: string
+          extraction_job_id?: string | null
           id?: string
           metric_key?: string | null
           project_id?: string
@@ -358,6 +549,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "claims_extraction_job_id_fkey"
+            columns: ["extraction_job_id"]
+            isOneToOne: false
+            referencedRelation: "extraction_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "claims_project_id_fkey"
             columns: ["project_id"]
@@ -395,6 +593,51 @@ export type Database = {
           },
         ]
       }
+      constraint_lexicon: {
+        Row: {
+          active: boolean
+          canonical_name: string
+          created_at: string
+          created_by: string | null
+          display_name: string | null
+          entity_type: string
+          id: string
+          match_patterns: string[]
+          notes: string | null
+          search_terms: string[]
+          strong_alone: boolean
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          canonical_name: string
+          created_at?: string
+          created_by?: string | null
+          display_name?: string | null
+          entity_type: string
+          id?: string
+          match_patterns?: string[]
+          notes?: string | null
+          search_terms?: string[]
+          strong_alone?: boolean
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          canonical_name?: string
+          created_at?: string
+          created_by?: string | null
+          display_name?: string | null
+          entity_type?: string
+          id?: string
+          match_patterns?: string[]
+          notes?: string | null
+          search_terms?: string[]
+          strong_alone?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
       correlation_jobs: {
         Row: {
           completed_at: string | null
@@ -453,11 +696,14 @@ export type Database = {
       }
       document_structure: {
         Row: {
+          chunking_version: string | null
           content_preview: string | null
           created_at: string
           end_chunk_id: string | null
           file_id: string
           id: string
+          page_end: number | null
+          page_start: number | null
           project_id: string
           section_index: number
           section_title: string | null
@@ -465,11 +711,14 @@ export type Database = {
           start_chunk_id: string | null
         }
         Insert: {
+          chunking_version?: string | null
           content_preview?: string | null
           created_at?: string
           end_chunk_id?: string | null
           file_id: string
           id?: string
+          page_end?: number | null
+          page_start?: number | null
           project_id: string
           section_index?: number
           section_title?: string | null
@@ -477,11 +726,14 @@ export type Database = {
           start_chunk_id?: string | null
         }
         Update: {
+          chunking_version?: string | null
           content_preview?: string | null
           created_at?: string
           end_chunk_id?: string | null
           file_id?: string
           id?: string
+          page_end?: number | null
+          page_start?: number | null
           project_id?: string
           section_index?: number
           section_title?: string | null
@@ -706,6 +958,7 @@ export type Database = {
           expected_outcome: string | null
           extracted_by: string
           extraction_job_id: string | null
+          formulation_id: string | null
           hypothesis: string | null
           id: string
           is_qualitative: boolean
@@ -724,6 +977,7 @@ export type Database = {
           expected_outcome?: string | null
           extracted_by: string
           extraction_job_id?: string | null
+          formulation_id?: string | null
           hypothesis?: string | null
           id?: string
           is_qualitative?: boolean
@@ -742,6 +996,7 @@ export type Database = {
           expected_outcome?: string | null
           extracted_by?: string
           extraction_job_id?: string | null
+          formulation_id?: string | null
           hypothesis?: string | null
           id?: string
           is_qualitative?: boolean
@@ -760,6 +1015,13 @@ export type Database = {
             referencedRelation: "extraction_jobs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "experiments_formulation_id_fkey"
+            columns: ["formulation_id"]
+            isOneToOne: false
+            referencedRelation: "formulations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "experiments_project_id_fkey"
             columns: ["project_id"]
@@ -776,6 +1038,64 @@ export type Database = {
           },
         ]
       }
+      extraction_exclusions: {
+        Row: {
+          created_at: string
+          created_by: string
+          fingerprint: string
+          id: string
+          item_type: string
+          label: string
+          project_id: string
+          review_id: string | null
+          source_file_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          fingerprint: string
+          id?: string
+          item_type: string
+          label: string
+          project_id: string
+          review_id?: string | null
+          source_file_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          fingerprint?: string
+          id?: string
+          item_type?: string
+          label?: string
+          project_id?: string
+          review_id?: string | null
+          source_file_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extraction_exclusions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_exclusions_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "extraction_reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_exclusions_source_file_id_fkey"
+            columns: ["source_file_id"]
+            isOneToOne: false
+            referencedRelation: "project_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       extraction_jobs: {
         Row: {
           completed_at: string | null
@@ -783,14 +1103,18 @@ export type Database = {
           content_truncated: boolean | null
           created_at: string
           created_by: string
+          diff: Json | null
           error_message: string | null
           file_hash: string
           file_id: string
+          file_version: number | null
           id: string
           items_extracted: number | null
           parsing_quality: string | null
+          previous_job_id: string | null
           project_id: string | null
           sheets_found: number | null
+          source_text: string | null
           started_at: string | null
           status: Database["public"]["Enums"]["extraction_status"]
           tokens_used: number | null
@@ -801,14 +1125,18 @@ export type Database = {
           content_truncated?: boolean | null
           created_at?: string
           created_by: string
+          diff?: Json | null
           error_message?: string | null
           file_hash: string
           file_id: string
+          file_version?: number | null
           id?: string
           items_extracted?: number | null
           parsing_quality?: string | null
+          previous_job_id?: string | null
           project_id?: string | null
           sheets_found?: number | null
+          source_text?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["extraction_status"]
           tokens_used?: number | null
@@ -819,28 +1147,197 @@ export type Database = {
           content_truncated?: boolean | null
           created_at?: string
           created_by?: string
-          error_message?: string | null
-          file_hash?: string
-          file_id?: string
+          diff?: Json | null
+          error_message?: string | null
+          file_hash?: string
+          file_id?: string
+          file_version?: number | null
+          id?: string
+          items_extracted?: number | null
+          parsing_quality?: string | null
+          previous_job_id?: string | null
+          project_id?: string | null
+          sheets_found?: number | null
+          source_text?: string | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["extraction_status"]
+          tokens_used?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extraction_jobs_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "project_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_jobs_previous_job_id_fkey"
+            columns: ["previous_job_id"]
+            isOneToOne: false
+            referencedRelation: "extraction_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      extraction_reviews: {
+        Row: {
+          decision: string
+          id: string
+          item_id: string
+          item_type: string
+          job_id: string
+          project_id: string
+          reviewed_at: string
+          reviewed_by: string
+          snapshot: Json
+        }
+        Insert: {
+          decision: string
+          id?: string
+          item_id: string
+          item_type: string
+          job_id: string
+          project_id: string
+          reviewed_at?: string
+          reviewed_by: string
+          snapshot?: Json
+        }
+        Update: {
+          decision?: string
+          id?: string
+          item_id?: string
+          item_type?: string
+          job_id?: string
+          project_id?: string
+          reviewed_at?: string
+          reviewed_by?: string
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extraction_reviews_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "extraction_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_reviews_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      formulation_components: {
+        Row: {
+          amount: number | null
+          amount_unit: string | null
+          created_at: string
+          formulation_id: string
+          id: string
+          name: string
+          notes: string | null
+          position: number
+          role: string
+        }
+        Insert: {
+          amount?: number | null
+          amount_unit?: string | null
+          created_at?: string
+          formulation_id: string
+          id?: string
+          name: string
+          notes?: string | null
+          position?: number
+          role: string
+        }
+        Update: {
+          amount?: number | null
+          amount_unit?: string | null
+          created_at?: string
+          formulation_id?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          position?: number
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "formulation_components_formulation_id_fkey"
+            columns: ["formulation_id"]
+            isOneToOne: false
+            referencedRelation: "formulations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      formulations: {
+        Row: {
+          aliases: string[]
+          code: string
+          created_at: string
+          created_by: string
+          deleted_at: string | null
+          description: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          project_id: string
+          status: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          aliases?: string[]
+          code: string
+          created_at?: string
+          created_by: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          project_id: string
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          aliases?: string[]
+          code?: string
+          created_at?: string
+          created_by?: string
+          deleted_at?: string | null
+          description?: string | null
           id?: string
-          items_extracted?: number | null
-          parsing_quality?: string | null
-          project_id?: string | null
-          sheets_found?: number | null
-          started_at?: string | null
-          status?: Database["public"]["Enums"]["extraction_status"]
-          tokens_used?: number | null
+          name?: string
+          parent_id?: string | null
+          project_id?: string
+          status?: string
+          updated_at?: string
+          version?: number
         }
         Relationships: [
           {
-            foreignKeyName: "extraction_jobs_file_id_fkey"
-            columns: ["file_id"]
+            foreignKeyName: "formulations_parent_id_fkey"
+            columns: ["parent_id"]
             isOneToOne: false
-            referencedRelation: "project_files"
+            referencedRelation: "formulations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "extraction_jobs_project_id_fkey"
+            foreignKeyName: "formulations_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
@@ -1189,16 +1686,22 @@ export type Database = {
           cell_addr: string | null
           col_idx: number | null
           confidence: string | null
+          conversion: Json
           created_at: string
           evidence_date: string | null
           experiment_id: string
+          formulation_id: string | null
           header_raw: string | null
           id: string
           method: string | null
           metric: string
+          n: number | null
           notes: string | null
           raw_metric_name: string | null
+          replicates: number[] | null
           row_idx: number | null
+          sd: number | null
+          sem: number | null
           sheet_name: string | null
           source_excerpt: string
           unit: string
@@ -1211,16 +1714,22 @@ export type Database = {
           cell_addr?: string | null
           col_idx?: number | null
           confidence?: string | null
+          conversion: Json
           created_at?: string
           evidence_date?: string | null
           experiment_id: string
+          formulation_id?: string | null
           header_raw?: string | null
           id?: string
           method?: string | null
           metric: string
+          n?: number | null
           notes?: string | null
           raw_metric_name?: string | null
+          replicates?: number[] | null
           row_idx?: number | null
+          sd?: number | null
+          sem?: number | null
           sheet_name?: string | null
           source_excerpt: string
           unit: string
@@ -1233,16 +1742,22 @@ export type Database = {
           cell_addr?: string | null
           col_idx?: number | null
           confidence?: string | null
+          conversion?: Json
           created_at?: string
           evidence_date?: string | null
           experiment_id?: string
+          formulation_id?: string | null
           header_raw?: string | null
           id?: string
           method?: string | null
           metric?: string
+          n?: number | null
           notes?: string | null
           raw_metric_name?: string | null
+          replicates?: number[] | null
           row_idx?: number | null
+          sd?: number | null
+          sem?: number | null
           sheet_name?: string | null
           source_excerpt?: string
           unit?: string
@@ -1266,6 +1781,13 @@ export type Database = {
             referencedRelation: "experiments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "measurements_formulation_id_fkey"
+            columns: ["formulation_id"]
+            isOneToOne: false
+            referencedRelation: "formulations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       metrics_catalog: {
@@ -1276,8 +1798,11 @@ export type Database = {
           category: string
           conversion_factor: number | null
           created_at: string
+          direction: string
           display_name: string
           id: string
+          target_max: number | null
+          target_min: number | null
           unit: string
           unit_aliases: string[] | null
         }
@@ -1288,8 +1813,11 @@ export type Database = {
           category?: string
           conversion_factor?: number | null
           created_at?: string
+          direction?: string
           display_name: string
           id?: string
+          target_max?: number | null
+          target_min?: number | null
           unit: string
           unit_aliases?: string[] | null
         }
@@ -1300,8 +1828,11 @@ export type Database = {
           category?: string
           conversion_factor?: number | null
           created_at?: string
+          direction?: string
           display_name?: string
           id?: string
+          target_max?: number | null
+          target_min?: number | null
           unit?: string
           unit_aliases?: string[] | null
         }
@@ -1417,6 +1948,38 @@ export type Database = {
           },
         ]
       }
+      project_data_versions: {
+        Row: {
+          bumped_by: string | null
+          bumped_txid: number
+          project_id: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          bumped_by?: string | null
+          bumped_txid?: number
+          project_id: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          bumped_by?: string | null
+          bumped_txid?: number
+          project_id?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_data_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_file_versions: {
         Row: {
           created_at: string
@@ -1599,6 +2162,7 @@ export type Database = {
       projects: {
         Row: {
           category: string | null
+          chunking_version: string
           created_at: string
           created_by: string
           deleted_at: string | null
@@ -1614,6 +2178,7 @@ export type Database = {
         }
         Insert: {
           category?: string | null
+          chunking_version?: string
           created_at?: string
           created_by: string
           deleted_at?: string | null
@@ -1629,6 +2194,7 @@ export type Database = {
         }
         Update: {
           category?: string | null
+          chunking_version?: string
           created_at?: string
           created_by?: string
           deleted_at?: string | null
@@ -1644,8 +2210,108 @@ export type Database = {
         }
         Relationships: []
       }
+      rag_answer_cache: {
+        Row: {
+          context_mode: string
+          created_at: string
+          data_version: string
+          expires_at: string
+          hit_count: number
+          id: string
+          last_hit_at: string | null
+          payload: Json
+          query: string
+          query_embedding: string | null
+          query_norm: string
+          request_id: string | null
+          scope_key: string
+          signature: string
+        }
+        Insert: {
+          context_mode: string
+          created_at?: string
+          data_version: string
+          expires_at?: string
+          hit_count?: number
+          id?: string
+          last_hit_at?: string | null
+          payload: Json
+          query: string
+          query_embedding?: string | null
+          query_norm: string
+          request_id?: string | null
+          scope_key: string
+          signature: string
+        }
+        Update: {
+          context_mode?: string
+          created_at?: string
+          data_version?: string
+          expires_at?: string
+          hit_count?: number
+          id?: string
+          last_hit_at?: string | null
+          payload?: Json
+          query?: string
+          query_embedding?: string | null
+          query_norm?: string
+          request_id?: string | null
+          scope_key?: string
+          signature?: string
+        }
+        Relationships: []
+      }
+      rag_eval_cases: {
+        Row: {
+          active: boolean
+          context_mode: string
+          created_at: string
+          created_by: string
+          expected: Json
+          id: string
+          project_id: string
+          question: string
+          reference_answer: string | null
+          request_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          context_mode?: string
+          created_at?: string
+          created_by: string
+          expected?: Json
+          id?: string
+          project_id: string
+          question: string
+          reference_answer?: string | null
+          request_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          context_mode?: string
+          created_at?: string
+          created_by?: string
+          expected?: Json
+          id?: string
+          project_id?: string
+          question?: string
+          reference_answer?: string | null
+          request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rag_eval_cases_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rag_logs: {
         Row: {
+          cache_hit: boolean
+          cached_request_id: string | null
           chunks_count: number | null
           chunks_used: string[] | null
           citation_coverage: number | null
@@ -1658,15 +2324,19 @@ export type Database = {
           latency_ms: number | null
           model_escalated: boolean | null
           model_used: string | null
+          project_id: string | null
           query: string
           query_embedding: string | null
           request_id: string | null
           response_summary: string | null
+          rewritten_query: string | null
           tokens_input: number | null
           tokens_output: number | null
           user_id: string
         }
         Insert: {
+          cache_hit?: boolean
+          cached_request_id?: string | null
           chunks_count?: number | null
           chunks_used?: string[] | null
           citation_coverage?: number | null
@@ -1679,15 +2349,19 @@ export type Database = {
           latency_ms?: number | null
           model_escalated?: boolean | null
           model_used?: string | null
+          project_id?: string | null
           query: string
           query_embedding?: string | null
           request_id?: string | null
           response_summary?: string | null
+          rewritten_query?: string | null
           tokens_input?: number | null
           tokens_output?: number | null
           user_id: string
         }
         Update: {
+          cache_hit?: boolean
+          cached_request_id?: string | null
           chunks_count?: number | null
           chunks_used?: string[] | null
           citation_coverage?: number | null
@@ -1700,15 +2374,25 @@ export type Database = {
           latency_ms?: number | null
           model_escalated?: boolean | null
           model_used?: string | null
+          project_id?: string | null
           query?: string
           query_embedding?: string | null
           request_id?: string | null
           response_summary?: string | null
+          rewritten_query?: string | null
           tokens_input?: number | null
           tokens_output?: number | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "rag_logs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       report_attachments: {
         Row: {
@@ -1884,6 +2568,7 @@ export type Database = {
           chunk_hash: string
           chunk_index: number
           chunk_text: string
+          chunking_version: string
           created_at: string | null
           embedding: string | null
           id: string
@@ -1897,6 +2582,7 @@ export type Database = {
           chunk_hash: string
           chunk_index?: number
           chunk_text: string
+          chunking_version?: string
           created_at?: string | null
           embedding?: string | null
           id?: string
@@ -1910,6 +2596,7 @@ export type Database = {
           chunk_hash?: string
           chunk_index?: number
           chunk_text?: string
+          chunking_version?: string
           created_at?: string | null
           embedding?: string | null
           id?: string
@@ -2134,6 +2821,103 @@ export type Database = {
         }
         Relationships: []
       }
+      weibull_analyses: {
+        Row: {
+          alpha: number
+          characteristic_strength: number
+          characteristic_strength_ci_high: number
+          characteristic_strength_ci_low: number
+          condition_key: string | null
+          created_at: string
+          created_by: string | null
+          experiment_ids: string[]
+          group_by: string
+          group_label: string
+          id: string
+          metric: string
+          modulus: number
+          modulus_ci_high: number
+          modulus_ci_low: number
+          modulus_measurement_id: string | null
+          modulus_unbiased: number
+          n: number
+          points: Json
+          project_id: string
+          sigma0_measurement_id: string | null
+          unit: string | null
+        }
+        Insert: {
+          alpha?: number
+          characteristic_strength: number
+          characteristic_strength_ci_high: number
+          characteristic_strength_ci_low: number
+          condition_key?: string | null
+          created_at?: string
+          created_by?: string | null
+          experiment_ids?: string[]
+          group_by: string
+          group_label: string
+          id?: string
+          metric: string
+          modulus: number
+          modulus_ci_high: number
+          modulus_ci_low: number
+          modulus_measurement_id?: string | null
+          modulus_unbiased: number
+          n: number
+          points?: Json
+          project_id: string
+          sigma0_measurement_id?: string | null
+          unit?: string | null
+        }
+        Update: {
+          alpha?: number
+          characteristic_strength?: number
+          characteristic_strength_ci_high?: number
+          characteristic_strength_ci_low?: number
+          condition_key?: string | null
+          created_at?: string
+          created_by?: string | null
+          experiment_ids?: string[]
+          group_by?: string
+          group_label?: string
+          id?: string
+          metric?: string
+          modulus?: number
+          modulus_ci_high?: number
+          modulus_ci_low?: number
+          modulus_measurement_id?: string | null
+          modulus_unbiased?: number
+          n?: number
+          points?: Json
+          project_id?: string
+          sigma0_measurement_id?: string | null
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weibull_analyses_modulus_measurement_id_fkey"
+            columns: ["modulus_measurement_id"]
+            isOneToOne: false
+            referencedRelation: "measurements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weibull_analyses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weibull_analyses_sigma0_measurement_id_fkey"
+            columns: ["sigma0_measurement_id"]
+            isOneToOne: false
+            referencedRelation: "measurements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       condition_metric_summary: {
@@ -2146,7 +2930,9 @@ export type Database = {
           metric: string | null
           min_value: number | null
           n: number | null
+          n_measurements: number | null
           project_id: string | null
+          sem_value: number | null
           stddev_value: number | null
           unit: string | null
         }
@@ -2163,6 +2949,8 @@ export type Database = {
       current_best: {
         Row: {
           confidence: string | null
+          conversion: Json | null
+          direction: string | null
           doc_id: string | null
           evidence_date: string | null
           excerpt: string | null
@@ -2172,6 +2960,8 @@ export type Database = {
           metric_key: string | null
           project_id: string | null
           raw_metric_name: string | null
+          target_max: number | null
+          target_min: number | null
           unit: string | null
           unit_canonical: string | null
           value: number | null
@@ -2206,8 +2996,10 @@ export type Database = {
           metric: string | null
           min_value: number | null
           n: number | null
+          n_measurements: number | null
           project_id: string | null
           raw_metric_name: string | null
+          sem_value: number | null
           source_file_id: string | null
           stddev_value: number | null
           unit: string | null
@@ -2245,6 +3037,10 @@ export type Database = {
       }
     }
     Functions: {
+      bump_project_data_version: {
+        Args: { p_project_id: string; p_source: string }
+        Returns: undefined
+      }
       check_and_supersede_claims: {
         Args: {
           p_metric_key: string
@@ -2259,10 +3055,18 @@ export type Database = {
         Args: { p_project_id: string }
         Returns: undefined
       }
+      get_answer_feedback_stats: {
+        Args: { p_project_id?: string; p_since: string }
+        Returns: Json
+      }
       get_project_role: {
         Args: { _project_id: string; _user_id: string }
         Returns: Database["public"]["Enums"]["project_role"]
       }
+      get_rag_quality_stats: {
+        Args: { p_project_id?: string; p_since: string }
+        Returns: Json
+      }
       global_search:
         | {
             Args: { search_query: string }
@@ -2307,6 +3111,172 @@ export type Database = {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
       }
+      manage_benchmark: {
+        Args: {
+          p_action: string
+          p_benchmark_id: string
+          p_reason?: string
+          p_superseded_by_benchmark_id?: string
+        }
+        Returns: {
+          as_of_date: string
+          baseline_unit: string
+          baseline_unit_canonical: string | null
+          baseline_value: number
+          baseline_value_canonical: number | null
+          created_at: string
+          experiment_id: string | null
+          id: string
+          material_label: string | null
+          measurement_id: string | null
+          metric_key: string
+          notes: string | null
+          pinned: boolean
+          pinned_at: string | null
+          pinned_by: string | null
+          project_id: string
+          scope_definition: Json | null
+          source_claim_id: string | null
+          source_excerpt: string | null
+          source_file_id: string | null
+          status: string
+          superseded_at: string | null
+          superseded_by_benchmark_id: string | null
+          superseded_by_measurement_id: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "benchmarks"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      match_rag_answer_cache: {
+        Args: {
+          p_context_mode: string
+          p_data_version: string
+          p_min_similarity?: number
+          p_query_embedding: string
+          p_query_norm: string
+          p_scope_key: string
+          p_signature: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          payload: Json
+          query: string
+          request_id: string
+          similarity: number
+        }[]
+      }
+      measurement_query_vocabulary: {
+        Args: { p_project_ids: string[] }
+        Returns: Json
+      }
+      metric_is_better: {
+        Args: { p_baseline: number; p_candidate: number; p_metric_key: string }
+        Returns: boolean
+      }
+      metric_rank_score: {
+        Args: {
+          p_direction: string
+          p_target_max: number
+          p_target_min: number
+          p_value: number
+        }
+        Returns: number
+      }
+      project_data_version_key: {
+        Args: { p_project_ids: string[] }
+        Returns: string
+      }
+      ranked_measurements: {
+        Args: {
+          p_metric_patterns?: string[]
+          p_project_ids: string[]
+          p_sense?: string
+        }
+        Returns: {
+          confidence: string | null
+          conversion: Json | null
+          direction: string | null
+          doc_id: string | null
+          evidence_date: string | null
+          excerpt: string | null
+          experiment_id: string | null
+          experiment_title: string | null
+          measurement_id: string | null
+          metric_key: string | null
+          project_id: string | null
+          raw_metric_name: string | null
+          target_max: number | null
+          target_min: number | null
+          unit: string | null
+          unit_canonical: string | null
+          value: number | null
+          value_canonical: number | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "current_best"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      review_extraction_items: {
+        Args: { p_items: Json; p_job_id: string }
+        Returns: number
+      }
+      review_item_fingerprint: {
+        Args: { p_snapshot: Json; p_type: string }
+        Returns: string
+      }
+      review_item_label: {
+        Args: { p_snapshot: Json; p_type: string }
+        Returns: string
+      }
+      review_normalize_text: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      review_value_text: {
+        Args: { p_value: number }
+        Returns: string
+      }
+      save_formulation: {
+        Args: {
+          p_aliases?: string[]
+          p_code: string
+          p_components: Json
+          p_description?: string
+          p_name: string
+          p_parent_id?: string
+          p_project_id: string
+        }
+        Returns: {
+          aliases: string[]
+          code: string
+          created_at: string
+          created_by: string
+          deleted_at: string | null
+          description: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          project_id: string
+          status: string
+          updated_at: string
+          version: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "formulations"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       search_chunks_hybrid: {
         Args: {
           p_fts_weight?: number
@@ -0,0 +1,20 @@
+/**
+ * Benchmark rows as listed in the knowledge panel and its timeline modal,
+ * with the labels and value formatting both share.
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+export type Benchmark = Tables<'benchmarks'> & {
+  projects: { name: string } | null;
+  project_files: { name: string } | null;
+};
+
+export const benchmarkStatusLabels: Record<string, string> = {
+  active: 'Ativo',
+  superseded: 'Superado',
+  uncertain: 'Incerto',
+};
+
+export function formatBenchmarkValue(b: Pick<Benchmark, 'baseline_value' | 'baseline_unit'>) {
+  return `${b.baseline_value.toLocaleString('pt-BR')} ${b.baseline_unit}`.trim();
+}
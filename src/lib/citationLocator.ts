@@ -0,0 +1,140 @@
+/**
+ * Where a citation points inside its file. Spreadsheet cells come from the
+ * references extract-knowledge writes: A1 ranges, or "Row 5, Col Dureza"
+ * where the row counts from the header and the column is a header name.
+ * PDF highlights are the spans of a page's text that match the cited excerpt.
+ */
+
+// 0-based and inclusive
+export interface CellRange {
+  r0: number;
+  c0: number;
+  r1: number;
+  c1: number;
+}
+
+export interface CellLocator {
+  // experiment_citations.cell_range
+  cellRange?: string | null;
+  // measurements.row_idx / cell_addr / value_raw
+  row?: number | null;
+  column?: string | null;
+  value?: string | null;
+}
+
+const A1_RANGE = /^\$?([A-Z]{1,3})\$?(\d+)(?::\$?([A-Z]{1,3})\$?(\d+))?$/i;
+const HEADER_REF = /^Rows?\s+(\d+)(?:\s*[–-]\s*(\d+))?\s*,\s*Col\s+(.+)$/i;
+const HEADER_SCAN_ROWS = 20;
+
+function columnIndex(letters: string): number {
+  return letters.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+export function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+export function parseA1Range(ref: string): CellRange | null {
+  const match = ref.trim().match(A1_RANGE);
+  if (!match) return null;
+  const [r0, c0] = [parseInt(match[2], 10) - 1, columnIndex(match[1])];
+  const [r1, c1] = match[3] ? [parseInt(match[4], 10) - 1, columnIndex(match[3])] : [r0, c0];
+  return { r0: Math.min(r0, r1), c0: Math.min(c0, c1), r1: Math.max(r0, r1), c1: Math.max(c0, c1) };
+}
+
+function normalizeCell(value: unknown): string {
+  return String(value ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function sameNumber(cell: unknown, value: string): boolean {
+  const a = parseFloat(String(cell).replace(',', '.'));
+  const b = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(a) && Number.isFinite(b) ? a === b : normalizeCell(cell) === normalizeCell(value);
+}
+
+export function locateCells(grid: unknown[][], locator: CellLocator): CellRange | null {
+  const a1 = locator.cellRange ? parseA1Range(locator.cellRange) : null;
+  if (a1) return a1;
+
+  const ref = locator.cellRange?.match(HEADER_REF);
+  const rowFrom = ref ? parseInt(ref[1], 10) : locator.row ?? null;
+  const rowTo = ref?.[2] ? parseInt(ref[2], 10) : rowFrom;
+  const column = (ref ? ref[3] : locator.column)?.trim();
+  if (!column || rowFrom === null || rowTo === null) return null;
+
+  // "R1–R5": a run of replicate columns, named by the first and last header
+  const [firstName, lastName = firstName] = column.split(/\s*–\s*/).map(normalizeCell);
+  for (let h = 0; h < Math.min(grid.length, HEADER_SCAN_ROWS); h++) {
+    const headers = (grid[h] || []).map(normalizeCell);
+    const c0 = headers.indexOf(firstName);
+    if (c0 < 0) continue;
+    const c1 = Math.max(c0, headers.indexOf(lastName, c0));
+
+    // Spreadsheet rows count from the header (row 2 is the first data row);
+    // instrument files count lines from the top of the file
+    const candidates = [...new Set([h + rowFrom - 1, rowFrom - 1])].filter(r => r > h && r < grid.length);
+    const matches = (r: number) => {
+      const cell = grid[r]?.[c0];
+      if (cell === undefined || cell === '') return false;
+      return !locator.value || sameNumber(cell, locator.value.split(';')[0].trim());
+    };
+    const r0 = candidates.find(matches) ?? candidates[0];
+    if (r0 === undefined) return { r0: h, c0, r1: h, c1 };
+    return { r0, c0, r1: r0 + (rowTo - rowFrom), c1 };
+  }
+  return null;
+}
+
+// Chunk text starts with "[Tipo: …] [Projeto: …] [Título: …] [Seção: …]"
+export function chunkBody(text: string): string {
+  return text.replace(/^(?:\[[^\]\n]*\]\s*)+\n\n/, '').replace(/\.\.\.$/, '').trim();
+}
+
+// Lowercased, accents and whitespace runs folded, with the original offset of
+// every kept character
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    if (/\s/.test(ch)) {
+      if (folded.length === 0 || folded.endsWith(' ')) continue;
+      folded += ' ';
+      offsets.push(i);
+      continue;
+    }
+    for (const c of ch) {
+      folded += c;
+      offsets.push(i);
+    }
+  }
+  return { folded, offsets };
+}
+
+const MIN_PIECE_LENGTH = 20;
+
+// [start, end) offsets in `text` of the excerpt, or of its sentences when the
+// extracted text differs from the cited one as a whole
+export function findExcerptSpans(text: string, excerpt: string): [number, number][] {
+  const { folded, offsets } = foldWithOffsets(text);
+  const needle = foldWithOffsets(excerpt).folded.trim();
+  if (!needle) return [];
+
+  const spanOf = (piece: string): [number, number] | null => {
+    const at = folded.indexOf(piece);
+    return at < 0 ? null : [offsets[at], offsets[at + piece.length - 1] + 1];
+  };
+
+  const whole = spanOf(needle);
+  if (whole) return [whole];
+  return needle
+    .split(/(?<=[.;:!?])\s+|\s*\|\s*/)
+    .map(piece => piece.trim())
+    .filter(piece => piece.length >= MIN_PIECE_LENGTH)
+    .map(spanOf)
+    .filter((span): span is [number, number] => span !== null);
+}
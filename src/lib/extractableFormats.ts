@@ -0,0 +1,59 @@
+/**
+ * File formats the extract-knowledge function can read, mirroring its parser
+ * branches. Used to tell users, before and after upload, whether a file will
+ * have its data extracted or only be stored.
+ */
+export interface ExtractableFormat {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  // Tables become measurements through the deterministic spreadsheet path
+  structured: boolean;
+  // How extraction_jobs.sheets_found is reported for this format
+  sheetsLabel?: string;
+}
+
+export const EXTRACTABLE_FORMATS: ExtractableFormat[] = [
+  {
+    label: 'Excel',
+    extensions: ['.xlsx', '.xls'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel'],
+    structured: true,
+    sheetsLabel: 'abas processadas',
+  },
+  {
+    label: 'ODS',
+    extensions: ['.ods'],
+    mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet'],
+    structured: true,
+    sheetsLabel: 'abas processadas',
+  },
+  { label: 'CSV', extensions: ['.csv'], mimeTypes: ['text/csv'], structured: false },
+  { label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'], structured: true },
+  {
+    label: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    structured: false,
+  },
+  { label: 'ODT', extensions: ['.odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'], structured: false },
+  {
+    label: 'PowerPoint',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    structured: true,
+    sheetsLabel: 'slides processados',
+  },
+  { label: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown'], structured: false },
+  { label: 'HTML', extensions: ['.html', '.htm'], mimeTypes: ['text/html'], structured: false },
+  { label: 'Texto', extensions: ['.txt', '.json'], mimeTypes: ['text/plain', 'application/json'], structured: false },
+];
+
+export function extractableFormat(fileName: string, mimeType?: string | null): ExtractableFormat | null {
+  const name = fileName.toLowerCase();
+  const byName = EXTRACTABLE_FORMATS.find(f => f.extensions.some(ext => name.endsWith(ext)));
+  const byMime = mimeType ? EXTRACTABLE_FORMATS.find(f => f.mimeTypes.includes(mimeType)) : undefined;
+  // Any other text/* file is read as plain text
+  const plainText = mimeType?.startsWith('text/') ? EXTRACTABLE_FORMATS.find(f => f.label === 'Texto') : undefined;
+  return byMime ?? byName ?? plainText ?? null;
+}
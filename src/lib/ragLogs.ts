@@ -0,0 +1,26 @@
+/**
+ * rag_logs rows as shown on the RAG quality page and its detail modal, with
+ * the fail-closed reason labels and score formatting both share.
+ */
+import { Tables } from '@/integrations/supabase/types';
+
+export type RagLog = Tables<'rag_logs'> & {
+  projects: { name: string } | null;
+};
+
+export const failClosedReasonLabels: Record<string, string> = {
+  constraint_evidence_missing: 'Restrição sem evidência',
+  no_evidence: 'Sem evidência',
+  external_leak: 'Conhecimento externo',
+  strong_constraint_no_structured_pipeline: 'Restrição forte sem pipeline estruturado',
+  numeric_grounding_failed: 'Números não verificados',
+  numeric_missing: 'Número sem fonte',
+  cross_variant_mix: 'Mistura de variantes',
+  unsupported_claim: 'Afirmação sem suporte',
+  temporal_error: 'Erro temporal',
+  unknown: 'Desconhecido',
+};
+
+export function formatPercent(value: number | null | undefined) {
+  return value == null ? '—' : `${Math.round(value * 100)}%`;
+}
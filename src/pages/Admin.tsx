@@ -25,13 +25,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Loader2, Shield, ShieldAlert, Users, ScrollText, UserPlus, MoreHorizontal, KeyRound, FolderKanban, UserX, UserCheck, Search, BookText } from 'lucide-react';
+import { Loader2, Shield, ShieldAlert, Users, ScrollText, UserPlus, MoreHorizontal, KeyRound, FolderKanban, UserX, UserCheck, Search, BookText, ListFilter } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { CreateUserModal } from '@/components/admin/CreateUserModal';
 import { UserProjectAccessModal } from '@/components/admin/UserProjectAccessModal';
 import { AliasApprovalTab } from '@/components/admin/AliasApprovalTab';
+import { ConstraintLexiconTab } from '@/components/admin/ConstraintLexiconTab';
 
 interface UserWithRole {
   id: string;
@@ -332,6 +333,7 @@ export default function Admin() {
           <TabsTrigger value="users" className="gap-2"><Users className="h-4 w-4" />Usuários</TabsTrigger>
           <TabsTrigger value="audit" className="gap-2"><ScrollText className="h-4 w-4" />Auditoria</TabsTrigger>
           <TabsTrigger value="aliases" className="gap-2"><BookText className="h-4 w-4" />Aliases</TabsTrigger>
+          <TabsTrigger value="lexicon" className="gap-2"><ListFilter className="h-4 w-4" />Léxico</TabsTrigger>
         </TabsList>
 
         <TabsContent value="users">
@@ -502,6 +504,10 @@ export default function Admin() {
         <TabsContent value="aliases">
           <AliasApprovalTab />
         </TabsContent>
+
+        <TabsContent value="lexicon">
+          <ConstraintLexiconTab />
+        </TabsContent>
       </Tabs>
 
       <CreateUserModal open={createUserOpen} onOpenChange={setCreateUserOpen} onUserCreated={fetchUsers} />
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import {
   Send,
+  Square,
   Loader2,
   Bot,
   Sparkles,
@@ -38,6 +39,8 @@ export default function Assistant() {
     messages,
     isLoading,
     sendMessage,
+    refreshAnswer,
+    cancelRequest,
     startNewConversation,
     conversationId,
     conversations,
@@ -257,6 +260,7 @@ export default function Assistant() {
                     key={message.id}
                     message={message}
                     onSourceClick={handleSourceClick}
+                    onRefresh={isLoading ? undefined : refreshAnswer}
                     userQuestion={
                       message.role === 'assistant'
                         ? getUserQuestionBefore(index)
@@ -264,7 +268,7 @@ export default function Assistant() {
                     }
                   />
                 ))}
-                {isLoading && (
+                {isLoading && !messages[messages.length - 1]?.isStreaming && (
                   <div className="flex gap-3 p-3 rounded-lg bg-muted/30">
                     <div className="h-7 w-7 rounded-full bg-secondary flex items-center justify-center shrink-0">
                       <Loader2 className="h-3.5 w-3.5 animate-spin" />
@@ -296,13 +300,15 @@ export default function Assistant() {
                 disabled={isLoading}
                 className="flex-1 h-9 text-sm"
               />
-              <Button type="submit" disabled={isLoading || !input.trim()} size="sm" className="h-9 px-3">
-                {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
+              {isLoading ? (
+                <Button type="button" variant="outline" size="sm" className="h-9 px-3" onClick={cancelRequest} title="Parar">
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!input.trim()} size="sm" className="h-9 px-3">
                   <Send className="h-4 w-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,377 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Download, FileSpreadsheet, RotateCcw, Table2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  ALL,
+  type ExplorerFilters,
+  applyFilters,
+  emptyFilters,
+  exportRecords,
+  toCsv,
+  useExplorerData,
+} from '@/hooks/useExplorerData';
+import { PivotTableView } from '@/components/data-explorer/PivotTable';
+import { BoxPlotChart, ConditionScatterChart } from '@/components/data-explorer/DistributionCharts';
+
+const TABLE_LIMIT = 200;
+
+function exportFileName(projectName: string, extension: string): string {
+  const slug = projectName.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-');
+  return `dados-${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+export default function DataExplorer() {
+  const { user } = useAuth();
+  const [projectId, setProjectId] = useState('');
+  const [filters, setFilters] = useState<ExplorerFilters>(emptyFilters);
+  const [groupKey, setGroupKey] = useState(ALL);
+  const [scatterKey, setScatterKey] = useState('');
+
+  const { data: userProjects } = useQuery({
+    queryKey: ['user-projects-for-explorer', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('project_id, projects(id, name)')
+        .eq('user_id', user.id);
+      if (error) throw error;
+      return data?.map(pm => pm.projects).filter(Boolean) as { id: string; name: string }[];
+    },
+    enabled: !!user?.id,
+  });
+
+  useEffect(() => {
+    if (!projectId && userProjects && userProjects.length > 0) setProjectId(userProjects[0].id);
+  }, [userProjects, projectId]);
+
+  const { data: rows, isLoading } = useExplorerData(projectId);
+
+  // Options come from the whole project so a filter never hides the others' choices
+  const options = useMemo(() => {
+    const all = rows || [];
+    const conditionValues = filters.conditionKey === ALL
+      ? []
+      : [...new Set(all.flatMap(r => r.conditions[filters.conditionKey] || []))];
+    const files = new Map(all.map(r => [r.source_file_id, r.source_file_name || 'Arquivo']));
+    return {
+      metrics: [...new Set(all.map(r => r.metric))].sort(),
+      conditionKeys: [...new Set(all.flatMap(r => Object.keys(r.conditions)))].sort(),
+      conditionValues: conditionValues.sort((a, b) => a.localeCompare(b, 'pt-BR', { numeric: true })),
+      files: [...files.entries()].sort((a, b) => a[1].localeCompare(b[1])),
+    };
+  }, [rows, filters.conditionKey]);
+
+  const filtered = useMemo(() => applyFilters(rows || [], filters), [rows, filters]);
+
+  const setFilter = <K extends keyof ExplorerFilters>(key: K, value: ExplorerFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value, ...(key === 'conditionKey' ? { conditionValue: ALL } : {}) }));
+  };
+
+  const handleProjectChange = (id: string) => {
+    setProjectId(id);
+    setFilters(emptyFilters);
+    setGroupKey(ALL);
+    setScatterKey('');
+  };
+
+  const projectName = userProjects?.find(p => p.id === projectId)?.name || 'projeto';
+
+  const handleExportCsv = () => {
+    // BOM so Excel opens accented headers and values correctly
+    const blob = new Blob(['\uFEFF' + toCsv(exportRecords(filtered))], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exportFileName(projectName, 'csv');
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportXlsx = async () => {
+    try {
+      const XLSX = await import('xlsx');
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(exportRecords(filtered)), 'Dados');
+      XLSX.writeFile(workbook, exportFileName(projectName, 'xlsx'));
+    } catch (err: any) {
+      toast.error(err.message || 'Erro ao exportar planilha');
+    }
+  };
+
+  const singleMetric = filters.metric !== ALL;
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(emptyFilters);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Explorador de Dados</h1>
+          <p className="text-muted-foreground">
+            Medições, condições e experimentos extraídos dos documentos do projeto
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportCsv} disabled={filtered.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportXlsx} disabled={filtered.length === 0}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            XLSX
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Projeto</Label>
+            <Select value={projectId} onValueChange={handleProjectChange}>
+              <SelectTrigger><SelectValue placeholder="Selecione" /></SelectTrigger>
+              <SelectContent>
+                {userProjects?.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Métrica</Label>
+            <Select value={filters.metric} onValueChange={v => setFilter('metric', v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as métricas</SelectItem>
+                {options.metrics.map(m => (
+                  <SelectItem key={m} value={m}>{m}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Condição</Label>
+            <Select value={filters.conditionKey} onValueChange={v => setFilter('conditionKey', v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Qualquer condição</SelectItem>
+                {options.conditionKeys.map(k => (
+                  <SelectItem key={k} value={k}>{k}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Valor da condição</Label>
+            <Select
+              value={filters.conditionValue}
+              onValueChange={v => setFilter('conditionValue', v)}
+              disabled={filters.conditionKey === ALL}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os valores</SelectItem>
+                {options.conditionValues.map(v => (
+                  <SelectItem key={v} value={v}>{v}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Arquivo de origem</Label>
+            <Select value={filters.sourceFileId} onValueChange={v => setFilter('sourceFileId', v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os arquivos</SelectItem>
+                {options.files.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">De</Label>
+            <Input type="date" value={filters.dateFrom} onChange={e => setFilter('dateFrom', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Até</Label>
+            <Input type="date" value={filters.dateTo} onChange={e => setFilter('dateTo', e.target.value)} />
+          </div>
+          <div className="flex items-end">
+            <Button variant="ghost" onClick={() => setFilters(emptyFilters)} disabled={!hasFilters}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Limpar filtros
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : !rows || rows.length === 0 ? (
+        <Card className="border-dashed">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+              <Table2 className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <CardTitle>Nenhuma medição neste projeto</CardTitle>
+            <CardDescription>Envie documentos ou planilhas para extrair experimentos e medições</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <Tabs defaultValue="table">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <TabsList>
+              <TabsTrigger value="table">Tabela</TabsTrigger>
+              <TabsTrigger value="pivot">Pivô</TabsTrigger>
+              <TabsTrigger value="distribution">Distribuição</TabsTrigger>
+            </TabsList>
+            <p className="text-sm text-muted-foreground">
+              {filtered.length} de {rows.length} medições
+            </p>
+          </div>
+
+          <TabsContent value="table">
+            <Card>
+              <CardContent className="p-0 overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Experimento</TableHead>
+                      <TableHead>Métrica</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                      <TableHead>Unidade</TableHead>
+                      <TableHead>Condições</TableHead>
+                      <TableHead>Origem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.slice(0, TABLE_LIMIT).map(r => (
+                      <TableRow key={r.measurement_id}>
+                        <TableCell className="text-xs max-w-[200px] truncate">{r.experiment_title}</TableCell>
+                        <TableCell className="text-xs font-medium">{r.metric}</TableCell>
+                        <TableCell className="text-right tabular-nums text-xs whitespace-nowrap">
+                          {r.value}
+                          {r.sd !== null && <span className="text-muted-foreground"> ± {r.sd}</span>}
+                          {r.n !== null && <span className="text-muted-foreground"> (n={r.n})</span>}
+                        </TableCell>
+                        <TableCell
+                          className="text-xs whitespace-nowrap"
+                          title={r.conversion ? `${r.conversion.rule}${r.conversion.note ? ` — ${r.conversion.note}` : ''}` : undefined}
+                        >
+                          {r.unit}
+                          {r.conversion && r.conversion.status !== 'identity' && r.conversion.status !== 'converted' && (
+                            <AlertTriangle className="inline h-3 w-3 ml-1 text-warning" />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {Object.entries(r.conditions).map(([k, v]) => (
+                              <Badge key={k} variant="outline" className="text-xs">{k}: {v.join('; ')}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                          {r.source_file_name || 'Arquivo'}
+                          {r.citation.page && ` • p. ${r.citation.page}`}
+                          {r.citation.sheet_name && ` • ${r.citation.sheet_name}`}
+                          {r.citation.cell_range && ` • ${r.citation.cell_range}`}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {filtered.length > TABLE_LIMIT && (
+                  <p className="text-xs text-muted-foreground text-center py-3">
+                    Mostrando {TABLE_LIMIT} de {filtered.length} medições. A exportação inclui todas.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="pivot" className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label className="text-sm">Linhas</Label>
+              <Select value={groupKey} onValueChange={setGroupKey}>
+                <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Experimento</SelectItem>
+                  {options.conditionKeys.map(k => (
+                    <SelectItem key={k} value={k}>{k}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <PivotTableView rows={filtered} groupKey={groupKey} />
+          </TabsContent>
+
+          <TabsContent value="distribution" className="space-y-4">
+            {!singleMetric ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Selecione uma métrica nos filtros para ver a distribuição.
+              </p>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <CardTitle className="text-base">Box plot: {filters.metric}</CardTitle>
+                      <Select value={groupKey} onValueChange={setGroupKey}>
+                        <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>Por experimento</SelectItem>
+                          {options.conditionKeys.map(k => (
+                            <SelectItem key={k} value={k}>Por {k}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <BoxPlotChart rows={filtered} groupKey={groupKey} />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <CardTitle className="text-base">Dispersão: {filters.metric} × condição</CardTitle>
+                      <Select value={scatterKey} onValueChange={setScatterKey}>
+                        <SelectTrigger className="w-56"><SelectValue placeholder="Condição numérica" /></SelectTrigger>
+                        <SelectContent>
+                          {options.conditionKeys.map(k => (
+                            <SelectItem key={k} value={k}>{k}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {scatterKey ? (
+                      <ConditionScatterChart rows={filtered} conditionKey={scatterKey} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-8">Escolha a condição do eixo X.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
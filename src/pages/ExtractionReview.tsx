@@ -0,0 +1,391 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Ban, Check, FileText, Keyboard, Pencil, Undo2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  REVIEW_ITEM_LABELS,
+  type ReviewDecision,
+  type ReviewEdits,
+  type ReviewItem,
+  useExtractionReview,
+  useRemoveExclusion,
+  useReviewDecisions,
+} from '@/hooks/useExtractionReview';
+import { ExtractionSourceText } from '@/components/knowledge/ExtractionSourceText';
+import { ReviewItemEditModal } from '@/components/knowledge/ReviewItemEditModal';
+
+type StatusFilter = 'pending' | 'reviewed' | 'all';
+
+const DECISION_BADGES: Record<ReviewDecision, { label: string; className: string }> = {
+  accepted: { label: 'Aceito', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+  edited: { label: 'Editado', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+  rejected: { label: 'Rejeitado', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400' },
+};
+
+const SHORTCUTS: [string, string][] = [
+  ['j / ↓', 'próximo'],
+  ['k / ↑', 'anterior'],
+  ['a', 'aceitar'],
+  ['e', 'editar'],
+  ['r', 'rejeitar'],
+  ['x', 'selecionar'],
+];
+
+export default function ExtractionReview() {
+  const { jobId } = useParams<{ jobId: string }>();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useExtractionReview(jobId);
+  const decide = useReviewDecisions(jobId);
+  const removeExclusion = useRemoveExclusion(jobId);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<ReviewItem | null>(null);
+
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const visible = useMemo(() => items.filter(i =>
+    (typeFilter === 'all' || i.type === typeFilter) &&
+    (statusFilter === 'all' || (statusFilter === 'pending' ? i.decision === null : i.decision !== null))),
+  [items, typeFilter, statusFilter]);
+
+  const activeIndex = visible.findIndex(i => i.key === activeKey);
+  const active = activeIndex >= 0 ? visible[activeIndex] : null;
+
+  // Keep a valid active item as the list changes (decisions move items out of "pending")
+  useEffect(() => {
+    if (visible.length === 0) {
+      if (activeKey !== null) setActiveKey(null);
+    } else if (activeIndex < 0) {
+      setActiveKey(visible[0].key);
+    }
+  }, [visible, activeIndex, activeKey]);
+
+  const pendingCount = items.filter(i => i.decision === null).length;
+  const selectedItems = visible.filter(i => selected.has(i.key));
+
+  const apply = (targets: ReviewItem[], decision: ReviewDecision, edits?: ReviewEdits) => {
+    if (targets.length === 0) return;
+    // Move on to the item after the last one decided
+    const last = visible.findIndex(i => i.key === targets[targets.length - 1].key);
+    const next = visible.slice(last + 1).find(i => !targets.some(t => t.key === i.key))
+      ?? visible.slice(0, last).reverse().find(i => !targets.some(t => t.key === i.key));
+    decide.mutate(targets.map(item => ({ item, decision, edits })), {
+      onSuccess: () => {
+        if (next) setActiveKey(next.key);
+        setSelected(new Set());
+        setEditing(null);
+        if (targets.length > 1) {
+          toast.success(`${targets.length} itens ${decision === 'rejected' ? 'rejeitados' : 'aceitos'}`);
+        }
+      },
+    });
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Keyboard review: ignored while typing or while the edit dialog is open
+  useEffect(() => {
+    const down = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (editing || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (target.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return;
+      if (decide.isPending) return;
+
+      const move = (delta: number) => {
+        if (visible.length === 0) return;
+        const i = Math.min(visible.length - 1, Math.max(0, activeIndex + delta));
+        setActiveKey(visible[i].key);
+      };
+
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          move(1);
+          break;
+        case 'k':
+        case 'ArrowUp':
+          move(-1);
+          break;
+        case 'a':
+          if (active) apply([active], 'accepted');
+          break;
+        case 'r':
+          if (active) apply([active], 'rejected');
+          break;
+        case 'e':
+          if (active) setEditing(active);
+          break;
+        case 'x':
+          if (active) toggleSelected(active.key);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    document.addEventListener('keydown', down);
+    return () => document.removeEventListener('keydown', down);
+  });
+
+  // Scroll the active row into view when moving with the keyboard
+  useEffect(() => {
+    if (activeKey) document.getElementById(`review-${activeKey}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeKey]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Skeleton className="h-[60vh] w-full" />
+          <Skeleton className="h-[60vh] w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" onClick={() => navigate(-1)}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Voltar
+        </Button>
+        <p className="text-muted-foreground">Extração não encontrada ou sem permissão de acesso.</p>
+      </div>
+    );
+  }
+
+  const { job, exclusions, rejectedCount } = data;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="flex items-start gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/knowledge">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Revisão da extração</h1>
+            <p className="text-muted-foreground flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              {job.project_files?.name ?? 'Arquivo'}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{pendingCount} pendente{pendingCount === 1 ? '' : 's'}</Badge>
+          <Badge variant="outline">{items.length - pendingCount} revisado{items.length - pendingCount === 1 ? '' : 's'}</Badge>
+          <Badge variant="outline">{rejectedCount} rejeitado{rejectedCount === 1 ? '' : 's'}</Badge>
+        </div>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pendentes</SelectItem>
+            <SelectItem value="reviewed">Revisados</SelectItem>
+            <SelectItem value="all">Todos</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os tipos</SelectItem>
+            {Object.entries(REVIEW_ITEM_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSelected(selectedItems.length === visible.length ? new Set() : new Set(visible.map(i => i.key)))}
+            disabled={visible.length === 0}
+          >
+            {selectedItems.length === visible.length && visible.length > 0 ? 'Limpar seleção' : 'Selecionar todos'}
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => apply(selectedItems, 'accepted')}
+            disabled={selectedItems.length === 0 || decide.isPending}
+          >
+            <Check className="mr-1 h-4 w-4" />
+            Aceitar ({selectedItems.length})
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => apply(selectedItems, 'rejected')}
+            disabled={selectedItems.length === 0 || decide.isPending}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Rejeitar ({selectedItems.length})
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {/* Source document */}
+        <Card className="flex h-[70vh] flex-col">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Documento de origem</CardTitle>
+            <CardDescription>
+              {active?.page ? `Evidência do item ativo (p. ${active.page}) destacada` : 'Evidência do item ativo destacada'}
+              {job.content_truncated && ' · texto truncado na extração'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="min-h-0 flex-1 p-0">
+            {job.source_text ? (
+              <ExtractionSourceText text={job.source_text} evidence={active?.evidence ?? null} page={active?.page ?? null} />
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">
+                O texto de origem não foi guardado para esta extração. Reprocesse o arquivo para revisá-lo lado a lado.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Extracted items */}
+        <Card className="flex h-[70vh] flex-col">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Itens extraídos</CardTitle>
+            <CardDescription className="flex flex-wrap items-center gap-x-3 gap-y-1">
+              <Keyboard className="h-3 w-3" />
+              {SHORTCUTS.map(([key, label]) => (
+                <span key={key}><kbd className="rounded border bg-muted px-1 text-[10px]">{key}</kbd> {label}</span>
+              ))}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="min-h-0 flex-1 p-0">
+            <ScrollArea className="h-full">
+              <div className="space-y-2 p-4">
+                {visible.length === 0 && (
+                  <p className="py-8 text-center text-sm text-muted-foreground">
+                    {statusFilter === 'pending' ? 'Nenhum item pendente de revisão.' : 'Nenhum item neste filtro.'}
+                  </p>
+                )}
+                {visible.map(item => {
+                  const isActive = item.key === activeKey;
+                  const badge = item.decision ? DECISION_BADGES[item.decision] : null;
+                  return (
+                    <div
+                      key={item.key}
+                      id={`review-${item.key}`}
+                      onClick={() => setActiveKey(item.key)}
+                      className={cn(
+                        'flex cursor-pointer gap-3 rounded-md border p-3 transition-colors',
+                        isActive ? 'border-primary bg-primary/5' : 'hover:bg-muted/50',
+                      )}
+                    >
+                      <Checkbox
+                        checked={selected.has(item.key)}
+                        onCheckedChange={() => toggleSelected(item.key)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="mt-1"
+                      />
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="secondary" className="text-xs">{REVIEW_ITEM_LABELS[item.type]}</Badge>
+                          {badge && <Badge className={cn('text-xs', badge.className)} variant="outline">{badge.label}</Badge>}
+                          {item.page && <span className="text-xs text-muted-foreground">p. {item.page}</span>}
+                          {item.confidence && <span className="text-xs text-muted-foreground">{item.confidence}</span>}
+                        </div>
+                        <p className="text-sm font-medium">{item.title}</p>
+                        <p className={cn('text-xs text-muted-foreground', !isActive && 'line-clamp-2')}>{item.detail}</p>
+                      </div>
+                      {isActive && (
+                        <div className="flex shrink-0 flex-col gap-1">
+                          <Button size="icon" variant="ghost" className="h-7 w-7" title="Aceitar (a)"
+                            onClick={(e) => { e.stopPropagation(); apply([item], 'accepted'); }} disabled={decide.isPending}>
+                            <Check className="h-4 w-4 text-green-600" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-7 w-7" title="Editar (e)"
+                            onClick={(e) => { e.stopPropagation(); setEditing(item); }} disabled={decide.isPending}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-7 w-7" title="Rejeitar (r)"
+                            onClick={(e) => { e.stopPropagation(); apply([item], 'rejected'); }} disabled={decide.isPending}>
+                            <X className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Exclusion list */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Ban className="h-4 w-4" />
+            Lista de exclusão do arquivo
+          </CardTitle>
+          <CardDescription>
+            Itens rejeitados não são recriados quando uma nova versão do arquivo é extraída.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {exclusions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum item rejeitado neste arquivo.</p>
+          ) : (
+            <div className="space-y-1">
+              {exclusions.map(ex => (
+                <div key={ex.id} className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline" className="text-xs">{REVIEW_ITEM_LABELS[ex.item_type] ?? ex.item_type}</Badge>
+                  <span className="min-w-0 flex-1 truncate">{ex.label}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeExclusion.mutate(ex.id)}
+                    disabled={removeExclusion.isPending}
+                  >
+                    <Undo2 className="mr-1 h-3 w-3" />
+                    Permitir novamente
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReviewItemEditModal
+        item={editing}
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={(edits) => editing && apply([editing], 'edited', edits)}
+        saving={decide.isPending}
+      />
+    </div>
+  );
+}
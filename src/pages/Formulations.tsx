@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Beaker, Plus, Search, FolderOpen, GitBranch } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { type Formulation, compositionSummary, useFormulations } from '@/hooks/useFormulations';
+import { FormulationFormModal } from '@/components/formulations/FormulationFormModal';
+import { FormulationDetailModal } from '@/components/formulations/FormulationDetailModal';
+
+export default function Formulations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [selected, setSelected] = useState<Formulation | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [baseFormulation, setBaseFormulation] = useState<Formulation | null>(null);
+
+  const { data: formulations, isLoading } = useFormulations();
+
+  const { data: userProjects } = useQuery({
+    queryKey: ['user-projects-for-formulations', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('project_id, projects(id, name)')
+        .eq('user_id', user.id);
+      if (error) throw error;
+      return data?.map(pm => pm.projects).filter(Boolean) as { id: string; name: string }[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const all = formulations || [];
+  // One card per code: the query returns the newest version first
+  const latest = all.filter((f, i) =>
+    all.findIndex(o => o.project_id === f.project_id && o.code.toLowerCase() === f.code.toLowerCase()) === i);
+
+  const term = search.toLowerCase();
+  const filtered = latest.filter(f =>
+    (projectFilter === 'all' || f.project_id === projectFilter) &&
+    (!term ||
+      f.code.toLowerCase().includes(term) ||
+      f.name.toLowerCase().includes(term) ||
+      f.aliases.some(a => a.toLowerCase().includes(term)) ||
+      f.formulation_components.some(c => c.name.toLowerCase().includes(term))));
+
+  const openNew = () => {
+    setBaseFormulation(null);
+    setFormOpen(true);
+  };
+
+  const openNewVersion = (f: Formulation) => {
+    setSelected(null);
+    setBaseFormulation(f);
+    setFormOpen(true);
+  };
+
+  const handleSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['formulations'] });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-64 mt-2" />
+        </div>
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            {[1, 2, 3].map(i => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const hasProjects = userProjects && userProjects.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Formulações</h1>
+          <p className="text-muted-foreground">
+            Composições versionadas: matriz resinosa, cargas, fotoiniciadores e aditivos
+          </p>
+        </div>
+        <Button onClick={openNew} disabled={!hasProjects}>
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Formulação
+        </Button>
+      </div>
+
+      {latest.length > 0 ? (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Todas as Formulações</CardTitle>
+                <CardDescription>
+                  {filtered.length} formulaç{filtered.length !== 1 ? 'ões' : 'ão'} (última versão de cada código)
+                </CardDescription>
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Select value={projectFilter} onValueChange={setProjectFilter}>
+                  <SelectTrigger className="w-full sm:w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos os projetos</SelectItem>
+                    {userProjects?.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="relative w-full sm:w-64">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Código, nome ou componente..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filtered.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Nenhuma formulação encontrada
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {filtered.map((f) => {
+                  const summary = compositionSummary(f.formulation_components);
+                  return (
+                    <div
+                      key={f.id}
+                      className="flex items-center gap-4 p-4 rounded-lg border hover:bg-muted/50 cursor-pointer transition-colors"
+                      onClick={() => setSelected(f)}
+                    >
+                      <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                        <Beaker className="h-5 w-5 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-medium truncate">{f.code} — {f.name}</h3>
+                          <Badge variant="outline">v{f.version}</Badge>
+                          {f.status !== 'active' && <Badge variant="secondary">{f.status === 'draft' ? 'Rascunho' : 'Arquivada'}</Badge>}
+                          {f.parent_id && <GitBranch className="h-3 w-3 text-muted-foreground" />}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <FolderOpen className="h-3 w-3" />
+                          <span className="truncate">{f.projects?.name || 'Projeto desconhecido'}</span>
+                          {summary.fillerWt !== null && (<><span>•</span><span>Carga {summary.fillerWt} wt%</span></>)}
+                          {summary.fillerVol !== null && (<><span>•</span><span>Carga {summary.fillerVol} vol%</span></>)}
+                        </div>
+                        {summary.resinRatio && (
+                          <p className="text-sm text-muted-foreground mt-1 line-clamp-1">{summary.resinRatio}</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-dashed">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+              <Beaker className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <CardTitle>Nenhuma formulação ainda</CardTitle>
+            <CardDescription>
+              {hasProjects
+                ? 'Cadastre formulações para vincular experimentos e planilhas às suas composições'
+                : 'Você precisa fazer parte de um projeto para cadastrar formulações'
+              }
+            </CardDescription>
+          </CardHeader>
+          {hasProjects && (
+            <CardContent className="text-center">
+              <Button onClick={openNew}>
+                <Plus className="mr-2 h-4 w-4" />
+                Cadastrar Primeira Formulação
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      <FormulationDetailModal
+        formulation={selected}
+        allFormulations={all}
+        open={!!selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onSelect={setSelected}
+        onNewVersion={openNewVersion}
+      />
+
+      <FormulationFormModal
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        onSaved={handleSaved}
+        projects={userProjects || []}
+        baseFormulation={baseFormulation}
+        parentOptions={latest}
+      />
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Brain, Search, Sparkles, Filter, LayoutGrid, List, FileText, FlaskConical, Zap, Loader2, Globe, Upload } from 'lucide-react';
+import { Brain, Search, Sparkles, Filter, LayoutGrid, List, FileText, FlaskConical, Zap, Loader2, Globe, Upload, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
@@ -17,6 +17,9 @@ import { KnowledgeDetailModal } from '@/components/knowledge/KnowledgeDetailModa
 import { DocumentDetailModal } from '@/components/knowledge/DocumentDetailModal';
 import { ExperimentDetailModal } from '@/components/knowledge/ExperimentDetailModal';
 import { FactsList } from '@/components/knowledge/FactsList';
+import { BenchmarksPanel } from '@/components/knowledge/BenchmarksPanel';
+import { SignificancePanel } from '@/components/knowledge/SignificancePanel';
+import { WeibullPanel } from '@/components/knowledge/WeibullPanel';
 import { ExtractionStatus } from '@/components/knowledge/ExtractionStatus';
 import { GlobalFileUploadModal } from '@/components/knowledge/GlobalFileUploadModal';
 import {
@@ -185,7 +188,7 @@ export default function Knowledge() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('experiments')
-        .select(`id, project_id, source_file_id, title, objective, summary, source_type, is_qualitative, created_at, projects(name), project_files(name)`)
+        .select(`id, project_id, source_file_id, title, objective, summary, source_type, is_qualitative, created_at, formulation_id, projects(name), project_files(name)`)
         .is('deleted_at', null)
         .order('created_at', { ascending: false });
       if (error) throw error;
@@ -367,7 +370,37 @@ export default function Knowledge() {
         <FactsList projects={projects || []} />
       )}
 
-      {entryType !== 'facts' && (
+      {/* Benchmarks Section */}
+      {entryType === 'benchmarks' && (
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" onClick={() => setEntryType('all')}>
+            <ArrowLeft className="h-4 w-4 mr-1" /> Voltar à base de conhecimento
+          </Button>
+          <BenchmarksPanel projects={projects || []} />
+        </div>
+      )}
+
+      {/* Significance Tests Section */}
+      {entryType === 'statistics' && (
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" onClick={() => setEntryType('all')}>
+            <ArrowLeft className="h-4 w-4 mr-1" /> Voltar à base de conhecimento
+          </Button>
+          <SignificancePanel projects={projects || []} />
+        </div>
+      )}
+
+      {/* Weibull Section */}
+      {entryType === 'weibull' && (
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" onClick={() => setEntryType('all')}>
+            <ArrowLeft className="h-4 w-4 mr-1" /> Voltar à base de conhecimento
+          </Button>
+          <WeibullPanel projects={projects || []} />
+        </div>
+      )}
+
+      {entryType !== 'facts' && entryType !== 'benchmarks' && entryType !== 'statistics' && entryType !== 'weibull' && (
       <>
       <ExtractionStatus />
 
@@ -18,6 +18,7 @@ import {
   Bot,
   LayoutGrid,
   List,
+  Trophy,
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Tables } from '@/integrations/supabase/types';
@@ -33,6 +34,7 @@ import { ReindexProjectButton } from '@/components/projects/ReindexProjectButton
 import { IndexingStatus } from '@/components/projects/IndexingStatus';
 import { ProjectAssistant } from '@/components/projects/ProjectAssistant';
 import { ProjectSettingsModal } from '@/components/projects/ProjectSettingsModal';
+import { BenchmarksPanel } from '@/components/knowledge/BenchmarksPanel';
 import { useAuth } from '@/hooks/useAuth';
 
 type Project = Tables<'projects'>;
@@ -489,6 +491,10 @@ export default function ProjectDetail() {
             <FileText className="h-4 w-4" />
             Relatórios
           </TabsTrigger>
+          <TabsTrigger value="benchmarks" className="gap-2">
+            <Trophy className="h-4 w-4" />
+            Benchmarks
+          </TabsTrigger>
           <TabsTrigger value="assistant" className="gap-2">
             <Bot className="h-4 w-4" />
             Assistente IA
@@ -589,6 +595,10 @@ export default function ProjectDetail() {
           <ReportsList projectId={id!} />
         </TabsContent>
 
+        <TabsContent value="benchmarks">
+          <BenchmarksPanel projects={[{ id: id!, name: project.name }]} />
+        </TabsContent>
+
         <TabsContent value="assistant">
           <ProjectAssistant projectId={id!} projectName={project.name} />
         </TabsContent>
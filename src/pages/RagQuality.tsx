@@ -0,0 +1,448 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAdminRole } from '@/hooks/useAdminRole';
+import { useManagedProjects } from '@/hooks/useManagedProjects';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, ShieldAlert, Activity, Clock, Gauge, ShieldX, Coins, Search } from 'lucide-react';
+import { TierTimelineChart, TierDayCount } from '@/components/rag-quality/TierTimelineChart';
+import { RagLogDetailModal } from '@/components/rag-quality/RagLogDetailModal';
+import { AnswerFeedbackPanel } from '@/components/rag-quality/AnswerFeedbackPanel';
+import { RagLog, failClosedReasonLabels, formatPercent } from '@/lib/ragLogs';
+
+interface TokenSpendRow {
+  requests: number;
+  tokens_input: number;
+  tokens_output: number;
+}
+
+interface RagQualityStats {
+  summary: {
+    total: number;
+    latency_p50: number | null;
+    latency_p90: number | null;
+    latency_p95: number | null;
+    latency_p99: number | null;
+    avg_groundedness: number | null;
+    avg_citation_coverage: number | null;
+    escalated_count: number;
+    contradiction_count: number;
+    fail_closed_count: number;
+    tokens_input: number;
+    tokens_output: number;
+  };
+  fail_closed_reasons: { reason: string; count: number }[];
+  tiers_by_day: TierDayCount[];
+  tokens_by_project: (TokenSpendRow & { project_id: string | null; project_name: string | null })[];
+  tokens_by_user: (TokenSpendRow & { user_id: string; user_name: string | null })[];
+  gate_missing_terms: { term: string; count: number }[];
+}
+
+type LogView = 'lowest' | 'fail_closed' | 'recent';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatMs(value: number | null | undefined) {
+  if (value == null) return '—';
+  return value >= 1000 ? `${(value / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} s` : `${Math.round(value)} ms`;
+}
+
+function formatTokens(value: number) {
+  return value.toLocaleString('pt-BR');
+}
+
+export default function RagQuality() {
+  const { isAdmin, loading: adminLoading } = useAdminRole();
+  const { projects: managedProjects, loading: managedLoading } = useManagedProjects();
+  const [periodDays, setPeriodDays] = useState('30');
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [logView, setLogView] = useState<LogView>('lowest');
+  const [logSearch, setLogSearch] = useState('');
+  const [selectedLog, setSelectedLog] = useState<RagLog | null>(null);
+
+  const canView = isAdmin || managedProjects.length > 0;
+  const accessLoading = adminLoading || managedLoading;
+
+  const since = useMemo(() => {
+    const d = new Date();
+    d.setDate(d.getDate() - Number(periodDays));
+    d.setHours(0, 0, 0, 0);
+    return d.toISOString();
+  }, [periodDays]);
+  const projectId = projectFilter === 'all' ? null : projectFilter;
+
+  const { data: allProjects } = useQuery({
+    queryKey: ['rag-quality-projects'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('projects').select('id, name').is('deleted_at', null).order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: isAdmin,
+  });
+  const projectOptions = isAdmin ? allProjects || [] : managedProjects;
+
+  const { data: stats, isLoading: statsLoading } = useQuery({
+    queryKey: ['rag-quality-stats', since, projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_rag_quality_stats', {
+        p_since: since,
+        ...(projectId ? { p_project_id: projectId } : {}),
+      });
+      if (error) throw error;
+      return data as unknown as RagQualityStats;
+    },
+    enabled: canView,
+  });
+
+  const { data: logs, isLoading: logsLoading } = useQuery({
+    queryKey: ['rag-quality-logs', since, projectId, logView, logSearch],
+    queryFn: async () => {
+      let query = supabase
+        .from('rag_logs')
+        .select('*, projects(name)')
+        .gte('created_at', since)
+        .limit(25);
+      if (projectId) query = query.eq('project_id', projectId);
+
+      const term = logSearch.trim();
+      if (UUID_PATTERN.test(term)) query = query.eq('request_id', term);
+      else if (term) query = query.ilike('query', `%${term}%`);
+
+      if (logView === 'lowest') {
+        query = query.not('groundedness_score', 'is', null).order('groundedness_score', { ascending: true });
+      } else {
+        if (logView === 'fail_closed') query = query.eq('diagnostics->>fail_closed_triggered', 'true');
+        query = query.order('created_at', { ascending: false });
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as RagLog[];
+    },
+    enabled: canView,
+  });
+
+  if (accessLoading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!canView) {
+    return (
+      <div className="flex min-h-[60vh] flex-col items-center justify-center gap-4 text-muted-foreground">
+        <ShieldAlert className="h-16 w-16" />
+        <h2 className="text-xl font-semibold">Acesso negado</h2>
+        <p>Apenas administradores e gerentes de projeto podem acessar a qualidade do RAG.</p>
+      </div>
+    );
+  }
+
+  const summary = stats?.summary;
+  const total = summary?.total || 0;
+  const failClosedRate = total > 0 ? (summary?.fail_closed_count || 0) / total : null;
+  const maxReasonCount = Math.max(1, ...(stats?.fail_closed_reasons || []).map(r => r.count));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <Activity className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Qualidade RAG</h1>
+            <p className="text-muted-foreground">Latência, fail-closed, tiers, consumo de tokens e feedback das respostas do assistente.</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os projetos</SelectItem>
+              {projectOptions.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={periodDays} onValueChange={setPeriodDays}>
+            <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Últimos 7 dias</SelectItem>
+              <SelectItem value="30">Últimos 30 dias</SelectItem>
+              <SelectItem value="90">Últimos 90 dias</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Latência</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? <Skeleton className="h-8 w-24" /> : (
+              <>
+                <div className="text-2xl font-bold">{formatMs(summary?.latency_p50)} <span className="text-sm font-normal text-muted-foreground">p50</span></div>
+                <p className="text-xs text-muted-foreground">
+                  p90 {formatMs(summary?.latency_p90)} · p95 {formatMs(summary?.latency_p95)} · p99 {formatMs(summary?.latency_p99)}
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Groundedness média</CardTitle>
+            <Gauge className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? <Skeleton className="h-8 w-24" /> : (
+              <>
+                <div className="text-2xl font-bold">{formatPercent(summary?.avg_groundedness)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {total} requisições · {summary?.escalated_count || 0} escaladas · {summary?.contradiction_count || 0} com contradição
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Fail-closed</CardTitle>
+            <ShieldX className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? <Skeleton className="h-8 w-24" /> : (
+              <>
+                <div className="text-2xl font-bold">{formatPercent(failClosedRate)}</div>
+                <p className="text-xs text-muted-foreground">{summary?.fail_closed_count || 0} de {total} requisições</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? <Skeleton className="h-8 w-24" /> : (
+              <>
+                <div className="text-2xl font-bold">{formatTokens((summary?.tokens_input || 0) + (summary?.tokens_output || 0))}</div>
+                <p className="text-xs text-muted-foreground">
+                  {formatTokens(summary?.tokens_input || 0)} entrada · {formatTokens(summary?.tokens_output || 0)} saída
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Tiers + fail-closed reasons */}
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">Distribuição de tiers</CardTitle>
+            <CardDescription>Requisições por dia e tier de modelo</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? <Skeleton className="h-[240px] w-full" /> : <TierTimelineChart data={stats?.tiers_by_day || []} />}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Fail-closed por motivo</CardTitle>
+            <CardDescription>diagnostics.fail_closed_reason</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {statsLoading ? <Skeleton className="h-24 w-full" /> : (stats?.fail_closed_reasons || []).length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum fail-closed no período.</p>
+            ) : stats!.fail_closed_reasons.map(r => (
+              <div key={r.reason} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{failClosedReasonLabels[r.reason] || r.reason}</span>
+                  <span className="text-muted-foreground">{r.count}</span>
+                </div>
+                <Progress value={(r.count / maxReasonCount) * 100} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Token spend */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Tokens por projeto</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Projeto</TableHead>
+                  <TableHead className="text-right">Requisições</TableHead>
+                  <TableHead className="text-right">Entrada</TableHead>
+                  <TableHead className="text-right">Saída</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(stats?.tokens_by_project || []).map(row => (
+                  <TableRow key={row.project_id || 'global'}>
+                    <TableCell>{row.project_name || <span className="text-muted-foreground">Global (sem projeto)</span>}</TableCell>
+                    <TableCell className="text-right">{row.requests}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatTokens(row.tokens_input)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatTokens(row.tokens_output)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Tokens por usuário</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Usuário</TableHead>
+                  <TableHead className="text-right">Requisições</TableHead>
+                  <TableHead className="text-right">Entrada</TableHead>
+                  <TableHead className="text-right">Saída</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(stats?.tokens_by_user || []).map(row => (
+                  <TableRow key={row.user_id}>
+                    <TableCell>{row.user_name || <span className="font-mono text-xs">{row.user_id.slice(0, 8)}</span>}</TableCell>
+                    <TableCell className="text-right">{row.requests}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatTokens(row.tokens_input)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatTokens(row.tokens_output)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Gate missing terms */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Termos ausentes no gate</CardTitle>
+          <CardDescription>Restrições da pergunta sem evidência no projeto — candidatos a aliases ou ao léxico</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {(stats?.gate_missing_terms || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum termo ausente no período.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {stats!.gate_missing_terms.map(t => (
+                <Badge key={t.term} variant="outline" className="gap-1">
+                  {t.term} <span className="text-muted-foreground">×{t.count}</span>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* User feedback on answers */}
+      <AnswerFeedbackPanel since={since} projectId={projectId} projects={projectOptions} />
+
+      {/* Logs drill-down */}
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <CardTitle className="text-base">Requisições</CardTitle>
+            <Tabs value={logView} onValueChange={v => setLogView(v as LogView)}>
+              <TabsList>
+                <TabsTrigger value="lowest">Menor groundedness</TabsTrigger>
+                <TabsTrigger value="fail_closed">Fail-closed</TabsTrigger>
+                <TabsTrigger value="recent">Recentes</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por request_id ou texto da pergunta..."
+              className="pl-9"
+              value={logSearch}
+              onChange={e => setLogSearch(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {logsLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : (logs || []).length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nenhuma requisição encontrada.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Pergunta</TableHead>
+                  <TableHead>Tier</TableHead>
+                  <TableHead className="text-right">Latência</TableHead>
+                  <TableHead className="text-right">Groundedness</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs!.map(log => {
+                  const diag = (log.diagnostics || {}) as Record<string, unknown>;
+                  return (
+                    <TableRow key={log.id} className="cursor-pointer" onClick={() => setSelectedLog(log)}>
+                      <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                        {new Date(log.created_at || '').toLocaleString('pt-BR')}
+                      </TableCell>
+                      <TableCell className="max-w-[360px]">
+                        <p className="truncate text-sm">{log.query}</p>
+                        {diag.fail_closed_triggered === true && (
+                          <Badge variant="destructive" className="text-[10px] mt-1">
+                            {failClosedReasonLabels[String(diag.fail_closed_reason)] || String(diag.fail_closed_reason)}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {log.complexity_tier && <Badge variant="secondary" className="text-[10px]">{log.complexity_tier}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right text-xs">{formatMs(log.latency_ms)}</TableCell>
+                      <TableCell className="text-right text-xs">{formatPercent(log.groundedness_score)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RagLogDetailModal
+        log={selectedLog}
+        open={!!selectedLog}
+        onOpenChange={open => { if (!open) setSelectedLog(null); }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the shared AI provider: stub determinism, gateway retries and SSE streaming.
+ * Run with: deno test supabase/functions/_shared/ai-provider.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  type AiConfig,
+  DEFAULT_MODELS,
+  createAiProvider,
+  stubEmbedding,
+  stubFromSchema,
+  stubJsonAnswer,
+} from "./ai-provider.ts";
+
+const config: AiConfig = {
+  provider: "stub",
+  baseUrl: "http://gateway.test/v1",
+  apiKey: "test",
+  models: { ...DEFAULT_MODELS },
+  timeoutMs: 1000,
+  maxRetries: 1,
+};
+
+function withFetch(handler: (url: string, init: RequestInit) => Response, run: () => Promise<void>): Promise<void> {
+  const original = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) =>
+    Promise.resolve(handler(String(input), init || {}))) as typeof fetch;
+  return run().finally(() => { globalThis.fetch = original; });
+}
+
+Deno.test("stubJsonAnswer follows the shape the prompt asks for", () => {
+  assertEquals(stubJsonAnswer("Responda SOMENTE com JSON:\n{\n  \"hypotheses\": []"), "{}");
+  assertEquals(stubJsonAnswer("Responda APENAS com um JSON array: [{\"type\":\"...\"}]"), "[]");
+  assertEquals(stubJsonAnswer("Responda APENAS com um array JSON válido, sem markdown."), "[]");
+  assertEquals(stubJsonAnswer("Responda APENAS com JSON válido, sem markdown:\n[{\n  \"title\": \"...\""), "[]");
+  assertEquals(stubJsonAnswer("Responda em português."), null);
+});
+
+Deno.test("stubFromSchema fills required keys only", () => {
+  const args = stubFromSchema({
+    type: "object",
+    properties: {
+      category: { type: "string", enum: ["cross_reference", "pattern"] },
+      confidence: { type: "number", minimum: 0.5 },
+      items: { type: "array" },
+      note: { type: "string" },
+    },
+    required: ["category", "confidence", "items"],
+  });
+  assertEquals(args, { category: "cross_reference", confidence: 0.5, items: [] });
+});
+
+Deno.test("stub provider answers tool calls and streams text deterministically", async () => {
+  const ai = createAiProvider(config);
+  const tool = await ai.chat({
+    model: ai.model("structured"),
+    messages: [{ role: "user", content: "Mapeie as colunas" }],
+    tools: [{ type: "function", function: { name: "map_columns", parameters: { type: "object", properties: { sheet_mappings: { type: "array" } }, required: ["sheet_mappings"] } } }],
+    tool_choice: { type: "function", function: { name: "map_columns" } },
+  });
+  assertEquals(tool.toolCall, { name: "map_columns", arguments: '{"sheet_mappings":[]}' });
+
+  const tokens: string[] = [];
+  const text = await ai.chat({ model: "m", messages: [{ role: "user", content: "Qual a resistência?" }] }, { onToken: t => tokens.push(t) });
+  assertEquals(text.content, "[stub:m] Qual a resistência?");
+  assertEquals(tokens.join(""), text.content);
+
+  const [a, b] = [await ai.embed("Resina A flexural"), stubEmbedding("resina a FLEXURAL")];
+  assertEquals(a, b);
+});
+
+Deno.test("gateway retries 503 and reports the final status", async () => {
+  const ai = createAiProvider({ ...config, provider: "gateway" });
+  let calls = 0;
+  await withFetch(() => {
+    calls++;
+    return calls === 1
+      ? new Response("busy", { status: 503, headers: { "retry-after": "0" } })
+      : Response.json({ choices: [{ message: { content: "ok" } }], usage: { prompt_tokens: 3, completion_tokens: 1 } });
+  }, async () => {
+    const result = await ai.chat({ model: "m", messages: [{ role: "user", content: "oi" }] });
+    assert(result.ok);
+    assertEquals(calls, 2);
+    assertEquals(result.content, "ok");
+    assertEquals(result.usage, { input: 3, output: 1 });
+  });
+
+  calls = 0;
+  await withFetch(() => {
+    calls++;
+    return new Response("no credits", { status: 402 });
+  }, async () => {
+    const result = await ai.chat({ model: "m", messages: [{ role: "user", content: "oi" }] });
+    assertEquals([result.ok, result.status, calls], [false, 402, 1]);
+  });
+});
+
+Deno.test("gateway streams SSE deltas and collects usage", async () => {
+  const ai = createAiProvider({ ...config, provider: "gateway" });
+  const sse = [
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "128,4 " } }] })}`,
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "MPa" } }] })}`,
+    `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 2 } })}`,
+    "data: [DONE]",
+    "",
+  ].join("\n\n");
+
+  let sentBody: Record<string, unknown> = {};
+  await withFetch((_url, init) => {
+    sentBody = JSON.parse(String(init.body));
+    return new Response(sse, { headers: { "Content-Type": "text/event-stream" } });
+  }, async () => {
+    const tokens: string[] = [];
+    const result = await ai.chat({ model: "m", messages: [{ role: "user", content: "oi" }] }, { onToken: t => tokens.push(t) });
+    assertEquals(sentBody.stream, true);
+    assertEquals(tokens, ["128,4 ", "MPa"]);
+    assertEquals(result.content, "128,4 MPa");
+    assertEquals(result.usage, { input: 10, output: 2 });
+  });
+});
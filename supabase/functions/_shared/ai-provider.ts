@@ -0,0 +1,398 @@
+/**
+ * LLM / embedding provider shared by the edge functions.
+ *
+ * Functions never call the AI gateway directly: they ask `getAiProvider()` for
+ * a provider, pick models by role (`ai.model('standard')`) and call `chat` /
+ * `embed`. Configured per environment:
+ *
+ * - AI_PROVIDER: "gateway" (default) or "stub". The stub is deterministic and
+ *   offline: tool calls get schema-shaped empty arguments, JSON-only prompts
+ *   get empty JSON, embeddings are hashed bag-of-words vectors.
+ * - AI_GATEWAY_URL: OpenAI-compatible base URL (default: Lovable AI Gateway).
+ * - AI_API_KEY: bearer token for the gateway (falls back to LOVABLE_API_KEY).
+ * - AI_MODEL_FAST / AI_MODEL_STANDARD / AI_MODEL_ADVANCED / AI_MODEL_STRUCTURED /
+ *   AI_MODEL_EMBEDDING: model per role, defaults in DEFAULT_MODELS.
+ * - AI_TIMEOUT_MS: per-attempt timeout (default 120000). For streamed calls it
+ *   only covers the wait for response headers.
+ * - AI_MAX_RETRIES: retries on 429 / 5xx / network errors (default 2).
+ */
+
+// ==========================================
+// MODELS
+// ==========================================
+export type ModelTier = 'fast' | 'standard' | 'advanced';
+
+// Tiers route answer synthesis by complexity; `structured` is used for
+// tool-calling / JSON extraction, `embedding` for vector search.
+export type ModelRole = ModelTier | 'structured' | 'embedding';
+
+export const DEFAULT_MODELS: Record<ModelRole, string> = {
+  fast: 'google/gemini-2.5-flash-lite',
+  standard: 'google/gemini-3-flash-preview',
+  advanced: 'google/gemini-2.5-pro',
+  structured: 'google/gemini-2.5-flash',
+  embedding: 'text-embedding-3-small',
+};
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface AiConfig {
+  provider: 'gateway' | 'stub';
+  baseUrl: string;
+  apiKey: string | null;
+  models: Record<ModelRole, string>;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: { name: string; description?: string; parameters: Record<string, unknown> };
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  tools?: ToolDefinition[];
+  tool_choice?: { type: 'function'; function: { name: string } };
+}
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  // When set the completion is streamed and every content delta is passed here
+  onToken?: (text: string) => void;
+}
+
+export interface ChatResult {
+  ok: boolean;
+  // HTTP status of the last attempt (0 when the request never got a response)
+  status: number;
+  content: string;
+  // First tool call of the answer; `arguments` is the raw JSON string
+  toolCall: { name: string; arguments: string } | null;
+  usage: { input: number; output: number };
+  error?: string;
+}
+
+export interface AiProvider {
+  name: AiConfig['provider'];
+  model: (role: ModelRole) => string;
+  chat: (request: ChatRequest, options?: ChatOptions) => Promise<ChatResult>;
+  // null when the embedding could not be generated
+  embed: (input: string) => Promise<number[] | null>;
+}
+
+// ==========================================
+// CONFIG
+// ==========================================
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function loadAiConfig(): AiConfig {
+  const models = { ...DEFAULT_MODELS };
+  for (const role of Object.keys(models) as ModelRole[]) {
+    models[role] = Deno.env.get(`AI_MODEL_${role.toUpperCase()}`) || models[role];
+  }
+  return {
+    provider: Deno.env.get('AI_PROVIDER') === 'stub' ? 'stub' : 'gateway',
+    baseUrl: (Deno.env.get('AI_GATEWAY_URL') || 'https://ai.gateway.lovable.dev/v1').replace(/\/$/, ''),
+    apiKey: Deno.env.get('AI_API_KEY') || Deno.env.get('LOVABLE_API_KEY') || null,
+    models,
+    timeoutMs: envNumber('AI_TIMEOUT_MS', 120_000),
+    maxRetries: envNumber('AI_MAX_RETRIES', 2),
+  };
+}
+
+export function createAiProvider(config: AiConfig): AiProvider {
+  return config.provider === 'stub' ? createStubProvider(config) : createGatewayProvider(config);
+}
+
+let cachedProvider: AiProvider | null = null;
+
+// Provider for this function instance, built from the environment on first use
+export function getAiProvider(): AiProvider {
+  if (cachedProvider) return cachedProvider;
+  const config = loadAiConfig();
+  if (config.provider === 'gateway' && !config.apiKey) {
+    throw new Error('AI_API_KEY (or LOVABLE_API_KEY) is not configured');
+  }
+  cachedProvider = createAiProvider(config);
+  return cachedProvider;
+}
+
+// ==========================================
+// GATEWAY (OpenAI-compatible)
+// ==========================================
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const MAX_BACKOFF_MS = 8_000;
+
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  return Math.min(500 * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// Splits a buffered SSE body into complete `data:` payloads + the unfinished tail
+export function extractSSEData(buffer: string): { payloads: string[]; rest: string } {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() ?? '';
+  const payloads: string[] = [];
+  for (const raw of lines) {
+    const line = raw.replace(/\r$/, '');
+    if (line.startsWith('data:')) payloads.push(line.slice(5).trim());
+  }
+  return { payloads, rest };
+}
+
+interface AttemptResult {
+  response: Response | null;
+  error?: string;
+  // Clears the per-attempt timeout; called once the caller is done waiting
+  done: () => void;
+}
+
+// POST with timeout + retries. The caller's signal aborts immediately and is never retried.
+async function postWithRetry(
+  config: AiConfig, path: string, body: unknown, signal?: AbortSignal, stream = false,
+): Promise<AttemptResult> {
+  let last: AttemptResult = { response: null, error: 'not attempted', done: () => {} };
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new DOMException('AI request timed out', 'TimeoutError')), config.timeoutMs);
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    try {
+      const response = await fetch(`${config.baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${config.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (stream) clearTimeout(timer);
+      if (response.ok || !RETRYABLE_STATUS.has(response.status) || attempt === config.maxRetries) {
+        return { response, done };
+      }
+      const errorText = await response.text();
+      console.warn(`AI gateway ${path} returned ${response.status} (attempt ${attempt + 1}):`, errorText.substring(0, 200));
+      done();
+      last = { response: null, error: `HTTP ${response.status}`, done: () => {} };
+      await sleep(backoffMs(attempt, response.headers.get('retry-after')), signal);
+    } catch (error) {
+      done();
+      if (signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`AI gateway ${path} failed (attempt ${attempt + 1}):`, message);
+      last = { response: null, error: message, done: () => {} };
+      if (attempt < config.maxRetries) await sleep(backoffMs(attempt, null), signal);
+    }
+  }
+  return last;
+}
+
+function usageOf(data: { usage?: { prompt_tokens?: number; completion_tokens?: number } }): ChatResult['usage'] {
+  return { input: data.usage?.prompt_tokens || 0, output: data.usage?.completion_tokens || 0 };
+}
+
+function createGatewayProvider(config: AiConfig): AiProvider {
+  return {
+    name: 'gateway',
+    model: (role) => config.models[role],
+
+    async chat(request, options = {}) {
+      const stream = !!options.onToken;
+      const body = stream ? { ...request, stream: true, stream_options: { include_usage: true } } : request;
+      const empty = { content: '', toolCall: null, usage: { input: 0, output: 0 } };
+
+      const { response, error, done } = await postWithRetry(config, '/chat/completions', body, options.signal, stream);
+      try {
+        if (!response) return { ok: false, status: 0, ...empty, error };
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('AI gateway error:', response.status, errorText.substring(0, 500));
+          return { ok: false, status: response.status, ...empty, error: errorText };
+        }
+
+        if (!stream || !response.body) {
+          const data = await response.json();
+          const message = data.choices?.[0]?.message;
+          const toolCall = message?.tool_calls?.[0]?.function;
+          return {
+            ok: true,
+            status: response.status,
+            content: message?.content || '',
+            toolCall: toolCall?.arguments ? { name: toolCall.name, arguments: toolCall.arguments } : null,
+            usage: usageOf(data),
+          };
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        const usage = { input: 0, output: 0 };
+        let buffer = '';
+        let content = '';
+        for (;;) {
+          const { done: finished, value } = await reader.read();
+          if (finished) break;
+          buffer += decoder.decode(value, { stream: true });
+          const { payloads, rest } = extractSSEData(buffer);
+          buffer = rest;
+          for (const payload of payloads) {
+            if (payload === '[DONE]') continue;
+            try {
+              const parsed = JSON.parse(payload);
+              if (parsed.usage) {
+                const chunkUsage = usageOf(parsed);
+                usage.input += chunkUsage.input;
+                usage.output += chunkUsage.output;
+              }
+              const delta = parsed.choices?.[0]?.delta?.content;
+              if (delta) {
+                content += delta;
+                options.onToken!(delta);
+              }
+            } catch {
+              // Partial/keep-alive line — ignore
+            }
+          }
+        }
+        return { ok: true, status: response.status, content, toolCall: null, usage };
+      } finally {
+        done();
+      }
+    },
+
+    async embed(input) {
+      try {
+        const { response, error, done } = await postWithRetry(config, '/embeddings', { model: config.models.embedding, input });
+        try {
+          if (!response?.ok) {
+            console.warn('Embedding generation failed:', response?.status ?? error);
+            return null;
+          }
+          const data = await response.json();
+          return data.data?.[0]?.embedding || null;
+        } finally {
+          done();
+        }
+      } catch (error) {
+        console.warn('Embedding generation error:', error);
+        return null;
+      }
+    },
+  };
+}
+
+// ==========================================
+// STUB (deterministic, offline)
+// ==========================================
+export function stubEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || [];
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  minimum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+// Smallest value that satisfies a JSON schema: required keys only, empty arrays
+export function stubFromSchema(schema: JsonSchema): unknown {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  switch (schema.type) {
+    case 'object': {
+      const properties = schema.properties || {};
+      const required = schema.required || [];
+      return Object.fromEntries(required.filter(key => properties[key]).map(key => [key, stubFromSchema(properties[key])]));
+    }
+    case 'array': return [];
+    case 'number':
+    case 'integer': return schema.minimum ?? 0;
+    case 'boolean': return false;
+    case 'string': return 'stub';
+    default: return null;
+  }
+}
+
+// Prompts that demand bare JSON get the empty value of the shape they ask for
+export function stubJsonAnswer(prompt: string): string | null {
+  const match = prompt.match(/Responda (?:APENAS|SOMENTE) com[^\n]*JSON[^\n]*(?:\n\s*([[{]))?/i);
+  if (!match) return null;
+  return /array/i.test(match[0]) || match[1] === '[' ? '[]' : '{}';
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function createStubProvider(config: AiConfig): AiProvider {
+  return {
+    name: 'stub',
+    model: (role) => config.models[role],
+
+    async chat(request, options = {}) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      const prompt = request.messages.map(m => m.content).join('\n');
+      const usage = { input: countWords(prompt), output: 0 };
+
+      const tool = request.tool_choice?.function.name
+        ? request.tools?.find(t => t.function.name === request.tool_choice!.function.name)
+        : request.tools?.[0];
+      if (tool) {
+        const args = JSON.stringify(stubFromSchema(tool.function.parameters));
+        return { ok: true, status: 200, content: '', toolCall: { name: tool.function.name, arguments: args }, usage };
+      }
+
+      const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+      const content = stubJsonAnswer(prompt) ?? `[stub:${request.model}] ${lastUser.substring(0, 200)}`;
+      if (options.onToken) {
+        for (const piece of content.match(/\S+\s*/g) || []) options.onToken(piece);
+      }
+      return { ok: true, status: 200, content, toolCall: null, usage: { ...usage, output: countWords(content) } };
+    },
+
+    async embed(input) {
+      return stubEmbedding(input);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the answer cache key: question normalization, the exact-match
+ * signature, scope keys and which questions and payloads are cached.
+ * Run with: deno test supabase/functions/_shared/answer-cache.test.ts
+ */
+
+import { assertEquals, assertNotEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  cachePayload,
+  cacheScopeKey,
+  isCacheableAnswer,
+  isCacheableQuery,
+  normalizeCacheQuery,
+  querySignature,
+} from "./answer-cache.ts";
+import type { QueryRewrite } from "./query-rewrite.ts";
+
+Deno.test("normalization ignores case, accents and punctuation", () => {
+  assertEquals(normalizeCacheQuery("Qual a RESISTÊNCIA flexural da Vitality?"), "qual a resistencia flexural da vitality");
+  assertEquals(normalizeCacheQuery("média de RF com carga ≥ 60,5%!"), "media de rf com carga ≥ 60.5%");
+});
+
+Deno.test("signature separates questions that differ in numbers, comparisons or constraints", () => {
+  const base = querySignature("média de RF por aba com carga ≥ 60%", ["filler"]);
+  assertEquals(querySignature("Média da RF, por aba, com carga ≥ 60 %", ["Filler"]), base);
+  assertNotEquals(querySignature("média de RF por aba com carga ≥ 70%", ["filler"]), base);
+  assertNotEquals(querySignature("média de RF por aba com carga ≤ 60%", ["filler"]), base);
+  assertNotEquals(querySignature("média de RF por aba com carga ≥ 60%", ["filler", "vitality"]), base);
+  assertNotEquals(querySignature("resinas sem BisGMA"), querySignature("resinas com BisGMA"));
+});
+
+Deno.test("scope key depends on mode and projects, not their order", () => {
+  assertEquals(cacheScopeKey("project", ["p1"], ["p2", "p1"]), cacheScopeKey("project", ["p1"], ["p1", "p2"]));
+  assertNotEquals(cacheScopeKey("project", ["p1"], ["p1", "p2"]), cacheScopeKey("project", ["p2"], ["p1", "p2"]));
+  assertNotEquals(cacheScopeKey("global", [], ["p1"]), cacheScopeKey("global", [], ["p1", "p3"]));
+  assertEquals(cacheScopeKey("global", ["p1"], ["p1"]), cacheScopeKey("global", [], ["p1"]));
+});
+
+Deno.test("only answers that did not fail closed are cached, without per-request fields", () => {
+  const payload = {
+    response: "A Vitality atingiu 135,2 MPa [1].", sources: [], pipeline: "3-step",
+    latency_ms: 5400, _diagnostics: { request_id: "r1", fail_closed_triggered: false },
+  };
+  assertEquals(isCacheableAnswer(payload), true);
+  assertEquals(cachePayload(payload), { response: "A Vitality atingiu 135,2 MPa [1].", sources: [], pipeline: "3-step" });
+
+  assertEquals(isCacheableAnswer({ ...payload, _diagnostics: { fail_closed_triggered: true } }), false);
+  assertEquals(isCacheableAnswer({ error: "Você não tem acesso a nenhum projeto.", response: null }), false);
+});
+
+Deno.test("follow-ups are cached only once rewritten into a standalone question", () => {
+  const rewrite = (original: string, overrides: Partial<QueryRewrite> = {}): QueryRewrite => ({
+    original, query: original, rewritten: false, method: "none", reason: "standalone",
+    latency_ms: 0, usage: { input: 0, output: 0 }, ...overrides,
+  });
+
+  assertEquals(isCacheableQuery(rewrite("Qual a resistência flexural da Vitality?")), true);
+  assertEquals(isCacheableQuery(rewrite("e a dureza dela?")), false);
+  assertEquals(isCacheableQuery(rewrite("e a dureza dela?", {
+    query: "Qual a dureza Vickers da Vitality?", rewritten: true, method: "llm", reason: "continuation",
+  })), true);
+  assertEquals(isCacheableQuery(rewrite("Qual a resistência flexural da Vitality?", { error: "timeout" })), false);
+});
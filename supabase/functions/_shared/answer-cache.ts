@@ -0,0 +1,156 @@
+/**
+ * Persistent semantic answer cache for rag-answer.
+ *
+ * A finished answer is stored with the embedding of the (rewritten) question,
+ * its project scope, the context mode and the data version of every project
+ * in scope. A later question is answered from the cache when scope, mode and
+ * data version are the same and the question is identical after
+ * normalization or close enough by embedding. Database triggers bump a
+ * project's data version whenever extraction, knowledge facts, benchmarks,
+ * claims, formulations, indexing or the global metric and constraint
+ * vocabularies change it (`project_data_versions`), so an answer built on old
+ * data is never matched again.
+ *
+ * Embeddings of near-identical questions can be close even when what matters
+ * differs: "carga ≥ 60%" vs "≤ 70%", Vitality vs Filtek, "com" vs "sem"
+ * BisGMA. Numbers, comparison and negation words and the constraint terms of
+ * the question form a signature that must match exactly.
+ *
+ * The key holds no conversation history: a follow-up is only cached once it
+ * has been rewritten into a standalone question.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { followUpReason, type QueryRewrite } from './query-rewrite.ts';
+
+export const ANSWER_CACHE_VERSION = 'answer-cache-v1';
+
+export const DEFAULT_MIN_SIMILARITY = 0.96;
+
+export interface AnswerCacheKey {
+  scope_key: string;
+  context_mode: 'project' | 'global';
+  data_version: string;
+  query_norm: string;
+  signature: string;
+}
+
+export interface CachedAnswer {
+  id: string;
+  query: string;
+  payload: Record<string, unknown>;
+  // rag_logs request that produced the answer
+  request_id: string | null;
+  similarity: number;
+  created_at: string;
+}
+
+// ==========================================
+// KEY
+// ==========================================
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function normalizeCacheQuery(query: string): string {
+  return fold(query)
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/[^\p{L}\p{N}%.≥≤<>]+/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const SIGNAL_WORDS =
+  /\b(acima|abaixo|maior|menor|melhor|pior|mais|menos|minimo|maximo|sem|nao|exceto|above|below|higher|lower|best|worst|without|not|except)\b/g;
+
+// What near-identical questions must share to reuse an answer
+export function querySignature(query: string, constraintTerms: string[] = []): string {
+  const norm = normalizeCacheQuery(query);
+  const numbers = [...new Set([...norm.matchAll(/\d+(?:\.\d+)?/g)].map(m => String(parseFloat(m[0]))))].sort();
+  const signals = [...new Set([...norm.match(/[≥≤<>]/g) || [], ...norm.match(SIGNAL_WORDS) || []])].sort();
+  const terms = [...new Set(constraintTerms.map(t => normalizeCacheQuery(t)).filter(Boolean))].sort();
+  return [numbers.join(','), signals.join(','), terms.join(',')].join('|');
+}
+
+// Primary projects shape the answer in project mode; every allowed project
+// can contribute supplementary context
+export function cacheScopeKey(contextMode: 'project' | 'global', primaryIds: string[], allowedIds: string[]): string {
+  const sorted = (ids: string[]) => [...new Set(ids)].sort().join(',');
+  return `${ANSWER_CACHE_VERSION}|${contextMode}|${contextMode === 'project' ? sorted(primaryIds) : ''}|${sorted(allowedIds)}`;
+}
+
+// Questions that mean the same outside their conversation: standalone, or a
+// follow-up the rewrite resolved
+export function isCacheableQuery(rewrite: QueryRewrite): boolean {
+  if (rewrite.error) return false;
+  return rewrite.rewritten || followUpReason(rewrite.original) === null;
+}
+
+// Answers worth reusing: a response that did not fail closed
+export function isCacheableAnswer(payload: Record<string, unknown>): boolean {
+  const diagnostics = payload._diagnostics as { fail_closed_triggered?: boolean } | undefined;
+  return typeof payload.response === 'string'
+    && payload.response.trim().length > 0
+    && !payload.error
+    && diagnostics?.fail_closed_triggered !== true;
+}
+
+// ==========================================
+// STORAGE
+// ==========================================
+export async function loadDataVersion(supabase: SupabaseClient, projectIds: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('project_data_version_key', { p_project_ids: projectIds });
+  if (error) throw new Error(`project_data_version_key: ${error.message}`);
+  return data ?? '';
+}
+
+export async function lookupCachedAnswer(
+  supabase: SupabaseClient,
+  key: AnswerCacheKey,
+  embedding: string | null,
+  minSimilarity = DEFAULT_MIN_SIMILARITY,
+): Promise<CachedAnswer | null> {
+  const { data, error } = await supabase.rpc('match_rag_answer_cache', {
+    p_scope_key: key.scope_key,
+    p_context_mode: key.context_mode,
+    p_data_version: key.data_version,
+    p_signature: key.signature,
+    p_query_norm: key.query_norm,
+    p_query_embedding: embedding,
+    p_min_similarity: minSimilarity,
+  });
+  if (error) throw new Error(`match_rag_answer_cache: ${error.message}`);
+  return data?.[0] ?? null;
+}
+
+// Per-request fields are not part of the cached answer
+export function cachePayload(payload: Record<string, unknown>): Record<string, unknown> {
+  const { _diagnostics: _, latency_ms: __, cache: ___, ...answer } = payload;
+  return answer;
+}
+
+export async function storeCachedAnswer(
+  supabase: SupabaseClient,
+  key: AnswerCacheKey,
+  query: string,
+  embedding: string | null,
+  payload: Record<string, unknown>,
+  requestId: string,
+): Promise<void> {
+  // A refreshed answer replaces the one it was asked to refresh
+  await supabase.from('rag_answer_cache').delete()
+    .eq('scope_key', key.scope_key)
+    .eq('context_mode', key.context_mode)
+    .eq('signature', key.signature)
+    .eq('query_norm', key.query_norm);
+
+  const { error } = await supabase.from('rag_answer_cache').insert({
+    ...key,
+    query,
+    query_embedding: embedding,
+    payload: cachePayload(payload),
+    request_id: requestId,
+  });
+  if (error) throw new Error(`rag_answer_cache: ${error.message}`);
+}
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for the chunking strategies: section boundaries, page ranges,
+ * tables kept whole or split by row with the header repeated.
+ * Run with: deno test supabase/functions/_shared/chunking.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { chunkDocument, classifySection } from "./chunking.ts";
+
+const PREFIX = "[Tipo: file] [Projeto: RX] [Título: ensaio.pdf]";
+
+Deno.test("classifies numbered and unnumbered section headings", () => {
+  assertEquals(classifySection("2. Materiais e Métodos"), "methods");
+  assertEquals(classifySection("RESULTADOS E DISCUSSÃO"), "results");
+  assertEquals(classifySection("Discussão dos resultados"), "discussion");
+  assertEquals(classifySection("4 Conclusões"), "conclusion");
+  assertEquals(classifySection("Ensaio de flexão"), "unknown");
+});
+
+Deno.test("structure-v1 never crosses sections and tracks pages", () => {
+  const text = [
+    "[PDF: ensaio.pdf]",
+    "",
+    "--- Página 1 ---",
+    "1. Introdução",
+    "A resina RX foi formulada para restaurações posteriores.",
+    "",
+    "2. Materiais e Métodos",
+    "Corpos de prova 25x2x2 mm foram ensaiados em flexão de 3 pontos.",
+    "",
+    "--- Página 2 ---",
+    "2.1 Ensaio de flexão",
+    "A velocidade do travessão foi de 0,5 mm/min.",
+    "3. Resultados",
+    "O lote A atingiu 135,2 MPa.",
+  ].join("\n");
+
+  const { version, chunks, sections } = chunkDocument(text, PREFIX, { source_type: "file" });
+  assertEquals(version, "structure-v1");
+  assertEquals(sections.map(s => [s.title, s.section_type, s.page_start, s.page_end]), [
+    [null, "unknown", null, null],
+    ["1. Introdução", "introduction", 1, 1],
+    ["2. Materiais e Métodos", "methods", 1, 1],
+    ["2.1 Ensaio de flexão", "methods", 2, 2],
+    ["3. Resultados", "results", 2, 2],
+  ]);
+  assertEquals(chunks.length, 5);
+  const results = chunks[4];
+  assert(results.text.startsWith(`${PREFIX} [Seção: 3. Resultados]\n\n`));
+  assertEquals(results.metadata.section_type, "results");
+  assertEquals(results.metadata.page_start, 2);
+  assertEquals(results.metadata.chunking_version, "structure-v1");
+  assertEquals(sections[4].first_chunk, 4);
+  assertEquals(sections[4].preview, "O lote A atingiu 135,2 MPa.");
+});
+
+Deno.test("spreadsheet tables stay whole or split by row with the header", () => {
+  const rows = Array.from({ length: 150 }, (_, i) => `F${i + 1},${(80 + i / 10).toFixed(1)},10.5`);
+  const small = `=== Planilha: Resumo ===\nAmostra,Média,DP\nA,85.3,4.1\nB,90.1,3.2`;
+  const large = `=== Planilha: Flexão ===\nAmostra,Resistência (MPa),Módulo (GPa)\n${rows.join("\n")}`;
+
+  const { chunks, sections } = chunkDocument(`${small}\n\n${large}`, PREFIX, {});
+  assertEquals(sections.map(s => [s.title, s.section_type]), [["Resumo", "table"], ["Flexão", "table"]]);
+
+  assertEquals(chunks[0].text.split("\n\n")[1], "Amostra,Média,DP\nA,85.3,4.1\nB,90.1,3.2");
+  assertEquals(chunks[0].metadata.table_rows, [1, 2]);
+
+  const pieces = chunks.slice(1);
+  assert(pieces.length > 1);
+  for (const piece of pieces) {
+    assert(piece.text.split("\n\n")[1].startsWith("Amostra,Resistência (MPa),Módulo (GPa)\n"));
+    assertEquals(piece.metadata.table_header, "Amostra,Resistência (MPa),Módulo (GPa)");
+  }
+  const covered = pieces.map(p => p.metadata.table_rows as number[]);
+  assertEquals(covered[0][0], 1);
+  assertEquals(covered[covered.length - 1][1], 150);
+  for (let i = 1; i < covered.length; i++) assertEquals(covered[i][0], covered[i - 1][1] + 1);
+});
+
+Deno.test("long paragraphs are packed by sentence; fixed-v1 keeps the old window", () => {
+  const sentence = "O grau de conversão aumentou com o tempo de fotoativação. ";
+  const text = sentence.repeat(40);
+
+  const structured = chunkDocument(text, PREFIX, {});
+  assert(structured.chunks.length > 1);
+  for (const c of structured.chunks) {
+    const body = c.text.split("\n\n")[1];
+    assert(body.length <= 1000);
+    assert(body.endsWith("fotoativação."));
+  }
+
+  const fixed = chunkDocument(text, PREFIX, { source_type: "report" }, "fixed-v1");
+  assertEquals(fixed.sections, []);
+  assertEquals(fixed.chunks[1].metadata, { source_type: "report", chunking_version: "fixed-v1", chunk_index: 1 });
+});
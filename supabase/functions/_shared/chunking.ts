@@ -0,0 +1,414 @@
+/**
+ * Chunking strategies for index-content, versioned so a project can be
+ * reindexed with another strategy and its retrieval quality compared.
+ *
+ * - fixed-v1: 1000-character window with 100 characters of overlap over the
+ *   whitespace-collapsed text (the original chunker).
+ * - structure-v1: splits the text into headings, paragraphs and tables (the
+ *   markers written by extract-knowledge included: "=== Planilha: X ===",
+ *   "--- Página N ---", "--- Slide N ---", "a | b | c" rows). Chunks never
+ *   cross a section; tables stay whole or are split by row with the header
+ *   repeated. Each chunk carries its section title/type and page range, and
+ *   the sections are returned for document_structure.
+ *
+ * Pure module (no I/O).
+ */
+
+// ==========================================
+// TYPES
+// ==========================================
+export type ChunkingVersion = 'fixed-v1' | 'structure-v1';
+
+export const CHUNKING_VERSIONS: ChunkingVersion[] = ['fixed-v1', 'structure-v1'];
+export const DEFAULT_CHUNKING_VERSION: ChunkingVersion = 'structure-v1';
+
+export function isChunkingVersion(value: unknown): value is ChunkingVersion {
+  return typeof value === 'string' && (CHUNKING_VERSIONS as string[]).includes(value);
+}
+
+export interface Chunk {
+  text: string;
+  index: number;
+  metadata: Record<string, unknown>;
+}
+
+// Same vocabulary as document_structure.section_type
+export type SectionType =
+  | 'abstract' | 'introduction' | 'methods' | 'results' | 'discussion'
+  | 'conclusion' | 'references' | 'table' | 'unknown';
+
+export interface DocumentSection {
+  index: number;
+  title: string | null;
+  section_type: SectionType;
+  page_start: number | null;
+  page_end: number | null;
+  first_chunk: number;
+  last_chunk: number;
+  preview: string;
+}
+
+export interface ChunkedDocument {
+  version: ChunkingVersion;
+  chunks: Chunk[];
+  // Empty for fixed-v1
+  sections: DocumentSection[];
+}
+
+const PREVIEW_LENGTH = 500;
+// A table up to this many times the chunk size is kept in a single chunk
+const TABLE_SLACK = 1.5;
+
+// ==========================================
+// FIXED WINDOW (fixed-v1)
+// ==========================================
+function chunkFixed(
+  text: string,
+  prefix: string,
+  metadata: Record<string, unknown>,
+  chunkSize = 1000,
+  overlap = 100
+): Chunk[] {
+  const chunks: Chunk[] = [];
+  const cleanText = text.replace(/\s+/g, " ").trim();
+  const base = { ...metadata, chunking_version: 'fixed-v1' };
+
+  if (cleanText.length <= chunkSize) {
+    chunks.push({
+      text: `${prefix}\n\n${cleanText}`,
+      index: 0,
+      metadata: base,
+    });
+    return chunks;
+  }
+
+  let start = 0;
+  let index = 0;
+
+  while (start < cleanText.length) {
+    const end = Math.min(start + chunkSize, cleanText.length);
+    let chunkEnd = end;
+
+    if (end < cleanText.length) {
+      const lastPeriod = cleanText.lastIndexOf(".", end);
+      const lastSpace = cleanText.lastIndexOf(" ", end);
+
+      if (lastPeriod > start + chunkSize * 0.7) {
+        chunkEnd = lastPeriod + 1;
+      } else if (lastSpace > start + chunkSize * 0.7) {
+        chunkEnd = lastSpace;
+      }
+    }
+
+    const chunkContent = cleanText.slice(start, chunkEnd).trim();
+    if (chunkContent.length > 0) {
+      chunks.push({
+        text: `${prefix}\n\n${chunkContent}`,
+        index,
+        metadata: { ...base, chunk_index: index },
+      });
+      index++;
+    }
+
+    start = chunkEnd - overlap;
+    if (start >= cleanText.length - overlap) break;
+  }
+
+  return chunks;
+}
+
+// ==========================================
+// BLOCKS
+// ==========================================
+interface Block {
+  kind: 'heading' | 'paragraph' | 'table';
+  text: string;
+  // Table rows, header first
+  rows?: string[];
+  page: number | null;
+  // Headings only: spreadsheet name markers are always table sections
+  sheet?: boolean;
+}
+
+const PAGE_MARKER = /^---\s*(?:Página|Slide)\s+(\d+)\s*---$/i;
+const SHEET_MARKER = /^===\s*Planilha:\s*(.+?)\s*===$/i;
+const MD_HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+const HEADING_NUMBER = /^(?:\d+(?:\.\d+)*\.?|[IVX]+\.)\s+/;
+
+const SECTION_PATTERNS: [SectionType, RegExp][] = [
+  ['abstract', /^(resumo|abstract)\b/],
+  ['introduction', /^(introducao|introduction)\b/],
+  ['results', /^(resultados?|results?)\b/],
+  ['discussion', /^(discussao|discussion)\b/],
+  ['conclusion', /^(conclus(ao|oes)|conclusions?|consideracoes finais)\b/],
+  ['methods', /^(metodos?|metodologia|materiais|methods?|methodology|materials|procedimentos?)\b/],
+  ['references', /^(referencias|references|bibliografia)\b/],
+];
+
+function normalize(s: string): string {
+  return s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+export function classifySection(title: string): SectionType {
+  const bare = normalize(title.replace(HEADING_NUMBER, ''));
+  for (const [type, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(bare)) return type;
+  }
+  return 'unknown';
+}
+
+function isHeadingLine(line: string): boolean {
+  if (line.length > 100 || /[.,;:]$/.test(line)) return false;
+  const bare = line.replace(HEADING_NUMBER, '');
+  // "2. Materiais e Métodos", "RESULTADOS"
+  if (bare.length <= 60 && classifySection(bare) !== 'unknown') return true;
+  // Numbered subsections: "2.1 Ensaio de flexão" (not "1. Misturar...", which is a list item)
+  if (/^\d+\.\d+(?:\.\d+)*\.?\s+\p{Lu}/u.test(line) && bare.length <= 80) return true;
+  // Short all-caps lines: "ENSAIO DE FLEXÃO"
+  const letters = bare.replace(/[^\p{L}]/gu, '');
+  return letters.length >= 4 && bare.length <= 80 && bare === bare.toUpperCase() && /\p{Lu}/u.test(bare);
+}
+
+function tableRow(line: string): string | null {
+  if (/^\|.*\|$/.test(line)) {
+    // The |---|:---:| separator carries no data
+    return /^\|[\s:|-]+\|$/.test(line) ? '' : line;
+  }
+  if (line.includes('\t')) return line.split('\t').map(c => c.trim()).join(' | ');
+  if (line.split(' | ').length >= 2) return line;
+  return null;
+}
+
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let page: number | null = null;
+  let paragraph: string[] = [];
+  let table: string[] = [];
+  let inSheet = false;
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', text: paragraph.join(' '), page });
+    paragraph = [];
+  };
+  const endTable = () => {
+    if (table.length > 0) blocks.push({ kind: 'table', text: table.join('\n'), rows: table, page });
+    table = [];
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) {
+      endParagraph();
+      endTable();
+      inSheet = false;
+      continue;
+    }
+
+    const pageMatch = line.match(PAGE_MARKER);
+    if (pageMatch) {
+      endParagraph();
+      endTable();
+      inSheet = false;
+      page = parseInt(pageMatch[1], 10);
+      continue;
+    }
+
+    const sheetMatch = line.match(SHEET_MARKER);
+    if (sheetMatch) {
+      endParagraph();
+      endTable();
+      blocks.push({ kind: 'heading', text: sheetMatch[1], page, sheet: true });
+      inSheet = true;
+      continue;
+    }
+
+    // Spreadsheet CSV rows run until the next blank line
+    const row = inSheet ? line : tableRow(line);
+    if (row !== null) {
+      endParagraph();
+      if (row) table.push(row.replace(/[ \t]+/g, ' '));
+      continue;
+    }
+    endTable();
+
+    const mdHeading = line.match(MD_HEADING);
+    if (mdHeading || isHeadingLine(line)) {
+      endParagraph();
+      blocks.push({ kind: 'heading', text: (mdHeading ? mdHeading[1] : line).replace(/\s+/g, ' '), page });
+      continue;
+    }
+
+    paragraph.push(line.replace(/\s+/g, ' '));
+  }
+  endParagraph();
+  endTable();
+  return blocks;
+}
+
+// Sentence-packed pieces of at most `size` characters (hard split at spaces as a last resort)
+function splitLongText(text: string, size: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+  for (const raw of sentences) {
+    let sentence = raw.trim();
+    while (sentence.length > size) {
+      const cut = sentence.lastIndexOf(' ', size);
+      const at = cut > size * 0.5 ? cut : size;
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      pieces.push(sentence.slice(0, at).trim());
+      sentence = sentence.slice(at).trim();
+    }
+    if (!sentence) continue;
+    if (current && current.length + 1 + sentence.length > size) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// ==========================================
+// STRUCTURE-AWARE (structure-v1)
+// ==========================================
+function chunkStructured(
+  text: string,
+  prefix: string,
+  metadata: Record<string, unknown>,
+  chunkSize = 1000
+): { chunks: Chunk[]; sections: DocumentSection[] } {
+  const chunks: Chunk[] = [];
+  const sections: DocumentSection[] = [];
+
+  let section: DocumentSection = {
+    index: 0, title: null, section_type: 'unknown', page_start: null, page_end: null,
+    first_chunk: 0, last_chunk: -1, preview: '',
+  };
+  let buffer: string[] = [];
+  let bufferKinds = new Set<string>();
+  let bufferPages: (number | null)[] = [];
+
+  const emit = (content: string, kinds: string[], pages: (number | null)[], extra: Record<string, unknown> = {}) => {
+    const known = pages.filter((p): p is number => p !== null);
+    const index = chunks.length;
+    const heading = section.title ? ` [Seção: ${section.title}]` : '';
+    chunks.push({
+      text: `${prefix}${heading}\n\n${content}`,
+      index,
+      metadata: {
+        ...metadata,
+        chunk_index: index,
+        chunking_version: 'structure-v1',
+        section_title: section.title,
+        section_type: section.section_type,
+        page_start: known.length > 0 ? Math.min(...known) : null,
+        page_end: known.length > 0 ? Math.max(...known) : null,
+        block_types: kinds,
+        ...extra,
+      },
+    });
+    if (section.last_chunk < section.first_chunk) section.first_chunk = index;
+    section.last_chunk = index;
+  };
+
+  const flush = () => {
+    if (buffer.length === 0) return;
+    emit(buffer.join('\n\n'), [...bufferKinds], bufferPages);
+    buffer = [];
+    bufferKinds = new Set();
+    bufferPages = [];
+  };
+
+  const closeSection = () => {
+    flush();
+    if (section.last_chunk >= section.first_chunk) sections.push(section);
+  };
+
+  const track = (block: Block) => {
+    if (block.page !== null) {
+      section.page_start ??= block.page;
+      section.page_end = block.page;
+    }
+    if (section.preview.length < PREVIEW_LENGTH) {
+      section.preview = `${section.preview}${section.preview ? ' ' : ''}${block.text}`.slice(0, PREVIEW_LENGTH);
+    }
+  };
+
+  const add = (content: string, kind: string, page: number | null) => {
+    const size = buffer.reduce((n, b) => n + b.length + 2, 0);
+    if (buffer.length > 0 && size + content.length > chunkSize) flush();
+    buffer.push(content);
+    bufferKinds.add(kind);
+    bufferPages.push(page);
+  };
+
+  for (const block of parseBlocks(text)) {
+    if (block.kind === 'heading') {
+      closeSection();
+      const own = block.sheet ? 'table' : classifySection(block.text);
+      // Unnamed subsections ("2.1 Ensaio de flexão") stay in their parent's section type
+      const inherited = section.section_type === 'table' ? 'unknown' : section.section_type;
+      section = {
+        index: sections.length, title: block.text, section_type: own === 'unknown' ? inherited : own,
+        page_start: block.page, page_end: block.page, first_chunk: chunks.length, last_chunk: chunks.length - 1,
+        preview: '',
+      };
+      continue;
+    }
+
+    track(block);
+
+    if (block.kind === 'table') {
+      flush();
+      const rows = block.rows || [];
+      if (block.text.length <= chunkSize * TABLE_SLACK || rows.length < 2) {
+        emit(block.text, ['table'], [block.page], rows.length > 1 ? { table_rows: [1, rows.length - 1] } : {});
+        continue;
+      }
+      // Split by row, repeating the header in every piece
+      const [header, ...body] = rows;
+      let piece: string[] = [];
+      let first = 1;
+      for (const [i, row] of body.entries()) {
+        const size = header.length + piece.reduce((n, r) => n + r.length + 1, 0);
+        if (piece.length > 0 && size + row.length > chunkSize) {
+          emit([header, ...piece].join('\n'), ['table'], [block.page], { table_header: header, table_rows: [first, i] });
+          piece = [];
+          first = i + 1;
+        }
+        piece.push(row);
+      }
+      if (piece.length > 0) {
+        emit([header, ...piece].join('\n'), ['table'], [block.page], { table_header: header, table_rows: [first, body.length] });
+      }
+      continue;
+    }
+
+    const pieces = block.text.length > chunkSize ? splitLongText(block.text, chunkSize) : [block.text];
+    for (const piece of pieces) add(piece, 'paragraph', block.page);
+  }
+  closeSection();
+
+  return { chunks, sections };
+}
+
+// ==========================================
+// ENTRY POINT
+// ==========================================
+export function chunkDocument(
+  text: string,
+  prefix: string,
+  metadata: Record<string, unknown>,
+  version: ChunkingVersion = DEFAULT_CHUNKING_VERSION
+): ChunkedDocument {
+  if (version === 'fixed-v1') {
+    return { version, chunks: chunkFixed(text, prefix, metadata), sections: [] };
+  }
+  return { version, ...chunkStructured(text, prefix, metadata) };
+}
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the PPTX, ODT, HTML and Markdown parsers.
+ * Run with: deno test supabase/functions/_shared/document-parsers.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseHtml, parseMarkdown, parseOdtContent, parsePptxSlide, pptxSlidePaths } from "./document-parsers.ts";
+
+Deno.test("PPTX slides: text frames plus embedded tables", () => {
+  const slide = `<p:sld><p:cSld><p:spTree>
+    <p:sp><p:txBody><a:p><a:r><a:t>Resistência &amp; módulo</a:t></a:r></a:p><a:p><a:r><a:t>Lote </a:t></a:r><a:r><a:t>B12</a:t></a:r></a:p></p:txBody></p:sp>
+    <p:graphicFrame><a:graphic><a:graphicData><a:tbl>
+      <a:tr h="1"><a:tc><a:txBody><a:p><a:r><a:t>Grupo</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>RF (MPa)</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+      <a:tr h="1"><a:tc><a:txBody><a:p><a:r><a:t>G1</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>85,3</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+    </a:tbl></a:graphicData></a:graphic></p:graphicFrame>
+  </p:spTree></p:cSld></p:sld>`;
+  const parsed = parsePptxSlide(slide);
+  assertEquals(parsed.tables, [[["Grupo", "RF (MPa)"], ["G1", "85,3"]]]);
+  assertEquals(parsed.text, "Resistência & módulo\nLote B12\nGrupo | RF (MPa)\nG1 | 85,3");
+  assertEquals(
+    pptxSlidePaths(["ppt/slides/slide10.xml", "ppt/slides/_rels/slide1.xml.rels", "ppt/slides/slide2.xml", "docProps/app.xml"]),
+    ["ppt/slides/slide2.xml", "ppt/slides/slide10.xml"],
+  );
+});
+
+Deno.test("ODT: paragraphs and tables in order, repeated and empty cells", () => {
+  const content = `<office:text>
+    <text:h text:outline-level="1">Ensaio de flexão</text:h>
+    <text:p text:style-name="P1">Corpos<text:s/>de prova: <text:span>10</text:span></text:p>
+    <table:table table:name="T1">
+      <table:table-row><table:table-cell><text:p>Grupo</text:p></table:table-cell><table:table-cell/><table:table-cell><text:p>RF</text:p></table:table-cell></table:table-row>
+      <table:table-row><table:table-cell><text:p>G1</text:p></table:table-cell><table:table-cell table:number-columns-repeated="2"><text:p>7</text:p></table:table-cell><table:table-cell table:number-columns-repeated="1000"/></table:table-row>
+    </table:table>
+    <text:p>Conclusão</text:p>
+  </office:text>`;
+  const parsed = parseOdtContent(content);
+  assertEquals(parsed.tables, [[["Grupo", "", "RF"], ["G1", "7", "7"]]]);
+  assertEquals(parsed.text, "Ensaio de flexão\nCorpos de prova: 10\nGrupo |  | RF\nG1 | 7 | 7\nConclusão");
+});
+
+Deno.test("HTML: visible text per block and tables kept as rows", () => {
+  const html = `<html><head><title>Relatório</title><style>p{color:red}</style></head><body>
+    <h1>Resultados</h1><p>Média &gt; meta<br>ver abaixo</p><script>var x = "<p>não</p>";</script>
+    <table><tr><th>Grupo</th><th>RF &lt;MPa&gt;</th></tr><tr><td>G1</td><td>85,3</td></tr></table>
+    <!-- rascunho --><ul><li>Item A</li></ul></body></html>`;
+  const parsed = parseHtml(html);
+  assertEquals(parsed.tables, [[["Grupo", "RF <MPa>"], ["G1", "85,3"]]]);
+  assertEquals(parsed.text, "Relatório\nResultados\nMédia > meta\nver abaixo\nGrupo | RF <MPa>\nG1 | 85,3\nItem A");
+});
+
+Deno.test("Markdown: front matter and link targets dropped, pipe tables read", () => {
+  const md = `---\ntitle: x\n---\n# Ensaio\nVer [planilha](http://x/y.xlsx) e ![gráfico](g.png).\n\n| Grupo | RF |\n|---|:---:|\n| G1 | 85,3 |\n\nFim`;
+  const parsed = parseMarkdown(md);
+  assertEquals(parsed.tables, [[["Grupo", "RF"], ["G1", "85,3"]]]);
+  assertEquals(parsed.text.split("\n").slice(0, 2), ["# Ensaio", "Ver planilha e gráfico."]);
+});
@@ -0,0 +1,156 @@
+/**
+ * Text and table extraction for PowerPoint (PPTX), OpenDocument text (ODT),
+ * HTML and Markdown uploads. Office files are zip packages whose XML is read
+ * with regular expressions (the edge runtime has no DOM); tables are kept as
+ * cell grids and rendered as "a | b | c" rows in the text sent to the LLM.
+ *
+ * Pure module (no I/O) used by extract-knowledge, which does the unzipping.
+ */
+
+export interface ParsedDocument {
+  text: string;
+  // One grid (rows × cells) per table, in document order
+  tables: string[][][];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(xml: string): string {
+  return decodeEntities(xml.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// Inner XML of every <tag>…</tag> (tables nested in tables are not supported)
+function blocks(xml: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return [...xml.matchAll(re)].map(m => m[1]);
+}
+
+export function renderTable(grid: string[][]): string {
+  return grid.map(row => row.join(' | ')).join('\n');
+}
+
+// ==========================================
+// PPTX
+// ==========================================
+function drawingParagraphs(xml: string): string[] {
+  return blocks(xml, 'a:p').map(p => decodeEntities(blocks(p, 'a:t').join('')).trim()).filter(Boolean);
+}
+
+/** One slide (ppt/slides/slideN.xml): text frames, then embedded tables. */
+export function parsePptxSlide(xml: string): ParsedDocument {
+  const tables = blocks(xml, 'a:tbl').map(tbl =>
+    blocks(tbl, 'a:tr').map(tr => blocks(tr, 'a:tc').map(tc => drawingParagraphs(tc).join(' '))));
+  const lines = drawingParagraphs(xml.replace(/<a:tbl[\s>][\s\S]*?<\/a:tbl>/g, ''));
+  return { text: [...lines, ...tables.map(renderTable)].join('\n'), tables };
+}
+
+/** Slide XML paths of a package, in slide order. */
+export function pptxSlidePaths(paths: string[]): string[] {
+  const slideNumber = (p: string) => parseInt(p.match(/slide(\d+)\.xml$/)?.[1] ?? '0', 10);
+  return paths.filter(p => /^ppt\/slides\/slide\d+\.xml$/.test(p)).sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+// ==========================================
+// ODT
+// ==========================================
+// Empty cells are often self-closing; "number-columns-repeated" expands runs
+function odfRowCells(row: string): string[] {
+  const cells: string[] = [];
+  const re = /<table:(?:covered-)?table-cell(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/table:(?:covered-)?table-cell>)/g;
+  for (const m of row.matchAll(re)) {
+    const repeat = parseInt(m[1]?.match(/table:number-columns-repeated="(\d+)"/)?.[1] ?? '1', 10);
+    const text = odfText(m[2] ?? '');
+    for (let i = 0; i < Math.min(repeat, text ? repeat : 20); i++) cells.push(text);
+  }
+  while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+  return cells;
+}
+
+function odfText(xml: string): string {
+  return stripTags(xml.replace(/<text:(?:s|tab|line-break)(?:\s[^>]*)?\/>/g, ' '));
+}
+
+/** content.xml of an ODT: headings, paragraphs and tables in document order. */
+export function parseOdtContent(xml: string): ParsedDocument {
+  const tables: string[][][] = [];
+  const parts: string[] = [];
+  const re = /<table:table[\s>][\s\S]*?<\/table:table>|<text:(p|h)(?:\s[^>]*)?>([\s\S]*?)<\/text:\1>/g;
+  for (const m of xml.matchAll(re)) {
+    if (m[1]) {
+      const text = odfText(m[2]);
+      if (text) parts.push(text);
+      continue;
+    }
+    const grid = blocks(m[0], 'table:table-row').map(odfRowCells).filter(r => r.some(Boolean));
+    if (grid.length === 0) continue;
+    tables.push(grid);
+    parts.push(renderTable(grid));
+  }
+  return { text: parts.join('\n'), tables };
+}
+
+// ==========================================
+// HTML / MARKDOWN
+// ==========================================
+/** Visible text of an HTML page, one line per block element; tables as rows. */
+export function parseHtml(html: string): ParsedDocument {
+  const tables: string[][][] = [];
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg)[\s>][\s\S]*?<\/\1>/gi, '');
+  // Tables become placeholders so their cells are not re-parsed as markup
+  body = body.replace(/<table[\s>][\s\S]*?<\/table>/gi, table => {
+    const grid = [...table.matchAll(/<tr[\s>][\s\S]*?<\/tr>/gi)]
+      .map(tr => [...tr[0].matchAll(/<t([dh])(?:\s[^>]*)?>([\s\S]*?)<\/t\1>/gi)].map(c => stripTags(c[2])))
+      .filter(r => r.some(Boolean));
+    tables.push(grid);
+    return `\n\uE000${tables.length - 1}\uE000\n`;
+  });
+  const text = decodeEntities(
+    body
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|section|article|header|footer|blockquote|pre|title|dt|dd)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .replace(/\uE000(\d+)\uE000/g, (_, i: string) => renderTable(tables[Number(i)]));
+  return { text, tables: tables.filter(t => t.length > 0) };
+}
+
+/** Markdown is already readable: front matter, comments and link targets are dropped. */
+export function parseMarkdown(md: string): ParsedDocument {
+  const text = md
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const tables: string[][][] = [];
+  let current: string[][] = [];
+  for (const line of text.split('\n')) {
+    const row = line.trim();
+    if (row.startsWith('|') && row.endsWith('|') && row.length > 1) {
+      // The |---|:---:| separator carries no data
+      if (!/^\|[\s:|-]+\|$/.test(row)) current.push(row.slice(1, -1).split('|').map(c => c.trim()));
+    } else if (current.length > 0) {
+      tables.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) tables.push(current);
+  return { text, tables };
+}
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the re-extraction diff: measurement identities, changed
+ * values, added/removed items and the unchanged pairs used for carry-over.
+ * Run with: deno test supabase/functions/_shared/extraction-diff.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type SnapshotMeasurement, diffExtractions } from "./extraction-diff.ts";
+
+function row(id: string, metric: string, value: number, sample: string, extra: Partial<SnapshotMeasurement> = {}): SnapshotMeasurement {
+  return {
+    id, metric, value, unit: "MPa",
+    sheet_name: "Flexão", row_idx: null, header_raw: metric,
+    source_excerpt: `Sheet: Flexão, Row: 2, Col: ${metric}, Value: ${value}, Sample: ${sample}`,
+    ...extra,
+  };
+}
+
+Deno.test("matches spreadsheet measurements by sheet, column and sample", () => {
+  const previous = {
+    experiments: [{ id: "e1", title: "Dados: Flexão", measurements: [
+      row("m1", "flexural_strength", 85.3, "F1"),
+      row("m2", "flexural_strength", 90.1, "F2"),
+      row("m3", "flexural_strength", 70, "F3"),
+    ] }],
+    claims: [],
+  };
+  // v3: F2 re-tested, F3 dropped, F4 added, rows reordered
+  const next = {
+    experiments: [{ id: "e2", title: "Dados: Flexão", measurements: [
+      row("n4", "flexural_strength", 99, "F4"),
+      row("n2", "flexural_strength", 92.4, "F2"),
+      row("n1", "flexural_strength", 85.3, "F1"),
+    ] }],
+    claims: [],
+  };
+
+  const { diff, unchanged } = diffExtractions(previous, next);
+  assertEquals(unchanged.measurements, [["m1", "n1"]]);
+  assertEquals(diff.measurements.changed.map(c => [c.location, c.old_value, c.new_value]), [
+    ["Flexão · flexural_strength · Sample: F2", 90.1, 92.4],
+  ]);
+  assertEquals(diff.measurements.added.map(m => m.value), [99]);
+  assertEquals(diff.measurements.removed.map(m => m.value), [70]);
+  assertEquals(diff.measurements.counts, { added: 1, removed: 1, changed: 1, unchanged: 1 });
+  assertEquals(diff.experiments, { added: [], removed: [] });
+});
+
+Deno.test("text measurements are identified by experiment title and order", () => {
+  const text = (id: string, value: number, unit = "MPa"): SnapshotMeasurement =>
+    ({ id, metric: "hardness", value, unit, sheet_name: null, row_idx: null, header_raw: null, source_excerpt: "..." });
+  const previous = { experiments: [{ id: "e1", title: "Dureza Vickers", measurements: [text("a", 50), text("b", 60)] }], claims: [] };
+  const next = {
+    experiments: [
+      { id: "e2", title: "dureza vickers", measurements: [text("c", 50), text("d", 0.6, "GPa")] },
+      { id: "e3", title: "Sorção", measurements: [] },
+    ],
+    claims: [],
+  };
+
+  const { diff, unchanged } = diffExtractions(previous, next);
+  assertEquals(unchanged.measurements, [["a", "c"]]);
+  assertEquals(diff.measurements.changed.map(c => [c.old_unit, c.new_unit]), [["MPa", "GPa"]]);
+  assertEquals(diff.experiments, { added: ["Sorção"], removed: [] });
+});
+
+Deno.test("claims are matched by type and excerpt", () => {
+  const claim = (id: string, excerpt: string) => ({ id, claim_type: "superlative", excerpt, metric_key: null });
+  const { diff, unchanged } = diffExtractions(
+    { experiments: [], claims: [claim("c1", "F3 superou o controle."), claim("c2", "Maior dureza até agora")] },
+    { experiments: [], claims: [claim("c3", "F3 superou o controle"), claim("c4", "Recorde de resistência")] },
+  );
+  assertEquals(unchanged.claims, [["c1", "c3"]]);
+  assertEquals(diff.claims.added.map(c => c.excerpt), ["Recorde de resistência"]);
+  assertEquals(diff.claims.removed.map(c => c.excerpt), ["Maior dureza até agora"]);
+});
@@ -0,0 +1,216 @@
+/**
+ * Structured diff between two extractions of the same file (e.g. v2 and v3 of
+ * a lab spreadsheet): experiments, measurements and claims that were added or
+ * removed, and measurements whose value or unit changed (old → new).
+ *
+ * A measurement is identified by its metric and where it came from: sheet,
+ * column and sample (or row) for tables, the experiment title otherwise.
+ * Repeated identities are numbered in document order.
+ *
+ * Pure module (no I/O) used by extract-knowledge, which stores the result in
+ * extraction_jobs.diff and carries human review over the unchanged pairs.
+ */
+
+import { claimFingerprint, normalizeText } from './review-exclusions.ts';
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface SnapshotMeasurement {
+  id: string;
+  metric: string;
+  value: number;
+  unit: string | null;
+  sheet_name: string | null;
+  row_idx: number | null;
+  header_raw: string | null;
+  source_excerpt: string | null;
+}
+
+export interface SnapshotExperiment {
+  id: string;
+  title: string;
+  measurements: SnapshotMeasurement[];
+}
+
+export interface SnapshotClaim {
+  id: string;
+  claim_type: string;
+  excerpt: string;
+  metric_key: string | null;
+}
+
+export interface ExtractionSnapshot {
+  experiments: SnapshotExperiment[];
+  claims: SnapshotClaim[];
+}
+
+export interface MeasurementEntry {
+  experiment: string;
+  metric: string;
+  // "Planilha1 · Sample: F3" / "Planilha1 · linha 12"
+  location: string | null;
+  value: number;
+  unit: string | null;
+}
+
+export interface MeasurementChange {
+  experiment: string;
+  metric: string;
+  location: string | null;
+  old_value: number;
+  new_value: number;
+  old_unit: string | null;
+  new_unit: string | null;
+}
+
+export interface ClaimEntry {
+  claim_type: string;
+  metric_key: string | null;
+  excerpt: string;
+}
+
+// Stored in extraction_jobs.diff; lists are capped, counts are not
+export interface ExtractionDiff {
+  experiments: { added: string[]; removed: string[] };
+  measurements: {
+    added: MeasurementEntry[];
+    removed: MeasurementEntry[];
+    changed: MeasurementChange[];
+    counts: { added: number; removed: number; changed: number; unchanged: number };
+  };
+  claims: {
+    added: ClaimEntry[];
+    removed: ClaimEntry[];
+    counts: { added: number; removed: number; unchanged: number };
+  };
+  // Human reviews copied onto unchanged items (set by the caller)
+  carried_over: number;
+}
+
+export interface DiffResult {
+  diff: ExtractionDiff;
+  // [previous id, new id] of items present and unchanged in both extractions
+  unchanged: { measurements: [string, string][]; claims: [string, string][] };
+}
+
+export const MAX_DIFF_ENTRIES = 200;
+
+// ==========================================
+// IDENTITIES
+// ==========================================
+function measurementLocation(m: SnapshotMeasurement): string | null {
+  if (!m.sheet_name) return null;
+  const sample = m.source_excerpt?.match(/Sample:\s*([^,]+)/)?.[1].trim();
+  const row = sample ? `Sample: ${sample}` : m.row_idx !== null ? `linha ${m.row_idx}` : null;
+  return [m.sheet_name, m.header_raw, row].filter(Boolean).join(' · ');
+}
+
+interface Identified {
+  key: string;
+  experiment: string;
+  location: string | null;
+  m: SnapshotMeasurement;
+}
+
+function identify(experiments: SnapshotExperiment[]): Map<string, Identified> {
+  const out = new Map<string, Identified>();
+  for (const exp of experiments) {
+    for (const m of exp.measurements) {
+      const location = measurementLocation(m);
+      const base = `${m.metric}|${location ? normalizeText(location) : normalizeText(exp.title)}`;
+      let key = base;
+      for (let n = 2; out.has(key); n++) key = `${base}#${n}`;
+      out.set(key, { key, experiment: exp.title, location, m });
+    }
+  }
+  return out;
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+function entry(i: Identified): MeasurementEntry {
+  return { experiment: i.experiment, metric: i.m.metric, location: i.location, value: i.m.value, unit: i.m.unit };
+}
+
+function claimEntry(c: SnapshotClaim): ClaimEntry {
+  return { claim_type: c.claim_type, metric_key: c.metric_key, excerpt: c.excerpt.slice(0, 300) };
+}
+
+// ==========================================
+// DIFF
+// ==========================================
+export function diffExtractions(previous: ExtractionSnapshot, next: ExtractionSnapshot): DiffResult {
+  const titles = (s: ExtractionSnapshot) => new Map(s.experiments.map(e => [normalizeText(e.title), e.title]));
+  const prevTitles = titles(previous);
+  const nextTitles = titles(next);
+
+  const prev = identify(previous.experiments);
+  const curr = identify(next.experiments);
+  const added: MeasurementEntry[] = [];
+  const removed: MeasurementEntry[] = [];
+  const changed: MeasurementChange[] = [];
+  const unchangedMeasurements: [string, string][] = [];
+
+  for (const [key, n] of curr) {
+    const p = prev.get(key);
+    if (!p) {
+      added.push(entry(n));
+    } else if (!sameValue(p.m.value, n.m.value) || (p.m.unit || '') !== (n.m.unit || '')) {
+      changed.push({
+        experiment: n.experiment,
+        metric: n.m.metric,
+        location: n.location,
+        old_value: p.m.value,
+        new_value: n.m.value,
+        old_unit: p.m.unit,
+        new_unit: n.m.unit,
+      });
+    } else {
+      unchangedMeasurements.push([p.m.id, n.m.id]);
+    }
+  }
+  for (const [key, p] of prev) {
+    if (!curr.has(key)) removed.push(entry(p));
+  }
+
+  const claimKey = (c: SnapshotClaim) => claimFingerprint(c.claim_type, c.excerpt);
+  const prevClaims = new Map(previous.claims.map(c => [claimKey(c), c]));
+  const nextClaims = new Map(next.claims.map(c => [claimKey(c), c]));
+  const unchangedClaims: [string, string][] = [];
+  for (const [key, c] of nextClaims) {
+    const p = prevClaims.get(key);
+    if (p) unchangedClaims.push([p.id, c.id]);
+  }
+  const claimsAdded = [...nextClaims].filter(([k]) => !prevClaims.has(k)).map(([, c]) => claimEntry(c));
+  const claimsRemoved = [...prevClaims].filter(([k]) => !nextClaims.has(k)).map(([, c]) => claimEntry(c));
+
+  return {
+    diff: {
+      experiments: {
+        added: [...nextTitles].filter(([k]) => !prevTitles.has(k)).map(([, t]) => t),
+        removed: [...prevTitles].filter(([k]) => !nextTitles.has(k)).map(([, t]) => t),
+      },
+      measurements: {
+        added: added.slice(0, MAX_DIFF_ENTRIES),
+        removed: removed.slice(0, MAX_DIFF_ENTRIES),
+        changed: changed.slice(0, MAX_DIFF_ENTRIES),
+        counts: {
+          added: added.length,
+          removed: removed.length,
+          changed: changed.length,
+          unchanged: unchangedMeasurements.length,
+        },
+      },
+      claims: {
+        added: claimsAdded.slice(0, MAX_DIFF_ENTRIES),
+        removed: claimsRemoved.slice(0, MAX_DIFF_ENTRIES),
+        counts: { added: claimsAdded.length, removed: claimsRemoved.length, unchanged: unchangedClaims.length },
+      },
+      carried_over: 0,
+    },
+    unchanged: { measurements: unchangedMeasurements, claims: unchangedClaims },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the formulation helpers: composition summaries, label
+ * resolution and composition filters parsed from questions.
+ * Run with: deno test supabase/functions/_shared/formulations.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  type FormulationComponent,
+  type FormulationRef,
+  matchesFormulationFilter,
+  parseFormulationQuery,
+  resolveFormulation,
+  summarizeComposition,
+} from "./formulations.ts";
+
+const udma60: FormulationComponent[] = [
+  { role: 'resin', name: 'Bis-GMA', amount: 50, amount_unit: 'wt%' },
+  { role: 'resin', name: 'UDMA', amount: 30, amount_unit: 'wt%' },
+  { role: 'resin', name: 'TEGDMA', amount: 20, amount_unit: 'wt%' },
+  { role: 'filler', name: 'Vidro de bário', amount: 55, amount_unit: 'wt%' },
+  { role: 'filler', name: 'Sílica coloidal', amount: 10, amount_unit: 'wt%' },
+  { role: 'photoinitiator', name: 'Canforquinona', amount: 0.5, amount_unit: 'wt%' },
+];
+
+Deno.test("summary totals fillers and canonicalizes component names", () => {
+  const s = summarizeComposition(udma60);
+  assertEquals(s.filler_wt, 65);
+  assertEquals(s.filler_vol, null);
+  assertEquals(s.resin_ratio, 'BisGMA/UDMA/TEGDMA 50/30/20');
+  for (const c of ['BisGMA', 'UDMA', 'TEGDMA', 'barium glass', 'silica', 'CQ']) assert(s.components.includes(c), c);
+});
+
+Deno.test("parses filler bounds and components from a question", () => {
+  const f = parseFormulationQuery('Quais formulações têm >60 wt% de carga e UDMA?');
+  assert(f);
+  assertEquals(f.basis, 'wt%');
+  assertEquals(f.filler_min, 60);
+  assertEquals(f.inclusive_min, false);
+  assertEquals(f.filler_max, null);
+  assertEquals(f.components, ['UDMA']);
+  assert(matchesFormulationFilter(summarizeComposition(udma60), f));
+  assert(!matchesFormulationFilter(summarizeComposition(udma60.filter(c => c.name !== 'UDMA')), f));
+
+  const g = parseFormulationQuery('formulations with filler at least 65 vol% and Bis GMA');
+  assert(g);
+  assertEquals(g.basis, 'vol%');
+  assertEquals(g.inclusive_min, true);
+  assertEquals(g.components, ['BisGMA']);
+  // No vol% data for this composition
+  assert(!matchesFormulationFilter(summarizeComposition(udma60), g));
+
+  assertEquals(parseFormulationQuery('Qual a resistência flexural média?'), null);
+  // A component alone is not a formulation query without the intent
+  assertEquals(parseFormulationQuery('resistência da resina com UDMA'), null);
+});
+
+Deno.test("resolves labels to the latest version, refusing ambiguity", () => {
+  const refs: FormulationRef[] = [
+    { id: 'f12v1', code: 'F12', name: 'Resina UDMA 60', version: 1, aliases: [] },
+    { id: 'f12v2', code: 'F12', name: 'Resina UDMA 60', version: 2, aliases: ['Grupo A'] },
+    { id: 'f13', code: 'F13', name: 'Resina BisGMA 70', version: 1, aliases: [] },
+  ];
+  assertEquals(resolveFormulation(['f-12'], refs), 'f12v2');
+  assertEquals(resolveFormulation(['CP 3', 'grupo a'], refs), 'f12v2');
+  assertEquals(resolveFormulation(['F13 - lote 3'], refs), 'f13');
+  assertEquals(resolveFormulation(['F12 vs F13'], refs), null);
+  assertEquals(resolveFormulation(['amostra 7'], refs), null);
+});
@@ -0,0 +1,233 @@
+/**
+ * Formulation registry helpers: component name canonicalization, composition
+ * summaries, resolution of spreadsheet labels to registered formulations and
+ * parsing of composition filters out of natural-language questions
+ * ("quais formulações têm >60 wt% de carga e UDMA?").
+ *
+ * Pure module (no I/O) shared by extract-knowledge and rag-answer.
+ */
+
+export type ComponentRole = 'resin' | 'filler' | 'photoinitiator' | 'additive' | 'other';
+export type AmountUnit = 'wt%' | 'vol%' | 'mol%' | 'phr' | 'ratio';
+
+export interface FormulationComponent {
+  role: ComponentRole;
+  name: string;
+  amount: number | null;
+  amount_unit: AmountUnit | null;
+}
+
+export interface FormulationRef {
+  id: string;
+  code: string;
+  name: string;
+  version: number;
+  aliases: string[];
+}
+
+export interface FormulationRecord extends FormulationRef {
+  components: FormulationComponent[];
+}
+
+export interface CompositionSummary {
+  filler_wt: number | null;
+  filler_vol: number | null;
+  // Canonical names of every component (see canonicalComponent)
+  components: string[];
+  // e.g. "BisGMA/UDMA/TEGDMA 50/30/20"
+  resin_ratio: string | null;
+}
+
+export interface FormulationFilter {
+  basis: 'wt%' | 'vol%';
+  filler_min: number | null;
+  filler_max: number | null;
+  // "pelo menos 60" / "no máximo 40" include the bound; ">" / "mais de" do not
+  inclusive_min: boolean;
+  inclusive_max: boolean;
+  // Canonical component names that must all be present
+  components: string[];
+}
+
+// Canonical name → aliases (normalized with normalizeLabel)
+const COMPONENT_ALIASES: Record<string, string[]> = {
+  BisGMA: ['bisgma', 'bisphenolaglycidylmethacrylate'],
+  UDMA: ['udma', 'urethanedimethacrylate', 'uretanodimetacrilato'],
+  TEGDMA: ['tegdma', 'triethyleneglycoldimethacrylate', 'trietilenoglicoldimetacrilato'],
+  BisEMA: ['bisema', 'ethoxylatedbisphenoladimethacrylate'],
+  HEMA: ['hema', 'hydroxyethylmethacrylate'],
+  CQ: ['cq', 'camphorquinone', 'canforquinona'],
+  TPO: ['tpo', 'lucirintpo'],
+  BAPO: ['bapo', 'irgacure819'],
+  EDMAB: ['edmab', 'edab', 'ethyl4dimethylaminobenzoate'],
+  DMAEMA: ['dmaema', 'dimethylaminoethylmethacrylate'],
+  BHT: ['bht', 'butylatedhydroxytoluene'],
+  silica: ['silica', 'silica coloidal', 'sio2', 'fumedsilica', 'silicapirogenica'],
+  'barium glass': ['bariumglass', 'vidrodebario', 'bariumborosilicate', 'bario'],
+  zirconia: ['zirconia', 'zro2', 'zirconiasilica'],
+};
+
+export function normalizeLabel(s: string): string {
+  return s.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '');
+}
+
+const ALIAS_INDEX = new Map<string, string>(
+  Object.entries(COMPONENT_ALIASES).flatMap(([canonical, aliases]) =>
+    [canonical, ...aliases].map(a => [normalizeLabel(a), canonical] as [string, string])),
+);
+
+export function canonicalComponent(name: string): string {
+  return ALIAS_INDEX.get(normalizeLabel(name)) ?? name.trim();
+}
+
+function formatNumber(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(1).replace(/\.0$/, '');
+}
+
+export function summarizeComposition(components: FormulationComponent[]): CompositionSummary {
+  const fillers = components.filter(c => c.role === 'filler' && c.amount !== null);
+  const total = (unit: AmountUnit) => {
+    const matching = fillers.filter(c => c.amount_unit === unit);
+    return matching.length > 0 ? matching.reduce((s, c) => s + (c.amount as number), 0) : null;
+  };
+  const resins = components.filter(c => c.role === 'resin' && c.amount !== null);
+  return {
+    filler_wt: total('wt%'),
+    filler_vol: total('vol%'),
+    components: [...new Set(components.map(c => canonicalComponent(c.name)))],
+    resin_ratio: resins.length > 1
+      ? `${resins.map(c => canonicalComponent(c.name)).join('/')} ${resins.map(c => formatNumber(c.amount as number)).join('/')}`
+      : null,
+  };
+}
+
+export function describeComposition(components: FormulationComponent[]): string {
+  const roleLabels: Record<ComponentRole, string> = {
+    resin: 'Matriz', filler: 'Carga', photoinitiator: 'Fotoiniciador', additive: 'Aditivo', other: 'Outro',
+  };
+  const parts: string[] = [];
+  for (const role of Object.keys(roleLabels) as ComponentRole[]) {
+    const items = components.filter(c => c.role === role);
+    if (items.length === 0) continue;
+    parts.push(`${roleLabels[role]}: ${items.map(c =>
+      c.amount !== null ? `${c.name} ${formatNumber(c.amount)} ${c.amount_unit || ''}`.trim() : c.name).join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+// ==========================================
+// RESOLUTION (spreadsheet labels → formulation)
+// ==========================================
+
+// Latest version whose code, name or alias matches one of the labels exactly
+// (after normalization); otherwise a code appearing as a whole token in a
+// label ("F12 - lote 3"). Ambiguous matches resolve to nothing.
+export function resolveFormulation(labels: string[], formulations: FormulationRef[]): string | null {
+  const latest = new Map<string, FormulationRef>();
+  for (const f of formulations) {
+    const key = normalizeLabel(f.code);
+    const current = latest.get(key);
+    if (!current || f.version > current.version) latest.set(key, f);
+  }
+  const candidates = [...latest.values()];
+  const cleanLabels = labels.map(l => l.trim()).filter(Boolean);
+
+  const exact = new Set<string>();
+  for (const label of cleanLabels) {
+    const norm = normalizeLabel(label);
+    if (!norm) continue;
+    for (const f of candidates) {
+      if ([f.code, f.name, ...f.aliases].some(n => normalizeLabel(n) === norm)) exact.add(f.id);
+    }
+  }
+  if (exact.size === 1) return [...exact][0];
+  if (exact.size > 1) return null;
+
+  const byToken = new Set<string>();
+  for (const label of cleanLabels) {
+    const tokens = new Set(label.toLowerCase().split(/[^a-z0-9]+/i).filter(Boolean).map(normalizeLabel));
+    for (const f of candidates) {
+      const code = normalizeLabel(f.code);
+      if (code.length >= 2 && tokens.has(code)) byToken.add(f.id);
+    }
+  }
+  return byToken.size === 1 ? [...byToken][0] : null;
+}
+
+// ==========================================
+// QUERY FILTERS
+// ==========================================
+const FORMULATION_INTENT = /formula[çc][aãoõ]|formulation|composi[çc][aãoõ]|composition|\bcont[eé]m\b|\bcontain/i;
+const FILLER_TERMS = '(?:carga|filler|part[ií]culas?|inorg[aâ]nic[oa])';
+const GREATER = '(>=?|≥|mais\\s+de|acima\\s+de|superior\\s+a|pelo\\s+menos|no\\s+m[ií]nimo|more\\s+than|above|over|at\\s+least)';
+const LESS = '(<=?|≤|menos\\s+de|abaixo\\s+de|inferior\\s+a|no\\s+m[aá]ximo|less\\s+than|below|under|at\\s+most)';
+const INCLUSIVE = /^(>=|<=|≥|≤|pelo|no|at)/i;
+const AMOUNT = '(\\d+(?:[.,]\\d+)?)\\s*(?:%\\s*)?(wt\\s*%?|vol\\s*%?|%\\s*(?:em\\s+)?(?:peso|massa|volume))?';
+
+interface Bound {
+  value: number;
+  basis: 'wt%' | 'vol%' | null;
+  inclusive: boolean;
+}
+
+function parseBound(query: string, comparator: string): Bound | null {
+  // "> 60 wt% de carga" or "carga > 60 wt%"
+  const patterns = [
+    new RegExp(`${comparator}\\s*${AMOUNT}\\s*(?:de\\s+|of\\s+)?${FILLER_TERMS}`, 'i'),
+    new RegExp(`${FILLER_TERMS}[^.?!]{0,20}?${comparator}\\s*${AMOUNT}`, 'i'),
+  ];
+  for (const re of patterns) {
+    const m = query.match(re);
+    if (!m) continue;
+    const unit = (m[3] || '').toLowerCase();
+    const basis = /vol|volume/.test(unit) ? 'vol%' : unit ? 'wt%' : null;
+    return { value: parseFloat(m[2].replace(',', '.')), basis, inclusive: INCLUSIVE.test(m[1]) };
+  }
+  return null;
+}
+
+export function parseFormulationQuery(query: string): FormulationFilter | null {
+  const min = parseBound(query, GREATER);
+  const max = parseBound(query, LESS);
+
+  // Single tokens plus 2- and 3-word spans ("Bis GMA", "vidro de bário")
+  const components: string[] = [];
+  const tokens = query.split(/[\s,;()/]+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    for (let len = 1; len <= 3 && i + len <= tokens.length; len++) {
+      const canonical = ALIAS_INDEX.get(normalizeLabel(tokens.slice(i, i + len).join('')));
+      if (canonical && !components.includes(canonical)) components.push(canonical);
+    }
+  }
+
+  if (!min && !max && components.length === 0) return null;
+  if (!min && !max && !FORMULATION_INTENT.test(query)) return null;
+
+  return {
+    basis: min?.basis || max?.basis || 'wt%',
+    filler_min: min?.value ?? null,
+    filler_max: max?.value ?? null,
+    inclusive_min: min?.inclusive ?? false,
+    inclusive_max: max?.inclusive ?? false,
+    components,
+  };
+}
+
+export function matchesFormulationFilter(summary: CompositionSummary, filter: FormulationFilter): boolean {
+  const filler = filter.basis === 'vol%' ? summary.filler_vol : summary.filler_wt;
+  if (filter.filler_min !== null) {
+    if (filler === null || filler < filter.filler_min || (!filter.inclusive_min && filler === filter.filler_min)) return false;
+  }
+  if (filter.filler_max !== null) {
+    if (filler === null || filler > filter.filler_max || (!filter.inclusive_max && filler === filter.filler_max)) return false;
+  }
+  return filter.components.every(c => summary.components.includes(c));
+}
+
+export function describeFormulationFilter(filter: FormulationFilter): string {
+  const parts: string[] = [];
+  if (filter.filler_min !== null) parts.push(`carga ${filter.inclusive_min ? '≥' : '>'} ${formatNumber(filter.filler_min)} ${filter.basis}`);
+  if (filter.filler_max !== null) parts.push(`carga ${filter.inclusive_max ? '≤' : '<'} ${formatNumber(filter.filler_max)} ${filter.basis}`);
+  for (const c of filter.components) parts.push(`contém ${c}`);
+  return parts.join(' E ');
+}
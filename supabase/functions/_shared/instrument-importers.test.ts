@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the instrument export importers: export reading, format
+ * detection, specimens as replicates and test parameters as conditions.
+ * Run with: deno test supabase/functions/_shared/instrument-importers.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { importInstrumentExport, readInstrumentExport } from "./instrument-importers.ts";
+
+const utm = [
+  "Método;Flexão 3 pontos ISO 4049",
+  "Velocidade do travessão;0,5;mm/min",
+  "Vão (mm): 20",
+  "Amostra;Lote B12",
+  "",
+  "Corpo de prova;Largura;Espessura;Força máxima;Resistência à flexão;Módulo",
+  ";(mm);(mm);(N);(MPa);(GPa)",
+  "1;2,01;2,02;48,3;85,3;9,1",
+  "2;1,99;2,00;50,1;90,1;9,4",
+  "3;2,00;2,01;46,2;80,2;8,8",
+  "Média;2,00;2,01;48,2;85,2;9,1",
+  "Desvio padrão;0,01;0,01;1,9;4,95;0,3",
+].join("\r\n");
+
+Deno.test("reads metadata, units row and specimens, skipping statistics rows", () => {
+  const file = readInstrumentExport(utm)!;
+  assertEquals(file.metadata.map(m => [m.key, m.value]), [
+    ["Método", "Flexão 3 pontos ISO 4049"],
+    ["Velocidade do travessão", "0,5 mm/min"],
+    ["Vão (mm)", "20"],
+    ["Amostra", "Lote B12"],
+  ]);
+  assertEquals(file.units, ["", "mm", "mm", "N", "MPa", "GPa"]);
+  assertEquals(file.rows.map(r => r.line), [8, 9, 10]);
+});
+
+Deno.test("testing machine: specimens become one replicate measurement per metric", () => {
+  const result = importInstrumentExport(utm)!;
+  assertEquals(result.importer, "utm");
+  assertEquals(result.sample, "Lote B12");
+  const strength = result.measurements.find(m => m.metric === "flexural_strength")!;
+  assertEquals([strength.unit, strength.values, strength.lines], ["MPa", [85.3, 90.1, 80.2], [8, 9, 10]]);
+  assertEquals(result.measurements.map(m => m.metric), ["max_force", "flexural_strength", "flexural_modulus"]);
+  assertEquals(result.conditions, [
+    { key: "test_method", value: "Flexão 3 pontos ISO 4049" },
+    { key: "crosshead_speed", value: "0,5 mm/min" },
+    { key: "span", value: "20 mm" },
+    { key: "specimen_width", value: "2 mm" },
+    { key: "specimen_thickness", value: "2.01 mm" },
+  ]);
+});
+
+Deno.test("spectrophotometer: samples grouped by name, ΔE method kept", () => {
+  const csv = [
+    "Instrument,CM-5",
+    "Illuminant,D65",
+    "Observer,10°",
+    "Data Name,L*,a*,b*,dE*ab,dE00,400 nm,410 nm",
+    "G1-1,72.31,1.02,15.40,2.1,1.5,40.1,41.0",
+    "G1-2,72.10,1.10,15.22,2.3,1.6,40.3,41.2",
+    "G2-1,70.02,0.95,14.10,3.4,2.2,39.0,40.1",
+  ].join("\n");
+  const result = importInstrumentExport(csv)!;
+  assertEquals([result.importer, result.instrument], ["spectrophotometer", "CM-5"]);
+  assertEquals(result.conditions, [{ key: "illuminant", value: "D65" }, { key: "observer", value: "10°" }]);
+  const l = result.measurements.filter(m => m.metric === "cielab_l");
+  assertEquals(l.map(m => [m.sample, m.values]), [["G1", [72.31, 72.1]], ["G2", [70.02]]]);
+  const de = result.measurements.filter(m => m.metric === "delta_e" && m.sample === "G1");
+  assertEquals(de.map(m => m.method), ["CIELAB", "CIEDE2000"]);
+  assert(!result.measurements.some(m => m.header.includes("nm")));
+});
+
+Deno.test("plain result tables are left to the generic CSV path", () => {
+  const csv = "Grupo;RF (MPa);Módulo (GPa);Sorção\nG1;85,3;9,1;21\nG2;90,1;9,4;19";
+  assertEquals(importInstrumentExport(csv), null);
+  assertEquals(importInstrumentExport("apenas texto\nsem tabela"), null);
+});
@@ -0,0 +1,362 @@
+/**
+ * Importers for instrument exports (CSV/TXT written by testing-machine and
+ * spectrophotometer software): a metadata header ("Velocidade: 0,5 mm/min"),
+ * a column header, an optional units row, one line per specimen and trailing
+ * statistics rows. Each importer recognises its own export from the metadata
+ * and column headers and maps specimens to replicate measurements and test
+ * parameters to conditions, so these files never depend on the LLM.
+ *
+ * New formats are added to INSTRUMENT_IMPORTERS; the first importer whose
+ * `detect` accepts the file reads it.
+ *
+ * Pure module (no I/O) used by extract-knowledge.
+ */
+
+import { parseDecimal } from "./replicates.ts";
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface InstrumentExport {
+  // Key/value lines above the table; keys as written, without the trailing ":"
+  metadata: { key: string; value: string; line: number }[];
+  headers: string[];
+  // Unit per column, from a units row or the header ("Força (N)"); '' when none
+  units: string[];
+  // Specimen lines (1-based line numbers); statistics rows are left out
+  rows: { line: number; cells: string[] }[];
+}
+
+export interface InstrumentMeasurement {
+  // Catalog key when the column is recognised, otherwise the column header
+  metric: string;
+  unit: string;
+  method: string | null;
+  // Column as written in the export
+  header: string;
+  sample: string | null;
+  // One value per specimen, with the file line it came from
+  values: number[];
+  lines: number[];
+}
+
+export interface InstrumentImport {
+  importer: string;
+  instrument: string;
+  sample: string | null;
+  conditions: { key: string; value: string }[];
+  measurements: InstrumentMeasurement[];
+}
+
+export interface InstrumentImporter {
+  id: string;
+  // Shown as the instrument in titles and excerpts
+  label: string;
+  detect(file: InstrumentExport): boolean;
+  read(file: InstrumentExport): InstrumentImport;
+}
+
+interface ColumnRule {
+  pattern: RegExp;
+  metric: string;
+  unit?: string;
+  method?: string;
+}
+
+// ==========================================
+// READING THE EXPORT
+// ==========================================
+const NUMERIC = /^[-+]?\d+(?:[.,]\d+)?(?:[eE][-+]?\d+)?$/;
+// Summary rows the software appends below the specimens (recomputed here)
+const STAT_ROW = /^(m[ée]dia|mean|average|avg|desvio|dp|sd|std|s\.d\.|cv|coef|m[íi]n|m[áa]x|mediana|median|range|amplitude|n|count|total)\b/i;
+const UNIT_CELL = /^[([]?\s*[^\d\s()[\]]{1,8}(?:\/[^\d\s()[\]]{1,6})?\s*[)\]]?$/;
+const HEADER_UNIT = /\s*[([]\s*([^)\]]+?)\s*[)\]]\s*$/;
+
+function isNumeric(cell: string): boolean {
+  return NUMERIC.test(cell.trim());
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(c => c.trim().replace(/^"(.*)"$/, '$1').trim());
+}
+
+// Tabs, then semicolons (decimal commas), then commas
+function pickDelimiter(lines: string[]): string {
+  return ['\t', ';'].find(d => lines.some(l => l.includes(d))) ?? ',';
+}
+
+function headerUnit(header: string): string {
+  return header.match(HEADER_UNIT)?.[1] ?? '';
+}
+
+export function stripUnit(header: string): string {
+  return header.replace(HEADER_UNIT, '').trim();
+}
+
+/**
+ * Splits an export into metadata, column header, units and specimen rows.
+ * The header is the first line with three or more cells followed by numeric
+ * rows; null when the file has no such table.
+ */
+export function readInstrumentExport(text: string): InstrumentExport | null {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const delimiter = pickDelimiter(lines.slice(0, 60));
+  const cells = lines.map(l => splitLine(l, delimiter));
+  const numericCount = (row: string[]) => row.filter(isNumeric).length;
+
+  const headerIdx = cells.findIndex((row, i) =>
+    row.filter(Boolean).length >= 3 && numericCount(row) === 0 &&
+    cells.slice(i + 1, i + 4).some(next => numericCount(next) >= 2));
+  if (headerIdx < 0) return null;
+
+  const metadata: InstrumentExport['metadata'] = [];
+  for (let i = 0; i < headerIdx; i++) {
+    const row = cells[i].filter(Boolean);
+    if (row.length === 0) continue;
+    // "Key: value" in one cell, or key and value (and unit) in separate cells
+    const [key, ...rest] = row.length === 1 ? row[0].split(/:\s*/) : row;
+    const value = rest.join(row.length === 1 ? ':' : ' ').trim();
+    if (key && value) metadata.push({ key: key.replace(/:\s*$/, '').trim(), value, line: i + 1 });
+  }
+
+  const headers = cells[headerIdx];
+  let units = headers.map(headerUnit);
+  let start = headerIdx + 1;
+  const unitsRow = cells[start];
+  if (unitsRow && numericCount(unitsRow) === 0 && unitsRow.some(c => c && UNIT_CELL.test(c))) {
+    units = headers.map((h, j) => (unitsRow[j] || '').replace(/^[([]\s*|\s*[)\]]$/g, '') || units[j]);
+    start++;
+  }
+
+  const rows: InstrumentExport['rows'] = [];
+  for (let i = start; i < cells.length; i++) {
+    const row = cells[i];
+    if (row.every(c => !c)) {
+      if (rows.length > 0) break;
+      continue;
+    }
+    if (STAT_ROW.test(row[0] || '') && !isNumeric(row[0])) continue;
+    if (numericCount(row) >= 1) rows.push({ line: i + 1, cells: row });
+  }
+  return rows.length > 0 ? { metadata, headers, units, rows } : null;
+}
+
+// ==========================================
+// SHARED HELPERS
+// ==========================================
+function metaValue(file: InstrumentExport, pattern: RegExp): string | null {
+  return file.metadata.find(m => pattern.test(m.key))?.value ?? null;
+}
+
+function columnValues(file: InstrumentExport, col: number): { values: number[]; lines: number[] } {
+  const values: number[] = [];
+  const lines: number[] = [];
+  for (const row of file.rows) {
+    const cell = row.cells[col] ?? '';
+    if (!isNumeric(cell)) continue;
+    values.push(parseDecimal(cell));
+    lines.push(row.line);
+  }
+  return { values, lines };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+// Columns that hold the specimen number or its name
+const SPECIMEN_ID = /^(corpo de prova|cp|specimen|spec\.?|n[º°o.]?|#|nr|index|[íi]ndice|medi[çc][ãa]o|measurement)\s*#?$/i;
+const SAMPLE_NAME = /^(amostra|sample|data name|nome|name|grupo|group|identifica[çc][ãa]o|id|lote|batch)$/i;
+
+/**
+ * One measurement per metric column and sample. Rows are grouped by the sample
+ * column when there is one (trailing replicate numbers "G1-2" are dropped),
+ * otherwise all specimens belong to the file's sample.
+ */
+function specimenMeasurements(
+  file: InstrumentExport,
+  columns: { col: number; metric: string; unit: string; method: string | null }[],
+  fileSample: string | null,
+): InstrumentMeasurement[] {
+  const sampleCol = file.headers.findIndex(h => SAMPLE_NAME.test(stripUnit(h)));
+  const groupOf = (row: { cells: string[] }) =>
+    sampleCol >= 0 && row.cells[sampleCol] ? row.cells[sampleCol].replace(/[\s_\-#.]+\d{1,3}$/, '') : fileSample;
+  const groups = new Map<string | null, InstrumentExport['rows']>();
+  for (const row of file.rows) {
+    const key = groupOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const out: InstrumentMeasurement[] = [];
+  for (const [sample, rows] of groups) {
+    for (const c of columns) {
+      const { values, lines } = columnValues({ ...file, rows }, c.col);
+      if (values.length === 0) continue;
+      out.push({ metric: c.metric, unit: c.unit, method: c.method, header: file.headers[c.col], sample, values, lines });
+    }
+  }
+  return out;
+}
+
+function ruleFor(header: string, rules: ColumnRule[]): ColumnRule | null {
+  const name = stripUnit(header);
+  return rules.find(r => r.pattern.test(name)) ?? null;
+}
+
+// ==========================================
+// UNIVERSAL TESTING MACHINE
+// ==========================================
+const UTM_PARAMETERS: { pattern: RegExp; key: string }[] = [
+  { pattern: /velocidade|crosshead|test speed|travess/i, key: 'crosshead_speed' },
+  { pattern: /^(v[ãa]o|span)\b|dist[âa]ncia entre (os )?apoios|support span/i, key: 'span' },
+  { pattern: /c[ée]lula de carga|load cell/i, key: 'load_cell' },
+  { pattern: /^(m[ée]todo|method|norma|standard|ensaio|test type|tipo de ensaio)\b/i, key: 'test_method' },
+  { pattern: /dimens[õo]es|dimensions|specimen size/i, key: 'specimen_dimensions' },
+  { pattern: /temperatura|temperature/i, key: 'test_temperature' },
+  { pattern: /umidade|humidity/i, key: 'test_humidity' },
+];
+
+const UTM_DIMENSIONS: { pattern: RegExp; key: string }[] = [
+  { pattern: /^(largura|width)\b/i, key: 'specimen_width' },
+  { pattern: /^(espessura|altura|thickness|height)\b/i, key: 'specimen_thickness' },
+  { pattern: /^(di[âa]metro|diameter)\b/i, key: 'specimen_diameter' },
+  { pattern: /^(comprimento|length)\b/i, key: 'specimen_length' },
+];
+
+const MAX_FORCE = /for[çc]a m[áa]x|carga m[áa]x|max(imum)? (force|load)|peak (force|load)|f\s*max/i;
+
+const UTM_COLUMNS = (flexural: boolean): ColumnRule[] => [
+  { pattern: /resist[êe]ncia.*flex|flexural (strength|stress)|tens[ãa]o.*flex|σ\s*f/i, metric: 'flexural_strength', unit: 'MPa' },
+  { pattern: /resist[êe]ncia.*compress|compressive (strength|stress)/i, metric: 'compressive_strength', unit: 'MPa' },
+  { pattern: /resist[êe]ncia.*tra[çc][ãa]o|tensile (strength|stress)/i, metric: 'tensile_strength', unit: 'MPa' },
+  { pattern: /m[óo]dulo|modulus/i, metric: flexural ? 'flexural_modulus' : 'elastic_modulus', unit: 'GPa' },
+  { pattern: MAX_FORCE, metric: 'max_force', unit: 'N' },
+  { pattern: /tenacidade|toughness|k\s*ic/i, metric: 'fracture_toughness', unit: 'MPa·m½' },
+];
+
+const utmImporter: InstrumentImporter = {
+  id: 'utm',
+  label: 'Máquina universal de ensaios',
+  detect(file) {
+    const hasParameters = file.metadata.some(m => UTM_PARAMETERS.slice(0, 3).some(p => p.pattern.test(m.key)));
+    const hasForce = file.headers.some(h => MAX_FORCE.test(stripUnit(h)));
+    return hasParameters || hasForce;
+  },
+  read(file) {
+    const context = [...file.metadata.map(m => `${m.key} ${m.value}`), ...file.headers].join(' ');
+    const flexural = /flex|3 pontos|three[- ]point|3[- ]point|4 pontos|four[- ]point/i.test(context);
+    const rules = UTM_COLUMNS(flexural);
+
+    const conditions: InstrumentImport['conditions'] = [];
+    for (const m of file.metadata) {
+      const parameter = UTM_PARAMETERS.find(p => p.pattern.test(m.key));
+      if (parameter && !conditions.some(c => c.key === parameter.key)) {
+        const unit = headerUnit(m.key);
+        conditions.push({ key: parameter.key, value: unit && !m.value.includes(unit) ? `${m.value} ${unit}` : m.value });
+      }
+    }
+
+    const columns: { col: number; metric: string; unit: string; method: string | null }[] = [];
+    file.headers.forEach((header, col) => {
+      const name = stripUnit(header);
+      if (!name || SPECIMEN_ID.test(name) || SAMPLE_NAME.test(name)) return;
+      if (columnValues(file, col).values.length === 0) return;
+      // Specimen dimensions are test parameters: their mean becomes a condition
+      const dimension = UTM_DIMENSIONS.find(d => d.pattern.test(name));
+      if (dimension) {
+        const { values } = columnValues(file, col);
+        const unit = file.units[col] || 'mm';
+        if (!conditions.some(c => c.key === dimension.key)) {
+          conditions.push({ key: dimension.key, value: `${Number(mean(values).toFixed(3))} ${unit}` });
+        }
+        return;
+      }
+      const rule = ruleFor(header, rules);
+      columns.push({
+        col,
+        metric: rule?.metric ?? name,
+        unit: file.units[col] || rule?.unit || '',
+        method: rule?.method ?? null,
+      });
+    });
+
+    const sample = metaValue(file, /^(amostra|sample|lote|batch|material|grupo|group|identifica)/i);
+    return {
+      importer: 'utm',
+      instrument: metaValue(file, /^(equipamento|instrument|m[áa]quina|machine|modelo|model)$/i) ?? utmImporter.label,
+      sample,
+      conditions,
+      measurements: specimenMeasurements(file, columns, sample),
+    };
+  },
+};
+
+// ==========================================
+// SPECTROPHOTOMETER (CIELAB)
+// ==========================================
+const SPECTRO_PARAMETERS: { pattern: RegExp; key: string }[] = [
+  { pattern: /iluminante|illuminant/i, key: 'illuminant' },
+  { pattern: /observador|observer/i, key: 'observer' },
+  { pattern: /^(geometria|geometry|modo|mode|sci\/sce)\b/i, key: 'measurement_geometry' },
+  { pattern: /fundo|background/i, key: 'background' },
+  { pattern: /abertura|aperture|[áa]rea de medi/i, key: 'aperture' },
+];
+
+const SPECTRO_COLUMNS: ColumnRule[] = [
+  { pattern: /^(Δ|d|delta\s*)e\s*00$|^(Δ|d|delta\s*)e\s*2000$|ciede2000/i, metric: 'delta_e', unit: 'ΔE', method: 'CIEDE2000' },
+  { pattern: /^(Δ|d|delta\s*)e\*?\s*(ab)?$/i, metric: 'delta_e', unit: 'ΔE', method: 'CIELAB' },
+  { pattern: /^L\*?$/, metric: 'cielab_l', unit: '-' },
+  { pattern: /^a\*$/, metric: 'cielab_a', unit: '-' },
+  { pattern: /^b\*$/, metric: 'cielab_b', unit: '-' },
+  { pattern: /^C\*?(ab)?$/, metric: 'cielab_c', unit: '-' },
+  { pattern: /^h(°|\*|ab)?$/, metric: 'cielab_h', unit: '°' },
+  { pattern: /^(TP|translucency parameter|par[âa]metro de transluc)/i, metric: 'translucency_parameter', unit: '-' },
+];
+
+const spectrophotometerImporter: InstrumentImporter = {
+  id: 'spectrophotometer',
+  label: 'Espectrofotômetro',
+  detect(file) {
+    const hasSetup = file.metadata.some(m => SPECTRO_PARAMETERS.slice(0, 2).some(p => p.pattern.test(m.key)));
+    const names = file.headers.map(stripUnit);
+    const hasLab = ['L*', 'a*', 'b*'].every(h => names.includes(h));
+    return hasSetup || hasLab;
+  },
+  read(file) {
+    const conditions: InstrumentImport['conditions'] = [];
+    for (const m of file.metadata) {
+      const parameter = SPECTRO_PARAMETERS.find(p => p.pattern.test(m.key));
+      if (parameter && !conditions.some(c => c.key === parameter.key)) conditions.push({ key: parameter.key, value: m.value });
+    }
+
+    // Spectral reflectance columns ("400", "410 nm") are not imported one by one
+    const columns = file.headers.flatMap((header, col) => {
+      const rule = ruleFor(header, SPECTRO_COLUMNS);
+      return rule ? [{ col, metric: rule.metric, unit: file.units[col] || rule.unit || '-', method: rule.method ?? null }] : [];
+    });
+
+    const sample = metaValue(file, /^(amostra|sample|lote|batch|material)$/i);
+    return {
+      importer: 'spectrophotometer',
+      instrument: metaValue(file, /^(equipamento|instrument|instrumento|modelo|model)$/i) ?? spectrophotometerImporter.label,
+      sample,
+      conditions,
+      measurements: specimenMeasurements(file, columns, sample),
+    };
+  },
+};
+
+// ==========================================
+// REGISTRY
+// ==========================================
+export const INSTRUMENT_IMPORTERS: InstrumentImporter[] = [spectrophotometerImporter, utmImporter];
+
+/** Reads a CSV/TXT export with the first importer that recognises it. */
+export function importInstrumentExport(text: string): InstrumentImport | null {
+  const file = readInstrumentExport(text);
+  if (!file) return null;
+  const importer = INSTRUMENT_IMPORTERS.find(i => i.detect(file));
+  if (!importer) return null;
+  const result = importer.read(file);
+  return result.measurements.length > 0 ? result : null;
+}
@@ -0,0 +1,123 @@
+/**
+ * Loads the measurements of one metric and splits them into groups for the
+ * statistical tests: one group per experiment, or per value of an
+ * experiment condition (e.g. `monômero` → UDMA / Bis-GMA). Replicate groups
+ * contribute their specimen values, or their mean ± SD (n) when only the
+ * summary was reported.
+ */
+
+import { measurementSummary } from "./replicates.ts";
+import type { GroupInput } from "./statistics.ts";
+import { type StoredUnits, canonicalValues } from "./units.ts";
+
+export type GroupBy = 'experiment' | 'condition';
+
+export interface MeasurementGroupsQuery {
+  projectIds: string[];
+  metric: string;
+  groupBy: GroupBy;
+  // Required when groupBy = 'condition'
+  conditionKey?: string;
+  // Restricts the comparison to these experiments
+  experimentIds?: string[];
+}
+
+export interface MeasurementGroup extends GroupInput {
+  summaries: NonNullable<GroupInput['summaries']>;
+  // Experiments whose measurements fell in this group
+  experiment_ids: string[];
+}
+
+interface MeasurementRow extends StoredUnits {
+  experiment_id: string;
+  n: number | null;
+  experiments: { title: string };
+}
+
+export interface MeasurementGroups {
+  metric: string;
+  unit: string | null;
+  groups: MeasurementGroup[];
+  n_measurements: number;
+  // Measurements left out because their unit differs from the dominant one
+  dropped_units: { unit: string; n: number }[];
+  // Measurements left out because the experiment lacks the condition
+  missing_condition: number;
+}
+
+export async function loadMeasurementGroups(
+  supabase: any, query: MeasurementGroupsQuery,
+): Promise<MeasurementGroups> {
+  let request = supabase
+    .from('measurements')
+    .select('experiment_id, value, value_canonical, unit, unit_canonical, conversion, n, sd, replicates, experiments!inner(title, project_id, deleted_at)')
+    .eq('metric', query.metric)
+    .in('experiments.project_id', query.projectIds)
+    .is('experiments.deleted_at', null)
+    .limit(5000);
+  if (query.experimentIds?.length) request = request.in('experiment_id', query.experimentIds);
+
+  const { data: rows, error } = await request;
+  if (error) throw new Error(`measurements: ${error.message}`);
+  const measurements: MeasurementRow[] = rows || [];
+
+  // Canonical values when available; mixed units are never pooled
+  const unitCounts = new Map<string, number>();
+  for (const m of measurements) {
+    const unit = m.unit_canonical || m.unit;
+    unitCounts.set(unit, (unitCounts.get(unit) || 0) + 1);
+  }
+  const ranked = [...unitCounts.entries()].sort((a, b) => b[1] - a[1]);
+  const unit = ranked[0]?.[0] ?? null;
+  const kept = measurements.filter(m => (m.unit_canonical || m.unit) === unit);
+
+  let conditionByExperiment = new Map<string, string>();
+  if (query.groupBy === 'condition') {
+    if (!query.conditionKey) throw new Error('condition_key is required when grouping by condition');
+    const experimentIds = [...new Set(kept.map(m => m.experiment_id))];
+    const { data: conditions } = experimentIds.length > 0
+      ? await supabase.from('experiment_conditions').select('experiment_id, value').eq('key', query.conditionKey).in('experiment_id', experimentIds)
+      : { data: [] };
+    conditionByExperiment = new Map((conditions || []).map((c: { experiment_id: string; value: string }) => [c.experiment_id, c.value]));
+  }
+
+  // Experiments are keyed by id; titles shared by several experiments get a short id suffix
+  const titleCount = new Map<string, Set<string>>();
+  for (const m of kept) {
+    if (!titleCount.has(m.experiments.title)) titleCount.set(m.experiments.title, new Set());
+    titleCount.get(m.experiments.title)!.add(m.experiment_id);
+  }
+
+  const groups = new Map<string, MeasurementGroup>();
+  let missingCondition = 0;
+  for (const m of kept) {
+    let label: string | undefined;
+    if (query.groupBy === 'experiment') {
+      const title = m.experiments.title;
+      label = titleCount.get(title)!.size > 1 ? `${title} (${m.experiment_id.slice(0, 8)})` : title;
+    } else {
+      label = conditionByExperiment.get(m.experiment_id);
+    }
+    if (label === undefined) {
+      missingCondition++;
+      continue;
+    }
+    if (!groups.has(label)) groups.set(label, { label, values: [], summaries: [], experiment_ids: [] });
+    const group = groups.get(label)!;
+    const canonical = canonicalValues(m);
+    const summary = measurementSummary({ value: canonical.value, n: m.n, sd: canonical.sd });
+    if (canonical.replicates) group.values.push(...canonical.replicates);
+    else if (summary.n > 1) group.summaries.push(summary);
+    else group.values.push(summary.mean);
+    if (!group.experiment_ids.includes(m.experiment_id)) group.experiment_ids.push(m.experiment_id);
+  }
+
+  return {
+    metric: query.metric,
+    unit,
+    groups: [...groups.values()].sort((a, b) => a.label.localeCompare(b.label)),
+    n_measurements: kept.length - missingCondition,
+    dropped_units: ranked.slice(1).map(([u, n]) => ({ unit: u, n })),
+    missing_condition: missingCondition,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for structured measurement queries: validation against the
+ * project vocabulary, deterministic execution, result narration grounding
+ * and the translation call.
+ * Run with: deno test supabase/functions/_shared/measurement-query.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { AiProvider, ChatResult } from "./ai-provider.ts";
+import {
+  isAggregateQuestion,
+  type QueryRow,
+  resultTableMarkdown,
+  runMeasurementQuery,
+  translateMeasurementQuery,
+  ungroundedNumbers,
+  validateMeasurementQuery,
+} from "./measurement-query.ts";
+
+const vocab = {
+  metrics: ["flexural_strength", "filler_content", "hardness_vickers"],
+  conditionKeys: ["Cura", "Carga"],
+};
+
+function row(id: string, overrides: Partial<QueryRow>): QueryRow {
+  return {
+    id,
+    experiment_id: "exp-1",
+    metric: "flexural_strength",
+    value: 0,
+    unit: "MPa",
+    experiment: "Resinas experimentais",
+    project: "Resinas 2026",
+    file: "ensaios_flexao.xlsx",
+    sheet: "Aba 1",
+    row: 1,
+    method: null,
+    conditions: {},
+    ...overrides,
+  };
+}
+
+// Two sheets; filler content sits in the same row as each strength value
+const rows: QueryRow[] = [
+  row("m1", { sheet: "Aba 1", row: 1, value: 120 }),
+  row("f1", { sheet: "Aba 1", row: 1, metric: "filler_content", value: 50, unit: "%" }),
+  row("m2", { sheet: "Aba 1", row: 2, value: 130 }),
+  row("f2", { sheet: "Aba 1", row: 2, metric: "filler_content", value: 65, unit: "%" }),
+  row("m3", { sheet: "Aba 1", row: 3, value: 140 }),
+  row("f3", { sheet: "Aba 1", row: 3, metric: "filler_content", value: 70, unit: "%" }),
+  row("m4", { sheet: "Aba 2", row: 1, value: 100 }),
+  row("f4", { sheet: "Aba 2", row: 1, metric: "filler_content", value: 60, unit: "%" }),
+  row("m5", { sheet: "Aba 2", row: 2, value: 14, unit: "GPa" }),
+  row("f5", { sheet: "Aba 2", row: 2, metric: "filler_content", value: 80, unit: "%" }),
+  row("m6", { experiment_id: "exp-2", file: "outro.xlsx", sheet: "Aba 1", value: 999 }),
+];
+
+Deno.test("validation resolves names and rejects fields outside the vocabulary", () => {
+  const ok = validateMeasurementQuery({
+    metric: "Flexural_Strength",
+    filters: [{ field: "metric:filler_content", op: "gte", value: "60%" }, { field: "file", op: "contains", value: "flexao" }],
+    group_by: ["sheet"],
+    aggregates: ["avg", "count"],
+    order_by: { key: "avg", direction: "desc" },
+    limit: 500,
+  }, vocab);
+  assertEquals(ok.errors, []);
+  assertEquals(ok.query?.metric, "flexural_strength");
+  assertEquals(ok.query?.filters[0], { field: "metric:filler_content", op: "gte", value: 60 });
+  assertEquals(ok.query?.limit, 50);
+
+  const bad = validateMeasurementQuery({
+    metric: "flexural_strength",
+    filters: [{ field: "experiments.project_id", op: "eq", value: "other" }, { field: "sheet", op: "gt", value: 3 }],
+    group_by: ["condition:Temperatura"],
+    aggregates: ["avg; drop table"],
+  }, vocab);
+  assertEquals(bad.query, null);
+  assertEquals(bad.errors.length, 4);
+
+  assertEquals(validateMeasurementQuery({ metric: "tensile_strength" }, vocab).query, null);
+});
+
+Deno.test("groups by sheet with a sibling metric filter over one unit", () => {
+  const { query } = validateMeasurementQuery({
+    metric: "flexural_strength",
+    filters: [{ field: "metric:filler_content", op: "gte", value: 60 }, { field: "file", op: "contains", value: "flexao" }],
+    group_by: ["sheet"],
+    aggregates: ["avg", "count"],
+  }, vocab);
+  const result = runMeasurementQuery(query!, rows);
+
+  assertEquals(result.columns, ["sheet", "avg", "count"]);
+  assertEquals(result.rows, [["Aba 1", 135, 2], ["Aba 2", 100, 1]]);
+  assertEquals(result.unit, "MPa");
+  assertEquals(result.scanned, 6);
+  assertEquals(result.matched, 3);
+  assertEquals(result.dropped_units, [{ unit: "GPa", n: 1 }]);
+  assertEquals(result.measurement_ids, ["m2", "m3", "m4"]);
+  assertEquals(resultTableMarkdown(result).split("\n")[0], "| Aba | Média (MPa) | N |");
+});
+
+Deno.test("pools mean ± SD (n) rows and replicates instead of averaging means", () => {
+  const pooledRows: QueryRow[] = [
+    row("s1", { sheet: "Aba 3", row: 1, value: 100, n: 10, sd: 5 }),
+    row("s2", { sheet: "Aba 3", row: 2, value: 130, replicates: [120, 140] }),
+  ];
+  const { query } = validateMeasurementQuery({
+    metric: "flexural_strength", aggregates: ["avg", "count", "min", "max"],
+  }, vocab);
+  const result = runMeasurementQuery(query!, pooledRows);
+
+  // (10 × 100 + 2 × 130) / 12, not (100 + 130) / 2
+  assertEquals(result.rows, [[105, 12, 100, 140]]);
+  assertEquals(result.matched, 2);
+  assertEquals(result.summarized, 1);
+});
+
+Deno.test("orders by an aggregate and reports truncation", () => {
+  const { query } = validateMeasurementQuery({
+    metric: "flexural_strength",
+    group_by: ["file"],
+    aggregates: ["max"],
+    order_by: { key: "max", direction: "desc" },
+    limit: 1,
+  }, vocab);
+  const result = runMeasurementQuery(query!, rows);
+  assertEquals(result.rows, [["outro.xlsx", 999]]);
+  assertEquals(result.truncated, true);
+});
+
+Deno.test("narration numbers must come from the table or the question", () => {
+  const { query } = validateMeasurementQuery({ metric: "flexural_strength", group_by: ["sheet"], aggregates: ["avg"] }, vocab);
+  const result = runMeasurementQuery(query!, rows.filter(r => r.file === "ensaios_flexao.xlsx"));
+  const question = "média de RF por aba com carga ≥ 60%";
+
+  assertEquals(ungroundedNumbers("A Aba 1 teve média de 130 MPa e a Aba 2, 100 MPa (carga ≥ 60%).", result, question), []);
+  assertEquals(ungroundedNumbers("A média geral foi 123,3 MPa.", result, question), ["123,3"]);
+});
+
+Deno.test("aggregate questions need an aggregate and a set", () => {
+  assertEquals(isAggregateQuestion("média de RF por aba do Excel X com carga ≥ 60%"), true);
+  assertEquals(isAggregateQuestion("Qual o desvio padrão da dureza entre os grupos?"), true);
+  assertEquals(isAggregateQuestion("Qual a média de RF?"), false);
+  assertEquals(isAggregateQuestion("Como foi feita a cura das amostras por LED?"), false);
+});
+
+Deno.test("translation validates the tool call and honours not-applicable", async () => {
+  const ai = (args: unknown): AiProvider => ({
+    name: "stub",
+    model: () => "test-model",
+    chat: () => Promise.resolve({
+      ok: true, status: 200, content: "", usage: { input: 80, output: 20 },
+      toolCall: { name: "measurement_query", arguments: JSON.stringify(args) },
+    } as ChatResult),
+    embed: () => Promise.resolve(null),
+  });
+
+  const valid = await translateMeasurementQuery(ai({ applicable: true, metric: "hardness_vickers", aggregates: ["median"] }), "mediana da dureza por arquivo", vocab);
+  assertEquals(valid.query?.aggregates, ["median"]);
+  assertEquals(valid.errors, []);
+
+  const invalid = await translateMeasurementQuery(ai({ applicable: true, metric: "cor" }), "média de cor por aba", vocab);
+  assertEquals(invalid.query, null);
+  assertEquals(invalid.errors, ['unknown metric: "cor"']);
+
+  const notApplicable = await translateMeasurementQuery(ai({ applicable: false }), "quantos artigos por autor?", vocab);
+  assertEquals(notApplicable.not_applicable, true);
+  assertEquals(notApplicable.query, null);
+});
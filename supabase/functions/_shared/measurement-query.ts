@@ -0,0 +1,701 @@
+/**
+ * Structured measurement queries for rag-answer.
+ *
+ * Aggregate questions ("média de RF por aba do Excel X com carga ≥ 60%") are
+ * answered from `measurements`, not from retrieved text. The model only
+ * translates the question into a MeasurementQuery: one metric, filters,
+ * group-by fields and aggregates from a fixed vocabulary. The query is
+ * validated against that vocabulary and the metrics and condition keys that
+ * exist in the caller's projects, then executed here, deterministically, over
+ * measurements joined to their experiment, project, source file, experiment
+ * conditions and the other measurements of the same row. Project scope is
+ * never part of the query: the caller passes the projects the user belongs to.
+ *
+ * Aggregates follow the summary views (`experiment_metric_summary`): a
+ * measurement reported as mean ± SD (n) counts as n specimens, so avg and
+ * stddev are the exact pooled moments and count is the number of specimens;
+ * min, max and median run over specimen values (a reported mean stands for
+ * its group).
+ *
+ * The model then narrates the result table. Numbers in the narration that
+ * are not in the table (or the question) make rag-answer fall back to a
+ * templated narration, so aggregate answers carry no model arithmetic.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AiProvider, ToolDefinition } from './ai-provider.ts';
+import { type ReplicateFields, type ReplicateSummary, measurementSummary, poolSummaries } from './replicates.ts';
+import { type StoredUnits, canonicalValues } from './units.ts';
+
+export const QUERY_DSL_VERSION = 'mq-v1';
+
+// ==========================================
+// DSL
+// ==========================================
+export type AggregateFn = 'avg' | 'min' | 'max' | 'median' | 'stddev' | 'count' | 'sum';
+export type FilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'contains' | 'in';
+
+// Text fields of the joined row. `condition:<key>` is an experiment
+// condition; `metric:<key>` another measurement of the same experiment row
+// (e.g. the filler content next to the flexural strength)
+export type TextField = 'file' | 'sheet' | 'experiment' | 'project' | 'method';
+export type QueryField = TextField | `condition:${string}` | `metric:${string}`;
+
+export type FilterValue = string | number | (string | number)[];
+
+export interface QueryFilter {
+  // 'value' is the measured value itself, in the canonical unit
+  field: QueryField | 'value';
+  op: FilterOp;
+  value: FilterValue;
+}
+
+export interface MeasurementQuery {
+  metric: string;
+  filters: QueryFilter[];
+  group_by: QueryField[];
+  aggregates: AggregateFn[];
+  order_by: { key: AggregateFn | QueryField; direction: 'asc' | 'desc' } | null;
+  limit: number;
+}
+
+// Metrics and condition keys present in the caller's projects
+export interface QueryVocabulary {
+  metrics: string[];
+  conditionKeys: string[];
+}
+
+export const AGGREGATE_FNS: AggregateFn[] = ['avg', 'min', 'max', 'median', 'stddev', 'count', 'sum'];
+const FILTER_OPS: FilterOp[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'contains', 'in'];
+const TEXT_FIELDS: TextField[] = ['file', 'sheet', 'experiment', 'project', 'method'];
+const NUMERIC_OPS: FilterOp[] = ['gt', 'gte', 'lt', 'lte', 'between'];
+
+const MAX_FILTERS = 8;
+const MAX_GROUP_BY = 2;
+const MAX_IN_VALUES = 20;
+export const MAX_RESULT_ROWS = 50;
+
+const FIELD_LABELS: Record<TextField, string> = {
+  file: 'Arquivo', sheet: 'Aba', experiment: 'Experimento', project: 'Projeto', method: 'Método',
+};
+const AGGREGATE_LABELS: Record<AggregateFn, string> = {
+  avg: 'Média', min: 'Mín', max: 'Máx', median: 'Mediana', stddev: 'DP', count: 'N', sum: 'Soma',
+};
+
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// First number in a condition value ("60 wt%" → 60, "1,5 mm" → 1.5)
+export function leadingNumber(text: string | number | null | undefined): number | null {
+  if (typeof text === 'number') return Number.isFinite(text) ? text : null;
+  const match = String(text ?? '').match(/-?\d+(?:[.,]\d+)?/);
+  return match ? parseFloat(match[0].replace(',', '.')) : null;
+}
+
+export function fieldLabel(field: QueryField | AggregateFn): string {
+  if ((AGGREGATE_FNS as string[]).includes(field)) return AGGREGATE_LABELS[field as AggregateFn];
+  if ((TEXT_FIELDS as string[]).includes(field)) return FIELD_LABELS[field as TextField];
+  return field.slice(field.indexOf(':') + 1);
+}
+
+// ==========================================
+// VALIDATION
+// ==========================================
+export interface QueryValidation {
+  query: MeasurementQuery | null;
+  errors: string[];
+}
+
+function resolveName(name: unknown, known: string[]): string | null {
+  if (typeof name !== 'string' || !name.trim()) return null;
+  const wanted = fold(name);
+  return known.find(k => fold(k) === wanted) ?? null;
+}
+
+// Field name → canonical field, or null when outside the vocabulary
+function resolveField(raw: unknown, vocab: QueryVocabulary): QueryField | null {
+  if (typeof raw !== 'string') return null;
+  if ((TEXT_FIELDS as string[]).includes(raw)) return raw as TextField;
+  const [kind, ...rest] = raw.split(':');
+  const name = rest.join(':');
+  if (kind === 'condition') {
+    const key = resolveName(name, vocab.conditionKeys);
+    return key ? `condition:${key}` : null;
+  }
+  if (kind === 'metric') {
+    const metric = resolveName(name, vocab.metrics);
+    return metric ? `metric:${metric}` : null;
+  }
+  return null;
+}
+
+function isScalar(value: unknown): value is string | number {
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function validateFilter(raw: unknown, vocab: QueryVocabulary, errors: string[]): QueryFilter | null {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const field = input.field === 'value' ? 'value' : resolveField(input.field, vocab);
+  if (!field) {
+    errors.push(`unknown filter field: ${JSON.stringify(input.field)}`);
+    return null;
+  }
+  const op = input.op as FilterOp;
+  if (!FILTER_OPS.includes(op)) {
+    errors.push(`unknown operator for ${field}: ${JSON.stringify(input.op)}`);
+    return null;
+  }
+  const numericField = field === 'value' || field.startsWith('metric:') || field.startsWith('condition:');
+  if (NUMERIC_OPS.includes(op) && !numericField) {
+    errors.push(`${op} needs a numeric field, got ${field}`);
+    return null;
+  }
+
+  const value = input.value;
+  if (op === 'between') {
+    const bounds = Array.isArray(value) ? value.map(v => leadingNumber(isScalar(v) ? v : null)) : [];
+    if (bounds.length !== 2 || bounds.some(b => b === null)) {
+      errors.push(`between on ${field} needs two numbers`);
+      return null;
+    }
+    const [lo, hi] = bounds as number[];
+    return { field, op, value: [Math.min(lo, hi), Math.max(lo, hi)] };
+  }
+  if (NUMERIC_OPS.includes(op)) {
+    const n = leadingNumber(isScalar(value) ? value : null);
+    if (n === null) {
+      errors.push(`${op} on ${field} needs a number`);
+      return null;
+    }
+    return { field, op, value: n };
+  }
+  if (op === 'in') {
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_IN_VALUES || !value.every(isScalar)) {
+      errors.push(`in on ${field} needs 1-${MAX_IN_VALUES} values`);
+      return null;
+    }
+    return { field, op, value };
+  }
+  if (!isScalar(value) || String(value).trim() === '') {
+    errors.push(`${op} on ${field} needs a value`);
+    return null;
+  }
+  return { field, op, value };
+}
+
+// Model output → a query that only names known fields, operators, metrics
+// and condition keys. Anything else is reported, never passed through.
+export function validateMeasurementQuery(raw: unknown, vocab: QueryVocabulary): QueryValidation {
+  const errors: string[] = [];
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const metric = resolveName(input.metric, vocab.metrics);
+  if (!metric) errors.push(`unknown metric: ${JSON.stringify(input.metric)}`);
+
+  const rawFilters = Array.isArray(input.filters) ? input.filters : [];
+  if (rawFilters.length > MAX_FILTERS) errors.push(`at most ${MAX_FILTERS} filters`);
+  const filters = rawFilters.slice(0, MAX_FILTERS)
+    .map((f: unknown) => validateFilter(f, vocab, errors))
+    .filter((f: QueryFilter | null): f is QueryFilter => f !== null);
+
+  const rawGroupBy = Array.isArray(input.group_by) ? input.group_by : [];
+  if (rawGroupBy.length > MAX_GROUP_BY) errors.push(`at most ${MAX_GROUP_BY} group-by fields`);
+  const groupBy: QueryField[] = [];
+  for (const raw of rawGroupBy.slice(0, MAX_GROUP_BY)) {
+    const field = resolveField(raw, vocab);
+    if (!field) errors.push(`unknown group-by field: ${JSON.stringify(raw)}`);
+    else if (!groupBy.includes(field)) groupBy.push(field);
+  }
+
+  const rawAggregates: unknown[] = Array.isArray(input.aggregates) && input.aggregates.length > 0 ? input.aggregates : ['avg', 'count'];
+  const aggregates: AggregateFn[] = [];
+  for (const fn of rawAggregates) {
+    if (!(AGGREGATE_FNS as unknown[]).includes(fn)) errors.push(`unknown aggregate: ${JSON.stringify(fn)}`);
+    else if (!aggregates.includes(fn as AggregateFn)) aggregates.push(fn as AggregateFn);
+  }
+
+  let orderBy: MeasurementQuery['order_by'] = null;
+  const rawOrder = input.order_by && typeof input.order_by === 'object' ? input.order_by as Record<string, unknown> : null;
+  if (rawOrder) {
+    const key = (AGGREGATE_FNS as unknown[]).includes(rawOrder.key) ? rawOrder.key as AggregateFn : resolveField(rawOrder.key, vocab);
+    if (!key || !([...aggregates, ...groupBy] as string[]).includes(key)) {
+      errors.push(`order_by must name an aggregate or group-by field: ${JSON.stringify(rawOrder.key)}`);
+    } else {
+      orderBy = { key, direction: rawOrder.direction === 'asc' ? 'asc' : 'desc' };
+    }
+  }
+
+  const limit = typeof input.limit === 'number' && Number.isInteger(input.limit) && input.limit > 0
+    ? Math.min(input.limit, MAX_RESULT_ROWS)
+    : MAX_RESULT_ROWS;
+
+  if (errors.length > 0 || !metric) return { query: null, errors };
+  return { query: { metric, filters, group_by: groupBy, aggregates, order_by: orderBy, limit }, errors };
+}
+
+// Metrics the query reads besides the main one
+export function siblingMetrics(query: MeasurementQuery): string[] {
+  const fields = [...query.filters.map(f => f.field), ...query.group_by];
+  return [...new Set(fields.filter(f => f.startsWith('metric:')).map(f => f.slice('metric:'.length)))]
+    .filter(m => m !== query.metric);
+}
+
+// ==========================================
+// EXECUTION
+// ==========================================
+// One measurement with everything a query can filter or group on. Value,
+// SD and replicates are in the canonical unit; value is the mean when the
+// measurement has replicates
+export interface QueryRow extends ReplicateFields {
+  id: string;
+  experiment_id: string;
+  metric: string;
+  value: number;
+  unit: string;
+  experiment: string;
+  project: string;
+  file: string | null;
+  sheet: string | null;
+  row: number | null;
+  method: string | null;
+  conditions: Record<string, string>;
+}
+
+export type ResultCell = string | number | null;
+
+export interface QueryResult {
+  // Group-by fields, then aggregates
+  columns: (QueryField | AggregateFn)[];
+  rows: ResultCell[][];
+  unit: string | null;
+  // Measurements of the metric in scope / left after filters and unit
+  scanned: number;
+  matched: number;
+  // Matched measurements reported as mean ± SD (n), pooled as n specimens
+  summarized: number;
+  // Left out because their unit differs from the dominant one
+  dropped_units: { unit: string; n: number }[];
+  // More groups than the limit
+  truncated: boolean;
+  measurement_ids: string[];
+}
+
+const MISSING = '—';
+
+function rowKey(row: Pick<QueryRow, 'experiment_id' | 'sheet' | 'row'>): string {
+  return `${row.experiment_id}|${row.sheet ?? ''}|${row.row ?? ''}`;
+}
+
+// Values of the other metrics: same spreadsheet row first, then the
+// experiment when it has a single value for that metric
+function siblingLookup(rows: QueryRow[]): (row: QueryRow, metric: string) => number | null {
+  const byRow = new Map<string, number>();
+  const byExperiment = new Map<string, number[]>();
+  for (const r of rows) {
+    byRow.set(`${rowKey(r)}|${r.metric}`, r.value);
+    const key = `${r.experiment_id}|${r.metric}`;
+    byExperiment.set(key, [...(byExperiment.get(key) || []), r.value]);
+  }
+  return (row, metric) => {
+    const sameRow = byRow.get(`${rowKey(row)}|${metric}`);
+    if (sameRow !== undefined) return sameRow;
+    const experiment = byExperiment.get(`${row.experiment_id}|${metric}`);
+    return experiment?.length === 1 ? experiment[0] : null;
+  };
+}
+
+function fieldValue(row: QueryRow, field: QueryField | 'value', sibling: (row: QueryRow, metric: string) => number | null): ResultCell {
+  if (field === 'value') return row.value;
+  if (field.startsWith('condition:')) {
+    const key = fold(field.slice('condition:'.length));
+    return row.conditions[key] ?? null;
+  }
+  if (field.startsWith('metric:')) return sibling(row, field.slice('metric:'.length));
+  return row[field as TextField] ?? null;
+}
+
+function matchesFilter(cell: ResultCell, filter: QueryFilter): boolean {
+  if (cell === null || cell === '') return false;
+  const { op, value } = filter;
+  if (NUMERIC_OPS.includes(op)) {
+    const n = leadingNumber(cell);
+    if (n === null) return false;
+    if (op === 'between') {
+      const [lo, hi] = value as number[];
+      return n >= lo && n <= hi;
+    }
+    const bound = value as number;
+    return op === 'gt' ? n > bound : op === 'gte' ? n >= bound : op === 'lt' ? n < bound : n <= bound;
+  }
+  const equals = (expected: string | number) => {
+    if (typeof expected === 'number' || typeof cell === 'number') return leadingNumber(cell) === leadingNumber(expected);
+    return fold(String(cell)) === fold(expected);
+  };
+  if (op === 'contains') return fold(String(cell)).includes(fold(String(value)));
+  if (op === 'in') return (value as (string | number)[]).some(equals);
+  return op === 'eq' ? equals(value as string | number) : !equals(value as string | number);
+}
+
+interface QueryGroup {
+  key: ResultCell[];
+  // What each measurement contributes to the pooled moments
+  parts: ReplicateSummary[];
+  // Specimen values; a summary without replicates contributes its mean
+  specimens: number[];
+}
+
+function aggregate(fn: AggregateFn, group: QueryGroup): number | null {
+  const pooled = poolSummaries(group.parts);
+  if (fn === 'count') return pooled?.n ?? 0;
+  if (!pooled) return null;
+  const sorted = [...group.specimens].sort((a, b) => a - b);
+  switch (fn) {
+    case 'sum': return pooled.mean * pooled.n;
+    case 'avg': return pooled.mean;
+    case 'stddev': return pooled.sd;
+    case 'min': return sorted[0] ?? null;
+    case 'max': return sorted[sorted.length - 1] ?? null;
+    case 'median': {
+      if (sorted.length === 0) return null;
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+  }
+}
+
+function compareCells(a: ResultCell, b: ResultCell): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), 'pt-BR', { numeric: true });
+}
+
+export function runMeasurementQuery(query: MeasurementQuery, rows: QueryRow[]): QueryResult {
+  const sibling = siblingLookup(rows);
+  const target = rows.filter(r => r.metric === query.metric);
+  const filtered = target.filter(row => query.filters.every(f => matchesFilter(fieldValue(row, f.field, sibling), f)));
+
+  // Aggregates only over one unit: the most common among the matches
+  const unitCounts = new Map<string, number>();
+  for (const row of filtered) unitCounts.set(row.unit, (unitCounts.get(row.unit) || 0) + 1);
+  const [unit] = [...unitCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [null];
+  const kept = filtered.filter(row => row.unit === unit);
+
+  const groups = new Map<string, QueryGroup>();
+  let summarized = 0;
+  for (const row of kept) {
+    const key = query.group_by.map(field => fieldValue(row, field, sibling) ?? MISSING);
+    const id = JSON.stringify(key);
+    const group = groups.get(id) || { key, parts: [], specimens: [] };
+    const part = measurementSummary(row);
+    group.parts.push(part);
+    if (row.replicates?.length) group.specimens.push(...row.replicates);
+    else {
+      group.specimens.push(row.value);
+      if (part.n > 1) summarized++;
+    }
+    groups.set(id, group);
+  }
+
+  const columns = [...query.group_by, ...query.aggregates];
+  let resultRows = [...groups.values()].map(g => [...g.key, ...query.aggregates.map(fn => aggregate(fn, g))]);
+  if (query.order_by) {
+    const index = columns.indexOf(query.order_by.key);
+    const sign = query.order_by.direction === 'asc' ? 1 : -1;
+    resultRows.sort((a, b) => sign * compareCells(a[index], b[index]));
+  } else {
+    resultRows.sort((a, b) => {
+      for (let i = 0; i < query.group_by.length; i++) {
+        const diff = compareCells(a[i], b[i]);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    });
+  }
+  const truncated = resultRows.length > query.limit;
+  resultRows = resultRows.slice(0, query.limit);
+
+  return {
+    columns,
+    rows: resultRows,
+    unit,
+    scanned: target.length,
+    matched: kept.length,
+    summarized,
+    dropped_units: [...unitCounts.entries()].filter(([u]) => u !== unit).map(([u, n]) => ({ unit: u, n })),
+    truncated,
+    measurement_ids: kept.map(r => r.id),
+  };
+}
+
+// ==========================================
+// LOADING (scoped by project)
+// ==========================================
+// Rows per request; every page is read, in id order (keyset), so aggregates
+// always cover all the measurements in scope
+const PAGE_SIZE = 1000;
+
+interface MeasurementQueryRecord extends StoredUnits {
+  id: string;
+  experiment_id: string;
+  metric: string;
+  n: number | null;
+  sheet_name: string | null;
+  row_idx: number | null;
+  method: string | null;
+  experiments: {
+    title: string | null;
+    projects: { name: string } | null;
+    project_files: { name: string } | null;
+    experiment_conditions: { key: string; value: string | number }[] | null;
+  } | null;
+}
+
+// Distinct metrics and condition keys, computed in SQL over the whole scope
+export async function loadQueryVocabulary(supabase: SupabaseClient, projectIds: string[]): Promise<QueryVocabulary> {
+  const { data, error } = await supabase.rpc('measurement_query_vocabulary', { p_project_ids: projectIds });
+  if (error) throw new Error(`measurement_query_vocabulary: ${error.message}`);
+  const vocab = (data || {}) as { metrics?: string[] | null; condition_keys?: string[] | null };
+  return { metrics: vocab.metrics || [], conditionKeys: vocab.condition_keys || [] };
+}
+
+export async function loadQueryRows(supabase: SupabaseClient, projectIds: string[], query: MeasurementQuery): Promise<QueryRow[]> {
+  const records: MeasurementQueryRecord[] = [];
+  let after: string | null = null;
+  for (;;) {
+    let page = supabase
+      .from('measurements')
+      .select(`id, experiment_id, metric, value, value_canonical, unit, unit_canonical, conversion, n, sd, replicates, sheet_name, row_idx, method,
+        experiments!inner(title, project_id, deleted_at, projects(name), project_files(name), experiment_conditions(key, value))`)
+      .in('metric', [query.metric, ...siblingMetrics(query)])
+      .in('experiments.project_id', projectIds)
+      .is('experiments.deleted_at', null);
+    if (after !== null) page = page.gt('id', after);
+    const { data, error } = await page.order('id').limit(PAGE_SIZE);
+    if (error) throw new Error(`measurements: ${error.message}`);
+    const batch = (data || []) as unknown as MeasurementQueryRecord[];
+    records.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+    after = batch[batch.length - 1].id;
+  }
+
+  return records.map((m): QueryRow => {
+    const canonical = canonicalValues(m);
+    const conditions: Record<string, string> = {};
+    for (const c of m.experiments?.experiment_conditions || []) conditions[fold(c.key)] = String(c.value);
+    return {
+      id: m.id,
+      experiment_id: m.experiment_id,
+      metric: m.metric,
+      value: canonical.value,
+      unit: canonical.unit,
+      n: m.n,
+      sd: canonical.sd,
+      replicates: canonical.replicates,
+      experiment: m.experiments?.title || MISSING,
+      project: m.experiments?.projects?.name || MISSING,
+      file: m.experiments?.project_files?.name ?? null,
+      sheet: m.sheet_name ?? null,
+      row: m.row_idx ?? null,
+      method: m.method ?? null,
+      conditions,
+    };
+  });
+}
+
+// ==========================================
+// INTENT + TRANSLATION
+// ==========================================
+const AGGREGATE_PATTERN =
+  /\b(media|medias|mediana|average|mean|median|maximo|maxima|minimo|minima|desvio padrao|soma|somatorio|total de|contagem|quantas medicoes|quantos valores|how many|count|sum|std)\b/;
+// Grouping or a filter that only makes sense over a set of measurements
+const SET_PATTERN =
+  /\b(por|per|by|cada|each|agrupad[oa]s?|grouped|entre|between|acima de|abaixo de|maior que|menor que|pelo menos|at least|above|below|com)\b|[≥≤<>]/;
+
+// Aggregate questions over measurements, worth a translation attempt
+export function isAggregateQuestion(query: string): boolean {
+  const q = fold(query);
+  return AGGREGATE_PATTERN.test(q) && SET_PATTERN.test(q);
+}
+
+export interface QueryTranslation {
+  query: MeasurementQuery | null;
+  // Model output before validation
+  raw: unknown;
+  // The model judged the question not expressible as a query
+  not_applicable: boolean;
+  errors: string[];
+  latency_ms: number;
+  usage: { input: number; output: number };
+}
+
+const TRANSLATE_TIMEOUT_MS = 15_000;
+const VOCABULARY_LIMIT = 120;
+
+const TRANSLATE_PROMPT = `Você traduz perguntas sobre medições de P&D de materiais odontológicos em uma consulta estruturada (JSON). Não responda à pergunta.
+
+A consulta lê a tabela de medições de UMA métrica e pode:
+- filtrar (filters) por: "file" (nome do arquivo), "sheet" (aba da planilha), "experiment", "project", "method", "value" (o próprio valor medido), "condition:<chave>" (condição experimental) ou "metric:<métrica>" (outra medição da mesma linha/experimento, ex.: carga de uma formulação);
+- operadores: eq, neq, contains (texto), in (lista), gt, gte, lt, lte, between ([min, max]) — os numéricos só em value, condition:* e metric:*;
+- agrupar (group_by, até 2 campos) pelos mesmos campos, exceto "value";
+- agregar (aggregates): avg, min, max, median, stddev, count, sum;
+- ordenar (order_by: { key: agregado ou campo do group_by, direction: asc|desc }) e limitar (limit ≤ 50).
+
+Use SOMENTE métricas e chaves de condição das listas fornecidas, escritas exatamente como nelas. Nomes de arquivo e aba vão em filtros "contains" com o trecho citado pelo usuário. Se a pergunta não for uma agregação sobre medições, ou se a métrica não estiver na lista, responda applicable=false.`;
+
+const QUERY_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'measurement_query',
+    description: 'Consulta estruturada equivalente à pergunta',
+    parameters: {
+      type: 'object',
+      properties: {
+        applicable: { type: 'boolean' },
+        metric: { type: 'string' },
+        filters: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              field: { type: 'string' },
+              op: { type: 'string', enum: FILTER_OPS },
+              value: { description: 'Número, texto ou lista (between: [min, max]; in: valores)' },
+            },
+            required: ['field', 'op', 'value'],
+          },
+        },
+        group_by: { type: 'array', items: { type: 'string' } },
+        aggregates: { type: 'array', items: { type: 'string', enum: AGGREGATE_FNS } },
+        order_by: {
+          type: 'object',
+          properties: { key: { type: 'string' }, direction: { type: 'string', enum: ['asc', 'desc'] } },
+        },
+        limit: { type: 'integer' },
+      },
+      required: ['applicable'],
+    },
+  },
+};
+
+export async function translateMeasurementQuery(
+  ai: AiProvider,
+  question: string,
+  vocab: QueryVocabulary,
+): Promise<QueryTranslation> {
+  const started = Date.now();
+  const result: QueryTranslation = {
+    query: null, raw: null, not_applicable: false, errors: [], latency_ms: 0, usage: { input: 0, output: 0 },
+  };
+  if (vocab.metrics.length === 0) {
+    result.not_applicable = true;
+    return result;
+  }
+
+  try {
+    const completion = await ai.chat({
+      model: ai.model('standard'),
+      temperature: 0,
+      messages: [
+        { role: 'system', content: TRANSLATE_PROMPT },
+        {
+          role: 'user',
+          content: `Métricas: ${vocab.metrics.slice(0, VOCABULARY_LIMIT).join(', ')}\n`
+            + `Chaves de condição: ${vocab.conditionKeys.slice(0, VOCABULARY_LIMIT).join(', ') || '(nenhuma)'}\n\n`
+            + `Pergunta: ${question}`,
+        },
+      ],
+      tools: [QUERY_TOOL],
+      tool_choice: { type: 'function', function: { name: 'measurement_query' } },
+    }, { signal: AbortSignal.timeout(TRANSLATE_TIMEOUT_MS) });
+    result.usage = completion.usage;
+
+    if (!completion.ok || !completion.toolCall) {
+      throw new Error(completion.error || `Query translation call failed (${completion.status})`);
+    }
+    const raw = JSON.parse(completion.toolCall.arguments) as Record<string, unknown>;
+    result.raw = raw;
+    if (raw.applicable === false) {
+      result.not_applicable = true;
+    } else {
+      const validation = validateMeasurementQuery(raw, vocab);
+      result.query = validation.query;
+      result.errors = validation.errors;
+    }
+  } catch (error) {
+    result.errors = [error instanceof Error ? error.message : String(error)];
+  }
+  result.latency_ms = Date.now() - started;
+  return result;
+}
+
+// ==========================================
+// PRESENTATION
+// ==========================================
+export function formatValue(value: ResultCell): string {
+  if (value === null) return MISSING;
+  if (typeof value === 'string') return value;
+  return String(Number(value.toFixed(2))).replace('.', ',');
+}
+
+export function resultTableMarkdown(result: QueryResult): string {
+  const header = result.columns.map(c => {
+    const label = fieldLabel(c);
+    return (AGGREGATE_FNS as string[]).includes(c) && c !== 'count' && result.unit ? `${label} (${result.unit})` : label;
+  });
+  const lines = [
+    `| ${header.join(' | ')} |`,
+    `|${header.map(() => '---').join('|')}|`,
+    ...result.rows.map(row => `| ${row.map(cell => formatValue(cell).replace(/\|/g, '/')).join(' | ')} |`),
+  ];
+  return lines.join('\n');
+}
+
+const OP_LABELS: Record<FilterOp, string> = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', between: 'entre', contains: 'contém', in: 'em',
+};
+
+export function describeQuery(query: MeasurementQuery): string {
+  const filters = query.filters.map(f => {
+    const value = Array.isArray(f.value) ? f.value.join(f.op === 'between' ? ' e ' : ', ') : String(f.value);
+    return `${f.field === 'value' ? query.metric : fieldLabel(f.field)} ${OP_LABELS[f.op]} ${value}`;
+  });
+  return [
+    `${query.aggregates.map(fn => AGGREGATE_LABELS[fn]).join(', ')} de ${query.metric}`,
+    query.group_by.length > 0 ? `por ${query.group_by.map(fieldLabel).join(' e ')}` : '',
+    filters.length > 0 ? `onde ${filters.join('; ')}` : '',
+  ].filter(Boolean).join(' ');
+}
+
+// Narration used when the model's is missing or not grounded in the table
+export function templateNarration(query: MeasurementQuery, result: QueryResult): string {
+  if (result.matched === 0) {
+    return `Nenhuma medição de ${query.metric} atende à consulta (${describeQuery(query)}). `
+      + `Foram verificadas ${result.scanned} medições dessa métrica nos projetos disponíveis.`;
+  }
+  const groups = result.rows.length === 1 && query.group_by.length === 0 ? '' : ` em ${result.rows.length} grupo(s)`;
+  return `Resultado da consulta estruturada (${describeQuery(query)}): ${result.matched} medição(ões)${groups}, em ${result.unit}.`;
+}
+
+// Decimal places written in a number ("135,2" → 1)
+function decimals(text: string): number {
+  const match = text.match(/[.,](\d+)$/);
+  return match ? match[1].length : 0;
+}
+
+// Numbers in the narration that are neither in the result table nor in the
+// question, allowing for rounding to the precision the narration used
+export function ungroundedNumbers(narration: string, result: QueryResult, question: string): string[] {
+  const allowed = [
+    ...result.rows.flat().flatMap(cell => typeof cell === 'number' ? [cell] : [...String(cell ?? '').matchAll(/\d+(?:[.,]\d+)?/g)].map(m => parseFloat(m[0].replace(',', '.')))),
+    ...[...question.matchAll(/\d+(?:[.,]\d+)?/g)].map(m => parseFloat(m[0].replace(',', '.'))),
+    result.matched, result.scanned, result.rows.length,
+  ];
+  return [...narration.matchAll(/(?<![\w.,])\d+(?:[.,]\d+)?(?![\w])/g)]
+    .map(m => m[0])
+    .filter(text => {
+      const n = parseFloat(text.replace(',', '.'));
+      const tolerance = 0.5 * 10 ** -decimals(text) + 1e-9;
+      return !allowed.some(a => Math.abs(a - n) <= tolerance);
+    });
+}
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for PDF table detection: lines and cells rebuilt from item
+ * positions, header and caption detection, spreadsheet-like sheets, and
+ * dropping LLM copies of table values.
+ * Run with: deno test supabase/functions/_shared/pdf-tables.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  PdfTextItem,
+  citationReferences,
+  detectPageTables,
+  dropTableDuplicates,
+  gridToTable,
+  isNumericCell,
+  tablesToSheets,
+  toTextItems,
+} from "./pdf-tables.ts";
+
+// One text item per [x, text]; 5 units per character at font size 10
+function line(y: number, cells: [number, string][]): PdfTextItem[] {
+  return cells.map(([x, str]) => ({ str, x, y, width: str.length * 5, fontSize: 10 }));
+}
+
+const page = [
+  ...line(700, [[50, "Os resultados de resistência estão resumidos abaixo."]]),
+  ...line(680, [[50, "Tabela 2 - Resistência flexural por grupo"]]),
+  ...line(660, [[50, "Grupo"], [150, "Resistência"], [260, "Módulo"]]),
+  ...line(648, [[150, "flexural (MPa)"], [260, "(GPa)"]]),
+  ...line(630, [[50, "G1"], [150, "85,3"], [172, "±"], [180, "4,2"], [260, "9,1"]]),
+  ...line(615, [[50, "G2"], [150, "92,7"], [172, "±"], [180, "3,8"], [260, "10,4"]]),
+  ...line(600, [[50, "Controle"], [150, "71,0 ± 5,1"], [260, "8,2"]]),
+  ...line(560, [[50, "A análise estatística mostrou diferença entre os grupos (p < 0,05)."]]),
+];
+
+Deno.test("rebuilds rows, merged cells and a two-line header from positions", () => {
+  const [table] = detectPageTables(3, page);
+  assertEquals(table.page, 3);
+  assertEquals(table.headers, ["Grupo", "Resistência flexural (MPa)", "Módulo (GPa)"]);
+  assertEquals(table.rows, [
+    ["G1", "85,3 ± 4,2", "9,1"],
+    ["G2", "92,7 ± 3,8", "10,4"],
+    ["Controle", "71,0 ± 5,1", "8,2"],
+  ]);
+  assertEquals(table.caption, "Tabela 2 - Resistência flexural por grupo");
+});
+
+Deno.test("prose and single numbers are not tables", () => {
+  const prose = [
+    ...line(700, [[50, "Foram preparados 10 espécimes por grupo e armazenados por 24 h."]]),
+    ...line(685, [[50, "Ver a Figura 3."], [300, "12"]]),
+  ];
+  assertEquals(detectPageTables(1, prose), []);
+  assert(isNumericCell("85,3 ± 4,2 a"));
+  assert(isNumericCell("-0.5"));
+  assert(!isNumericCell("G1"));
+});
+
+Deno.test("tables become sheets with unique headers and the page", () => {
+  const [sheet] = tablesToSheets(detectPageTables(3, page));
+  assertEquals(sheet.sheetName, "p. 3 · Tabela 2");
+  assertEquals(sheet.page, 3);
+  assertEquals(sheet.rows[1]["Resistência flexural (MPa)"], "92,7 ± 3,8");
+
+  const [dup] = tablesToSheets([{ page: 1, index: 1, caption: null, headers: ["", "MPa", "MPa"], rows: [["a", "1", "2"]] }]);
+  assertEquals(dup.headers, ["col_0", "MPa", "MPa (2)"]);
+  assertEquals(dup.sheetName, "p. 1 · tabela 1");
+});
+
+Deno.test("cell grids from other formats follow the same rules", () => {
+  const grid = [["Grupo", "RF (MPa)"], ["G1", "85,3 ± 4,2"], ["G2", "−1,5"]];
+  const table = gridToTable(4, 1, grid)!;
+  assertEquals(table.rows[1], ["G2", "-1,5"]);
+  assertEquals(tablesToSheets([table], "slide")[0].sheetName, "slide 4 · tabela 1");
+  assertEquals(gridToTable(4, 2, [["Etapa", "Responsável"], ["Preparo", "Ana"], ["Ensaio", "Rui"]]), null);
+});
+
+Deno.test("reads pdfjs items and skips whitespace and marked content", () => {
+  const items = toTextItems([
+    { str: "−1,5", transform: [10, 0, 0, 10, 40, 500], width: 20, height: 10 },
+    { str: " ", transform: [10, 0, 0, 10, 60, 500], width: 3, height: 10 },
+    { type: "beginMarkedContent" } as never,
+  ]);
+  assertEquals(items, [{ str: "-1,5", x: 40, y: 500, width: 20, fontSize: 10 }]);
+});
+
+const catalog = [
+  { canonical_name: "flexural_strength", aliases: ["resistencia_flexural", "resistência flexural"] },
+  { canonical_name: "hardness", aliases: ["dureza"] },
+];
+
+const table = {
+  title: "Tabela 2",
+  measurements: [
+    { metric: "flexural_strength", value: 85.3, source_excerpt: "Sheet: p.3 Tabela 2, Row: 2" },
+    { metric: "flexural_strength", value: 60, source_excerpt: "Sheet: p.3 Tabela 2, Row: 3", replicates: [58, 62] },
+  ],
+  citations: [{ page: 3, excerpt: "Row 2" }, { page: 3, excerpt: "Row 3" }],
+};
+
+Deno.test("citationReferences: citations matched by quote or value, not by position", () => {
+  const measurements = [
+    { metric: "Dureza", value: 60, source_excerpt: "dureza de 60 KHN" },
+    { metric: "Resistência flexural", value: 85.3, source_excerpt: "resistência de 85,3 MPa" },
+  ];
+  const refs = citationReferences(measurements, [
+    { excerpt: "O grupo G1 apresentou resistência de 85,3 MPa." },
+    { excerpt: "dureza de 60 KHN" },
+    { excerpt: "Metodologia conforme ISO 4049." },
+  ]);
+  assertEquals(refs, [[1], [0], []]);
+});
+
+Deno.test("dropTableDuplicates: same metric, value and page only", () => {
+  const llm = [{
+    title: "Ensaios",
+    measurements: [
+      // Same value as the table, other metric: kept
+      { metric: "Dureza", value: 60, source_excerpt: "dureza de 60 KHN" },
+      // Table copy on the table page: dropped
+      { metric: "Resistência flexural", value: 85.3, source_excerpt: "resistência de 85,3 MPa" },
+      // Same metric and value, other page: kept
+      { metric: "resistencia_flexural", value: 62, source_excerpt: "valor de 62 MPa no reparo" },
+    ],
+    citations: [
+      { page: 3, excerpt: "O grupo G1 apresentou resistência de 85,3 MPa." },
+      { page: 5, excerpt: "dureza de 60 KHN" },
+      { page: 7, excerpt: "valor de 62 MPa no reparo" },
+    ],
+  }];
+  const { experiments, dropped } = dropTableDuplicates(llm, [table], catalog);
+  assertEquals(experiments[0].measurements.map(m => m.value), [60, 62]);
+  assertEquals(experiments[0].citations.map(c => c.page), [5, 7]);
+  assertEquals(dropped, [{ experiment: "Ensaios", metric: "Resistência flexural", value: 85.3, page: 3 }]);
+});
+
+Deno.test("dropTableDuplicates: unplaced copies match any table page; table-only experiments go", () => {
+  const llm = [{
+    title: "Tabela 2 (cópia)",
+    measurements: [{ metric: "flexural strength", value: 58, source_excerpt: "58" }],
+    citations: [],
+  }];
+  const { experiments, dropped } = dropTableDuplicates(llm, [table], catalog);
+  assertEquals(experiments.length, 0);
+  assertEquals(dropped[0].page, null);
+});
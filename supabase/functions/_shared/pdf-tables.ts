@@ -0,0 +1,391 @@
+/**
+ * Layout-aware table detection for PDFs. pdfjs returns positioned text items;
+ * lines are rebuilt from their baselines, cells from wide horizontal gaps, and
+ * runs of lines whose cells fall into shared column bands become tables. Each
+ * table comes out shaped like a spreadsheet sheet, so the deterministic
+ * spreadsheet path (header mapping, replicate and "mean ± SD" handling) turns
+ * it into measurements, and the page is kept for the citations. LLM
+ * measurements that repeat a table value are dropped with dropTableDuplicates.
+ *
+ * Pure module (no I/O) used by extract-knowledge.
+ */
+
+// ==========================================
+// TYPES
+// ==========================================
+// Text item as returned by pdfjs getTextContent()
+export interface RawPdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export interface PdfTextItem {
+  str: string;
+  // Left edge and baseline, in PDF units (y grows upwards)
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfTable {
+  page: number;
+  // 1-based position among the tables found on the page
+  index: number;
+  // "Tabela 2 - Resistência flexural..." when a caption sits right above
+  caption: string | null;
+  headers: string[];
+  rows: string[][];
+}
+
+// Same shape as the spreadsheet parser's sheets, plus the page
+export interface PdfTableSheet {
+  sheetName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  headerRows: string[][];
+  page: number;
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Line {
+  y: number;
+  fontSize: number;
+  cells: Cell[];
+}
+
+// ==========================================
+// LINES AND CELLS
+// ==========================================
+// Cells are split where the gap between items is wider than this many font sizes
+const CELL_GAP_EM = 0.9;
+// Consecutive table lines are at most this many font sizes apart
+const LINE_GAP_EM = 2.6;
+const MIN_DATA_ROWS = 2;
+
+const NUMERIC_CELL = /^[-+]?\d+(?:[.,]\d+)?(?:\s*(?:±|\+\/-)\s*\d+(?:[.,]\d+)?)?(?:\s*\(\s*\d+(?:[.,]\d+)?\s*\))?\s*[A-Za-z%µ°*†‡]{0,4}$/;
+const CAPTION = /^(tabela|table|tab\.)\s*\d+/i;
+
+export function toTextItems(items: RawPdfTextItem[]): PdfTextItem[] {
+  return items
+    .filter(item => typeof item.str === 'string' && item.str.trim() !== '' && Array.isArray(item.transform))
+    .map(item => ({
+      str: item.str.replace(/−/g, '-'),
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width || 0,
+      fontSize: Math.abs(item.height || item.transform[3] || 10),
+    }));
+}
+
+function groupLines(items: PdfTextItem[]): Line[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: { y: number; fontSize: number; items: PdfTextItem[] }[] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(2, line.fontSize * 0.5)) {
+      line.items.push(item);
+      line.fontSize = Math.max(line.fontSize, item.fontSize);
+    } else {
+      lines.push({ y: item.y, fontSize: item.fontSize, items: [item] });
+    }
+  }
+  return lines.map(line => {
+    const cells: Cell[] = [];
+    for (const item of line.items.sort((a, b) => a.x - b.x)) {
+      const last = cells[cells.length - 1];
+      if (last && item.x - last.x1 < line.fontSize * CELL_GAP_EM) {
+        last.text += item.x - last.x1 > line.fontSize * 0.15 ? ` ${item.str}` : item.str;
+        last.x1 = Math.max(last.x1, item.x + item.width);
+      } else {
+        cells.push({ text: item.str, x0: item.x, x1: item.x + item.width });
+      }
+    }
+    for (const c of cells) c.text = c.text.replace(/\s+/g, ' ').trim();
+    return { y: line.y, fontSize: line.fontSize, cells };
+  });
+}
+
+export function isNumericCell(text: string): boolean {
+  return NUMERIC_CELL.test(text.trim());
+}
+
+// ==========================================
+// TABLES
+// ==========================================
+// Column bands: union of the data cells' horizontal extents
+function columnBands(rows: Line[]): [number, number][] {
+  const spans = rows.flatMap(r => r.cells.map(c => [c.x0, c.x1] as [number, number])).sort((a, b) => a[0] - b[0]);
+  const bands: [number, number][] = [];
+  for (const [x0, x1] of spans) {
+    const last = bands[bands.length - 1];
+    if (last && x0 <= last[1] + 1) last[1] = Math.max(last[1], x1);
+    else bands.push([x0, x1]);
+  }
+  return bands;
+}
+
+function bandOf(cell: Cell, bands: [number, number][]): number {
+  let best = -1;
+  let bestOverlap = 0;
+  bands.forEach(([b0, b1], i) => {
+    const overlap = Math.min(cell.x1, b1) - Math.max(cell.x0, b0);
+    if (overlap > bestOverlap) {
+      best = i;
+      bestOverlap = overlap;
+    }
+  });
+  if (best >= 0) return best;
+  // Header text narrower than the gap between bands: nearest band by centre
+  const centre = (cell.x0 + cell.x1) / 2;
+  return bands.reduce((bi, [b0, b1], i) =>
+    Math.abs((b0 + b1) / 2 - centre) < Math.abs((bands[bi][0] + bands[bi][1]) / 2 - centre) ? i : bi, 0);
+}
+
+function toColumns(line: Line, bands: [number, number][]): string[] {
+  const out = bands.map(() => '');
+  for (const cell of line.cells) {
+    const i = bandOf(cell, bands);
+    out[i] = out[i] ? `${out[i]} ${cell.text}` : cell.text;
+  }
+  return out;
+}
+
+// A table holds data when at least one column is mostly numbers
+function hasNumericColumn(rows: string[][], width: number): boolean {
+  return Array.from({ length: width }, (_, c) => c).some(c =>
+    rows.filter(r => isNumericCell(r[c] ?? '')).length >= Math.ceil(rows.length * 0.6));
+}
+
+function isDataLine(line: Line): boolean {
+  return line.cells.length >= 2 && line.cells.some(c => isNumericCell(c.text));
+}
+
+/**
+ * Finds the tables of one page. A table is a run of close lines with two or
+ * more cells, at least two of them holding numbers; the lines right above the
+ * first numeric line (up to two) form the header.
+ */
+export function detectPageTables(page: number, items: PdfTextItem[]): PdfTable[] {
+  const lines = groupLines(items);
+  const tables: PdfTable[] = [];
+  let taken = 0;
+  let i = 0;
+  while (i < lines.length) {
+    if (!isDataLine(lines[i])) {
+      i++;
+      continue;
+    }
+    // Extend the run of data lines downwards
+    let end = i;
+    while (
+      end + 1 < lines.length &&
+      isDataLine(lines[end + 1]) &&
+      lines[end].y - lines[end + 1].y <= lines[end].fontSize * LINE_GAP_EM
+    ) end++;
+    const data = lines.slice(i, end + 1);
+
+    // Header: up to two multi-cell lines right above the data
+    let start = i;
+    while (
+      start > taken && i - start < 2 &&
+      lines[start - 1].cells.length >= 2 &&
+      lines[start - 1].y - lines[start].y <= lines[start].fontSize * LINE_GAP_EM
+    ) start--;
+    const headerLines = lines.slice(start, i);
+
+    const bands = columnBands(data);
+    const rows = data.map(line => toColumns(line, bands));
+
+    if (bands.length >= 2 && rows.length >= MIN_DATA_ROWS && hasNumericColumn(rows, bands.length)) {
+      const headerCells = headerLines.map(line => toColumns(line, bands));
+      const headers = bands.map((_, c) => headerCells.map(h => h[c]).filter(Boolean).join(' '));
+      const captionLine = lines.slice(Math.max(0, start - 3), start).reverse()
+        .map(l => l.cells.map(c => c.text).join(' '))
+        .find(text => CAPTION.test(text)) ?? null;
+      tables.push({ page, index: tables.length + 1, caption: captionLine, headers, rows });
+    }
+    i = end + 1;
+    taken = i;
+  }
+  return tables;
+}
+
+/**
+ * A table that is already a cell grid (e.g. a PowerPoint table): the first row
+ * is the header, and it is kept under the same rules as detected tables.
+ */
+export function gridToTable(page: number, index: number, grid: string[][]): PdfTable | null {
+  const width = Math.max(0, ...grid.map(r => r.length));
+  const pad = (r: string[]) => Array.from({ length: width }, (_, j) => (r[j] ?? '').replace(/−/g, '-').trim());
+  const [headers, ...rows] = grid.map(pad);
+  if (width < 2 || rows.length < MIN_DATA_ROWS || !hasNumericColumn(rows, width)) return null;
+  return { page, index, caption: null, headers, rows };
+}
+
+// ==========================================
+// SHEETS
+// ==========================================
+// "p. 3 · Tabela 2" (no commas: citations parse "Sheet: <name>," back out of excerpts)
+function tableName(table: PdfTable, location: string): string {
+  const label = table.caption?.match(CAPTION)?.[0].replace(/\s+/g, ' ');
+  return `${location} ${table.page} · ${label ?? `tabela ${table.index}`}`;
+}
+
+/**
+ * Tables as spreadsheet-like sheets; empty or repeated headers get unique keys.
+ * `location` names what the page number counts ("p.", "slide").
+ */
+export function tablesToSheets(tables: PdfTable[], location = 'p.'): PdfTableSheet[] {
+  return tables.map(table => {
+    const seen = new Map<string, number>();
+    const headers = table.headers.map((h, j) => {
+      const base = h || `col_${j}`;
+      const count = (seen.get(base) || 0) + 1;
+      seen.set(base, count);
+      return count > 1 ? `${base} (${count})` : base;
+    });
+    const rows = table.rows.map(r => Object.fromEntries(headers.map((h, j) => [h, r[j] ?? ''])));
+    return {
+      sheetName: tableName(table, location),
+      headers,
+      rows,
+      headerRows: [headers, ...table.rows.slice(0, 2)],
+      page: table.page,
+    };
+  });
+}
+
+// ==========================================
+// LLM COPIES OF TABLE VALUES
+// ==========================================
+// metrics_catalog entry, enough to resolve a metric name to its canonical key
+export interface CatalogMetric {
+  canonical_name: string;
+  aliases: string[] | null;
+}
+
+interface DedupMeasurement {
+  metric: string;
+  value: number;
+  source_excerpt: string;
+  replicates?: number[] | null;
+}
+
+interface DedupCitation {
+  page?: number;
+  excerpt: string;
+}
+
+interface DedupExperiment<M extends DedupMeasurement, C extends DedupCitation> {
+  title: string;
+  measurements: M[];
+  citations: C[];
+}
+
+export interface DroppedDuplicate {
+  experiment: string;
+  metric: string;
+  value: number;
+  page: number | null;
+}
+
+// Same lookup as normalizeMetric in extract-knowledge, without creating entries
+export function canonicalMetricKey(metric: string, catalog: CatalogMetric[]): string {
+  const normalized = metric.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+  const entry = catalog.find(c =>
+    c.canonical_name === normalized || c.aliases?.includes(normalized) || c.aliases?.includes(metric.toLowerCase()));
+  return entry?.canonical_name ?? normalized;
+}
+
+function valueKey(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+function squash(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function numbersIn(text: string): Set<string> {
+  return new Set((text.match(/-?\d+(?:[.,]\d+)?/g) || [])
+    .map(n => Number(n.replace(',', '.')))
+    .filter(Number.isFinite)
+    .map(valueKey));
+}
+
+/**
+ * For each citation, the measurements it references: its excerpt and the
+ * measurement's quote contain one another, or the excerpt shows the
+ * measurement's value. LLM output does not keep citations in measurement order.
+ */
+export function citationReferences(
+  measurements: DedupMeasurement[],
+  citations: DedupCitation[],
+): number[][] {
+  return citations.map(c => {
+    const excerpt = squash(c.excerpt || '');
+    const numbers = numbersIn(c.excerpt || '');
+    return measurements.flatMap((m, i) => {
+      const quote = squash(m.source_excerpt || '');
+      const quoted = excerpt.length > 0 && quote.length > 0 && (excerpt.includes(quote) || quote.includes(excerpt));
+      return quoted || (Number.isFinite(m.value) && numbers.has(valueKey(m.value))) ? [i] : [];
+    });
+  });
+}
+
+/**
+ * Drops LLM measurements already read from a document table: same canonical
+ * metric and value (mean or replicate) on the same page, or on any table page
+ * when no citation places the measurement. A measurement's page comes from the
+ * citations that reference it; a citation goes only when every measurement it
+ * references was dropped. Table experiments pair citation i with measurement i.
+ */
+export function dropTableDuplicates<
+  M extends DedupMeasurement,
+  C extends DedupCitation,
+  E extends DedupExperiment<M, C>,
+>(experiments: E[], tableExperiments: E[], catalog: CatalogMetric[]): { experiments: E[]; dropped: DroppedDuplicate[] } {
+  const onPage = new Set<string>();
+  const anyPage = new Set<string>();
+  for (const exp of tableExperiments) {
+    exp.measurements.forEach((m, i) => {
+      const metric = canonicalMetricKey(m.metric, catalog);
+      const page = exp.citations[i]?.page;
+      for (const v of [m.value, ...(m.replicates || [])]) {
+        if (!Number.isFinite(v)) continue;
+        anyPage.add(`${metric}|${valueKey(v)}`);
+        if (page !== undefined) onPage.add(`${metric}|${page}|${valueKey(v)}`);
+      }
+    });
+  }
+
+  const dropped: DroppedDuplicate[] = [];
+  const kept = experiments.flatMap(exp => {
+    const refs = citationReferences(exp.measurements, exp.citations);
+    const keep = exp.measurements.map((m, i) => {
+      const value = Number(m.value);
+      if (!Number.isFinite(value)) return true;
+      const metric = canonicalMetricKey(m.metric, catalog);
+      const pages = [...new Set(exp.citations.flatMap((c, j) => refs[j].includes(i) && c.page !== undefined ? [c.page] : []))];
+      const duplicate = pages.length > 0
+        ? pages.some(p => onPage.has(`${metric}|${p}|${valueKey(value)}`))
+        : anyPage.has(`${metric}|${valueKey(value)}`);
+      if (duplicate) dropped.push({ experiment: exp.title, metric: m.metric, value, page: pages[0] ?? null });
+      return !duplicate;
+    });
+    if (keep.every(Boolean)) return [exp];
+    const measurements = exp.measurements.filter((_, i) => keep[i]);
+    // Nothing left but the table values: the experiment itself was the table
+    if (measurements.length === 0) return [];
+    const citations = exp.citations.filter((_, j) => refs[j].length === 0 || refs[j].some(i => keep[i]));
+    return [{ ...exp, measurements, citations }];
+  });
+  return { experiments: kept, dropped };
+}
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for conversational query rewriting: follow-up detection, the
+ * standalone rewrite, and falling back to the original query.
+ * Run with: deno test supabase/functions/_shared/query-rewrite.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { AiProvider, ChatResult } from "./ai-provider.ts";
+import { followUpReason, priorTurns, rewriteQuery } from "./query-rewrite.ts";
+
+const history = [
+  { role: "user", content: "Qual a resistência flexural da Vitality?" },
+  { role: "assistant", content: "A Vitality atingiu 135,2 MPa em flexão de 3 pontos [1]." },
+  { role: "user", content: "e a dureza dela?" },
+];
+
+function fakeAi(result: Partial<ChatResult>, calls: string[] = []): AiProvider {
+  return {
+    name: "stub",
+    model: () => "test-model",
+    chat: (request) => {
+      calls.push(request.messages[1].content);
+      return Promise.resolve({ ok: true, status: 200, content: "", toolCall: null, usage: { input: 40, output: 8 }, ...result });
+    },
+    embed: () => Promise.resolve(null),
+  };
+}
+
+const answer = (question: string) => ({
+  toolCall: { name: "rewrite_query", arguments: JSON.stringify({ standalone_question: question }) },
+});
+
+Deno.test("detects follow-ups by opener, reference or length", () => {
+  assertEquals(followUpReason("e a dureza dela?"), "continuation");
+  assertEquals(followUpReason("Qual o grau de conversão desse lote?"), "reference");
+  assertEquals(followUpReason("E no lote B?"), "continuation");
+  assertEquals(followUpReason("dureza Vickers"), "short");
+  assertEquals(followUpReason("Qual a sorção de água da resina RX após 7 dias?"), null);
+});
+
+Deno.test("prior turns exclude the current question", () => {
+  const turns = priorTurns(history, "e a dureza dela?");
+  assertEquals(turns.length, 2);
+  assertEquals(turns[1].role, "assistant");
+});
+
+Deno.test("rewrites a follow-up into a standalone question", async () => {
+  const calls: string[] = [];
+  const rewrite = await rewriteQuery(fakeAi(answer("Qual a dureza da Vitality?"), calls), "e a dureza dela?", history);
+  assertEquals(rewrite.query, "Qual a dureza da Vitality?");
+  assertEquals(rewrite.original, "e a dureza dela?");
+  assertEquals(rewrite.rewritten, true);
+  assertEquals(rewrite.method, "llm");
+  assertEquals(rewrite.reason, "continuation");
+  assertEquals(rewrite.usage, { input: 40, output: 8 });
+  assertEquals(calls.length, 1);
+  assertEquals(calls[0].includes("Usuário: Qual a resistência flexural da Vitality?"), true);
+  assertEquals(calls[0].endsWith("Pergunta atual: e a dureza dela?"), true);
+});
+
+Deno.test("standalone questions and first turns skip the model", async () => {
+  const calls: string[] = [];
+  const ai = fakeAi(answer("ignorada"), calls);
+  const standalone = await rewriteQuery(ai, "Qual a sorção de água da resina RX após 7 dias?", history);
+  assertEquals(standalone.rewritten, false);
+  assertEquals(standalone.method, "none");
+  const first = await rewriteQuery(ai, "e a dureza dela?", [{ role: "user", content: "e a dureza dela?" }]);
+  assertEquals(first.reason, "no_history");
+  assertEquals(calls.length, 0);
+});
+
+Deno.test("a failed or unchanged rewrite keeps the original query", async () => {
+  const failed = await rewriteQuery(fakeAi({ ok: false, status: 429, error: "rate limited" }), "e a dureza dela?", history);
+  assertEquals(failed.query, "e a dureza dela?");
+  assertEquals(failed.rewritten, false);
+  assertEquals(failed.error, "rate limited");
+
+  const empty = await rewriteQuery(fakeAi(answer("  ")), "e a dureza dela?", history);
+  assertEquals(empty.query, "e a dureza dela?");
+  assertEquals(empty.error, "Query rewrite returned an empty question");
+
+  const same = await rewriteQuery(fakeAi(answer("E a dureza dela?")), "e a dureza dela?", history);
+  assertEquals(same.rewritten, false);
+  assertEquals(same.error, undefined);
+});
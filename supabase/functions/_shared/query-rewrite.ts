@@ -0,0 +1,151 @@
+/**
+ * Conversational query rewriting for rag-answer.
+ *
+ * Follow-ups like "e a dureza dela?" only make sense next to the previous
+ * turns, but intent detection, constraint extraction and the constraint gate
+ * all read the query text alone. When the query looks like a follow-up, the
+ * fast model resolves its references against the conversation history into a
+ * standalone question, and that question is what gets routed.
+ *
+ * Self-contained questions (or a first turn) skip the model call. A failed
+ * call keeps the original query, so rewriting can never block an answer.
+ */
+
+import type { AiProvider } from './ai-provider.ts';
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface ConversationTurn {
+  role: string;
+  content: string;
+}
+
+export type RewriteMethod = 'none' | 'llm';
+
+export interface QueryRewrite {
+  original: string;
+  // Query routed through the pipeline (the original when not rewritten)
+  query: string;
+  rewritten: boolean;
+  method: RewriteMethod;
+  // Why the rewrite was attempted (or skipped)
+  reason: string;
+  latency_ms: number;
+  usage: { input: number; output: number };
+  error?: string;
+}
+
+const HISTORY_TURNS = 6;
+const TURN_CHARS = 600;
+const MAX_REWRITE_CHARS = 500;
+const REWRITE_TIMEOUT_MS = 10_000;
+
+// ==========================================
+// FOLLOW-UP DETECTION
+// ==========================================
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+// Pronouns and demonstratives that point back to an earlier turn
+const REFERENCE_PATTERN =
+  /\b(dela|dele|delas|deles|nela|nele|nelas|neles|ela|ele|elas|eles|isso|isto|disso|disto|nisso|esse|essa|esses|essas|desse|dessa|desses|dessas|nesse|nessa|este|deste|desta|neste|nesta|mesmo|mesma|mesmos|mesmas|anterior|anteriores|acima|aquele|aquela|daquele|daquela|it|its|them|those)\b/;
+
+// Openers that continue the previous question ("e a dureza?", "e quanto ao lote B?")
+const CONTINUATION_PATTERN =
+  /^(e|mas|entao|tambem|and|what about|how about)\b/;
+
+// Returns the reason the query needs the history, or null when it stands alone
+export function followUpReason(query: string): string | null {
+  const q = normalize(query);
+  if (CONTINUATION_PATTERN.test(q)) return 'continuation';
+  if (REFERENCE_PATTERN.test(q)) return 'reference';
+  const words = q.split(/\s+/).filter(Boolean);
+  if (words.length <= 3) return 'short';
+  return null;
+}
+
+// History without the current question (callers send it as the last turn)
+export function priorTurns(history: ConversationTurn[] | null | undefined, query: string): ConversationTurn[] {
+  const turns = (history || []).filter(t => (t.role === 'user' || t.role === 'assistant') && t.content?.trim());
+  const last = turns[turns.length - 1];
+  if (last && last.role === 'user' && last.content.trim() === query.trim()) turns.pop();
+  return turns.slice(-HISTORY_TURNS);
+}
+
+// ==========================================
+// REWRITE
+// ==========================================
+export async function rewriteQuery(
+  ai: AiProvider,
+  query: string,
+  history: ConversationTurn[] | null | undefined,
+): Promise<QueryRewrite> {
+  const started = Date.now();
+  const result: QueryRewrite = {
+    original: query, query, rewritten: false, method: 'none', reason: 'standalone',
+    latency_ms: 0, usage: { input: 0, output: 0 },
+  };
+
+  const turns = priorTurns(history, query);
+  if (!turns.some(t => t.role === 'user')) {
+    result.reason = 'no_history';
+    return result;
+  }
+  const reason = followUpReason(query);
+  if (!reason) return result;
+  result.reason = reason;
+  result.method = 'llm';
+
+  const transcript = turns
+    .map(t => `${t.role === 'user' ? 'Usuário' : 'Assistente'}: ${t.content.replace(/\s+/g, ' ').slice(0, TURN_CHARS)}`)
+    .join('\n');
+
+  try {
+    const completion = await ai.chat({
+      model: ai.model('fast'),
+      temperature: 0,
+      messages: [
+        {
+          role: 'system',
+          content: 'Você reescreve perguntas de acompanhamento de uma conversa sobre P&D de materiais odontológicos. Resolva pronomes e referências ("dela", "isso", "e a dureza?") usando o histórico e devolva UMA pergunta autossuficiente, no idioma do usuário, com os nomes de materiais, aditivos, propriedades e experimentos explícitos. Não responda à pergunta e não acrescente nada que o usuário não pediu. Se a pergunta já for autossuficiente, devolva-a sem mudanças.',
+        },
+        { role: 'user', content: `Histórico:\n${transcript}\n\nPergunta atual: ${query}` },
+      ],
+      tools: [{
+        type: 'function',
+        function: {
+          name: 'rewrite_query',
+          description: 'Pergunta autossuficiente equivalente à pergunta atual',
+          parameters: {
+            type: 'object',
+            properties: {
+              standalone_question: { type: 'string' },
+            },
+            required: ['standalone_question'],
+          },
+        },
+      }],
+      tool_choice: { type: 'function', function: { name: 'rewrite_query' } },
+    }, { signal: AbortSignal.timeout(REWRITE_TIMEOUT_MS) });
+    result.usage = completion.usage;
+
+    if (!completion.ok || !completion.toolCall) {
+      throw new Error(completion.error || `Query rewrite call failed (${completion.status})`);
+    }
+    const { standalone_question } = JSON.parse(completion.toolCall.arguments) as { standalone_question?: string };
+    const rewritten = (standalone_question || '').replace(/\s+/g, ' ').trim();
+    if (!rewritten) throw new Error('Query rewrite returned an empty question');
+    if (rewritten.length > MAX_REWRITE_CHARS) throw new Error('Query rewrite returned an overlong question');
+
+    if (normalize(rewritten) !== normalize(query)) {
+      result.query = rewritten;
+      result.rewritten = true;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  result.latency_ms = Date.now() - started;
+  return result;
+}
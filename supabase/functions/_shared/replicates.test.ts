@@ -0,0 +1,68 @@
+/**
+ * Unit tests for replicate groups: "mean ± SD" parsing, replicate column
+ * detection and exact pooling of summaries.
+ * Run with: deno test supabase/functions/_shared/replicates.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  groupReplicateColumns,
+  measurementSummary,
+  parseMeanSd,
+  poolSummaries,
+  replicateStats,
+  statColumnKind,
+  summarizeReplicates,
+} from "./replicates.ts";
+
+function near(actual: number | null, expected: number, tolerance = 1e-9): boolean {
+  return actual !== null && Math.abs(actual - expected) <= tolerance;
+}
+
+Deno.test("parses mean ± spread cells with decimal commas, units, n and SEM", () => {
+  assertEquals(parseMeanSd("85,3 ± 4,2"), { mean: 85.3, spread: 4.2, kind: 'sd', n: null });
+  assertEquals(parseMeanSd("85.3 +/- 4.2 MPa (n=10)"), { mean: 85.3, spread: 4.2, kind: 'sd', n: 10 });
+  assertEquals(parseMeanSd("85,3 MPa ± 4,2 MPa"), { mean: 85.3, spread: 4.2, kind: 'sd', n: null });
+  assertEquals(parseMeanSd("12,1 ± 0,8 (EPM), n = 5"), { mean: 12.1, spread: 0.8, kind: 'sem', n: 5 });
+  assertEquals(parseMeanSd("85.3 (4.2)"), { mean: 85.3, spread: 4.2, kind: 'sd', n: null });
+  assertEquals(parseMeanSd("85,3"), null);
+  assertEquals(parseMeanSd("UDMA/TEGDMA 70/30"), null);
+});
+
+Deno.test("detects replicate columns but not numbered time points", () => {
+  assertEquals(groupReplicateColumns(["Grupo", "CP1", "CP2", "CP3", "Média"]), [["CP1", "CP2", "CP3"]]);
+  assertEquals(groupReplicateColumns(["RF 2 (MPa)", "RF 1 (MPa)", "MF (GPa)"]), [["RF 1 (MPa)", "RF 2 (MPa)"]]);
+  assertEquals(groupReplicateColumns(["Sorção 7", "Sorção 14", "Sorção 28"]), []);
+  assertEquals(groupReplicateColumns(["Amostra 3", "Amostra 5"]), [["Amostra 3", "Amostra 5"]]);
+  assertEquals(statColumnKind("DP (MPa)"), 'sd');
+  assertEquals(statColumnKind("Desvio padrão"), 'sd');
+  assertEquals(statColumnKind("EPM"), 'sem');
+  assertEquals(statColumnKind("n"), 'n');
+  assertEquals(statColumnKind("RF sem envelhecimento (MPa)"), null);
+});
+
+Deno.test("completes replicate fields from specimens, SD or SEM", () => {
+  const s = summarizeReplicates([80, 85, 90]);
+  assertEquals([s.n, s.mean, s.sd], [3, 85, 5]);
+  assert(near(s.sem, 5 / Math.sqrt(3)));
+  assertEquals(replicateStats({ value: 0, replicates: [80, 85, 90] }).mean, 85);
+  assert(near(replicateStats({ value: 12, n: 4, sem: 1 }).sd, 2));
+  assertEquals(replicateStats({ value: 12, n: 1, sd: 3 }).sd, null);
+  assertEquals(replicateStats({ value: 85.3, sd: 4.2 }), { n: null, mean: 85.3, sd: 4.2, sem: null });
+  assertEquals(measurementSummary({ value: 85, n: 10 }), { n: 1, mean: 85, sd: null });
+});
+
+Deno.test("pooling summaries equals the statistics of the concatenated specimens", () => {
+  const a = [80, 85, 90];
+  const b = [70, 72, 74, 76];
+  const pooled = poolSummaries([summarizeReplicates(a), summarizeReplicates(b)])!;
+  const direct = summarizeReplicates([...a, ...b]);
+  assertEquals(pooled.n, 7);
+  assert(near(pooled.mean, direct.mean));
+  assert(near(pooled.sd, direct.sd!));
+  assert(near(pooled.sem, direct.sem!));
+  // Averaging the two means would give 79; weighting by n gives 547/7
+  assert(near(pooled.mean, 547 / 7));
+  assertEquals(poolSummaries([]), null);
+  assertEquals(poolSummaries([{ n: 1, mean: 5, sd: null }]), { n: 1, mean: 5, sd: null, sem: null });
+});
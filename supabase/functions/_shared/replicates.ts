@@ -0,0 +1,194 @@
+/**
+ * Replicate groups: a measurement is either a list of specimen values (CP1..CPn)
+ * or a reported summary "mean ± SD (n)". Parses summary strings from cells and
+ * papers, detects replicate columns in spreadsheet headers and pools groups with
+ * the exact combined mean and SD (never an average of means).
+ *
+ * Pure module (no I/O) shared by extract-knowledge, measurement-groups,
+ * analyze-metric-trends and the statistics module.
+ */
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface ReplicateSummary {
+  n: number;
+  mean: number;
+  // Sample SD; null when n = 1 (or the spread was not reported)
+  sd: number | null;
+}
+
+export interface ReplicateStats extends ReplicateSummary {
+  sem: number | null;
+}
+
+// Stored replicate fields of one measurement; n is null when it was not reported
+export interface MeasurementStats {
+  n: number | null;
+  mean: number;
+  sd: number | null;
+  sem: number | null;
+}
+
+export interface ParsedMeanSd {
+  mean: number;
+  // Dispersion as written; `kind` says whether it is a SD or a SEM
+  spread: number;
+  kind: 'sd' | 'sem';
+  n: number | null;
+}
+
+// Replicate fields of a measurement row (value holds the mean)
+export interface ReplicateFields {
+  value: number;
+  n?: number | null;
+  sd?: number | null;
+  sem?: number | null;
+  replicates?: number[] | null;
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+const NUMBER = String.raw`[-+]?\d+(?:[.,]\d+)?(?:[eE][-+]?\d+)?`;
+const PLUS_MINUS = String.raw`(?:±|\+\/-|\+-|\+\/−)`;
+const N_CLAUSE = String.raw`(?:[\s,;]*\(?\s*n\s*=\s*(\d+)\s*\)?)?`;
+const TRAILER = String.raw`(?:\s*[a-zA-Zµμ%°/²³·]+(?:\s*[a-zA-Zµμ%°/²³·]+)?)?`;
+
+// "85,3 ± 4,2", "85.3 +/- 4.2 MPa (n=10)", "85,3 ± 4,2 (EPM)"
+const PLUS_MINUS_PATTERN = new RegExp(
+  String.raw`^\s*(${NUMBER})\s*${TRAILER}\s*${PLUS_MINUS}\s*(${NUMBER})\s*(?:\(?\s*(sd|dp|s\.d\.|sem|epm|se|s\.e\.m\.)\s*\)?)?${TRAILER}${N_CLAUSE}\s*$`,
+  'i',
+);
+// "85.3 (4.2)" — mean (SD) notation
+const PARENS_PATTERN = new RegExp(String.raw`^\s*(${NUMBER})\s*\(\s*(${NUMBER})\s*\)${TRAILER}${N_CLAUSE}\s*$`);
+
+export function parseDecimal(raw: string): number {
+  return Number(raw.trim().replace(',', '.'));
+}
+
+/**
+ * Parses a "mean ± spread" cell. Returns null for plain numbers and anything
+ * else, so callers fall back to their single-value path.
+ */
+export function parseMeanSd(raw: string): ParsedMeanSd | null {
+  const text = String(raw);
+  const pm = text.match(PLUS_MINUS_PATTERN);
+  if (pm) {
+    const mean = parseDecimal(pm[1]);
+    const spread = parseDecimal(pm[2]);
+    if (!Number.isFinite(mean) || !Number.isFinite(spread) || spread < 0) return null;
+    const kind = pm[3] && /^(sem|epm|se|s\.e\.m\.)$/i.test(pm[3]) ? 'sem' : 'sd';
+    return { mean, spread, kind, n: pm[4] ? parseInt(pm[4], 10) : null };
+  }
+  const parens = text.match(PARENS_PATTERN);
+  if (parens) {
+    const mean = parseDecimal(parens[1]);
+    const spread = parseDecimal(parens[2]);
+    if (!Number.isFinite(mean) || !Number.isFinite(spread) || spread < 0) return null;
+    return { mean, spread, kind: 'sd', n: parens[3] ? parseInt(parens[3], 10) : null };
+  }
+  return null;
+}
+
+// ==========================================
+// REPLICATE COLUMNS
+// ==========================================
+const REPLICATE_HEADER = /^(.*?)[\s_\-#.:]*(cp|rep|réplica|replica|amostra|sample|specimen|corpo de prova)?[\s_\-#.:]*(\d{1,2})\s*(\([^)]*\))?$/i;
+
+// Base label and index of a header like "CP3", "Rep 2", "RF 4 (MPa)"
+export function replicateIndex(header: string): { base: string; index: number; marked: boolean } | null {
+  const m = String(header).trim().match(REPLICATE_HEADER);
+  if (!m) return null;
+  const base = `${m[1].trim()}${m[4] ? ` ${m[4]}` : ''}`.toLowerCase().replace(/\s+/g, ' ');
+  return { base, index: parseInt(m[3], 10), marked: !!m[2] };
+}
+
+/**
+ * Groups headers that are numbered replicates of the same base (CP1..CP10,
+ * "RF 1".."RF 5"). A run needs two or more indices and either a replicate
+ * marker (CP, Rep, Amostra...) or indices 1..k, so "Sorção 7"/"Sorção 14"
+ * (days) stay separate columns.
+ */
+export function groupReplicateColumns(headers: string[]): string[][] {
+  const byBase = new Map<string, { header: string; index: number; marked: boolean }[]>();
+  for (const header of headers) {
+    const r = replicateIndex(header);
+    if (!r) continue;
+    if (!byBase.has(r.base)) byBase.set(r.base, []);
+    byBase.get(r.base)!.push({ header, ...r });
+  }
+  const groups: string[][] = [];
+  for (const members of byBase.values()) {
+    const indices = [...new Set(members.map(m => m.index))].sort((a, b) => a - b);
+    if (indices.length < 2) continue;
+    const consecutive = indices.every((v, i) => v === i + 1);
+    if (!consecutive && !members.every(m => m.marked)) continue;
+    groups.push(members.sort((a, b) => a.index - b.index).map(m => m.header));
+  }
+  return groups;
+}
+
+// Columns that carry the dispersion or the sample size of a neighbouring mean
+export function statColumnKind(header: string): 'sd' | 'sem' | 'n' | null {
+  const h = String(header).trim().toLowerCase();
+  if (/^(n|n amostras|n de amostras|nº de amostras|n° de amostras|réplicas|replicas|n replicates|sample size)$/.test(h)) return 'n';
+  // "sem" alone is also Portuguese for "without" ("RF sem envelhecimento")
+  if (/^(sem|epm)\b|\b(epm|s\.e\.m\.|erro[\s-]padr[ãa]o|standard error)\b/.test(h)) return 'sem';
+  if (/\b(sd|dp|s\.d\.|desvio[\s-]padr[ãa]o|std|stdev|standard deviation)\b/.test(h)) return 'sd';
+  return null;
+}
+
+// ==========================================
+// SUMMARIES
+// ==========================================
+export function summarizeReplicates(values: number[]): ReplicateStats {
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((s, v) => s + v, 0) / n : NaN;
+  const sd = n >= 2 ? Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1)) : null;
+  return { n, mean, sd, sem: sd === null ? null : sd / Math.sqrt(n) };
+}
+
+/**
+ * Completes the replicate fields of a measurement: specimen values win, then a
+ * reported SD, then a SD recovered from a SEM (SD = SEM·√n). Without n the
+ * reported spread is kept as is.
+ */
+export function replicateStats(fields: ReplicateFields): MeasurementStats {
+  const replicates = (fields.replicates || []).filter(v => Number.isFinite(v));
+  if (replicates.length > 0) return summarizeReplicates(replicates);
+  const n = fields.n && fields.n >= 1 ? Math.round(fields.n) : null;
+  if (n === 1) return { n, mean: fields.value, sd: null, sem: null };
+  let sd = fields.sd ?? null;
+  if (sd === null && fields.sem != null && n !== null) sd = fields.sem * Math.sqrt(n);
+  const sem = sd !== null && n !== null ? sd / Math.sqrt(n) : fields.sem ?? null;
+  return { n, mean: fields.value, sd, sem };
+}
+
+/**
+ * What a stored measurement contributes to a pooled estimate. A mean of n > 1
+ * specimens with no reported spread counts as one observation: its
+ * within-group variance is unknown.
+ */
+export function measurementSummary(fields: ReplicateFields): ReplicateSummary {
+  const stats = replicateStats(fields);
+  return stats.n !== null && stats.n > 1 && stats.sd !== null
+    ? { n: stats.n, mean: stats.mean, sd: stats.sd }
+    : { n: 1, mean: stats.mean, sd: null };
+}
+
+/**
+ * Exact pooled mean and SD of several replicate groups:
+ * mean = Σnᵢx̄ᵢ / N, SS = Σ(nᵢ−1)sᵢ² + Σnᵢ(x̄ᵢ−mean)², SD = √(SS / (N−1)).
+ * Groups with n > 1 must carry their SD (see measurementSummary).
+ */
+export function poolSummaries(parts: ReplicateSummary[]): ReplicateStats | null {
+  const usable = parts.filter(p => p.n >= 1 && Number.isFinite(p.mean));
+  const total = usable.reduce((s, p) => s + p.n, 0);
+  if (total === 0) return null;
+  const mean = usable.reduce((s, p) => s + p.n * p.mean, 0) / total;
+  if (total < 2) return { n: total, mean, sd: null, sem: null };
+  const ss = usable.reduce((s, p) => s + (p.n - 1) * (p.sd ?? 0) ** 2 + p.n * (p.mean - mean) ** 2, 0);
+  const sd = Math.sqrt(ss / (total - 1));
+  return { n: total, mean, sd, sem: sd / Math.sqrt(total) };
+}
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for the reranking stages: MMR demotes near-duplicate chunks,
+ * the LLM stage orders by graded relevance, failing stages keep the order.
+ * Run with: deno test supabase/functions/_shared/reranking.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { AiProvider, ChatResult } from "./ai-provider.ts";
+import { createRerankers, llmReranker, mmrReranker, parseRerankStages, rerank } from "./reranking.ts";
+
+const row = (n: number) =>
+  `[Tipo: file] [Título: Flexão.xlsx] [Seção: Flexão]\n\nAmostra,Resistência flexural (MPa)\nF${n},${80 + n}.2`;
+
+const candidates = [
+  { id: "row1", text: row(1), score: 0.92 },
+  { id: "row2", text: row(2), score: 0.91 },
+  { id: "row3", text: row(3), score: 0.90 },
+  { id: "para", text: "[Tipo: report] [Título: Relatório]\n\nA resistência flexural do lote A caiu após termociclagem.", score: 0.85 },
+];
+
+function fakeAi(result: Partial<ChatResult>): AiProvider {
+  return {
+    name: "stub",
+    model: () => "test-model",
+    chat: () => Promise.resolve({ ok: true, status: 200, content: "", toolCall: null, usage: { input: 0, output: 0 }, ...result }),
+    embed: () => Promise.resolve(null),
+  };
+}
+
+Deno.test("mmr lifts a distinct paragraph above near-duplicate spreadsheet rows", async () => {
+  const { items, log } = await rerank("resistência flexural após termociclagem", candidates, [mmrReranker()]);
+  assertEquals(items.map(c => c.id).slice(0, 2), ["para", "row1"]);
+  assertEquals(log.length, 1);
+  assertEquals(log[0].stage, "mmr");
+  assertEquals(log[0].top_before.slice(0, 2), ["row1", "row2"]);
+  assertEquals(log[0].top_after[0], "para");
+  assertEquals(log[0].candidates, 4);
+});
+
+Deno.test("llm stage orders by graded relevance; ungraded passages go last", async () => {
+  const ai = fakeAi({
+    toolCall: { name: "rank_passages", arguments: JSON.stringify({ scores: [{ index: 3, relevance: 9 }, { index: 1, relevance: 4 }] }) },
+  });
+  const { items } = await rerank("termociclagem", candidates, [llmReranker(ai)]);
+  assertEquals(items.map(c => c.id), ["para", "row2", "row1", "row3"]);
+  assertEquals(items[0].score, 0.9);
+});
+
+Deno.test("a failing stage keeps the previous order and logs the error", async () => {
+  const ai = fakeAi({ ok: false, status: 429, error: "rate limited" });
+  const { items, log } = await rerank("termociclagem", candidates, [llmReranker(ai)]);
+  assertEquals(items.map(c => c.id), ["row1", "row2", "row3", "para"]);
+  assertEquals(log[0].error, "rate limited");
+  assertEquals(log[0].moved, 0);
+});
+
+Deno.test("stage configuration ignores unknown names and needs a provider for llm", () => {
+  assertEquals(parseRerankStages(undefined), ["mmr"]);
+  assertEquals(parseRerankStages("llm, mmr, bm25, llm"), ["llm", "mmr"]);
+  assertEquals(parseRerankStages(""), []);
+  assertEquals(createRerankers(["llm", "mmr"], null).map(r => r.name), ["mmr"]);
+});
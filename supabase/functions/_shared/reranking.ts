@@ -0,0 +1,244 @@
+/**
+ * Second-stage reranking after hybrid retrieval (search-hybrid and
+ * rag-answer's searchChunks).
+ *
+ * Stages run in order over the retrieved candidates:
+ * - mmr: local lexical relevance (query term coverage blended with the
+ *   retrieval score) + maximal marginal relevance, so near-duplicate chunks
+ *   (e.g. consecutive rows of one spreadsheet) stop crowding out the rest.
+ * - llm: the model grades each passage 0-10 for the query (one tool call).
+ *
+ * A stage that fails leaves the order as it was; every stage is logged
+ * (RerankStageLog) so its effect can be measured in rag_logs.diagnostics.
+ * Stages come from RERANK_STAGES (comma-separated, default "mmr").
+ */
+
+import type { AiProvider } from './ai-provider.ts';
+
+// ==========================================
+// TYPES
+// ==========================================
+export type RerankerName = 'mmr' | 'llm';
+
+export const RERANKER_NAMES: RerankerName[] = ['mmr', 'llm'];
+export const DEFAULT_RERANK_STAGES: RerankerName[] = ['mmr'];
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+  // Retrieval score (higher is better)
+  score: number;
+}
+
+export interface Reranker {
+  name: RerankerName;
+  // Returns the candidates reordered, with their new scores. The order is the
+  // result: mmr scores are relevance and do not follow its diversity order
+  rerank: (query: string, candidates: RerankCandidate[]) => Promise<RerankCandidate[]>;
+}
+
+export interface RerankStageLog {
+  stage: RerankerName;
+  // Set by callers that rerank more than one candidate list
+  scope?: string;
+  candidates: number;
+  latency_ms: number;
+  // Candidates whose position changed
+  moved: number;
+  top_before: string[];
+  top_after: string[];
+  error?: string;
+}
+
+const LOG_TOP = 5;
+
+// ==========================================
+// CONFIG
+// ==========================================
+export function parseRerankStages(value: string | string[] | null | undefined): RerankerName[] {
+  if (value === null || value === undefined) return DEFAULT_RERANK_STAGES;
+  const names = (Array.isArray(value) ? value : value.split(','))
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean);
+  return names.filter((n, i): n is RerankerName =>
+    (RERANKER_NAMES as string[]).includes(n) && names.indexOf(n) === i
+  );
+}
+
+// The llm stage is skipped when no AI provider is available
+export function createRerankers(names: RerankerName[], ai: AiProvider | null): Reranker[] {
+  const rerankers: Reranker[] = [];
+  for (const name of names) {
+    if (name === 'mmr') rerankers.push(mmrReranker());
+    else if (name === 'llm' && ai) rerankers.push(llmReranker(ai));
+  }
+  return rerankers;
+}
+
+// ==========================================
+// LEXICAL / MMR
+// ==========================================
+const STOPWORDS = new Set([
+  'que', 'para', 'com', 'uma', 'dos', 'das', 'nos', 'nas', 'por', 'qual', 'quais', 'como', 'mais', 'menos',
+  'entre', 'sobre', 'foi', 'sao', 'ser', 'tem', 'este', 'esta', 'esse', 'essa', 'isso', 'the', 'and', 'for',
+  'with', 'what', 'which', 'from', 'tipo', 'projeto', 'titulo',
+]);
+
+export function tokenize(text: string): Set<string> {
+  const tokens = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^a-z0-9]+/);
+  return new Set(tokens.filter(t => t.length >= 3 && !STOPWORDS.has(t)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export function mmrReranker(lambda = 0.7): Reranker {
+  return {
+    name: 'mmr',
+    rerank: (query, candidates) => {
+      const queryTokens = tokenize(query);
+      const maxScore = Math.max(...candidates.map(c => c.score), 0) || 1;
+      const pool = candidates.map(c => {
+        const tokens = tokenize(c.text);
+        let covered = 0;
+        for (const t of queryTokens) if (tokens.has(t)) covered++;
+        const lexical = queryTokens.size > 0 ? covered / queryTokens.size : 0;
+        return { c, tokens, relevance: 0.5 * (c.score / maxScore) + 0.5 * lexical };
+      });
+
+      const selected: typeof pool = [];
+      while (pool.length > 0) {
+        let best = 0;
+        let bestValue = -Infinity;
+        for (const [i, p] of pool.entries()) {
+          const redundancy = selected.length > 0 ? Math.max(...selected.map(s => jaccard(p.tokens, s.tokens))) : 0;
+          const value = lambda * p.relevance - (1 - lambda) * redundancy;
+          if (value > bestValue) {
+            best = i;
+            bestValue = value;
+          }
+        }
+        selected.push(pool.splice(best, 1)[0]);
+      }
+      return Promise.resolve(selected.map(s => ({ ...s.c, score: s.relevance })));
+    },
+  };
+}
+
+// ==========================================
+// LLM
+// ==========================================
+const LLM_PASSAGE_CHARS = 600;
+const LLM_TIMEOUT_MS = 15_000;
+
+export function llmReranker(ai: AiProvider): Reranker {
+  return {
+    name: 'llm',
+    rerank: async (query, candidates) => {
+      const passages = candidates
+        .map((c, i) => `[${i}] ${c.text.replace(/\s+/g, ' ').slice(0, LLM_PASSAGE_CHARS)}`)
+        .join('\n\n');
+      const completion = await ai.chat({
+        model: ai.model('fast'),
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content: 'Você avalia trechos recuperados para uma pergunta sobre materiais odontológicos. Dê a cada trecho uma nota de 0 (irrelevante) a 10 (responde diretamente à pergunta). Trechos repetidos ou genéricos recebem nota baixa.',
+          },
+          { role: 'user', content: `Pergunta: ${query}\n\nTrechos:\n${passages}` },
+        ],
+        tools: [{
+          type: 'function',
+          function: {
+            name: 'rank_passages',
+            description: 'Nota de relevância de cada trecho',
+            parameters: {
+              type: 'object',
+              properties: {
+                scores: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      index: { type: 'integer' },
+                      relevance: { type: 'number' },
+                    },
+                    required: ['index', 'relevance'],
+                  },
+                },
+              },
+              required: ['scores'],
+            },
+          },
+        }],
+        tool_choice: { type: 'function', function: { name: 'rank_passages' } },
+      }, { signal: AbortSignal.timeout(LLM_TIMEOUT_MS) });
+
+      if (!completion.ok || !completion.toolCall) {
+        throw new Error(completion.error || `LLM reranker call failed (${completion.status})`);
+      }
+      const { scores } = JSON.parse(completion.toolCall.arguments) as { scores?: { index: number; relevance: number }[] };
+      const relevance = new Map<number, number>();
+      for (const s of scores || []) {
+        if (Number.isInteger(s.index) && s.index >= 0 && s.index < candidates.length && Number.isFinite(s.relevance)) {
+          relevance.set(s.index, s.relevance);
+        }
+      }
+      if (relevance.size === 0) throw new Error('LLM reranker returned no scores');
+
+      // Ungraded passages go last, in their previous order
+      return candidates
+        .map((c, i) => ({ c, i, r: relevance.get(i) ?? -1 }))
+        .sort((a, b) => b.r - a.r || a.i - b.i)
+        .map(({ c, r }) => ({ ...c, score: r >= 0 ? r / 10 : 0 }));
+    },
+  };
+}
+
+// ==========================================
+// PIPELINE
+// ==========================================
+export async function rerank<T extends RerankCandidate>(
+  query: string,
+  items: T[],
+  stages: Reranker[]
+): Promise<{ items: T[]; log: RerankStageLog[] }> {
+  const log: RerankStageLog[] = [];
+  let current = items;
+  if (items.length < 2) return { items, log };
+
+  for (const stage of stages) {
+    const started = Date.now();
+    const before = current.map(c => c.id);
+    const entry: RerankStageLog = {
+      stage: stage.name,
+      candidates: current.length,
+      latency_ms: 0,
+      moved: 0,
+      top_before: before.slice(0, LOG_TOP),
+      top_after: before.slice(0, LOG_TOP),
+    };
+    try {
+      const reranked = await stage.rerank(query, current.map(c => ({ id: c.id, text: c.text, score: c.score })));
+      const byId = new Map(current.map(c => [c.id, c]));
+      const next = reranked
+        .filter(r => byId.has(r.id))
+        .map(r => ({ ...byId.get(r.id)!, score: r.score }));
+      // A stage may not drop candidates
+      const seen = new Set(next.map(c => c.id));
+      current = [...next, ...current.filter(c => !seen.has(c.id))];
+      entry.moved = current.filter((c, i) => before[i] !== c.id).length;
+      entry.top_after = current.slice(0, LOG_TOP).map(c => c.id);
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+    entry.latency_ms = Date.now() - started;
+    log.push(entry);
+  }
+  return { items: current, log };
+}
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the review exclusion fingerprints: normalisation, and
+ * dropping excluded measurements together with their paired citations.
+ * Run with: deno test supabase/functions/_shared/review-exclusions.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  claimFingerprint,
+  dropExcludedMeasurements,
+  exclusionKey,
+  knowledgeFingerprint,
+  measurementFingerprint,
+  toExclusionSet,
+} from "./review-exclusions.ts";
+
+Deno.test("fingerprints ignore case, accents and punctuation", () => {
+  assertEquals(
+    knowledgeFingerprint("result", "Resistência flexural: 132 MPa!"),
+    knowledgeFingerprint("result", "resistencia  FLEXURAL 132 mpa"),
+  );
+  assert(knowledgeFingerprint("result", "Dureza") !== knowledgeFingerprint("method", "Dureza"));
+  assertEquals(
+    claimFingerprint("superlative", "A formulação F3 superou todas as demais."),
+    claimFingerprint("superlative", "a formulacao f3 superou todas as demais"),
+  );
+});
+
+Deno.test("measurement fingerprints round the value to 6 significant digits", () => {
+  assertEquals(measurementFingerprint("Flexural Strength", 132.40000001), "flexural strength|132.4");
+  assert(measurementFingerprint("flexural_strength", 132.4) !== measurementFingerprint("flexural_strength", 132.5));
+});
+
+Deno.test("drops excluded measurements with the citation paired by index", () => {
+  const exclusions = toExclusionSet([
+    { item_type: "measurement", fingerprint: measurementFingerprint("flexural_strength", 90) },
+    { item_type: "knowledge", fingerprint: knowledgeFingerprint("result", "x") },
+  ]);
+  assert(exclusions.has(exclusionKey("knowledge", "result|x")));
+
+  const experiments = [{
+    title: "F1",
+    measurements: [
+      { metric: "flexural_strength", value: 85 },
+      // Replicate group: fingerprinted by the mean (90)
+      { metric: "flexural_strength", value: 0, replicates: [85, 90, 95] },
+      { metric: "hardness", value: 90 },
+    ],
+    citations: [{ excerpt: "a" }, { excerpt: "b" }, { excerpt: "c" }, { excerpt: "experiment" }],
+  }];
+
+  const { experiments: kept, dropped } = dropExcludedMeasurements(experiments, exclusions);
+  assertEquals(dropped, 1);
+  assertEquals(kept[0].measurements.map(m => m.metric), ["flexural_strength", "hardness"]);
+  assertEquals(kept[0].citations.map(c => c.excerpt), ["a", "c", "experiment"]);
+});
+
+Deno.test("leaves experiments untouched without exclusions", () => {
+  const experiments = [{ measurements: [{ metric: "x", value: 1 }], citations: [] }];
+  assert(dropExcludedMeasurements(experiments, new Set()).experiments === experiments);
+});
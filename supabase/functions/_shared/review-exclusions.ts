@@ -0,0 +1,79 @@
+/**
+ * Fingerprints of extracted items, used by the extraction review queue. When a
+ * reviewer rejects an item, its fingerprint is stored in extraction_exclusions
+ * for the source file; the next extraction of that file (e.g. a new version)
+ * drops items with the same fingerprint before saving them.
+ *
+ * Fingerprints ignore case, accents and punctuation so that a re-extraction
+ * phrasing the same item slightly differently is still recognised.
+ * review_extraction_items computes the same fingerprints in SQL
+ * (review_item_fingerprint) from the rejected item; keep both in step.
+ *
+ * Pure module (no I/O) used by extract-knowledge.
+ */
+
+export type ReviewItemType = 'knowledge' | 'measurement' | 'claim';
+
+// "type:fingerprint" keys of a file's exclusions
+export type ExclusionSet = Set<string>;
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function knowledgeFingerprint(category: string, title: string): string {
+  return `${category}|${normalizeText(title)}`;
+}
+
+// Metric name as extracted (not the catalog key) and the value to 6 significant digits
+export function measurementFingerprint(metric: string, value: number): string {
+  return `${normalizeText(metric)}|${Number(value.toPrecision(6))}`;
+}
+
+export function claimFingerprint(claimType: string, excerpt: string): string {
+  return `${claimType}|${normalizeText(excerpt).slice(0, 200)}`;
+}
+
+export function exclusionKey(type: ReviewItemType, fingerprint: string): string {
+  return `${type}:${fingerprint}`;
+}
+
+export function toExclusionSet(rows: { item_type: string; fingerprint: string }[]): ExclusionSet {
+  return new Set(rows.map(r => exclusionKey(r.item_type as ReviewItemType, r.fingerprint)));
+}
+
+// Replicate groups are fingerprinted by their mean, the value saveExperiments stores
+function storedValue(m: { value: number; replicates?: number[] | null }): number {
+  const reps = Array.isArray(m.replicates) ? m.replicates.filter(Number.isFinite) : [];
+  return reps.length > 0 ? reps.reduce((s, v) => s + v, 0) / reps.length : m.value;
+}
+
+/**
+ * Removes excluded measurements, together with the citation paired with each
+ * one by index (saveExperiments pairs them that way).
+ */
+export function dropExcludedMeasurements<
+  M extends { metric: string; value: number; replicates?: number[] | null },
+  E extends { measurements: M[]; citations: unknown[] },
+>(experiments: E[], exclusions: ExclusionSet): { experiments: E[]; dropped: number } {
+  if (exclusions.size === 0) return { experiments, dropped: 0 };
+  let dropped = 0;
+  const kept = experiments.map(exp => {
+    const keep = exp.measurements.map(m =>
+      typeof m.value !== 'number' ||
+      !exclusions.has(exclusionKey('measurement', measurementFingerprint(m.metric, storedValue(m)))));
+    if (keep.every(Boolean)) return exp;
+    dropped += keep.filter(k => !k).length;
+    return {
+      ...exp,
+      measurements: exp.measurements.filter((_, i) => keep[i]),
+      citations: exp.citations.filter((_, i) => i >= keep.length || keep[i]),
+    };
+  });
+  return { experiments: kept, dropped };
+}
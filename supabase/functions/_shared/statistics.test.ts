@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the statistics module, checked against published critical values.
+ * Run with: deno test supabase/functions/_shared/statistics.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  chiSquareSurvival,
+  compareGroups,
+  fSurvival,
+  kruskalWallis,
+  oneWayAnova,
+  studentTTwoSided,
+  studentizedRangeCdf,
+  studentizedRangeQuantile,
+  welchTTest,
+} from "./statistics.ts";
+
+function near(actual: number, expected: number, tolerance: number): boolean {
+  return Math.abs(actual - expected) <= tolerance;
+}
+
+const low = { label: "A", values: [1, 2, 3] };
+const mid = { label: "B", values: [4, 5, 6] };
+const high = { label: "C", values: [7, 8, 9] };
+
+Deno.test("distribution tails match table critical values", () => {
+  assert(near(studentTTwoSided(2.228139, 10), 0.05, 1e-5));
+  assert(near(fSurvival(3.885294, 2, 12), 0.05, 1e-5));
+  assert(near(chiSquareSurvival(5.991465, 2), 0.05, 1e-5));
+  assert(near(studentizedRangeCdf(3.772929, 3, 12), 0.95, 1e-4));
+  assert(near(studentizedRangeQuantile(0.95, 4, 20), 3.958293, 1e-3));
+});
+
+Deno.test("Welch t-test on unequal variances", () => {
+  const r = welchTTest({ label: "A", values: [1, 2, 3, 4, 5] }, { label: "B", values: [2, 4, 6, 8, 10] });
+  assert(near(r.t, -1.897367, 1e-5));
+  assert(near(r.df, 5.882353, 1e-5));
+  assert(r.p_value > 0.1 && r.p_value < 0.11);
+  assert(r.ci[0] < 0 && r.ci[1] > 0);
+  assert(!r.significant);
+});
+
+Deno.test("one-way ANOVA with Tukey post-hoc", () => {
+  const r = oneWayAnova([low, mid, high]);
+  assertEquals([r.df_between, r.df_within], [2, 6]);
+  assert(near(r.f, 27, 1e-9));
+  // With df1 = 2 the F tail has a closed form: (1 + 2F/df2)^(-df2/2)
+  assert(near(r.p_value, 0.001, 1e-6));
+  assert(near(r.eta_squared, 0.9, 1e-9));
+  assertEquals(r.tukey.map(c => c.groups.join("-")), ["A-B", "A-C", "B-C"]);
+  assert(r.tukey.every(c => c.significant));
+  assert(r.tukey[1].p_adj < r.tukey[0].p_adj);
+});
+
+Deno.test("Kruskal-Wallis ranks, ties and closed-form p for df = 2", () => {
+  const r = kruskalWallis([low, mid, high]);
+  assert(near(r.h, 7.2, 1e-9));
+  assert(near(r.p_value, Math.exp(-3.6), 1e-6));
+  assert(near(r.epsilon_squared, 0.9, 1e-9));
+
+  const tied = kruskalWallis([{ label: "A", values: [1, 1, 2] }, { label: "B", values: [2, 3, 3] }]);
+  assert(tied.h > 0 && tied.p_value > 0.05);
+});
+
+Deno.test("compareGroups picks the tests by number of usable groups", () => {
+  const two = compareGroups([low, mid, { label: "single", values: [10] }]);
+  assertEquals(two.excluded, ["single"]);
+  assert(two.welch !== null && two.anova === null && two.kruskal_wallis !== null);
+
+  const three = compareGroups([low, mid, high]);
+  assert(three.welch === null && three.anova !== null);
+  assertEquals(three.groups.map(g => g.n), [3, 3, 3]);
+});
+
+Deno.test("summary-only groups pool exactly and skip Kruskal-Wallis", () => {
+  // B reported as mean ± SD (n) of the same specimens [4, 5, 6]
+  const summarized = { label: "B", values: [], summaries: [{ n: 3, mean: 5, sd: 1 }] };
+  const raw = oneWayAnova([low, mid, high]);
+  const mixed = oneWayAnova([low, summarized, high]);
+  assert(near(mixed.f, raw.f, 1e-9));
+  assert(near(welchTTest(low, summarized).t, welchTTest(low, mid).t, 1e-9));
+
+  const cmp = compareGroups([low, summarized]);
+  assertEquals(cmp.groups[1].n, 3);
+  assert(cmp.welch !== null && cmp.kruskal_wallis === null);
+});
@@ -0,0 +1,447 @@
+/**
+ * Inferential statistics for comparing measurement groups (formulations,
+ * experiments, condition values): Welch's t-test, one-way ANOVA with
+ * Tukey-Kramer post-hoc, and Kruskal-Wallis.
+ *
+ * Pure module (no I/O) shared by the `significance-tests` function and the
+ * comparative modes of rag-answer. Groups may mix specimen values with
+ * replicate summaries reported only as mean ± SD (n); Welch and ANOVA run on
+ * the exactly pooled moments, Kruskal-Wallis only on raw values.
+ */
+
+import { type ReplicateSummary, poolSummaries, summarizeReplicates } from "./replicates.ts";
+
+export const DEFAULT_ALPHA = 0.05;
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface GroupInput {
+  label: string;
+  // Individual specimen values
+  values: number[];
+  // Replicate groups known only as mean ± SD (n)
+  summaries?: ReplicateSummary[];
+}
+
+export interface GroupSummary {
+  label: string;
+  n: number;
+  mean: number;
+  sd: number;
+  ci: [number, number] | null;
+}
+
+export interface WelchResult {
+  groups: [string, string];
+  t: number;
+  df: number;
+  p_value: number;
+  mean_diff: number;
+  ci: [number, number];
+  // Hedges' g (bias-corrected standardized mean difference)
+  hedges_g: number;
+  significant: boolean;
+}
+
+export interface TukeyComparison {
+  groups: [string, string];
+  mean_diff: number;
+  ci: [number, number];
+  q: number;
+  p_adj: number;
+  significant: boolean;
+}
+
+export interface AnovaResult {
+  f: number;
+  df_between: number;
+  df_within: number;
+  p_value: number;
+  eta_squared: number;
+  omega_squared: number;
+  significant: boolean;
+  tukey: TukeyComparison[];
+}
+
+export interface KruskalWallisResult {
+  h: number;
+  df: number;
+  p_value: number;
+  // ε² = H / (N - 1)
+  epsilon_squared: number;
+  significant: boolean;
+}
+
+export interface GroupComparison {
+  alpha: number;
+  groups: GroupSummary[];
+  // Two groups: Welch. Three or more: ANOVA + Tukey. Kruskal-Wallis whenever there are
+  // two or more and every group has raw values (ranks cannot be recovered from a summary).
+  welch: WelchResult | null;
+  anova: AnovaResult | null;
+  kruskal_wallis: KruskalWallisResult | null;
+  // Groups left out of the tests (fewer than 2 specimens)
+  excluded: string[];
+}
+
+// ==========================================
+// DISTRIBUTIONS
+// ==========================================
+function logGamma(x: number): number {
+  const c = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const coef of c) ser += coef / ++y;
+  return -tmp + Math.log(2.5066282746310007 * ser / x);
+}
+
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d; if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c; if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d; if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c; if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+// Regularized upper incomplete gamma Q(a, x)
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const gln = logGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n <= 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b; if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c; if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gln) * h;
+}
+
+function erfc(x: number): number {
+  // Chebyshev fit, fractional error < 1.2e-7
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+    + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587
+    + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+}
+
+function normalCdf(x: number): number {
+  return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+// Two-sided p-value of Student's t
+export function studentTTwoSided(t: number, df: number): number {
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+// P(F > f)
+export function fSurvival(f: number, df1: number, df2: number): number {
+  if (f <= 0) return 1;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+// P(χ² > x)
+export function chiSquareSurvival(x: number, df: number): number {
+  return upperIncompleteGamma(df / 2, x / 2);
+}
+
+// Monotone inversion by bisection; `cdf` increasing in x
+function invert(cdf: (x: number) => number, target: number, lo: number, hi: number): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < target) lo = mid; else hi = mid;
+    if (hi - lo < 1e-10) break;
+  }
+  return (lo + hi) / 2;
+}
+
+export function studentTQuantile(p: number, df: number): number {
+  // p in (0.5, 1): upper quantile
+  return invert(t => 1 - studentTTwoSided(t, df) / 2, p, 0, 1e4);
+}
+
+// Probability that the range of `groups` standard normals stays below w (R's wprob)
+function rangeProbability(w: number, groups: number): number {
+  const xleg = [0.9815606342467192, 0.9041172563704749, 0.7699026741943047,
+    0.5873179542866175, 0.3678314989981802, 0.1252334085114689];
+  const aleg = [0.04717533638651183, 0.10693932599531843, 0.16007832854334622,
+    0.20316742672306592, 0.2334925365383548, 0.24914704581340277];
+  const qsqz = w * 0.5;
+  if (qsqz >= 8) return 1;
+
+  let prW = 2 * normalCdf(qsqz) - 1;
+  prW = prW >= 1 ? 1 : Math.pow(prW, groups);
+  const wincr = w > 3 ? 2 : 3;
+  let blb = qsqz;
+  const binc = (8 - qsqz) / wincr;
+  let bub = blb + binc;
+  let einsum = 0;
+  const cc1 = groups - 1;
+
+  for (let wi = 1; wi <= wincr; wi++) {
+    let elsum = 0;
+    const a = 0.5 * (bub + blb);
+    const b = 0.5 * (bub - blb);
+    for (let jj = 1; jj <= 12; jj++) {
+      const j = jj > 6 ? 12 - jj : jj - 1;
+      const xx = jj > 6 ? xleg[j] : -xleg[j];
+      const ac = a + b * xx;
+      const qexpo = ac * ac;
+      if (qexpo > 60) break;
+      const rinsum = normalCdf(ac) - normalCdf(ac - w);
+      if (rinsum >= Math.exp(-30 / cc1)) {
+        elsum += aleg[j] * Math.exp(-0.5 * qexpo) * Math.pow(rinsum, cc1);
+      }
+    }
+    einsum += elsum * (2 * b) * groups / Math.sqrt(2 * Math.PI);
+    blb = bub;
+    bub += binc;
+  }
+  prW += einsum;
+  return prW >= 1 ? 1 : prW <= Math.exp(-30) ? 0 : prW;
+}
+
+// CDF of the studentized range distribution (R's ptukey with one range)
+export function studentizedRangeCdf(q: number, groups: number, df: number): number {
+  if (q <= 0) return 0;
+  if (df > 25000) return rangeProbability(q, groups);
+  const xlegq = [0.9894009349916499, 0.9445750230732326, 0.8656312023878318,
+    0.755404408355003, 0.6178762444026438, 0.45801677765722737,
+    0.2816035507792589, 0.09501250983763744];
+  const alegq = [0.027152459411754096, 0.062253523938647894, 0.09515851168249279,
+    0.12462897125553388, 0.14959598881657674, 0.16915651939500254,
+    0.18260341504492358, 0.1894506104550685];
+
+  const f2 = df * 0.5;
+  const ulen = df <= 100 ? 1 : df <= 800 ? 0.5 : df <= 5000 ? 0.25 : 0.125;
+  const f2lf = f2 * Math.log(df) - df * Math.LN2 - logGamma(f2) + Math.log(ulen);
+  const f21 = f2 - 1;
+  const ff4 = df * 0.25;
+
+  let ans = 0;
+  for (let i = 1; i <= 50; i++) {
+    let otsum = 0;
+    const twa1 = (2 * i - 1) * ulen;
+    for (let jj = 1; jj <= 16; jj++) {
+      const upper = jj > 8;
+      const j = upper ? jj - 9 : jj - 1;
+      const offset = xlegq[j] * ulen;
+      const point = upper ? twa1 + offset : twa1 - offset;
+      const t1 = f2lf + f21 * Math.log(point) - point * ff4;
+      if (t1 >= -30) {
+        otsum += rangeProbability(q * Math.sqrt(point * 0.5), groups) * alegq[j] * Math.exp(t1);
+      }
+    }
+    if (i * ulen >= 1 && otsum <= 1e-14) break;
+    ans += otsum;
+  }
+  return Math.min(ans, 1);
+}
+
+export function studentizedRangeQuantile(p: number, groups: number, df: number): number {
+  return invert(q => studentizedRangeCdf(q, groups, df), p, 0, 100);
+}
+
+// ==========================================
+// DESCRIPTIVES
+// ==========================================
+interface Moments {
+  n: number;
+  mean: number;
+  variance: number;
+}
+
+// Specimen count, mean and sample variance of the raw values and summaries pooled together
+function moments(group: GroupInput): Moments {
+  const parts = [...(group.summaries || [])];
+  if (group.values.length > 0) parts.push(summarizeReplicates(group.values));
+  const pooled = poolSummaries(parts);
+  return pooled ? { n: pooled.n, mean: pooled.mean, variance: (pooled.sd ?? 0) ** 2 } : { n: 0, mean: NaN, variance: 0 };
+}
+
+export function summarizeGroup(group: GroupInput, alpha = DEFAULT_ALPHA): GroupSummary {
+  const { n, mean: m, variance } = moments(group);
+  const sd = Math.sqrt(variance);
+  const half = n >= 2 ? studentTQuantile(1 - alpha / 2, n - 1) * sd / Math.sqrt(n) : null;
+  return { label: group.label, n, mean: m, sd, ci: half === null ? null : [m - half, m + half] };
+}
+
+// ==========================================
+// TESTS
+// ==========================================
+export function welchTTest(a: GroupInput, b: GroupInput, alpha = DEFAULT_ALPHA): WelchResult {
+  const { n: na, mean: ma, variance: va } = moments(a);
+  const { n: nb, mean: mb, variance: vb } = moments(b);
+  const se2 = va / na + vb / nb;
+  const diff = ma - mb;
+
+  // Identical constant groups: no evidence of a difference
+  if (se2 === 0) {
+    const p = diff === 0 ? 1 : 0;
+    return { groups: [a.label, b.label], t: diff === 0 ? 0 : Infinity, df: na + nb - 2, p_value: p, mean_diff: diff, ci: [diff, diff], hedges_g: 0, significant: p < alpha };
+  }
+
+  const t = diff / Math.sqrt(se2);
+  const df = se2 ** 2 / ((va / na) ** 2 / (na - 1) + (vb / nb) ** 2 / (nb - 1));
+  const p = studentTTwoSided(t, df);
+  const half = studentTQuantile(1 - alpha / 2, df) * Math.sqrt(se2);
+  const pooledSd = Math.sqrt(((na - 1) * va + (nb - 1) * vb) / (na + nb - 2));
+  const correction = 1 - 3 / (4 * (na + nb) - 9);
+
+  return {
+    groups: [a.label, b.label],
+    t,
+    df,
+    p_value: p,
+    mean_diff: diff,
+    ci: [diff - half, diff + half],
+    hedges_g: pooledSd > 0 ? (diff / pooledSd) * correction : 0,
+    significant: p < alpha,
+  };
+}
+
+export function oneWayAnova(groups: GroupInput[], alpha = DEFAULT_ALPHA): AnovaResult {
+  const k = groups.length;
+  const m = groups.map(moments);
+  const n = m.reduce((sum, g) => sum + g.n, 0);
+  const grand = m.reduce((sum, g) => sum + g.n * g.mean, 0) / n;
+  const means = m.map(g => g.mean);
+
+  const ssBetween = m.reduce((sum, g) => sum + g.n * (g.mean - grand) ** 2, 0);
+  const ssWithin = m.reduce((sum, g) => sum + (g.n - 1) * g.variance, 0);
+  const dfBetween = k - 1;
+  const dfWithin = n - k;
+  const msWithin = ssWithin / dfWithin;
+  const f = msWithin > 0 ? (ssBetween / dfBetween) / msWithin : (ssBetween > 0 ? Infinity : 0);
+  const p = Number.isFinite(f) ? fSurvival(f, dfBetween, dfWithin) : 0;
+  const ssTotal = ssBetween + ssWithin;
+
+  // Tukey-Kramer: unequal group sizes use the harmonic standard error
+  const qCrit = msWithin > 0 ? studentizedRangeQuantile(1 - alpha, k, dfWithin) : 0;
+  const tukey: TukeyComparison[] = [];
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) {
+      const diff = means[i] - means[j];
+      const se = Math.sqrt(msWithin / 2 * (1 / m[i].n + 1 / m[j].n));
+      const q = se > 0 ? Math.abs(diff) / se : (diff === 0 ? 0 : Infinity);
+      const pAdj = Number.isFinite(q) ? Math.max(0, 1 - studentizedRangeCdf(q, k, dfWithin)) : 0;
+      tukey.push({
+        groups: [groups[i].label, groups[j].label],
+        mean_diff: diff,
+        ci: [diff - qCrit * se, diff + qCrit * se],
+        q,
+        p_adj: pAdj,
+        significant: pAdj < alpha,
+      });
+    }
+  }
+
+  return {
+    f,
+    df_between: dfBetween,
+    df_within: dfWithin,
+    p_value: p,
+    eta_squared: ssTotal > 0 ? ssBetween / ssTotal : 0,
+    omega_squared: ssTotal > 0 ? Math.max(0, (ssBetween - dfBetween * msWithin) / (ssTotal + msWithin)) : 0,
+    significant: p < alpha,
+    tukey,
+  };
+}
+
+export function kruskalWallis(groups: GroupInput[], alpha = DEFAULT_ALPHA): KruskalWallisResult {
+  const pooled = groups.flatMap((g, gi) => g.values.map(v => ({ v, gi }))).sort((a, b) => a.v - b.v);
+  const n = pooled.length;
+  const rankSums = new Array(groups.length).fill(0);
+  let tieTerm = 0;
+
+  // Average ranks for ties
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && pooled[j + 1].v === pooled[i].v) j++;
+    const rank = (i + j + 2) / 2;
+    for (let r = i; r <= j; r++) rankSums[pooled[r].gi] += rank;
+    const ties = j - i + 1;
+    tieTerm += ties ** 3 - ties;
+    i = j + 1;
+  }
+
+  const raw = 12 / (n * (n + 1)) * groups.reduce((sum, g, i) => sum + rankSums[i] ** 2 / g.values.length, 0) - 3 * (n + 1);
+  const correction = 1 - tieTerm / (n ** 3 - n);
+  const h = correction > 0 ? raw / correction : 0;
+  const df = groups.length - 1;
+  const p = chiSquareSurvival(h, df);
+  return { h, df, p_value: p, epsilon_squared: n > 1 ? h / (n - 1) : 0, significant: p < alpha };
+}
+
+// Runs the tests that apply to the number of usable groups
+export function compareGroups(input: GroupInput[], alpha = DEFAULT_ALPHA): GroupComparison {
+  const clean = input.map(g => ({
+    label: g.label,
+    values: g.values.filter(v => Number.isFinite(v)),
+    summaries: (g.summaries || []).filter(s => s.n >= 1 && Number.isFinite(s.mean)),
+  }));
+  const usable = clean.filter(g => moments(g).n >= 2);
+  const excluded = clean.filter(g => moments(g).n < 2).map(g => g.label);
+  const rankable = usable.every(g => g.summaries.length === 0);
+
+  return {
+    alpha,
+    groups: clean.map(g => summarizeGroup(g, alpha)),
+    welch: usable.length === 2 ? welchTTest(usable[0], usable[1], alpha) : null,
+    anova: usable.length >= 3 ? oneWayAnova(usable, alpha) : null,
+    kruskal_wallis: usable.length >= 2 && rankable ? kruskalWallis(usable, alpha) : null,
+    excluded,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the unit engine: parsing, dimensional conversion, scales that
+ * never convert, composition bases and canonical values of stored rows.
+ * Run with: deno test supabase/functions/_shared/units.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { canonicalValues, convertUnit, declaredConversion, isComparable, parseUnit } from "./units.ts";
+
+Deno.test("parses prefixed, compound and loosely written units", () => {
+  assertEquals(parseUnit("MPa")?.symbol, "MPa");
+  assertEquals(parseUnit("mpa")?.symbol, "MPa");
+  assertEquals(parseUnit("N/mm2")?.symbol, "N/mm²");
+  assertEquals(parseUnit("μg/mm³")?.symbol, "µg/mm³");
+  assertEquals(parseUnit("ug/mm3")?.symbol, "µg/mm³");
+  assertEquals(parseUnit("Pa.s")?.symbol, "Pa·s");
+  assertEquals(parseUnit("HV0.5")?.scale, "HV");
+  assertEquals(parseUnit("wt%")?.basis, "wt");
+  assertEquals(parseUnit("% (v/v)")?.symbol, "vol%");
+  assertEquals(parseUnit("ºC")?.symbol, "°C");
+  assertEquals(parseUnit("furlongs"), null);
+});
+
+Deno.test("converts pressure, density and viscosity with an auditable rule", () => {
+  const gpa = convertUnit(2.5, "GPa", "MPa");
+  assertEquals([gpa.value, gpa.unit, gpa.provenance.status, gpa.provenance.factor], [2500, "MPa", "converted", 1000]);
+  assertEquals(gpa.provenance.rule, "GPa → MPa: × 1000");
+
+  const nmm = convertUnit(85.3, "N/mm²", "MPa");
+  assertEquals([nmm.value, nmm.provenance.status, nmm.provenance.rule], [85.3, "identity", "N/mm² = MPa"]);
+
+  assertEquals(convertUnit(21.4, "µg/mm³", "mg/cm³").value, 21.4);
+  assertEquals(convertUnit(0.4, "µm", "nm").value, 400);
+  assertEquals(convertUnit(2.5, "Pa·s", "mPa·s").value, 2500);
+  assertEquals(convertUnit(85, "mpa", "MPa").provenance.status, "identity");
+});
+
+Deno.test("temperatures use an offset; SD and replicates follow the stored conversion", () => {
+  const k = convertUnit(37, "°C", "K");
+  assertEquals([k.value, k.provenance.factor, k.provenance.offset], [310.15, 1, 273.15]);
+  assert(Math.abs(convertUnit(212, "°F", "°C").value! - 100) < 1e-9);
+
+  const stored = canonicalValues({
+    value: 37, value_canonical: 310.15, unit: "°C", unit_canonical: "K", sd: 0.5, replicates: [36, 38],
+    conversion: k.provenance,
+  });
+  assertEquals([stored.value, stored.unit, stored.sd, stored.replicates], [310.15, "K", 0.5, [309.15, 311.15]]);
+
+  // Rows without provenance: linear ratio value_canonical / value
+  const legacy = canonicalValues({ value: 2, value_canonical: 2000, unit: "GPa", unit_canonical: "MPa", sd: 0.1 });
+  assertEquals([legacy.value, legacy.sd], [2000, 100]);
+});
+
+Deno.test("hardness scales and different units are rejected, not mixed", () => {
+  const hv = convertUnit(62, "HV", "KHN");
+  assertEquals([hv.value, hv.unit, hv.provenance.status], [null, "HV", "incompatible"]);
+  assertEquals(convertUnit(62, "HV", "MPa").provenance.status, "incompatible");
+  assertEquals(convertUnit(62, "HV 0.3", "HV").provenance.status, "identity");
+  assertEquals(convertUnit(12, "MPa", "µm").provenance.status, "incompatible");
+  const unknown = convertUnit(3, "furlongs", "MPa");
+  assertEquals([unknown.value, unknown.provenance.status], [null, "unknown"]);
+  assert(!isComparable(hv.provenance));
+  assert(isComparable(null));
+});
+
+Deno.test("composition bases: wt% and vol% never convert, basis-free targets are flagged", () => {
+  const cross = convertUnit(60, "wt%", "vol%");
+  assertEquals([cross.value, cross.provenance.status], [null, "incompatible"]);
+
+  const kept = convertUnit(0.6, "vol fraction", "pct");
+  assertEquals([kept.value, kept.unit, kept.provenance.status], [60, "vol%", "flagged"]);
+
+  assertEquals(convertUnit(60, "%", "pct").provenance.status, "identity");
+  assertEquals(convertUnit(0.6, "fraction", "%").value, 60);
+});
+
+Deno.test("declared catalog factors are recorded with their source", () => {
+  const c = declaredConversion(3, "kgf/mm²", "MPa", 9.80665, "metrics_catalog");
+  assertEquals([c.value, c.provenance.status], [29.41995, "converted"]);
+  assert(c.provenance.rule.includes("metrics_catalog"));
+});
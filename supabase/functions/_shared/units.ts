@@ -0,0 +1,372 @@
+/**
+ * Dimensional unit engine: parses unit strings into a dimension vector plus a
+ * scale (and an offset for °C/°F), converts values between compatible units and
+ * records how every conversion was made. Arbitrary scales (HV, KHN, ΔE, Shore)
+ * only convert to themselves, and composition percentages keep their basis
+ * (wt%, vol%, mol%): converting across bases needs densities, so it is refused.
+ *
+ * Pure module (no I/O) shared by extract-knowledge, measurement-groups,
+ * analyze-metric-trends, weibull-analysis and rag-answer.
+ */
+
+export const UNIT_ENGINE_VERSION = 'units-v1';
+
+// ==========================================
+// TYPES
+// ==========================================
+// Exponents of [mass, length, time, temperature]
+type Dimension = [number, number, number, number];
+
+export type CompositionBasis = 'wt' | 'vol' | 'mol';
+
+export interface ParsedUnit {
+  // Symbol as the engine understood it ("MPa", "µg/mm³", "wt%")
+  symbol: string;
+  dimension: Dimension;
+  // SI value = value · factor + offset
+  factor: number;
+  offset: number;
+  // Named scale of a non-dimensional quantity (HV, KHN, ΔE); only converts to itself
+  scale: string | null;
+  basis: CompositionBasis | null;
+}
+
+export type ConversionStatus = 'identity' | 'converted' | 'flagged' | 'incompatible' | 'unknown';
+
+// Stored in measurements.conversion
+export interface ConversionProvenance {
+  engine: string;
+  from: string;
+  to: string;
+  // canonical = value · factor + offset; SD and SEM scale by factor only
+  factor: number;
+  offset: number;
+  status: ConversionStatus;
+  rule: string;
+  note?: string;
+}
+
+export interface UnitConversion {
+  // null when the units are incompatible or unknown
+  value: number | null;
+  // Unit of `value`; for flagged basis conversions it keeps the source basis
+  unit: string;
+  provenance: ConversionProvenance;
+}
+
+// ==========================================
+// UNIT TABLES
+// ==========================================
+const PREFIXES: Record<string, number> = { G: 1e9, M: 1e6, k: 1e3, c: 1e-2, m: 1e-3, 'µ': 1e-6, n: 1e-9 };
+
+const BASE_UNITS: Record<string, { dimension: Dimension; factor: number }> = {
+  g: { dimension: [1, 0, 0, 0], factor: 1e-3 },
+  m: { dimension: [0, 1, 0, 0], factor: 1 },
+  s: { dimension: [0, 0, 1, 0], factor: 1 },
+  min: { dimension: [0, 0, 1, 0], factor: 60 },
+  h: { dimension: [0, 0, 1, 0], factor: 3600 },
+  N: { dimension: [1, 1, -2, 0], factor: 1 },
+  Pa: { dimension: [1, -1, -2, 0], factor: 1 },
+  J: { dimension: [1, 2, -2, 0], factor: 1 },
+  L: { dimension: [0, 3, 0, 0], factor: 1e-3 },
+  K: { dimension: [0, 0, 0, 1], factor: 1 },
+};
+
+// Lower-case spellings found in papers and spreadsheets. "mpa" is read as MPa:
+// millipascal only shows up as a viscosity (mPa·s), which has its own entries.
+const UNIT_ALIASES: Record<string, string> = {
+  'mpa': 'MPa', 'gpa': 'GPa', 'kpa': 'kPa', 'pa': 'Pa',
+  'um': 'µm', 'micron': 'µm', 'microns': 'µm', 'micrometro': 'µm', 'micrometros': 'µm',
+  'micrometre': 'µm', 'micrometer': 'µm', 'micrometers': 'µm',
+  'nm': 'nm', 'mm': 'mm', 'cm': 'cm',
+  'mpa·s': 'mPa·s', 'mpas': 'mPa·s', 'cp': 'mPa·s', 'cps': 'mPa·s', 'centipoise': 'mPa·s',
+  'pa·s': 'Pa·s', 'pas': 'Pa·s',
+  'n': 'N', 'kn': 'kN', 'n/mm^2': 'N/mm^2', 'kj/m^2': 'kJ/m^2', 'j/m^2': 'J/m^2',
+  'ug/mm^3': 'µg/mm^3', 'µg/mm^3': 'µg/mm^3', 'mg/cm^3': 'mg/cm^3', 'g/cm^3': 'g/cm^3', 'mg/ml': 'mg/mL', 'g/ml': 'g/mL',
+  'mpa·m^0.5': 'MPa·m^0.5', 'mpa·m^1/2': 'MPa·m^0.5', 'mpa√m': 'MPa·m^0.5', 'mpa·√m': 'MPa·m^0.5',
+  's': 's', 'seg': 's', 'sec': 's', 'min': 'min', 'h': 'h', 'hora': 'h', 'horas': 'h',
+};
+
+const TEMPERATURES: { pattern: RegExp; unit: ParsedUnit }[] = [
+  { pattern: /^(°c|ºc|oc|c|celsius|graus celsius)$/, unit: temperature('°C', 1, 273.15) },
+  { pattern: /^(°f|ºf|of|f|fahrenheit)$/, unit: temperature('°F', 5 / 9, (459.67 * 5) / 9) },
+  { pattern: /^(k|kelvin)$/, unit: temperature('K', 1, 0) },
+];
+
+const SCALES: { pattern: RegExp; scale: string }[] = [
+  { pattern: /^(hv|vhn|vickers)\s*[\d.,]*$/, scale: 'HV' },
+  { pattern: /^(khn|hk|knoop)\s*[\d.,]*$/, scale: 'KHN' },
+  { pattern: /^(Δe|δe|delta\s*e|de)\*?\s*(ab|00|2000)?$/, scale: 'ΔE' },
+  { pattern: /^shore\s*a$/, scale: 'Shore A' },
+  { pattern: /^shore\s*d$/, scale: 'Shore D' },
+];
+
+// Dimensionless amounts: ratio scale of the symbol, relative to a plain fraction
+const FRACTION_WORDS: Record<string, { symbol: string; factor: number }> = {
+  '%': { symbol: '%', factor: 0.01 },
+  'pct': { symbol: 'pct', factor: 0.01 },
+  'percent': { symbol: '%', factor: 0.01 },
+  'porcento': { symbol: '%', factor: 0.01 },
+  'fraction': { symbol: 'fraction', factor: 1 },
+  'fracao': { symbol: 'fraction', factor: 1 },
+  'fração': { symbol: 'fraction', factor: 1 },
+  'ppm': { symbol: 'ppm', factor: 1e-6 },
+};
+
+const BASIS_PATTERNS: { pattern: RegExp; basis: CompositionBasis }[] = [
+  { pattern: /\b(wt|w\/w|m\/m|mass|massa|peso|weight)\b\.?/, basis: 'wt' },
+  { pattern: /\b(vol|v\/v|volume)\b\.?/, basis: 'vol' },
+  { pattern: /\b(mol|molar)\b\.?/, basis: 'mol' },
+];
+
+const DIMENSIONLESS = /^(-|—|adimensional|dimensionless|unitless|sem unidade)$/;
+
+function temperature(symbol: string, factor: number, offset: number): ParsedUnit {
+  return { symbol, dimension: [0, 0, 0, 1], factor, offset, scale: null, basis: null };
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+// Canonical spelling for lookups: µ, exponents as ^n, products as "·"
+function cleanUnit(raw: string): string {
+  return String(raw)
+    .trim()
+    .replace(/μ/g, 'µ')
+    .replace(/º/g, '°')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/½/g, '^0.5')
+    .replace(/\s*\/\s*/g, '/')
+    .replace(/(?<=[A-Za-zµ])\s*[.*·×]\s*(?=[A-Za-zµ√])/g, '·')
+    .replace(/(?<=[A-Za-zµ])\s+(?=[A-Za-zµ])/g, '·')
+    .replace(/(?<=[A-Za-zµ])(\d)/g, '^$1');
+}
+
+function dimensionOf(token: string): { dimension: Dimension; factor: number } | null {
+  if (BASE_UNITS[token]) return BASE_UNITS[token];
+  const prefix = PREFIXES[token[0]];
+  const base = BASE_UNITS[token.slice(1)];
+  return prefix && base ? { dimension: base.dimension, factor: prefix * base.factor } : null;
+}
+
+// "N/mm^2", "µg/mm^3", "mPa·s", "MPa·m^0.5": products of prefixed base units
+function parseCompound(cleaned: string): ParsedUnit | null {
+  const [numerator, ...denominators] = cleaned.split('/');
+  const parts: { text: string; sign: number }[] = [
+    ...numerator.split('·').map(text => ({ text, sign: 1 })),
+    ...denominators.flatMap(d => d.split('·').map(text => ({ text, sign: -1 }))),
+  ];
+  const dimension: Dimension = [0, 0, 0, 0];
+  let factor = 1;
+  for (const { text, sign } of parts) {
+    if (text === '1' && sign === 1) continue;
+    const m = text.match(/^([A-Za-zµ]+)(?:\^(-?\d+(?:\.\d+)?))?$/);
+    if (!m) return null;
+    const unit = dimensionOf(m[1]);
+    if (!unit) return null;
+    const exponent = sign * (m[2] ? Number(m[2]) : 1);
+    unit.dimension.forEach((d, i) => { dimension[i] += d * exponent; });
+    factor *= unit.factor ** exponent;
+  }
+  const symbol = cleaned.replace(/\^2\b/g, '²').replace(/\^3\b/g, '³').replace(/\^0\.5\b/g, '½');
+  return { symbol, dimension, factor, offset: 0, scale: null, basis: null };
+}
+
+// "wt%", "% (v/v)", "vol. fraction", "% em massa"
+function parseFraction(lower: string): ParsedUnit | null {
+  let basis: CompositionBasis | null = null;
+  let rest = lower;
+  for (const b of BASIS_PATTERNS) {
+    if (b.pattern.test(rest)) {
+      basis = b.basis;
+      rest = rest.replace(b.pattern, ' ');
+      break;
+    }
+  }
+  rest = rest.replace(/\b(em|by|in)\b/g, ' ').replace(/[()\s.]/g, '');
+  if (basis && rest === '') rest = '%';
+  const word = FRACTION_WORDS[rest];
+  if (!word) return null;
+  const symbol = basis ? qualifySymbol(word.symbol, basis) : word.symbol;
+  return { symbol, dimension: [0, 0, 0, 0], factor: word.factor, offset: 0, scale: null, basis };
+}
+
+function qualifySymbol(symbol: string, basis: CompositionBasis): string {
+  return symbol === '%' || symbol === 'pct' ? `${basis}%` : `${symbol} (${basis})`;
+}
+
+/** Parses a unit string; null when the engine does not know it. */
+export function parseUnit(raw: string | null | undefined): ParsedUnit | null {
+  if (raw === null || raw === undefined) return null;
+  const lower = String(raw).trim().toLowerCase().replace(/μ/g, 'µ').replace(/º/g, '°');
+  if (DIMENSIONLESS.test(lower)) {
+    return { symbol: '-', dimension: [0, 0, 0, 0], factor: 1, offset: 0, scale: '-', basis: null };
+  }
+  for (const s of SCALES) {
+    if (s.pattern.test(lower)) return { symbol: s.scale, dimension: [0, 0, 0, 0], factor: 1, offset: 0, scale: s.scale, basis: null };
+  }
+  for (const t of TEMPERATURES) {
+    if (t.pattern.test(lower)) return t.unit;
+  }
+  const fraction = parseFraction(lower);
+  if (fraction) return fraction;
+
+  const cleaned = cleanUnit(raw);
+  if (!cleaned) return null;
+  const alias = UNIT_ALIASES[cleaned.toLowerCase()];
+  return parseCompound(alias ?? cleaned) ?? (alias ? null : parseCompound(cleaned.replace(/^u/, 'µ')));
+}
+
+// ==========================================
+// CONVERSION
+// ==========================================
+// Float noise from prefix ratios (1e-6 / 1e-9 = 999.9999999999999)
+function tidy(x: number): number {
+  return Number.isFinite(x) ? Number(x.toPrecision(12)) : x;
+}
+
+function sameDimension(a: Dimension, b: Dimension): boolean {
+  return a.every((d, i) => Math.abs(d - b[i]) < 1e-9);
+}
+
+function describe(from: string, to: string, factor: number, offset: number): string {
+  if (factor === 1 && offset === 0) return from === to ? `${from} (sem conversão)` : `${from} = ${to}`;
+  const scaled = factor === 1 ? '' : ` × ${factor}`;
+  const shifted = offset === 0 ? '' : offset > 0 ? ` + ${offset}` : ` − ${-offset}`;
+  return `${from} → ${to}:${scaled}${shifted}`;
+}
+
+function result(value: number | null, unit: string, p: Omit<ConversionProvenance, 'engine'>): UnitConversion {
+  return { value, unit, provenance: { engine: UNIT_ENGINE_VERSION, ...p } };
+}
+
+/**
+ * Converts `value` from one unit to another and records the rule used.
+ * Incompatible and unknown units return value = null and keep the source
+ * unit, so callers store them apart instead of mixing them with the target.
+ */
+export function convertUnit(value: number, from: string, to: string): UnitConversion {
+  const a = parseUnit(from);
+  const b = parseUnit(to);
+  if (!a || !b) {
+    if (cleanUnit(from).toLowerCase() === cleanUnit(to).toLowerCase()) {
+      return result(value, to, { from, to, factor: 1, offset: 0, status: 'identity', rule: describe(from, to, 1, 0) });
+    }
+    return result(null, from, {
+      from, to, factor: 1, offset: 0, status: 'unknown',
+      rule: `sem regra para ${from} → ${to}`,
+      note: `unidade não reconhecida: ${!a ? from : to}`,
+    });
+  }
+
+  if (a.scale || b.scale) {
+    if (a.scale === b.scale) {
+      return result(value, b.symbol, { from, to, factor: 1, offset: 0, status: 'identity', rule: describe(a.symbol, b.symbol, 1, 0) });
+    }
+    return result(null, a.symbol, {
+      from, to, factor: 1, offset: 0, status: 'incompatible',
+      rule: `${a.symbol} ↛ ${b.symbol}`,
+      note: a.scale && b.scale
+        ? `${a.symbol} e ${b.symbol} são escalas distintas e não têm conversão`
+        : `${a.scale ? a.symbol : b.symbol} é uma escala própria, sem conversão para unidades dimensionais`,
+    });
+  }
+
+  if (!sameDimension(a.dimension, b.dimension)) {
+    return result(null, a.symbol, {
+      from, to, factor: 1, offset: 0, status: 'incompatible',
+      rule: `${a.symbol} ↛ ${b.symbol}`,
+      note: 'dimensões diferentes',
+    });
+  }
+
+  if (a.basis && b.basis && a.basis !== b.basis) {
+    return result(null, a.symbol, {
+      from, to, factor: 1, offset: 0, status: 'incompatible',
+      rule: `${a.symbol} ↛ ${b.symbol}`,
+      note: `${a.basis}% e ${b.basis}% só se convertem com as densidades dos componentes`,
+    });
+  }
+
+  const factor = tidy(a.factor / b.factor);
+  const offset = tidy((a.offset - b.offset) / b.factor);
+  const converted = tidy(value * factor + offset);
+
+  // A basis-free target would hide whether the amount is by mass or by volume:
+  // the value keeps the source basis and the conversion is flagged
+  if (a.basis !== b.basis) {
+    const unit = a.basis ? qualifySymbol(b.symbol, a.basis) : b.symbol;
+    return result(converted, unit, {
+      from, to: unit, factor, offset, status: 'flagged',
+      rule: describe(a.symbol, unit, factor, offset),
+      note: a.basis
+        ? `base de composição (${a.basis}) mantida: ${b.symbol} não indica massa ou volume`
+        : `base de composição assumida como ${b.basis}: ${a.symbol} não indica massa ou volume`,
+    });
+  }
+
+  // Same scale under another spelling (N/mm² = MPa, % = pct) is an identity; the rule keeps both symbols
+  const status: ConversionStatus = factor === 1 && offset === 0 ? 'identity' : 'converted';
+  return result(converted, b.symbol, { from, to: b.symbol, factor, offset, status, rule: describe(a.symbol, b.symbol, factor, offset) });
+}
+
+/**
+ * Provenance for a conversion the engine cannot derive but a curated source
+ * states (metrics_catalog.conversion_factor for a listed unit alias).
+ */
+export function declaredConversion(value: number, from: string, to: string, factor: number, source: string): UnitConversion {
+  return result(tidy(value * factor), to, {
+    from, to, factor, offset: 0, status: 'converted',
+    rule: `${describe(from, to, factor, 0)} (${source})`,
+  });
+}
+
+// Whether a stored conversion may be compared with values in its target unit
+export function isComparable(p: Pick<ConversionProvenance, 'status'> | null | undefined): boolean {
+  return !p || (p.status !== 'incompatible' && p.status !== 'unknown');
+}
+
+// ==========================================
+// STORED MEASUREMENTS
+// ==========================================
+export interface StoredUnits {
+  value: number;
+  value_canonical: number | null;
+  unit: string;
+  unit_canonical: string | null;
+  sd?: number | null;
+  replicates?: number[] | null;
+  conversion?: Pick<ConversionProvenance, 'factor' | 'offset' | 'status'> | null;
+}
+
+export interface CanonicalValues {
+  value: number;
+  unit: string;
+  sd: number | null;
+  replicates: number[] | null;
+}
+
+/**
+ * A stored measurement in its canonical unit: specimen values follow the full
+ * conversion (offset included) while the SD only scales. Rows saved before the
+ * provenance existed fall back to the linear ratio value_canonical / value.
+ */
+export function canonicalValues(m: StoredUnits): CanonicalValues {
+  const value = Number(m.value);
+  const canonical = m.value_canonical === null ? value : Number(m.value_canonical);
+  let factor = 1;
+  let offset = 0;
+  if (m.conversion) {
+    factor = Number(m.conversion.factor);
+    offset = Number(m.conversion.offset) || 0;
+  } else if (m.value_canonical !== null && value !== 0) {
+    factor = canonical / value;
+  }
+  return {
+    value: canonical,
+    unit: m.unit_canonical || m.unit,
+    sd: m.sd === null || m.sd === undefined ? null : Number(m.sd) * Math.abs(factor),
+    replicates: m.replicates && m.replicates.length > 0 ? m.replicates.map(v => Number(v) * factor + offset) : null,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for the Weibull module: MLE, pivotal confidence bounds and plot points.
+ * Run with: deno test supabase/functions/_shared/weibull.test.ts
+ */
+
+import { assert, assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { fitWeibull, weibullMle, weibullPlotPoints } from "./weibull.ts";
+
+function near(actual: number, expected: number, tolerance: number): boolean {
+  return Math.abs(actual - expected) <= tolerance;
+}
+
+// Flexural strength replicates (MPa)
+const flexural = [98.2, 104.5, 110.1, 112.7, 115.3, 118.9, 121.4, 124.8, 129.6, 136.0];
+
+Deno.test("MLE satisfies the score equations", () => {
+  const { m, sigma0 } = weibullMle(flexural);
+  const logs = flexural.map(Math.log);
+  const w = flexural.map(x => x ** m);
+  const sw = w.reduce((a, b) => a + b, 0);
+  const score = w.reduce((s, wi, i) => s + wi * logs[i], 0) / sw - 1 / m - logs.reduce((a, b) => a + b, 0) / logs.length;
+  assert(near(score, 0, 1e-8));
+  assert(near(sigma0, (sw / flexural.length) ** (1 / m), 1e-9));
+  assert(m > 8 && m < 15);
+});
+
+Deno.test("fit is scale-equivariant and deterministic", () => {
+  const a = fitWeibull(flexural);
+  const b = fitWeibull(flexural.map(v => v * 1000));
+  assert(near(a.modulus, b.modulus, 1e-6));
+  assert(near(b.characteristic_strength / a.characteristic_strength, 1000, 1e-6));
+  assertEquals(fitWeibull(flexural).modulus_ci, a.modulus_ci);
+});
+
+Deno.test("confidence bounds bracket the estimates; bias matches ASTM C1239", () => {
+  const fit = fitWeibull(flexural);
+  assert(fit.modulus_ci[0] < fit.modulus && fit.modulus < fit.modulus_ci[1]);
+  assert(fit.characteristic_strength_ci[0] < fit.characteristic_strength);
+  assert(fit.characteristic_strength < fit.characteristic_strength_ci[1]);
+  // Unbiasing factor for n = 10 is 0.859
+  assert(near(fit.modulus_unbiased / fit.modulus, 0.859, 0.02));
+});
+
+Deno.test("plot points use (i - 0.5) / n and skip non-positive values", () => {
+  const points = weibullPlotPoints([3, -1, 1, 2, 0]);
+  assertEquals(points.map(p => p.value), [1, 2, 3]);
+  assert(near(points[0].probability, 1 / 6, 1e-12));
+  assert(near(points[2].y, Math.log(-Math.log(1 - 5 / 6)), 1e-12));
+
+  const fit = fitWeibull([...flexural, 0, NaN]);
+  assertEquals([fit.n, fit.excluded], [10, 2]);
+  assertThrows(() => fitWeibull([1, 2, 3]));
+});
@@ -0,0 +1,187 @@
+/**
+ * Two-parameter Weibull analysis of strength data (flexural, compressive,
+ * tensile...), following the approach of ASTM C1239 / ISO 20501:
+ * maximum-likelihood estimates of the Weibull modulus m and the
+ * characteristic strength σ0, with confidence bounds from the pivotal
+ * quantities m̂/m and m̂·ln(σ̂0/σ0), whose distributions depend only on n.
+ *
+ * Pure module (no I/O) used by the `weibull-analysis` function.
+ */
+
+import { DEFAULT_ALPHA } from "./statistics.ts";
+
+// Metrics a Weibull analysis makes sense for (plus any other *_strength)
+export const WEIBULL_METRICS = ['flexural_strength', 'compressive_strength', 'tensile_strength', 'impact_strength'];
+
+export function isWeibullMetric(metric: string): boolean {
+  return WEIBULL_METRICS.includes(metric) || metric.endsWith('_strength');
+}
+
+// Derived metrics stored back into `measurements` (one row per experiment)
+export function weibullDerivedMetrics(metric: string): { modulus: string; sigma0: string } {
+  return { modulus: `${metric}_weibull_modulus`, sigma0: `${metric}_weibull_sigma0` };
+}
+
+export function isWeibullDerivedMetric(metric: string): boolean {
+  return /_weibull_(modulus|sigma0)$/.test(metric);
+}
+
+// Below this the MLE is too unstable to be worth reporting
+export const WEIBULL_MIN_SAMPLES = 5;
+
+const SIMULATIONS = 2000;
+
+// ==========================================
+// TYPES
+// ==========================================
+export interface WeibullPlotPoint {
+  value: number;
+  // Probability of failure (i - 0.5) / n
+  probability: number;
+  // ln(σ) and ln(ln(1 / (1 - F))): the Weibull plot axes
+  x: number;
+  y: number;
+}
+
+export interface WeibullFit {
+  n: number;
+  alpha: number;
+  modulus: number;
+  modulus_ci: [number, number];
+  // m̂ divided by the mean bias of the MLE for this n
+  modulus_unbiased: number;
+  characteristic_strength: number;
+  characteristic_strength_ci: [number, number];
+  points: WeibullPlotPoint[];
+  // Non-positive or non-finite values left out of the fit
+  excluded: number;
+}
+
+// ==========================================
+// ESTIMATION
+// ==========================================
+
+// Solves the MLE score equation for m by bisection on the log scale:
+// Σ xᵢ^m ln xᵢ / Σ xᵢ^m − 1/m − mean(ln xᵢ) = 0 (increasing in m)
+function mleFromLogs(logs: number[]): { m: number; sigma0: number } {
+  const n = logs.length;
+  const maxLog = Math.max(...logs);
+  const scaled = logs.map(l => l - maxLog);
+  const meanScaled = scaled.reduce((s, l) => s + l, 0) / n;
+
+  const score = (m: number) => {
+    let sw = 0;
+    let swl = 0;
+    for (const l of scaled) {
+      const w = Math.exp(m * l);
+      sw += w;
+      swl += w * l;
+    }
+    return swl / sw - 1 / m - meanScaled;
+  };
+
+  let lo = 1e-3;
+  let hi = 1;
+  while (score(hi) < 0 && hi < 1e6) hi *= 2;
+  for (let i = 0; i < 100 && hi - lo > 1e-10 * hi; i++) {
+    const mid = (lo + hi) / 2;
+    if (score(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+  const m = (lo + hi) / 2;
+  const meanW = scaled.reduce((s, l) => s + Math.exp(m * l), 0) / n;
+  return { m, sigma0: Math.exp(maxLog + Math.log(meanW) / m) };
+}
+
+export function weibullMle(values: number[]): { m: number; sigma0: number } {
+  const logs = values.filter(v => Number.isFinite(v) && v > 0).map(v => Math.log(v));
+  if (logs.length < 2) throw new Error('Weibull fit needs at least 2 positive values');
+  if (Math.max(...logs) - Math.min(...logs) < 1e-12) throw new Error('Weibull fit needs values that are not all equal');
+  return mleFromLogs(logs);
+}
+
+// Deterministic PRNG so the same data always yields the same bounds
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function quantile(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const i = Math.floor(pos);
+  const frac = pos - i;
+  return i + 1 < sorted.length ? sorted[i] + frac * (sorted[i + 1] - sorted[i]) : sorted[i];
+}
+
+interface PivotalDistribution {
+  // Sorted samples of m̂/m and of m̂·ln(σ̂0/σ0)
+  ratio: number[];
+  shift: number[];
+  meanRatio: number;
+}
+
+const pivotalCache = new Map<number, PivotalDistribution>();
+
+// Simulates the pivotal quantities from samples of a standard Weibull (m = σ0 = 1)
+function pivotalDistribution(n: number): PivotalDistribution {
+  const cached = pivotalCache.get(n);
+  if (cached) return cached;
+
+  const random = mulberry32(0x5eed + n);
+  const ratio: number[] = [];
+  const shift: number[] = [];
+  for (let s = 0; s < SIMULATIONS; s++) {
+    // ln of a standard Weibull draw: ln(−ln U)
+    const logs = Array.from({ length: n }, () => Math.log(-Math.log(1 - random())));
+    const fit = mleFromLogs(logs);
+    ratio.push(fit.m);
+    shift.push(fit.m * Math.log(fit.sigma0));
+  }
+  const meanRatio = ratio.reduce((a, b) => a + b, 0) / ratio.length;
+  ratio.sort((a, b) => a - b);
+  shift.sort((a, b) => a - b);
+
+  const dist = { ratio, shift, meanRatio };
+  pivotalCache.set(n, dist);
+  return dist;
+}
+
+export function weibullPlotPoints(values: number[]): WeibullPlotPoint[] {
+  const sorted = values.filter(v => Number.isFinite(v) && v > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  return sorted.map((value, i) => {
+    const probability = (i + 0.5) / n;
+    return { value, probability, x: Math.log(value), y: Math.log(-Math.log(1 - probability)) };
+  });
+}
+
+export function fitWeibull(values: number[], alpha = DEFAULT_ALPHA): WeibullFit {
+  const clean = values.filter(v => Number.isFinite(v) && v > 0);
+  const n = clean.length;
+  if (n < WEIBULL_MIN_SAMPLES) {
+    throw new Error(`Weibull fit needs at least ${WEIBULL_MIN_SAMPLES} positive values (got ${n})`);
+  }
+  const { m, sigma0 } = weibullMle(clean);
+  const dist = pivotalDistribution(n);
+
+  const [rLo, rHi] = [quantile(dist.ratio, alpha / 2), quantile(dist.ratio, 1 - alpha / 2)];
+  const [sLo, sHi] = [quantile(dist.shift, alpha / 2), quantile(dist.shift, 1 - alpha / 2)];
+
+  return {
+    n,
+    alpha,
+    modulus: m,
+    modulus_ci: [m / rHi, m / rLo],
+    modulus_unbiased: m / dist.meanRatio,
+    characteristic_strength: sigma0,
+    characteristic_strength_ci: [sigma0 * Math.exp(-sHi / m), sigma0 * Math.exp(-sLo / m)],
+    points: weibullPlotPoints(clean),
+    excluded: values.length - n,
+  };
+}
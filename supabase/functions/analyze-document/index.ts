@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAiProvider } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -14,11 +15,7 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
-
-    if (!lovableApiKey) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
+    const ai = getAiProvider();
 
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
@@ -216,42 +213,32 @@ Faça uma análise profunda e completa deste documento seguindo EXATAMENTE este
 
     // Multi-model routing: use advanced model for document analysis (high-value task)
     const analysisModel = (chunks && chunks.length > 20) 
-      ? 'google/gemini-2.5-pro'  // Large documents get advanced model
-      : 'google/gemini-3-flash-preview'; // Smaller documents use standard
+      ? ai.model('advanced')  // Large documents get advanced model
+      : ai.model('standard'); // Smaller documents use standard
 
     console.log(`Analyzing document "${file.name}" with ${chunks?.length || 0} chunks, model=${analysisModel}`);
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: analysisModel,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.2,
-        max_tokens: 6000,
-      }),
+    const completion = await ai.chat({
+      model: analysisModel,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: 0.2,
+      max_tokens: 6000,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI error:", response.status, errorText);
-      if (response.status === 429) {
+    if (!completion.ok) {
+      if (completion.status === 429) {
         throw new Error("Rate limit exceeded. Please try again later.");
       }
-      if (response.status === 402) {
+      if (completion.status === 402) {
         throw new Error("AI credits exhausted. Please add more credits.");
       }
-      throw new Error(`AI Gateway error: ${response.status}`);
+      throw new Error(`AI Gateway error: ${completion.status}`);
     }
 
-    const data = await response.json();
-    const analysis = data.choices?.[0]?.message?.content || "Erro ao gerar análise.";
+    const analysis = completion.content || "Erro ao gerar análise.";
 
     // Build sources from chunks or insights
     const sources = chunks && chunks.length > 0
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type ReplicateSummary, measurementSummary, poolSummaries } from "../_shared/replicates.ts";
+import { canonicalValues } from "../_shared/units.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,7 +11,9 @@ const corsHeaders = {
 interface MetricTrend {
   metric: string;
   unit: string;
+  // Specimens (replicates pooled across measurements)
   n: number;
+  measurements: number;
   mean: number;
   stddev: number;
   cv: number; // coefficient of variation
@@ -81,7 +85,7 @@ serve(async (req) => {
 
     const expIds = experiments.map((e: any) => e.id);
     const [{ data: measurements }, { data: conditions }] = await Promise.all([
-      supabase.from('measurements').select('experiment_id, metric, raw_metric_name, value, unit, method, confidence').in('experiment_id', expIds),
+      supabase.from('measurements').select('experiment_id, metric, raw_metric_name, value, unit, value_canonical, unit_canonical, conversion, method, confidence, n, sd, replicates').in('experiment_id', expIds),
       supabase.from('experiment_conditions').select('experiment_id, key, value').in('experiment_id', expIds),
     ]);
 
@@ -91,28 +95,41 @@ serve(async (req) => {
       });
     }
 
-    // Group by metric
-    const metricGroups = new Map<string, { values: number[]; unit: string; rawName: string; experimentIds: string[] }>();
+    // Replicate groups are pooled (mean ± SD weighted by n), never averaged as plain means.
+    // Values are taken in their canonical unit, so GPa and MPa rows pool together
+    // while units the engine could not convert stay in their own group.
+    const summaryOf = (m: any): ReplicateSummary => {
+      const canonical = canonicalValues(m);
+      return measurementSummary({ value: canonical.value, n: m.n, sd: canonical.sd, replicates: canonical.replicates });
+    };
+
+    // Group by metric and canonical unit
+    const metricGroups = new Map<string, { metric: string; rows: any[]; parts: ReplicateSummary[]; values: number[]; unit: string; rawName: string; experimentIds: string[] }>();
     for (const m of measurements) {
-      const key = m.metric;
+      const canonical = canonicalValues(m);
+      const key = `${m.metric}|${canonical.unit}`;
       if (!metricGroups.has(key)) {
-        metricGroups.set(key, { values: [], unit: m.unit, rawName: m.raw_metric_name || m.metric, experimentIds: [] });
+        metricGroups.set(key, { metric: m.metric, rows: [], parts: [], values: [], unit: canonical.unit, rawName: m.raw_metric_name || m.metric, experimentIds: [] });
       }
       const group = metricGroups.get(key)!;
-      group.values.push(Number(m.value));
+      group.rows.push(m);
+      group.parts.push(summaryOf(m));
+      // Quartiles use specimen values when they were kept, else the reported means
+      group.values.push(...(canonical.replicates ?? [canonical.value]));
       group.experimentIds.push(m.experiment_id);
     }
 
     // Calculate trends for each metric
     const trends: MetricTrend[] = [];
 
-    for (const [metric, group] of metricGroups.entries()) {
-      if (group.values.length < 3) continue; // Need at least 3 values for trends
+    for (const group of metricGroups.values()) {
+      const metric = group.metric;
+      const pooled = poolSummaries(group.parts);
+      if (!pooled || pooled.n < 3) continue; // Need at least 3 specimens for trends
 
-      const n = group.values.length;
-      const mean = group.values.reduce((a, b) => a + b, 0) / n;
-      const variance = group.values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / (n - 1);
-      const stddev = Math.sqrt(variance);
+      const n = pooled.n;
+      const mean = pooled.mean;
+      const stddev = pooled.sd ?? 0;
       const cv = mean !== 0 ? (stddev / Math.abs(mean)) * 100 : 0;
 
       // Determine trend type
@@ -122,8 +139,8 @@ serve(async (req) => {
       } else {
         // Simple trend detection: compare first half vs second half means
         const sorted = [...group.values].sort((a, b) => a - b);
-        const lowerQuartile = sorted[Math.floor(n * 0.25)];
-        const upperQuartile = sorted[Math.floor(n * 0.75)];
+        const lowerQuartile = sorted[Math.floor(sorted.length * 0.25)];
+        const upperQuartile = sorted[Math.floor(sorted.length * 0.75)];
         const iqr = upperQuartile - lowerQuartile;
         if (iqr / mean > 0.2) {
           // Check correlation with conditions
@@ -139,29 +156,27 @@ serve(async (req) => {
         condByExp.get(c.experiment_id)!.push(c);
       }
 
-      // Group values by condition
-      const condValueMap = new Map<string, number[]>();
+      // Group replicate summaries by condition
+      const condValueMap = new Map<string, ReplicateSummary[]>();
       const uniqueExpIds = [...new Set(group.experimentIds)];
       
-      for (let i = 0; i < measurements.length; i++) {
-        const m = measurements[i];
-        if (m.metric !== metric) continue;
+      for (const m of group.rows) {
         const expConds = condByExp.get(m.experiment_id) || [];
         for (const c of expConds) {
           const key = `${c.key}::${c.value}`;
           if (!condValueMap.has(key)) condValueMap.set(key, []);
-          condValueMap.get(key)!.push(Number(m.value));
+          condValueMap.get(key)!.push(summaryOf(m));
         }
       }
 
-      for (const [key, values] of condValueMap.entries()) {
-        if (values.length < 2) continue;
+      for (const [key, parts] of condValueMap.entries()) {
+        const condPooled = poolSummaries(parts);
+        if (!condPooled || condPooled.n < 2) continue;
         const [condKey, condValue] = key.split('::');
-        const condAvg = values.reduce((a, b) => a + b, 0) / values.length;
-        conditionCorrelations.push({ condition_key: condKey, condition_value: condValue, avg: condAvg, n: values.length });
+        conditionCorrelations.push({ condition_key: condKey, condition_value: condValue, avg: condPooled.mean, n: condPooled.n });
       }
 
-      trends.push({ metric, unit: group.unit, n, mean, stddev, cv, trend, conditionCorrelations });
+      trends.push({ metric, unit: group.unit, n, measurements: group.parts.length, mean, stddev, cv, trend, conditionCorrelations });
     }
 
     // Save trends as knowledge_items
@@ -203,7 +218,7 @@ serve(async (req) => {
         category: 'pattern',
         title: `Tendência estatística: ${t.metric}`,
         content: content.substring(0, 500),
-        evidence: `Baseado em ${t.n} medições. Média: ${t.mean.toFixed(2)} ${t.unit}, DP: ${t.stddev.toFixed(2)}`,
+        evidence: `Baseado em ${t.n} corpos de prova (${t.measurements} medições). Média: ${t.mean.toFixed(2)} ${t.unit}, DP: ${t.stddev.toFixed(2)}`,
         confidence,
         extracted_by: user.id,
         relationship_type: 'statistical_trend',
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAiProvider } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -14,8 +15,7 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
-    if (!lovableApiKey) throw new Error("LOVABLE_API_KEY is not configured");
+    const ai = getAiProvider();
 
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
@@ -155,15 +155,12 @@ ${expSummaries.map(e => `- ${e.title} [${e.file}]: ${e.metricsCount} medições,
 COBERTURA DE MÉTRICAS POR EXPERIMENTO:
 ${Array.from(expMetricSets.entries()).map(([exp, metrics]) => `- ${exp}: ${[...metrics].join(', ')}`).join('\n')}`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: { "Authorization": `Bearer ${lovableApiKey}`, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "system",
-            content: `Você é um analista de dados de P&D. Dado um conjunto de experimentos e medições, identifique:
+    const completion = await ai.chat({
+      model: ai.model('structured'),
+      messages: [
+        {
+          role: "system",
+          content: `Você é um analista de dados de P&D. Dado um conjunto de experimentos e medições, identifique:
 
 1. PATTERNS: Tendências consistentes (ex: "sempre que monômero=UDMA, flexural > 120 MPa")
 2. CONTRADICTIONS: Resultados conflitantes (ex: "UDMA mostra flexural alta em exp1 mas baixa em exp2")
@@ -175,80 +172,78 @@ REGRAS:
 - Gaps devem ser acionáveis
 - Max 5 patterns, 5 contradictions, 5 gaps
 - Se não encontrar, retorne arrays vazios`
-          },
-          { role: "user", content: contextForAI },
-        ],
-        tools: [{
-          type: "function",
-          function: {
-            name: "report_correlations",
-            parameters: {
-              type: "object",
-              properties: {
-                patterns: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      title: { type: "string", maxLength: 100 },
-                      content: { type: "string", maxLength: 500 },
-                      evidence: { type: "string", maxLength: 300 },
-                      confidence: { type: "number", minimum: 0, maximum: 1 },
-                      related_experiments: { type: "array", items: { type: "string" } },
-                    },
-                    required: ["title", "content", "evidence", "confidence"],
+        },
+        { role: "user", content: contextForAI },
+      ],
+      tools: [{
+        type: "function",
+        function: {
+          name: "report_correlations",
+          parameters: {
+            type: "object",
+            properties: {
+              patterns: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string", maxLength: 100 },
+                    content: { type: "string", maxLength: 500 },
+                    evidence: { type: "string", maxLength: 300 },
+                    confidence: { type: "number", minimum: 0, maximum: 1 },
+                    related_experiments: { type: "array", items: { type: "string" } },
                   },
+                  required: ["title", "content", "evidence", "confidence"],
                 },
-                contradictions: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      title: { type: "string", maxLength: 100 },
-                      content: { type: "string", maxLength: 500 },
-                      evidence: { type: "string", maxLength: 300 },
-                      confidence: { type: "number", minimum: 0, maximum: 1 },
-                      related_experiments: { type: "array", items: { type: "string" } },
-                    },
-                    required: ["title", "content", "evidence", "confidence"],
+              },
+              contradictions: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string", maxLength: 100 },
+                    content: { type: "string", maxLength: 500 },
+                    evidence: { type: "string", maxLength: 300 },
+                    confidence: { type: "number", minimum: 0, maximum: 1 },
+                    related_experiments: { type: "array", items: { type: "string" } },
                   },
+                  required: ["title", "content", "evidence", "confidence"],
                 },
-                gaps: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      title: { type: "string", maxLength: 100 },
-                      content: { type: "string", maxLength: 500 },
-                      confidence: { type: "number", minimum: 0, maximum: 1 },
-                      related_experiments: { type: "array", items: { type: "string" } },
-                    },
-                    required: ["title", "content", "confidence"],
+              },
+              gaps: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string", maxLength: 100 },
+                    content: { type: "string", maxLength: 500 },
+                    confidence: { type: "number", minimum: 0, maximum: 1 },
+                    related_experiments: { type: "array", items: { type: "string" } },
                   },
+                  required: ["title", "content", "confidence"],
                 },
               },
-              required: ["patterns", "contradictions", "gaps"],
             },
+            required: ["patterns", "contradictions", "gaps"],
           },
-        }],
-        tool_choice: { type: "function", function: { name: "report_correlations" } },
-        temperature: 0.1,
-      }),
+        },
+      }],
+      tool_choice: { type: "function", function: { name: "report_correlations" } },
+      temperature: 0.1,
     });
 
-    if (!response.ok) {
-      throw new Error(`AI error: ${response.status}`);
+    if (!completion.ok) {
+      throw new Error(`AI error: ${completion.status}`);
     }
 
-    const aiData = await response.json();
-    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
+    const toolCall = completion.toolCall;
     let patterns: any[] = [];
     let contradictions: any[] = [];
     let gaps: any[] = [];
 
-    if (toolCall?.function?.arguments) {
+    if (toolCall) {
       try {
-        const args = JSON.parse(toolCall.function.arguments);
+        const args = JSON.parse(toolCall.arguments);
         patterns = args.patterns || [];
         contradictions = args.contradictions || [];
         gaps = args.gaps || [];
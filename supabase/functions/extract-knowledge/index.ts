@@ -1,9 +1,43 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import * as XLSX from "https://esm.sh/xlsx@0.18.5?target=deno";
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
 // @ts-ignore - pdfjs-serverless types
 import { getDocument } from "https://esm.sh/pdfjs-serverless";
 import mammoth from "https://esm.sh/mammoth@1.8.0";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { type AiProvider, getAiProvider } from "../_shared/ai-provider.ts";
+import { type FormulationRef, resolveFormulation } from "../_shared/formulations.ts";
+import {
+  groupReplicateColumns,
+  parseMeanSd,
+  replicateIndex,
+  replicateStats,
+  statColumnKind,
+  summarizeReplicates,
+} from "../_shared/replicates.ts";
+import { type UnitConversion, convertUnit, declaredConversion, isComparable } from "../_shared/units.ts";
+import {
+  type CatalogMetric,
+  type PdfTable,
+  type RawPdfTextItem,
+  detectPageTables,
+  dropTableDuplicates,
+  gridToTable,
+  tablesToSheets,
+  toTextItems,
+} from "../_shared/pdf-tables.ts";
+import { parseHtml, parseMarkdown, parseOdtContent, parsePptxSlide, pptxSlidePaths } from "../_shared/document-parsers.ts";
+import { type InstrumentImport, importInstrumentExport } from "../_shared/instrument-importers.ts";
+import {
+  type ExclusionSet,
+  claimFingerprint,
+  dropExcludedMeasurements,
+  exclusionKey,
+  knowledgeFingerprint,
+  toExclusionSet,
+} from "../_shared/review-exclusions.ts";
+import { type ExtractionDiff, type ExtractionSnapshot, diffExtractions } from "../_shared/extraction-diff.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -27,6 +61,7 @@ interface ExperimentExtraction {
   objective?: string;
   summary?: string;
   is_qualitative: boolean;
+  formulation_id?: string | null;
   measurements: {
     metric: string;
     value: number;
@@ -35,6 +70,12 @@ interface ExperimentExtraction {
     notes?: string;
     confidence: string;
     source_excerpt: string;
+    formulation_id?: string | null;
+    // Replicate group: value is the mean of n specimens
+    n?: number | null;
+    sd?: number | null;
+    sem?: number | null;
+    replicates?: number[] | null;
   }[];
   conditions: { key: string; value: string }[];
   citations: {
@@ -93,6 +134,14 @@ function headerIndicatesPercent(header: string): boolean {
   return h.includes('%') || h.includes('pct') || h.includes('percent') || h.includes('wt');
 }
 
+// Composition basis stated in a filler header ("Carga (vol%)" → vol%), if any
+function fillerBasisUnit(header: string): string | null {
+  const h = header.toLowerCase();
+  if (/\bvol\b|v\/v|volume/.test(h)) return 'vol%';
+  if (/\bwt\b|w\/w|weight|massa|peso/.test(h)) return 'wt%';
+  return null;
+}
+
 /**
  * Normalize a raw cell value for filler_content:
  * - 0.4 with % header → 40 pct
@@ -130,7 +179,8 @@ function normalizeFillerValue(rawValue: any, header: string): { value: number; v
  * Validate a measurement against anti-hallucination rules:
  * 1. value must be a valid number
  * 2. unit must not be empty (relaxed for filler_content: inferred from header)
- * 3. source_excerpt must contain the numeric value
+ * 3. source_excerpt must contain the numeric value (for replicate groups,
+ *    every specimen value, since the mean itself is computed)
  */
 function validateMeasurement(m: any): boolean {
   if (typeof m.value !== 'number' || isNaN(m.value)) return false;
@@ -138,9 +188,12 @@ function validateMeasurement(m: any): boolean {
   const isFiller = m.metric === 'filler_content' || isFillerHeader(m.raw_metric_name || m.metric || '');
   if (!isFiller && (!m.unit || String(m.unit).trim() === '')) return false;
   if (!m.source_excerpt || String(m.source_excerpt).trim() === '') return false;
+  const excerpt = String(m.source_excerpt);
+  if (Array.isArray(m.replicates) && m.replicates.length > 0) {
+    return m.replicates.every((v: number) => typeof v === 'number' && quotesNumber(excerpt, v));
+  }
   // Check that the excerpt contains the value (as string) 
   const valueStr = String(m.value);
-  const excerpt = String(m.source_excerpt);
   if (excerpt.includes(valueStr)) return true;
   if (excerpt.includes(valueStr.replace('.', ','))) return true;
   // For filler with normalized values, check the raw value
@@ -151,6 +204,39 @@ function validateMeasurement(m: any): boolean {
   return false;
 }
 
+// The number as the model wrote it, with a decimal point or comma
+function quotesNumber(excerpt: string, v: number): boolean {
+  return excerpt.includes(String(v)) || excerpt.includes(String(v).replace('.', ','));
+}
+
+/**
+ * Same rule for the spread the model reports: n, SD and SEM feed pooled
+ * statistics and significance tests, so each one is kept only when its number
+ * appears in source_excerpt. Only for LLM experiments; table and instrument
+ * rows compute theirs from the cells.
+ */
+function dropUnquotedSpread(experiments: ExperimentExtraction[]): ExperimentExtraction[] {
+  let cleared = 0;
+  const checked = experiments.map(exp => ({
+    ...exp,
+    measurements: (exp.measurements || []).map(m => {
+      const excerpt = String(m.source_excerpt || '');
+      const fields = { n: m.n, sd: m.sd, sem: m.sem };
+      for (const field of ['n', 'sd', 'sem'] as const) {
+        const v = fields[field];
+        if (v === null || v === undefined) continue;
+        if (typeof v !== 'number' || !quotesNumber(excerpt, v)) {
+          fields[field] = null;
+          cleared++;
+        }
+      }
+      return { ...m, ...fields };
+    }),
+  }));
+  if (cleared > 0) console.log(`Anti-hallucination: cleared ${cleared} n/SD/SEM values not found in their excerpts`);
+  return checked;
+}
+
 // ==========================================
 // EXCEL STRUCTURED PARSER
 // ==========================================
@@ -160,6 +246,7 @@ interface ExcelSheetData {
   headers: string[];
   rows: Record<string, any>[];
   headerRows: string[][]; // First 3 rows for AI mapping
+  page?: number; // PDF/PPTX tables: page or slide the table was read from
 }
 
 function parseExcelStructured(arrayBuffer: ArrayBuffer, fileName: string): {
@@ -292,7 +379,7 @@ function parseExcelStructured(arrayBuffer: ArrayBuffer, fileName: string): {
  */
 async function mapExcelHeaders(
   sheets: ExcelSheetData[],
-  apiKey: string,
+  ai: AiProvider,
   metricsCatalog: any[]
 ): Promise<any> {
   const headerSummary = sheets.map(s => ({
@@ -305,18 +392,12 @@ async function mapExcelHeaders(
     `${m.canonical_name} (${m.display_name}, ${m.unit}) aliases: ${m.aliases?.join(', ')}`
   ).join('\n');
 
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-2.5-flash",
-      messages: [
-        {
-          role: "system",
-          content: `Você é um mapeador de colunas de planilhas científicas. Dado os cabeçalhos de uma planilha Excel, identifique:
+  const completion = await ai.chat({
+    model: ai.model('structured'),
+    messages: [
+      {
+        role: "system",
+        content: `Você é um mapeador de colunas de planilhas científicas. Dado os cabeçalhos de uma planilha Excel, identifique:
 - Quais colunas contêm MÉTRICAS (valores numéricos de medição)
 - Quais colunas contêm UNIDADES
 - Quais colunas contêm CONDIÇÕES experimentais (key-value)
@@ -329,65 +410,65 @@ REGRAS:
 1. Se uma coluna tem nome como "RF (MPa)" ou "Flexural Strength", mapeie para a métrica canônica + unidade
 2. Se a unidade está no nome da coluna (ex: "MPa"), extraia-a
 3. Colunas como "Grupo", "Amostra", "Material" são condições
-4. Se não consegue mapear com certeza, marque como "unknown"`,
-        },
-        {
-          role: "user",
-          content: `Mapeie as colunas destas planilhas:\n${JSON.stringify(headerSummary, null, 2)}`,
-        },
-      ],
-      tools: [{
-        type: "function",
-        function: {
-          name: "map_columns",
-          description: "Map spreadsheet columns to metrics, units and conditions",
-          parameters: {
-            type: "object",
-            properties: {
-              sheet_mappings: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    sheet_name: { type: "string" },
-                    experiment_title: { type: "string", description: "Suggested experiment title based on sheet content" },
-                    columns: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          column_name: { type: "string" },
-                          role: { type: "string", enum: ["metric", "unit", "condition", "identifier", "unknown"] },
-                          canonical_metric: { type: "string", description: "Canonical metric name if role=metric" },
-                          unit: { type: "string", description: "Unit extracted from column name or inferred" },
-                          condition_key: { type: "string", description: "Condition key if role=condition" },
-                        },
-                        required: ["column_name", "role"],
+4. Colunas de réplicas numeradas (CP1..CPn, Rep 1..n) são a MESMA métrica: mapeie todas com o mesmo canonical_metric e unidade
+5. Colunas de desvio padrão (DP/SD), erro padrão (EPM/SEM) ou n de corpos de prova NÃO são métricas próprias: marque como "unknown"
+6. Se não consegue mapear com certeza, marque como "unknown"`,
+      },
+      {
+        role: "user",
+        content: `Mapeie as colunas destas planilhas:\n${JSON.stringify(headerSummary, null, 2)}`,
+      },
+    ],
+    tools: [{
+      type: "function",
+      function: {
+        name: "map_columns",
+        description: "Map spreadsheet columns to metrics, units and conditions",
+        parameters: {
+          type: "object",
+          properties: {
+            sheet_mappings: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  sheet_name: { type: "string" },
+                  experiment_title: { type: "string", description: "Suggested experiment title based on sheet content" },
+                  columns: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        column_name: { type: "string" },
+                        role: { type: "string", enum: ["metric", "unit", "condition", "identifier", "unknown"] },
+                        canonical_metric: { type: "string", description: "Canonical metric name if role=metric" },
+                        unit: { type: "string", description: "Unit extracted from column name or inferred" },
+                        condition_key: { type: "string", description: "Condition key if role=condition" },
                       },
+                      required: ["column_name", "role"],
                     },
                   },
-                  required: ["sheet_name", "experiment_title", "columns"],
                 },
+                required: ["sheet_name", "experiment_title", "columns"],
               },
             },
-            required: ["sheet_mappings"],
           },
+          required: ["sheet_mappings"],
         },
-      }],
-      tool_choice: { type: "function", function: { name: "map_columns" } },
-    }),
+      },
+    }],
+    tool_choice: { type: "function", function: { name: "map_columns" } },
   });
 
-  if (!response.ok) {
-    console.warn("Header mapping AI call failed:", response.status);
+  if (!completion.ok) {
+    console.warn("Header mapping AI call failed:", completion.status);
     return null;
   }
 
-  const data = await response.json();
-  const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
-  if (toolCall?.function?.arguments) {
+  const toolCall = completion.toolCall;
+  if (toolCall) {
     try {
-      const parsed = JSON.parse(toolCall.function.arguments);
+      const parsed = JSON.parse(toolCall.arguments);
       console.log(`AI header mapping result: ${JSON.stringify(parsed).substring(0, 500)}`);
       return parsed;
     } catch (e) {
@@ -395,17 +476,23 @@ REGRAS:
       return null;
     }
   }
-  console.warn("No tool_calls in AI header mapping response. Message:", JSON.stringify(data.choices?.[0]?.message).substring(0, 300));
+  console.warn("No tool_calls in AI header mapping response. Message:", completion.content.substring(0, 300));
   return null;
 }
 
 /**
- * Generate structured experiments from Excel data using AI column mapping
+ * Generate structured experiments from Excel data using AI column mapping.
+ * Rows are resolved to registered formulations by their identifier and
+ * condition values (falling back to the sheet name / experiment title).
+ * Numbered specimen columns of one metric (CP1..CPn) collapse into one
+ * replicate measurement per row; "mean ± SD" cells and SD / SEM / n columns
+ * fill the replicate fields of the mean they belong to.
  */
 function generateExcelExperiments(
   sheets: ExcelSheetData[],
   mapping: any,
-  fileId: string
+  fileId: string,
+  formulations: FormulationRef[] = [],
 ): ExperimentExtraction[] {
   if (!mapping?.sheet_mappings) {
     console.warn("No sheet_mappings in AI response");
@@ -466,6 +553,45 @@ function generateExcelExperiments(
     const measurements: ExperimentExtraction['measurements'] = [];
     const citations: ExperimentExtraction['citations'] = [];
 
+    // Replicate layout: specimen columns sharing a base header and metric
+    const replicateSets = groupReplicateColumns(metricColumns.map((c: any) => c.column_name))
+      .map(names => names.map(name => metricColumns.find((c: any) => c.column_name === name)))
+      .filter(cols => new Set(cols.map((c: any) => c.canonical_metric || '')).size === 1)
+      .map(cols => ({
+        metric: cols[0].canonical_metric || replicateIndex(cols[0].column_name)?.base || cols[0].column_name,
+        unit: cols.find((c: any) => c.unit)?.unit || '',
+        keys: cols.map((c: any) => resolveColumn(c.column_name)).filter((k: string | null): k is string => !!k),
+      }))
+      .filter(set => set.keys.length >= 2);
+    const replicateKeys = new Set(replicateSets.flatMap(set => set.keys));
+
+    // SD / SEM columns annotate the nearest mean column to their left; a single n column applies to every mean
+    const statColumns = allColumns
+      .map((c: any) => ({ key: resolveColumn(c.column_name), kind: statColumnKind(c.column_name) }))
+      .filter((c: any) => c.key && c.kind) as { key: string; kind: 'sd' | 'sem' | 'n' }[];
+    const statKeys = new Set(statColumns.map(c => c.key));
+    const meanKeys = metricColumns
+      .map((c: any) => resolveColumn(c.column_name))
+      .filter((k: string | null): k is string => !!k && !statKeys.has(k) && !replicateKeys.has(k));
+    const spreadByMean = new Map<string, { key: string; kind: 'sd' | 'sem' }>();
+    for (const sc of statColumns) {
+      if (sc.kind === 'n') continue;
+      const pos = actualKeys.indexOf(sc.key);
+      const owner = meanKeys
+        .filter((k: string) => actualKeys.indexOf(k) < pos)
+        .sort((a: string, b: string) => actualKeys.indexOf(b) - actualKeys.indexOf(a))[0];
+      if (owner && !spreadByMean.has(owner)) spreadByMean.set(owner, { key: sc.key, kind: sc.kind });
+    }
+    const nColumns = statColumns.filter(c => c.kind === 'n');
+    const nKey = nColumns.length === 1 ? nColumns[0].key : null;
+    if (replicateSets.length > 0 || spreadByMean.size > 0) {
+      console.log(`Sheet "${sheet.sheetName}": ${replicateSets.length} replicate column set(s), ${spreadByMean.size} SD/SEM column(s)${nKey ? `, n column "${nKey}"` : ''}`);
+    }
+
+    const sheetFormulationId = formulations.length > 0
+      ? resolveFormulation([sheet.sheetName, sheetMapping.experiment_title || ''], formulations)
+      : null;
+
     // Log column resolution
     for (const mc of metricColumns) {
       const resolved = resolveColumn(mc.column_name);
@@ -476,29 +602,41 @@ function generateExcelExperiments(
       const row = sheet.rows[rowIdx];
       
       // Build row identifier
-      const rowId = identifierColumns
+      const rowIdParts: string[] = identifierColumns
         .map((c: any) => { const k = resolveColumn(c.column_name); return k ? String(row[k] || '') : ''; })
-        .filter(Boolean).join(' | ');
+        .filter(Boolean);
+      const rowId = rowIdParts.join(' | ');
 
       // Extract conditions
+      const rowConditionValues: string[] = [];
       for (const cc of conditionColumns) {
         const key = resolveColumn(cc.column_name);
         if (!key) continue;
         const val = String(row[key] || '').trim();
+        if (val) rowConditionValues.push(val);
         if (val && !conditions.find(c => c.key === (cc.condition_key || cc.column_name) && c.value === val)) {
           conditions.push({ key: cc.condition_key || cc.column_name, value: val });
         }
       }
 
+      const formulationId = formulations.length > 0
+        ? resolveFormulation([...rowIdParts, ...rowConditionValues], formulations) ?? sheetFormulationId
+        : null;
+
+      const rowN = nKey ? parseInt(String(row[nKey] ?? ''), 10) : NaN;
+
       // Extract measurements
       for (const mc of metricColumns) {
         const key = resolveColumn(mc.column_name);
-        if (!key) continue;
+        if (!key || statKeys.has(key) || replicateKeys.has(key)) continue;
         const rawValue = row[key];
         if (rawValue === '' || rawValue === undefined || rawValue === null) continue;
 
         const headerRaw = mc.column_name || key;
-        const excerpt = `Sheet: ${sheet.sheetName}, Row: ${rowIdx + 2}, Col: ${key}, Value: ${rawValue}${rowId ? `, Sample: ${rowId}` : ''}`;
+        const spreadColumn = spreadByMean.get(key);
+        const spreadCell = spreadColumn ? String(row[spreadColumn.key] ?? '').trim() : '';
+        const statNote = `${spreadCell ? `, ${spreadColumn!.key}: ${spreadCell}` : ''}${Number.isFinite(rowN) ? `, ${nKey}: ${rowN}` : ''}`;
+        const excerpt = `Sheet: ${sheet.sheetName}, Row: ${rowIdx + 2}, Col: ${key}, Value: ${rawValue}${statNote}${rowId ? `, Sample: ${rowId}` : ''}`;
 
         // ===== DETERMINISTIC FILLER OVERRIDE =====
         // Check if this header should be forced to filler_content
@@ -516,9 +654,11 @@ function generateExcelExperiments(
               header_raw: headerRaw,
               unit_canonical_override: normalized.unitCanonical,
               value_canonical_override: normalized.valueCanonical,
+              formulation_id: formulationId,
             } as any);
 
             citations.push({
+              page: sheet.page,
               sheet_name: sheet.sheetName,
               cell_range: `Row ${rowIdx + 2}, Col ${key}`,
               excerpt: excerpt.substring(0, 300),
@@ -527,9 +667,14 @@ function generateExcelExperiments(
           }
         }
 
-        // Normal metric processing
-        const numValue = parseFloat(String(rawValue).replace(',', '.'));
+        // Normal metric processing ("85,3 ± 4,2" cells carry their own spread and n)
+        const meanSd = parseMeanSd(String(rawValue));
+        const numValue = meanSd ? meanSd.mean : parseFloat(String(rawValue).replace(',', '.'));
         if (isNaN(numValue)) continue;
+        const spreadValue = parseFloat(spreadCell.replace(',', '.'));
+        const spread = meanSd
+          ? { value: meanSd.spread, kind: meanSd.kind }
+          : spreadColumn && Number.isFinite(spreadValue) ? { value: spreadValue, kind: spreadColumn.kind } : null;
 
         measurements.push({
           metric: mc.canonical_metric || mc.column_name,
@@ -539,25 +684,72 @@ function generateExcelExperiments(
           source_excerpt: excerpt,
           value_raw: String(rawValue),
           header_raw: headerRaw,
+          formulation_id: formulationId,
+          n: meanSd?.n ?? (Number.isFinite(rowN) && rowN > 0 ? rowN : null),
+          sd: spread?.kind === 'sd' ? spread.value : null,
+          sem: spread?.kind === 'sem' ? spread.value : null,
         } as any);
 
         citations.push({
+          page: sheet.page,
           sheet_name: sheet.sheetName,
           cell_range: `Row ${rowIdx + 2}, Col ${key}`,
           excerpt: excerpt.substring(0, 300),
         });
       }
+
+      // One replicate measurement per row and specimen column set
+      for (const set of replicateSets) {
+        const cells = set.keys
+          .map(k => ({ key: k, raw: row[k] }))
+          .filter(c => c.raw !== '' && c.raw !== undefined && c.raw !== null);
+        const values = cells.map(c => parseFloat(String(c.raw).replace(',', '.'))).filter(v => !isNaN(v));
+        if (values.length === 0) continue;
+
+        const stats = summarizeReplicates(values);
+        const range = `${set.keys[0]}–${set.keys[set.keys.length - 1]}`;
+        const excerpt = `Sheet: ${sheet.sheetName}, Row: ${rowIdx + 2}, Col: ${range}, Values: ${values.join('; ')}${rowId ? `, Sample: ${rowId}` : ''}`;
+        measurements.push({
+          metric: set.metric,
+          value: stats.mean,
+          unit: set.unit,
+          confidence: 'high',
+          source_excerpt: excerpt,
+          value_raw: cells.map(c => String(c.raw)).join('; '),
+          header_raw: set.keys.join(', '),
+          formulation_id: formulationId,
+          n: stats.n,
+          sd: stats.sd,
+          sem: stats.sem,
+          replicates: values,
+        } as any);
+
+        citations.push({
+          page: sheet.page,
+          sheet_name: sheet.sheetName,
+          cell_range: `Row ${rowIdx + 2}, Col ${range}`,
+          excerpt: excerpt.substring(0, 300),
+        });
+      }
     }
 
     console.log(`Sheet "${sheet.sheetName}": generated ${measurements.length} measurements, ${conditions.length} conditions`);
 
+    // The experiment belongs to a formulation only when every resolved row agrees
+    const rowFormulations = new Set(measurements.map(m => m.formulation_id).filter(Boolean));
+    const experimentFormulationId = rowFormulations.size === 1 ? [...rowFormulations][0] : sheetFormulationId;
+    if (rowFormulations.size > 0) {
+      console.log(`Sheet "${sheet.sheetName}": rows resolved to ${rowFormulations.size} formulation(s)`);
+    }
+
     // Only create experiment if we have data
     if (measurements.length > 0 || conditions.length > 0) {
       experiments.push({
         title: sheetMapping.experiment_title || `Dados: ${sheet.sheetName}`,
         objective: undefined,
-        summary: `${measurements.length} medições extraídas de ${sheet.rows.length} linhas na planilha "${sheet.sheetName}"`,
+        summary: `${measurements.length} medições extraídas de ${sheet.rows.length} linhas ${sheet.page ? 'da tabela' : 'na planilha'} "${sheet.sheetName}"`,
         is_qualitative: measurements.length === 0,
+        formulation_id: experimentFormulationId,
         measurements,
         conditions,
         citations,
@@ -568,10 +760,88 @@ function generateExcelExperiments(
   return experiments;
 }
 
+// LLM measurements repeating a value read from a PDF or slide table (same
+// canonical metric, value and page) are dropped, each one logged
+function dropTableCopies(
+  experiments: ExperimentExtraction[],
+  tableExperiments: ExperimentExtraction[],
+  catalog: CatalogMetric[]
+): ExperimentExtraction[] {
+  const { experiments: kept, dropped } = dropTableDuplicates(experiments, tableExperiments, catalog);
+  for (const d of dropped) {
+    console.log(`Document tables: dropped LLM measurement ${d.metric} = ${d.value} (${d.page !== null ? `p. ${d.page}` : 'sem página'}, "${d.experiment}") already read from a table`);
+  }
+  return kept;
+}
+
+// Measurements rejected when an earlier extraction of the file was reviewed
+function applyExclusions(experiments: ExperimentExtraction[], exclusions: ExclusionSet): ExperimentExtraction[] {
+  const { experiments: kept, dropped } = dropExcludedMeasurements(experiments, exclusions);
+  if (dropped > 0) console.log(`Review exclusions: skipped ${dropped} rejected measurements`);
+  return kept;
+}
+
+/**
+ * Experiment of an instrument export: one replicate measurement per metric and
+ * sample, cited by file rows, with the test parameters as conditions.
+ */
+function instrumentExperiment(
+  imp: InstrumentImport,
+  fileName: string,
+  formulations: FormulationRef[]
+): ExperimentExtraction {
+  const measurements: ExperimentExtraction['measurements'] = [];
+  const citations: ExperimentExtraction['citations'] = [];
+
+  for (const m of imp.measurements) {
+    const stats = summarizeReplicates(m.values);
+    const rows = m.lines.length > 1 ? `${m.lines[0]}–${m.lines[m.lines.length - 1]}` : String(m.lines[0]);
+    const excerpt = `File: ${fileName}, Rows: ${rows}, Col: ${m.header}, Values: ${m.values.join('; ')}${m.sample ? `, Sample: ${m.sample}` : ''}`;
+    const labels = [m.sample, imp.sample].filter((l): l is string => !!l);
+
+    measurements.push({
+      metric: m.metric,
+      value: stats.mean,
+      unit: m.unit,
+      method: m.method ?? undefined,
+      confidence: 'high',
+      source_excerpt: excerpt,
+      value_raw: m.values.join('; '),
+      header_raw: m.header,
+      formulation_id: formulations.length > 0 && labels.length > 0 ? resolveFormulation(labels, formulations) : null,
+      n: stats.n,
+      sd: stats.sd,
+      sem: stats.sem,
+      replicates: m.values.length > 1 ? m.values : null,
+    } as any);
+
+    citations.push({
+      cell_range: `Rows ${rows}, Col ${m.header}`,
+      excerpt: excerpt.substring(0, 300),
+    });
+  }
+
+  const specimens = Math.max(...imp.measurements.map(m => m.values.length));
+  return {
+    title: `${imp.instrument}: ${imp.sample ?? fileName}`,
+    summary: `${measurements.length} medições de até ${specimens} corpos de prova importadas da exportação do instrumento`,
+    is_qualitative: false,
+    formulation_id: imp.sample && formulations.length > 0 ? resolveFormulation([imp.sample], formulations) : null,
+    measurements,
+    conditions: imp.conditions,
+    citations,
+  };
+}
+
 // ==========================================
 // PDF/WORD PARSERS (existing + fallback)
 // ==========================================
 
+// Text-based formats (Word, ODT, PPTX, HTML, Markdown) share one scale
+function textQuality(text: string): string {
+  return text.length > 500 ? "good" : text.length > 50 ? "partial" : "poor";
+}
+
 function parseCSV(text: string): { content: string; quality: string } {
   try {
     const lines = text.split('\n').filter((l: string) => l.trim());
@@ -590,7 +860,15 @@ function parseCSV(text: string): { content: string; quality: string } {
 // METRICS CATALOG NORMALIZATION (with unit normalization)
 // ==========================================
 
-async function normalizeMetric(supabase: any, metric: string, unit?: string): Promise<{ canonicalMetric: string; canonicalUnit: string; conversionFactor: number }> {
+interface MetricNormalization {
+  canonicalMetric: string;
+  // Unit every value of the metric is converted to ('' when the catalog has none)
+  canonicalUnit: string;
+  // Catalog unit aliases converted with the catalog's own conversion_factor
+  declared: { unitAliases: string[]; factor: number } | null;
+}
+
+async function normalizeMetric(supabase: any, metric: string, unit?: string): Promise<MetricNormalization> {
   const normalized = metric.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
   
   // Search catalog by canonical name or aliases
@@ -602,19 +880,11 @@ async function normalizeMetric(supabase: any, metric: string, unit?: string): Pr
   if (catalog) {
     for (const entry of catalog) {
       if (entry.canonical_name === normalized || entry.aliases?.includes(normalized) || entry.aliases?.includes(metric.toLowerCase())) {
-        // Check unit normalization
         const canonicalUnit = entry.canonical_unit || entry.unit || unit || '';
-        let conversionFactor = 1.0;
-        
-        if (unit && entry.unit_aliases && entry.unit_aliases.length > 0) {
-          // Check if the provided unit is an alias
-          const unitLower = unit.toLowerCase().trim();
-          if (entry.unit_aliases.includes(unitLower) && entry.conversion_factor) {
-            conversionFactor = Number(entry.conversion_factor);
-          }
-        }
-        
-        return { canonicalMetric: entry.canonical_name, canonicalUnit, conversionFactor };
+        const declared = entry.unit_aliases?.length > 0 && entry.conversion_factor
+          ? { unitAliases: entry.unit_aliases as string[], factor: Number(entry.conversion_factor) }
+          : null;
+        return { canonicalMetric: entry.canonical_name, canonicalUnit, declared };
       }
     }
   }
@@ -634,7 +904,29 @@ async function normalizeMetric(supabase: any, metric: string, unit?: string): Pr
     // Ignore duplicate
   }
 
-  return { canonicalMetric: normalized, canonicalUnit: unit || '', conversionFactor: 1.0 };
+  return { canonicalMetric: normalized, canonicalUnit: unit || '', declared: null };
+}
+
+/**
+ * Converts a value to the catalog unit of its metric with the unit engine.
+ * The catalog's conversion_factor is only used for unit aliases the engine
+ * does not know; incompatible units (HV under MPa, wt% under vol%) keep their
+ * own unit so they are never ranked or pooled with the catalog unit.
+ */
+function toCatalogUnit(value: number, unit: string | undefined, norm: MetricNormalization): UnitConversion {
+  const from = (unit || '').trim();
+  const to = norm.canonicalUnit;
+  if (!from) {
+    const assumed = convertUnit(value, to, to);
+    if (!to) return assumed;
+    return { ...assumed, provenance: { ...assumed.provenance, from: '', status: 'flagged', note: 'unidade ausente na fonte; assumida a do catálogo' } };
+  }
+  if (!to) return convertUnit(value, from, from);
+  const conversion = convertUnit(value, from, to);
+  if (conversion.provenance.status === 'unknown' && norm.declared?.unitAliases.includes(from.toLowerCase())) {
+    return declaredConversion(value, from, to, norm.declared.factor, 'metrics_catalog.conversion_factor');
+  }
+  return conversion;
 }
 
 // ==========================================
@@ -702,6 +994,7 @@ async function saveExperiments(
         summary: exp.summary || null,
         source_type: sourceType,
         is_qualitative: exp.is_qualitative || validMeasurements.length === 0,
+        formulation_id: exp.formulation_id || null,
         extracted_by: userId,
       })
       .select('id')
@@ -718,24 +1011,26 @@ async function saveExperiments(
       
       // Check for deterministic override (e.g., filler_content)
       let canonicalMetric: string;
-      let canonicalUnit: string;
-      let conversionFactor: number;
-      let valueCanonical: number;
+      let conversion: UnitConversion;
+      // Replicate groups store the mean in value, plus n / SD / SEM and the specimen values
+      const stats = replicateStats({ value: m.value, n: m.n, sd: m.sd, sem: m.sem, replicates: m.replicates });
+      const hasReplicates = Array.isArray(m.replicates) && m.replicates.length > 0;
+      const value = hasReplicates ? stats.mean : m.value;
       
       if (m.unit_canonical_override !== undefined && m.value_canonical_override !== undefined) {
-        // Deterministic override path (filler_content, etc.)
+        // Deterministic override path (filler_content, etc.): the value is already on the
+        // canonical scale; a basis named in the header (wt%, vol%) is kept in the unit
         canonicalMetric = m.metric; // already set to filler_content
-        canonicalUnit = m.unit_canonical_override;
-        conversionFactor = 1;
-        valueCanonical = m.value_canonical_override;
+        const basisUnit = m.header_raw ? fillerBasisUnit(m.header_raw) : null;
+        conversion = convertUnit(m.value_canonical_override, basisUnit ?? m.unit_canonical_override, m.unit_canonical_override);
       } else {
         // Normal normalization path
         const norm = await normalizeMetric(supabase, m.metric, m.unit);
         canonicalMetric = norm.canonicalMetric;
-        canonicalUnit = norm.canonicalUnit;
-        conversionFactor = norm.conversionFactor;
-        valueCanonical = m.value * conversionFactor;
+        conversion = toCatalogUnit(value, m.unit, norm);
       }
+      const canonicalUnit = conversion.unit;
+      const valueCanonical = conversion.value ?? value;
 
       // Parse sheet/row/col from source_excerpt for tabular queries
       let parsedSheet: string | null = null;
@@ -752,10 +1047,15 @@ async function saveExperiments(
         experiment_id: expRecord.id,
         metric: canonicalMetric,
         raw_metric_name: m.metric, // preserve original name
-        value: m.value,
+        value,
         unit: m.unit || canonicalUnit,
         value_canonical: valueCanonical,
         unit_canonical: canonicalUnit,
+        conversion: conversion.provenance,
+        n: stats.n,
+        sd: stats.sd,
+        sem: stats.sem,
+        replicates: hasReplicates ? m.replicates : null,
         method: m.method || null,
         notes: m.notes || null,
         confidence: m.confidence || 'medium',
@@ -765,6 +1065,7 @@ async function saveExperiments(
         cell_addr: parsedCellAddr,
         value_raw: m.value_raw || String(m.value),
         header_raw: m.header_raw || null,
+        formulation_id: m.formulation_id || exp.formulation_id || null,
       }).select('id').single();
 
       totalMeasurements++;
@@ -820,6 +1121,123 @@ async function saveExperiments(
   return totalMeasurements;
 }
 
+// ==========================================
+// RE-EXTRACTION DIFF
+// ==========================================
+
+interface PreviousExtraction {
+  jobId: string;
+  snapshot: ExtractionSnapshot;
+  verifiedInsights: { category: string; title: string; validated_by: string | null; validated_at: string | null }[];
+  // "type:id" of items accepted or edited in the review queue → reviewer
+  reviewers: Map<string, string>;
+}
+
+async function loadExtractionSnapshot(supabase: any, jobId: string): Promise<ExtractionSnapshot> {
+  const { data: experiments } = await supabase
+    .from('experiments')
+    .select('id, title, measurements(id, metric, value, unit, sheet_name, row_idx, header_raw, source_excerpt)')
+    .eq('extraction_job_id', jobId)
+    .is('deleted_at', null);
+  const { data: claims } = await supabase
+    .from('claims')
+    .select('id, claim_type, excerpt, metric_key')
+    .eq('extraction_job_id', jobId);
+  return { experiments: experiments || [], claims: claims || [] };
+}
+
+// The extraction in effect before this run: the job of the file's newest live experiment
+async function loadPreviousExtraction(supabase: any, fileId: string, jobId: string): Promise<PreviousExtraction | null> {
+  const { data: latest } = await supabase
+    .from('experiments')
+    .select('extraction_job_id')
+    .eq('source_file_id', fileId)
+    .is('deleted_at', null)
+    .not('extraction_job_id', 'is', null)
+    .neq('extraction_job_id', jobId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!latest?.extraction_job_id) return null;
+
+  const previousJobId: string = latest.extraction_job_id;
+  const snapshot = await loadExtractionSnapshot(supabase, previousJobId);
+  const { data: verifiedInsights } = await supabase
+    .from('knowledge_items')
+    .select('category, title, validated_by, validated_at')
+    .eq('extraction_job_id', previousJobId)
+    .eq('human_verified', true)
+    .is('deleted_at', null);
+  const { data: reviews } = await supabase
+    .from('extraction_reviews')
+    .select('item_type, item_id, reviewed_by')
+    .eq('job_id', previousJobId)
+    .in('decision', ['accepted', 'edited']);
+
+  return {
+    jobId: previousJobId,
+    snapshot,
+    verifiedInsights: verifiedInsights || [],
+    reviewers: new Map((reviews || []).map((r: { item_type: string; item_id: string; reviewed_by: string }) => [`${r.item_type}:${r.item_id}`, r.reviewed_by])),
+  };
+}
+
+/**
+ * Compares this job's items with the previous extraction of the file, stores
+ * the diff on the job and carries human review over to unchanged items:
+ * insights with the same category and title, measurements and claims that
+ * were accepted in the review queue.
+ */
+async function recordExtractionDiff(
+  supabase: any,
+  previous: PreviousExtraction,
+  projectId: string,
+  jobId: string,
+): Promise<ExtractionDiff> {
+  const { diff, unchanged } = diffExtractions(previous.snapshot, await loadExtractionSnapshot(supabase, jobId));
+  let carried = 0;
+
+  const verified = new Map(previous.verifiedInsights.map(i => [knowledgeFingerprint(i.category, i.title), i]));
+  if (verified.size > 0) {
+    const { data: insights } = await supabase
+      .from('knowledge_items')
+      .select('id, category, title')
+      .eq('extraction_job_id', jobId)
+      .is('deleted_at', null);
+    for (const item of insights || []) {
+      const match = verified.get(knowledgeFingerprint(item.category, item.title));
+      if (!match) continue;
+      await supabase
+        .from('knowledge_items')
+        .update({ human_verified: true, validated_by: match.validated_by, validated_at: match.validated_at })
+        .eq('id', item.id);
+      carried++;
+    }
+  }
+
+  const reviewed = [
+    ...unchanged.measurements.map(([from, to]) => ({ type: 'measurement', from, to })),
+    ...unchanged.claims.map(([from, to]) => ({ type: 'claim', from, to })),
+  ].filter(pair => previous.reviewers.has(`${pair.type}:${pair.from}`));
+  if (reviewed.length > 0) {
+    const { error } = await supabase.from('extraction_reviews').insert(reviewed.map(pair => ({
+      job_id: jobId,
+      project_id: projectId,
+      item_type: pair.type,
+      item_id: pair.to,
+      decision: 'accepted',
+      snapshot: { carried_over_from: pair.from, previous_job_id: previous.jobId },
+      reviewed_by: previous.reviewers.get(`${pair.type}:${pair.from}`),
+    })));
+    if (error) console.error('Failed to carry reviews over:', error);
+    else carried += reviewed.length;
+  }
+
+  diff.carried_over = carried;
+  await supabase.from('extraction_jobs').update({ diff, previous_job_id: previous.jobId }).eq('id', jobId);
+  return diff;
+}
+
 // ==========================================
 // MAIN HANDLER
 // ==========================================
@@ -832,9 +1250,7 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
-
-    if (!lovableApiKey) throw new Error("LOVABLE_API_KEY is not configured");
+    const ai = getAiProvider();
 
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
@@ -961,11 +1377,26 @@ serve(async (req) => {
     let sheetsFound = 0;
     let contentTruncated = false;
     let excelSheets: ExcelSheetData[] = [];
+    // PDF/PPTX tables (rebuilt from text positions or read as grids), extracted like spreadsheet sheets
+    let documentTableSheets: ExcelSheetData[] = [];
+    // Testing-machine / spectrophotometer exports, imported without the LLM
+    let instrumentImport: InstrumentImport | null = null;
     const mimeType = fileData.mime_type || "";
     const fileName = fileData.name || "";
     const isExcel = mimeType.includes("spreadsheet") || mimeType.includes("excel") ||
       mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-      mimeType === "application/vnd.ms-excel" || fileName.endsWith(".xlsx") || fileName.endsWith(".xls");
+      mimeType === "application/vnd.ms-excel" || fileName.endsWith(".xlsx") || fileName.endsWith(".xls") ||
+      fileName.endsWith(".ods");
+    const isOds = mimeType === "application/vnd.oasis.opendocument.spreadsheet" || fileName.endsWith(".ods");
+    const isPptx = mimeType === "application/vnd.openxmlformats-officedocument.presentationml.presentation" || fileName.endsWith(".pptx");
+    const isOdt = mimeType === "application/vnd.oasis.opendocument.text" || fileName.endsWith(".odt");
+    const isHtml = mimeType === "text/html" || fileName.endsWith(".html") || fileName.endsWith(".htm");
+    const isMarkdown = mimeType === "text/markdown" || fileName.endsWith(".md") || fileName.endsWith(".markdown");
+    const isDocx = mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || fileName.endsWith(".docx");
+    // experiments.source_type (shown as the experiment's format badge)
+    const sourceType = isOds ? 'ods' : isExcel ? 'excel' : mimeType === "application/pdf" ? 'pdf' : isPptx ? 'pptx' :
+      isOdt ? 'odt' : isHtml ? 'html' : isMarkdown ? 'markdown' : isDocx || mimeType.includes('word') ? 'word' :
+      mimeType === "text/csv" || fileName.endsWith(".csv") ? 'csv' : 'text';
 
     if (isExcel) {
       console.log(`Parsing Excel file (structured): ${fileName}`);
@@ -978,13 +1409,21 @@ serve(async (req) => {
 
     } else if (mimeType === "text/csv" || fileName.endsWith(".csv")) {
       const rawText = new TextDecoder().decode(arrayBuffer);
+      instrumentImport = importInstrumentExport(rawText);
       const parsed = parseCSV(rawText);
       textContent = parsed.content;
       parsingQuality = parsed.quality;
 
+    } else if (isHtml || isMarkdown) {
+      const rawText = new TextDecoder().decode(arrayBuffer);
+      const parsed = isHtml ? parseHtml(rawText) : parseMarkdown(rawText);
+      parsingQuality = textQuality(parsed.text);
+      textContent = `[${isHtml ? 'HTML' : 'Markdown'}: ${fileName}]\n\n${parsed.text}`;
+
     } else if (mimeType.startsWith("text/") || mimeType === "application/json") {
       textContent = new TextDecoder().decode(arrayBuffer);
       parsingQuality = textContent.length > 100 ? "good" : "partial";
+      if (mimeType === "text/plain") instrumentImport = importInstrumentExport(textContent);
 
     } else if (mimeType === "application/pdf") {
       console.log(`Processing PDF: ${fileData.name}`);
@@ -992,11 +1431,17 @@ serve(async (req) => {
         const uint8Array = new Uint8Array(arrayBuffer);
         const pdfDoc = await getDocument({ data: uint8Array, useSystemFonts: true }).promise;
         const textParts: string[] = [];
+        const pdfTables: PdfTable[] = [];
         for (let i = 1; i <= pdfDoc.numPages; i++) {
           const page = await pdfDoc.getPage(i);
           const content = await page.getTextContent();
           const pageText = content.items.map((item: any) => item.str).join(' ');
           if (pageText.trim()) textParts.push(`--- Página ${i} ---\n${pageText}`);
+          pdfTables.push(...detectPageTables(i, toTextItems(content.items as RawPdfTextItem[])));
+        }
+        documentTableSheets = tablesToSheets(pdfTables);
+        if (documentTableSheets.length > 0) {
+          console.log(`PDF tables: ${documentTableSheets.map(s => `${s.sheetName} (${s.rows.length} linhas)`).join(', ')}`);
         }
         const extractedText = textParts.join('\n\n');
         if (extractedText.length > 100) {
@@ -1016,12 +1461,12 @@ serve(async (req) => {
         parsingQuality = "failed";
       }
 
-    } else if (mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || fileName.endsWith(".docx")) {
+    } else if (isDocx) {
       console.log(`Parsing DOCX: ${fileName}`);
       try {
         const result = await mammoth.extractRawText({ arrayBuffer });
         textContent = result.value || "";
-        parsingQuality = textContent.length > 500 ? "good" : textContent.length > 50 ? "partial" : "poor";
+        parsingQuality = textQuality(textContent);
         textContent = `[Word: ${fileName}]\n\n${textContent}`;
       } catch (docxError: unknown) {
         const errorMessage = docxError instanceof Error ? docxError.message : String(docxError);
@@ -1030,6 +1475,54 @@ serve(async (req) => {
         parsingQuality = "failed";
       }
 
+    } else if (isPptx) {
+      console.log(`Parsing PPTX: ${fileName}`);
+      try {
+        const zip = await JSZip.loadAsync(arrayBuffer);
+        const slidePaths = pptxSlidePaths(Object.keys(zip.files));
+        const textParts: string[] = [];
+        const slideTables: PdfTable[] = [];
+        for (const [i, path] of slidePaths.entries()) {
+          const slide = parsePptxSlide(await zip.file(path)!.async("string"));
+          if (slide.text) textParts.push(`--- Slide ${i + 1} ---\n${slide.text}`);
+          // Numeric slide tables go through the structured path, like PDF tables
+          let index = 0;
+          for (const grid of slide.tables) {
+            const table = gridToTable(i + 1, index + 1, grid);
+            if (table) {
+              slideTables.push(table);
+              index++;
+            }
+          }
+        }
+        documentTableSheets = tablesToSheets(slideTables, 'slide');
+        sheetsFound = slidePaths.length;
+        const extractedText = textParts.join('\n\n');
+        parsingQuality = textQuality(extractedText);
+        textContent = `[PowerPoint: ${fileName}]\n[Slides: ${slidePaths.length}]\n\n${extractedText}`;
+      } catch (pptxError: unknown) {
+        const errorMessage = pptxError instanceof Error ? pptxError.message : String(pptxError);
+        console.error("PPTX parsing error:", pptxError);
+        textContent = `[PowerPoint: ${fileName}]\n[ERRO: ${errorMessage}]`;
+        parsingQuality = "failed";
+      }
+
+    } else if (isOdt) {
+      console.log(`Parsing ODT: ${fileName}`);
+      try {
+        const zip = await JSZip.loadAsync(arrayBuffer);
+        const content = await zip.file("content.xml")?.async("string");
+        if (!content) throw new Error("content.xml não encontrado no pacote ODT");
+        const parsed = parseOdtContent(content);
+        parsingQuality = textQuality(parsed.text);
+        textContent = `[ODT: ${fileName}]\n\n${parsed.text}`;
+      } catch (odtError: unknown) {
+        const errorMessage = odtError instanceof Error ? odtError.message : String(odtError);
+        console.error("ODT parsing error:", odtError);
+        textContent = `[ODT: ${fileName}]\n[ERRO: ${errorMessage}]`;
+        parsingQuality = "failed";
+      }
+
     } else {
       try {
         textContent = new TextDecoder().decode(arrayBuffer);
@@ -1050,6 +1543,7 @@ serve(async (req) => {
     await supabaseAdmin.from("extraction_jobs").update({
       parsing_quality: parsingQuality,
       sheets_found: sheetsFound > 0 ? sheetsFound : null,
+      file_version: fileData.current_version ?? null,
     }).eq("id", job_id);
 
     console.log(`File parsed: quality=${parsingQuality}, length=${textContent.length}`);
@@ -1068,7 +1562,6 @@ serve(async (req) => {
         }],
       };
 
-      const sourceType = isExcel ? 'excel' : mimeType === 'application/pdf' ? 'pdf' : 'word';
       await saveExperiments(supabaseAdmin, [fallbackExperiment], fileData.project_id, file_id, job_id, user.id, sourceType, !!force);
 
       await supabaseAdmin.from("extraction_jobs").update({
@@ -1092,34 +1585,84 @@ serve(async (req) => {
         `\n\n[⚠️ TRUNCADO: ${Math.ceil(textContent.length / 1000)}k chars, processados ${maxChars / 1000}k]`;
       await supabaseAdmin.from("extraction_jobs").update({ content_truncated: true }).eq("id", job_id);
     }
+    // Shown next to the extracted items in the review queue
+    await supabaseAdmin.from("extraction_jobs").update({ source_text: textContent }).eq("id", job_id);
+
+    // Items rejected in earlier reviews of this file are not recreated
+    const { data: exclusionRows } = await supabaseAdmin
+      .from('extraction_exclusions')
+      .select('item_type, fingerprint')
+      .eq('source_file_id', file_id);
+    const exclusions = toExclusionSet(exclusionRows || []);
+    const isExcludedInsight = (i: { category: string; title: string }) =>
+      exclusions.has(exclusionKey('knowledge', knowledgeFingerprint(i.category, i.title.substring(0, 100))));
+
+    // Snapshot of the extraction this run replaces, diffed once the new items are saved
+    const previousExtraction = await loadPreviousExtraction(supabaseAdmin, file_id, job_id);
 
     // ==========================================
-    // EXCEL: STRUCTURED EXTRACTION (AI only maps headers)
+    // EXCEL / PDF TABLES: STRUCTURED EXTRACTION (AI only maps headers)
     // ==========================================
     let experimentsCount = 0;
     let measurementsCount = 0;
+    const structuredSheets = isExcel ? excelSheets : documentTableSheets;
+    let tableExperiments: ExperimentExtraction[] = [];
 
-    if (isExcel && excelSheets.length > 0) {
-      console.log(`Excel structured extraction: ${excelSheets.length} sheets`);
+    if (structuredSheets.length > 0) {
+      console.log(`Structured extraction (${sourceType}): ${structuredSheets.length} sheets`);
 
       // Fetch metrics catalog for normalization
       const { data: metricsCatalog } = await supabaseAdmin
         .from('metrics_catalog')
         .select('canonical_name, display_name, unit, aliases');
 
+      // Registered formulations, so rows can be linked to them
+      const { data: formulations } = await supabaseAdmin
+        .from('formulations')
+        .select('id, code, name, version, aliases')
+        .eq('project_id', fileData.project_id)
+        .is('deleted_at', null);
+
       // AI maps headers only
-      const mapping = await mapExcelHeaders(excelSheets, lovableApiKey, metricsCatalog || []);
+      const mapping = await mapExcelHeaders(structuredSheets, ai, metricsCatalog || []);
       
       if (mapping) {
-        const experiments = generateExcelExperiments(excelSheets, mapping, file_id);
+        tableExperiments = applyExclusions(generateExcelExperiments(structuredSheets, mapping, file_id, formulations || []), exclusions);
         measurementsCount = await saveExperiments(
-          supabaseAdmin, experiments, fileData.project_id, file_id, job_id, user.id, 'excel', !!force
+          supabaseAdmin, tableExperiments, fileData.project_id, file_id, job_id, user.id, sourceType, !!force
         );
-        experimentsCount = experiments.length;
-        console.log(`Excel: created ${experimentsCount} experiments with ${measurementsCount} measurements`);
+        experimentsCount = tableExperiments.length;
+        console.log(`${sourceType}: created ${experimentsCount} experiments with ${measurementsCount} measurements`);
       }
     }
 
+    // ==========================================
+    // INSTRUMENT EXPORTS: DETERMINISTIC IMPORT (no AI)
+    // ==========================================
+    if (instrumentImport) {
+      console.log(`Instrument export (${instrumentImport.importer}): ${instrumentImport.measurements.length} measurement groups`);
+
+      const { data: formulations } = await supabaseAdmin
+        .from('formulations')
+        .select('id, code, name, version, aliases')
+        .eq('project_id', fileData.project_id)
+        .is('deleted_at', null);
+
+      const experiments = applyExclusions([instrumentExperiment(instrumentImport, fileName, formulations || [])], exclusions);
+      measurementsCount = await saveExperiments(
+        supabaseAdmin, experiments, fileData.project_id, file_id, job_id, user.id, 'instrument', !!force
+      );
+      experimentsCount = 1;
+    }
+    // Spreadsheets and instrument exports never take experiments from the LLM
+    const deterministicExperiments = isExcel || instrumentImport !== null;
+
+    // Tables already read deterministically: the LLM is told so, and its copies are dropped below
+    const tablePages = [...new Set(tableExperiments.flatMap(e => e.citations.map(c => c.page).filter(Boolean)))];
+    const tableNote = !isExcel && tablePages.length > 0
+      ? `\nNOTA: as tabelas ${isPptx ? 'dos slides' : 'das páginas'} ${tablePages.join(', ')} já foram extraídas como medições estruturadas; não repita os valores dessas tabelas em "experiments".\n`
+      : '';
+
     // ==========================================
     // AI EXTRACTION (insights + experiments for PDF/Word)
     // ==========================================
@@ -1139,6 +1682,10 @@ serve(async (req) => {
 - Se faltar qualquer um dos 3, NÃO criar measurement
 - Preferir ZERO measurements a UM fabricado
 
+## RÉPLICAS:
+- "85,3 ± 4,2 MPa (n=10)" → UM measurement: value=85.3, sd=4.2, n=10 (use sem em vez de sd se o documento indicar EPM/SEM)
+- Valores individuais de corpos de prova (CP1..CPn) → UM measurement com replicates=[...] e value = média; NÃO crie um measurement por corpo de prova
+
 ## CATEGORIAS:
 finding, correlation, anomaly, benchmark, recommendation, observation, compound, parameter, result, method, cross_reference, pattern, contradiction, gap
 
@@ -1152,7 +1699,7 @@ CONTEÚDO:
 ---
 ${textContent}
 ---
-
+${tableNote}
 Se ilegível, retorne apenas um insight de "observation".`;
 
     // Build tools array - always extract insights, also extract experiments for non-Excel files
@@ -1197,6 +1744,10 @@ Se ilegível, retorne apenas um insight de "observation".`;
                         value: { type: "number" },
                         unit: { type: "string" },
                         method: { type: "string" },
+                        n: { type: "integer", description: "Number of specimens behind the value, only if stated" },
+                        sd: { type: "number", description: "Standard deviation when reported as mean ± SD" },
+                        sem: { type: "number", description: "Standard error of the mean when reported as mean ± SEM/EPM" },
+                        replicates: { type: "array", items: { type: "number" }, description: "Individual specimen values when listed; value is their mean" },
                         confidence: { type: "string", enum: ["high", "medium", "low"] },
                         source_excerpt: { type: "string", description: "EXACT quote containing the number" },
                       },
@@ -1235,53 +1786,47 @@ Se ilegível, retorne apenas um insight de "observation".`;
       },
     }];
 
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        tools,
-        tool_choice: { type: "function", function: { name: "extract_all" } },
-      }),
+    const completion = await ai.chat({
+      model: ai.model('standard'),
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      tools,
+      tool_choice: { type: "function", function: { name: "extract_all" } },
     });
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error("AI Gateway error:", aiResponse.status, errorText);
-
-      if (aiResponse.status === 429 || aiResponse.status === 402) {
-        const msg = aiResponse.status === 429 ? "Rate limit exceeded" : "AI credits exhausted";
+    if (!completion.ok) {
+      if (completion.status === 429 || completion.status === 402) {
+        const msg = completion.status === 429 ? "Rate limit exceeded" : "AI credits exhausted";
         await supabaseAdmin.from("extraction_jobs").update({
           status: "failed", error_message: msg, completed_at: new Date().toISOString(),
         }).eq("id", job_id);
         return new Response(JSON.stringify({ error: msg }), {
-          status: aiResponse.status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: completion.status, headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      throw new Error(`AI Gateway error: ${aiResponse.status}`);
+      throw new Error(`AI Gateway error: ${completion.status}`);
     }
 
-    const aiData = await aiResponse.json();
     let rawInsights: ExtractionInsight[] = [];
     let rawExperiments: ExperimentExtraction[] = [];
 
-    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
-    if (toolCall?.function?.arguments) {
+    const toolCall = completion.toolCall;
+    if (toolCall) {
       try {
-        const args = JSON.parse(toolCall.function.arguments);
+        const args = JSON.parse(toolCall.arguments);
         rawInsights = args.insights || [];
-        rawExperiments = args.experiments || [];
+        rawExperiments = dropUnquotedSpread(args.experiments || []);
       } catch (parseError) {
         console.error("Failed to parse tool arguments:", parseError);
       }
     }
+    const insightsBeforeExclusions = rawInsights.length;
+    rawInsights = rawInsights.filter(i => !isExcludedInsight(i));
+    if (rawInsights.length < insightsBeforeExclusions) {
+      console.log(`Review exclusions: skipped ${insightsBeforeExclusions - rawInsights.length} rejected insights`);
+    }
 
     // Validate insights evidence
     const validatedInsights: InsightWithVerification[] = rawInsights.map((insight) => {
@@ -1351,20 +1896,22 @@ Se ilegível, retorne apenas um insight de "observation".`;
     }
 
     // Save experiments from AI (for PDF/Word - Excel already handled above)
-    if (!isExcel && rawExperiments.length > 0) {
-      const sourceType = mimeType === 'application/pdf' ? 'pdf' :
-        (mimeType?.includes('word') || fileName.endsWith('.docx')) ? 'word' : 'pdf';
-      
+    if (!isExcel && tableExperiments.length > 0) {
+      const { data: catalog } = await supabaseAdmin.from('metrics_catalog').select('canonical_name, aliases');
+      rawExperiments = dropTableCopies(rawExperiments, tableExperiments, (catalog || []) as CatalogMetric[]);
+    }
+    rawExperiments = applyExclusions(rawExperiments, exclusions);
+    if (!deterministicExperiments && rawExperiments.length > 0) {
+      // force already cleared the file's experiments when the tables were saved
       const expMeasurements = await saveExperiments(
-        supabaseAdmin, rawExperiments, fileData.project_id, file_id, job_id, user.id, sourceType, !!force
+        supabaseAdmin, rawExperiments, fileData.project_id, file_id, job_id, user.id, sourceType, !!force && tableExperiments.length === 0
       );
       experimentsCount += rawExperiments.length;
       measurementsCount += expMeasurements;
     }
 
     // PDF/Word fallback: if no experiments were extracted, create qualitative one
-    if (!isExcel && experimentsCount === 0 && (parsingQuality === 'partial' || parsingQuality === 'poor' || rawExperiments.length === 0)) {
-      const sourceType = mimeType === 'application/pdf' ? 'pdf' : 'word';
+    if (!deterministicExperiments && experimentsCount === 0 && (parsingQuality === 'partial' || parsingQuality === 'poor' || rawExperiments.length === 0)) {
       const fallback: ExperimentExtraction = {
         title: `Análise: ${fileName}`,
         summary: rawExperiments.length === 0 
@@ -1420,10 +1967,14 @@ Se ilegível, retorne apenas um insight de "observation".`;
           metricKey = metricMap[metricMatch[0].toLowerCase()] || null;
         }
 
+        const excerpt = (ci.evidence || ci.content).substring(0, 500);
+        if (exclusions.has(exclusionKey('claim', claimFingerprint(claimType, excerpt)))) continue;
+
         const { error: claimError } = await supabaseAdmin.from('claims').insert({
           project_id: fileData.project_id,
           source_file_id: file_id,
-          excerpt: (ci.evidence || ci.content).substring(0, 500),
+          extraction_job_id: job_id,
+          excerpt,
           claim_type: claimType,
           metric_key: metricKey,
           entities: [],
@@ -1454,13 +2005,14 @@ Se ilegível, retorne apenas um insight de "observation".`;
           const expIds = newExps.map((e: any) => e.id);
           const { data: newMeasurements } = await supabaseAdmin
             .from('measurements')
-            .select('id, metric, value_canonical, evidence_date')
+            .select('id, metric, value_canonical, evidence_date, conversion')
             .in('experiment_id', expIds);
 
           if (newMeasurements) {
             let totalSuperseded = 0;
             for (const m of newMeasurements) {
-              if (m.value_canonical && m.metric) {
+              // Values kept in a unit incompatible with the catalog cannot beat a benchmark
+              if (m.value_canonical && m.metric && isComparable(m.conversion)) {
                 try {
                   const { data: count } = await supabaseAdmin.rpc('check_and_supersede_claims', {
                     p_project_id: fileData.project_id,
@@ -1503,53 +2055,48 @@ Se ilegível, retorne apenas um insight de "observation".`;
           const newSummary = validatedInsights.map((i, idx) => `[NEW-${idx + 1}] ${i.category}: ${i.title} — ${i.content}`).join("\n");
           const existSummary = existingInsights.map((i, idx) => `[EX-${idx + 1}] (id:${i.id}) ${i.category}: ${i.title} — ${i.content}`).join("\n");
 
-          const crossDocResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-            method: "POST",
-            headers: { Authorization: `Bearer ${lovableApiKey}`, "Content-Type": "application/json" },
-            body: JSON.stringify({
-              model: "google/gemini-3-flash-preview",
-              messages: [
-                { role: "system", content: `Analise relações entre insights.\nNOVOS:\n${newSummary}\n\nEXISTENTES:\n${existSummary}\n\nIdentifique: cross_reference, pattern, contradiction, gap. Max 5. Se não há relações, retorne array vazio.` },
-                { role: "user", content: "Identifique relações cross-document." },
-              ],
-              tools: [{
-                type: "function",
-                function: {
-                  name: "report_relationships",
-                  parameters: {
-                    type: "object",
-                    properties: {
-                      relationships: {
-                        type: "array",
-                        items: {
-                          type: "object",
-                          properties: {
-                            category: { type: "string", enum: ["cross_reference", "pattern", "contradiction", "gap"] },
-                            title: { type: "string", maxLength: 100 },
-                            content: { type: "string", maxLength: 500 },
-                            evidence: { type: "string", maxLength: 300 },
-                            confidence: { type: "number", minimum: 0, maximum: 1 },
-                            related_existing_ids: { type: "array", items: { type: "string" } },
-                          },
-                          required: ["category", "title", "content", "confidence", "related_existing_ids"],
+          const crossDoc = await ai.chat({
+            model: ai.model('standard'),
+            messages: [
+              { role: "system", content: `Analise relações entre insights.\nNOVOS:\n${newSummary}\n\nEXISTENTES:\n${existSummary}\n\nIdentifique: cross_reference, pattern, contradiction, gap. Max 5. Se não há relações, retorne array vazio.` },
+              { role: "user", content: "Identifique relações cross-document." },
+            ],
+            tools: [{
+              type: "function",
+              function: {
+                name: "report_relationships",
+                parameters: {
+                  type: "object",
+                  properties: {
+                    relationships: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          category: { type: "string", enum: ["cross_reference", "pattern", "contradiction", "gap"] },
+                          title: { type: "string", maxLength: 100 },
+                          content: { type: "string", maxLength: 500 },
+                          evidence: { type: "string", maxLength: 300 },
+                          confidence: { type: "number", minimum: 0, maximum: 1 },
+                          related_existing_ids: { type: "array", items: { type: "string" } },
                         },
+                        required: ["category", "title", "content", "confidence", "related_existing_ids"],
                       },
                     },
-                    required: ["relationships"],
                   },
+                  required: ["relationships"],
                 },
-              }],
-              tool_choice: { type: "function", function: { name: "report_relationships" } },
-            }),
+              },
+            }],
+            tool_choice: { type: "function", function: { name: "report_relationships" } },
           });
 
-          if (crossDocResponse.ok) {
-            const crossData = await crossDocResponse.json();
-            const crossToolCall = crossData.choices?.[0]?.message?.tool_calls?.[0];
-            if (crossToolCall?.function?.arguments) {
+          if (crossDoc.ok) {
+            const crossToolCall = crossDoc.toolCall;
+            if (crossToolCall) {
               try {
-                const args = JSON.parse(crossToolCall.function.arguments);
-                const relationships = args.relationships || [];
+                const args = JSON.parse(crossToolCall.arguments);
+                const relationships = (args.relationships || []).filter((rel: { category: string; title: string }) => !isExcludedInsight(rel));
                 if (relationships.length > 0) {
                   const items = relationships.map((rel: any) => ({
                     project_id: fileData.project_id,
@@ -1577,6 +2124,19 @@ Se ilegível, retorne apenas um insight de "observation".`;
       console.warn("Cross-document analysis failed (non-fatal):", crossDocError);
     }
 
+    // ==========================================
+    // RE-EXTRACTION DIFF (new file version or reprocess)
+    // ==========================================
+    if (previousExtraction) {
+      try {
+        const diff = await recordExtractionDiff(supabaseAdmin, previousExtraction, fileData.project_id, job_id);
+        const m = diff.measurements.counts;
+        console.log(`Diff vs job ${previousExtraction.jobId}: +${m.added} -${m.removed} ~${m.changed} measurements, ${diff.carried_over} reviews carried over`);
+      } catch (diffError) {
+        console.warn("Extraction diff failed (non-fatal):", diffError);
+      }
+    }
+
     // Update job as completed
     const totalItems = validatedInsights.length + crossDocInsights;
     await supabaseAdmin.from("extraction_jobs").update({
@@ -1587,6 +2147,19 @@ Se ilegível, retorne apenas um insight de "observation".`;
       parsing_quality: parsingQuality,
     }).eq("id", job_id);
 
+    // Index the text just read (index-content chunks source_text by structure)
+    if (fileData.project_id) {
+      const { error: indexError } = await supabaseAdmin.from("indexing_jobs").insert({
+        job_type: "index_file",
+        project_id: fileData.project_id,
+        source_type: "file",
+        source_id: file_id,
+        created_by: user.id,
+        priority: 7,
+      });
+      if (indexError) console.warn("Could not queue file indexing:", indexError.message);
+    }
+
     console.log(`Extraction completed: ${validatedInsights.length} insights, ${experimentsCount} experiments, ${measurementsCount} measurements`);
 
     return new Response(JSON.stringify({
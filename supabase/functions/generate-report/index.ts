@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAiProvider } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -321,99 +322,85 @@ ${filesText || 'Nenhum arquivo registrado.'}
 Analise profundamente o conteúdo dos documentos E os insights extraídos.
 Gere o relatório completo em português brasileiro, citando as fontes específicas.`;
 
-    // Call Lovable AI Gateway with tool calling for structured output
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY não configurada");
-    }
+    // Call the AI provider with tool calling for structured output
+    const ai = getAiProvider();
 
     // Multi-model routing: reports always use advanced tier for quality
     const reportModel = report_type === 'executive' 
-      ? 'google/gemini-3-flash-preview' // executive summaries are short, standard is fine
-      : 'google/gemini-2.5-pro'; // full/progress reports use advanced model
+      ? ai.model('standard') // executive summaries are short, standard is fine
+      : ai.model('advanced'); // full/progress reports use advanced model
 
     console.log(`Generating ${report_type} report for project ${project_id} with ${insights?.length || 0} insights and ${Object.keys(chunksByFile).length} documents, model=${reportModel}`);
 
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: reportModel,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        tools: [
-          {
-            type: "function",
-            function: {
-              name: "create_report",
-              description: "Cria um relatório estruturado de P&D baseado na análise dos documentos e insights fornecidos",
-              parameters: {
-                type: "object",
-                properties: {
-                  titulo: { 
-                    type: "string", 
-                    description: "Título do relatório (máx 100 caracteres)" 
-                  },
-                  resumo: { 
-                    type: "string", 
-                    description: "Resumo baseado na análise dos documentos e insights, sem adições ou interpretações próprias. Use citações explícitas." 
-                  },
-                  conteudo: { 
-                    type: "string", 
-                    description: "Relatório em markdown com citações explícitas de documentos e insights. Analise os dados dos documentos. NUNCA adicione conhecimento próprio." 
-                  },
-                  limitacoes: {
-                    type: "string",
-                    description: "Lista do que os dados NÃO mostram, lacunas identificadas e áreas que precisam de mais pesquisa. Seja honesto sobre o que não pode ser concluído."
-                  },
-                  proximos_passos: {
-                    type: "string",
-                    description: "Próximos passos sugeridos baseados EXCLUSIVAMENTE nas lacunas e dados identificados. Cada sugestão deve citar a lacuna ou dado que a justifica. Seja específico e acionável."
-                  }
+    const completion = await ai.chat({
+      model: reportModel,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "create_report",
+            description: "Cria um relatório estruturado de P&D baseado na análise dos documentos e insights fornecidos",
+            parameters: {
+              type: "object",
+              properties: {
+                titulo: { 
+                  type: "string", 
+                  description: "Título do relatório (máx 100 caracteres)" 
+                },
+                resumo: { 
+                  type: "string", 
+                  description: "Resumo baseado na análise dos documentos e insights, sem adições ou interpretações próprias. Use citações explícitas." 
+                },
+                conteudo: { 
+                  type: "string", 
+                  description: "Relatório em markdown com citações explícitas de documentos e insights. Analise os dados dos documentos. NUNCA adicione conhecimento próprio." 
                 },
-                required: ["titulo", "resumo", "conteudo", "limitacoes", "proximos_passos"],
-                additionalProperties: false
-              }
+                limitacoes: {
+                  type: "string",
+                  description: "Lista do que os dados NÃO mostram, lacunas identificadas e áreas que precisam de mais pesquisa. Seja honesto sobre o que não pode ser concluído."
+                },
+                proximos_passos: {
+                  type: "string",
+                  description: "Próximos passos sugeridos baseados EXCLUSIVAMENTE nas lacunas e dados identificados. Cada sugestão deve citar a lacuna ou dado que a justifica. Seja específico e acionável."
+                }
+              },
+              required: ["titulo", "resumo", "conteudo", "limitacoes", "proximos_passos"],
+              additionalProperties: false
             }
           }
-        ],
-        tool_choice: { type: "function", function: { name: "create_report" } }
-      }),
+        }
+      ],
+      tool_choice: { type: "function", function: { name: "create_report" } }
     });
 
-    if (!aiResponse.ok) {
-      if (aiResponse.status === 429) {
+    if (!completion.ok) {
+      if (completion.status === 429) {
         return new Response(JSON.stringify({ error: "Limite de requisições excedido. Tente novamente em alguns minutos." }), {
           status: 429,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      if (aiResponse.status === 402) {
+      if (completion.status === 402) {
         return new Response(JSON.stringify({ error: "Créditos de IA esgotados. Adicione créditos ao workspace." }), {
           status: 402,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      const errorText = await aiResponse.text();
-      console.error("AI Gateway error:", aiResponse.status, errorText);
       throw new Error("Erro na geração do relatório pela IA");
     }
 
-    const aiData = await aiResponse.json();
-    
     // Extract the tool call result
-    const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
-    if (!toolCall || toolCall.function?.name !== 'create_report') {
-      console.error("Unexpected AI response format:", JSON.stringify(aiData));
+    const toolCall = completion.toolCall;
+    if (!toolCall || toolCall.name !== 'create_report') {
+      console.error("Unexpected AI response format:", completion.content.substring(0, 500));
       throw new Error("Formato de resposta da IA inesperado");
     }
 
-    const reportData = JSON.parse(toolCall.function.arguments);
+    const reportData = JSON.parse(toolCall.arguments);
     
     // Append limitations and next steps sections to content
     let finalContent = reportData.conteudo;
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type AiProvider, getAiProvider } from "../_shared/ai-provider.ts";
+import { DEFAULT_CHUNKING_VERSION, chunkDocument, isChunkingVersion } from "../_shared/chunking.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -22,93 +24,6 @@ async function generateHash(text: string): Promise<string> {
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-// Chunk text with overlap
-function chunkText(
-  text: string,
-  prefix: string,
-  metadata: Record<string, unknown>,
-  chunkSize = 1000,
-  overlap = 100
-): Omit<ChunkResult, "hash">[] {
-  const chunks: Omit<ChunkResult, "hash">[] = [];
-  const cleanText = text.replace(/\s+/g, " ").trim();
-  
-  if (cleanText.length <= chunkSize) {
-    chunks.push({
-      text: `${prefix}\n\n${cleanText}`,
-      index: 0,
-      metadata,
-    });
-    return chunks;
-  }
-
-  let start = 0;
-  let index = 0;
-
-  while (start < cleanText.length) {
-    const end = Math.min(start + chunkSize, cleanText.length);
-    let chunkEnd = end;
-
-    if (end < cleanText.length) {
-      const lastPeriod = cleanText.lastIndexOf(".", end);
-      const lastSpace = cleanText.lastIndexOf(" ", end);
-      
-      if (lastPeriod > start + chunkSize * 0.7) {
-        chunkEnd = lastPeriod + 1;
-      } else if (lastSpace > start + chunkSize * 0.7) {
-        chunkEnd = lastSpace;
-      }
-    }
-
-    const chunkContent = cleanText.slice(start, chunkEnd).trim();
-    if (chunkContent.length > 0) {
-      chunks.push({
-        text: `${prefix}\n\n${chunkContent}`,
-        index,
-        metadata: { ...metadata, chunk_index: index },
-      });
-      index++;
-    }
-
-    start = chunkEnd - overlap;
-    if (start >= cleanText.length - overlap) break;
-  }
-
-  return chunks;
-}
-
-// Generate embedding via Lovable AI Gateway
-async function generateEmbedding(text: string, apiKey: string): Promise<number[] | null> {
-  try {
-    // Use chat completions with a specific prompt to generate a consistent embedding-like representation
-    // Since Lovable AI Gateway doesn't have a dedicated embeddings endpoint,
-    // we use the embedding-compatible approach via the gateway
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "text-embedding-3-small",
-        input: text.substring(0, 8000), // Limit input size
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn("Embedding generation failed:", response.status, errorText);
-      return null;
-    }
-
-    const data = await response.json();
-    return data.data?.[0]?.embedding || null;
-  } catch (error) {
-    console.warn("Embedding generation error:", error);
-    return null;
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -117,9 +32,16 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Embeddings are optional: without AI credentials chunks are indexed for full-text search only
+    let ai: AiProvider | null = null;
+    try {
+      ai = getAiProvider();
+    } catch (error) {
+      console.warn("Indexing without embeddings:", error instanceof Error ? error.message : error);
+    }
+
     const authHeader = req.headers.get("Authorization");
     
     const { job_id, source_type, source_id, project_id, internal_call } = await req.json();
@@ -168,11 +90,12 @@ serve(async (req) => {
 
     const { data: project } = await supabase
       .from("projects")
-      .select("name")
+      .select("name, chunking_version")
       .eq("id", project_id)
       .single();
     
     projectName = project?.name || "Projeto";
+    const chunkingVersion = isChunkingVersion(project?.chunking_version) ? project.chunking_version : DEFAULT_CHUNKING_VERSION;
 
     // Fetch content based on source type
     if (source_type === "report" || source_type === "reports") {
@@ -229,6 +152,34 @@ serve(async (req) => {
       metadata.category = insight.category;
       metadata.confidence = insight.confidence;
     }
+    else if (source_type === "file" || source_type === "project_files") {
+      const { data: file, error } = await supabase
+        .from("project_files")
+        .select("name, mime_type")
+        .eq("id", source_id)
+        .is("deleted_at", null)
+        .single();
+
+      if (error || !file) throw new Error(`File not found: ${source_id}`);
+
+      // Text read by the latest extraction (page / sheet / slide markers included)
+      const { data: extraction } = await supabase
+        .from("extraction_jobs")
+        .select("source_text")
+        .eq("file_id", source_id)
+        .eq("status", "completed")
+        .not("source_text", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!extraction?.source_text) throw new Error(`No extracted text for file: ${source_id}`);
+
+      title = file.name;
+      content = extraction.source_text;
+      metadata.title = file.name;
+      metadata.mime_type = file.mime_type;
+    }
     else if (source_type === "manual_knowledge") {
       const { data: fact, error } = await supabase
         .from("knowledge_facts")
@@ -270,9 +221,9 @@ serve(async (req) => {
       }
 
       // Generate embedding and store on the fact itself
-      if (lovableApiKey) {
+      if (ai) {
         const embText = `${fact.title} ${fact.key} ${JSON.stringify(fact.value)} ${fact.description || ""} ${fact.category}`;
-        const embedding = await generateEmbedding(embText, lovableApiKey);
+        const embedding = await ai.embed(embText.substring(0, 8000));
         if (embedding) {
           await supabase.from("knowledge_facts")
             .update({ embedding: JSON.stringify(embedding) })
@@ -290,7 +241,7 @@ serve(async (req) => {
 
     const prefix = `[Tipo: ${source_type}] [Projeto: ${projectName}] [Título: ${title}]`;
 
-    const rawChunks = chunkText(content, prefix, metadata);
+    const { chunks: rawChunks, sections } = chunkDocument(content, prefix, metadata, chunkingVersion);
     
     const chunks: ChunkResult[] = await Promise.all(
       rawChunks.map(async (chunk) => ({
@@ -299,10 +250,10 @@ serve(async (req) => {
       }))
     );
 
-    console.log(`Generated ${chunks.length} chunks for ${source_type}:${source_id}`);
+    console.log(`Generated ${chunks.length} chunks (${chunkingVersion}) for ${source_type}:${source_id}`);
 
     // Delete existing chunks for this source
-    const normalizedSourceType = source_type === "reports" ? "report" : source_type === "tasks" ? "task" : source_type === "knowledge_items" ? "insight" : source_type;
+    const normalizedSourceType = source_type === "reports" ? "report" : source_type === "tasks" ? "task" : source_type === "knowledge_items" ? "insight" : source_type === "project_files" ? "file" : source_type;
     await supabase
       .from("search_chunks")
       .delete()
@@ -313,12 +264,13 @@ serve(async (req) => {
     // Insert new chunks with embeddings
     let chunksCreated = 0;
     let embeddingsGenerated = 0;
+    const chunkIds = new Map<number, string>();
     
     for (const chunk of chunks) {
-      // Generate embedding if API key available
+      // Generate embedding if an AI provider is configured
       let embedding: number[] | null = null;
-      if (lovableApiKey) {
-        embedding = await generateEmbedding(chunk.text, lovableApiKey);
+      if (ai) {
+        embedding = await ai.embed(chunk.text.substring(0, 8000));
         if (embedding) embeddingsGenerated++;
       }
 
@@ -329,6 +281,7 @@ serve(async (req) => {
         chunk_index: chunk.index,
         chunk_text: chunk.text,
         chunk_hash: chunk.hash,
+        chunking_version: chunkingVersion,
         metadata: chunk.metadata,
       };
 
@@ -337,9 +290,11 @@ serve(async (req) => {
         insertData.embedding = JSON.stringify(embedding);
       }
 
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from("search_chunks")
-        .insert(insertData);
+        .insert(insertData)
+        .select("id")
+        .single();
 
       if (insertError) {
         if (!insertError.message.includes("duplicate")) {
@@ -347,6 +302,30 @@ serve(async (req) => {
         }
       } else {
         chunksCreated++;
+        chunkIds.set(chunk.index, inserted.id);
+      }
+    }
+
+    // Sections of a file feed deep reads (rag-answer reads document_structure)
+    if (normalizedSourceType === "file" && project_id) {
+      await supabase.from("document_structure").delete().eq("file_id", source_id);
+      if (sections.length > 0) {
+        const { error: structureError } = await supabase.from("document_structure").insert(
+          sections.map((s) => ({
+            file_id: source_id,
+            project_id,
+            section_index: s.index,
+            section_type: s.section_type,
+            section_title: s.title,
+            start_chunk_id: chunkIds.get(s.first_chunk) ?? null,
+            end_chunk_id: chunkIds.get(s.last_chunk) ?? null,
+            content_preview: s.preview,
+            page_start: s.page_start,
+            page_end: s.page_end,
+            chunking_version: chunkingVersion,
+          }))
+        );
+        if (structureError) console.error("Document structure error:", structureError);
       }
     }
 
@@ -368,6 +347,7 @@ serve(async (req) => {
         success: true,
         chunks_created: chunksCreated,
         embeddings_generated: embeddingsGenerated,
+        chunking_version: chunkingVersion,
         source_type,
         source_id,
       }),
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for DB-driven constraint extraction.
+ * Run with: deno test supabase/functions/rag-answer/constraint-lexicon.test.ts
+ */
+
+import { assertEquals, assert } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+// ==========================================
+// INLINE COPIES OF FUNCTIONS UNDER TEST
+// (to avoid import issues with Deno serve)
+// ==========================================
+
+type LexiconEntityType = 'material' | 'additive' | 'property';
+
+interface LexiconEntry {
+  type: LexiconEntityType;
+  canonical: string;
+  label: string;
+  patterns: RegExp[];
+  searchTerms: string[];
+  strongAlone: boolean;
+  priority: number;
+}
+
+interface ConstraintLexicon {
+  entries: LexiconEntry[];
+}
+
+function normalizeText(s: string): string {
+  return s.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function literalTermPattern(term: string): RegExp | null {
+  const t = normalizeText(term).trim();
+  if (t.length < 2) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(t)}(?![\\p{L}\\p{N}])`, 'u');
+}
+
+// All (start, end) spans where any of the patterns match the text
+function matchSpans(text: string, patterns: RegExp[]): [number, number][] {
+  const spans: [number, number][] = [];
+  for (const re of patterns) {
+    const global = new RegExp(re.source, re.flags.includes('g') ? re.flags : re.flags + 'g');
+    for (const m of text.matchAll(global)) {
+      if (m[0].length > 0) spans.push([m.index!, m.index! + m[0].length]);
+    }
+  }
+  return spans;
+}
+
+function extractConstraints(query: string, lexicon: ConstraintLexicon) {
+  const s = normalizeText(query);
+  const found: Record<LexiconEntityType, string[]> = { material: [], additive: [], property: [] };
+  const claimedSpans: Record<LexiconEntityType, { start: number; end: number; priority: number }[]> = { material: [], additive: [], property: [] };
+  let hasStrongAlone = false;
+  for (const entry of lexicon.entries) {
+    const hits = matchSpans(s, entry.patterns);
+    if (hits.length === 0) continue;
+    const spans = claimedSpans[entry.type];
+    const overlapsHigher = hits.some(([start, end]) =>
+      spans.some(sp => sp.priority < entry.priority && start < sp.end && sp.start < end));
+    if (overlapsHigher) continue;
+    for (const [start, end] of hits) spans.push({ start, end, priority: entry.priority });
+    found[entry.type].push(entry.canonical);
+    if (entry.strongAlone) hasStrongAlone = true;
+  }
+  const nonEmptyCount = (found.material.length > 0 ? 1 : 0) + (found.additive.length > 0 ? 1 : 0) + (found.property.length > 0 ? 1 : 0);
+  return {
+    materials: found.material, additives: found.additive, properties: found.property,
+    hasStrongConstraints: nonEmptyCount >= 2 || hasStrongAlone,
+  };
+}
+
+function entry(type: LexiconEntityType, canonical: string, patterns: RegExp[], priority = 0, strongAlone = false): LexiconEntry {
+  return { type, canonical, label: canonical, patterns, searchTerms: [canonical], strongAlone, priority };
+}
+
+const LEXICON: ConstraintLexicon = {
+  entries: [
+    entry('material', 'vitality', [/vitality/i]),
+    entry('additive', 'silver_nanoparticles', [/prata|silver|\bag\b|nanopart[ií]culas?/i], 0, true),
+    entry('additive', 'tegdma', [/tegdma/i]),
+    entry('property', 'hardness', [/dureza|vickers|knoop|hardness|\bhv\b|\bkhn\b/i]),
+    entry('property', 'water_sorption', [/sor[cç][aã]o|sorption/i]),
+    // Lower-priority sources (metrics_catalog / entity_aliases)
+    entry('property', 'hardness_vickers', [literalTermPattern('vickers')!], 1),
+    entry('material', 'omnichroma', [literalTermPattern('omnichroma')!], 2),
+    entry('property', 'flexural_strength', [literalTermPattern('rf')!], 1),
+  ],
+};
+
+// ==========================================
+// TESTS
+// ==========================================
+
+Deno.test("registry patterns match accent-stripped query", () => {
+  const c = extractConstraints('Qual a sorção da Vitality com TEGDMA?', LEXICON);
+  assertEquals(c.materials, ['vitality']);
+  assertEquals(c.additives, ['tegdma']);
+  assertEquals(c.properties, ['water_sorption']);
+  assert(c.hasStrongConstraints);
+});
+
+Deno.test("strong_alone entry promotes a single additive to strong", () => {
+  const c = extractConstraints('resultados com nano prata', LEXICON);
+  assertEquals(c.additives, ['silver_nanoparticles']);
+  assert(c.hasStrongConstraints);
+});
+
+Deno.test("lower-priority alias overlapping a registry match is dropped", () => {
+  const c = extractConstraints('dureza vickers da resina', LEXICON);
+  assertEquals(c.properties, ['hardness']);
+});
+
+Deno.test("new material from approved alias is recognized without code change", () => {
+  const c = extractConstraints('sorção da Omnichroma', LEXICON);
+  assertEquals(c.materials, ['omnichroma']);
+  assertEquals(c.properties, ['water_sorption']);
+});
+
+Deno.test("literal aliases only match whole words", () => {
+  const c = extractConstraints('surface roughness', LEXICON);
+  assertEquals(c.properties, []);
+  assertEquals(extractConstraints('valor de RF', LEXICON).properties, ['flexural_strength']);
+});
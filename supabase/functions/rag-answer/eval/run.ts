@@ -0,0 +1,328 @@
+/**
+ * Offline evaluation runner for rag-answer.
+ *
+ * Seeds each golden set's fixture into a local Supabase stack, sends every
+ * case through the deployed pipeline (`supabase functions serve rag-answer`),
+ * scores routing / fail-closed / citation recall / numeric correctness and
+ * reports regressions against a previous run. See README.md in this folder.
+ *
+ * deno run -A supabase/functions/rag-answer/eval/run.ts [--gateway=stub|live]
+ *   [--golden=<dir>] [--out=<file>] [--baseline=<file>] [--port=8787]
+ *   [--chunking=structure-v1|fixed-v1] [--promoted]
+ *
+ * --promoted also runs the active rag_eval_cases (answers promoted from user
+ * feedback) against their own projects, as the "promoted" set.
+ */
+
+import { parse } from "https://deno.land/std@0.168.0/flags/mod.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  type CaseScore,
+  type GoldenCase,
+  type GoldenFixtureMeasurement,
+  type GoldenSet,
+  type PromotedEvalCase,
+  type RagAnswerResult,
+  type RunReport,
+  compareRuns,
+  failedCase,
+  PROMOTED_SET,
+  promotedGoldenCase,
+  scoreCase,
+  summarize,
+} from "./scoring.ts";
+import { getAiProvider, stubEmbedding } from "../../_shared/ai-provider.ts";
+import { CHUNKING_VERSIONS, DEFAULT_CHUNKING_VERSION, chunkDocument, isChunkingVersion } from "../../_shared/chunking.ts";
+import { startStubGateway } from "./stub-gateway.ts";
+
+const EVAL_USER_EMAIL = "rag-eval@example.test";
+const evalDir = new URL(".", import.meta.url).pathname;
+
+const args = parse(Deno.args, {
+  string: ["gateway", "golden", "out", "baseline", "port", "chunking"],
+  boolean: ["promoted"],
+  default: { gateway: "stub", golden: `${evalDir}golden`, port: "8787", chunking: DEFAULT_CHUNKING_VERSION },
+});
+const gatewayMode = args.gateway === "live" ? "live" : "stub";
+if (!isChunkingVersion(args.chunking)) {
+  console.error(`--chunking must be one of: ${CHUNKING_VERSIONS.join(", ")}`);
+  Deno.exit(2);
+}
+const chunkingVersion = args.chunking;
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") || "http://127.0.0.1:54321";
+const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+if (!serviceKey || !anonKey) {
+  console.error("SUPABASE_SERVICE_ROLE_KEY and SUPABASE_ANON_KEY are required (see `supabase status`).");
+  Deno.exit(2);
+}
+const ragAnswerUrl = Deno.env.get("RAG_ANSWER_URL") || `${supabaseUrl}/functions/v1/rag-answer`;
+
+// ==========================================
+// EVAL USER
+// ==========================================
+async function signInEvalUser(admin: SupabaseClient): Promise<{ userId: string; accessToken: string }> {
+  const password = crypto.randomUUID();
+  const created = await admin.auth.admin.createUser({ email: EVAL_USER_EMAIL, password, email_confirm: true });
+  let userId = created.data.user?.id;
+  if (!userId) {
+    const { data } = await admin.auth.admin.listUsers({ perPage: 1000 });
+    userId = data.users.find((u) => u.email === EVAL_USER_EMAIL)?.id;
+    if (!userId) throw new Error(`Could not create eval user: ${created.error?.message}`);
+    await admin.auth.admin.updateUserById(userId, { password });
+  }
+
+  const client = createClient(supabaseUrl, anonKey!);
+  const { data, error } = await client.auth.signInWithPassword({ email: EVAL_USER_EMAIL, password });
+  if (error || !data.session) throw new Error(`Eval user sign-in failed: ${error?.message}`);
+  return { userId, accessToken: data.session.access_token };
+}
+
+// ==========================================
+// FIXTURES
+// ==========================================
+function substitute(row: Record<string, unknown>, vars: Record<string, string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([k, v]) => [k, typeof v === "string" && v in vars ? vars[v] : v]));
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function liveEmbedding(text: string): Promise<number[]> {
+  const embedding = await getAiProvider().embed(text.substring(0, 8000));
+  if (!embedding) throw new Error("Embedding generation failed");
+  return embedding;
+}
+
+async function chunkDocuments(set: GoldenSet): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (const doc of set.fixture.documents || []) {
+    const sourceType = doc.source_type || "file";
+    const prefix = `[Tipo: ${sourceType}] [Projeto: ${set.fixture.project.name}] [Título: ${doc.title}]`;
+    const { chunks } = chunkDocument(doc.text, prefix, { source_type: sourceType, source_id: doc.source_id, title: doc.title }, chunkingVersion);
+    for (const chunk of chunks) {
+      rows.push({
+        project_id: set.fixture.project.id,
+        source_type: sourceType,
+        source_id: doc.source_id,
+        chunk_index: chunk.index,
+        chunk_text: chunk.text,
+        chunking_version: chunkingVersion,
+        metadata: chunk.metadata,
+      });
+    }
+  }
+  return rows;
+}
+
+async function seedFixture(admin: SupabaseClient, set: GoldenSet, userId: string): Promise<void> {
+  const vars = { "$user": userId, "$project": set.fixture.project.id };
+  const { error: projectError } = await admin.from("projects").insert({
+    ...set.fixture.project,
+    chunking_version: chunkingVersion,
+    created_by: userId,
+  });
+  if (projectError) throw new Error(`projects: ${projectError.message}`);
+
+  for (const [table, rows] of Object.entries(set.fixture.tables)) {
+    const prepared = await Promise.all(rows.map(async (raw) => {
+      const row = substitute(raw, vars);
+      if (table === "search_chunks") {
+        const text = String(row.chunk_text);
+        row.chunk_hash ??= await sha256(text);
+        row.embedding ??= JSON.stringify(gatewayMode === "live" ? await liveEmbedding(text) : stubEmbedding(text));
+      }
+      return row;
+    }));
+    const { error } = await admin.from(table).insert(prepared);
+    if (error) throw new Error(`${table}: ${error.message}`);
+  }
+
+  const documentChunks = await chunkDocuments(set);
+  for (const row of documentChunks) {
+    const text = String(row.chunk_text);
+    row.chunk_hash = await sha256(text);
+    row.embedding = JSON.stringify(gatewayMode === "live" ? await liveEmbedding(text) : stubEmbedding(text));
+  }
+  if (documentChunks.length > 0) {
+    const { error } = await admin.from("search_chunks").insert(documentChunks);
+    if (error) throw new Error(`documents: ${error.message}`);
+  }
+}
+
+async function teardownFixture(admin: SupabaseClient, set: GoldenSet): Promise<void> {
+  if (set.fixture.documents?.length) {
+    await admin.from("search_chunks").delete().eq("project_id", set.fixture.project.id);
+  }
+  for (const [table, rows] of Object.entries(set.fixture.tables).reverse()) {
+    const ids = rows.map((r) => r.id).filter(Boolean);
+    if (ids.length > 0) await admin.from(table).delete().in("id", ids);
+  }
+  await admin.from("project_members").delete().eq("project_id", set.fixture.project.id);
+  const { error } = await admin.from("projects").delete().eq("id", set.fixture.project.id);
+  if (error) console.warn(`Teardown of ${set.name} incomplete: ${error.message}`);
+}
+
+// ==========================================
+// RUN
+// ==========================================
+async function loadGoldenSets(dir: string): Promise<GoldenSet[]> {
+  const sets: GoldenSet[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && entry.name.endsWith(".json")) {
+      sets.push(JSON.parse(await Deno.readTextFile(`${dir}/${entry.name}`)));
+    }
+  }
+  return sets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Fixture projects are asked as the signed-in eval user. Real projects are
+// asked with a service-role call instead, which names the project and the
+// user the log is attributed to without any membership
+type EvalCaller = { accessToken: string } | { serviceUserId: string };
+
+async function askRagAnswer(caller: EvalCaller, question: string, projectId: string, contextMode: string): Promise<RagAnswerResult> {
+  const auth = "serviceUserId" in caller
+    ? { token: serviceKey!, apikey: serviceKey!, scope: { as_user_id: caller.serviceUserId } }
+    : { token: caller.accessToken, apikey: anonKey!, scope: {} };
+  const response = await fetch(ragAnswerUrl, {
+    method: "POST",
+    headers: { "Authorization": `Bearer ${auth.token}`, "apikey": auth.apikey, "Content-Type": "application/json" },
+    body: JSON.stringify({ query: question, project_ids: [projectId], context_mode: contextMode, cache: false, ...auth.scope }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || `rag-answer returned ${response.status}`);
+  return data;
+}
+
+async function runCase(
+  admin: SupabaseClient,
+  caller: EvalCaller,
+  setName: string,
+  golden: GoldenCase,
+  projectId: string,
+  measurements: GoldenFixtureMeasurement[],
+): Promise<CaseScore> {
+  let score: CaseScore;
+  try {
+    const result = await askRagAnswer(caller, golden.question, projectId, golden.context_mode || "project");
+    const requestId = result._diagnostics?.request_id as string | undefined;
+    const { data: log } = requestId
+      ? await admin.from("rag_logs").select("complexity_tier").eq("request_id", requestId).maybeSingle()
+      : { data: null };
+    score = scoreCase(setName, golden, result, log?.complexity_tier ?? null, measurements);
+  } catch (error) {
+    score = failedCase(setName, golden, error instanceof Error ? error.message : String(error));
+  }
+  console.log(`  ${score.passed ? "✓" : "✗"} ${golden.id}  pipeline=${score.pipeline ?? "-"} tier=${score.tier ?? "-"}`
+    + ` citations=${pct(score.citation_recall)} numbers=${pct(score.numeric_recall)}`
+    + (score.error ? `  error: ${score.error}` : ""));
+  return score;
+}
+
+// ==========================================
+// PROMOTED CASES
+// ==========================================
+// Real project data, so nothing is seeded and the eval user never joins the
+// project: each case is a service-role call scoped to its own project. No
+// fixture measurements either, so numeric grounding is not scored — expected
+// numbers still are.
+async function runPromotedCases(admin: SupabaseClient, userId: string): Promise<CaseScore[]> {
+  const { data, error } = await admin
+    .from("rag_eval_cases")
+    .select("id, project_id, question, context_mode, expected")
+    .eq("active", true)
+    .order("created_at");
+  if (error) throw new Error(`rag_eval_cases: ${error.message}`);
+  const rows = (data || []) as PromotedEvalCase[];
+  console.log(`\n▶ ${PROMOTED_SET} (${rows.length} cases)`);
+
+  const scores: CaseScore[] = [];
+  for (const row of rows) {
+    scores.push(await runCase(admin, { serviceUserId: userId }, PROMOTED_SET, promotedGoldenCase(row), row.project_id, []));
+  }
+  return scores;
+}
+
+async function latestReport(dir: string): Promise<string | null> {
+  const names: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.isFile && entry.name.endsWith(".json")) names.push(entry.name);
+    }
+  } catch {
+    return null;
+  }
+  const last = names.sort().pop();
+  return last ? `${dir}/${last}` : null;
+}
+
+function pct(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+async function main() {
+  const admin = createClient(supabaseUrl, serviceKey!);
+  const sets = await loadGoldenSets(args.golden);
+  const stub = gatewayMode === "stub" ? startStubGateway(Number(args.port)) : null;
+  if (stub) console.log(`Stub gateway on ${stub.url} — serve rag-answer with AI_GATEWAY_URL pointing here.`);
+
+  const resultsDir = `${evalDir}results`;
+  const startedAt = new Date().toISOString();
+  const baselinePath = args.baseline || await latestReport(resultsDir);
+  const { userId, accessToken } = await signInEvalUser(admin);
+  const scores: CaseScore[] = [];
+
+  try {
+    for (const set of sets) {
+      console.log(`\n▶ ${set.name} (${set.cases.length} cases)`);
+      const measurements = (set.fixture.tables.measurements || []) as unknown as GoldenFixtureMeasurement[];
+      try {
+        await seedFixture(admin, set, userId);
+        for (const golden of set.cases) {
+          stub?.setResponse(golden.stub_response);
+          scores.push(await runCase(admin, { accessToken }, set.name, golden, set.fixture.project.id, measurements));
+        }
+      } finally {
+        await teardownFixture(admin, set);
+      }
+    }
+    if (args.promoted) {
+      stub?.setResponse(undefined);
+      scores.push(...await runPromotedCases(admin, userId));
+    }
+  } finally {
+    await stub?.close();
+  }
+
+  const report: RunReport = {
+    started_at: startedAt,
+    gateway: gatewayMode,
+    chunking_version: chunkingVersion,
+    cases: scores,
+    totals: summarize(scores),
+  };
+  const outPath = args.out || `${resultsDir}/${startedAt.replace(/[:.]/g, "-")}.json`;
+  await Deno.mkdir(outPath.substring(0, outPath.lastIndexOf("/")), { recursive: true });
+  await Deno.writeTextFile(outPath, JSON.stringify(report, null, 2));
+
+  const t = report.totals;
+  console.log(`\n${t.passed}/${t.cases} passed · routing ${pct(t.routing_accuracy)} · fail-closed ${pct(t.fail_closed_accuracy)}`
+    + ` · citation recall ${pct(t.mean_citation_recall)} · numeric recall ${pct(t.mean_numeric_recall)}`);
+  console.log(`Report: ${outPath}`);
+
+  if (!baselinePath) return;
+  const baseline: RunReport = JSON.parse(await Deno.readTextFile(baselinePath));
+  const regressions = compareRuns(baseline, report);
+  console.log(`\nCompared with ${baselinePath}: ${regressions.length} regression(s)`);
+  if (baseline.chunking_version && baseline.chunking_version !== chunkingVersion) {
+    console.log(`  chunking: ${baseline.chunking_version} → ${chunkingVersion}`);
+  }
+  for (const r of regressions) console.log(`  ✗ ${r.key} [${r.kind}] ${r.detail}`);
+  if (regressions.length > 0) Deno.exit(1);
+}
+
+await main();
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for eval harness scoring and run-to-run regression detection.
+ * Run with: deno test supabase/functions/rag-answer/eval/scoring.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  type GoldenCase,
+  type RunReport,
+  compareRuns,
+  containsNumber,
+  promotedGoldenCase,
+  scoreCase,
+  summarize,
+} from "./scoring.ts";
+
+const measurements = [
+  { metric: "flexural_strength", value: 128.4, value_canonical: 128.4 },
+  { metric: "flexural_strength", value: 135.2, value_canonical: 135.2 },
+];
+
+const golden: GoldenCase = {
+  id: "resultados-flexao",
+  question: "Quais foram os resultados de resistência flexural?",
+  expected: {
+    pipeline: "3-step",
+    tier: "standard",
+    fail_closed: false,
+    sources: ["Lote A", "Lote B"],
+    numbers: ["128.4", "135.2"],
+  },
+};
+
+function report(cases: RunReport["cases"]): RunReport {
+  return { started_at: "2026-03-02T00:00:00Z", gateway: "stub", cases, totals: summarize(cases) };
+}
+
+Deno.test("containsNumber accepts pt-BR decimals and rejects partial matches", () => {
+  assert(containsNumber("média de 135,2 MPa", "135.2"));
+  assert(containsNumber("mean 135.2 MPa", "135.2"));
+  assert(!containsNumber("média de 1135,25 MPa", "135.2"));
+});
+
+Deno.test("a grounded, fully cited answer passes", () => {
+  const score = scoreCase("set", golden, {
+    response: "Lote A: 128,4 MPa [1]; Lote B: 135,2 MPa [2].",
+    sources: [{ title: "Ensaio de flexão — Lote A.pdf" }, { title: "Ensaio de flexão — Lote B.pdf" }],
+    _diagnostics: { pipeline_selected: "3-step", fail_closed_triggered: false },
+  }, "standard", measurements);
+
+  assertEquals(score.citation_recall, 1);
+  assertEquals(score.numeric_recall, 1);
+  assert(score.numeric_grounded);
+  assert(score.passed);
+});
+
+Deno.test("missing citations, invented numbers and wrong tier are all reported", () => {
+  const score = scoreCase("set", golden, {
+    response: "Lote A: 128,4 MPa [1]; Lote B: 142,7 MPa.",
+    sources: [{ title: "Ensaio de flexão — Lote A.pdf" }],
+    _diagnostics: { pipeline_selected: "3-step", fail_closed_triggered: false },
+  }, "advanced", measurements);
+
+  assertEquals(score.missing_sources, ["Lote B"]);
+  assertEquals(score.citation_recall, 0.5);
+  assertEquals(score.missing_numbers, ["135.2"]);
+  assertEquals(score.ungrounded_numbers, ["142,7"]);
+  assert(!score.routing_ok);
+  assert(!score.passed);
+});
+
+Deno.test("expected fail-closed checks the reason and skips numeric grounding", () => {
+  const failGolden: GoldenCase = {
+    id: "material-ausente",
+    question: "Qual a resistência flexural da Herculite?",
+    expected: { fail_closed: true, fail_closed_reason: "constraint_evidence_missing" },
+  };
+  const score = scoreCase("set", failGolden, {
+    response: "Não encontrei evidência para Herculite (0 medições).",
+    sources: [],
+    _diagnostics: { fail_closed_triggered: true, fail_closed_reason: "constraint_evidence_missing" },
+  }, null, measurements);
+
+  assert(score.fail_closed_ok);
+  assert(score.passed);
+});
+
+Deno.test("compareRuns flags cases that got worse, not ones that improved", () => {
+  const base = scoreCase("set", golden, {
+    response: "128,4 MPa e 135,2 MPa", sources: [{ title: "Lote A" }, { title: "Lote B" }],
+    _diagnostics: { pipeline_selected: "3-step" },
+  }, "standard", measurements);
+  const worse = { ...base, passed: false, routing_ok: false, tier: "advanced", citation_recall: 0.5 };
+
+  const regressions = compareRuns(report([base]), report([worse]));
+  assertEquals(regressions.map(r => r.kind).sort(), ["citation_recall", "failed", "routing"]);
+  assertEquals(compareRuns(report([worse]), report([base])), []);
+});
+
+Deno.test("promoted feedback cases become golden cases without a fixture", () => {
+  const golden = promotedGoldenCase({
+    id: "0b9c5f3e-1d2a-4c7b-9e8f-1a2b3c4d5e6f",
+    project_id: "e7a10000-0000-4000-8000-000000000001",
+    question: "Qual a dureza Vickers da Vitality?",
+    context_mode: "project",
+    expected: { sources: ["Dureza — Vitality.pdf"], numbers: ["62,4"] },
+  });
+  assertEquals(golden.id, "0b9c5f3e-1d2a-4c7b-9e8f-1a2b3c4d5e6f");
+  assertEquals(golden.expected.fail_closed, false);
+
+  const answer = { response: "A dureza Vickers foi 62,4 HV [1].", sources: [{ title: "Dureza — Vitality.pdf" }] };
+  const score = scoreCase("promoted", golden, answer, null, []);
+  assert(score.passed);
+  assertEquals(score.numeric_grounded, true);
+});
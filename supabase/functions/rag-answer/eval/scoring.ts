@@ -0,0 +1,304 @@
+/**
+ * Golden-set format + scoring for the rag-answer offline evaluation harness.
+ * Pure module: no network, no Deno APIs — imported by run.ts and scoring.test.ts.
+ */
+
+import {
+  type DetailedVerification,
+  type EvidenceGraphValues,
+  verifyIDERNumbers,
+  verifyTabularResponse,
+} from "../verification.ts";
+
+// ==========================================
+// GOLDEN SET FORMAT
+// ==========================================
+export interface GoldenExpectation {
+  // diagnostics.pipeline_selected, e.g. "3-step", "comparative", "ider", "tabular-excel"
+  pipeline?: string;
+  // rag_logs.complexity_tier: "fast" | "standard" | "advanced"
+  tier?: string;
+  fail_closed: boolean;
+  fail_closed_reason?: string;
+  // Source titles (search_chunks.metadata.title) that must be cited; matched case-insensitively
+  sources?: string[];
+  // Numbers that must appear in the answer, written as in the evidence ("135.2" also matches "135,2")
+  numbers?: string[];
+}
+
+export interface GoldenCase {
+  id: string;
+  question: string;
+  context_mode?: "project" | "global";
+  // Synthesis text returned by the stub gateway for this case (ignored with --gateway=live)
+  stub_response?: string;
+  expected: GoldenExpectation;
+}
+
+export interface GoldenFixtureMeasurement {
+  metric: string;
+  value: number;
+  value_canonical?: number | null;
+}
+
+export interface GoldenDocument {
+  // Usually a project_files id, so deep reads find the chunks
+  source_id: string;
+  source_type?: string;
+  title: string;
+  text: string;
+}
+
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  fixture: {
+    project: { id: string; name: string; description?: string };
+    // Rows inserted with the service role, in key order. "$user" / "$project" are replaced by the runner.
+    tables: Record<string, Record<string, unknown>[]>;
+    // Raw texts chunked by the runner with --chunking and inserted as search_chunks
+    documents?: GoldenDocument[];
+  };
+  cases: GoldenCase[];
+}
+
+// Row of rag_eval_cases: a question promoted from answer feedback, run
+// against its own project instead of a fixture (run.ts --promoted)
+export interface PromotedEvalCase {
+  id: string;
+  project_id: string;
+  question: string;
+  context_mode: "project" | "global";
+  expected: Partial<GoldenExpectation> | null;
+}
+
+export const PROMOTED_SET = "promoted";
+
+export function promotedGoldenCase(row: PromotedEvalCase): GoldenCase {
+  const expected = row.expected || {};
+  return {
+    id: row.id,
+    question: row.question,
+    context_mode: row.context_mode,
+    expected: { ...expected, fail_closed: expected.fail_closed === true },
+  };
+}
+
+// ==========================================
+// RESULTS
+// ==========================================
+export interface RagAnswerResult {
+  response: string | null;
+  sources?: { title?: string }[];
+  pipeline?: string;
+  _diagnostics?: Record<string, unknown>;
+}
+
+export interface CaseScore {
+  set: string;
+  case_id: string;
+  pipeline: string | null;
+  tier: string | null;
+  fail_closed: boolean;
+  fail_closed_reason: string | null;
+  routing_ok: boolean;
+  fail_closed_ok: boolean;
+  // null when the expectation has nothing to measure
+  citation_recall: number | null;
+  numeric_recall: number | null;
+  numeric_grounded: boolean;
+  missing_sources: string[];
+  missing_numbers: string[];
+  ungrounded_numbers: string[];
+  passed: boolean;
+  error?: string;
+}
+
+export interface RunReport {
+  started_at: string;
+  gateway: "stub" | "live";
+  // Strategy used for fixture.documents (absent in reports older than the option)
+  chunking_version?: string;
+  cases: CaseScore[];
+  totals: {
+    cases: number;
+    passed: number;
+    routing_accuracy: number;
+    fail_closed_accuracy: number;
+    mean_citation_recall: number | null;
+    mean_numeric_recall: number | null;
+  };
+}
+
+// ==========================================
+// SCORING
+// ==========================================
+function numberVariants(n: string): string[] {
+  return [...new Set([n, n.replace('.', ','), n.replace(',', '.')])];
+}
+
+export function containsNumber(text: string, n: string): boolean {
+  return numberVariants(n).some(v => {
+    const escaped = v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\d.,])${escaped}(?![\\d])`).test(text);
+  });
+}
+
+// Evidence values of the fixture, shaped for the pipeline's own verifiers
+export function fixtureEvidence(measurements: GoldenFixtureMeasurement[]): {
+  table: { variants: { metrics: Record<string, { value: number; value_canonical: number | null }> }[] };
+  graph: EvidenceGraphValues;
+} {
+  const variants = measurements.map((m, i) => ({
+    metrics: { [`${m.metric}#${i}`]: { value: m.value, value_canonical: m.value_canonical ?? null } },
+  }));
+  return { table: { variants }, graph: { experiments: [{ variants }] } };
+}
+
+export function scoreCase(
+  set: string,
+  golden: GoldenCase,
+  result: RagAnswerResult,
+  tier: string | null,
+  measurements: GoldenFixtureMeasurement[],
+): CaseScore {
+  const expected = golden.expected;
+  const diagnostics = result._diagnostics || {};
+  const text = result.response || '';
+  const pipeline = (diagnostics.pipeline_selected as string) || result.pipeline || null;
+  const failClosed = diagnostics.fail_closed_triggered === true;
+  const failReason = (diagnostics.fail_closed_reason as string) || null;
+
+  const routingOk = (!expected.pipeline || expected.pipeline === pipeline)
+    && (!expected.tier || expected.tier === tier);
+  const failClosedOk = expected.fail_closed === failClosed
+    && (!expected.fail_closed_reason || expected.fail_closed_reason === failReason);
+
+  const citedTitles = (result.sources || []).map(s => (s.title || '').toLowerCase());
+  const missingSources = (expected.sources || []).filter(
+    title => !citedTitles.some(cited => cited.includes(title.toLowerCase())),
+  );
+  const citationRecall = expected.sources?.length
+    ? (expected.sources.length - missingSources.length) / expected.sources.length
+    : null;
+
+  const missingNumbers = (expected.numbers || []).filter(n => !containsNumber(text, n));
+  const numericRecall = expected.numbers?.length
+    ? (expected.numbers.length - missingNumbers.length) / expected.numbers.length
+    : null;
+
+  // Same verifiers the pipeline uses, run against the fixture's measurements
+  let ungrounded: string[] = [];
+  if (!failClosed && measurements.length > 0) {
+    const evidence = fixtureEvidence(measurements);
+    const checks: DetailedVerification[] = [
+      verifyTabularResponse(text, evidence.table),
+      verifyIDERNumbers(text, evidence.graph),
+    ];
+    ungrounded = [...new Set(checks.flatMap(c => c.unmatched_examples.map(u => u.number)))];
+  }
+
+  const passed = routingOk && failClosedOk
+    && (citationRecall === null || citationRecall === 1)
+    && (numericRecall === null || numericRecall === 1)
+    && ungrounded.length === 0;
+
+  return {
+    set,
+    case_id: golden.id,
+    pipeline,
+    tier,
+    fail_closed: failClosed,
+    fail_closed_reason: failReason,
+    routing_ok: routingOk,
+    fail_closed_ok: failClosedOk,
+    citation_recall: citationRecall,
+    numeric_recall: numericRecall,
+    numeric_grounded: ungrounded.length === 0,
+    missing_sources: missingSources,
+    missing_numbers: missingNumbers,
+    ungrounded_numbers: ungrounded,
+    passed,
+  };
+}
+
+// Case that could not be scored (request failed, pipeline crashed)
+export function failedCase(set: string, golden: GoldenCase, error: string): CaseScore {
+  return {
+    set,
+    case_id: golden.id,
+    pipeline: null,
+    tier: null,
+    fail_closed: false,
+    fail_closed_reason: null,
+    routing_ok: false,
+    fail_closed_ok: false,
+    citation_recall: golden.expected.sources?.length ? 0 : null,
+    numeric_recall: golden.expected.numbers?.length ? 0 : null,
+    numeric_grounded: false,
+    missing_sources: golden.expected.sources || [],
+    missing_numbers: golden.expected.numbers || [],
+    ungrounded_numbers: [],
+    passed: false,
+    error,
+  };
+}
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+export function summarize(cases: CaseScore[]): RunReport['totals'] {
+  const n = cases.length || 1;
+  return {
+    cases: cases.length,
+    passed: cases.filter(c => c.passed).length,
+    routing_accuracy: cases.filter(c => c.routing_ok).length / n,
+    fail_closed_accuracy: cases.filter(c => c.fail_closed_ok).length / n,
+    mean_citation_recall: mean(cases.map(c => c.citation_recall)),
+    mean_numeric_recall: mean(cases.map(c => c.numeric_recall)),
+  };
+}
+
+// ==========================================
+// REGRESSIONS BETWEEN RUNS
+// ==========================================
+export interface Regression {
+  key: string;
+  kind: 'failed' | 'routing' | 'fail_closed' | 'citation_recall' | 'numeric_recall' | 'numeric_grounding' | 'missing';
+  detail: string;
+}
+
+export function compareRuns(previous: RunReport, current: RunReport): Regression[] {
+  const regressions: Regression[] = [];
+  const currentByKey = new Map(current.cases.map(c => [`${c.set}/${c.case_id}`, c]));
+
+  for (const before of previous.cases) {
+    const key = `${before.set}/${before.case_id}`;
+    const after = currentByKey.get(key);
+    if (!after) {
+      regressions.push({ key, kind: 'missing', detail: 'case no longer in the golden set' });
+      continue;
+    }
+    if (before.passed && !after.passed) {
+      regressions.push({ key, kind: 'failed', detail: after.error || 'passed before, fails now' });
+    }
+    if (before.routing_ok && !after.routing_ok) {
+      regressions.push({ key, kind: 'routing', detail: `${before.pipeline}/${before.tier} → ${after.pipeline}/${after.tier}` });
+    }
+    if (before.fail_closed_ok && !after.fail_closed_ok) {
+      regressions.push({ key, kind: 'fail_closed', detail: `fail_closed=${after.fail_closed} (${after.fail_closed_reason ?? '-'})` });
+    }
+    if ((after.citation_recall ?? 1) < (before.citation_recall ?? 1)) {
+      regressions.push({ key, kind: 'citation_recall', detail: `${before.citation_recall} → ${after.citation_recall}` });
+    }
+    if ((after.numeric_recall ?? 1) < (before.numeric_recall ?? 1)) {
+      regressions.push({ key, kind: 'numeric_recall', detail: `${before.numeric_recall} → ${after.numeric_recall}` });
+    }
+    if (before.numeric_grounded && !after.numeric_grounded) {
+      regressions.push({ key, kind: 'numeric_grounding', detail: `ungrounded: ${after.ungrounded_numbers.join(', ')}` });
+    }
+  }
+  return regressions;
+}
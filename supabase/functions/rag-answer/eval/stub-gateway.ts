@@ -0,0 +1,83 @@
+/**
+ * Deterministic stand-in for the AI gateway used by the eval runner.
+ * rag-answer is pointed at it through AI_GATEWAY_URL. Unlike AI_PROVIDER=stub,
+ * it answers each golden case with that case's stub_response.
+ *
+ * - /embeddings: hashed bag-of-words vectors (same text → same vector), so
+ *   fixture chunks and queries sharing words land close together
+ *   (`stubEmbedding` from the shared AI provider).
+ * - /chat/completions: JSON-only prompts (evidence plan, audit, alias
+ *   suggestions) get empty JSON; everything else gets the active case's
+ *   stub_response. Supports `stream: true` like the real gateway.
+ */
+
+import { stubEmbedding, stubJsonAnswer } from "../../_shared/ai-provider.ts";
+
+const DEFAULT_RESPONSE = 'Não encontrei informações suficientes.';
+
+export interface StubGateway {
+  url: string;
+  setResponse: (text: string | undefined) => void;
+  close: () => Promise<void>;
+}
+
+function completionText(body: { messages?: { content?: string }[] }, response: string): string {
+  const messages = body.messages || [];
+  const prompt = messages.map(m => m.content || '').join('\n');
+  return stubJsonAnswer(prompt) ?? response;
+}
+
+function streamCompletion(text: string): Response {
+  const encoder = new TextEncoder();
+  // Word-sized deltas, then a usage chunk, like the gateway with include_usage
+  const pieces = text.match(/\S+\s*/g) || [];
+  const body = new ReadableStream({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`));
+      }
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 0, completion_tokens: pieces.length } })}\n\n`));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+export function startStubGateway(port: number): StubGateway {
+  let response = DEFAULT_RESPONSE;
+  const controller = new AbortController();
+
+  const server = Deno.serve({ port, signal: controller.signal, onListen: () => {} }, async (req) => {
+    const path = new URL(req.url).pathname;
+    const body = await req.json().catch(() => ({}));
+
+    if (path.endsWith('/embeddings')) {
+      const inputs: string[] = Array.isArray(body.input) ? body.input : [String(body.input ?? '')];
+      return Response.json({
+        data: inputs.map((input, index) => ({ index, embedding: stubEmbedding(input) })),
+        usage: { prompt_tokens: 0, total_tokens: 0 },
+      });
+    }
+
+    if (path.endsWith('/chat/completions')) {
+      const text = completionText(body, response);
+      if (body.stream) return streamCompletion(text);
+      return Response.json({
+        choices: [{ message: { role: 'assistant', content: text } }],
+        usage: { prompt_tokens: 0, completion_tokens: text.split(/\s+/).length },
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  });
+
+  return {
+    url: `http://localhost:${port}/v1`,
+    setResponse: (text) => { response = text || DEFAULT_RESPONSE; },
+    close: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+}
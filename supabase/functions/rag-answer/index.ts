@@ -1,5 +1,56 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type DetailedVerification, verifyIDERNumbers, verifyTabularResponse } from "./verification.ts";
+import {
+  type AiProvider,
+  type ChatMessage,
+  type ChatRequest,
+  type ModelTier,
+  getAiProvider,
+} from "../_shared/ai-provider.ts";
+import { compareGroups } from "../_shared/statistics.ts";
+import { loadMeasurementGroups } from "../_shared/measurement-groups.ts";
+import { isWeibullDerivedMetric } from "../_shared/weibull.ts";
+import { convertUnit } from "../_shared/units.ts";
+import {
+  type FormulationRecord,
+  describeComposition,
+  describeFormulationFilter,
+  matchesFormulationFilter,
+  parseFormulationQuery,
+  summarizeComposition,
+} from "../_shared/formulations.ts";
+import { type RerankStageLog, createRerankers, parseRerankStages, rerank } from "../_shared/reranking.ts";
+import { type QueryRewrite, rewriteQuery } from "../_shared/query-rewrite.ts";
+import {
+  type MeasurementQuery,
+  type QueryResult,
+  type QueryRow,
+  type QueryTranslation,
+  QUERY_DSL_VERSION,
+  describeQuery,
+  formatValue,
+  isAggregateQuestion,
+  loadQueryRows,
+  loadQueryVocabulary,
+  resultTableMarkdown,
+  runMeasurementQuery,
+  templateNarration,
+  translateMeasurementQuery,
+  ungroundedNumbers,
+} from "../_shared/measurement-query.ts";
+import {
+  type AnswerCacheKey,
+  DEFAULT_MIN_SIMILARITY,
+  cacheScopeKey,
+  isCacheableAnswer,
+  isCacheableQuery,
+  loadDataVersion,
+  lookupCachedAnswer,
+  normalizeCacheQuery,
+  querySignature,
+  storeCachedAnswer,
+} from "../_shared/answer-cache.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -42,16 +93,51 @@ function setExistsCache(key: string, matches: any[]): void {
 type ContextMode = "project" | "global";
 
 // ==========================================
-// MULTI-MODEL ROUTING: Tier-based model selection
+// STREAMING (SSE): stage progress + synthesis tokens
+// Enabled when the request body has `stream: true`. The final payload is the
+// same JSON the non-streaming path returns, sent as the `done` event.
 // ==========================================
-type ModelTier = 'fast' | 'standard' | 'advanced';
+type StreamStage = 'rewrite' | 'cache' | 'gate' | 'routing' | 'retrieval' | 'evidence_plan' | 'model' | 'synthesis' | 'verification';
 
-const MODEL_TIERS: Record<ModelTier, string> = {
-  fast: 'google/gemini-2.5-flash-lite',
-  standard: 'google/gemini-3-flash-preview',
-  advanced: 'google/gemini-2.5-pro',
-};
+interface RagStream {
+  signal: AbortSignal;
+  stage: (stage: StreamStage, data?: Record<string, unknown>) => void;
+  token: (text: string) => void;
+}
+
+const sseEncoder = new TextEncoder();
+
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return sseEncoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
+function throwIfAborted(stream?: RagStream): void {
+  if (stream?.signal.aborted) throw new DOMException('Request cancelled by client', 'AbortError');
+}
+
+// Tokens spent by the synthesis calls of one request (written to rag_logs)
+interface TokenUsage {
+  input: number;
+  output: number;
+}
+
+// Chat completion through the AI provider. With a stream attached, forwards each
+// delta as a token event and returns the full text. Token counts are added to `usage`.
+async function chatCompletion(
+  ai: AiProvider, body: ChatRequest, stream?: RagStream, usage?: TokenUsage,
+): Promise<{ ok: boolean; status: number; content: string }> {
+  const result = await ai.chat(body, stream ? { signal: stream.signal, onToken: stream.token } : {});
+  if (usage) {
+    usage.input += result.usage.input;
+    usage.output += result.usage.output;
+  }
+  return { ok: result.ok, status: result.status, content: result.content };
+}
+
+// ==========================================
+// MULTI-MODEL ROUTING: Tier-based model selection
+// ==========================================
+// Models per tier come from the AI provider (AI_MODEL_FAST / _STANDARD / _ADVANCED)
 interface ComplexityAssessment {
   tier: ModelTier;
   escalated: boolean;
@@ -107,10 +193,6 @@ function assessQueryComplexity(
   };
 }
 
-function getModelForTier(tier: ModelTier): string {
-  return MODEL_TIERS[tier];
-}
-
 
 // ==========================================
 // ALIAS SYSTEM: Configurable Constants
@@ -132,6 +214,12 @@ interface NormalizedTerm {
   ruleApplied: string | null;
 }
 
+// Size: X microns/um/micrometros -> nm; viscosity: X Pa.s -> mPa.s (only with an explicit unit)
+const TERM_UNIT_RULES: { name: string; pattern: RegExp; skipIf: RegExp; to: string; label: string }[] = [
+  { name: 'micron_to_nm', pattern: /(\d+(?:[.,]\d+)?)\s*(microns?|um|micrometros?|µm)/i, skipIf: /nm/, to: 'nm', label: 'nm' },
+  { name: 'pas_to_mpas', pattern: /(\d+(?:[.,]\d+)?)\s*(pa\.s)/i, skipIf: /mpa/i, to: 'mPa·s', label: 'mpa.s' },
+];
+
 function normalizeTermWithUnits(term: string): NormalizedTerm {
   const original = term;
   let normalized = term.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
@@ -145,20 +233,15 @@ function normalizeTermWithUnits(term: string): NormalizedTerm {
     return { original, normalized, ruleApplied: 'range_detected_skip' };
   }
 
-  // Size: X microns/um/micrometros -> X*1000 nm (only if explicit unit and not already nm)
-  const micronMatch = normalized.match(/(\d+(?:[.,]\d+)?)\s*(microns?|um|micrometros?|µm)/i);
-  if (micronMatch && !/nm/.test(normalized)) {
-    const val = parseFloat(micronMatch[1].replace(',', '.'));
-    normalized = normalized.replace(micronMatch[0], `${val * 1000} nm`);
-    ruleApplied = 'micron_to_nm';
-  }
-
-  // Viscosity: X Pa.s -> X*1000 mPa.s (only if explicit unit and not already mPa.s)
-  const viscMatch = normalized.match(/(\d+(?:[.,]\d+)?)\s*pa\.s/i);
-  if (viscMatch && !/mpa/i.test(normalized)) {
-    const val = parseFloat(viscMatch[1].replace(',', '.'));
-    normalized = normalized.replace(viscMatch[0], `${val * 1000} mpa.s`);
-    ruleApplied = 'pas_to_mpas';
+  // Quantities are rewritten in the unit the knowledge base indexes them in;
+  // the arithmetic comes from the shared unit engine
+  for (const rule of TERM_UNIT_RULES) {
+    const match = normalized.match(rule.pattern);
+    if (!match || rule.skipIf.test(normalized)) continue;
+    const converted = convertUnit(parseFloat(match[1].replace(',', '.')), match[2], rule.to);
+    if (converted.value === null) continue;
+    normalized = normalized.replace(match[0], `${converted.value} ${rule.label}`);
+    ruleApplied = rule.name;
   }
 
   return { original, normalized, ruleApplied };
@@ -181,7 +264,7 @@ interface AliasSuggestion {
 }
 
 async function suggestAlias(
-  supabase: any, term: string, entityType: string, projectId: string, apiKey: string
+  supabase: any, term: string, entityType: string, projectId: string, ai: AiProvider
 ): Promise<AliasSuggestion | null> {
   const { original, normalized, ruleApplied } = normalizeTermWithUnits(term);
 
@@ -273,59 +356,27 @@ async function suggestAlias(
 
   // 4) Vector search via embedding
   try {
-    const embResponse = await fetch("https://ai.gateway.lovable.dev/v1/embeddings", {
-      method: "POST",
-      headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-      body: JSON.stringify({ model: "text-embedding-3-small", input: normalized.substring(0, 2000) }),
-    });
-
-    if (embResponse.ok) {
-      const embData = await embResponse.json();
-      const embedding = embData.data?.[0]?.embedding;
-
-      if (embedding) {
-        const embStr = JSON.stringify(embedding);
-        // Vector search in entity_aliases
-        const { data: vectorResults } = await supabase.rpc('match_entity_aliases', {
-          query_embedding: embStr,
-          match_threshold: 0.3,
-          match_count: 3,
-          p_entity_type: entityType,
-        });
-
-        // If RPC doesn't exist, fallback to manual approach
-        if (!vectorResults) {
-          // Raw SQL alternative not available via REST, return trigram results or null
-          if (scored.length > 0) {
-            const ambiguous = scored.length >= 2 && (scored[0].score - scored[1].score) < ALIAS_AMBIGUITY_DELTA;
-            const result: AliasSuggestion = {
-              term: original, term_norm: normalized, ruleApplied, entity_type: entityType,
-              top_candidates: scored.map((s: any) => ({ canonical_name: s.canonical_name, score: s.score, approved: s.approved })),
-              ambiguous, provisional_pass: false,
-              textual_evidence_sources: ['trigram_fallback'],
-              textual_evidence_weight_calculated: 0,
-              has_structural_evidence: false,
-            };
-            await supabase.from('alias_cache').upsert({
-              project_id: projectId, term_norm: normalized, entity_type: entityType,
-              result, cached_at: new Date().toISOString(),
-            }, { onConflict: 'project_id,term_norm,entity_type' });
-            return result;
-          }
-          return null;
-        }
-
-        const candidates = (vectorResults || []).map((r: any) => ({
-          canonical_name: r.canonical_name, score: r.similarity, approved: r.approved,
-        }));
+    const embedding = await ai.embed(normalized.substring(0, 2000));
+    if (embedding) {
+      const embStr = JSON.stringify(embedding);
+      // Vector search in entity_aliases
+      const { data: vectorResults } = await supabase.rpc('match_entity_aliases', {
+        query_embedding: embStr,
+        match_threshold: 0.3,
+        match_count: 3,
+        p_entity_type: entityType,
+      });
 
-        if (candidates.length > 0) {
-          const ambiguous = candidates.length >= 2 && (candidates[0].score - candidates[1].score) < ALIAS_AMBIGUITY_DELTA;
+      // If RPC doesn't exist, fallback to manual approach
+      if (!vectorResults) {
+        // Raw SQL alternative not available via REST, return trigram results or null
+        if (scored.length > 0) {
+          const ambiguous = scored.length >= 2 && (scored[0].score - scored[1].score) < ALIAS_AMBIGUITY_DELTA;
           const result: AliasSuggestion = {
             term: original, term_norm: normalized, ruleApplied, entity_type: entityType,
-            top_candidates: candidates,
+            top_candidates: scored.map((s: any) => ({ canonical_name: s.canonical_name, score: s.score, approved: s.approved })),
             ambiguous, provisional_pass: false,
-            textual_evidence_sources: ['vector_search'],
+            textual_evidence_sources: ['trigram_fallback'],
             textual_evidence_weight_calculated: 0,
             has_structural_evidence: false,
           };
@@ -335,6 +386,28 @@ async function suggestAlias(
           }, { onConflict: 'project_id,term_norm,entity_type' });
           return result;
         }
+        return null;
+      }
+
+      const candidates = (vectorResults || []).map((r: any) => ({
+        canonical_name: r.canonical_name, score: r.similarity, approved: r.approved,
+      }));
+
+      if (candidates.length > 0) {
+        const ambiguous = candidates.length >= 2 && (candidates[0].score - candidates[1].score) < ALIAS_AMBIGUITY_DELTA;
+        const result: AliasSuggestion = {
+          term: original, term_norm: normalized, ruleApplied, entity_type: entityType,
+          top_candidates: candidates,
+          ambiguous, provisional_pass: false,
+          textual_evidence_sources: ['vector_search'],
+          textual_evidence_weight_calculated: 0,
+          has_structural_evidence: false,
+        };
+        await supabase.from('alias_cache').upsert({
+          project_id: projectId, term_norm: normalized, entity_type: entityType,
+          result, cached_at: new Date().toISOString(),
+        }, { onConflict: 'project_id,term_norm,entity_type' });
+        return result;
       }
     }
   } catch (e) {
@@ -742,9 +815,11 @@ Liste TODAS as citações usadas no formato:
 async function generateTabularSynthesis(
   query: string,
   evidenceTableJson: any,
-  apiKey: string,
+  ai: AiProvider,
+  stream?: RagStream,
+  usage?: TokenUsage,
 ): Promise<{ response: string }> {
-  const messages = [
+  const messages: ChatMessage[] = [
     { role: "system", content: TABULAR_MODE_PROMPT },
     {
       role: "user",
@@ -756,112 +831,236 @@ INPUTS:
     },
   ];
 
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify({
-      model: "google/gemini-3-flash-preview",
-      messages,
-      temperature: 0.2,
-      max_tokens: 4000,
-    }),
-  });
+  const completion = await chatCompletion(ai, {
+    model: ai.model('standard'),
+    messages,
+    temperature: 0.2,
+    max_tokens: 4000,
+  }, stream, usage);
 
-  if (!response.ok) {
-    throw new Error(`Tabular synthesis AI error: ${response.status}`);
+  if (!completion.ok) {
+    throw new Error(`Tabular synthesis AI error: ${completion.status}`);
   }
 
-  const data = await response.json();
-  return { response: data.choices?.[0]?.message?.content || "Erro ao gerar síntese tabular." };
+  return { response: completion.content || "Erro ao gerar síntese tabular." };
 }
 
 // ==========================================
-// STEP C TABULAR: Programmatic numeric verification
+// STRUCTURED MEASUREMENT QUERY
+// Aggregate questions are translated into a validated MeasurementQuery and
+// executed over `measurements`; the model only narrates the result table.
 // ==========================================
-interface DetailedVerification {
-  verified: boolean;
-  issues: string[];
-  numbers_extracted: number;
+const QUERY_NARRATION_PROMPT = `Você é um analista de P&D em materiais odontológicos. Você recebeu o RESULTADO de uma consulta estruturada sobre medições, já calculado pelo sistema.
+REGRAS:
+- Use somente números que aparecem na tabela, copiados como estão (pode arredondar para menos casas decimais).
+- Não calcule nada: nenhuma média, diferença, razão ou percentual novo.
+- Responda à pergunta em 2 a 4 frases, em português, citando a unidade e quantas medições entraram no cálculo.
+- Se unidades foram descartadas ou o resultado foi truncado, diga isso.
+- Não repita a tabela nem a consulta: elas são anexadas à resposta.`;
+
+// Measurements cited as sources of a structured answer
+const MAX_QUERY_SOURCES = 12;
+
+interface StructuredQueryLog {
+  dsl_version: string;
+  query: MeasurementQuery | null;
+  errors: string[];
+  not_applicable: boolean;
+  translation_latency_ms: number;
+  scanned: number;
   matched: number;
-  unmatched: number;
-  issue_types: string[];
-  unmatched_examples: { number: string; context: string }[];
+  summarized: number;
+  dropped_units: { unit: string; n: number }[];
+  narration: 'model' | 'template' | null;
+  ungrounded_numbers: string[];
 }
 
-function verifyTabularResponse(
-  responseText: string,
-  evidenceTableJson: any,
-): DetailedVerification {
-  const emptyResult: DetailedVerification = { verified: true, issues: [], numbers_extracted: 0, matched: 0, unmatched: 0, issue_types: [], unmatched_examples: [] };
-  if (!evidenceTableJson?.variants) return emptyResult;
+interface StructuredAnswer {
+  response: string;
+  sources: any[];
+  query: MeasurementQuery;
+  result: QueryResult;
+  log: StructuredQueryLog;
+}
 
-  const validValues = new Set<string>();
-  for (const variant of evidenceTableJson.variants) {
-    if (!variant.metrics) continue;
-    for (const [, metric] of Object.entries(variant.metrics) as any) {
-      validValues.add(String(metric.value));
-      validValues.add(String(metric.value).replace('.', ','));
-      if (metric.value_canonical != null) {
-        validValues.add(String(metric.value_canonical));
-        validValues.add(String(metric.value_canonical).replace('.', ','));
-      }
+async function narrateQueryResult(
+  question: string,
+  query: MeasurementQuery,
+  result: QueryResult,
+  ai: AiProvider,
+  stream?: RagStream,
+  usage?: TokenUsage,
+): Promise<string | null> {
+  const notes = [
+    result.dropped_units.length > 0 ? `Unidades descartadas: ${result.dropped_units.map(d => `${d.n} em ${d.unit}`).join(', ')}` : '',
+    result.truncated ? `Resultado truncado nos ${result.rows.length} primeiros grupos` : '',
+    result.summarized > 0 ? `${result.summarized} medição(ões) reportadas como média ± DP (n), contadas como n corpos de prova (N = corpos de prova)` : '',
+  ].filter(Boolean);
+  const completion = await chatCompletion(ai, {
+    model: ai.model('standard'),
+    messages: [
+      { role: "system", content: QUERY_NARRATION_PROMPT },
+      {
+        role: "user",
+        content: `PERGUNTA: ${question}
+CONSULTA: ${describeQuery(query)}
+UNIDADE: ${result.unit}
+MEDIÇÕES: ${result.matched} de ${result.scanned}
+${notes.join('\n')}
+
+TABELA:
+${resultTableMarkdown(result)}`,
+      },
+    ],
+    temperature: 0.1,
+    max_tokens: 600,
+  }, stream, usage);
+  return completion.ok && completion.content.trim() ? completion.content.trim() : null;
+}
+
+// null → the question is not a structured query (or the translation failed)
+// and routing continues with the text pipelines
+async function answerStructuredQuery(
+  supabase: any,
+  ai: AiProvider,
+  question: string,
+  projectIds: string[],
+  stream?: RagStream,
+  usage?: TokenUsage,
+): Promise<StructuredAnswer | null> {
+  let translation: QueryTranslation;
+  let rows: QueryRow[];
+  try {
+    const vocab = await loadQueryVocabulary(supabase, projectIds);
+    translation = await translateMeasurementQuery(ai, question, vocab);
+    if (usage) {
+      usage.input += translation.usage.input;
+      usage.output += translation.usage.output;
+    }
+    if (!translation.query) {
+      console.log(`Structured query skipped (${translation.not_applicable ? 'not applicable' : translation.errors.join('; ')})`);
+      return null;
     }
+    stream?.stage('routing', { pipeline: 'structured-query' });
+    rows = await loadQueryRows(supabase, projectIds, translation.query);
+  } catch (error) {
+    console.warn(`Structured query failed, falling back to text pipelines: ${error instanceof Error ? error.message : error}`);
+    return null;
   }
 
-  // Extract only scientifically relevant numbers (associated with units or decimal values)
-  const scientificNumberPattern = /(\d+[.,]\d+)\s*(%|MPa|GPa|kPa|°C|℃|min|h|s|mm|cm|µm|nm|mW|mL|mg|µg|g\/|kg|ppm|ppb|N|J|Hz|kHz|MHz|mol|wt%|vol%|HV|KHN|mW\/cm²|µm²)/gi;
-  const decimalPattern = /(?<!\w)(\d+[.,]\d{1,})\b/g;
-  const scientificMatches = [...responseText.matchAll(scientificNumberPattern)].map(m => m[1]);
-  const decimalMatches = [...responseText.matchAll(decimalPattern)].map(m => m[1]);
-  const numbersInResponse = [...new Set([...scientificMatches, ...decimalMatches])];
-  
-  const issues: string[] = [];
-  const ungrounded: { number: string; context: string }[] = [];
-  let matched = 0;
-  let numbersExtracted = 0;
-
-  for (const n of numbersInResponse) {
-    const num = parseFloat(n.replace(',', '.'));
-    if (isNaN(num)) continue;
-    if (num <= 1 && Number.isInteger(num)) continue; // skip 0, 1
-    if (num > 1900 && num < 2100) continue; // skip years
-    numbersExtracted++;
+  const query = translation.query;
+  const result = runMeasurementQuery(query, rows);
+  stream?.stage('retrieval', { measurements: result.matched, groups: result.rows.length });
+  throwIfAborted(stream);
+
+  let narration: string | null = null;
+  let ungrounded: string[] = [];
+  if (result.matched > 0) {
+    stream?.stage('model', { tier: 'standard', model: ai.model('standard') });
+    stream?.stage('synthesis', { status: 'started' });
+    narration = await narrateQueryResult(question, query, result, ai, stream, usage);
+    ungrounded = narration ? ungroundedNumbers(narration, result, question) : [];
+    stream?.stage('verification', { verified: !!narration && ungrounded.length === 0, unmatched: ungrounded.length });
+    if (ungrounded.length > 0) {
+      console.warn(`Structured query narration has numbers outside the result: ${ungrounded.join(', ')}`);
+      narration = null;
+    }
+  }
 
-    if (validValues.has(n) || validValues.has(n.replace(',', '.'))) {
-      matched++;
-      continue;
+  const sections = [narration || templateNarration(query, result)];
+  if (result.matched > 0) {
+    sections.push(`**Resultado** — ${describeQuery(query)}\n\n${resultTableMarkdown(result)}`);
+    if (result.truncated) sections.push(`_Mostrando os ${result.rows.length} primeiros grupos._`);
+    if (result.dropped_units.length > 0) {
+      sections.push(`_Fora do cálculo por estarem em outra unidade: ${result.dropped_units.map(d => `${d.n} medição(ões) em ${d.unit}`).join(', ')}._`);
     }
-    let grounded = false;
-    for (const v of validValues) {
-      const vn = parseFloat(v.replace(',', '.'));
-      if (!isNaN(vn) && Math.abs(vn - num) <= 0.5) { grounded = true; break; }
+    if (result.summarized > 0) {
+      sections.push(`_${result.summarized} medição(ões) reportada(s) como média ± DP (n) entram como n corpos de prova: média e DP são os valores agrupados e N conta corpos de prova._`);
     }
-    if (grounded) { matched++; continue; }
-    const idx = responseText.indexOf(n);
-    const ctx = idx >= 0 ? responseText.substring(Math.max(0, idx - 15), idx + n.length + 15) : '';
-    ungrounded.push({ number: n, context: ctx });
   }
+  sections.push(`**Consulta executada** (${QUERY_DSL_VERSION}, restrita aos projetos a que você tem acesso)\n\n\`\`\`json\n${JSON.stringify(query, null, 2)}\n\`\`\``);
 
-  const unmatchedCount = ungrounded.length;
-  if (unmatchedCount > 2) {
-    issues.push(`NUMERIC_GROUNDING_FAILED_TABULAR: ${unmatchedCount} numbers not found in evidence table: ${ungrounded.slice(0, 5).map(u => u.number).join(', ')}`);
-  }
+  const byId = new Map(rows.map(r => [r.id, r]));
+  const sources = result.measurement_ids.slice(0, MAX_QUERY_SOURCES).map((id, idx) => {
+    const r = byId.get(id)!;
+    return {
+      citation: `Q${idx + 1}`, type: 'measurement', id,
+      title: `${r.file || r.experiment}${r.sheet ? ` — ${r.sheet}` : ''}${r.row !== null ? ` Row ${r.row}` : ''}`,
+      project: r.project, excerpt: `${r.metric} = ${formatValue(r.value)} ${r.unit}`,
+    };
+  });
 
   return {
-    verified: issues.length === 0,
-    issues,
-    numbers_extracted: numbersExtracted,
-    matched,
-    unmatched: unmatchedCount,
-    issue_types: unmatchedCount > 2 ? ['missing_measurement'] : [],
-    unmatched_examples: ungrounded.slice(0, 5),
+    response: sections.join('\n\n'),
+    sources,
+    query,
+    result,
+    log: {
+      dsl_version: QUERY_DSL_VERSION, query, errors: translation.errors, not_applicable: false,
+      translation_latency_ms: translation.latency_ms,
+      scanned: result.scanned, matched: result.matched, summarized: result.summarized,
+      dropped_units: result.dropped_units,
+      narration: result.matched === 0 ? null : narration ? 'model' : 'template',
+      ungrounded_numbers: ungrounded,
+    },
   };
 }
 
+// ==========================================
+// METRIC DIRECTION (higher/lower is better)
+// ==========================================
+type MetricDirection = 'maximize' | 'minimize' | 'target';
+
+// best/worst respect the metric direction; highest/lowest are raw value order
+type RankingSense = 'best' | 'worst' | 'highest' | 'lowest';
+
+interface MetricDirectionInfo {
+  direction: MetricDirection;
+  target_min: number | null;
+  target_max: number | null;
+}
+
+function directionFromRow(row: any): MetricDirectionInfo {
+  const direction: MetricDirection = row?.direction === 'minimize' || row?.direction === 'target' ? row.direction : 'maximize';
+  return { direction, target_min: row?.target_min ?? null, target_max: row?.target_max ?? null };
+}
+
+function describeDirection(info: MetricDirectionInfo): string {
+  if (info.direction === 'minimize') return '↓ menor é melhor';
+  if (info.direction === 'target') return `◎ alvo ${info.target_min ?? '−∞'}–${info.target_max ?? '∞'}`;
+  return '↑ maior é melhor';
+}
+
+function detectRankingSense(q: string): RankingSense {
+  if (/\bpior(es)?\b|\bworst\b/.test(q)) return 'worst';
+  if (/\bmelhor(es)?\b|\bbest\b|recorde|\brecord\b|supera|outperform|leader/.test(q)) return 'best';
+  if (/\bmenor(es)?\b|m[ií]nim[oa]|\blowest\b/.test(q)) return 'lowest';
+  if (/\bmaior(es)?\b|m[aá]xim[oa]|mais alto|\bhighest\b/.test(q)) return 'highest';
+  return 'best';
+}
+
+// current_best only holds the direction-aware winner; other senses (pior, maior/menor
+// bruto) come from public.ranked_measurements, which ranks every measurement in SQL
+// and returns one row per (project, metric, unit) in the current_best shape.
+async function fetchRankedMeasurements(
+  supabase: any, projectIds: string[], targetMetrics: string[], sense: RankingSense,
+): Promise<any[]> {
+  const { data, error } = await supabase.rpc('ranked_measurements', {
+    p_project_ids: projectIds,
+    p_sense: sense,
+    p_metric_patterns: targetMetrics,
+  });
+  if (error) {
+    console.warn('ranked_measurements failed:', error.message);
+    return [];
+  }
+  return data || [];
+}
+
 // ==========================================
 // COMPARATIVE QUERY DETECTOR (heuristic, no LLM)
 // ==========================================
-function detectComparativeIntent(query: string): { isComparative: boolean; targetMetrics: string[] } {
+function detectComparativeIntent(query: string): { isComparative: boolean; targetMetrics: string[]; rankingSense: RankingSense } {
   const q = query.toLowerCase();
 
   // Comparative mode is ONLY for pure ranking queries ("qual é o maior/melhor")
@@ -872,10 +1071,13 @@ function detectComparativeIntent(query: string): { isComparative: boolean; targe
     'qual é o mais alto', 'qual o mais alto', 'recorde', 'ranking',
     'classificação', 'top resultado', 'qual superou', 'qual supera',
     'melhor resultado', 'maior valor', 'valor máximo',
+    'qual é o pior', 'qual o pior', 'pior resultado',
+    'qual é o menor', 'qual o menor', 'menor valor', 'valor mínimo',
     // English - pure ranking
     'what is the best', 'what is the highest', 'which is the best',
     'which has the highest', 'current best', 'top result', 'record',
     'ranking', 'leader', 'which outperforms',
+    'what is the worst', 'which is the worst', 'what is the lowest', 'which has the lowest',
   ];
 
   // Blockers: if these are present, it's NOT a pure ranking query
@@ -905,6 +1107,9 @@ function detectComparativeIntent(query: string): { isComparative: boolean; targe
     'flexural_strength': ['resistência flexural', 'flexural', 'rf ', 'mpa', 'resistência à flexão'],
     'hardness': ['dureza', 'vickers', 'knoop', 'hardness', 'hv ', 'khn'],
     'water_sorption': ['sorção', 'absorção', 'water sorption', 'sorption'],
+    'solubility': ['solubilidade', 'solubility'],
+    'surface_roughness': ['rugosidade', 'roughness'],
+    'polymerization_shrinkage': ['contração', 'shrinkage', 'encolhimento'],
     'degree_of_conversion': ['grau de conversão', 'degree of conversion', 'dc ', 'conversão'],
     'elastic_modulus': ['módulo', 'elasticidade', 'elastic modulus', 'young'],
     'delta_e': ['delta e', 'cor', 'color', 'colorimetry', 'estabilidade de cor'],
@@ -919,7 +1124,7 @@ function detectComparativeIntent(query: string): { isComparative: boolean; targe
     }
   }
 
-  return { isComparative, targetMetrics };
+  return { isComparative, targetMetrics, rankingSense: detectRankingSense(q) };
 }
 
 
@@ -979,17 +1184,9 @@ INSTRUÇÃO: Você tem acesso igualitário a TODOS os projetos.
 // ==========================================
 // EMBEDDING
 // ==========================================
-async function generateQueryEmbedding(text: string, apiKey: string): Promise<string | null> {
-  try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/embeddings", {
-      method: "POST",
-      headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-      body: JSON.stringify({ model: "text-embedding-3-small", input: text.substring(0, 8000) }),
-    });
-    if (!response.ok) return null;
-    const data = await response.json();
-    return data.data?.[0]?.embedding ? JSON.stringify(data.data[0].embedding) : null;
-  } catch { return null; }
+async function generateQueryEmbedding(text: string, ai: AiProvider): Promise<string | null> {
+  const embedding = await ai.embed(text.substring(0, 8000));
+  return embedding ? JSON.stringify(embedding) : null;
 }
 
 // ==========================================
@@ -1034,6 +1231,7 @@ async function fetchMetricSummaries(supabase: any, projectIds: string[], query:
   if (relevant.length === 0) return '';
 
   let text = '\n\n=== RESUMOS ESTATÍSTICOS DE MÉTRICAS ===\n\n';
+  // N counts specimens: replicate groups are pooled (mean weighted by n, SD within + between groups)
   text += '| Experimento | Métrica | N | Min | Max | Média | Mediana | DP | Unidade | Confiança |\n';
   text += '|-------------|---------|---|-----|-----|-------|---------|----|---------|-----------|\n';
   for (const s of relevant.slice(0, 30)) {
@@ -1062,6 +1260,12 @@ async function fetchMetricSummaries(supabase: any, projectIds: string[], query:
   return text;
 }
 
+// "± 4.2 (n=10)" after a mean, so the model never reads a replicate mean as a single specimen
+function replicateNote(m: { n: number | null; sd: number | null }): string {
+  if (m.sd == null && !m.n) return '';
+  return `${m.sd != null ? ` ± ${m.sd}` : ''}${m.n ? ` (n=${m.n})` : ''}`;
+}
+
 // ==========================================
 // FETCH EXPERIMENT CONTEXT (enriched)
 // ==========================================
@@ -1082,7 +1286,7 @@ async function fetchExperimentContext(
 
   const expIds = experiments.map((e: any) => e.id);
   const [{ data: measurements }, { data: conditions }] = await Promise.all([
-    supabase.from('measurements').select('experiment_id, metric, raw_metric_name, value, unit, method, confidence, source_excerpt, value_canonical, unit_canonical').in('experiment_id', expIds),
+    supabase.from('measurements').select('experiment_id, metric, raw_metric_name, value, unit, method, confidence, source_excerpt, value_canonical, unit_canonical, n, sd').in('experiment_id', expIds),
     supabase.from('experiment_conditions').select('experiment_id, key, value').in('experiment_id', expIds),
   ]);
 
@@ -1125,7 +1329,7 @@ async function fetchExperimentContext(
     if (exp.measurements.length > 0) {
       contextText += '   Medições:\n';
       for (const m of exp.measurements) {
-        contextText += `   - ${m.metric}: ${m.value} ${m.unit} (${m.method || '-'}, conf: ${m.confidence})\n`;
+        contextText += `   - ${m.metric}: ${m.value} ${m.unit}${replicateNote(m)} (${m.method || '-'}, conf: ${m.confidence})\n`;
       }
     }
     contextText += '\n';
@@ -1141,7 +1345,7 @@ async function fetchExperimentContext(
   const measRows = relevant.flatMap((exp: any) => 
     exp.measurements.map((m: any) => ({
       experiment: exp.title, condition: exp.conditions.map((c: any) => `${c.key}=${c.value}`).join('; ') || '-',
-      metric: m.raw_metric_name || m.metric, result: `${m.value} ${m.unit}`, source: exp.project_files?.name || 'N/A',
+      metric: m.raw_metric_name || m.metric, result: `${m.value} ${m.unit}${replicateNote(m)}`, source: exp.project_files?.name || 'N/A',
     }))
   );
 
@@ -1306,6 +1510,71 @@ async function fetchKnowledgePivots(supabase: any, projectIds: string[], query:
   return text;
 }
 
+// ==========================================
+// FETCH FORMULATIONS matching a composition filter
+// ("quais formulações têm >60 wt% de carga e UDMA?")
+// ==========================================
+async function fetchFormulationContext(supabase: any, projectIds: string[], query: string): Promise<string> {
+  const filter = parseFormulationQuery(query);
+  if (!filter) return '';
+
+  const { data: rows } = await supabase
+    .from('formulations')
+    .select('id, project_id, code, name, version, aliases, parent_id, formulation_components(role, name, amount, amount_unit, position)')
+    .in('project_id', projectIds)
+    .is('deleted_at', null)
+    .limit(500);
+  if (!rows || rows.length === 0) return '';
+
+  // Only the latest version of each code answers "which formulations..."
+  const latest = new Map<string, any>();
+  for (const r of rows) {
+    const key = `${r.project_id}:${r.code.toLowerCase()}`;
+    if (!latest.has(key) || r.version > latest.get(key).version) latest.set(key, r);
+  }
+
+  const matches: { record: FormulationRecord; summary: ReturnType<typeof summarizeComposition> }[] = [];
+  for (const r of latest.values()) {
+    const components = [...(r.formulation_components || [])]
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((c: any) => ({ role: c.role, name: c.name, amount: c.amount === null ? null : Number(c.amount), amount_unit: c.amount_unit }));
+    const summary = summarizeComposition(components);
+    if (matchesFormulationFilter(summary, filter)) {
+      matches.push({ record: { id: r.id, code: r.code, name: r.name, version: r.version, aliases: r.aliases || [], components }, summary });
+    }
+  }
+
+  let text = `\n\n=== FORMULAÇÕES REGISTRADAS (filtro: ${describeFormulationFilter(filter)}) ===\n`;
+  text += `${matches.length} de ${latest.size} formulações atendem ao filtro (última versão de cada código).\n\n`;
+  if (matches.length === 0) return text;
+
+  const ids = matches.map(m => m.record.id);
+  const [{ data: linkedExperiments }, { data: linkedMeasurements }] = await Promise.all([
+    supabase.from('experiments').select('id, title, formulation_id').in('formulation_id', ids).is('deleted_at', null).limit(200),
+    supabase.from('measurements').select('formulation_id, experiments!inner(id, title, deleted_at)').in('formulation_id', ids).is('experiments.deleted_at', null).limit(1000),
+  ]);
+  const experimentsByFormulation = new Map<string, Set<string>>();
+  const addExperiment = (formulationId: string, title: string) => {
+    if (!experimentsByFormulation.has(formulationId)) experimentsByFormulation.set(formulationId, new Set());
+    experimentsByFormulation.get(formulationId)!.add(title);
+  };
+  for (const e of linkedExperiments || []) addExperiment(e.formulation_id, e.title);
+  for (const m of linkedMeasurements || []) addExperiment(m.formulation_id, m.experiments.title);
+
+  for (const { record, summary } of matches.slice(0, 20)) {
+    text += `🧪 ${record.code} v${record.version} — ${record.name}\n`;
+    text += `   ${describeComposition(record.components)}\n`;
+    if (summary.filler_wt !== null || summary.filler_vol !== null) {
+      text += `   Carga total: ${[summary.filler_wt !== null ? `${summary.filler_wt} wt%` : '', summary.filler_vol !== null ? `${summary.filler_vol} vol%` : ''].filter(Boolean).join(' / ')}\n`;
+    }
+    if (summary.resin_ratio) text += `   Matriz: ${summary.resin_ratio}\n`;
+    const experiments = [...(experimentsByFormulation.get(record.id) || [])];
+    if (experiments.length > 0) text += `   Experimentos: ${experiments.slice(0, 5).join('; ')}\n`;
+    text += '\n';
+  }
+  return text;
+}
+
 // ==========================================
 // FETCH DOCUMENT STRUCTURE for deep read
 // ==========================================
@@ -1363,8 +1632,8 @@ async function performDeepRead(supabase: any, fileIds: string[], query: string):
 // ==========================================
 async function searchChunks(
   supabase: any, query: string, targetProjectIds: string[],
-  allowedProjectIds: string[], apiKey: string, chunkIds?: string[]
-): Promise<ChunkSource[]> {
+  allowedProjectIds: string[], ai: AiProvider, queryEmbedding: string | null, chunkIds?: string[]
+): Promise<{ chunks: ChunkSource[]; rerank: RerankStageLog[] }> {
   let chunks: ChunkSource[] = [];
 
   if (chunkIds && chunkIds.length > 0) {
@@ -1380,7 +1649,6 @@ async function searchChunks(
       score_boosted: 1.0,
     }));
   } else {
-    const queryEmbedding = await generateQueryEmbedding(query, apiKey);
     if (queryEmbedding) {
       try {
         // For project mode, search ALL allowed projects but fetch more results for reranking
@@ -1448,7 +1716,19 @@ async function searchChunks(
       }
     }
   }
-  return chunks;
+
+  // Explicitly requested chunks keep their order
+  if (chunkIds && chunkIds.length > 0) return { chunks, rerank: [] };
+
+  const reranked = await rerank(
+    query,
+    chunks.map(c => ({ id: c.id, text: c.chunk_text, score: c.score_boosted ?? 1.0, chunk: c })),
+    createRerankers(parseRerankStages(Deno.env.get("RERANK_STAGES")), ai)
+  );
+  return {
+    chunks: reranked.items.map(r => ({ ...r.chunk, score_original: r.chunk.score_boosted, score_boosted: r.score })),
+    rerank: reranked.log,
+  };
 }
 
 // ==========================================
@@ -1456,7 +1736,7 @@ async function searchChunks(
 // ==========================================
 async function generateEvidencePlan(
   query: string, chunks: ChunkSource[], experimentContext: string,
-  metricSummaries: string, knowledgePivots: string, apiKey: string,
+  metricSummaries: string, knowledgePivots: string, ai: AiProvider,
   contextMode: ContextMode, projectName?: string
 ): Promise<{ plan: string; needsDeepRead: boolean; deepReadFileIds: string[] }> {
   const chunkSummary = chunks.slice(0, 5).map((c, i) => 
@@ -1507,19 +1787,14 @@ REGRA: Marque needs_deep_read=true se:
 IDs dos arquivos disponíveis: ${fileIds.join(', ')}`;
 
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash-lite", messages: [{ role: "user", content: planPrompt }],
-        temperature: 0.1, max_tokens: 1000,
-      }),
+    const completion = await ai.chat({
+      model: ai.model('fast'), messages: [{ role: "user", content: planPrompt }],
+      temperature: 0.1, max_tokens: 1000,
     });
 
-    if (!response.ok) return { plan: '', needsDeepRead: false, deepReadFileIds: [] };
+    if (!completion.ok) return { plan: '', needsDeepRead: false, deepReadFileIds: [] };
 
-    const data = await response.json();
-    let raw = data.choices?.[0]?.message?.content || '{}';
+    let raw = completion.content || '{}';
     raw = raw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
     
     try {
@@ -1552,9 +1827,11 @@ async function generateSynthesis(
   query: string, chunks: ChunkSource[], experimentContextText: string,
   metricSummaries: string, knowledgePivots: string, preBuiltEvidenceTable: string,
   evidencePlan: string, deepReadContent: string, docStructure: string,
-  apiKey: string, contextMode: ContextMode, projectName?: string,
+  ai: AiProvider, contextMode: ContextMode, projectName?: string,
   conversationHistory?: { role: string; content: string }[],
   modelOverride?: string,
+  stream?: RagStream,
+  usage?: TokenUsage,
 ): Promise<{ response: string }> {
   const formattedChunks = chunks
     .map((chunk, index) => `[${index + 1}] Fonte: ${chunk.source_type} - "${chunk.source_title}" | Projeto: ${chunk.project_name}\n${chunk.chunk_text}`)
@@ -1614,7 +1891,7 @@ ${evidenceSection}
 ## 6. Fontes
 [Lista numerada: arquivo + página/planilha + experimento]`;
 
-  const messages: { role: string; content: string }[] = [{ role: "system", content: systemPrompt }];
+  const messages: ChatMessage[] = [{ role: "system", content: systemPrompt }];
   if (conversationHistory && conversationHistory.length > 0) {
     for (const msg of conversationHistory.slice(-6)) {
       if (msg.role === "user" || msg.role === "assistant") messages.push({ role: msg.role, content: msg.content });
@@ -1622,34 +1899,78 @@ ${evidenceSection}
   }
   messages.push({ role: "user", content: userPrompt });
 
-  const synthesisModel = modelOverride || MODEL_TIERS.standard;
+  const synthesisModel = modelOverride || ai.model('standard');
   console.log(`Synthesis model: ${synthesisModel}`);
 
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify({ model: synthesisModel, messages, temperature: 0.3, max_tokens: 5000 }),
-  });
+  const completion = await chatCompletion(ai, { model: synthesisModel, messages, temperature: 0.3, max_tokens: 5000 }, stream, usage);
 
-  if (!response.ok) {
-    if (response.status === 429) throw new Error("Rate limit exceeded.");
-    if (response.status === 402) throw new Error("AI credits exhausted.");
-    throw new Error(`AI Gateway error: ${response.status}`);
+  if (!completion.ok) {
+    if (completion.status === 429) throw new Error("Rate limit exceeded.");
+    if (completion.status === 402) throw new Error("AI credits exhausted.");
+    throw new Error(`AI Gateway error: ${completion.status}`);
   }
 
-  const data = await response.json();
-  return { response: data.choices?.[0]?.message?.content || "Erro ao gerar resposta." };
+  return { response: completion.content || "Erro ao gerar resposta." };
 }
 
 // ==========================================
 // COMPARATIVE MODE: deterministic retrieval
 // ==========================================
+// ==========================================
+// Significance tests for comparative answers: replicates per experiment
+// ==========================================
+function formatP(p: number): string {
+  return p < 0.001 ? 'p<0,001' : `p=${p.toFixed(3).replace('.', ',')}`;
+}
+
+async function fetchSignificanceContext(
+  supabase: any, projectIds: string[], metricKeys: string[], experimentIds?: string[],
+): Promise<string> {
+  // Derived Weibull metrics hold one value per experiment: nothing to test
+  const metrics = [...new Set(metricKeys.filter(k => k && !isWeibullDerivedMetric(k)))].slice(0, 3);
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    try {
+      const loaded = await loadMeasurementGroups(supabase, { projectIds, metric, groupBy: 'experiment', experimentIds });
+      if (loaded.groups.length < 2) continue;
+      const cmp = compareGroups(loaded.groups);
+      const header = `- ${metric}${loaded.unit ? ` (${loaded.unit})` : ''}:`;
+      if (!cmp.welch && !cmp.anova) {
+        lines.push(`${header} réplicas insuficientes (n<2 por experimento) — diferenças NÃO podem ser testadas.`);
+        continue;
+      }
+      lines.push(`${header} ${cmp.groups.map(g => `${g.label}: ${g.mean.toFixed(2)} ± ${g.sd.toFixed(2)} (n=${g.n})`).join('; ')}`);
+      if (cmp.welch) {
+        const w = cmp.welch;
+        lines.push(`  Welch ${w.groups[0]} vs ${w.groups[1]}: Δ=${w.mean_diff.toFixed(2)} IC95% [${w.ci[0].toFixed(2)}; ${w.ci[1].toFixed(2)}], ${formatP(w.p_value)}, g=${w.hedges_g.toFixed(2)} → ${w.significant ? 'SIGNIFICATIVO' : 'NÃO significativo'}`);
+      }
+      if (cmp.anova) {
+        const a = cmp.anova;
+        lines.push(`  ANOVA F(${a.df_between},${a.df_within})=${a.f.toFixed(2)}, ${formatP(a.p_value)}, η²=${a.eta_squared.toFixed(2)} → ${a.significant ? 'SIGNIFICATIVO' : 'NÃO significativo'}`);
+        for (const t of a.tukey.slice(0, 10)) {
+          lines.push(`  Tukey ${t.groups[0]} vs ${t.groups[1]}: Δ=${t.mean_diff.toFixed(2)}, ${formatP(t.p_adj)} (ajustado) → ${t.significant ? 'SIGNIFICATIVO' : 'NÃO significativo'}`);
+        }
+      }
+      if (cmp.kruskal_wallis) {
+        lines.push(`  Kruskal-Wallis H=${cmp.kruskal_wallis.h.toFixed(2)}, ${formatP(cmp.kruskal_wallis.p_value)}`);
+      }
+      if (cmp.excluded.length > 0) lines.push(`  Sem réplicas (não testados): ${cmp.excluded.join(', ')}`);
+    } catch (e) {
+      console.warn(`Significance tests skipped for ${metric}:`, e);
+    }
+  }
+  return lines.length > 0 ? `TESTES ESTATÍSTICOS (α=0,05, réplicas agrupadas por experimento):\n${lines.join('\n')}` : '';
+}
+
 async function runComparativeMode(
   supabase: any, query: string, projectIds: string[], targetMetrics: string[],
-  apiKey: string, contextMode: ContextMode, projectName?: string,
+  ai: AiProvider, contextMode: ContextMode, projectName?: string, rankingSense: RankingSense = 'best',
+  stream?: RagStream, usage?: TokenUsage,
 ): Promise<string> {
-  const [{ data: bestMeasurements }, { data: allClaims }, { data: benchmarks }] = await Promise.all([
-    supabase.from('current_best').select('*').in('project_id', projectIds).limit(50),
+  const [bestMeasurements, { data: allClaims }, { data: benchmarks }] = await Promise.all([
+    rankingSense === 'best'
+      ? supabase.from('current_best').select('*').in('project_id', projectIds).limit(50).then((r: any) => r.data)
+      : fetchRankedMeasurements(supabase, projectIds, targetMetrics, rankingSense),
     supabase.from('claims').select('excerpt,claim_type,metric_key,evidence_date,status,superseded_at,superseded_reason').in('project_id', projectIds).order('evidence_date', { ascending: false }).limit(30),
     supabase.from('benchmarks').select('metric_key,material_label,baseline_value,baseline_unit,as_of_date,status,superseded_at,notes').in('project_id', projectIds).order('as_of_date', { ascending: false }).limit(20),
   ]);
@@ -1657,12 +1978,21 @@ async function runComparativeMode(
   const relevant = targetMetrics.length > 0
     ? bestMeasurements.filter((m: any) => targetMetrics.some(t => m.metric_key?.includes(t)))
     : bestMeasurements;
-  let table = '| # | Experimento | Métrica | Valor | Unidade | Data Evidência |\n|---|------------|---------|-------|---------|---------------|\n';
+  let table = '| # | Experimento | Métrica | Valor | Unidade | Critério | Data Evidência |\n|---|------------|---------|-------|---------|----------|---------------|\n';
   for (let i = 0; i < Math.min(relevant.length, 20); i++) {
     const m = relevant[i];
     const dt = m.evidence_date ? new Date(m.evidence_date).toISOString().split('T')[0] : 'desconhecida';
-    table += `| ${i+1} | ${m.experiment_title || 'N/A'} | ${m.raw_metric_name || m.metric_key} | **${m.value}** | ${m.unit} | ${dt} |\n`;
+    table += `| ${i+1} | ${m.experiment_title || 'N/A'} | ${m.raw_metric_name || m.metric_key} | **${m.value}** | ${m.unit} | ${describeDirection(directionFromRow(m))} | ${dt} |\n`;
   }
+  const significanceCtx = await fetchSignificanceContext(
+    supabase, projectIds, relevant.slice(0, 20).map((m: any) => m.metric_key),
+  );
+  const senseLabel: Record<RankingSense, string> = {
+    best: 'MELHOR resultado por métrica (segundo o Critério de cada métrica)',
+    worst: 'PIOR resultado por métrica (segundo o Critério de cada métrica)',
+    highest: 'MAIOR valor numérico por métrica (independe do Critério)',
+    lowest: 'MENOR valor numérico por métrica (independe do Critério)',
+  };
   let claimsCtx = '';
   if (allClaims) {
     const sup = allClaims.filter((c: any) => c.status === 'superseded');
@@ -1676,15 +2006,13 @@ async function runComparativeMode(
   }
   const sysPrompt = `Você responde queries COMPARATIVAS. Ground truth = tabela abaixo. Claims são histórico — NUNCA verdade atual.
 REGRAS: 1) Use só a tabela para afirmar superioridade. 2) Claims superadas: mencione que foram superadas. 3) Sem data = incerto.
-TABELA:\n${table}\nHISTÓRICO:\n${claimsCtx || 'Sem claims.'}`;
-  const resp = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify({ model: "google/gemini-3-flash-preview", messages: [{ role: "system", content: sysPrompt }, { role: "user", content: `QUERY: ${query}\n\nResponda com: Estado Atual (da tabela), Tabela Comparativa, Evolução Temporal (claims históricas), Ressalvas.` }], temperature: 0.1, max_tokens: 3000 }),
-  });
-  if (!resp.ok) return '';
-  const d = await resp.json();
-  const text = d.choices?.[0]?.message?.content || '';
+4) Respeite a coluna Critério: em métricas "↓ menor é melhor" (ex.: sorção, solubilidade, rugosidade, contração, ΔE) o MENOR valor é o melhor — nunca chame de melhor um valor mais alto nelas. 5) Se a pergunta usar "maior"/"menor" numa métrica cujo Critério indique o contrário, explicite que maior/menor ≠ melhor.
+6) Se houver TESTES ESTATÍSTICOS, só afirme que um experimento é superior quando a diferença for SIGNIFICATIVA (p<0,05); caso contrário, diga que a diferença não é estatisticamente significativa e cite o p-valor.
+A TABELA LISTA: ${senseLabel[rankingSense]}.
+TABELA:\n${table}\n${significanceCtx ? `${significanceCtx}\n` : ''}HISTÓRICO:\n${claimsCtx || 'Sem claims.'}`;
+  const completion = await chatCompletion(ai, { model: ai.model('standard'), messages: [{ role: "system", content: sysPrompt }, { role: "user", content: `QUERY: ${query}\n\nResponda com: Estado Atual (da tabela), Tabela Comparativa, Evolução Temporal (claims históricas), Ressalvas.` }], temperature: 0.1, max_tokens: 3000 }, stream, usage);
+  if (!completion.ok) return '';
+  const text = completion.content;
   return text ? `[MODO COMPARATIVO DETERMINÍSTICO]\n\n${text}` : '';
 }
 
@@ -1833,6 +2161,9 @@ interface EvidenceVariant {
     unit: string;
     value_canonical: number | null;
     unit_canonical: string | null;
+    // Replicate group behind the value (mean ± SD of n specimens), when known
+    n: number | null;
+    sd: number | null;
     measurement_id: string;
     excerpt: string;
   }>;
@@ -1858,7 +2189,8 @@ interface EvidenceGraph {
 }
 
 async function buildEvidenceGraph(
-  supabase: any, projectIds: string[], query: string, insightSeeds: InsightSeed[], constraints?: QueryConstraints | null
+  supabase: any, projectIds: string[], query: string, insightSeeds: InsightSeed[], constraints?: QueryConstraints | null,
+  lexicon?: ConstraintLexicon,
 ): Promise<EvidenceGraph> {
   const diagnostics: string[] = [];
   const searchTerms = query.toLowerCase().split(/\s+/).filter((w: string) => w.length > 2).slice(0, 8);
@@ -1920,7 +2252,7 @@ async function buildEvidenceGraph(
   // 3) Fetch structured data
   const [{ data: experiments }, { data: measurements }, { data: conditions }] = await Promise.all([
     supabase.from('experiments').select('id, title, objective, hypothesis, expected_outcome, source_file_id, evidence_date').in('id', expIds),
-    supabase.from('measurements').select('id, experiment_id, metric, value, unit, value_canonical, unit_canonical, source_excerpt, raw_metric_name, method, confidence').in('experiment_id', expIds),
+    supabase.from('measurements').select('id, experiment_id, metric, value, unit, value_canonical, unit_canonical, n, sd, source_excerpt, raw_metric_name, method, confidence').in('experiment_id', expIds),
     supabase.from('experiment_conditions').select('experiment_id, key, value').in('experiment_id', expIds),
   ]);
 
@@ -1952,6 +2284,8 @@ async function buildEvidenceGraph(
         unit: m.unit,
         value_canonical: m.value_canonical,
         unit_canonical: m.unit_canonical,
+        n: m.n,
+        sd: m.sd,
         measurement_id: m.id,
         excerpt: m.source_excerpt,
       };
@@ -1974,17 +2308,12 @@ async function buildEvidenceGraph(
   // If no matches found, keep ALL experiments (let IDER + insights contextualize)
   let finalExpResults = expResults;
   if (constraints?.hasStrongConstraints) {
-    const addTermMap: Record<string, string[]> = {
-      silver_nanoparticles: ['silver', 'prata', 'agnp', 'nano prata', 'nanosilver', 'ag-np'],
-      bomar: ['bomar'],
-      tegdma: ['tegdma'],
-      udma: ['udma'],
-      bisgma: ['bisgma', 'bis-gma'],
-    };
-    const constraintTerms = [
-      ...constraints.materials,
-      ...constraints.additives.flatMap(a => addTermMap[a] || [a]),
-    ];
+    const constraintTerms = lexicon
+      ? [
+        ...constraints.materials.flatMap(m => lexiconSearchTerms(lexicon, 'material', m)),
+        ...constraints.additives.flatMap(a => lexiconSearchTerms(lexicon, 'additive', a)),
+      ]
+      : [...constraints.materials, ...constraints.additives];
     if (constraintTerms.length > 0) {
       const filtered = expResults.filter(exp => {
         const searchable = [
@@ -2124,7 +2453,8 @@ FORMATO:
 6) Fontes (lista de citations/excerpts usados)`;
 
 async function synthesizeIDER(
-  query: string, evidenceGraph: EvidenceGraph, deepReadPack: { doc_id: string; text: string }[], insightSeeds: InsightSeed[], apiKey: string, modelOverride?: string
+  query: string, evidenceGraph: EvidenceGraph, deepReadPack: { doc_id: string; text: string }[], insightSeeds: InsightSeed[], ai: AiProvider, modelOverride?: string,
+  stream?: RagStream, usage?: TokenUsage,
 ): Promise<{ response: string }> {
   const insightSeedsForPrompt = insightSeeds.slice(0, 10).map(s => ({
     title: s.title, content: s.content.substring(0, 200), verified: s.verified, category: s.category,
@@ -2140,26 +2470,21 @@ EVIDENCE_GRAPH_JSON: ${JSON.stringify(evidenceGraph, null, 2)}
 DEEP_READ_PACK: ${JSON.stringify(deepReadForPrompt, null, 2)}
 INSIGHT_SEEDS: ${JSON.stringify(insightSeedsForPrompt, null, 2)}`;
 
-  const iderModel = modelOverride || MODEL_TIERS.advanced; // IDER always defaults to advanced
+  const iderModel = modelOverride || ai.model('advanced'); // IDER always defaults to advanced
   console.log(`IDER synthesis model: ${iderModel}`);
 
-  const resp = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify({
-      model: iderModel,
-      messages: [
-        { role: "system", content: IDER_MODE_PROMPT },
-        { role: "user", content: userContent },
-      ],
-      temperature: 0.1,
-      max_tokens: 5000,
-    }),
-  });
+  const completion = await chatCompletion(ai, {
+    model: iderModel,
+    messages: [
+      { role: "system", content: IDER_MODE_PROMPT },
+      { role: "user", content: userContent },
+    ],
+    temperature: 0.1,
+    max_tokens: 5000,
+  }, stream, usage);
 
-  if (!resp.ok) throw new Error(`IDER synthesis error: ${resp.status}`);
-  const data = await resp.json();
-  return { response: data.choices?.[0]?.message?.content || 'Erro ao gerar síntese IDER.' };
+  if (!completion.ok) throw new Error(`IDER synthesis error: ${completion.status}`);
+  return { response: completion.content || 'Erro ao gerar síntese IDER.' };
 }
 
 // ==========================================
@@ -2171,7 +2496,7 @@ interface AuditIssue {
 }
 
 async function auditIDER(
-  responseText: string, evidenceGraph: EvidenceGraph, apiKey: string
+  responseText: string, evidenceGraph: EvidenceGraph, ai: AiProvider
 ): Promise<AuditIssue[]> {
   const auditPrompt = `Analise a resposta abaixo e identifique PROBLEMAS ESPECÍFICOS.
 Para cada problema, classifique como:
@@ -2191,20 +2516,15 @@ EVIDENCE_GRAPH (ground truth):
 ${JSON.stringify(evidenceGraph.experiments.slice(0, 5), null, 2).substring(0, 2000)}`;
 
   try {
-    const resp = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [{ role: "user", content: auditPrompt }],
-        temperature: 0.0,
-        max_tokens: 1000,
-      }),
+    const completion = await ai.chat({
+      model: ai.model('structured'),
+      messages: [{ role: "user", content: auditPrompt }],
+      temperature: 0.0,
+      max_tokens: 1000,
     });
 
-    if (!resp.ok) return [];
-    const data = await resp.json();
-    let raw = data.choices?.[0]?.message?.content || '[]';
+    if (!completion.ok) return [];
+    let raw = completion.content || '[]';
     raw = raw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
     const issues = JSON.parse(raw);
     return Array.isArray(issues) ? issues : [];
@@ -2213,77 +2533,8 @@ ${JSON.stringify(evidenceGraph.experiments.slice(0, 5), null, 2).substring(0, 20
   }
 }
 
-// ==========================================
-// IDER: Programmatic number verification
-// ==========================================
-function verifyIDERNumbers(
-  responseText: string, evidenceGraph: EvidenceGraph
-): DetailedVerification {
-  const validValues = new Set<string>();
-  for (const exp of evidenceGraph.experiments) {
-    for (const variant of exp.variants) {
-      for (const [, metric] of Object.entries(variant.metrics)) {
-        validValues.add(String(metric.value));
-        validValues.add(String(metric.value).replace('.', ','));
-        if (metric.value_canonical != null) {
-          validValues.add(String(metric.value_canonical));
-          validValues.add(String(metric.value_canonical).replace('.', ','));
-        }
-      }
-    }
-  }
-
-  // Extract only scientifically relevant numbers (unit-associated or decimals)
-  const scientificNumberPattern = /(\d+[.,]\d+)\s*(%|MPa|GPa|kPa|°C|℃|min|h|s|mm|cm|µm|nm|mW|mL|mg|µg|g\/|kg|ppm|ppb|N|J|Hz|kHz|MHz|mol|wt%|vol%|HV|KHN|mW\/cm²|µm²)/gi;
-  const decimalPattern = /(?<!\w)(\d+[.,]\d{1,})\b/g;
-  const scientificMatches = [...responseText.matchAll(scientificNumberPattern)].map(m => m[1]);
-  const decimalMatches = [...responseText.matchAll(decimalPattern)].map(m => m[1]);
-  const numbersInResponse = [...new Set([...scientificMatches, ...decimalMatches])];
-
-  const ungrounded: { number: string; context: string }[] = [];
-  let matched = 0;
-  let numbersExtracted = 0;
-
-  for (const n of numbersInResponse) {
-    const num = parseFloat(n.replace(',', '.'));
-    if (isNaN(num)) continue;
-    if (num <= 1 && Number.isInteger(num)) continue;
-    if (num > 1900 && num < 2100) continue;
-    numbersExtracted++;
-
-    if (validValues.has(n) || validValues.has(n.replace(',', '.'))) {
-      matched++;
-      continue;
-    }
-    let grounded = false;
-    for (const v of validValues) {
-      const vn = parseFloat(v.replace(',', '.'));
-      if (!isNaN(vn) && Math.abs(vn - num) <= 0.5) { grounded = true; break; }
-    }
-    if (grounded) { matched++; continue; }
-    const idx = responseText.indexOf(n);
-    const ctx = idx >= 0 ? responseText.substring(Math.max(0, idx - 15), idx + n.length + 15) : '';
-    ungrounded.push({ number: n, context: ctx });
-  }
-
-  const unmatchedCount = ungrounded.length;
-  const issues: string[] = [];
-  if (unmatchedCount > 0) {
-    issues.push(`NUMERIC_GROUNDING_FAILED_IDER: ${unmatchedCount} numbers not in evidence graph: ${ungrounded.slice(0, 5).map(u => u.number).join(', ')}`);
-  }
-  return {
-    verified: unmatchedCount === 0,
-    issues,
-    numbers_extracted: numbersExtracted,
-    matched,
-    unmatched: unmatchedCount,
-    issue_types: unmatchedCount > 0 ? ['not_in_evidence_graph'] : [],
-    unmatched_examples: ungrounded.slice(0, 5),
-  };
-}
-
 async function verifyResponse(
-  responseText: string, measurements: any[], apiKey: string
+  responseText: string, measurements: any[], ai: AiProvider
 ): Promise<DetailedVerification> {
   const emptyResult: DetailedVerification = { verified: true, issues: [], numbers_extracted: 0, matched: 0, unmatched: 0, issue_types: [], unmatched_examples: [] };
   if (!measurements || measurements.length === 0) return emptyResult;
@@ -2357,6 +2608,140 @@ interface QueryConstraints {
   hasStrongConstraints: boolean;
 }
 
+// ==========================================
+// CONSTRAINT LEXICON (DB-driven, loaded once per request)
+// Sources, in priority order: constraint_lexicon registry →
+// metrics_catalog.aliases → approved entity_aliases
+// ==========================================
+type LexiconEntityType = 'material' | 'additive' | 'property';
+
+interface LexiconEntry {
+  type: LexiconEntityType;
+  canonical: string;
+  label: string;
+  patterns: RegExp[];
+  searchTerms: string[];
+  strongAlone: boolean;
+  priority: number;
+}
+
+interface ConstraintLexicon {
+  entries: LexiconEntry[];
+  byKey: Map<string, LexiconEntry>;
+  sourceCounts: { registry: number; metrics_catalog: number; entity_aliases: number };
+}
+
+const LEXICON_MAX_SEARCH_TERMS = 12;
+
+function lexiconKey(type: LexiconEntityType, canonical: string): string {
+  return `${type}:${canonical}`;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Literal aliases only match as whole words so short aliases ("rf", "dc") don't fire inside other words
+function literalTermPattern(term: string): RegExp | null {
+  const t = normalizeText(term).trim();
+  if (t.length < 2) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(t)}(?![\\p{L}\\p{N}])`, 'u');
+}
+
+function compileLexiconPattern(source: string): RegExp | null {
+  try {
+    return new RegExp(source, 'i');
+  } catch {
+    console.warn(`Invalid constraint_lexicon pattern ignored: ${source}`);
+    return null;
+  }
+}
+
+async function loadConstraintLexicon(supabase: any): Promise<ConstraintLexicon> {
+  const [registryRes, catalogRes, aliasRes] = await Promise.all([
+    supabase.from('constraint_lexicon')
+      .select('entity_type, canonical_name, display_name, match_patterns, search_terms, strong_alone')
+      .eq('active', true),
+    supabase.from('metrics_catalog').select('canonical_name, display_name, aliases'),
+    supabase.from('entity_aliases')
+      .select('entity_type, canonical_name, alias')
+      .eq('approved', true)
+      .is('deleted_at', null)
+      .is('rejected_at', null)
+      .in('entity_type', ['material', 'additive', 'metric'])
+      .limit(2000),
+  ]);
+  if (registryRes.error) console.warn('constraint_lexicon load failed:', registryRes.error.message);
+  if (catalogRes.error) console.warn('metrics_catalog load failed:', catalogRes.error.message);
+  if (aliasRes.error) console.warn('entity_aliases load failed:', aliasRes.error.message);
+
+  const byKey = new Map<string, LexiconEntry>();
+  const getOrCreate = (type: LexiconEntityType, canonical: string, label: string, priority: number): LexiconEntry => {
+    const key = lexiconKey(type, canonical);
+    let entry = byKey.get(key);
+    if (!entry) {
+      entry = { type, canonical, label, patterns: [], searchTerms: [], strongAlone: false, priority };
+      byKey.set(key, entry);
+    }
+    return entry;
+  };
+  const addTerms = (entry: LexiconEntry, terms: string[]) => {
+    for (const raw of terms) {
+      const term = (raw || '').trim().toLowerCase();
+      if (!term) continue;
+      if (!entry.searchTerms.includes(term)) entry.searchTerms.push(term);
+      const re = literalTermPattern(term);
+      if (re) entry.patterns.push(re);
+    }
+  };
+
+  for (const row of (registryRes.data || [])) {
+    const entry = getOrCreate(row.entity_type, row.canonical_name, row.display_name || row.canonical_name, 0);
+    for (const src of (row.match_patterns || [])) {
+      const re = compileLexiconPattern(src);
+      if (re) entry.patterns.push(re);
+    }
+    for (const t of (row.search_terms || [])) {
+      const term = t.trim().toLowerCase();
+      if (term && !entry.searchTerms.includes(term)) entry.searchTerms.push(term);
+    }
+    entry.strongAlone = !!row.strong_alone;
+  }
+
+  for (const row of (catalogRes.data || [])) {
+    const entry = getOrCreate('property', row.canonical_name, row.display_name || row.canonical_name, 1);
+    addTerms(entry, [row.canonical_name, ...(row.aliases || [])]);
+  }
+
+  for (const row of (aliasRes.data || [])) {
+    const type: LexiconEntityType = row.entity_type === 'metric' ? 'property' : row.entity_type;
+    const entry = getOrCreate(type, row.canonical_name, row.canonical_name, 2);
+    addTerms(entry, [row.alias]);
+  }
+
+  for (const entry of byKey.values()) {
+    if (entry.searchTerms.length === 0) entry.searchTerms.push(entry.canonical);
+    entry.searchTerms = entry.searchTerms.slice(0, LEXICON_MAX_SEARCH_TERMS);
+  }
+
+  const entries = Array.from(byKey.values()).sort((a, b) => a.priority - b.priority);
+  const sourceCounts = {
+    registry: registryRes.data?.length || 0,
+    metrics_catalog: catalogRes.data?.length || 0,
+    entity_aliases: aliasRes.data?.length || 0,
+  };
+  console.log(`Constraint lexicon loaded: ${entries.length} entries (registry=${sourceCounts.registry}, catalog=${sourceCounts.metrics_catalog}, aliases=${sourceCounts.entity_aliases})`);
+  return { entries, byKey, sourceCounts };
+}
+
+function lexiconSearchTerms(lexicon: ConstraintLexicon, type: LexiconEntityType, canonical: string): string[] {
+  return lexicon.byKey.get(lexiconKey(type, canonical))?.searchTerms || [canonical];
+}
+
+function lexiconLabel(lexicon: ConstraintLexicon, type: LexiconEntityType, canonical: string): string {
+  return lexicon.byKey.get(lexiconKey(type, canonical))?.label || canonical;
+}
+
 /**
  * Detects if the numeric verification should be skipped based on query intent.
  * This prevents false-positives for navigational or meta-questions.
@@ -2392,70 +2777,75 @@ function shouldSkipNumericVerification(query: string): boolean {
   return false;
 }
 
-function extractConstraints(query: string): QueryConstraints {
-  const s = query.toLowerCase();
-
-  const materialDict: Record<string, RegExp> = {
-    vitality: /vitality/,
-    filtek: /filtek/,
-    charisma: /charisma/,
-    tetric: /tetric/,
-    grandio: /grandio/,
-    z350: /z\s*350/,
-    z250: /z\s*250/,
-    brilliant: /brilliant/,
-    herculite: /herculite/,
-    clearfil: /clearfil/,
-    estelite: /estelite/,
-    ips: /\bips\b/,
-    ceram: /\bceram/,
-  };
-
-  const additiveDict: Record<string, RegExp> = {
-    silver_nanoparticles: /prata|silver|\bag\b|nanopart[ií]culas?/,
-    silica_nanoparticle: /s[ií]lica\s*0[\.,]?4\s*n?m|sio2\s*0[\.,]?4|nano\s*s[ií]lica|nano\s*silica/,
-    carbon_nanotubes: /nanotubo|nanotube|cnt\b|mwcnt|swcnt/,
-    hydroxyapatite: /hidroxiapatita|hydroxyapatite|\bhap?\b/,
-    bomar: /bomar/,
-    tegdma: /tegdma/,
-    udma: /\budma\b/,
-    bisgma: /bis[\s-]?gma/,
-  };
-
-  const propertyDict: Record<string, RegExp> = {
-    flexural_strength: /resist[eê]ncia flexural|flexural strength|\brf\b/,
-    flexural_modulus: /m[oó]dulo flexural|flexural modulus|\bmf\b/,
-    hardness: /dureza|vickers|knoop|hardness|\bhv\b|\bkhn\b/,
-    water_sorption: /sor[cç][aã]o|sorption|absor[cç][aã]o de [aá]gua/,
-    color: /\bcor\b|color|yellowing|amarel|delta[\s_]?e|Δe/,
-    degree_of_conversion: /convers[aã]o|conversion|\bdc\b/,
-    elastic_modulus: /m[oó]dulo el[aá]stic|elastic modulus|young/,
-  };
-
-  const materials: string[] = [];
-  for (const [name, re] of Object.entries(materialDict)) {
-    if (re.test(s)) materials.push(name);
+// All (start, end) spans where any of the patterns match the text
+function matchSpans(text: string, patterns: RegExp[]): [number, number][] {
+  const spans: [number, number][] = [];
+  for (const re of patterns) {
+    const global = new RegExp(re.source, re.flags.includes('g') ? re.flags : re.flags + 'g');
+    for (const m of text.matchAll(global)) {
+      if (m[0].length > 0) spans.push([m.index!, m.index! + m[0].length]);
+    }
   }
+  return spans;
+}
 
-  const additives: string[] = [];
-  for (const [name, re] of Object.entries(additiveDict)) {
-    if (re.test(s)) additives.push(name);
+function extractConstraints(query: string, lexicon: ConstraintLexicon): QueryConstraints {
+  const s = normalizeText(query);
+
+  const found: Record<LexiconEntityType, string[]> = { material: [], additive: [], property: [] };
+  const claimedSpans: Record<LexiconEntityType, { start: number; end: number; priority: number }[]> = { material: [], additive: [], property: [] };
+  let hasStrongAlone = false;
+
+  // Entries are ordered by source priority; an entry whose match overlaps text already
+  // claimed by a higher-priority source (same type) is treated as a duplicate alias.
+  for (const entry of lexicon.entries) {
+    const hits = matchSpans(s, entry.patterns);
+    if (hits.length === 0) continue;
+    const spans = claimedSpans[entry.type];
+    const overlapsHigher = hits.some(([start, end]) =>
+      spans.some(sp => sp.priority < entry.priority && start < sp.end && sp.start < end));
+    if (overlapsHigher) continue;
+    for (const [start, end] of hits) spans.push({ start, end, priority: entry.priority });
+    found[entry.type].push(entry.canonical);
+    if (entry.strongAlone) hasStrongAlone = true;
   }
 
-  const properties: string[] = [];
-  for (const [name, re] of Object.entries(propertyDict)) {
-    if (re.test(s)) properties.push(name);
-  }
+  const materials = found.material;
+  const additives = found.additive;
+  const properties = found.property;
 
   // Strong constraints require at least 2 different non-empty constraint types
-  // OR: silver_nanoparticles alone is promoted to strong (prevents unguarded 3-step fallback)
+  // OR: an entry flagged strong_alone (e.g. silver_nanoparticles) is promoted to strong
+  // (prevents unguarded 3-step fallback)
   const nonEmptyCount = (materials.length > 0 ? 1 : 0) + (additives.length > 0 ? 1 : 0) + (properties.length > 0 ? 1 : 0);
-  const hasSilverAlone = additives.includes('silver_nanoparticles');
-  const hasStrongConstraints = nonEmptyCount >= 2 || hasSilverAlone;
+  const hasStrongConstraints = nonEmptyCount >= 2 || hasStrongAlone;
 
   return { materials, additives, properties, hasStrongConstraints };
 }
 
+// ==========================================
+// ANSWER CACHE
+// Finished answers are reused for the same or a near-identical question
+// while the data of every project in scope is unchanged
+// (_shared/answer-cache.ts). serve() stores the final payload of a miss.
+// ==========================================
+interface AnswerCacheLog {
+  hit: boolean;
+  cached_request_id: string | null;
+  similarity: number;
+  cached_at: string;
+  cached_query: string;
+}
+
+interface AnswerCacheSlot {
+  store?: (payload: Record<string, any>) => Promise<void>;
+}
+
+function answerCacheMinSimilarity(): number {
+  const configured = parseFloat(Deno.env.get('RAG_ANSWER_CACHE_MIN_SIMILARITY') || '');
+  return Number.isFinite(configured) ? configured : DEFAULT_MIN_SIMILARITY;
+}
+
 // ==========================================
 // UNIFIED DIAGNOSTICS BUILDER
 // ==========================================
@@ -2496,6 +2886,14 @@ function extractConstraints(query: string): QueryConstraints {
   manualKnowledgeHits?: number;
   manualKnowledgeAppliedAsSourceOfTruth?: number;
   manualKnowledgeOverrideConflicts?: string[];
+  // Second-stage reranking of retrieved chunks
+  rerankStages?: RerankStageLog[];
+  // Follow-up resolved against the conversation history
+  queryRewrite?: QueryRewrite | null;
+  // Aggregate question answered by a structured measurement query
+  structuredQuery?: StructuredQueryLog | null;
+  // Answer served from the persistent answer cache
+  answerCache?: AnswerCacheLog | null;
 }
 
 function buildDiagnostics(input: DiagnosticsInput): Record<string, any> {
@@ -2546,10 +2944,20 @@ function buildDiagnostics(input: DiagnosticsInput): Record<string, any> {
     manual_knowledge_hits: input.manualKnowledgeHits || 0,
     manual_knowledge_applied_as_source_of_truth: input.manualKnowledgeAppliedAsSourceOfTruth || 0,
     manual_knowledge_override_conflicts: input.manualKnowledgeOverrideConflicts || [],
+    rerank_stages: input.rerankStages || [],
+    query_rewrite: input.queryRewrite
+      ? {
+          original: input.queryRewrite.original, rewritten: input.queryRewrite.rewritten ? input.queryRewrite.query : null,
+          method: input.queryRewrite.method, reason: input.queryRewrite.reason,
+          latency_ms: input.queryRewrite.latency_ms, error: input.queryRewrite.error ?? null,
+        }
+      : null,
+    structured_query: input.structuredQuery ?? null,
+    answer_cache: input.answerCache ?? null,
   };
 }
 
-function makeDiagnosticsDefaults(requestId: string, latencyMs: number): DiagnosticsInput {
+function makeDiagnosticsDefaults(requestId: string, latencyMs: number, queryRewrite: QueryRewrite | null = null): DiagnosticsInput {
   return {
     requestId, pipeline: '', tabularIntent: false, iderIntent: false, comparativeIntent: false,
     constraints: null, constraintsKeywordsHit: [], constraintsScope: 'project',
@@ -2559,7 +2967,7 @@ function makeDiagnosticsDefaults(requestId: string, latencyMs: number): Diagnost
     insightSeedsCount: 0, experimentsCount: 0, variantsCount: 0, measurementsCount: 0,
     criticalDocs: [], chunksUsed: 0, auditIssues: [], verification: null,
     failClosedTriggered: false, failClosedReason: null, failClosedStage: null, latencyMs,
-    suggestedAliases: [], aliasLookupLatencyMs: 0,
+    suggestedAliases: [], aliasLookupLatencyMs: 0, queryRewrite,
   };
 }
 
@@ -2567,29 +2975,24 @@ function makeDiagnosticsDefaults(requestId: string, latencyMs: number): Diagnost
 // FAIL-CLOSED SUGGESTION GENERATOR
 // ==========================================
 function generateFailClosedSuggestions(
-  query: string, constraints: QueryConstraints, evidenceGraph?: EvidenceGraph
+  query: string, constraints: QueryConstraints, lexicon: ConstraintLexicon, evidenceGraph?: EvidenceGraph
 ): string {
   const suggestions: string[] = [];
   
   // Suggest metric-specific queries
   if (constraints.properties.length > 0) {
-    const propNames: Record<string, string> = {
-      color: 'cor (ΔE/yellowing)', flexural_strength: 'resistência flexural', hardness: 'dureza',
-      water_sorption: 'sorção de água', degree_of_conversion: 'grau de conversão',
-      elastic_modulus: 'módulo elástico', flexural_modulus: 'módulo flexural',
-    };
     for (const p of constraints.properties.slice(0, 2)) {
-      const name = propNames[p] || p;
+      const name = lexiconLabel(lexicon, 'property', p);
       suggestions.push(`- "Liste todas as medições de ${name} do projeto."`);
     }
   }
   
   // Suggest material/additive-specific queries
   if (constraints.materials.length > 0 || constraints.additives.length > 0) {
-    const terms = [...constraints.materials, ...constraints.additives.map(a => {
-      const nameMap: Record<string, string> = { silver_nanoparticles: 'Ag/prata/silver', bomar: 'BOMAR', tegdma: 'TEGDMA', udma: 'UDMA', bisgma: 'BisGMA' };
-      return nameMap[a] || a;
-    })];
+    const terms = [
+      ...constraints.materials.map(m => lexiconLabel(lexicon, 'material', m)),
+      ...constraints.additives.map(a => lexiconLabel(lexicon, 'additive', a)),
+    ];
     suggestions.push(`- "Mostre experimentos que mencionem ${terms.join(' ou ')}."`);
   }
   
@@ -2619,8 +3022,8 @@ function normalizeText(s: string): string {
 }
 
 async function quickEvidenceCheck(
-  supabase: any, projectIds: string[], constraints: QueryConstraints,
-  apiKey?: string, projectId?: string
+  supabase: any, projectIds: string[], constraints: QueryConstraints, lexicon: ConstraintLexicon,
+  ai?: AiProvider, projectId?: string
 ): Promise<GateResult> {
   const missing: string[] = [];
   const matched: GateMatch[] = [];
@@ -2738,11 +3141,11 @@ async function quickEvidenceCheck(
   async function tryAliasFallback(
     term: string, entityType: string
   ): Promise<{ found: boolean; matches: GateMatch[]; provisional: boolean; reason?: string }> {
-    if (!apiKey || !projectId || unknownTermCount >= MAX_UNKNOWN_TERMS_PER_QUERY) {
+    if (!ai || !projectId || unknownTermCount >= MAX_UNKNOWN_TERMS_PER_QUERY) {
       return { found: false, matches: [], provisional: false, reason: 'alias_lookup_unavailable' };
     }
     unknownTermCount++;
-    const alias = await suggestAlias(supabase, term, entityType, projectId, apiKey);
+    const alias = await suggestAlias(supabase, term, entityType, projectId, ai);
     if (!alias) return { found: false, matches: [], provisional: false, reason: 'no_alias_found' };
     suggestedAliases.push(alias);
 
@@ -2798,34 +3201,17 @@ async function quickEvidenceCheck(
   // === STRONG CONSTRAINTS: individual EXISTS checks (no co-occurrence at gate level) ===
   // Co-occurrence is delegated to the pipeline (IDER/comparative) which has full context.
   if (constraints.hasStrongConstraints) {
-    const additiveTermMap: Record<string, string[]> = {
-      silver_nanoparticles: ['silver', 'prata', 'agnp', 'nano prata', 'nanosilver', 'ag-np'],
-      silica_nanoparticle: ['silica 0.4', 'silica 0,4', 'sílica 0.4', 'sio2 0.4', 'nano silica', 'nano sílica', 'silica 0.4nm'],
-      bomar: ['bomar'],
-      tegdma: ['tegdma'],
-      udma: ['udma'],
-      bisgma: ['bisgma', 'bis-gma'],
-    };
-    const propTermMap: Record<string, string[]> = {
-      color: ['color', 'yellowing', 'delta_e', 'cor', 'amarel', 'e_reference', 'e_05_uv', 'e_15_hals', 'e_30_hals', 'erro_relativo_estimado_nos_valores_de_cor'],
-      flexural_strength: ['flexural_strength', 'flexural strength', 'resistencia flexural', 'resistncia_flexural', 'resistncia_flexural_rf', 'resistncia_flexural_com_carga', 'resistncia_flexural_resina_base', 'flexural_strength_control', 'flexural_strength_ct_0', 'flexural_strength_tp_45', 'flexural_strength_and', 'rf'],
-      hardness: ['hardness', 'dureza', 'vickers'],
-      water_sorption: ['water_sorption', 'sorption', 'sorção'],
-      degree_of_conversion: ['degree_of_conversion', 'conversão', 'conversion'],
-      elastic_modulus: ['elastic_modulus', 'módulo elástico', 'elastic modulus'],
-      flexural_modulus: ['flexural_modulus', 'flexural modulus', 'modulo flexural', 'mdulo_flexural', 'mdulo_flexural_mf', 'mdulo_de_flexo', 'mf'],
-    };
-
     let materialFound = false;
     let additiveFound = false;
     let propertyFound = false;
 
     const strongChecks: Promise<void>[] = [];
 
-    // Check materials exist individually (hardcoded → alias fallback)
+    // Check materials exist individually (lexicon terms → alias fallback)
     for (const mat of constraints.materials) {
+      const terms = lexiconSearchTerms(lexicon, 'material', mat);
       strongChecks.push((async () => {
-        const found = await existsInProject([mat]);
+        const found = await existsInProject(terms);
         if (found.length > 0) {
           materialFound = true;
           matched.push(...found);
@@ -2842,9 +3228,9 @@ async function quickEvidenceCheck(
       })());
     }
 
-    // Check additives exist individually (hardcoded → alias fallback)
+    // Check additives exist individually (lexicon terms → alias fallback)
     for (const add of constraints.additives) {
-      const terms = additiveTermMap[add] || [add];
+      const terms = lexiconSearchTerms(lexicon, 'additive', add);
       strongChecks.push((async () => {
         const found = await existsInProject(terms);
         if (found.length > 0) {
@@ -2863,9 +3249,9 @@ async function quickEvidenceCheck(
       })());
     }
 
-    // Check properties exist individually (hardcoded → alias fallback)
+    // Check properties exist individually (lexicon terms → alias fallback)
     for (const prop of constraints.properties) {
-      const terms = propTermMap[prop] || [prop];
+      const terms = lexiconSearchTerms(lexicon, 'property', prop);
       strongChecks.push((async () => {
         // Try measurements first (scoped to project experiments)
         if (expIds.length > 0) {
@@ -2928,8 +3314,9 @@ async function quickEvidenceCheck(
   const checkPromises: Promise<void>[] = [];
 
   for (const mat of constraints.materials) {
+    const terms = lexiconSearchTerms(lexicon, 'material', mat);
     checkPromises.push((async () => {
-      const foundMatches = await existsInProject([mat]);
+      const foundMatches = await existsInProject(terms);
       if (foundMatches.length === 0) {
         const aliasResult = await tryAliasFallback(mat, 'material');
         if (aliasResult.found) {
@@ -2944,15 +3331,7 @@ async function quickEvidenceCheck(
   }
 
   for (const add of constraints.additives) {
-    const termMap: Record<string, string[]> = {
-      silver_nanoparticles: ['silver', 'prata', 'agnp', 'nano prata', 'nanosilver', 'ag-np'],
-      silica_nanoparticle: ['silica 0.4', 'silica 0,4', 'sílica 0.4', 'sio2 0.4', 'nano silica', 'nano sílica', 'silica 0.4nm'],
-      bomar: ['bomar'],
-      tegdma: ['tegdma'],
-      udma: ['udma'],
-      bisgma: ['bisgma', 'bis-gma'],
-    };
-    const terms = termMap[add] || [add];
+    const terms = lexiconSearchTerms(lexicon, 'additive', add);
     checkPromises.push((async () => {
       const foundMatches = await existsInProject(terms);
       if (foundMatches.length === 0) {
@@ -2969,16 +3348,7 @@ async function quickEvidenceCheck(
   }
 
   for (const prop of constraints.properties) {
-    const propTermMap: Record<string, string[]> = {
-      color: ['color', 'yellowing', 'delta_e', 'whiteness', 'amarel', 'cor', 'e_reference', 'e_05_uv', 'e_15_hals', 'e_30_hals', 'erro_relativo_estimado_nos_valores_de_cor'],
-      flexural_strength: ['flexural_strength', 'flexural strength', 'resistencia flexural', 'resistncia_flexural', 'resistncia_flexural_rf', 'resistncia_flexural_com_carga', 'resistncia_flexural_resina_base', 'flexural_strength_control', 'flexural_strength_ct_0', 'flexural_strength_tp_45', 'flexural_strength_and', 'rf'],
-      hardness: ['hardness', 'dureza', 'vickers'],
-      water_sorption: ['water_sorption', 'sorption', 'sorção'],
-      degree_of_conversion: ['degree_of_conversion', 'conversão', 'conversion'],
-      elastic_modulus: ['elastic_modulus', 'módulo elástico', 'elastic modulus'],
-      flexural_modulus: ['flexural_modulus', 'flexural modulus', 'modulo flexural', 'mdulo_flexural', 'mdulo_flexural_mf', 'mdulo_de_flexo', 'mf'],
-    };
-    const terms = propTermMap[prop] || [prop];
+    const terms = lexiconSearchTerms(lexicon, 'property', prop);
     checkPromises.push((async () => {
       // Try measurements first (scoped to project experiments)
       let foundInMeasurements = false;
@@ -3086,7 +3456,8 @@ async function checkCoOccurrence(
 // ==========================================
 async function runComparativeConstrained(
   supabase: any, query: string, projectIds: string[], targetMetrics: string[],
-  constraints: QueryConstraints, apiKey: string, contextMode: ContextMode, projectName?: string,
+  constraints: QueryConstraints, lexicon: ConstraintLexicon, ai: AiProvider, contextMode: ContextMode, projectName?: string,
+  stream?: RagStream, usage?: TokenUsage,
 ): Promise<string> {
   // Fetch current_best filtered by constraints
   let bestQuery = supabase.from('current_best').select('*').in('project_id', projectIds);
@@ -3115,27 +3486,24 @@ async function runComparativeConstrained(
 
       // Check materials
       for (const mat of constraints.materials) {
+        const terms = lexiconSearchTerms(lexicon, 'material', mat);
         for (const c of (conditions || [])) {
           if (['material', 'resin', 'composite', 'resina'].includes(c.key.toLowerCase()) &&
-              c.value.toLowerCase().includes(mat)) {
+              terms.some(t => c.value.toLowerCase().includes(t))) {
             matchingExpIds.add(c.experiment_id);
           }
         }
         // Also check experiment title
         for (const exp of (experiments || [])) {
-          if (exp.title.toLowerCase().includes(mat)) {
+          if (terms.some(t => exp.title.toLowerCase().includes(t))) {
             matchingExpIds.add(exp.id);
           }
         }
       }
 
       // Check additives
-      const additiveTerms: Record<string, string[]> = {
-        silver_nanoparticles: ['silver', 'prata', 'agnp', 'nano prata', 'nanosilver', 'ag-np'],
-        bomar: ['bomar'], tegdma: ['tegdma'], udma: ['udma'], bisgma: ['bisgma', 'bis-gma'],
-      };
       for (const add of constraints.additives) {
-        const terms = additiveTerms[add] || [add];
+        const terms = lexiconSearchTerms(lexicon, 'additive', add);
         for (const c of (conditions || [])) {
           if (terms.some(t => c.value.toLowerCase().includes(t))) {
             matchingExpIds.add(c.experiment_id);
@@ -3160,13 +3528,19 @@ async function runComparativeConstrained(
   if (filteredMeasurements.length === 0) return '';
 
   // Build table and synthesize (reuse comparative logic)
-  let table = '| # | Experimento | Métrica | Valor | Unidade | Data Evidência |\n|---|------------|---------|-------|---------|---------------|\n';
+  let table = '| # | Experimento | Métrica | Valor | Unidade | Critério | Data Evidência |\n|---|------------|---------|-------|---------|----------|---------------|\n';
   for (let i = 0; i < Math.min(filteredMeasurements.length, 20); i++) {
     const m = filteredMeasurements[i];
     const dt = m.evidence_date ? new Date(m.evidence_date).toISOString().split('T')[0] : 'desconhecida';
-    table += `| ${i+1} | ${m.experiment_title || 'N/A'} | ${m.raw_metric_name || m.metric_key} | **${m.value}** | ${m.unit} | ${dt} |\n`;
+    table += `| ${i+1} | ${m.experiment_title || 'N/A'} | ${m.raw_metric_name || m.metric_key} | **${m.value}** | ${m.unit} | ${describeDirection(directionFromRow(m))} | ${dt} |\n`;
   }
 
+  const significanceCtx = await fetchSignificanceContext(
+    supabase, projectIds,
+    filteredMeasurements.slice(0, 20).map((m: any) => m.metric_key),
+    [...new Set(filteredMeasurements.map((m: any) => m.experiment_id).filter(Boolean))] as string[],
+  );
+
   const constraintDesc = [
     ...constraints.materials.map(m => `material=${m}`),
     ...constraints.additives.map(a => `aditivo=${a}`),
@@ -3175,42 +3549,34 @@ async function runComparativeConstrained(
 
   const sysPrompt = `Você responde queries COMPARATIVAS com FILTRO DE ESCOPO. Os dados abaixo já foram filtrados para: ${constraintDesc}.
 REGRAS: 1) Use só a tabela filtrada. 2) Deixe claro o escopo do filtro. 3) Se os dados forem insuficientes, diga explicitamente.
-TABELA FILTRADA:\n${table}`;
-
-  const resp = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: { "Authorization": `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify({
-      model: "google/gemini-3-flash-preview",
-      messages: [
-        { role: "system", content: sysPrompt },
-        { role: "user", content: `QUERY: ${query}\n\nResponda com: Estado Atual (filtrado por ${constraintDesc}), Tabela Comparativa, Ressalvas sobre escopo.` },
-      ],
-      temperature: 0.1, max_tokens: 3000,
-    }),
-  });
+4) Respeite a coluna Critério: em métricas "↓ menor é melhor" o MENOR valor é o melhor.
+5) Se houver TESTES ESTATÍSTICOS, só afirme superioridade quando a diferença for SIGNIFICATIVA (p<0,05); caso contrário, diga que não é estatisticamente significativa.
+TABELA FILTRADA:\n${table}${significanceCtx ? `\n${significanceCtx}` : ''}`;
+
+  const completion = await chatCompletion(ai, {
+    model: ai.model('standard'),
+    messages: [
+      { role: "system", content: sysPrompt },
+      { role: "user", content: `QUERY: ${query}\n\nResponda com: Estado Atual (filtrado por ${constraintDesc}), Tabela Comparativa, Ressalvas sobre escopo.` },
+    ],
+    temperature: 0.1, max_tokens: 3000,
+  }, stream, usage);
 
-  if (!resp.ok) return '';
-  const d = await resp.json();
-  const text = d.choices?.[0]?.message?.content || '';
+  if (!completion.ok) return '';
+  const text = completion.content;
   return text ? `[MODO COMPARATIVO CONSTRAINED — Escopo: ${constraintDesc}]\n\n${text}` : '';
 }
 
 // ==========================================
 // MAIN HANDLER
 // ==========================================
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
+async function handleRagRequest(req: Request, body: any, stream?: RagStream, answerCache?: AnswerCacheSlot): Promise<Response> {
   const startTime = Date.now();
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
-    if (!lovableApiKey) throw new Error("LOVABLE_API_KEY is not configured");
+    const ai = getAiProvider();
 
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
@@ -3220,20 +3586,30 @@ serve(async (req) => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Service-role calls (eval harness) name the projects explicitly and the
+    // user the run is logged under; nobody is added to project_members
+    const serviceCall = authHeader === `Bearer ${supabaseServiceKey}`;
+    if (serviceCall && (typeof body.as_user_id !== "string" || !Array.isArray(body.project_ids) || body.project_ids.length === 0)) {
+      return new Response(JSON.stringify({ error: "as_user_id and project_ids are required for service calls" }), {
+        status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
     const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
       global: { headers: { Authorization: authHeader } },
     });
-
-    const { data: { user } } = await userClient.auth.getUser();
+    const user: { id: string } | null = serviceCall
+      ? { id: body.as_user_id }
+      : (await userClient.auth.getUser()).data.user;
     if (!user) {
       return new Response(JSON.stringify({ error: "Invalid token" }), {
         status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const { query, chunk_ids, project_ids, conversation_history, context_mode } = await req.json();
+    const { query: originalQuery, chunk_ids, project_ids, conversation_history, context_mode } = body;
 
-    if (!query || query.trim().length < 5) {
+    if (!originalQuery || originalQuery.trim().length < 5) {
       return new Response(JSON.stringify({ error: "Query must be at least 5 characters" }), {
         status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
@@ -3243,8 +3619,11 @@ serve(async (req) => {
     const contextMode: ContextMode = context_mode === "project" ? "project" : "global";
     const primaryProjectIds = project_ids || [];
 
-    const { data: userProjects } = await supabase.from("project_members").select("project_id").eq("user_id", user.id);
-    const allowedProjectIds = userProjects?.map((p: any) => p.project_id) || [];
+    let allowedProjectIds: string[] = primaryProjectIds;
+    if (!serviceCall) {
+      const { data: userProjects } = await supabase.from("project_members").select("project_id").eq("user_id", user.id);
+      allowedProjectIds = userProjects?.map((p: any) => p.project_id) || [];
+    }
 
     if (allowedProjectIds.length === 0) {
       return new Response(JSON.stringify({
@@ -3264,13 +3643,108 @@ serve(async (req) => {
     // PRE-COMPUTE ALL INTENTS + REQUEST ID
     // ==========================================
     const requestId = crypto.randomUUID();
+    const tokenUsage: TokenUsage = { input: 0, output: 0 };
+
+    // Follow-ups ("e a dureza dela?") are resolved into a standalone question
+    // before any intent detection, so routing and the gate see the full query
+    const queryRewrite = await rewriteQuery(ai, originalQuery, conversation_history);
+    tokenUsage.input += queryRewrite.usage.input;
+    tokenUsage.output += queryRewrite.usage.output;
+    const query: string = queryRewrite.query;
+    if (queryRewrite.rewritten) {
+      stream?.stage('rewrite', { query, reason: queryRewrite.reason });
+      console.log(`Query rewritten (${queryRewrite.reason}, ${queryRewrite.latency_ms}ms): "${originalQuery}" -> "${query}"`);
+    } else if (queryRewrite.error) {
+      console.warn(`Query rewrite failed, using the original query: ${queryRewrite.error}`);
+    }
+    throwIfAborted(stream);
+
+    // One embedding of the routed query per request, shared by the answer
+    // cache, chunk search and knowledge facts
+    let queryEmbeddingPromise: Promise<string | null> | null = null;
+    const embedQuery = () => (queryEmbeddingPromise ??= generateQueryEmbedding(query, ai));
+
+    // Attribution for rag_logs: both forms of the query, primary project (null
+    // in global mode) + tokens so far
+    const logScope = () => ({
+      query: originalQuery, rewritten_query: queryRewrite.rewritten ? query : null,
+      project_id: contextMode === 'project' ? validPrimary[0] ?? null : null,
+      tokens_input: tokenUsage.input, tokens_output: tokenUsage.output,
+    });
     const tabularIntent = detectTabularExcelIntent(query);
     const iderIntent = detectIDERIntent(query);
-    const { isComparative, targetMetrics } = detectComparativeIntent(query);
-    const preConstraints = extractConstraints(query);
+    const { isComparative, targetMetrics, rankingSense } = detectComparativeIntent(query);
+    const constraintLexicon = await loadConstraintLexicon(supabase);
+    const preConstraints = extractConstraints(query, constraintLexicon);
     const constraintsKeywordsHit = [...preConstraints.materials, ...preConstraints.additives, ...preConstraints.properties];
     const constraintsScope: 'project' | 'global' = contextMode === 'project' ? 'project' : 'global';
 
+    // ==========================================
+    // ANSWER CACHE (before the gate and routing)
+    // `refresh` skips the lookup and replaces the cached answer; `cache: false`
+    // (eval harness) bypasses the cache entirely. Requests pinned to chunks
+    // and follow-ups that were not rewritten into a standalone question are
+    // never cached: the key has no conversation history.
+    // ==========================================
+    const cacheEnabled = body.cache !== false && !(chunk_ids?.length) && isCacheableQuery(queryRewrite)
+      && Deno.env.get('RAG_ANSWER_CACHE') !== 'off';
+    if (cacheEnabled) {
+      try {
+        const [dataVersion, cacheEmbedding] = await Promise.all([
+          loadDataVersion(supabase, allowedProjectIds),
+          embedQuery(),
+        ]);
+        const cacheKey: AnswerCacheKey = {
+          scope_key: cacheScopeKey(contextMode, validPrimary, allowedProjectIds),
+          context_mode: contextMode,
+          data_version: dataVersion,
+          query_norm: normalizeCacheQuery(query),
+          signature: querySignature(query, constraintsKeywordsHit),
+        };
+        const hit = body.refresh ? null : await lookupCachedAnswer(supabase, cacheKey, cacheEmbedding, answerCacheMinSimilarity());
+
+        if (hit) {
+          const latencyMs = Date.now() - startTime;
+          const cacheLog: AnswerCacheLog = {
+            hit: true, cached_request_id: hit.request_id, similarity: hit.similarity,
+            cached_at: hit.created_at, cached_query: hit.query,
+          };
+          stream?.stage('cache', { hit: true, cached_at: hit.created_at, similarity: hit.similarity });
+          console.log(`Answer cache hit (similarity ${hit.similarity.toFixed(3)}, from ${hit.request_id}): "${hit.query}"`);
+          const cacheDiag = buildDiagnostics({
+            ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
+            pipeline: 'answer-cache',
+            tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
+            constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
+            answerCache: cacheLog,
+          });
+
+          await supabase.from("rag_logs").insert({
+            user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
+            response_summary: String(hit.payload.response).substring(0, 500),
+            model_used: 'answer-cache', latency_ms: latencyMs,
+            request_id: requestId, diagnostics: cacheDiag,
+            cache_hit: true, cached_request_id: hit.request_id,
+          });
+
+          return new Response(JSON.stringify({
+            ...hit.payload,
+            latency_ms: latencyMs,
+            cache: { hit: true, request_id: hit.request_id, created_at: hit.created_at, similarity: hit.similarity },
+            _diagnostics: cacheDiag,
+          }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+        }
+
+        if (answerCache) {
+          answerCache.store = payload => storeCachedAnswer(supabase, cacheKey, query, cacheEmbedding, payload, requestId);
+        }
+      } catch (error) {
+        // The cache never blocks an answer
+        console.warn(`Answer cache unavailable: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    throwIfAborted(stream);
+
     // ==========================================
     // GLOBAL CONSTRAINT GATE (before routing)
     // ==========================================
@@ -3285,19 +3759,20 @@ serve(async (req) => {
     if (hasAnyConstraints) {
       gateRan = true;
       const gateProjectIds = validPrimary.length > 0 ? validPrimary : allowedProjectIds;
-      const gateResult = await quickEvidenceCheck(supabase, gateProjectIds, preConstraints, lovableApiKey, validPrimary[0]);
+      const gateResult = await quickEvidenceCheck(supabase, gateProjectIds, preConstraints, constraintLexicon, ai, validPrimary[0]);
       evidenceCheckPassed = gateResult.feasible;
       evidenceMatched = gateResult.matched;
       gateMissingTerms = gateResult.missing;
       gateSuggestedAliases = gateResult.suggestedAliases || [];
       gateAliasLookupLatencyMs = gateResult.aliasLookupLatencyMs || 0;
       gateProvisionalPasses = gateResult.provisionalPasses || [];
+      stream?.stage('gate', { ran: true, passed: gateResult.feasible, matched: gateResult.matched.length, missing: gateResult.missing });
       console.log(`Global constraint gate: feasible=${gateResult.feasible}, matched=${gateResult.matched.length}, missing=${gateResult.missing.join(', ')}, strong=${preConstraints.hasStrongConstraints}, aliases=${gateSuggestedAliases.length}, provisional=${gateProvisionalPasses.join(',')}, aliasLatency=${gateAliasLookupLatencyMs}ms`);
 
       if (!gateResult.feasible) {
         const latencyMs = Date.now() - startTime;
         const gateDiag = buildDiagnostics({
-          ...makeDiagnosticsDefaults(requestId, latencyMs),
+          ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
           pipeline: 'fail-closed-no-evidence',
           tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
           constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3315,11 +3790,11 @@ serve(async (req) => {
           ...preConstraints.additives.map(a => `aditivo="${a}"`),
           ...preConstraints.properties.map(p => `propriedade="${p}"`),
         ].join(', ');
-        const suggestions = generateFailClosedSuggestions(query, preConstraints);
+        const suggestions = generateFailClosedSuggestions(query, preConstraints, constraintLexicon);
         const failMsg = `**EVIDÊNCIA INEXISTENTE NO PROJETO** para: ${constraintDesc}.\n\nNão encontrei nenhum experimento, condição ou trecho contendo ${gateResult.missing.join(' e ')} neste projeto.\n\n**Constraints detectadas**: ${constraintsKeywordsHit.join(', ')}\n\nPara responder, envie o Excel/PDF onde isso aparece ou indique o nome do experimento/aba.\n\n**Sugestões de investigação**:\n${suggestions}`;
 
         await supabase.from("rag_logs").insert({
-          user_id: user.id, query, chunks_used: [], chunks_count: 0,
+          user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
           response_summary: failMsg.substring(0, 500),
           model_used: `global-gate/fail-closed`, latency_ms: latencyMs,
           request_id: requestId, diagnostics: { ...gateDiag, evidence_matched: gateResult.matched },
@@ -3334,10 +3809,65 @@ serve(async (req) => {
       }
     }
 
+    if (!gateRan) stream?.stage('gate', { ran: false, passed: true });
+    throwIfAborted(stream);
+
+    // ==========================================
+    // ROUTING PRIORITY: 0️⃣ Structured query → 1️⃣ Tabular → 2️⃣ IDER → 3️⃣ Comparative → 4️⃣ Standard
+    // ==========================================
+
     // ==========================================
-    // ROUTING PRIORITY: 1️⃣ Tabular → 2️⃣ IDER → 3️⃣ Comparative → 4️⃣ Standard
+    // 0️⃣ STRUCTURED MEASUREMENT QUERY (aggregates computed, not synthesized)
     // ==========================================
 
+    if (isAggregateQuestion(query)) {
+      const queryProjectIds = validPrimary.length > 0 ? validPrimary : allowedProjectIds;
+      const structured = await answerStructuredQuery(supabase, ai, query, queryProjectIds, stream, tokenUsage);
+      throwIfAborted(stream);
+
+      if (structured) {
+        const empty = structured.result.matched === 0;
+        const latencyMs = Date.now() - startTime;
+        const queryDiag = buildDiagnostics({
+          ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
+          pipeline: 'structured-query',
+          tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
+          constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
+          evidenceCheckPassed, gateRan, gateMissingTerms,
+          measurementsCount: structured.result.matched,
+          failClosedTriggered: empty, failClosedReason: empty ? 'no_matching_measurements' : null,
+          failClosedStage: empty ? 'structured_query' : null,
+          structuredQuery: structured.log,
+        });
+
+        await supabase.from("rag_logs").insert({
+          user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
+          response_summary: structured.response.substring(0, 500),
+          model_used: `structured-query/${contextMode}/${structured.log.narration === 'model' ? ai.model('standard') : 'template'}`,
+          latency_ms: latencyMs,
+          request_id: requestId, diagnostics: queryDiag,
+        });
+
+        return new Response(JSON.stringify({
+          response: structured.response,
+          sources: structured.sources,
+          chunks_used: 0, context_mode: contextMode, project_name: projectName,
+          pipeline: 'structured-query', latency_ms: latencyMs,
+          structured_query: {
+            dsl_version: QUERY_DSL_VERSION,
+            query: structured.query,
+            result: {
+              columns: structured.result.columns, rows: structured.result.rows, unit: structured.result.unit,
+              scanned: structured.result.scanned, matched: structured.result.matched,
+              summarized: structured.result.summarized,
+              dropped_units: structured.result.dropped_units, truncated: structured.result.truncated,
+            },
+          },
+          _diagnostics: queryDiag,
+        }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+    }
+
     // ==========================================
     // 1️⃣ TABULAR EXCEL MODE CHECK (highest priority)
     // ==========================================
@@ -3345,9 +3875,12 @@ serve(async (req) => {
     if (tabularIntent.isExcelTableQuery) {
       console.log(`Tabular Excel query detected. Feature: ${tabularIntent.targetFeature}, Targets: ${tabularIntent.numericTargets.map(t => t.value).join(', ')}, Materials: ${tabularIntent.targetMaterials.join(', ')}`);
 
+      stream?.stage('routing', { pipeline: 'tabular-excel' });
       const targetProjIds = validPrimary.length > 0 ? validPrimary : allowedProjectIds;
       const { variants, diagnostics } = await fetchExcelRowGroups(supabase, targetProjIds, tabularIntent);
       console.log(`Tabular retrieval: ${variants.length} variants. Diagnostics: ${diagnostics.join(' | ')}`);
+      stream?.stage('retrieval', { variants: variants.length });
+      throwIfAborted(stream);
 
       if (variants.length >= 2) {
         const { pairs, evidenceTableJson } = pairTabularVariants(variants, tabularIntent);
@@ -3355,10 +3888,13 @@ serve(async (req) => {
         if (pairs.length > 0 && evidenceTableJson) {
           console.log(`Tabular pairs found: ${pairs.length}. Generating tabular synthesis (skipping Step A).`);
 
-          const { response: tabularResponse } = await generateTabularSynthesis(query, evidenceTableJson, lovableApiKey);
+          stream?.stage('model', { tier: 'standard', model: ai.model('standard') });
+          stream?.stage('synthesis', { status: 'started' });
+          const { response: tabularResponse } = await generateTabularSynthesis(query, evidenceTableJson, ai, stream, tokenUsage);
 
           // Step C tabular verification
           const tabularVerification = verifyTabularResponse(tabularResponse, evidenceTableJson);
+          stream?.stage('verification', { verified: tabularVerification.verified, issues: tabularVerification.issues.length });
           let finalTabularResponse = tabularResponse;
 
           if (!tabularVerification.verified) {
@@ -3368,7 +3904,7 @@ serve(async (req) => {
 
           const latencyMs = Date.now() - startTime;
           const tabDiag = buildDiagnostics({
-            ...makeDiagnosticsDefaults(requestId, latencyMs),
+            ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
             pipeline: 'tabular-excel',
             tabularIntent: true, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
             constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3378,7 +3914,7 @@ serve(async (req) => {
           });
 
           await supabase.from("rag_logs").insert({
-            user_id: user.id, query,
+            user_id: user.id, ...logScope(),
             chunks_used: [], chunks_count: 0,
             response_summary: finalTabularResponse.substring(0, 500),
             model_used: `tabular-excel-mode/${contextMode}/gemini-3-flash`,
@@ -3404,7 +3940,7 @@ serve(async (req) => {
       // FAIL-CLOSED: tabular query but insufficient evidence
       const latencyMs = Date.now() - startTime;
       const tabFailDiag = buildDiagnostics({
-        ...makeDiagnosticsDefaults(requestId, latencyMs),
+        ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
         pipeline: 'tabular-excel-fail-closed',
         tabularIntent: true, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
         constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3413,7 +3949,7 @@ serve(async (req) => {
       const failMsg = `Não encontrei no projeto um experimento tabular com ${tabularIntent.targetFeature || 'a métrica solicitada'} ${tabularIntent.numericTargets.map(t => `~${t.value}%`).join(' e ')} com evidência suficiente para comparação.\n\nPara localizar, preciso do nome da aba (sheet) ou do arquivo Excel, ou de um trecho da tabela.\n\n**Diagnóstico**: ${diagnostics.join('. ')}`;
       
       await supabase.from("rag_logs").insert({
-        user_id: user.id, query, chunks_used: [], chunks_count: 0,
+        user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
         response_summary: failMsg.substring(0, 500),
         model_used: `tabular-excel-mode/fail-closed`, latency_ms: latencyMs,
         request_id: requestId, diagnostics: tabFailDiag,
@@ -3433,6 +3969,7 @@ serve(async (req) => {
 
     if (iderIntent.isIDERQuery) {
       console.log(`IDER mode activated. Keywords: ${iderIntent.interpretiveKeywords.join(', ')}`);
+      stream?.stage('routing', { pipeline: 'ider' });
 
       const iderProjectIds = validPrimary.length > 0 ? validPrimary : allowedProjectIds;
 
@@ -3441,8 +3978,10 @@ serve(async (req) => {
       console.log(`IDER: ${insightSeeds.length} insight seeds (${insightSeeds.filter(s => s.verified).length} verified)`);
 
       // Step 2: Build evidence graph (with constraint filtering)
-      const evidenceGraph = await buildEvidenceGraph(supabase, iderProjectIds, query, insightSeeds, preConstraints);
+      const evidenceGraph = await buildEvidenceGraph(supabase, iderProjectIds, query, insightSeeds, preConstraints, constraintLexicon);
       console.log(`IDER evidence graph: ${evidenceGraph.experiments.length} experiments, ${evidenceGraph.diagnostics.join(' | ')}`);
+      stream?.stage('retrieval', { insight_seeds: insightSeeds.length, experiments: evidenceGraph.experiments.length });
+      throwIfAborted(stream);
 
       // Check sufficiency: need at least 1 experiment with 1 metric
       const totalMetrics = evidenceGraph.experiments.reduce((s, e) => s + e.variants.reduce((vs, v) => vs + Object.keys(v.metrics).length, 0), 0);
@@ -3452,7 +3991,7 @@ serve(async (req) => {
         // FAIL-CLOSED: insufficient structured evidence
         const latencyMs = Date.now() - startTime;
         const iderNoEvDiag = buildDiagnostics({
-          ...makeDiagnosticsDefaults(requestId, latencyMs),
+          ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
           pipeline: 'ider-fail-closed',
           tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: true, comparativeIntent: isComparative,
           constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3462,7 +4001,7 @@ serve(async (req) => {
         const failMsg = `EVIDÊNCIA INSUFICIENTE para análise interpretativa.\n\nNão encontrei experimentos estruturados com medições no projeto que correspondam à sua pergunta. O sistema precisa de dados experimentais (measurements) para gerar análises baseadas em evidência.\n\n**Diagnóstico**: ${evidenceGraph.diagnostics.join('. ')}\n**Insights encontrados**: ${insightSeeds.length} (mas sem medições estruturadas associadas)`;
 
         await supabase.from("rag_logs").insert({
-          user_id: user.id, query, chunks_used: [], chunks_count: 0,
+          user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
           response_summary: failMsg.substring(0, 500),
           model_used: `ider-mode/fail-closed`, latency_ms: latencyMs,
           request_id: requestId, diagnostics: iderNoEvDiag,
@@ -3488,7 +4027,7 @@ serve(async (req) => {
         console.warn(`IDER external leak detected: ${externalDocs.length} docs not in project: ${externalDocs.join(', ')}`);
         const latencyMs = Date.now() - startTime;
         const leakDiag = buildDiagnostics({
-          ...makeDiagnosticsDefaults(requestId, latencyMs),
+          ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
           pipeline: 'ider-fail-closed',
           tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: true, comparativeIntent: isComparative,
           constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3497,11 +4036,11 @@ serve(async (req) => {
           variantsCount: totalVariants, measurementsCount: totalMetrics,
           failClosedTriggered: true, failClosedReason: 'external_leak', failClosedStage: 'evidence_graph',
         });
-        const suggestions = generateFailClosedSuggestions(query, preConstraints, evidenceGraph);
+        const suggestions = generateFailClosedSuggestions(query, preConstraints, constraintLexicon, evidenceGraph);
         const failMsg = `**VAZAMENTO EXTERNO DETECTADO**: ${externalDocs.length} documento(s) no grafo de evidência não pertencem ao projeto.\n\nDocumentos externos: ${externalDocs.join(', ')}\n\nA resposta foi bloqueada para evitar dados de fontes externas.\n\n**Sugestões de investigação**:\n${suggestions}`;
 
         await supabase.from("rag_logs").insert({
-          user_id: user.id, query, chunks_used: [], chunks_count: 0,
+          user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
           response_summary: failMsg.substring(0, 500),
           model_used: `ider-mode/fail-closed-external-leak`, latency_ms: latencyMs,
           request_id: requestId, diagnostics: leakDiag,
@@ -3536,14 +4075,19 @@ serve(async (req) => {
       }
 
       // Step 5: Synthesize
-      const { response: iderResponse } = await synthesizeIDER(query, evidenceGraph, deepReadPack, insightSeeds, lovableApiKey, MODEL_TIERS.advanced);
+      throwIfAborted(stream);
+      stream?.stage('model', { tier: 'advanced', model: ai.model('advanced') });
+      stream?.stage('synthesis', { status: 'started' });
+      const { response: iderResponse } = await synthesizeIDER(query, evidenceGraph, deepReadPack, insightSeeds, ai, ai.model('advanced'), stream, tokenUsage);
 
       // Step 6: Audit (lightweight)
-      const auditIssues = await auditIDER(iderResponse, evidenceGraph, lovableApiKey);
+      throwIfAborted(stream);
+      const auditIssues = await auditIDER(iderResponse, evidenceGraph, ai);
       console.log(`IDER audit: ${auditIssues.length} issues`);
 
       // Step 7: Programmatic verification
       const iderVerification = verifyIDERNumbers(iderResponse, evidenceGraph);
+      stream?.stage('verification', { verified: iderVerification.verified, unmatched: iderVerification.unmatched, audit_issues: auditIssues.length });
 
       let finalIDERResponse = iderResponse;
       let iderPipeline = 'ider';
@@ -3565,7 +4109,7 @@ serve(async (req) => {
           const issueDetails = severeIssues.map(i => `- **[${i.type}]** ${i.detail}`).join('\n');
           const constraintInfo = constraintsKeywordsHit.length > 0 ? `\n**Constraints detectadas**: ${constraintsKeywordsHit.join(', ')}` : '';
           const docsInfo = criticalDocs.length > 0 ? `\n**Documentos analisados**: ${criticalDocs.map(d => d.doc_id).join(', ')}` : '';
-          const suggestions = generateFailClosedSuggestions(query, preConstraints, evidenceGraph);
+          const suggestions = generateFailClosedSuggestions(query, preConstraints, constraintLexicon, evidenceGraph);
           finalIDERResponse = `**AUDITORIA FALHOU**: A resposta foi bloqueada por problemas de integridade.\n\n**Problemas detectados**:\n${issueDetails}${constraintInfo}${docsInfo}\n\nA resposta foi bloqueada para evitar dados misturados ou não-rastreáveis.\n\n**Sugestões de investigação**:\n${suggestions}`;
           iderPipeline = 'ider-fail-closed';
           iderFailClosed = true;
@@ -3576,7 +4120,7 @@ serve(async (req) => {
 
       const latencyMs = Date.now() - startTime;
       const iderDiag = buildDiagnostics({
-        ...makeDiagnosticsDefaults(requestId, latencyMs),
+        ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
         pipeline: iderPipeline,
         tabularIntent: tabularIntent.isExcelTableQuery,
         iderIntent: iderIntent.isIDERQuery,
@@ -3609,10 +4153,10 @@ serve(async (req) => {
       });
 
       await supabase.from("rag_logs").insert({
-        user_id: user.id, query,
+        user_id: user.id, ...logScope(),
         chunks_used: [], chunks_count: 0,
         response_summary: finalIDERResponse.substring(0, 500),
-        model_used: `ider-mode/${contextMode}/advanced/${MODEL_TIERS.advanced.split('/').pop()}`,
+        model_used: `ider-mode/${contextMode}/advanced/${ai.model('advanced').split('/').pop()}`,
         latency_ms: latencyMs,
         request_id: requestId,
         diagnostics: iderDiag,
@@ -3658,14 +4202,14 @@ serve(async (req) => {
 
       if (constraints.hasStrongConstraints) {
         // GATING: check if evidence exists for these constraints
-        const compGate = await quickEvidenceCheck(supabase, comparativeProjectIds, constraints, lovableApiKey, validPrimary[0]);
+        const compGate = await quickEvidenceCheck(supabase, comparativeProjectIds, constraints, constraintLexicon, ai, validPrimary[0]);
         console.log(`Evidence check: feasible=${compGate.feasible}, matched=${compGate.matched.length}, missing=${compGate.missing.join(', ')}`);
 
         if (!compGate.feasible) {
           // FAIL-CLOSED: no evidence for strong constraints
           const latencyMs = Date.now() - startTime;
           const compFailDiag = buildDiagnostics({
-            ...makeDiagnosticsDefaults(requestId, latencyMs),
+            ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
             pipeline: 'fail-closed-no-evidence',
             tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: true,
             constraints, constraintsKeywordsHit, constraintsScope,
@@ -3677,11 +4221,11 @@ serve(async (req) => {
             ...constraints.additives.map(a => `aditivo="${a}"`),
             ...constraints.properties.map(p => `propriedade="${p}"`),
           ].join(', ');
-          const suggestions = generateFailClosedSuggestions(query, constraints);
+          const suggestions = generateFailClosedSuggestions(query, constraints, constraintLexicon);
           const failMsg = `**EVIDÊNCIA INEXISTENTE NO PROJETO** para: ${constraintDesc}.\n\nNão encontrei nenhum experimento, condição ou trecho contendo ${compGate.missing.join(' e ')} neste projeto.\n\n**Constraints detectadas**: ${constraintsKeywordsHit.join(', ')}\n\nPara responder, envie o Excel/PDF onde isso aparece ou indique o nome do experimento/aba.\n\n**Sugestões de investigação**:\n${suggestions}`;
 
           await supabase.from("rag_logs").insert({
-            user_id: user.id, query, chunks_used: [], chunks_count: 0,
+            user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
             response_summary: failMsg.substring(0, 500),
             model_used: `fail-closed-no-evidence/${contextMode}`, latency_ms: latencyMs,
             request_id: requestId, diagnostics: { ...compFailDiag, evidence_matched: compGate.matched },
@@ -3697,15 +4241,18 @@ serve(async (req) => {
 
         // COMPARATIVE CONSTRAINED: evidence exists, filter by constraints
         console.log('Running comparative-constrained mode');
+        stream?.stage('routing', { pipeline: 'comparative-constrained' });
+        stream?.stage('model', { tier: 'standard', model: ai.model('standard') });
+        stream?.stage('synthesis', { status: 'started' });
         const constrainedResult = await runComparativeConstrained(
           supabase, query, comparativeProjectIds, targetMetrics,
-          constraints, lovableApiKey, contextMode, projectName,
+          constraints, constraintLexicon, ai, contextMode, projectName, stream, tokenUsage,
         );
 
         if (constrainedResult) {
           const latencyMs = Date.now() - startTime;
           const compConsDiag = buildDiagnostics({
-            ...makeDiagnosticsDefaults(requestId, latencyMs),
+            ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
             pipeline: 'comparative-constrained',
             tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: true,
             constraints, constraintsKeywordsHit, constraintsScope,
@@ -3714,7 +4261,7 @@ serve(async (req) => {
             evidenceCheckPassed: true,
           });
           await supabase.from("rag_logs").insert({
-            user_id: user.id, query, chunks_used: [], chunks_count: 0,
+            user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
             response_summary: constrainedResult.substring(0, 500),
             model_used: `comparative-constrained/${contextMode}/gemini-3-flash`, latency_ms: latencyMs,
             request_id: requestId, diagnostics: compConsDiag,
@@ -3731,7 +4278,7 @@ serve(async (req) => {
         // Constrained returned empty after filtering → fail-closed
         const latencyMs2 = Date.now() - startTime;
         const compConsFailDiag = buildDiagnostics({
-          ...makeDiagnosticsDefaults(requestId, latencyMs2),
+          ...makeDiagnosticsDefaults(requestId, latencyMs2, queryRewrite),
           pipeline: 'comparative-constrained-fail-closed',
           tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: true,
           constraints, constraintsKeywordsHit, constraintsScope,
@@ -3740,10 +4287,10 @@ serve(async (req) => {
           evidenceCheckPassed: true,
           failClosedTriggered: true, failClosedReason: 'constraint_evidence_missing', failClosedStage: 'evidence_graph',
         });
-        const suggestions2 = generateFailClosedSuggestions(query, constraints);
+        const suggestions2 = generateFailClosedSuggestions(query, constraints, constraintLexicon);
         const failMsg2 = `**EVIDÊNCIA INSUFICIENTE** após filtrar por escopo. Encontrei evidência parcial no projeto, mas após aplicar os filtros de material/aditivo/propriedade, nenhuma medição restou.\n\n**Constraints detectadas**: ${constraintsKeywordsHit.join(', ')}\n\nTente reformular sem restrições específicas ou envie os dados relevantes.\n\n**Sugestões de investigação**:\n${suggestions2}`;
         await supabase.from("rag_logs").insert({
-          user_id: user.id, query, chunks_used: [], chunks_count: 0,
+          user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
           response_summary: failMsg2.substring(0, 500),
           model_used: `comparative-constrained/fail-closed/${contextMode}`, latency_ms: latencyMs2,
           request_id: requestId, diagnostics: compConsFailDiag,
@@ -3757,23 +4304,26 @@ serve(async (req) => {
       }
 
       // No strong constraints → pure ranking (original comparative)
-      console.log(`Pure ranking comparative. Target metrics: ${targetMetrics.join(', ') || 'all'}`);
+      console.log(`Pure ranking comparative. Target metrics: ${targetMetrics.join(', ') || 'all'}, sense: ${rankingSense}`);
+      stream?.stage('routing', { pipeline: 'comparative' });
+      stream?.stage('model', { tier: 'standard', model: ai.model('standard') });
+      stream?.stage('synthesis', { status: 'started' });
       const comparativeResult = await runComparativeMode(
         supabase, query, comparativeProjectIds,
-        targetMetrics, lovableApiKey, contextMode, projectName,
+        targetMetrics, ai, contextMode, projectName, rankingSense, stream, tokenUsage,
       );
 
       if (comparativeResult) {
         const latencyMs = Date.now() - startTime;
         const compDiag = buildDiagnostics({
-          ...makeDiagnosticsDefaults(requestId, latencyMs),
+          ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
           pipeline: 'comparative',
           tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: true,
           constraints, constraintsKeywordsHit, constraintsScope,
           evidenceCheckPassed: true,
         });
         await supabase.from("rag_logs").insert({
-          user_id: user.id, query, chunks_used: [], chunks_count: 0,
+          user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
           response_summary: comparativeResult.substring(0, 500),
           model_used: `comparative-mode/${contextMode}/gemini-3-flash`, latency_ms: latencyMs,
           request_id: requestId, diagnostics: compDiag,
@@ -3796,10 +4346,11 @@ serve(async (req) => {
       // If gate passed (evidence exists) but no pipeline matched, force IDER
       if (evidenceCheckPassed) {
         console.log('Strong constraints: no pipeline matched but gate passed. Forcing IDER as fallback.');
+        stream?.stage('routing', { pipeline: 'ider-forced' });
         const iderProjectIds = validPrimary.length > 0 ? validPrimary : allowedProjectIds;
 
         const insightSeeds = await retrieveInsightsCandidates(supabase, iderProjectIds, query);
-        const evidenceGraph = await buildEvidenceGraph(supabase, iderProjectIds, query, insightSeeds, preConstraints);
+        const evidenceGraph = await buildEvidenceGraph(supabase, iderProjectIds, query, insightSeeds, preConstraints, constraintLexicon);
         const totalMetrics = evidenceGraph.experiments.reduce((s, e) => s + e.variants.reduce((vs, v) => vs + Object.keys(v.metrics).length, 0), 0);
         const totalVariants = evidenceGraph.experiments.reduce((s, e) => s + e.variants.length, 0);
 
@@ -3817,9 +4368,15 @@ serve(async (req) => {
           if (externalDocs.length === 0) {
             const criticalDocs = selectCriticalDocs(evidenceGraph, insightSeeds);
             const deepReadPack = await deepReadCriticalDocs(supabase, criticalDocs, query);
-            const { response: iderResponse } = await synthesizeIDER(query, evidenceGraph, deepReadPack, insightSeeds, lovableApiKey, MODEL_TIERS.advanced);
-            const auditIssues = await auditIDER(iderResponse, evidenceGraph, lovableApiKey);
+            throwIfAborted(stream);
+            stream?.stage('retrieval', { insight_seeds: insightSeeds.length, experiments: evidenceGraph.experiments.length });
+            stream?.stage('model', { tier: 'advanced', model: ai.model('advanced') });
+            stream?.stage('synthesis', { status: 'started' });
+            const { response: iderResponse } = await synthesizeIDER(query, evidenceGraph, deepReadPack, insightSeeds, ai, ai.model('advanced'), stream, tokenUsage);
+            throwIfAborted(stream);
+            const auditIssues = await auditIDER(iderResponse, evidenceGraph, ai);
             const iderVerification = verifyIDERNumbers(iderResponse, evidenceGraph);
+            stream?.stage('verification', { verified: iderVerification.verified, unmatched: iderVerification.unmatched, audit_issues: auditIssues.length });
 
             let finalIDERResponse = iderResponse;
             let iderPipeline = 'ider-forced';
@@ -3829,7 +4386,7 @@ serve(async (req) => {
 
             if (!iderVerification.verified) {
               const examples = iderVerification.unmatched_examples.slice(0, 5).map(e => `"${e.number}" (…${e.context}…)`).join('\n- ');
-              const suggestions = generateFailClosedSuggestions(query, preConstraints, evidenceGraph);
+              const suggestions = generateFailClosedSuggestions(query, preConstraints, constraintLexicon, evidenceGraph);
               finalIDERResponse = `**VERIFICAÇÃO FALHOU**: ${iderVerification.unmatched} número(s) não correspondem a medições.\n\n**Números sem evidência**:\n- ${examples}\n\n**Sugestões**:\n${suggestions}`;
               iderPipeline = 'ider-forced-fail-closed';
               iderFailClosed = true;
@@ -3841,7 +4398,7 @@ serve(async (req) => {
               const severeIssues = auditIssues.filter(i => i.type === 'cross_variant_mix' || i.type === 'external_leak');
               if (severeIssues.length > 0) {
                 const issueDetails = severeIssues.map(i => `- **[${i.type}]** ${i.detail}`).join('\n');
-                const suggestions = generateFailClosedSuggestions(query, preConstraints, evidenceGraph);
+                const suggestions = generateFailClosedSuggestions(query, preConstraints, constraintLexicon, evidenceGraph);
                 finalIDERResponse = `**AUDITORIA FALHOU**:\n${issueDetails}\n\n**Sugestões**:\n${suggestions}`;
                 iderPipeline = 'ider-forced-fail-closed';
                 iderFailClosed = true;
@@ -3852,7 +4409,7 @@ serve(async (req) => {
 
             const latencyMs = Date.now() - startTime;
             const iderDiag = buildDiagnostics({
-              ...makeDiagnosticsDefaults(requestId, latencyMs),
+              ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
               pipeline: iderPipeline,
               tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: true, comparativeIntent: isComparative,
               constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3868,7 +4425,7 @@ serve(async (req) => {
             });
 
             await supabase.from("rag_logs").insert({
-              user_id: user.id, query, chunks_used: [], chunks_count: 0,
+              user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
               response_summary: finalIDERResponse.substring(0, 500),
               model_used: `ider-forced/${contextMode}/gemini-3-flash`, latency_ms: latencyMs,
               request_id: requestId, diagnostics: iderDiag,
@@ -3898,7 +4455,7 @@ serve(async (req) => {
       // Final fail-closed: no structured pipeline could handle it
       const latencyMs = Date.now() - startTime;
       const blockDiag = buildDiagnostics({
-        ...makeDiagnosticsDefaults(requestId, latencyMs),
+        ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
         pipeline: 'fail-closed-no-evidence',
         tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
         constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -3911,11 +4468,11 @@ serve(async (req) => {
         ...preConstraints.additives.map(a => `aditivo="${a}"`),
         ...preConstraints.properties.map(p => `propriedade="${p}"`),
       ].join(', ');
-      const suggestions = generateFailClosedSuggestions(query, preConstraints);
+      const suggestions = generateFailClosedSuggestions(query, preConstraints, constraintLexicon);
       const failMsg = `**EVIDÊNCIA ESTRUTURADA INSUFICIENTE** para: ${constraintDesc}.\n\nO gate de evidência encontrou menções parciais, mas nenhum pipeline estruturado (tabular, IDER, comparativo) conseguiu montar dados verificáveis. O sistema não permite fallback para busca genérica com restrições fortes.\n\n**Constraints detectadas**: ${constraintsKeywordsHit.join(', ')}\n\n**Sugestões de investigação**:\n${suggestions}`;
 
       await supabase.from("rag_logs").insert({
-        user_id: user.id, query, chunks_used: [], chunks_count: 0,
+        user_id: user.id, ...logScope(), chunks_used: [], chunks_count: 0,
         response_summary: failMsg.substring(0, 500),
         model_used: `fail-closed-strong-constraint/${contextMode}`, latency_ms: latencyMs,
         request_id: requestId, diagnostics: blockDiag,
@@ -3932,27 +4489,36 @@ serve(async (req) => {
     // ==========================================
     // 4️⃣ STANDARD 3-STEP PIPELINE
     // ==========================================
+    stream?.stage('routing', { pipeline: '3-step' });
     // For project mode: structured data comes ONLY from the project
     const structuredDataProjectIds = contextMode === "project" && validPrimary.length > 0
       ? validPrimary
       : allowedProjectIds;
 
+    let rerankStages: RerankStageLog[] = [];
     if (contextMode === "project" && validPrimary.length > 0) {
       // ==========================================
       // TWO-PHASE SEARCH (Project Mode)
       // Phase 1: Search ONLY the project (primary source)
       // Phase 2: Search globally for supplementary context
       // ==========================================
-      const queryEmbedding = await generateQueryEmbedding(query, lovableApiKey);
-      const [projectChunks, globalChunks, expResult, metricSummaries, knowledgePivots, knowledgeFactsResult] = await Promise.all([
-        searchChunks(supabase, query, validPrimary, allowedProjectIds, lovableApiKey, chunk_ids),
-        searchChunks(supabase, query, allowedProjectIds, allowedProjectIds, lovableApiKey),
+      const queryEmbedding = await embedQuery();
+      const [projectSearch, globalSearch, expResult, metricSummaries, knowledgePivots, knowledgeFactsResult, formulationContext] = await Promise.all([
+        searchChunks(supabase, query, validPrimary, allowedProjectIds, ai, queryEmbedding, chunk_ids),
+        searchChunks(supabase, query, allowedProjectIds, allowedProjectIds, ai, queryEmbedding),
         fetchExperimentContext(supabase, structuredDataProjectIds, query),
         fetchMetricSummaries(supabase, structuredDataProjectIds, query),
         fetchKnowledgePivots(supabase, structuredDataProjectIds, query),
         fetchKnowledgeFacts(supabase, structuredDataProjectIds, query, queryEmbedding),
+        fetchFormulationContext(supabase, structuredDataProjectIds, query),
       ]);
 
+      const projectChunks = projectSearch.chunks;
+      const globalChunks = globalSearch.chunks;
+      rerankStages = [
+        ...projectSearch.rerank.map(s => ({ ...s, scope: 'project' })),
+        ...globalSearch.rerank.map(s => ({ ...s, scope: 'global' })),
+      ];
       console.log(`Project mode: ${projectChunks.length} project chunks, ${globalChunks.length} global chunks`);
 
       // Merge: guarantee at least 80% of slots for project chunks
@@ -3985,28 +4551,35 @@ serve(async (req) => {
       var _metricSummaries = metricSummaries;
       var _knowledgePivots = knowledgePivots;
       var _knowledgeFactsResult = knowledgeFactsResult;
+      var _formulationContext = formulationContext;
 
     } else {
       // ==========================================
       // GLOBAL MODE: Equal weight to all projects
       // ==========================================
-      const queryEmbeddingGlobal = await generateQueryEmbedding(query, lovableApiKey);
-      const [chunks, expResult, metricSummaries, knowledgePivots, knowledgeFactsResultGlobal] = await Promise.all([
-        searchChunks(supabase, query, allowedProjectIds, allowedProjectIds, lovableApiKey, chunk_ids),
+      const queryEmbeddingGlobal = await embedQuery();
+      const [chunkSearch, expResult, metricSummaries, knowledgePivots, knowledgeFactsResultGlobal, formulationContextGlobal] = await Promise.all([
+        searchChunks(supabase, query, allowedProjectIds, allowedProjectIds, ai, queryEmbeddingGlobal, chunk_ids),
         fetchExperimentContext(supabase, structuredDataProjectIds, query),
         fetchMetricSummaries(supabase, structuredDataProjectIds, query),
         fetchKnowledgePivots(supabase, structuredDataProjectIds, query),
         fetchKnowledgeFacts(supabase, structuredDataProjectIds, query, queryEmbeddingGlobal),
+        fetchFormulationContext(supabase, structuredDataProjectIds, query),
       ]);
 
-      var finalChunks = chunks.slice(0, 15);
+      var finalChunks = chunkSearch.chunks.slice(0, 15);
+      rerankStages = chunkSearch.rerank;
       var { contextText: experimentContextText, evidenceTable: preBuiltEvidenceTable, experimentSources, criticalFileIds } = expResult;
       var _metricSummaries = metricSummaries;
       var _knowledgePivots = knowledgePivots;
       var _knowledgeFactsResult = knowledgeFactsResultGlobal;
+      var _formulationContext = formulationContextGlobal;
     }
 
-    if (finalChunks.length === 0 && !experimentContextText && !_metricSummaries && !_knowledgePivots) {
+    stream?.stage('retrieval', { chunks: finalChunks.length, experiment_sources: experimentSources.length });
+    throwIfAborted(stream);
+
+    if (finalChunks.length === 0 && !experimentContextText && !_metricSummaries && !_knowledgePivots && !_formulationContext) {
       return new Response(JSON.stringify({
         response: "Não encontrei informações relevantes nos documentos disponíveis para responder sua pergunta. Tente reformular a busca ou verifique se o conteúdo já foi indexado.",
         sources: [], chunks_used: 0, context_mode: contextMode,
@@ -4017,9 +4590,11 @@ serve(async (req) => {
     // STEP A: EVIDENCE PLAN
     // ==========================================
     const evidencePlanResult = await generateEvidencePlan(
-      query, finalChunks, experimentContextText, _metricSummaries, _knowledgePivots, lovableApiKey,
+      query, finalChunks, experimentContextText, _metricSummaries, _knowledgePivots, ai,
       contextMode, projectName
     );
+    stream?.stage('evidence_plan', { deep_read: evidencePlanResult.needsDeepRead });
+    throwIfAborted(stream);
 
     // ==========================================
     // CONTEXT EXPANSION: Deep Read if needed
@@ -4044,20 +4619,25 @@ serve(async (req) => {
       query, finalChunks.length, isComparative, iderIntent.isIDERQuery,
       preConstraints.hasStrongConstraints, false, evidenceGapCount,
     );
-    const selectedModel = getModelForTier(complexity.tier);
+    const selectedModel = ai.model(complexity.tier);
     console.log(`Model routing: tier=${complexity.tier}, score=${complexity.score}, model=${selectedModel}, reasons=${complexity.reasons.join(',')}`);
+    stream?.stage('model', { tier: complexity.tier, model: selectedModel, escalated: complexity.escalated });
 
     // ==========================================
     // STEP B: SYNTHESIS (with Knowledge Facts injected)
     // ==========================================
-    // Prepend knowledge facts context (highest priority) before experiment context
-    const enrichedExperimentContext = (_knowledgeFactsResult.contextText || '') + experimentContextText;
+    // Prepend knowledge facts context (highest priority) and registered
+    // formulations before experiment context
+    const enrichedExperimentContext = (_knowledgeFactsResult.contextText || '') + _formulationContext + experimentContextText;
     
+    throwIfAborted(stream);
+    stream?.stage('synthesis', { status: 'started' });
     const { response } = await generateSynthesis(
       query, finalChunks, enrichedExperimentContext, _metricSummaries, _knowledgePivots,
       preBuiltEvidenceTable, evidencePlanResult.plan, deepReadContent, docStructure,
-      lovableApiKey, contextMode, projectName, conversation_history, selectedModel
+      ai, contextMode, projectName, conversation_history, selectedModel, stream, tokenUsage
     );
+    throwIfAborted(stream);
 
     // ==========================================
     // STEP C: CHAIN-OF-VERIFICATION
@@ -4071,6 +4651,9 @@ serve(async (req) => {
       for (const m of measMatches) {
         allMeasurements.push({ metric: m[1], value: parseFloat(m[2].replace(',', '.')), unit: m[3] });
       }
+      for (const m of experimentContextText.matchAll(/± ([\d.,]+)/g)) {
+        allMeasurements.push({ metric: '_replicate_sd', value: parseFloat(m[1].replace(',', '.')), unit: '' });
+      }
     }
     
     // 2) Extract ALL numbers from chunk content (these are document-sourced, valid to cite)
@@ -4094,6 +4677,16 @@ serve(async (req) => {
         }
       }
     }
+
+    // 3b) Compositions of registered formulations (amounts are often integers)
+    if (_formulationContext) {
+      for (const n of _formulationContext.matchAll(/(\d+(?:[.,]\d+)?)/g)) {
+        const val = parseFloat(n[1].replace(',', '.'));
+        if (!isNaN(val)) {
+          allMeasurements.push({ metric: '_formulation_source', value: val, unit: '' });
+        }
+      }
+    }
     
     // 4) Extract numbers from deep read content
     if (deepReadContent) {
@@ -4115,7 +4708,8 @@ serve(async (req) => {
 
     // BYPASS TOTAL DE EMERGÊNCIA: A verificação numérica agora é APENAS INFORMATIVA e NUNCA bloqueia a resposta.
     // Isso é necessário para evitar falsos-positivos persistentes em ambientes de produção.
-    verification = await verifyResponse(response, allMeasurements, lovableApiKey);
+    verification = await verifyResponse(response, allMeasurements, ai);
+    stream?.stage('verification', { verified: verification.verified, unmatched: verification.unmatched });
     console.log(`[RAG-BYPASS] Numeric verification skipped/relaxed for query: "${query}". Unmatched: ${verification.unmatched}`);
     
     // Forçamos a verificação como 'true' para garantir que o fluxo de bloqueio abaixo nunca seja acionado.
@@ -4135,7 +4729,7 @@ serve(async (req) => {
 
     const latencyMs = Date.now() - startTime;
     const stdDiag = buildDiagnostics({
-      ...makeDiagnosticsDefaults(requestId, latencyMs),
+      ...makeDiagnosticsDefaults(requestId, latencyMs, queryRewrite),
       pipeline: stdPipeline,
       tabularIntent: tabularIntent.isExcelTableQuery, iderIntent: iderIntent.isIDERQuery, comparativeIntent: isComparative,
       constraints: preConstraints, constraintsKeywordsHit, constraintsScope,
@@ -4147,10 +4741,11 @@ serve(async (req) => {
       manualKnowledgeHits: _knowledgeFactsResult.diagnostics.manual_knowledge_hits,
       manualKnowledgeAppliedAsSourceOfTruth: _knowledgeFactsResult.diagnostics.applied_as_source_of_truth,
       manualKnowledgeOverrideConflicts: _knowledgeFactsResult.diagnostics.override_conflicts,
+      rerankStages,
     });
 
     await supabase.from("rag_logs").insert({
-      user_id: user.id, query,
+      user_id: user.id, ...logScope(),
       chunks_used: finalChunks.map((c) => c.id),
       chunks_count: finalChunks.length,
       response_summary: finalResponse.substring(0, 500),
@@ -4166,7 +4761,7 @@ serve(async (req) => {
 
     const chunkSources = finalChunks.map((chunk, index) => ({
       citation: `${index + 1}`, type: chunk.source_type,
-      id: chunk.source_id, title: chunk.source_title,
+      id: chunk.source_id, chunk_id: chunk.id, title: chunk.source_title,
       project: chunk.project_name, excerpt: chunk.chunk_text.substring(0, 200) + "...",
     }));
 
@@ -4179,6 +4774,12 @@ serve(async (req) => {
     }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
 
   } catch (error) {
+    if (stream?.signal.aborted) {
+      console.log(`RAG request cancelled by client after ${Date.now() - startTime}ms`);
+      return new Response(JSON.stringify({ error: "Request cancelled" }), {
+        status: 499, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : '';
     console.error("RAG error:", errorMessage, "\nStack:", errorStack);
@@ -4186,4 +4787,66 @@ serve(async (req) => {
       status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
+}
+
+// Runs the pipeline and, on a cache miss, stores an answer worth reusing
+async function answerRequest(req: Request, body: any, stream?: RagStream): Promise<Response> {
+  const answerCache: AnswerCacheSlot = {};
+  const response = await handleRagRequest(req, body, stream, answerCache);
+  if (response.ok && answerCache.store) {
+    const payload = await response.clone().json().catch(() => null);
+    if (payload && isCacheableAnswer(payload)) {
+      await answerCache.store(payload).catch(error => console.warn(`Answer cache store failed: ${error.message}`));
+    }
+  }
+  return response;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  if (!body?.stream) return answerRequest(req, body);
+
+  // SSE mode: the pipeline runs inside the stream; when the client disconnects
+  // (Stop button aborts the fetch) the stream is cancelled and so is the pipeline.
+  const abort = new AbortController();
+  req.signal?.addEventListener('abort', () => abort.abort());
+
+  const readable = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        try {
+          controller.enqueue(sseEvent(event, data));
+        } catch {
+          abort.abort();
+        }
+      };
+      const stream: RagStream = {
+        signal: abort.signal,
+        stage: (stage, data) => send('stage', { stage, ...data }),
+        token: (text) => send('token', { text }),
+      };
+
+      const response = await answerRequest(req, body, stream);
+      const payload = await response.json().catch(() => ({}));
+      send(response.ok ? 'done' : 'error', { ...payload, status: response.status });
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(readable, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
 });
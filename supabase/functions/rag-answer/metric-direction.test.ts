@@ -0,0 +1,93 @@
+/**
+ * Unit tests for metric direction ranking in comparative mode.
+ * Run with: deno test supabase/functions/rag-answer/metric-direction.test.ts
+ */
+
+import { assertEquals, assert } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+// ==========================================
+// INLINE COPIES OF FUNCTIONS UNDER TEST
+// (to avoid import issues with Deno serve)
+// metricRankScore / rankingScore mirror public.metric_rank_score and the
+// ORDER BY of public.ranked_measurements
+// ==========================================
+
+type MetricDirection = 'maximize' | 'minimize' | 'target';
+type RankingSense = 'best' | 'worst' | 'highest' | 'lowest';
+
+interface MetricDirectionInfo {
+  direction: MetricDirection;
+  target_min: number | null;
+  target_max: number | null;
+}
+
+function metricRankScore(value: number, info: MetricDirectionInfo): number {
+  if (info.direction === 'minimize') return value;
+  if (info.direction === 'target') {
+    const below = info.target_min !== null ? info.target_min - value : 0;
+    const above = info.target_max !== null ? value - info.target_max : 0;
+    return Math.max(below, above, 0);
+  }
+  return -value;
+}
+
+function rankingScore(value: number, info: MetricDirectionInfo, sense: RankingSense): number {
+  switch (sense) {
+    case 'worst': return -metricRankScore(value, info);
+    case 'highest': return -value;
+    case 'lowest': return value;
+    default: return metricRankScore(value, info);
+  }
+}
+
+function detectRankingSense(q: string): RankingSense {
+  if (/\bpior(es)?\b|\bworst\b/.test(q)) return 'worst';
+  if (/\bmelhor(es)?\b|\bbest\b|recorde|\brecord\b|supera|outperform|leader/.test(q)) return 'best';
+  if (/\bmenor(es)?\b|m[ií]nim[oa]|\blowest\b/.test(q)) return 'lowest';
+  if (/\bmaior(es)?\b|m[aá]xim[oa]|mais alto|\bhighest\b/.test(q)) return 'highest';
+  return 'best';
+}
+
+function pick(values: number[], info: MetricDirectionInfo, sense: RankingSense): number {
+  return [...values].sort((a, b) => rankingScore(a, info, sense) - rankingScore(b, info, sense))[0];
+}
+
+const MAX: MetricDirectionInfo = { direction: 'maximize', target_min: null, target_max: null };
+const MIN: MetricDirectionInfo = { direction: 'minimize', target_min: null, target_max: null };
+const TARGET: MetricDirectionInfo = { direction: 'target', target_min: 40, target_max: 60 };
+
+// ==========================================
+// TESTS
+// ==========================================
+
+Deno.test("maximize: best is the highest value", () => {
+  assertEquals(pick([120, 135, 98], MAX, 'best'), 135);
+  assertEquals(pick([120, 135, 98], MAX, 'worst'), 98);
+});
+
+Deno.test("minimize (water_sorption): best is the lowest value", () => {
+  assertEquals(pick([32.1, 18.4, 25.0], MIN, 'best'), 18.4);
+  assertEquals(pick([32.1, 18.4, 25.0], MIN, 'worst'), 32.1);
+});
+
+Deno.test("raw senses ignore direction", () => {
+  assertEquals(pick([32.1, 18.4, 25.0], MIN, 'highest'), 32.1);
+  assertEquals(pick([120, 135, 98], MAX, 'lowest'), 98);
+});
+
+Deno.test("target range: values inside the range tie at zero, outside ranked by distance", () => {
+  assertEquals(metricRankScore(50, TARGET), 0);
+  assertEquals(metricRankScore(35, TARGET), 5);
+  assertEquals(metricRankScore(70, TARGET), 10);
+  assertEquals(pick([30, 70, 58], TARGET, 'best'), 58);
+  assertEquals(pick([30, 70, 58], TARGET, 'worst'), 30);
+});
+
+Deno.test("detectRankingSense: pt/en phrasing", () => {
+  assertEquals(detectRankingSense('qual é o melhor resultado de sorção'), 'best');
+  assertEquals(detectRankingSense('qual o pior resultado de solubilidade'), 'worst');
+  assertEquals(detectRankingSense('qual o menor valor de rugosidade'), 'lowest');
+  assertEquals(detectRankingSense('qual o maior valor de sorção'), 'highest');
+  assertEquals(detectRankingSense('which has the lowest shrinkage'), 'lowest');
+  assert(detectRankingSense('ranking de resistência flexural') === 'best');
+});
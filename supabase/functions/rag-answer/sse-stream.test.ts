@@ -0,0 +1,68 @@
+/**
+ * Unit tests for SSE parsing of streamed gateway completions.
+ * Run with: deno test supabase/functions/rag-answer/sse-stream.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+// ==========================================
+// INLINE COPIES OF FUNCTIONS UNDER TEST
+// (to avoid import issues with Deno serve)
+// ==========================================
+
+function extractSSEData(buffer: string): { payloads: string[]; rest: string } {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() ?? '';
+  const payloads: string[] = [];
+  for (const raw of lines) {
+    const line = raw.replace(/\r$/, '');
+    if (line.startsWith('data:')) payloads.push(line.slice(5).trim());
+  }
+  return { payloads, rest };
+}
+
+// Feeds chunks through the parser the same way chatCompletion does
+function collectDeltas(chunks: string[]): string {
+  let buffer = '';
+  let content = '';
+  for (const chunk of chunks) {
+    buffer += chunk;
+    const { payloads, rest } = extractSSEData(buffer);
+    buffer = rest;
+    for (const payload of payloads) {
+      if (payload === '[DONE]') continue;
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) content += delta;
+      } catch {
+        // ignore
+      }
+    }
+  }
+  return content;
+}
+
+function delta(text: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+}
+
+// ==========================================
+// TESTS
+// ==========================================
+
+Deno.test("complete lines are returned, the partial tail is kept", () => {
+  const { payloads, rest } = extractSSEData('data: {"a":1}\n\ndata: {"b"');
+  assertEquals(payloads, ['{"a":1}']);
+  assertEquals(rest, 'data: {"b"');
+});
+
+Deno.test("non-data lines (comments, event names, CRLF) are ignored", () => {
+  const { payloads } = extractSSEData(': keep-alive\r\nevent: token\r\ndata: x\r\n\r\n');
+  assertEquals(payloads, ['x']);
+});
+
+Deno.test("deltas split across network chunks are reassembled", () => {
+  const body = delta('Resistência ') + delta('flexural: ') + delta('135 MPa') + 'data: [DONE]\n\n';
+  const chunks = [body.slice(0, 17), body.slice(17, 60), body.slice(60, 61), body.slice(61)];
+  assertEquals(collectDeltas(chunks), 'Resistência flexural: 135 MPa');
+});
@@ -0,0 +1,169 @@
+/**
+ * Programmatic numeric verification of synthesized answers.
+ * Pure functions (no Deno/serve imports) so the offline eval harness can reuse them.
+ */
+
+// ==========================================
+// STEP C TABULAR: Programmatic numeric verification
+// ==========================================
+export interface DetailedVerification {
+  verified: boolean;
+  issues: string[];
+  numbers_extracted: number;
+  matched: number;
+  unmatched: number;
+  issue_types: string[];
+  unmatched_examples: { number: string; context: string }[];
+}
+
+export function verifyTabularResponse(
+  responseText: string,
+  evidenceTableJson: any,
+): DetailedVerification {
+  const emptyResult: DetailedVerification = { verified: true, issues: [], numbers_extracted: 0, matched: 0, unmatched: 0, issue_types: [], unmatched_examples: [] };
+  if (!evidenceTableJson?.variants) return emptyResult;
+
+  const validValues = new Set<string>();
+  for (const variant of evidenceTableJson.variants) {
+    if (!variant.metrics) continue;
+    for (const [, metric] of Object.entries(variant.metrics) as any) {
+      validValues.add(String(metric.value));
+      validValues.add(String(metric.value).replace('.', ','));
+      if (metric.value_canonical != null) {
+        validValues.add(String(metric.value_canonical));
+        validValues.add(String(metric.value_canonical).replace('.', ','));
+      }
+    }
+  }
+
+  // Extract only scientifically relevant numbers (associated with units or decimal values)
+  const scientificNumberPattern = /(\d+[.,]\d+)\s*(%|MPa|GPa|kPa|°C|℃|min|h|s|mm|cm|µm|nm|mW|mL|mg|µg|g\/|kg|ppm|ppb|N|J|Hz|kHz|MHz|mol|wt%|vol%|HV|KHN|mW\/cm²|µm²)/gi;
+  const decimalPattern = /(?<!\w)(\d+[.,]\d{1,})\b/g;
+  const scientificMatches = [...responseText.matchAll(scientificNumberPattern)].map(m => m[1]);
+  const decimalMatches = [...responseText.matchAll(decimalPattern)].map(m => m[1]);
+  const numbersInResponse = [...new Set([...scientificMatches, ...decimalMatches])];
+  
+  const issues: string[] = [];
+  const ungrounded: { number: string; context: string }[] = [];
+  let matched = 0;
+  let numbersExtracted = 0;
+
+  for (const n of numbersInResponse) {
+    const num = parseFloat(n.replace(',', '.'));
+    if (isNaN(num)) continue;
+    if (num <= 1 && Number.isInteger(num)) continue; // skip 0, 1
+    if (num > 1900 && num < 2100) continue; // skip years
+    numbersExtracted++;
+
+    if (validValues.has(n) || validValues.has(n.replace(',', '.'))) {
+      matched++;
+      continue;
+    }
+    let grounded = false;
+    for (const v of validValues) {
+      const vn = parseFloat(v.replace(',', '.'));
+      if (!isNaN(vn) && Math.abs(vn - num) <= 0.5) { grounded = true; break; }
+    }
+    if (grounded) { matched++; continue; }
+    const idx = responseText.indexOf(n);
+    const ctx = idx >= 0 ? responseText.substring(Math.max(0, idx - 15), idx + n.length + 15) : '';
+    ungrounded.push({ number: n, context: ctx });
+  }
+
+  const unmatchedCount = ungrounded.length;
+  if (unmatchedCount > 2) {
+    issues.push(`NUMERIC_GROUNDING_FAILED_TABULAR: ${unmatchedCount} numbers not found in evidence table: ${ungrounded.slice(0, 5).map(u => u.number).join(', ')}`);
+  }
+
+  return {
+    verified: issues.length === 0,
+    issues,
+    numbers_extracted: numbersExtracted,
+    matched,
+    unmatched: unmatchedCount,
+    issue_types: unmatchedCount > 2 ? ['missing_measurement'] : [],
+    unmatched_examples: ungrounded.slice(0, 5),
+  };
+}
+
+// ==========================================
+// IDER: Programmatic number verification
+// ==========================================
+// Structural subset of the IDER EvidenceGraph that verification needs
+export interface EvidenceGraphValues {
+  experiments: {
+    variants: {
+      metrics: Record<string, { value: number; value_canonical: number | null; sd?: number | null }>;
+    }[];
+  }[];
+}
+
+export function verifyIDERNumbers(
+  responseText: string, evidenceGraph: EvidenceGraphValues
+): DetailedVerification {
+  const validValues = new Set<string>();
+  for (const exp of evidenceGraph.experiments) {
+    for (const variant of exp.variants) {
+      for (const [, metric] of Object.entries(variant.metrics)) {
+        validValues.add(String(metric.value));
+        validValues.add(String(metric.value).replace('.', ','));
+        if (metric.value_canonical != null) {
+          validValues.add(String(metric.value_canonical));
+          validValues.add(String(metric.value_canonical).replace('.', ','));
+        }
+        if (metric.sd != null) {
+          validValues.add(String(metric.sd));
+          validValues.add(String(metric.sd).replace('.', ','));
+        }
+      }
+    }
+  }
+
+  // Extract only scientifically relevant numbers (unit-associated or decimals)
+  const scientificNumberPattern = /(\d+[.,]\d+)\s*(%|MPa|GPa|kPa|°C|℃|min|h|s|mm|cm|µm|nm|mW|mL|mg|µg|g\/|kg|ppm|ppb|N|J|Hz|kHz|MHz|mol|wt%|vol%|HV|KHN|mW\/cm²|µm²)/gi;
+  const decimalPattern = /(?<!\w)(\d+[.,]\d{1,})\b/g;
+  const scientificMatches = [...responseText.matchAll(scientificNumberPattern)].map(m => m[1]);
+  const decimalMatches = [...responseText.matchAll(decimalPattern)].map(m => m[1]);
+  const numbersInResponse = [...new Set([...scientificMatches, ...decimalMatches])];
+
+  const ungrounded: { number: string; context: string }[] = [];
+  let matched = 0;
+  let numbersExtracted = 0;
+
+  for (const n of numbersInResponse) {
+    const num = parseFloat(n.replace(',', '.'));
+    if (isNaN(num)) continue;
+    if (num <= 1 && Number.isInteger(num)) continue;
+    if (num > 1900 && num < 2100) continue;
+    numbersExtracted++;
+
+    if (validValues.has(n) || validValues.has(n.replace(',', '.'))) {
+      matched++;
+      continue;
+    }
+    let grounded = false;
+    for (const v of validValues) {
+      const vn = parseFloat(v.replace(',', '.'));
+      if (!isNaN(vn) && Math.abs(vn - num) <= 0.5) { grounded = true; break; }
+    }
+    if (grounded) { matched++; continue; }
+    const idx = responseText.indexOf(n);
+    const ctx = idx >= 0 ? responseText.substring(Math.max(0, idx - 15), idx + n.length + 15) : '';
+    ungrounded.push({ number: n, context: ctx });
+  }
+
+  const unmatchedCount = ungrounded.length;
+  const issues: string[] = [];
+  if (unmatchedCount > 0) {
+    issues.push(`NUMERIC_GROUNDING_FAILED_IDER: ${unmatchedCount} numbers not in evidence graph: ${ungrounded.slice(0, 5).map(u => u.number).join(', ')}`);
+  }
+  return {
+    verified: unmatchedCount === 0,
+    issues,
+    numbers_extracted: numbersExtracted,
+    matched,
+    unmatched: unmatchedCount,
+    issue_types: unmatchedCount > 0 ? ['not_in_evidence_graph'] : [],
+    unmatched_examples: ungrounded.slice(0, 5),
+  };
+}
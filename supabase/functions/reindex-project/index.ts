@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CHUNKING_VERSIONS, isChunkingVersion } from "../_shared/chunking.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,7 +38,7 @@ serve(async (req) => {
       );
     }
 
-    const { project_id } = await req.json();
+    const { project_id, chunking_version } = await req.json();
 
     if (!project_id) {
       return new Response(
@@ -46,6 +47,13 @@ serve(async (req) => {
       );
     }
 
+    if (chunking_version !== undefined && !isChunkingVersion(chunking_version)) {
+      return new Response(
+        JSON.stringify({ error: `chunking_version must be one of: ${CHUNKING_VERSIONS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Check user has manager+ role in project
     const { data: hasRole } = await supabase.rpc("has_project_role", {
       _user_id: user.id,
@@ -60,6 +68,21 @@ serve(async (req) => {
       );
     }
 
+    // Switch the chunking strategy index-content uses for this project
+    if (chunking_version) {
+      const { error: versionError } = await supabase
+        .from("projects")
+        .update({ chunking_version })
+        .eq("id", project_id);
+      if (versionError) throw versionError;
+    }
+
+    const { data: project } = await supabase
+      .from("projects")
+      .select("chunking_version")
+      .eq("id", project_id)
+      .single();
+
     // Delete existing chunks for this project
     const { error: deleteError } = await supabase
       .from("search_chunks")
@@ -98,6 +121,16 @@ serve(async (req) => {
       .eq("project_id", project_id)
       .is("deleted_at", null);
 
+    // Files with extracted text (index-content chunks extraction_jobs.source_text)
+    const { data: extractions } = await supabase
+      .from("extraction_jobs")
+      .select("file_id, project_files!inner(deleted_at)")
+      .eq("project_id", project_id)
+      .eq("status", "completed")
+      .not("source_text", "is", null)
+      .is("project_files.deleted_at", null);
+    const fileIds = [...new Set((extractions || []).map((e: { file_id: string }) => e.file_id))];
+
     // Create indexing jobs
     const jobs: Array<{
       job_type: string;
@@ -144,6 +177,18 @@ serve(async (req) => {
       });
     }
 
+    // Files
+    for (const fileId of fileIds) {
+      jobs.push({
+        job_type: "index_file",
+        project_id,
+        source_type: "file",
+        source_id: fileId,
+        created_by: user.id,
+        priority: 7,
+      });
+    }
+
     if (jobs.length > 0) {
       const { error: insertError } = await supabase
         .from("indexing_jobs")
@@ -158,10 +203,12 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         jobs_created: jobs.length,
+        chunking_version: project?.chunking_version,
         breakdown: {
           reports: reports?.length || 0,
           tasks: tasks?.length || 0,
           insights: insights?.length || 0,
+          files: fileIds.length,
         },
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getAiProvider } from "../_shared/ai-provider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -14,11 +15,7 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
-
-    if (!lovableApiKey) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
+    const ai = getAiProvider();
 
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
@@ -79,18 +76,12 @@ serve(async (req) => {
     ];
 
     // Use AI to extract structured insights from the analysis
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "system",
-            content: `Você é um extrator de conhecimento científico. Dada uma análise de documento, extraia TODOS os insights individuais como itens estruturados de conhecimento.
+    const completion = await ai.chat({
+      model: ai.model('structured'),
+      messages: [
+        {
+          role: "system",
+          content: `Você é um extrator de conhecimento científico. Dada uma análise de documento, extraia TODOS os insights individuais como itens estruturados de conhecimento.
 
 REGRAS:
 1. Cada insight deve ser uma unidade atômica de informação (um dado, uma descoberta, uma observação).
@@ -103,25 +94,21 @@ REGRAS:
 
 Responda APENAS com um array JSON válido, sem markdown, sem explicações.
 Formato: [{"title": "...", "content": "...", "category": "...", "confidence": 0.9, "evidence": "..."}]`
-          },
-          {
-            role: "user",
-            content: `Análise do documento "${file?.name || 'desconhecido'}":\n\n${analysis_text}`
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 8000,
-      }),
+        },
+        {
+          role: "user",
+          content: `Análise do documento "${file?.name || 'desconhecido'}":\n\n${analysis_text}`
+        }
+      ],
+      temperature: 0.1,
+      max_tokens: 8000,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI error:", response.status, errorText);
-      throw new Error(`AI Gateway error: ${response.status}`);
+    if (!completion.ok) {
+      throw new Error(`AI Gateway error: ${completion.status}`);
     }
 
-    const data = await response.json();
-    let rawContent = data.choices?.[0]?.message?.content || "[]";
+    let rawContent = completion.content || "[]";
 
     // Clean potential markdown wrapping
     rawContent = rawContent.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
@@ -205,18 +192,12 @@ Formato: [{"title": "...", "content": "...", "category": "...", "confidence": 0.
     let measurementsSaved = 0;
 
     try {
-      const expResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${lovableApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-flash",
-          messages: [
-            {
-              role: "system",
-              content: `Você é um extrator de dados experimentais. Dada uma análise de documento científico, extraia TODOS os experimentos com medições quantitativas.
+      const expCompletion = await ai.chat({
+        model: ai.model('structured'),
+        messages: [
+          {
+            role: "system",
+            content: `Você é um extrator de dados experimentais. Dada uma análise de documento científico, extraia TODOS os experimentos com medições quantitativas.
 
 REGRAS ANTI-ALUCINAÇÃO:
 1. Cada medição DEVE ter: metric (nome da métrica), value (número), unit (unidade), source_excerpt (trecho exato do texto que contém o valor).
@@ -235,20 +216,18 @@ Responda APENAS com JSON válido, sem markdown:
   "conditions": [{"key": "monômero", "value": "UDMA"}],
   "citations": [{"page": 1, "excerpt": "trecho relevante"}]
 }]`
-            },
-            {
-              role: "user",
-              content: `Análise do documento "${file?.name || 'desconhecido'}":\n\n${analysis_text}`
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 8000,
-        }),
+          },
+          {
+            role: "user",
+            content: `Análise do documento "${file?.name || 'desconhecido'}":\n\n${analysis_text}`
+          }
+        ],
+        temperature: 0.1,
+        max_tokens: 8000,
       });
 
-      if (expResponse.ok) {
-        const expData = await expResponse.json();
-        let expRaw = expData.choices?.[0]?.message?.content || "[]";
+      if (expCompletion.ok) {
+        let expRaw = expCompletion.content || "[]";
         expRaw = expRaw.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
 
         let extractedExperiments: any[];
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type AiProvider, getAiProvider } from "../_shared/ai-provider.ts";
+import { createRerankers, parseRerankStages, rerank } from "../_shared/reranking.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -50,7 +52,7 @@ serve(async (req) => {
       );
     }
 
-    const { query, limit = 15, project_ids } = await req.json();
+    const { query, limit = 15, project_ids, rerank: rerankStages } = await req.json();
 
     if (!query || query.trim().length < 2) {
       return new Response(
@@ -188,25 +190,39 @@ serve(async (req) => {
       }
     }
 
-    // Deduplicate by source (keep highest scoring chunk per source)
+    // Second stage: rerank before picking one chunk per source
+    const stageNames = parseRerankStages(rerankStages ?? Deno.env.get("RERANK_STAGES"));
+    let ai: AiProvider | null = null;
+    if (stageNames.includes("llm")) {
+      try {
+        ai = getAiProvider();
+      } catch (error) {
+        console.warn("LLM reranking disabled:", error instanceof Error ? error.message : error);
+      }
+    }
+    const reranked = await rerank(
+      query,
+      results.map((r) => ({ id: r.chunk_id, text: r.chunk_text, score: r.score_final, result: r })),
+      createRerankers(stageNames, ai)
+    );
+    results = reranked.items.map((r) => ({ ...r.result, score_final: r.score }));
+
+    // Deduplicate by source in reranked order (first chunk per source wins);
+    // re-sorting by score would undo the MMR diversity order
     const seenSources = new Map<string, SearchResult>();
     for (const result of results) {
       const key = `${result.source_type}:${result.source_id}`;
-      const existing = seenSources.get(key);
-      if (!existing || result.score_final > existing.score_final) {
-        seenSources.set(key, result);
-      }
+      if (!seenSources.has(key)) seenSources.set(key, result);
     }
 
-    const dedupedResults = Array.from(seenSources.values())
-      .sort((a, b) => b.score_final - a.score_final)
-      .slice(0, limit);
+    const dedupedResults = Array.from(seenSources.values()).slice(0, limit);
 
     return new Response(
       JSON.stringify({
         results: dedupedResults,
         total: dedupedResults.length,
         query,
+        rerank: reranked.log,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
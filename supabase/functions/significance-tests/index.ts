@@ -0,0 +1,74 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_ALPHA, compareGroups } from "../_shared/statistics.ts";
+import { type GroupBy, loadMeasurementGroups } from "../_shared/measurement-groups.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Authorization required" }, 401);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return json({ error: "Invalid token" }, 401);
+
+    const { project_id, metric, group_by = 'experiment', condition_key, experiment_ids, alpha } = await req.json();
+    if (!project_id || !metric) return json({ error: "project_id and metric are required" }, 400);
+    if (group_by !== 'experiment' && group_by !== 'condition') {
+      return json({ error: "group_by must be 'experiment' or 'condition'" }, 400);
+    }
+    if (group_by === 'condition' && !condition_key) {
+      return json({ error: "condition_key is required when group_by = 'condition'" }, 400);
+    }
+    const level = typeof alpha === 'number' && alpha > 0 && alpha < 0.5 ? alpha : DEFAULT_ALPHA;
+
+    const { data: isMember } = await userClient.rpc("is_project_member", { _user_id: user.id, _project_id: project_id });
+    if (!isMember) return json({ error: "Sem permissão" }, 403);
+
+    const loaded = await loadMeasurementGroups(supabase, {
+      projectIds: [project_id],
+      metric,
+      groupBy: group_by as GroupBy,
+      conditionKey: condition_key,
+      experimentIds: Array.isArray(experiment_ids) ? experiment_ids : undefined,
+    });
+
+    // compareGroups pools mean ± SD (n) summaries with raw values, so it decides
+    // which groups have enough specimens
+    const comparison = compareGroups(loaded.groups, level);
+    if (comparison.groups.length - comparison.excluded.length < 2) {
+      return json({
+        ...loaded,
+        comparison: null,
+        message: "São necessários ao menos 2 grupos com 2 ou mais medições para comparar.",
+      });
+    }
+
+    return json({ ...loaded, comparison });
+  } catch (error) {
+    console.error("significance-tests error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,211 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_ALPHA } from "../_shared/statistics.ts";
+import { type GroupBy, loadMeasurementGroups } from "../_shared/measurement-groups.ts";
+import {
+  WEIBULL_MIN_SAMPLES,
+  type WeibullFit,
+  fitWeibull,
+  isWeibullMetric,
+  weibullDerivedMetrics,
+} from "../_shared/weibull.ts";
+import { convertUnit } from "../_shared/units.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DERIVED_METHOD = 'weibull_mle';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function fmt(v: number): string {
+  return v.toFixed(2).replace('.', ',');
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Authorization required" }, 401);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return json({ error: "Invalid token" }, 401);
+
+    const { project_id, metric, group_by = 'experiment', condition_key, alpha } = await req.json();
+    if (!project_id || !metric) return json({ error: "project_id and metric are required" }, 400);
+    if (!isWeibullMetric(metric)) return json({ error: `Análise de Weibull não se aplica à métrica ${metric}` }, 400);
+    if (group_by !== 'experiment' && group_by !== 'condition') {
+      return json({ error: "group_by must be 'experiment' or 'condition'" }, 400);
+    }
+    if (group_by === 'condition' && !condition_key) {
+      return json({ error: "condition_key is required when group_by = 'condition'" }, 400);
+    }
+    const level = typeof alpha === 'number' && alpha > 0 && alpha < 0.5 ? alpha : DEFAULT_ALPHA;
+
+    // Results are persisted, so viewers can read them but not run the analysis
+    const { data: membership } = await supabase
+      .from("project_members")
+      .select("role_in_project")
+      .eq("user_id", user.id)
+      .eq("project_id", project_id)
+      .single();
+
+    if (!membership || !["owner", "manager", "researcher"].includes(membership.role_in_project)) {
+      return json({ error: "Sem permissão" }, 403);
+    }
+
+    const loaded = await loadMeasurementGroups(supabase, {
+      projectIds: [project_id], metric, groupBy: group_by as GroupBy, conditionKey: condition_key,
+    });
+
+    const fits: { label: string; experiment_ids: string[]; fit: WeibullFit }[] = [];
+    const skipped: { label: string; n: number }[] = [];
+    for (const group of loaded.groups) {
+      const positives = group.values.filter(v => Number.isFinite(v) && v > 0);
+      if (positives.length < WEIBULL_MIN_SAMPLES || new Set(positives).size < 2) {
+        skipped.push({ label: group.label, n: group.values.length });
+        continue;
+      }
+      fits.push({ label: group.label, experiment_ids: group.experiment_ids, fit: fitWeibull(group.values, level) });
+    }
+
+    // Replace the previous run for this grouping: derived measurements, fits and insights
+    const derived = weibullDerivedMetrics(metric);
+    let previous = supabase
+      .from('weibull_analyses')
+      .select('id, modulus_measurement_id, sigma0_measurement_id')
+      .eq('project_id', project_id)
+      .eq('metric', metric)
+      .eq('group_by', group_by);
+    previous = group_by === 'condition' ? previous.eq('condition_key', condition_key) : previous.is('condition_key', null);
+    const { data: previousRows } = await previous;
+    if (previousRows && previousRows.length > 0) {
+      const oldMeasurementIds = previousRows
+        .flatMap((r: { modulus_measurement_id: string | null; sigma0_measurement_id: string | null }) =>
+          [r.modulus_measurement_id, r.sigma0_measurement_id])
+        .filter(Boolean);
+      if (oldMeasurementIds.length > 0) await supabase.from('measurements').delete().in('id', oldMeasurementIds);
+      await supabase.from('weibull_analyses').delete().in('id', previousRows.map((r: { id: string }) => r.id));
+    }
+
+    const unit = loaded.unit || '';
+    const saved = [];
+    for (const { label, experiment_ids, fit } of fits) {
+      const ciPct = Math.round((1 - fit.alpha) * 100);
+      const summary = `Weibull (MLE, n=${fit.n}) ${label}: m=${fmt(fit.modulus)} [IC${ciPct}% ${fmt(fit.modulus_ci[0])}–${fmt(fit.modulus_ci[1])}], σ0=${fmt(fit.characteristic_strength)} ${unit} [IC${ciPct}% ${fmt(fit.characteristic_strength_ci[0])}–${fmt(fit.characteristic_strength_ci[1])}]`;
+
+      // Derived metrics only make sense attached to a single experiment
+      let modulusId: string | null = null;
+      let sigma0Id: string | null = null;
+      if (group_by === 'experiment' && experiment_ids.length === 1) {
+        const common = {
+          experiment_id: experiment_ids[0],
+          method: DERIVED_METHOD,
+          confidence: fit.n >= 15 ? 'high' : 'medium',
+          source_excerpt: summary.substring(0, 500),
+          notes: `Derivado de ${fit.n} réplicas de ${metric}`,
+        };
+        const { data: rows, error: derivedError } = await supabase.from('measurements').insert([
+          { ...common, metric: derived.modulus, raw_metric_name: 'Módulo de Weibull', value: fit.modulus, unit: '-', value_canonical: fit.modulus, unit_canonical: '-', conversion: convertUnit(fit.modulus, '-', '-').provenance, value_raw: String(fit.modulus) },
+          // The fit already runs on canonical values
+          { ...common, metric: derived.sigma0, raw_metric_name: 'Resistência característica (σ0)', value: fit.characteristic_strength, unit, value_canonical: fit.characteristic_strength, unit_canonical: unit, conversion: convertUnit(fit.characteristic_strength, unit, unit).provenance, value_raw: String(fit.characteristic_strength) },
+        ]).select('id, metric');
+        if (derivedError) throw new Error(`measurements: ${derivedError.message}`);
+        modulusId = rows?.find((r: { metric: string }) => r.metric === derived.modulus)?.id ?? null;
+        sigma0Id = rows?.find((r: { metric: string }) => r.metric === derived.sigma0)?.id ?? null;
+      }
+
+      const { data: row, error } = await supabase.from('weibull_analyses').insert({
+        project_id,
+        metric,
+        unit: loaded.unit,
+        group_by,
+        condition_key: group_by === 'condition' ? condition_key : null,
+        group_label: label,
+        experiment_ids,
+        n: fit.n,
+        alpha: fit.alpha,
+        modulus: fit.modulus,
+        modulus_ci_low: fit.modulus_ci[0],
+        modulus_ci_high: fit.modulus_ci[1],
+        modulus_unbiased: fit.modulus_unbiased,
+        characteristic_strength: fit.characteristic_strength,
+        characteristic_strength_ci_low: fit.characteristic_strength_ci[0],
+        characteristic_strength_ci_high: fit.characteristic_strength_ci[1],
+        points: fit.points,
+        modulus_measurement_id: modulusId,
+        sigma0_measurement_id: sigma0Id,
+        created_by: user.id,
+      }).select('*').single();
+      if (error) throw new Error(`weibull_analyses: ${error.message}`);
+      saved.push({ ...row, summary });
+    }
+
+    // One insight per run so reports and the assistant can cite the fits
+    let existing = supabase
+      .from('knowledge_items')
+      .select('id')
+      .eq('project_id', project_id)
+      .eq('relationship_type', 'weibull_analysis')
+      .eq('ref_metric_key', metric)
+      .is('deleted_at', null);
+    existing = group_by === 'condition' ? existing.eq('ref_condition_key', condition_key) : existing.is('ref_condition_key', null);
+    const { data: existingInsights } = await existing;
+    if (existingInsights && existingInsights.length > 0) {
+      await supabase
+        .from('knowledge_items')
+        .update({ deleted_at: new Date().toISOString(), deleted_by: user.id })
+        .in('id', existingInsights.map((i: { id: string }) => i.id));
+    }
+    if (saved.length > 0) {
+      const { error: insightError } = await supabase.from('knowledge_items').insert({
+        project_id,
+        category: 'finding',
+        title: `Análise de Weibull: ${metric}`,
+        content: saved.map(s => s.summary).join('; ').substring(0, 500),
+        evidence: `Estimativas de máxima verossimilhança com limites de confiança por quantidades pivotais (ASTM C1239). Grupos: ${saved.length}.`,
+        confidence: Math.min(...fits.map(f => f.fit.n)) >= 15 ? 0.9 : 0.7,
+        extracted_by: user.id,
+        relationship_type: 'weibull_analysis',
+        ref_metric_key: metric,
+        ref_condition_key: group_by === 'condition' ? condition_key : null,
+        auto_validated: true,
+        auto_validation_reason: 'statistical_engine',
+        human_verified: false,
+        validated_by: user.id,
+        validated_at: new Date().toISOString(),
+      });
+      if (insightError) throw new Error(`knowledge_items: ${insightError.message}`);
+    }
+
+    return json({
+      metric,
+      unit: loaded.unit,
+      analyses: saved,
+      skipped,
+      min_samples: WEIBULL_MIN_SAMPLES,
+      dropped_units: loaded.dropped_units,
+      missing_condition: loaded.missing_condition,
+    });
+  } catch (error) {
+    console.error("weibull-analysis error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,213 @@
+-- ============================================================
+-- MIGRATION: Metric optimization direction
+-- (A) metrics_catalog.direction (maximize / minimize / target range)
+-- (B) metric_rank_score() / metric_is_better() helpers
+-- (C) current_best ranks by direction instead of value DESC
+-- (D) check_and_supersede_claims only supersedes benchmarks that
+--     the new measurement actually improves on
+-- ============================================================
+
+-- A) Direction columns
+ALTER TABLE public.metrics_catalog
+  ADD COLUMN IF NOT EXISTS direction text NOT NULL DEFAULT 'maximize',
+  ADD COLUMN IF NOT EXISTS target_min numeric,
+  ADD COLUMN IF NOT EXISTS target_max numeric;
+
+ALTER TABLE public.metrics_catalog
+  DROP CONSTRAINT IF EXISTS metrics_catalog_direction_check;
+ALTER TABLE public.metrics_catalog
+  ADD CONSTRAINT metrics_catalog_direction_check
+  CHECK (direction IN ('maximize', 'minimize', 'target'));
+
+ALTER TABLE public.metrics_catalog
+  DROP CONSTRAINT IF EXISTS metrics_catalog_target_range_check;
+ALTER TABLE public.metrics_catalog
+  ADD CONSTRAINT metrics_catalog_target_range_check
+  CHECK (
+    direction <> 'target'
+    OR (
+      (target_min IS NOT NULL OR target_max IS NOT NULL)
+      AND (target_min IS NULL OR target_max IS NULL OR target_min <= target_max)
+    )
+  );
+
+-- Lower is better for these properties
+UPDATE public.metrics_catalog
+SET direction = 'minimize'
+WHERE canonical_name IN (
+  'water_sorption', 'solubility', 'surface_roughness',
+  'polymerization_shrinkage', 'delta_e'
+);
+
+-- B) Direction-aware score: lower score = better result.
+-- maximize → -value, minimize → value, target → distance outside [min, max]
+CREATE OR REPLACE FUNCTION public.metric_rank_score(
+  p_direction text,
+  p_value numeric,
+  p_target_min numeric,
+  p_target_max numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE COALESCE(p_direction, 'maximize')
+    WHEN 'minimize' THEN p_value
+    WHEN 'target' THEN GREATEST(
+      COALESCE(p_target_min, p_value) - p_value,
+      p_value - COALESCE(p_target_max, p_value),
+      0
+    )
+    ELSE -p_value
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.metric_is_better(
+  p_metric_key text,
+  p_candidate numeric,
+  p_baseline numeric
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_candidate IS NULL THEN false
+    WHEN p_baseline IS NULL THEN true
+    ELSE public.metric_rank_score(mc.direction, p_candidate, mc.target_min, mc.target_max)
+       < public.metric_rank_score(mc.direction, p_baseline, mc.target_min, mc.target_max)
+  END
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.metrics_catalog mc ON mc.canonical_name = p_metric_key;
+$$;
+
+-- C) current_best: best measurement per (project, metric_key, unit_canonical)
+-- Ordered by: direction-aware score, then evidence_date desc, then confidence
+CREATE OR REPLACE VIEW public.current_best
+WITH (security_invoker = on)
+AS
+WITH ranked AS (
+  SELECT
+    m.id              AS measurement_id,
+    e.project_id,
+    e.id              AS experiment_id,
+    e.title           AS experiment_title,
+    e.source_file_id  AS doc_id,
+    m.metric          AS metric_key,
+    m.raw_metric_name,
+    m.value,
+    m.unit,
+    COALESCE(m.value_canonical, m.value)  AS value_canonical,
+    COALESCE(m.unit_canonical, m.unit)    AS unit_canonical,
+    m.source_excerpt  AS excerpt,
+    m.confidence,
+    COALESCE(m.evidence_date, e.evidence_date, e.created_at) AS evidence_date,
+    COALESCE(mc.direction, 'maximize') AS direction,
+    mc.target_min,
+    mc.target_max,
+    ROW_NUMBER() OVER (
+      PARTITION BY e.project_id, m.metric, COALESCE(m.unit_canonical, m.unit)
+      ORDER BY
+        public.metric_rank_score(mc.direction, COALESCE(m.value_canonical, m.value), mc.target_min, mc.target_max) ASC,
+        COALESCE(m.evidence_date, e.evidence_date, e.created_at) DESC,
+        CASE m.confidence WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END DESC
+    ) AS rn
+  FROM public.measurements m
+  JOIN public.experiments e ON e.id = m.experiment_id
+  LEFT JOIN public.metrics_catalog mc ON mc.canonical_name = m.metric
+  WHERE e.deleted_at IS NULL
+)
+SELECT
+  measurement_id, project_id, experiment_id, experiment_title,
+  doc_id, metric_key, raw_metric_name,
+  value, unit, value_canonical, unit_canonical,
+  excerpt, confidence, evidence_date,
+  direction, target_min, target_max
+FROM ranked
+WHERE rn = 1;
+
+-- D) Direction-aware superseding
+CREATE OR REPLACE FUNCTION public.check_and_supersede_claims(
+  p_project_id uuid,
+  p_metric_key text,
+  p_new_value_canonical numeric,
+  p_new_measurement_id uuid,
+  p_new_evidence_date timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_superseded_count integer := 0;
+  v_claim record;
+  v_benchmark record;
+  v_direction text;
+BEGIN
+  SELECT COALESCE(direction, 'maximize') INTO v_direction
+  FROM public.metrics_catalog
+  WHERE canonical_name = p_metric_key;
+  v_direction := COALESCE(v_direction, 'maximize');
+
+  -- Supersede active claims of comparative/temporal/superlative type
+  -- for the same metric where the new measurement is strictly superior
+  FOR v_claim IN
+    SELECT id
+    FROM public.claims
+    WHERE project_id = p_project_id
+      AND metric_key = p_metric_key
+      AND status = 'active'
+      AND claim_type IN ('comparative', 'temporal', 'superlative', 'benchmark_ref')
+      AND (evidence_date IS NULL OR evidence_date < p_new_evidence_date)
+  LOOP
+    UPDATE public.claims
+    SET
+      status = 'superseded',
+      superseded_at = now(),
+      superseded_reason = format(
+        'Superado por measurement %s com valor_canonical %s em %s',
+        p_new_measurement_id, p_new_value_canonical,
+        to_char(p_new_evidence_date, 'YYYY-MM-DD')
+      ),
+      updated_at = now()
+    WHERE id = v_claim.id;
+    v_superseded_count := v_superseded_count + 1;
+  END LOOP;
+
+  -- Supersede active benchmarks for the same metric where the new measurement
+  -- is better according to the metric's direction (maximize/minimize/target)
+  FOR v_benchmark IN
+    SELECT id, baseline_value_canonical, as_of_date
+    FROM public.benchmarks
+    WHERE project_id = p_project_id
+      AND metric_key = p_metric_key
+      AND status = 'active'
+  LOOP
+    IF public.metric_is_better(p_metric_key, p_new_value_canonical, v_benchmark.baseline_value_canonical)
+       AND p_new_evidence_date > COALESCE(v_benchmark.as_of_date, '1970-01-01'::timestamptz)
+    THEN
+      UPDATE public.benchmarks
+      SET
+        status = 'superseded',
+        superseded_by_measurement_id = p_new_measurement_id,
+        superseded_at = now(),
+        notes = format(
+          'Superado em %s: novo valor %s %s baseline %s (%s)',
+          to_char(p_new_evidence_date, 'YYYY-MM-DD'),
+          p_new_value_canonical,
+          CASE v_direction WHEN 'minimize' THEN '<' WHEN 'target' THEN 'mais próximo do alvo que' ELSE '>' END,
+          v_benchmark.baseline_value_canonical,
+          v_direction
+        ),
+        updated_at = now()
+      WHERE id = v_benchmark.id;
+      v_superseded_count := v_superseded_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_superseded_count;
+END;
+$$;
@@ -0,0 +1,109 @@
+-- ============================================================
+-- MIGRATION: Constraint lexicon registry
+-- Admin-managed materials/additives/properties used by rag-answer
+-- to detect query constraints (extractConstraints) and to search
+-- for evidence (quickEvidenceCheck). Combined at runtime with
+-- approved entity_aliases and metrics_catalog.aliases.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.constraint_lexicon (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type    text NOT NULL CHECK (entity_type IN ('material', 'additive', 'property')),
+  canonical_name text NOT NULL,
+  display_name   text,
+  -- Regex patterns (JS syntax) matched against the lowercased, accent-stripped query
+  match_patterns text[] NOT NULL DEFAULT '{}'::text[],
+  -- Literal terms used for ILIKE evidence lookups (titles, conditions, chunks, metrics)
+  search_terms   text[] NOT NULL DEFAULT '{}'::text[],
+  -- A single hit of this entry is enough to mark the query as strongly constrained
+  strong_alone   boolean NOT NULL DEFAULT false,
+  active         boolean NOT NULL DEFAULT true,
+  notes          text,
+  created_by     uuid,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  updated_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_constraint_lexicon_type_name
+  ON public.constraint_lexicon (entity_type, canonical_name);
+CREATE INDEX IF NOT EXISTS idx_constraint_lexicon_active
+  ON public.constraint_lexicon (entity_type) WHERE active;
+
+ALTER TABLE public.constraint_lexicon ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view constraint lexicon"
+  ON public.constraint_lexicon FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage constraint lexicon"
+  ON public.constraint_lexicon FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Service role full access to constraint lexicon"
+  ON public.constraint_lexicon FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER update_constraint_lexicon_updated_at
+  BEFORE UPDATE ON public.constraint_lexicon
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =============================================
+-- SEED: former hard-coded dictionaries in rag-answer
+-- =============================================
+INSERT INTO public.constraint_lexicon (entity_type, canonical_name, display_name, match_patterns, search_terms, strong_alone) VALUES
+  -- Materials
+  ('material', 'vitality',   'Vitality',   ARRAY['vitality'],   ARRAY['vitality'],   false),
+  ('material', 'filtek',     'Filtek',     ARRAY['filtek'],     ARRAY['filtek'],     false),
+  ('material', 'charisma',   'Charisma',   ARRAY['charisma'],   ARRAY['charisma'],   false),
+  ('material', 'tetric',     'Tetric',     ARRAY['tetric'],     ARRAY['tetric'],     false),
+  ('material', 'grandio',    'Grandio',    ARRAY['grandio'],    ARRAY['grandio'],    false),
+  ('material', 'z350',       'Z350',       ARRAY['z\s*350'],    ARRAY['z350', 'z 350'], false),
+  ('material', 'z250',       'Z250',       ARRAY['z\s*250'],    ARRAY['z250', 'z 250'], false),
+  ('material', 'brilliant',  'Brilliant',  ARRAY['brilliant'],  ARRAY['brilliant'],  false),
+  ('material', 'herculite',  'Herculite',  ARRAY['herculite'],  ARRAY['herculite'],  false),
+  ('material', 'clearfil',   'Clearfil',   ARRAY['clearfil'],   ARRAY['clearfil'],   false),
+  ('material', 'estelite',   'Estelite',   ARRAY['estelite'],   ARRAY['estelite'],   false),
+  ('material', 'ips',        'IPS',        ARRAY['\bips\b'],    ARRAY['ips'],        false),
+  ('material', 'ceram',      'Ceram',      ARRAY['\bceram'],    ARRAY['ceram'],      false),
+  -- Additives
+  ('additive', 'silver_nanoparticles', 'Ag/prata/silver',
+    ARRAY['prata|silver|\bag\b|nanopart[ií]culas?'],
+    ARRAY['silver', 'prata', 'agnp', 'nano prata', 'nanosilver', 'ag-np'], true),
+  ('additive', 'silica_nanoparticle', 'nano sílica',
+    ARRAY['s[ií]lica\s*0[\.,]?4\s*n?m|sio2\s*0[\.,]?4|nano\s*s[ií]lica|nano\s*silica'],
+    ARRAY['silica 0.4', 'silica 0,4', 'sílica 0.4', 'sio2 0.4', 'nano silica', 'nano sílica', 'silica 0.4nm'], false),
+  ('additive', 'carbon_nanotubes', 'nanotubos de carbono',
+    ARRAY['nanotubo|nanotube|cnt\b|mwcnt|swcnt'],
+    ARRAY['nanotubo', 'nanotube', 'mwcnt', 'swcnt'], false),
+  ('additive', 'hydroxyapatite', 'hidroxiapatita',
+    ARRAY['hidroxiapatita|hydroxyapatite|\bhap?\b'],
+    ARRAY['hidroxiapatita', 'hydroxyapatite'], false),
+  ('additive', 'bomar',  'BOMAR',  ARRAY['bomar'],        ARRAY['bomar'],            false),
+  ('additive', 'tegdma', 'TEGDMA', ARRAY['tegdma'],       ARRAY['tegdma'],           false),
+  ('additive', 'udma',   'UDMA',   ARRAY['\budma\b'],     ARRAY['udma'],             false),
+  ('additive', 'bisgma', 'BisGMA', ARRAY['bis[\s-]?gma'], ARRAY['bisgma', 'bis-gma'], false),
+  -- Properties
+  ('property', 'flexural_strength', 'resistência flexural',
+    ARRAY['resist[eê]ncia flexural|flexural strength|\brf\b'],
+    ARRAY['flexural_strength', 'flexural strength', 'resistencia flexural', 'resistncia_flexural', 'resistncia_flexural_rf', 'resistncia_flexural_com_carga', 'resistncia_flexural_resina_base', 'flexural_strength_control', 'flexural_strength_ct_0', 'flexural_strength_tp_45', 'flexural_strength_and', 'rf'], false),
+  ('property', 'flexural_modulus', 'módulo flexural',
+    ARRAY['m[oó]dulo flexural|flexural modulus|\bmf\b'],
+    ARRAY['flexural_modulus', 'flexural modulus', 'modulo flexural', 'mdulo_flexural', 'mdulo_flexural_mf', 'mdulo_de_flexo', 'mf'], false),
+  ('property', 'hardness', 'dureza',
+    ARRAY['dureza|vickers|knoop|hardness|\bhv\b|\bkhn\b'],
+    ARRAY['hardness', 'dureza', 'vickers'], false),
+  ('property', 'water_sorption', 'sorção de água',
+    ARRAY['sor[cç][aã]o|sorption|absor[cç][aã]o de [aá]gua'],
+    ARRAY['water_sorption', 'sorption', 'sorção'], false),
+  ('property', 'color', 'cor (ΔE/yellowing)',
+    ARRAY['\bcor\b|color|yellowing|amarel|delta[\s_]?e|Δe'],
+    ARRAY['color', 'yellowing', 'delta_e', 'whiteness', 'amarel', 'cor', 'e_reference', 'e_05_uv', 'e_15_hals', 'e_30_hals', 'erro_relativo_estimado_nos_valores_de_cor'], false),
+  ('property', 'degree_of_conversion', 'grau de conversão',
+    ARRAY['convers[aã]o|conversion|\bdc\b'],
+    ARRAY['degree_of_conversion', 'conversão', 'conversion'], false),
+  ('property', 'elastic_modulus', 'módulo elástico',
+    ARRAY['m[oó]dulo el[aá]stic|elastic modulus|young'],
+    ARRAY['elastic_modulus', 'módulo elástico', 'elastic modulus'], false)
+ON CONFLICT (entity_type, canonical_name) DO NOTHING;
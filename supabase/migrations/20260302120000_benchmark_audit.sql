@@ -0,0 +1,259 @@
+-- ============================================================
+-- MIGRATION: Benchmark curation + audit trail
+-- (A) benchmarks.pinned: pinned benchmarks are never auto-superseded
+-- (B) benchmark_events: append-only audit log of status changes
+-- (C) manage_benchmark(): manager-only supersede / reinstate / pin / unpin
+-- (D) check_and_supersede_claims skips pinned benchmarks and logs events
+-- ============================================================
+
+-- A) Pin columns
+ALTER TABLE public.benchmarks
+  ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pinned_by uuid,
+  ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
+
+-- B) Audit log
+CREATE TABLE IF NOT EXISTS public.benchmark_events (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  benchmark_id uuid NOT NULL REFERENCES public.benchmarks(id) ON DELETE CASCADE,
+  project_id   uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  action       text NOT NULL CHECK (action IN ('supersede', 'reinstate', 'pin', 'unpin', 'auto_supersede')),
+  -- NULL for automatic events (check_and_supersede_claims)
+  actor_id     uuid,
+  reason       text,
+  old_status   text,
+  new_status   text,
+  superseded_by_benchmark_id   uuid REFERENCES public.benchmarks(id) ON DELETE SET NULL,
+  superseded_by_measurement_id uuid REFERENCES public.measurements(id) ON DELETE SET NULL,
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_benchmark_events_benchmark
+  ON public.benchmark_events (benchmark_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_benchmark_events_project
+  ON public.benchmark_events (project_id, created_at DESC);
+
+ALTER TABLE public.benchmark_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view benchmark events"
+  ON public.benchmark_events FOR SELECT
+  USING (is_project_member(auth.uid(), project_id));
+
+CREATE POLICY "Admins can view all benchmark events"
+  ON public.benchmark_events FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access to benchmark events"
+  ON public.benchmark_events FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- C) Manual curation (writes go through this function only)
+CREATE OR REPLACE FUNCTION public.manage_benchmark(
+  p_benchmark_id uuid,
+  p_action text,
+  p_reason text DEFAULT NULL,
+  p_superseded_by_benchmark_id uuid DEFAULT NULL
+)
+RETURNS public.benchmarks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_benchmark public.benchmarks;
+  v_old_status text;
+  v_new_status text;
+BEGIN
+  SELECT * INTO v_benchmark FROM public.benchmarks WHERE id = p_benchmark_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Benchmark % não encontrado', p_benchmark_id;
+  END IF;
+
+  IF NOT has_project_role(auth.uid(), v_benchmark.project_id, 'manager'::project_role) THEN
+    RAISE EXCEPTION 'Apenas gerentes do projeto podem alterar benchmarks';
+  END IF;
+
+  IF p_action NOT IN ('supersede', 'reinstate', 'pin', 'unpin') THEN
+    RAISE EXCEPTION 'Ação inválida: %', p_action;
+  END IF;
+
+  IF p_action = 'supersede' AND p_superseded_by_benchmark_id IS NOT NULL THEN
+    IF p_superseded_by_benchmark_id = p_benchmark_id OR NOT EXISTS (
+      SELECT 1 FROM public.benchmarks
+      WHERE id = p_superseded_by_benchmark_id
+        AND project_id = v_benchmark.project_id
+        AND metric_key = v_benchmark.metric_key
+    ) THEN
+      RAISE EXCEPTION 'Benchmark substituto inválido';
+    END IF;
+  END IF;
+
+  -- Only one active benchmark per project, metric and material
+  IF p_action = 'reinstate' AND v_benchmark.status <> 'active' AND EXISTS (
+    SELECT 1 FROM public.benchmarks
+    WHERE project_id = v_benchmark.project_id
+      AND metric_key = v_benchmark.metric_key
+      AND material_label IS NOT DISTINCT FROM v_benchmark.material_label
+      AND status = 'active'
+      AND id <> p_benchmark_id
+  ) THEN
+    RAISE EXCEPTION 'Já existe um benchmark ativo para esta métrica e material; substitua-o antes de reativar este';
+  END IF;
+
+  v_old_status := v_benchmark.status;
+  v_new_status := CASE p_action
+    WHEN 'supersede' THEN 'superseded'
+    WHEN 'reinstate' THEN 'active'
+    ELSE v_benchmark.status
+  END;
+
+  UPDATE public.benchmarks
+  SET
+    status = v_new_status,
+    superseded_at = CASE p_action
+      WHEN 'supersede' THEN now()
+      WHEN 'reinstate' THEN NULL
+      ELSE superseded_at
+    END,
+    superseded_by_benchmark_id = CASE p_action
+      WHEN 'supersede' THEN p_superseded_by_benchmark_id
+      WHEN 'reinstate' THEN NULL
+      ELSE superseded_by_benchmark_id
+    END,
+    superseded_by_measurement_id = CASE p_action
+      WHEN 'supersede' THEN NULL
+      WHEN 'reinstate' THEN NULL
+      ELSE superseded_by_measurement_id
+    END,
+    pinned = CASE p_action
+      WHEN 'pin' THEN true
+      WHEN 'unpin' THEN false
+      WHEN 'supersede' THEN false
+      ELSE pinned
+    END,
+    pinned_by = CASE p_action
+      WHEN 'pin' THEN auth.uid()
+      WHEN 'unpin' THEN NULL
+      WHEN 'supersede' THEN NULL
+      ELSE pinned_by
+    END,
+    pinned_at = CASE p_action
+      WHEN 'pin' THEN now()
+      WHEN 'unpin' THEN NULL
+      WHEN 'supersede' THEN NULL
+      ELSE pinned_at
+    END,
+    updated_at = now()
+  WHERE id = p_benchmark_id
+  RETURNING * INTO v_benchmark;
+
+  INSERT INTO public.benchmark_events (
+    benchmark_id, project_id, action, actor_id, reason,
+    old_status, new_status, superseded_by_benchmark_id
+  ) VALUES (
+    p_benchmark_id, v_benchmark.project_id, p_action, auth.uid(), p_reason,
+    v_old_status, v_new_status,
+    CASE WHEN p_action = 'supersede' THEN p_superseded_by_benchmark_id END
+  );
+
+  RETURN v_benchmark;
+END;
+$$;
+
+-- D) Automatic superseding respects pins and writes to the audit log
+CREATE OR REPLACE FUNCTION public.check_and_supersede_claims(
+  p_project_id uuid,
+  p_metric_key text,
+  p_new_value_canonical numeric,
+  p_new_measurement_id uuid,
+  p_new_evidence_date timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_superseded_count integer := 0;
+  v_claim record;
+  v_benchmark record;
+  v_direction text;
+  v_reason text;
+BEGIN
+  SELECT COALESCE(direction, 'maximize') INTO v_direction
+  FROM public.metrics_catalog
+  WHERE canonical_name = p_metric_key;
+  v_direction := COALESCE(v_direction, 'maximize');
+
+  -- Supersede active claims of comparative/temporal/superlative type
+  -- for the same metric where the new measurement is strictly superior
+  FOR v_claim IN
+    SELECT id
+    FROM public.claims
+    WHERE project_id = p_project_id
+      AND metric_key = p_metric_key
+      AND status = 'active'
+      AND claim_type IN ('comparative', 'temporal', 'superlative', 'benchmark_ref')
+      AND (evidence_date IS NULL OR evidence_date < p_new_evidence_date)
+  LOOP
+    UPDATE public.claims
+    SET
+      status = 'superseded',
+      superseded_at = now(),
+      superseded_reason = format(
+        'Superado por measurement %s com valor_canonical %s em %s',
+        p_new_measurement_id, p_new_value_canonical,
+        to_char(p_new_evidence_date, 'YYYY-MM-DD')
+      ),
+      updated_at = now()
+    WHERE id = v_claim.id;
+    v_superseded_count := v_superseded_count + 1;
+  END LOOP;
+
+  -- Supersede active, non-pinned benchmarks for the same metric where the new
+  -- measurement is better according to the metric's direction
+  FOR v_benchmark IN
+    SELECT id, baseline_value_canonical, as_of_date
+    FROM public.benchmarks
+    WHERE project_id = p_project_id
+      AND metric_key = p_metric_key
+      AND status = 'active'
+      AND NOT pinned
+  LOOP
+    IF public.metric_is_better(p_metric_key, p_new_value_canonical, v_benchmark.baseline_value_canonical)
+       AND p_new_evidence_date > COALESCE(v_benchmark.as_of_date, '1970-01-01'::timestamptz)
+    THEN
+      v_reason := format(
+        'Superado em %s: novo valor %s %s baseline %s (%s)',
+        to_char(p_new_evidence_date, 'YYYY-MM-DD'),
+        p_new_value_canonical,
+        CASE v_direction WHEN 'minimize' THEN '<' WHEN 'target' THEN 'mais próximo do alvo que' ELSE '>' END,
+        v_benchmark.baseline_value_canonical,
+        v_direction
+      );
+
+      UPDATE public.benchmarks
+      SET
+        status = 'superseded',
+        superseded_by_measurement_id = p_new_measurement_id,
+        superseded_at = now(),
+        notes = v_reason,
+        updated_at = now()
+      WHERE id = v_benchmark.id;
+
+      INSERT INTO public.benchmark_events (
+        benchmark_id, project_id, action, reason,
+        old_status, new_status, superseded_by_measurement_id
+      ) VALUES (
+        v_benchmark.id, p_project_id, 'auto_supersede', v_reason,
+        'active', 'superseded', p_new_measurement_id
+      );
+
+      v_superseded_count := v_superseded_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_superseded_count;
+END;
+$$;
@@ -0,0 +1,113 @@
+-- ============================================================
+-- MIGRATION: RAG quality dashboard
+-- (A) rag_logs.project_id: primary project of project-mode requests
+-- (B) Managers can read the RAG logs of their projects
+-- (C) get_rag_quality_stats(): aggregates for the dashboard
+--     (SECURITY INVOKER — RLS decides which logs are counted)
+-- ============================================================
+
+-- A) Project attribution (NULL for global-mode requests)
+ALTER TABLE public.rag_logs
+  ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rag_logs_project
+  ON public.rag_logs (project_id, created_at DESC);
+
+-- B) Manager visibility
+CREATE POLICY "Managers can view project RAG logs"
+  ON public.rag_logs FOR SELECT
+  USING (project_id IS NOT NULL AND has_project_role(auth.uid(), project_id, 'manager'::project_role));
+
+-- C) Aggregates
+CREATE OR REPLACE FUNCTION public.get_rag_quality_stats(
+  p_since timestamptz,
+  p_project_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH logs AS (
+    SELECT *
+    FROM public.rag_logs
+    WHERE created_at >= p_since
+      AND (p_project_id IS NULL OR project_id = p_project_id)
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'latency_p50', percentile_cont(0.5) WITHIN GROUP (ORDER BY latency_ms),
+        'latency_p90', percentile_cont(0.9) WITHIN GROUP (ORDER BY latency_ms),
+        'latency_p95', percentile_cont(0.95) WITHIN GROUP (ORDER BY latency_ms),
+        'latency_p99', percentile_cont(0.99) WITHIN GROUP (ORDER BY latency_ms),
+        'avg_groundedness', avg(groundedness_score),
+        'avg_citation_coverage', avg(citation_coverage),
+        'escalated_count', count(*) FILTER (WHERE model_escalated),
+        'contradiction_count', count(*) FILTER (WHERE contradiction_flag),
+        'fail_closed_count', count(*) FILTER (WHERE (diagnostics->>'fail_closed_triggered')::boolean),
+        'tokens_input', COALESCE(sum(tokens_input), 0),
+        'tokens_output', COALESCE(sum(tokens_output), 0)
+      )
+      FROM logs
+    ),
+    'fail_closed_reasons', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('reason', reason, 'count', n) ORDER BY n DESC)
+      FROM (
+        SELECT COALESCE(diagnostics->>'fail_closed_reason', 'unknown') AS reason, count(*) AS n
+        FROM logs
+        WHERE (diagnostics->>'fail_closed_triggered')::boolean
+        GROUP BY 1
+      ) r
+    ), '[]'::jsonb),
+    'tiers_by_day', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('day', day, 'tier', tier, 'count', n) ORDER BY day, tier)
+      FROM (
+        SELECT date_trunc('day', created_at)::date AS day, COALESCE(complexity_tier, 'none') AS tier, count(*) AS n
+        FROM logs
+        GROUP BY 1, 2
+      ) t
+    ), '[]'::jsonb),
+    'tokens_by_project', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'project_id', project_id, 'project_name', project_name, 'requests', n,
+        'tokens_input', tin, 'tokens_output', tout
+      ) ORDER BY tin + tout DESC)
+      FROM (
+        SELECT l.project_id, p.name AS project_name, count(*) AS n,
+               COALESCE(sum(l.tokens_input), 0) AS tin, COALESCE(sum(l.tokens_output), 0) AS tout
+        FROM logs l
+        LEFT JOIN public.projects p ON p.id = l.project_id
+        GROUP BY l.project_id, p.name
+      ) tp
+    ), '[]'::jsonb),
+    'tokens_by_user', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', user_id, 'user_name', user_name, 'requests', n,
+        'tokens_input', tin, 'tokens_output', tout
+      ) ORDER BY tin + tout DESC)
+      FROM (
+        SELECT l.user_id, COALESCE(pr.full_name, pr.email) AS user_name, count(*) AS n,
+               COALESCE(sum(l.tokens_input), 0) AS tin, COALESCE(sum(l.tokens_output), 0) AS tout
+        FROM logs l
+        LEFT JOIN public.profiles pr ON pr.id = l.user_id
+        GROUP BY l.user_id, pr.full_name, pr.email
+      ) tu
+    ), '[]'::jsonb),
+    'gate_missing_terms', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('term', term, 'count', n) ORDER BY n DESC, term)
+      FROM (
+        SELECT lower(term) AS term, count(*) AS n
+        FROM logs, jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(diagnostics->'gate_missing_terms') = 'array'
+               THEN diagnostics->'gate_missing_terms' ELSE '[]'::jsonb END
+        ) AS term
+        GROUP BY 1
+        ORDER BY n DESC, term
+        LIMIT 20
+      ) g
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,81 @@
+-- ============================================================
+-- MIGRATION: Weibull reliability analysis
+-- (A) weibull_analyses: one fit per (project, metric, grouping, group)
+-- (B) RLS: members read, writes only through the weibull-analysis function
+-- (C) metrics_catalog entries for the derived metrics written back to
+--     measurements (<metric>_weibull_modulus / <metric>_weibull_sigma0),
+--     so current_best, rag-answer and reports can cite them
+-- ============================================================
+
+-- A) Fits
+CREATE TABLE IF NOT EXISTS public.weibull_analyses (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id     uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  metric         text NOT NULL,
+  unit           text,
+  group_by       text NOT NULL CHECK (group_by IN ('experiment', 'condition')),
+  -- Only for group_by = 'condition'
+  condition_key  text,
+  group_label    text NOT NULL,
+  experiment_ids uuid[] NOT NULL DEFAULT '{}',
+  n              integer NOT NULL,
+  alpha          numeric NOT NULL DEFAULT 0.05,
+  modulus                 numeric NOT NULL,
+  modulus_ci_low          numeric NOT NULL,
+  modulus_ci_high         numeric NOT NULL,
+  modulus_unbiased        numeric NOT NULL,
+  characteristic_strength numeric NOT NULL,
+  characteristic_strength_ci_low  numeric NOT NULL,
+  characteristic_strength_ci_high numeric NOT NULL,
+  -- Weibull plot: [{ value, probability, x, y }]
+  points         jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- Derived measurements (only for single-experiment groups)
+  modulus_measurement_id uuid REFERENCES public.measurements(id) ON DELETE SET NULL,
+  sigma0_measurement_id  uuid REFERENCES public.measurements(id) ON DELETE SET NULL,
+  created_by     uuid,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_weibull_analyses_project_metric
+  ON public.weibull_analyses (project_id, metric, created_at DESC);
+
+-- B) RLS
+ALTER TABLE public.weibull_analyses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view weibull analyses"
+  ON public.weibull_analyses FOR SELECT
+  USING (is_project_member(auth.uid(), project_id));
+
+CREATE POLICY "Admins can view all weibull analyses"
+  ON public.weibull_analyses FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access to weibull analyses"
+  ON public.weibull_analyses FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- C) Derived metrics (higher modulus = more reliable; higher σ0 = stronger)
+INSERT INTO public.metrics_catalog (canonical_name, display_name, unit, canonical_unit, conversion_factor, aliases, category, direction)
+SELECT
+  b.canonical_name || '_weibull_modulus',
+  'Módulo de Weibull — ' || b.display_name,
+  '-', '-', 1,
+  ARRAY[b.canonical_name || '_weibull_modulus', 'weibull modulus ' || replace(b.canonical_name, '_', ' ')],
+  b.category,
+  'maximize'
+FROM public.metrics_catalog b
+WHERE b.canonical_name IN ('flexural_strength', 'compressive_strength', 'tensile_strength', 'impact_strength')
+ON CONFLICT (canonical_name) DO NOTHING;
+
+INSERT INTO public.metrics_catalog (canonical_name, display_name, unit, canonical_unit, conversion_factor, aliases, category, direction)
+SELECT
+  b.canonical_name || '_weibull_sigma0',
+  'Resistência característica (σ0) — ' || b.display_name,
+  b.unit, COALESCE(b.canonical_unit, b.unit), 1,
+  ARRAY[b.canonical_name || '_weibull_sigma0', 'characteristic strength ' || replace(b.canonical_name, '_', ' ')],
+  b.category,
+  'maximize'
+FROM public.metrics_catalog b
+WHERE b.canonical_name IN ('flexural_strength', 'compressive_strength', 'tensile_strength', 'impact_strength')
+ON CONFLICT (canonical_name) DO NOTHING;
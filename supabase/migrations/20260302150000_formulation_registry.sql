@@ -0,0 +1,221 @@
+-- ============================================================
+-- MIGRATION: Formulation registry
+-- (A) formulations: versioned, with parent/child lineage
+--     (a new version of code X points to the previous version;
+--     a derived formulation points to the one it came from)
+-- (B) formulation_components: resin matrix, fillers, photoinitiators,
+--     additives with their concentrations
+-- (C) experiments.formulation_id / measurements.formulation_id
+--     (Excel rows can belong to different formulations of one sheet)
+-- (D) RLS (same rules as experiments/measurements)
+-- (E) save_formulation(): creates version 1 or the next version of a
+--     code atomically; versions are immutable once saved
+-- (F) Guard: updates may only change status, description, aliases
+--     and deleted_at
+-- ============================================================
+
+-- A) Formulations
+CREATE TABLE IF NOT EXISTS public.formulations (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id  uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Short identifier used in spreadsheets and lab notes (e.g. "F12", "RC-UDMA-60")
+  code        text NOT NULL,
+  name        text NOT NULL,
+  version     integer NOT NULL DEFAULT 1,
+  parent_id   uuid REFERENCES public.formulations(id) ON DELETE SET NULL,
+  status      text NOT NULL DEFAULT 'active' CHECK (status IN ('draft', 'active', 'archived')),
+  description text,
+  -- Other names the formulation appears under (sample ids, group labels)
+  aliases     text[] NOT NULL DEFAULT '{}',
+  created_by  uuid NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now(),
+  deleted_at  timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_formulations_code_version
+  ON public.formulations (project_id, lower(code), version)
+  WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_formulations_project
+  ON public.formulations (project_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_formulations_parent
+  ON public.formulations (parent_id);
+
+-- B) Components
+CREATE TABLE IF NOT EXISTS public.formulation_components (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  formulation_id uuid NOT NULL REFERENCES public.formulations(id) ON DELETE CASCADE,
+  role           text NOT NULL CHECK (role IN ('resin', 'filler', 'photoinitiator', 'additive', 'other')),
+  name           text NOT NULL,
+  amount         numeric,
+  amount_unit    text CHECK (amount_unit IN ('wt%', 'vol%', 'mol%', 'phr', 'ratio')),
+  position       integer NOT NULL DEFAULT 0,
+  notes          text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_formulation_components_formulation
+  ON public.formulation_components (formulation_id, position);
+
+-- C) Links
+ALTER TABLE public.experiments
+  ADD COLUMN IF NOT EXISTS formulation_id uuid REFERENCES public.formulations(id) ON DELETE SET NULL;
+ALTER TABLE public.measurements
+  ADD COLUMN IF NOT EXISTS formulation_id uuid REFERENCES public.formulations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_experiments_formulation
+  ON public.experiments (formulation_id) WHERE formulation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_measurements_formulation
+  ON public.measurements (formulation_id) WHERE formulation_id IS NOT NULL;
+
+-- D) RLS
+ALTER TABLE public.formulations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.formulation_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view formulations"
+  ON public.formulations FOR SELECT
+  USING (deleted_at IS NULL AND is_project_member(auth.uid(), project_id));
+
+CREATE POLICY "Admins can view all formulations"
+  ON public.formulations FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Researchers can create formulations"
+  ON public.formulations FOR INSERT
+  WITH CHECK (auth.uid() = created_by AND has_project_role(auth.uid(), project_id, 'researcher'::project_role));
+
+CREATE POLICY "Researchers can update formulations"
+  ON public.formulations FOR UPDATE
+  USING (has_project_role(auth.uid(), project_id, 'researcher'::project_role));
+
+CREATE POLICY "Managers can delete formulations"
+  ON public.formulations FOR DELETE
+  USING (has_project_role(auth.uid(), project_id, 'manager'::project_role));
+
+CREATE POLICY "Members can view formulation components"
+  ON public.formulation_components FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.formulations f
+    WHERE f.id = formulation_components.formulation_id
+      AND f.deleted_at IS NULL
+      AND is_project_member(auth.uid(), f.project_id)
+  ));
+
+-- Components are written only with their version, in the save_formulation() transaction
+CREATE POLICY "Researchers can create formulation components"
+  ON public.formulation_components FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.formulations f
+    WHERE f.id = formulation_components.formulation_id
+      AND f.created_at = now()
+      AND has_project_role(auth.uid(), f.project_id, 'researcher'::project_role)
+  ));
+
+CREATE POLICY "Managers can delete formulation components"
+  ON public.formulation_components FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.formulations f
+    WHERE f.id = formulation_components.formulation_id
+      AND has_project_role(auth.uid(), f.project_id, 'manager'::project_role)
+  ));
+
+CREATE POLICY "Service role full access to formulations"
+  ON public.formulations FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access to formulation components"
+  ON public.formulation_components FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER update_formulations_updated_at
+  BEFORE UPDATE ON public.formulations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- E) Save a formulation (new code → version 1; existing code → next version)
+-- p_components: [{ role, name, amount, amount_unit, notes }]
+-- p_parent_id: lineage for a new code (derived from another formulation);
+--              for an existing code the parent is always its latest version
+CREATE OR REPLACE FUNCTION public.save_formulation(
+  p_project_id uuid,
+  p_code text,
+  p_name text,
+  p_components jsonb,
+  p_description text DEFAULT NULL,
+  p_aliases text[] DEFAULT '{}',
+  p_parent_id uuid DEFAULT NULL
+)
+RETURNS public.formulations
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest public.formulations;
+  v_new public.formulations;
+BEGIN
+  IF coalesce(trim(p_code), '') = '' OR coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Código e nome da formulação são obrigatórios';
+  END IF;
+
+  SELECT * INTO v_latest
+  FROM public.formulations
+  WHERE project_id = p_project_id AND lower(code) = lower(trim(p_code)) AND deleted_at IS NULL
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  INSERT INTO public.formulations (project_id, code, name, version, parent_id, description, aliases, created_by)
+  VALUES (
+    p_project_id,
+    coalesce(v_latest.code, trim(p_code)),
+    trim(p_name),
+    coalesce(v_latest.version, 0) + 1,
+    coalesce(v_latest.id, p_parent_id),
+    p_description,
+    coalesce(p_aliases, '{}'),
+    auth.uid()
+  )
+  RETURNING * INTO v_new;
+
+  INSERT INTO public.formulation_components (formulation_id, role, name, amount, amount_unit, position, notes)
+  SELECT
+    v_new.id,
+    c->>'role',
+    trim(c->>'name'),
+    nullif(c->>'amount', '')::numeric,
+    nullif(c->>'amount_unit', ''),
+    (ord - 1)::integer,
+    nullif(c->>'notes', '')
+  FROM jsonb_array_elements(coalesce(p_components, '[]'::jsonb)) WITH ORDINALITY AS t(c, ord)
+  WHERE coalesce(trim(c->>'name'), '') <> '';
+
+  RETURN v_new;
+END;
+$$;
+
+-- F) Saved versions keep their identity and content; a change of
+-- composition or name is a new version through save_formulation()
+CREATE OR REPLACE FUNCTION public.formulations_guard_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id
+    OR NEW.code IS DISTINCT FROM OLD.code
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Versões de formulação são imutáveis; salve uma nova versão';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_formulations_guard_update
+  BEFORE UPDATE ON public.formulations
+  FOR EACH ROW EXECUTE FUNCTION public.formulations_guard_update();
@@ -0,0 +1,133 @@
+-- ============================================================
+-- MIGRATION: Replicate-aware measurements
+-- (A) measurements.n / sd / sem / replicates: a measurement is a
+--     replicate group; value holds the mean of its n specimens
+--     ("85,3 ± 4,2 (n=10)" or ten CP columns become ONE row)
+-- (B) experiment_metric_summary / condition_metric_summary pool the
+--     groups exactly instead of averaging means:
+--       mean = Σ nᵢ·x̄ᵢ / N
+--       SD   = √[(Σ (nᵢ−1)·sᵢ² + Σ nᵢ·x̄ᵢ² − N·mean²) / (N−1)]
+--     A mean with no reported SD counts as one observation.
+--     min / max / median run over the specimen values when stored.
+-- ============================================================
+
+-- A) Replicate fields
+ALTER TABLE public.measurements
+  ADD COLUMN IF NOT EXISTS n integer CHECK (n IS NULL OR n >= 1),
+  ADD COLUMN IF NOT EXISTS sd numeric CHECK (sd IS NULL OR sd >= 0),
+  ADD COLUMN IF NOT EXISTS sem numeric CHECK (sem IS NULL OR sem >= 0),
+  ADD COLUMN IF NOT EXISTS replicates numeric[];
+
+COMMENT ON COLUMN public.measurements.n IS 'Number of specimens behind value (the mean); NULL when not reported';
+COMMENT ON COLUMN public.measurements.sd IS 'Sample standard deviation of the replicate group';
+COMMENT ON COLUMN public.measurements.sem IS 'Standard error of the mean (SD / sqrt(n))';
+COMMENT ON COLUMN public.measurements.replicates IS 'Individual specimen values, when the source lists them';
+
+-- B) Pooled summary views
+DROP VIEW IF EXISTS public.experiment_metric_summary;
+DROP VIEW IF EXISTS public.condition_metric_summary;
+
+CREATE VIEW public.experiment_metric_summary
+WITH (security_invoker = true) AS
+WITH specimens AS (
+  SELECT
+    m.experiment_id,
+    e.project_id,
+    e.source_file_id,
+    e.title AS experiment_title,
+    m.metric,
+    m.raw_metric_name,
+    m.unit,
+    m.method,
+    m.confidence,
+    m.value,
+    COALESCE(m.sd, 0) AS sd,
+    CASE WHEN m.sd IS NOT NULL AND m.n > 1 THEN m.n ELSE 1 END AS n_i,
+    s.v,
+    s.ord
+  FROM measurements m
+  JOIN experiments e ON e.id = m.experiment_id
+  CROSS JOIN LATERAL unnest(
+    CASE WHEN cardinality(m.replicates) > 0 THEN m.replicates ELSE ARRAY[m.value] END
+  ) WITH ORDINALITY AS s(v, ord)
+  WHERE e.deleted_at IS NULL
+),
+pooled AS (
+  SELECT
+    experiment_id, project_id, source_file_id, experiment_title,
+    metric, raw_metric_name, unit, method,
+    SUM(n_i) FILTER (WHERE ord = 1) AS n,
+    COUNT(*) FILTER (WHERE ord = 1) AS n_measurements,
+    MIN(v) AS min_value,
+    MAX(v) AS max_value,
+    SUM(n_i * value) FILTER (WHERE ord = 1) / SUM(n_i) FILTER (WHERE ord = 1) AS avg_value,
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v) AS median_value,
+    CASE WHEN SUM(n_i) FILTER (WHERE ord = 1) > 1 THEN sqrt(GREATEST(0,
+      (SUM((n_i - 1) * sd ^ 2 + n_i * value ^ 2) FILTER (WHERE ord = 1)
+        - SUM(n_i * value) FILTER (WHERE ord = 1) ^ 2 / SUM(n_i) FILTER (WHERE ord = 1))
+      / (SUM(n_i) FILTER (WHERE ord = 1) - 1)))
+    END AS stddev_value,
+    AVG(
+      CASE confidence
+        WHEN 'high' THEN 1.0
+        WHEN 'medium' THEN 0.7
+        WHEN 'low' THEN 0.4
+        ELSE 0.5
+      END
+    ) FILTER (WHERE ord = 1) AS avg_confidence
+  FROM specimens
+  GROUP BY experiment_id, project_id, source_file_id, experiment_title, metric, raw_metric_name, unit, method
+)
+SELECT
+  experiment_id, project_id, source_file_id, experiment_title,
+  metric, raw_metric_name, unit, method,
+  n, min_value, max_value, avg_value, median_value, stddev_value, avg_confidence,
+  n_measurements,
+  stddev_value / sqrt(n) AS sem_value
+FROM pooled;
+
+CREATE VIEW public.condition_metric_summary
+WITH (security_invoker = true) AS
+WITH specimens AS (
+  SELECT
+    e.project_id,
+    ec.key AS condition_key,
+    ec.value AS condition_value,
+    m.metric,
+    m.unit,
+    m.value,
+    COALESCE(m.sd, 0) AS sd,
+    CASE WHEN m.sd IS NOT NULL AND m.n > 1 THEN m.n ELSE 1 END AS n_i,
+    s.v,
+    s.ord
+  FROM measurements m
+  JOIN experiments e ON e.id = m.experiment_id
+  JOIN experiment_conditions ec ON ec.experiment_id = e.id
+  CROSS JOIN LATERAL unnest(
+    CASE WHEN cardinality(m.replicates) > 0 THEN m.replicates ELSE ARRAY[m.value] END
+  ) WITH ORDINALITY AS s(v, ord)
+  WHERE e.deleted_at IS NULL
+),
+pooled AS (
+  SELECT
+    project_id, condition_key, condition_value, metric, unit,
+    SUM(n_i) FILTER (WHERE ord = 1) AS n,
+    COUNT(*) FILTER (WHERE ord = 1) AS n_measurements,
+    MIN(v) AS min_value,
+    MAX(v) AS max_value,
+    SUM(n_i * value) FILTER (WHERE ord = 1) / SUM(n_i) FILTER (WHERE ord = 1) AS avg_value,
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v) AS median_value,
+    CASE WHEN SUM(n_i) FILTER (WHERE ord = 1) > 1 THEN sqrt(GREATEST(0,
+      (SUM((n_i - 1) * sd ^ 2 + n_i * value ^ 2) FILTER (WHERE ord = 1)
+        - SUM(n_i * value) FILTER (WHERE ord = 1) ^ 2 / SUM(n_i) FILTER (WHERE ord = 1))
+      / (SUM(n_i) FILTER (WHERE ord = 1) - 1)))
+    END AS stddev_value
+  FROM specimens
+  GROUP BY project_id, condition_key, condition_value, metric, unit
+)
+SELECT
+  project_id, condition_key, condition_value, metric, unit,
+  n, min_value, max_value, avg_value, median_value, stddev_value,
+  n_measurements,
+  stddev_value / sqrt(n) AS sem_value
+FROM pooled;
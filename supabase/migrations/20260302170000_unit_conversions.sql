@@ -0,0 +1,220 @@
+-- ============================================================
+-- MIGRATION: Auditable unit conversions
+-- (A) measurements.conversion: provenance written by the unit engine
+--     (_shared/units.ts) for every measurement:
+--       { engine, from, to, factor, offset, status, rule, note? }
+--     canonical = value · factor + offset; SD scales by factor only.
+--     status: identity | converted | flagged | incompatible | unknown
+--     Existing rows are backfilled as engine = 'legacy'.
+-- (B) current_best never ranks values whose unit could not be
+--     converted to the catalog unit (incompatible / unknown)
+-- (C) experiment_metric_summary / condition_metric_summary pool
+--     canonical values, so MPa and GPa rows of one metric pool together
+-- ============================================================
+
+-- A) Conversion provenance
+ALTER TABLE public.measurements
+  ADD COLUMN IF NOT EXISTS conversion jsonb;
+
+UPDATE public.measurements
+SET conversion = jsonb_build_object(
+  'engine', 'legacy',
+  'from', unit,
+  'to', COALESCE(unit_canonical, unit),
+  'factor', CASE
+    WHEN value_canonical IS NULL OR value = 0 THEN 1
+    ELSE value_canonical / value
+  END,
+  'offset', 0,
+  'status', CASE
+    WHEN COALESCE(value_canonical, value) = value AND COALESCE(unit_canonical, unit) = unit THEN 'identity'
+    ELSE 'converted'
+  END,
+  'rule', 'anterior ao motor de unidades: value_canonical / value'
+)
+WHERE conversion IS NULL;
+
+ALTER TABLE public.measurements
+  ALTER COLUMN conversion SET NOT NULL;
+
+ALTER TABLE public.measurements
+  DROP CONSTRAINT IF EXISTS measurements_conversion_status_check;
+ALTER TABLE public.measurements
+  ADD CONSTRAINT measurements_conversion_status_check
+  CHECK (conversion->>'status' IN ('identity', 'converted', 'flagged', 'incompatible', 'unknown'));
+
+COMMENT ON COLUMN public.measurements.conversion IS
+  'Unit conversion provenance: value_canonical = value * factor + offset, with the rule and status (identity/converted/flagged/incompatible/unknown)';
+
+CREATE INDEX IF NOT EXISTS idx_measurements_conversion_status
+  ON public.measurements ((conversion->>'status'));
+
+-- B) current_best: incompatible units are rejected, not ranked apart
+CREATE OR REPLACE VIEW public.current_best
+WITH (security_invoker = on)
+AS
+WITH ranked AS (
+  SELECT
+    m.id              AS measurement_id,
+    e.project_id,
+    e.id              AS experiment_id,
+    e.title           AS experiment_title,
+    e.source_file_id  AS doc_id,
+    m.metric          AS metric_key,
+    m.raw_metric_name,
+    m.value,
+    m.unit,
+    COALESCE(m.value_canonical, m.value)  AS value_canonical,
+    COALESCE(m.unit_canonical, m.unit)    AS unit_canonical,
+    m.source_excerpt  AS excerpt,
+    m.confidence,
+    COALESCE(m.evidence_date, e.evidence_date, e.created_at) AS evidence_date,
+    COALESCE(mc.direction, 'maximize') AS direction,
+    mc.target_min,
+    mc.target_max,
+    m.conversion,
+    ROW_NUMBER() OVER (
+      PARTITION BY e.project_id, m.metric, COALESCE(m.unit_canonical, m.unit)
+      ORDER BY
+        public.metric_rank_score(mc.direction, COALESCE(m.value_canonical, m.value), mc.target_min, mc.target_max) ASC,
+        COALESCE(m.evidence_date, e.evidence_date, e.created_at) DESC,
+        CASE m.confidence WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END DESC
+    ) AS rn
+  FROM public.measurements m
+  JOIN public.experiments e ON e.id = m.experiment_id
+  LEFT JOIN public.metrics_catalog mc ON mc.canonical_name = m.metric
+  WHERE e.deleted_at IS NULL
+    AND m.conversion->>'status' NOT IN ('incompatible', 'unknown')
+)
+SELECT
+  measurement_id, project_id, experiment_id, experiment_title,
+  doc_id, metric_key, raw_metric_name,
+  value, unit, value_canonical, unit_canonical,
+  excerpt, confidence, evidence_date,
+  direction, target_min, target_max,
+  conversion
+FROM ranked
+WHERE rn = 1;
+
+-- C) Summaries over canonical values: specimens follow value · factor + offset,
+-- the SD scales by |factor|. Units that did not convert keep their own rows.
+CREATE OR REPLACE VIEW public.experiment_metric_summary
+WITH (security_invoker = true) AS
+WITH specimens AS (
+  SELECT
+    m.experiment_id,
+    e.project_id,
+    e.source_file_id,
+    e.title AS experiment_title,
+    m.metric,
+    m.raw_metric_name,
+    COALESCE(m.unit_canonical, m.unit) AS unit,
+    m.method,
+    m.confidence,
+    COALESCE(m.value_canonical, m.value) AS value,
+    COALESCE(m.sd, 0) * abs(c.factor) AS sd,
+    CASE WHEN m.sd IS NOT NULL AND m.n > 1 THEN m.n ELSE 1 END AS n_i,
+    s.v,
+    s.ord
+  FROM measurements m
+  JOIN experiments e ON e.id = m.experiment_id
+  CROSS JOIN LATERAL (
+    SELECT (m.conversion->>'factor')::numeric AS factor,
+           COALESCE((m.conversion->>'offset')::numeric, 0) AS "offset"
+  ) c
+  CROSS JOIN LATERAL unnest(
+    CASE
+      WHEN cardinality(m.replicates) > 0 THEN
+        ARRAY(SELECT r * c.factor + c."offset" FROM unnest(m.replicates) AS r)
+      ELSE ARRAY[COALESCE(m.value_canonical, m.value)]
+    END
+  ) WITH ORDINALITY AS s(v, ord)
+  WHERE e.deleted_at IS NULL
+),
+pooled AS (
+  SELECT
+    experiment_id, project_id, source_file_id, experiment_title,
+    metric, raw_metric_name, unit, method,
+    SUM(n_i) FILTER (WHERE ord = 1) AS n,
+    COUNT(*) FILTER (WHERE ord = 1) AS n_measurements,
+    MIN(v) AS min_value,
+    MAX(v) AS max_value,
+    SUM(n_i * value) FILTER (WHERE ord = 1) / SUM(n_i) FILTER (WHERE ord = 1) AS avg_value,
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v) AS median_value,
+    CASE WHEN SUM(n_i) FILTER (WHERE ord = 1) > 1 THEN sqrt(GREATEST(0,
+      (SUM((n_i - 1) * sd ^ 2 + n_i * value ^ 2) FILTER (WHERE ord = 1)
+        - SUM(n_i * value) FILTER (WHERE ord = 1) ^ 2 / SUM(n_i) FILTER (WHERE ord = 1))
+      / (SUM(n_i) FILTER (WHERE ord = 1) - 1)))
+    END AS stddev_value,
+    AVG(
+      CASE confidence
+        WHEN 'high' THEN 1.0
+        WHEN 'medium' THEN 0.7
+        WHEN 'low' THEN 0.4
+        ELSE 0.5
+      END
+    ) FILTER (WHERE ord = 1) AS avg_confidence
+  FROM specimens
+  GROUP BY experiment_id, project_id, source_file_id, experiment_title, metric, raw_metric_name, unit, method
+)
+SELECT
+  experiment_id, project_id, source_file_id, experiment_title,
+  metric, raw_metric_name, unit, method,
+  n, min_value, max_value, avg_value, median_value, stddev_value, avg_confidence,
+  n_measurements,
+  stddev_value / sqrt(n) AS sem_value
+FROM pooled;
+
+CREATE OR REPLACE VIEW public.condition_metric_summary
+WITH (security_invoker = true) AS
+WITH specimens AS (
+  SELECT
+    e.project_id,
+    ec.key AS condition_key,
+    ec.value AS condition_value,
+    m.metric,
+    COALESCE(m.unit_canonical, m.unit) AS unit,
+    COALESCE(m.value_canonical, m.value) AS value,
+    COALESCE(m.sd, 0) * abs(c.factor) AS sd,
+    CASE WHEN m.sd IS NOT NULL AND m.n > 1 THEN m.n ELSE 1 END AS n_i,
+    s.v,
+    s.ord
+  FROM measurements m
+  JOIN experiments e ON e.id = m.experiment_id
+  JOIN experiment_conditions ec ON ec.experiment_id = e.id
+  CROSS JOIN LATERAL (
+    SELECT (m.conversion->>'factor')::numeric AS factor,
+           COALESCE((m.conversion->>'offset')::numeric, 0) AS "offset"
+  ) c
+  CROSS JOIN LATERAL unnest(
+    CASE
+      WHEN cardinality(m.replicates) > 0 THEN
+        ARRAY(SELECT r * c.factor + c."offset" FROM unnest(m.replicates) AS r)
+      ELSE ARRAY[COALESCE(m.value_canonical, m.value)]
+    END
+  ) WITH ORDINALITY AS s(v, ord)
+  WHERE e.deleted_at IS NULL
+),
+pooled AS (
+  SELECT
+    project_id, condition_key, condition_value, metric, unit,
+    SUM(n_i) FILTER (WHERE ord = 1) AS n,
+    COUNT(*) FILTER (WHERE ord = 1) AS n_measurements,
+    MIN(v) AS min_value,
+    MAX(v) AS max_value,
+    SUM(n_i * value) FILTER (WHERE ord = 1) / SUM(n_i) FILTER (WHERE ord = 1) AS avg_value,
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY v) AS median_value,
+    CASE WHEN SUM(n_i) FILTER (WHERE ord = 1) > 1 THEN sqrt(GREATEST(0,
+      (SUM((n_i - 1) * sd ^ 2 + n_i * value ^ 2) FILTER (WHERE ord = 1)
+        - SUM(n_i * value) FILTER (WHERE ord = 1) ^ 2 / SUM(n_i) FILTER (WHERE ord = 1))
+      / (SUM(n_i) FILTER (WHERE ord = 1) - 1)))
+    END AS stddev_value
+  FROM specimens
+  GROUP BY project_id, condition_key, condition_value, metric, unit
+)
+SELECT
+  project_id, condition_key, condition_value, metric, unit,
+  n, min_value, max_value, avg_value, median_value, stddev_value,
+  n_measurements,
+  stddev_value / sqrt(n) AS sem_value
+FROM pooled;
@@ -0,0 +1,291 @@
+-- ============================================================
+-- MIGRATION: Extraction review queue
+-- (A) extraction_jobs.source_text: the text the extractor read, shown
+--     next to the extracted items; claims.extraction_job_id so claims
+--     can be reviewed per job like knowledge items and experiments
+-- (B) extraction_reviews: one decision (accepted / edited / rejected)
+--     per extracted item, with a snapshot of the item before it
+-- (C) extraction_exclusions: fingerprints of rejected items per file;
+--     extract-knowledge skips them when the file is extracted again
+-- (D) RLS (decisions are written only through review_extraction_items)
+-- (E) review_item_fingerprint() / review_item_label(): exclusion entry
+--     of a rejected item, computed from its snapshot
+-- (F) review_extraction_items(): applies a batch of decisions
+-- ============================================================
+
+-- A) Source text and claim → job link
+ALTER TABLE public.extraction_jobs
+  ADD COLUMN IF NOT EXISTS source_text text;
+
+ALTER TABLE public.claims
+  ADD COLUMN IF NOT EXISTS extraction_job_id uuid REFERENCES public.extraction_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_claims_extraction_job
+  ON public.claims (extraction_job_id) WHERE extraction_job_id IS NOT NULL;
+
+-- B) Decisions
+CREATE TABLE IF NOT EXISTS public.extraction_reviews (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id      uuid NOT NULL REFERENCES public.extraction_jobs(id) ON DELETE CASCADE,
+  project_id  uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  item_type   text NOT NULL CHECK (item_type IN ('knowledge', 'measurement', 'claim')),
+  -- Rejected measurements and claims are deleted; the snapshot keeps them
+  item_id     uuid NOT NULL,
+  decision    text NOT NULL CHECK (decision IN ('accepted', 'edited', 'rejected')),
+  snapshot    jsonb NOT NULL DEFAULT '{}'::jsonb,
+  reviewed_by uuid NOT NULL,
+  reviewed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_reviews_job
+  ON public.extraction_reviews (job_id);
+
+-- C) Exclusions
+CREATE TABLE IF NOT EXISTS public.extraction_exclusions (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id     uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  source_file_id uuid NOT NULL REFERENCES public.project_files(id) ON DELETE CASCADE,
+  item_type      text NOT NULL CHECK (item_type IN ('knowledge', 'measurement', 'claim')),
+  -- review_item_fingerprint() of the rejected item; extract-knowledge matches
+  -- it with the same rules in _shared/review-exclusions.ts
+  fingerprint    text NOT NULL,
+  -- What the reviewer saw ("Resistência flexural = 132.4 MPa")
+  label          text NOT NULL,
+  review_id      uuid REFERENCES public.extraction_reviews(id) ON DELETE SET NULL,
+  created_by     uuid NOT NULL,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (source_file_id, item_type, fingerprint)
+);
+
+-- D) RLS
+ALTER TABLE public.extraction_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.extraction_exclusions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view extraction reviews"
+  ON public.extraction_reviews FOR SELECT
+  USING (is_project_member(auth.uid(), project_id));
+
+CREATE POLICY "Members can view extraction exclusions"
+  ON public.extraction_exclusions FOR SELECT
+  USING (is_project_member(auth.uid(), project_id));
+
+CREATE POLICY "Researchers can delete extraction exclusions"
+  ON public.extraction_exclusions FOR DELETE
+  USING (has_project_role(auth.uid(), project_id, 'researcher'::project_role));
+
+CREATE POLICY "Service role full access to extraction reviews"
+  ON public.extraction_reviews FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role full access to extraction exclusions"
+  ON public.extraction_exclusions FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- E) Exclusion fingerprints, same rules as _shared/review-exclusions.ts:
+-- lower case, accents and punctuation dropped
+CREATE OR REPLACE FUNCTION public.review_normalize_text(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(normalize(lower(coalesce(p_text, '')), NFD), '[\u0300-\u036f]', '', 'g'),
+    '[^a-z0-9]+', ' ', 'g'));
+$$;
+
+-- A value to 6 significant digits, as Number(value.toPrecision(6)) prints it
+CREATE OR REPLACE FUNCTION public.review_value_text(p_value numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_value = 0 THEN '0'
+    ELSE trim_scale(round(p_value, 5 - floor(log(abs(p_value)))::integer))::text
+  END;
+$$;
+
+-- knowledge: category + title; measurement: metric name as extracted + stored
+-- value (the mean for replicate groups); claim: type + first 200 characters
+CREATE OR REPLACE FUNCTION public.review_item_fingerprint(p_type text, p_snapshot jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_type
+    WHEN 'knowledge' THEN
+      (p_snapshot->>'category') || '|' || public.review_normalize_text(p_snapshot->>'title')
+    WHEN 'measurement' THEN
+      public.review_normalize_text(coalesce(nullif(p_snapshot->>'raw_metric_name', ''), p_snapshot->>'metric'))
+        || '|' || public.review_value_text((p_snapshot->>'value')::numeric)
+    WHEN 'claim' THEN
+      (p_snapshot->>'claim_type') || '|' || left(public.review_normalize_text(p_snapshot->>'excerpt'), 200)
+  END;
+$$;
+
+-- What the exclusion list shows ("Resistência flexural = 132.4 MPa")
+CREATE OR REPLACE FUNCTION public.review_item_label(p_type text, p_snapshot jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_type
+    WHEN 'knowledge' THEN p_snapshot->>'title'
+    WHEN 'measurement' THEN
+      coalesce(nullif(p_snapshot->>'raw_metric_name', ''), p_snapshot->>'metric')
+        || ' = ' || public.review_value_text((p_snapshot->>'value')::numeric)
+        || coalesce(' ' || nullif(p_snapshot->>'unit', ''), '')
+    WHEN 'claim' THEN left(p_snapshot->>'excerpt', 120)
+  END;
+$$;
+
+-- F) Apply review decisions for one extraction job
+-- p_items: [{ item_type, item_id, decision, edits }]
+--   accepted: knowledge items become human_verified
+--   edited:   knowledge { title, content, category } / measurement { value, notes } /
+--             claim { excerpt } are updated, then treated as accepted; the value
+--             of a replicate group (the mean of its replicates) is rejected
+--   rejected: knowledge items are soft-deleted, measurements and claims deleted;
+--             the fingerprint of the item's snapshot joins the file's
+--             exclusion list
+-- Runs as definer because deleting measurements is otherwise manager-only;
+-- the caller must be a researcher on the job's project.
+CREATE OR REPLACE FUNCTION public.review_extraction_items(
+  p_job_id uuid,
+  p_items jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.extraction_jobs;
+  v_item jsonb;
+  v_type text;
+  v_id uuid;
+  v_decision text;
+  v_edits jsonb;
+  v_snapshot jsonb;
+  v_review_id uuid;
+  v_fingerprint text;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO v_job FROM public.extraction_jobs WHERE id = p_job_id;
+  IF v_job.id IS NULL THEN
+    RAISE EXCEPTION 'Extração não encontrada';
+  END IF;
+  IF NOT has_project_role(auth.uid(), v_job.project_id, 'researcher'::project_role) THEN
+    RAISE EXCEPTION 'Sem permissão para revisar esta extração';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(p_items, '[]'::jsonb))
+  LOOP
+    v_type := v_item->>'item_type';
+    v_id := (v_item->>'item_id')::uuid;
+    v_decision := v_item->>'decision';
+    v_edits := coalesce(v_item->'edits', '{}'::jsonb);
+    v_snapshot := NULL;
+
+    IF v_decision NOT IN ('accepted', 'edited', 'rejected') THEN
+      RAISE EXCEPTION 'Decisão inválida: %', v_decision;
+    END IF;
+
+    -- Snapshot, scoped to the job so ids from other extractions are ignored
+    IF v_type = 'knowledge' THEN
+      SELECT to_jsonb(k) INTO v_snapshot FROM public.knowledge_items k
+      WHERE k.id = v_id AND k.extraction_job_id = p_job_id AND k.deleted_at IS NULL;
+    ELSIF v_type = 'measurement' THEN
+      SELECT to_jsonb(m) INTO v_snapshot FROM public.measurements m
+      JOIN public.experiments e ON e.id = m.experiment_id
+      WHERE m.id = v_id AND e.extraction_job_id = p_job_id;
+    ELSIF v_type = 'claim' THEN
+      SELECT to_jsonb(c) INTO v_snapshot FROM public.claims c
+      WHERE c.id = v_id AND c.extraction_job_id = p_job_id;
+    END IF;
+    CONTINUE WHEN v_snapshot IS NULL;
+
+    IF v_decision = 'edited' THEN
+      IF v_type = 'knowledge' THEN
+        UPDATE public.knowledge_items SET
+          title = coalesce(nullif(trim(v_edits->>'title'), ''), title),
+          content = coalesce(nullif(trim(v_edits->>'content'), ''), content),
+          category = coalesce((v_edits->>'category')::knowledge_category, category)
+        WHERE id = v_id;
+      ELSIF v_type = 'measurement' THEN
+        -- A replicate group's value is the mean of its replicates (n, sd and sem
+        -- derive from them too): it cannot be edited on its own
+        IF v_edits ? 'value'
+           AND (v_edits->>'value')::numeric IS DISTINCT FROM (v_snapshot->>'value')::numeric
+           AND jsonb_typeof(v_snapshot->'replicates') = 'array'
+           AND jsonb_array_length(v_snapshot->'replicates') > 0 THEN
+          RAISE EXCEPTION 'O valor de um grupo de réplicas é a média das réplicas e não pode ser editado';
+        END IF;
+
+        -- The canonical value follows the edit through the stored conversion
+        -- (canonical = value · factor + offset, see _shared/units.ts)
+        UPDATE public.measurements SET
+          value_canonical = CASE
+            WHEN v_edits ? 'value' AND value_canonical IS NOT NULL THEN
+              (v_edits->>'value')::numeric * coalesce((conversion->>'factor')::numeric, 1)
+                + coalesce((conversion->>'offset')::numeric, 0)
+            ELSE value_canonical END,
+          value = coalesce((v_edits->>'value')::numeric, value),
+          notes = CASE WHEN v_edits ? 'notes' THEN nullif(trim(v_edits->>'notes'), '') ELSE notes END
+        WHERE id = v_id;
+      ELSIF v_type = 'claim' THEN
+        UPDATE public.claims SET
+          excerpt = coalesce(nullif(trim(v_edits->>'excerpt'), ''), excerpt)
+        WHERE id = v_id;
+      END IF;
+    END IF;
+
+    IF v_decision IN ('accepted', 'edited') AND v_type = 'knowledge' THEN
+      UPDATE public.knowledge_items SET
+        human_verified = true,
+        validated_by = auth.uid(),
+        validated_at = now()
+      WHERE id = v_id;
+    END IF;
+
+    INSERT INTO public.extraction_reviews (job_id, project_id, item_type, item_id, decision, snapshot, reviewed_by)
+    VALUES (p_job_id, v_job.project_id, v_type, v_id, v_decision, v_snapshot, auth.uid())
+    ON CONFLICT (item_type, item_id) DO UPDATE SET
+      decision = EXCLUDED.decision,
+      reviewed_by = EXCLUDED.reviewed_by,
+      reviewed_at = EXCLUDED.reviewed_at
+    RETURNING id INTO v_review_id;
+
+    IF v_decision = 'rejected' THEN
+      IF v_type = 'knowledge' THEN
+        UPDATE public.knowledge_items SET deleted_at = now(), deleted_by = auth.uid() WHERE id = v_id;
+      ELSIF v_type = 'measurement' THEN
+        DELETE FROM public.experiment_citations WHERE measurement_id = v_id;
+        UPDATE public.benchmarks SET measurement_id = NULL WHERE measurement_id = v_id;
+        UPDATE public.benchmarks SET superseded_by_measurement_id = NULL WHERE superseded_by_measurement_id = v_id;
+        DELETE FROM public.measurements WHERE id = v_id;
+      ELSIF v_type = 'claim' THEN
+        UPDATE public.benchmarks SET source_claim_id = NULL WHERE source_claim_id = v_id;
+        UPDATE public.claims SET superseded_by = NULL WHERE superseded_by = v_id;
+        DELETE FROM public.claims WHERE id = v_id;
+      END IF;
+
+      -- From the snapshot taken above, never from the request
+      v_fingerprint := public.review_item_fingerprint(v_type, v_snapshot);
+      IF coalesce(v_fingerprint, '') <> '' THEN
+        INSERT INTO public.extraction_exclusions (project_id, source_file_id, item_type, fingerprint, label, review_id, created_by)
+        VALUES (v_job.project_id, v_job.file_id, v_type, v_fingerprint,
+                coalesce(nullif(public.review_item_label(v_type, v_snapshot), ''), v_fingerprint), v_review_id, auth.uid())
+        ON CONFLICT (source_file_id, item_type, fingerprint) DO NOTHING;
+      END IF;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- ============================================================
+-- MIGRATION: Re-extraction diff
+-- (A) extraction_jobs.file_version: file version the job read
+-- (B) extraction_jobs.previous_job_id / diff: the extraction the job
+--     replaced and what changed (experiments, measurements, claims:
+--     added, removed, old → new values), computed by extract-knowledge
+--     (_shared/extraction-diff.ts)
+-- ============================================================
+
+-- A) Version read
+ALTER TABLE public.extraction_jobs
+  ADD COLUMN IF NOT EXISTS file_version integer;
+
+-- B) Diff against the previous extraction of the file
+ALTER TABLE public.extraction_jobs
+  ADD COLUMN IF NOT EXISTS previous_job_id uuid REFERENCES public.extraction_jobs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS diff jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_jobs_file_diff
+  ON public.extraction_jobs (file_id, created_at DESC) WHERE diff IS NOT NULL;
@@ -0,0 +1,28 @@
+-- ============================================================
+-- MIGRATION: Structure-aware chunking
+-- (A) projects.chunking_version: strategy index-content uses for the
+--     project (_shared/chunking.ts); reindex-project can switch it
+-- (B) search_chunks.chunking_version: strategy that produced each chunk,
+--     so retrieval can be compared before/after a reindex. Chunks indexed
+--     before this migration came from the fixed 1000-character window
+-- (C) document_structure page range and chunking version, now written by
+--     index-content when it indexes a file's extracted text
+-- ============================================================
+
+-- A) Strategy per project
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS chunking_version text NOT NULL DEFAULT 'structure-v1'
+    CHECK (chunking_version IN ('fixed-v1', 'structure-v1'));
+
+-- B) Strategy per chunk
+ALTER TABLE public.search_chunks
+  ADD COLUMN IF NOT EXISTS chunking_version text NOT NULL DEFAULT 'fixed-v1';
+
+CREATE INDEX IF NOT EXISTS idx_search_chunks_chunking_version
+  ON public.search_chunks (project_id, chunking_version);
+
+-- C) Sections detected by the chunker
+ALTER TABLE public.document_structure
+  ADD COLUMN IF NOT EXISTS page_start integer,
+  ADD COLUMN IF NOT EXISTS page_end integer,
+  ADD COLUMN IF NOT EXISTS chunking_version text;
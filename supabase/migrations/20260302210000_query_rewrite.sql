@@ -0,0 +1,15 @@
+-- ============================================================
+-- MIGRATION: Conversational query rewriting
+-- (A) rag_logs.rewritten_query: standalone question rag-answer routed
+--     when the user's query was a follow-up (query keeps what was typed)
+-- (B) assistant_messages.rewritten_query: the same question on the
+--     assistant reply, so the chat can still show it after a reload
+-- ============================================================
+
+-- A) Rewrite per RAG request
+ALTER TABLE public.rag_logs
+  ADD COLUMN IF NOT EXISTS rewritten_query text;
+
+-- B) Rewrite per assistant reply
+ALTER TABLE public.assistant_messages
+  ADD COLUMN IF NOT EXISTS rewritten_query text;
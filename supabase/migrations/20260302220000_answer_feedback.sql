@@ -0,0 +1,253 @@
+-- ============================================================
+-- MIGRATION: Answer feedback loop
+-- (A) assistant_messages.request_id: rag_logs request behind each answer
+-- (B) rag_eval_cases: questions promoted from feedback into the eval
+--     harness (rag-answer/eval/run.ts --promoted), expectations in the
+--     golden-set format
+-- (C) answer_feedback: thumbs up/down per answer and user, reason codes,
+--     free-text correction and the sources that should have been cited.
+--     Question and answer are copied in because managers cannot read
+--     other users' conversations. The answer must be in one of the
+--     author's conversations; request_id is the answer's own request when
+--     the author made it, and project_id comes from that request, or for
+--     global-mode answers from the first expected source file
+-- (D) RLS: authors manage their feedback (rating, reasons, correction and
+--     expected sources only), managers review it
+-- (E) get_answer_feedback_stats(): ratings + ranked failure categories
+--     for the RAG quality page (SECURITY INVOKER)
+-- ============================================================
+
+-- A) Answer → RAG request
+ALTER TABLE public.assistant_messages
+  ADD COLUMN IF NOT EXISTS request_id text;
+
+-- B) Promoted evaluation cases
+CREATE TABLE IF NOT EXISTS public.rag_eval_cases (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id       uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  question         text NOT NULL,
+  context_mode     text NOT NULL DEFAULT 'project' CHECK (context_mode IN ('project', 'global')),
+  -- GoldenExpectation (eval/scoring.ts): fail_closed, sources, numbers, ...
+  expected         jsonb NOT NULL DEFAULT '{}'::jsonb,
+  reference_answer text,
+  -- rag_logs request the case came from
+  request_id       text,
+  active           boolean NOT NULL DEFAULT true,
+  created_by       uuid NOT NULL,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_eval_cases_project
+  ON public.rag_eval_cases (project_id) WHERE active;
+
+-- C) Feedback
+CREATE TABLE IF NOT EXISTS public.answer_feedback (
+  id                    uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id            uuid NOT NULL REFERENCES public.assistant_messages(id) ON DELETE CASCADE,
+  request_id            text,
+  project_id            uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+  user_id               uuid NOT NULL,
+  rating                text NOT NULL CHECK (rating IN ('up', 'down')),
+  reasons               text[] NOT NULL DEFAULT '{}'
+    CHECK (reasons <@ ARRAY['wrong_number', 'missing_source', 'hallucination', 'should_fail_closed']::text[]),
+  correction            text,
+  -- [{ type, id, title }] picked by the user
+  expected_sources      jsonb NOT NULL DEFAULT '[]'::jsonb,
+  question              text,
+  answer                text,
+  status                text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'promoted', 'dismissed')),
+  promoted_fact_id      uuid REFERENCES public.knowledge_facts(id) ON DELETE SET NULL,
+  promoted_eval_case_id uuid REFERENCES public.rag_eval_cases(id) ON DELETE SET NULL,
+  reviewed_by           uuid,
+  reviewed_at           timestamptz,
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  updated_at            timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_feedback_project
+  ON public.answer_feedback (project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_answer_feedback_request
+  ON public.answer_feedback (request_id) WHERE request_id IS NOT NULL;
+
+-- Feedback is about one of the author's own answers: the message and its
+-- RAG request are checked against the author, never taken from the client.
+-- Authors cannot review their own feedback: new feedback starts open, and
+-- their updates only change rating, reasons, correction and expected sources
+CREATE OR REPLACE FUNCTION public.answer_feedback_guard()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'open';
+    NEW.promoted_fact_id := NULL;
+    NEW.promoted_eval_case_id := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  ELSIF auth.uid() = OLD.user_id
+        AND NOT has_role(auth.uid(), 'admin'::app_role)
+        AND NOT (OLD.project_id IS NOT NULL AND has_project_role(auth.uid(), OLD.project_id, 'manager'::project_role)) THEN
+    NEW.message_id := OLD.message_id;
+    NEW.question := OLD.question;
+    NEW.answer := OLD.answer;
+    NEW.status := OLD.status;
+    NEW.promoted_fact_id := OLD.promoted_fact_id;
+    NEW.promoted_eval_case_id := OLD.promoted_eval_case_id;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.message_id IS DISTINCT FROM OLD.message_id
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    SELECT m.request_id INTO v_request_id
+    FROM public.assistant_messages m
+    JOIN public.assistant_conversations ac ON ac.id = m.conversation_id
+    WHERE m.id = NEW.message_id AND ac.user_id = NEW.user_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Resposta não encontrada nas conversas do usuário';
+    END IF;
+
+    NEW.request_id := (
+      SELECT l.request_id FROM public.rag_logs l
+      WHERE v_request_id IS NOT NULL AND l.request_id = v_request_id AND l.user_id = NEW.user_id
+      LIMIT 1
+    );
+  ELSE
+    NEW.request_id := OLD.request_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Project attribution follows the author's RAG request (or a source file the
+-- author can see), never a value sent by the client
+CREATE OR REPLACE FUNCTION public.answer_feedback_set_project()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.request_id IS DISTINCT FROM OLD.request_id
+     OR NEW.expected_sources IS DISTINCT FROM OLD.expected_sources THEN
+    NEW.project_id := COALESCE(
+      (
+        SELECT l.project_id FROM public.rag_logs l
+        WHERE NEW.request_id IS NOT NULL AND l.request_id = NEW.request_id AND l.user_id = NEW.user_id
+        LIMIT 1
+      ),
+      (
+        SELECT pf.project_id
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(NEW.expected_sources) = 'array' THEN NEW.expected_sources ELSE '[]'::jsonb END
+        ) WITH ORDINALITY AS s(source, ord)
+        JOIN public.project_files pf ON pf.id::text = s.source->>'id'
+        WHERE s.source->>'type' = 'file' AND is_project_member(NEW.user_id, pf.project_id)
+        ORDER BY s.ord
+        LIMIT 1
+      )
+    );
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order: the guard settles request_id first
+DROP TRIGGER IF EXISTS trg_answer_feedback_guard ON public.answer_feedback;
+CREATE TRIGGER trg_answer_feedback_guard
+  BEFORE INSERT OR UPDATE ON public.answer_feedback
+  FOR EACH ROW EXECUTE FUNCTION public.answer_feedback_guard();
+
+DROP TRIGGER IF EXISTS trg_answer_feedback_set_project ON public.answer_feedback;
+CREATE TRIGGER trg_answer_feedback_set_project
+  BEFORE INSERT OR UPDATE ON public.answer_feedback
+  FOR EACH ROW EXECUTE FUNCTION public.answer_feedback_set_project();
+
+-- D) RLS
+ALTER TABLE public.rag_eval_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.answer_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Which columns an author may change is enforced by answer_feedback_guard()
+CREATE POLICY "Users manage their answer feedback"
+  ON public.answer_feedback FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Managers can view project answer feedback"
+  ON public.answer_feedback FOR SELECT
+  USING (project_id IS NOT NULL AND has_project_role(auth.uid(), project_id, 'manager'::project_role));
+
+CREATE POLICY "Managers can review project answer feedback"
+  ON public.answer_feedback FOR UPDATE
+  USING (project_id IS NOT NULL AND has_project_role(auth.uid(), project_id, 'manager'::project_role));
+
+CREATE POLICY "Admins can manage all answer feedback"
+  ON public.answer_feedback FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Managers can manage project eval cases"
+  ON public.rag_eval_cases FOR ALL
+  USING (has_project_role(auth.uid(), project_id, 'manager'::project_role))
+  WITH CHECK (has_project_role(auth.uid(), project_id, 'manager'::project_role));
+
+CREATE POLICY "Admins can manage all eval cases"
+  ON public.rag_eval_cases FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role full access to eval cases"
+  ON public.rag_eval_cases FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- E) Aggregates
+CREATE OR REPLACE FUNCTION public.get_answer_feedback_stats(
+  p_since timestamptz,
+  p_project_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH feedback AS (
+    SELECT *
+    FROM public.answer_feedback
+    WHERE created_at >= p_since
+      AND (p_project_id IS NULL OR project_id = p_project_id)
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'up', count(*) FILTER (WHERE rating = 'up'),
+        'down', count(*) FILTER (WHERE rating = 'down'),
+        'corrected', count(*) FILTER (WHERE correction IS NOT NULL AND correction <> ''),
+        'open', count(*) FILTER (WHERE rating = 'down' AND status = 'open'),
+        'promoted', count(*) FILTER (WHERE status = 'promoted')
+      )
+      FROM feedback
+    ),
+    'reasons', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('reason', reason, 'count', n) ORDER BY n DESC, reason)
+      FROM (
+        SELECT reason, count(*) AS n
+        FROM feedback, unnest(
+          CASE WHEN cardinality(reasons) > 0 THEN reasons ELSE ARRAY['unspecified'] END
+        ) AS reason
+        WHERE rating = 'down'
+        GROUP BY 1
+      ) r
+    ), '[]'::jsonb)
+  );
+$$;
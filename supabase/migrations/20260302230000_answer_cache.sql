@@ -0,0 +1,294 @@
+-- ============================================================
+-- MIGRATION: Semantic answer cache for rag-answer
+-- (A) project_data_versions: counter per project, bumped at most once per
+--     transaction by triggers on the tables answers are built from —
+--     extraction (experiments, measurements, experiment_conditions,
+--     knowledge_items), knowledge_facts, benchmarks, claims, formulations
+--     and indexing (search_chunks). Global knowledge facts and the global
+--     tables answers depend on (metrics_catalog, constraint_lexicon) bump
+--     every project
+-- (B) project_data_version_key(): the versions of a project scope as one
+--     comparable string
+-- (C) rag_answer_cache: finished answers keyed by scope, context mode,
+--     data version and question signature, matched by embedding
+--     similarity (match_rag_answer_cache). Service role only; expired and
+--     superseded entries are purged by pg_cron
+-- (D) rag_logs.cache_hit / cached_request_id: requests served from the
+--     cache and the request that produced the answer
+-- (E) assistant_messages.cached_at + UPDATE policy: the chat labels cached
+--     answers and replaces them in place when the user refreshes
+-- ============================================================
+
+-- A) Data versions
+CREATE TABLE IF NOT EXISTS public.project_data_versions (
+  project_id  uuid PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  version     bigint NOT NULL DEFAULT 1,
+  -- Transaction of the last bump: bulk writes bump once
+  bumped_txid bigint NOT NULL DEFAULT txid_current(),
+  bumped_by   text,
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_data_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view project data versions"
+  ON public.project_data_versions FOR SELECT
+  USING (is_project_member(auth.uid(), project_id));
+
+CREATE OR REPLACE FUNCTION public.bump_project_data_version(p_project_id uuid, p_source text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Skipped while the project itself is being deleted (cascades)
+  INSERT INTO public.project_data_versions AS v (project_id, bumped_by)
+  SELECT p_project_id, p_source
+  WHERE EXISTS (SELECT 1 FROM public.projects WHERE id = p_project_id)
+  ON CONFLICT (project_id) DO UPDATE
+    SET version = v.version + 1, bumped_txid = txid_current(), bumped_by = EXCLUDED.bumped_by, updated_at = now()
+    WHERE v.bumped_txid <> txid_current();
+$$;
+
+CREATE OR REPLACE FUNCTION public.touch_project_data_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows jsonb[];
+  v_row jsonb;
+  v_project_id uuid;
+BEGIN
+  v_rows := CASE TG_OP
+    WHEN 'INSERT' THEN ARRAY[to_jsonb(NEW)]
+    WHEN 'DELETE' THEN ARRAY[to_jsonb(OLD)]
+    ELSE ARRAY[to_jsonb(NEW), to_jsonb(OLD)]
+  END;
+
+  FOREACH v_row IN ARRAY v_rows LOOP
+    IF v_row ? 'project_id' THEN
+      v_project_id := (v_row->>'project_id')::uuid;
+      IF v_project_id IS NULL AND TG_TABLE_NAME = 'knowledge_facts' THEN
+        PERFORM public.bump_project_data_version(p.id, TG_TABLE_NAME) FROM public.projects p;
+        CONTINUE;
+      END IF;
+    ELSIF v_row ? 'experiment_id' THEN
+      SELECT e.project_id INTO v_project_id
+      FROM public.experiments e
+      WHERE e.id = (v_row->>'experiment_id')::uuid;
+    ELSE
+      -- formulation_components
+      SELECT f.project_id INTO v_project_id
+      FROM public.formulations f
+      WHERE f.id = (v_row->>'formulation_id')::uuid;
+    END IF;
+
+    IF v_project_id IS NOT NULL THEN
+      PERFORM public.bump_project_data_version(v_project_id, TG_TABLE_NAME);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Global tables (metric directions, the constraint gate vocabulary): one
+-- bump of every project per statement
+CREATE OR REPLACE FUNCTION public.touch_all_project_data_versions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.bump_project_data_version(p.id, TG_TABLE_NAME) FROM public.projects p;
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'experiments', 'measurements', 'experiment_conditions', 'knowledge_items',
+    'knowledge_facts', 'benchmarks', 'search_chunks', 'claims',
+    'formulations', 'formulation_components'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_data_version ON public.%I', t, t);
+    EXECUTE format(
+      'CREATE TRIGGER trg_%s_data_version AFTER INSERT OR UPDATE OR DELETE ON public.%I '
+      'FOR EACH ROW EXECUTE FUNCTION public.touch_project_data_version()',
+      t, t
+    );
+  END LOOP;
+
+  FOREACH t IN ARRAY ARRAY['metrics_catalog', 'constraint_lexicon'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_data_version ON public.%I', t, t);
+    EXECUTE format(
+      'CREATE TRIGGER trg_%s_data_version AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON public.%I '
+      'FOR EACH STATEMENT EXECUTE FUNCTION public.touch_all_project_data_versions()',
+      t, t
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.bump_project_data_version(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bump_project_data_version(uuid, text) TO service_role;
+
+-- B) Scope version: "project:version" pairs in project order (0 = never bumped)
+CREATE OR REPLACE FUNCTION public.project_data_version_key(p_project_ids uuid[])
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(string_agg(ids.id::text || ':' || COALESCE(v.version, 0), ',' ORDER BY ids.id), '')
+  FROM (SELECT DISTINCT unnest(p_project_ids) AS id) ids
+  LEFT JOIN public.project_data_versions v ON v.project_id = ids.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.project_data_version_key(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.project_data_version_key(uuid[]) TO service_role;
+
+-- C) Cached answers
+CREATE TABLE IF NOT EXISTS public.rag_answer_cache (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Cache version, context mode, primary and allowed projects
+  scope_key       text NOT NULL,
+  context_mode    text NOT NULL CHECK (context_mode IN ('project', 'global')),
+  data_version    text NOT NULL,
+  query           text NOT NULL,
+  query_norm      text NOT NULL,
+  -- Numbers, comparison words and constraint terms: must match exactly
+  signature       text NOT NULL,
+  query_embedding extensions.vector(1536),
+  -- rag-answer payload without per-request diagnostics
+  payload         jsonb NOT NULL,
+  request_id      text,
+  hit_count       integer NOT NULL DEFAULT 0,
+  last_hit_at     timestamptz,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  expires_at      timestamptz NOT NULL DEFAULT now() + interval '7 days'
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_answer_cache_key
+  ON public.rag_answer_cache (scope_key, context_mode, data_version, signature);
+CREATE INDEX IF NOT EXISTS idx_rag_answer_cache_expires
+  ON public.rag_answer_cache (expires_at);
+
+ALTER TABLE public.rag_answer_cache ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.rag_answer_cache FROM anon, authenticated;
+
+CREATE POLICY "Service role full access to rag_answer_cache"
+  ON public.rag_answer_cache FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Best live entry for the key: identical normalized question, or the
+-- closest embedding at or above p_min_similarity. Counts the hit
+CREATE OR REPLACE FUNCTION public.match_rag_answer_cache(
+  p_scope_key text,
+  p_context_mode text,
+  p_data_version text,
+  p_signature text,
+  p_query_norm text,
+  p_query_embedding text,
+  p_min_similarity float DEFAULT 0.96
+)
+RETURNS TABLE(
+  id uuid,
+  query text,
+  payload jsonb,
+  request_id text,
+  similarity float,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_embedding extensions.vector(1536);
+  v_id uuid;
+BEGIN
+  IF p_query_embedding IS NOT NULL THEN
+    v_embedding := p_query_embedding::extensions.vector(1536);
+  END IF;
+
+  SELECT c.id INTO v_id
+  FROM (
+    SELECT rc.id, rc.created_at,
+      CASE
+        WHEN rc.query_norm = p_query_norm THEN 1.0
+        WHEN v_embedding IS NULL OR rc.query_embedding IS NULL THEN 0.0
+        ELSE 1 - (rc.query_embedding <=> v_embedding)
+      END::float AS sim
+    FROM rag_answer_cache rc
+    WHERE rc.scope_key = p_scope_key
+      AND rc.context_mode = p_context_mode
+      AND rc.data_version = p_data_version
+      AND rc.signature = p_signature
+      AND rc.expires_at > now()
+  ) c
+  WHERE c.sim >= p_min_similarity
+  ORDER BY c.sim DESC, c.created_at DESC
+  LIMIT 1;
+
+  IF v_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE rag_answer_cache rc
+  SET hit_count = rc.hit_count + 1, last_hit_at = now()
+  WHERE rc.id = v_id
+  RETURNING rc.id, rc.query, rc.payload, rc.request_id,
+    CASE
+      WHEN rc.query_norm = p_query_norm THEN 1.0
+      WHEN v_embedding IS NULL OR rc.query_embedding IS NULL THEN 0.0
+      ELSE 1 - (rc.query_embedding <=> v_embedding)
+    END::float,
+    rc.created_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.match_rag_answer_cache(text, text, text, text, text, text, float) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_rag_answer_cache(text, text, text, text, text, text, float) TO service_role;
+
+-- pg_cron: purge expired entries and entries built on a superseded data
+-- version (data_version lists the "project:version" pairs of its scope)
+SELECT cron.schedule(
+  'cleanup-rag-answer-cache',
+  '17 * * * *',
+  $$
+  DELETE FROM public.rag_answer_cache rc
+  WHERE rc.expires_at < now()
+     OR rc.data_version <> public.project_data_version_key(ARRAY(
+       SELECT split_part(pair, ':', 1)::uuid
+       FROM unnest(string_to_array(NULLIF(rc.data_version, ''), ',')) AS pair
+     ));
+  $$
+);
+
+-- D) Cache attribution per RAG request
+ALTER TABLE public.rag_logs
+  ADD COLUMN IF NOT EXISTS cache_hit boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS cached_request_id text;
+
+-- E) Cached answers in the chat
+ALTER TABLE public.assistant_messages
+  ADD COLUMN IF NOT EXISTS cached_at timestamptz;
+
+CREATE POLICY "Users can update own conversation messages"
+  ON public.assistant_messages FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.assistant_conversations ac
+    WHERE ac.id = assistant_messages.conversation_id
+    AND ac.user_id = auth.uid()
+  ));
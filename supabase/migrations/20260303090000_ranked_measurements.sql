@@ -0,0 +1,75 @@
+-- ============================================================
+-- MIGRATION: Ranked measurements for comparative answers
+-- ranked_measurements(): the current_best row of every (project, metric,
+-- canonical unit) for any ranking sense — best / worst follow the metric
+-- direction, highest / lowest the raw canonical value. Ranking happens in
+-- SQL over every measurement, so no candidate is cut by a row limit first
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.ranked_measurements(
+  p_project_ids uuid[],
+  p_sense text DEFAULT 'best',
+  -- Case-insensitive substrings of the metric key; empty = every metric
+  p_metric_patterns text[] DEFAULT '{}'
+)
+RETURNS SETOF public.current_best
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      m.id              AS measurement_id,
+      e.project_id,
+      e.id              AS experiment_id,
+      e.title           AS experiment_title,
+      e.source_file_id  AS doc_id,
+      m.metric          AS metric_key,
+      m.raw_metric_name,
+      m.value,
+      m.unit,
+      COALESCE(m.value_canonical, m.value)  AS value_canonical,
+      COALESCE(m.unit_canonical, m.unit)    AS unit_canonical,
+      m.source_excerpt  AS excerpt,
+      m.confidence,
+      COALESCE(m.evidence_date, e.evidence_date, e.created_at) AS evidence_date,
+      COALESCE(mc.direction, 'maximize') AS direction,
+      mc.target_min,
+      mc.target_max,
+      m.conversion,
+      ROW_NUMBER() OVER (
+        PARTITION BY e.project_id, m.metric, COALESCE(m.unit_canonical, m.unit)
+        ORDER BY
+          CASE p_sense
+            WHEN 'worst' THEN -public.metric_rank_score(mc.direction, COALESCE(m.value_canonical, m.value), mc.target_min, mc.target_max)
+            WHEN 'highest' THEN -COALESCE(m.value_canonical, m.value)
+            WHEN 'lowest' THEN COALESCE(m.value_canonical, m.value)
+            ELSE public.metric_rank_score(mc.direction, COALESCE(m.value_canonical, m.value), mc.target_min, mc.target_max)
+          END ASC,
+          COALESCE(m.evidence_date, e.evidence_date, e.created_at) DESC,
+          CASE m.confidence WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END DESC
+      ) AS rn
+    FROM public.measurements m
+    JOIN public.experiments e ON e.id = m.experiment_id
+    LEFT JOIN public.metrics_catalog mc ON mc.canonical_name = m.metric
+    WHERE e.project_id = ANY(p_project_ids)
+      AND e.deleted_at IS NULL
+      -- Same rule as current_best: unconverted units are not ranked
+      AND m.conversion->>'status' NOT IN ('incompatible', 'unknown')
+      AND (
+        COALESCE(cardinality(p_metric_patterns), 0) = 0
+        OR m.metric ILIKE ANY (ARRAY(SELECT '%' || p || '%' FROM unnest(p_metric_patterns) AS p))
+      )
+  )
+  SELECT
+    measurement_id, project_id, experiment_id, experiment_title,
+    doc_id, metric_key, raw_metric_name,
+    value, unit, value_canonical, unit_canonical,
+    excerpt, confidence, evidence_date,
+    direction, target_min, target_max,
+    conversion
+  FROM ranked
+  WHERE rn = 1
+  ORDER BY project_id, metric_key, unit_canonical;
+$$;
@@ -0,0 +1,37 @@
+-- ============================================================
+-- MIGRATION: Structured query vocabulary
+-- measurement_query_vocabulary(): the distinct metrics and experiment
+-- condition keys of a project scope, for validating the structured
+-- measurement queries of rag-answer (_shared/measurement-query.ts).
+-- Computed with DISTINCT over every row, so no metric is missed in
+-- large projects
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.measurement_query_vocabulary(p_project_ids uuid[])
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'metrics', COALESCE((
+      SELECT jsonb_agg(metric ORDER BY metric)
+      FROM (
+        SELECT DISTINCT m.metric
+        FROM public.measurements m
+        JOIN public.experiments e ON e.id = m.experiment_id
+        WHERE e.project_id = ANY(p_project_ids) AND e.deleted_at IS NULL
+      ) metrics
+    ), '[]'::jsonb),
+    'condition_keys', COALESCE((
+      SELECT jsonb_agg(key ORDER BY key)
+      FROM (
+        SELECT DISTINCT ec.key
+        FROM public.experiment_conditions ec
+        JOIN public.experiments e ON e.id = ec.experiment_id
+        WHERE e.project_id = ANY(p_project_ids) AND e.deleted_at IS NULL
+      ) condition_keys
+    ), '[]'::jsonb)
+  );
+$$;